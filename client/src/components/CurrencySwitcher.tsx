@@ -0,0 +1,41 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Coins, Check } from 'lucide-react';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { useCurrency } from '@/hooks/useCurrency';
+import { getCurrencySymbol } from '@/utils/currency';
+
+interface CurrencySwitcherProps {
+  className?: string;
+}
+
+const CurrencySwitcher: React.FC<CurrencySwitcherProps> = ({ className }) => {
+  const { t } = useTranslation();
+  const { currency, currencies, setCurrency } = useCurrency();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className={className ?? 'text-gray-600 hover:text-tourtastic-blue'}>
+          <Coins className="h-5 w-5" />
+          <span className="ml-2">{currency}</span>
+          <span className="sr-only">{t('currency.switch', 'Change currency')}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-44">
+        {currencies.map((code) => (
+          <DropdownMenuItem key={code} onSelect={() => setCurrency(code)} className="cursor-pointer justify-between">
+            <span>{t(`currency.names.${code}`, code)}</span>
+            <span className="flex items-center gap-2 text-xs text-gray-500">
+              {getCurrencySymbol(code)}
+              {code === currency && <Check className="h-4 w-4 text-tourtastic-blue" />}
+            </span>
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
+
+export default CurrencySwitcher;
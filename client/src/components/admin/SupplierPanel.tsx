@@ -0,0 +1,198 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { AlertTriangle, Loader2, RefreshCw } from 'lucide-react';
+import api from '@/config/api';
+import { Button } from '@/components/ui/button';
+import { toastSuccess, toastError, confirmDialog } from '@/utils/i18nToast';
+
+type SupplierAction = 'cancel' | 'issue' | 'retry' | 'refresh';
+
+interface SupplierSnapshot {
+  status: string | null;
+  pnr: string | null;
+  ticketNumber: string | null;
+}
+
+interface SupplierState {
+  bookingId: string;
+  orderId: string | null;
+  paymentStatus?: string;
+  stored: SupplierSnapshot & { error: string | null };
+  live: (SupplierSnapshot & { rawStatus: string | null }) | null;
+  differences: Array<{ field: keyof SupplierSnapshot; stored: string | null; live: string | null }>;
+  allowedTransitions: string[];
+  ticketHistory: Array<{ status: string; date: string; notes?: string; updatedBy?: string }>;
+}
+
+interface SupplierPanelProps {
+  bookingId: string;
+  /** Whether the order actions are offered (supplier:manage) */
+  canManage?: boolean;
+  /** Called after an action changed the booking */
+  onChanged?: () => void;
+}
+
+const CONFIRM_MESSAGES: Record<SupplierAction, [string, string]> = {
+  cancel: ['هل تريد إلغاء هذا الطلب لدى المورد؟ لا يمكن التراجع عن ذلك', 'Cancel this order with the supplier? This cannot be undone.'],
+  issue: ['هل تريد إصدار التذكرة لدى المورد الآن؟', 'Issue the ticket with the supplier now?'],
+  retry: ['هل تريد إعادة محاولة إصدار التذكرة؟', 'Retry ticket issuance for this paid booking?'],
+  refresh: ['هل تريد مزامنة حالة الحجز مع المورد؟', 'Overwrite the stored supplier status with the live one?'],
+};
+
+const SupplierPanel: React.FC<SupplierPanelProps> = ({ bookingId, canManage = false, onChanged }) => {
+  const { t } = useTranslation();
+  const [state, setState] = useState<SupplierState | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [runningAction, setRunningAction] = useState<SupplierAction | null>(null);
+
+  const fetchState = useCallback(async () => {
+    setLoading(true);
+    setLoadError(null);
+    try {
+      const resp = await api.get(`/admin/flight-bookings/${encodeURIComponent(bookingId)}/supplier`);
+      if (resp.data?.data) setState(resp.data.data);
+      if (!resp.data?.success) setLoadError(resp.data?.error || resp.data?.message || 'Failed to load supplier order');
+    } catch (err) {
+      console.error('Failed to load supplier order', err);
+      setLoadError('Failed to load supplier order');
+    } finally {
+      setLoading(false);
+    }
+  }, [bookingId]);
+
+  useEffect(() => {
+    fetchState();
+  }, [fetchState]);
+
+  const runAction = async (action: SupplierAction) => {
+    const [ar, en] = CONFIRM_MESSAGES[action];
+    if (!confirmDialog(ar, en)) return;
+
+    try {
+      setRunningAction(action);
+      const resp = await api.post(`/admin/flight-bookings/${encodeURIComponent(bookingId)}/supplier/${action}`);
+      if (resp.data?.success) {
+        toastSuccess('تم تنفيذ الإجراء لدى المورد', resp.data.message || 'Supplier action completed');
+        onChanged?.();
+      } else {
+        toastError('فشل إجراء المورد', resp.data?.error || resp.data?.message || 'Supplier action failed');
+      }
+    } catch (err) {
+      console.error('Supplier action failed', err);
+      toastError('فشل إجراء المورد', 'Supplier action failed');
+    } finally {
+      setRunningAction(null);
+      fetchState();
+    }
+  };
+
+  if (loading && !state) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="h-5 w-5 animate-spin text-tourtastic-blue" />
+      </div>
+    );
+  }
+
+  if (!state) {
+    return <div className="text-sm text-red-600">{loadError}</div>;
+  }
+
+  if (!state.orderId) {
+    return <div className="text-sm text-muted-foreground">{t('admin.supplier.noOrder', 'This booking has no Seeru order yet.')}</div>;
+  }
+
+  const canIssue = state.allowedTransitions.includes('issued');
+  const canCancel = state.allowedTransitions.includes('cancelled');
+  const fieldLabel = (field: keyof SupplierSnapshot) => ({
+    status: t('status', 'Status'),
+    pnr: 'PNR',
+    ticketNumber: t('admin.bookings.ticketNumber', 'Ticket number'),
+  })[field];
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="text-sm">
+          {t('admin.supplier.orderId', 'Seeru order')}: <span className="font-mono">{state.orderId}</span>
+        </div>
+        <Button size="sm" variant="ghost" onClick={fetchState} disabled={loading} aria-label={t('admin.webhooks.refresh', 'Refresh')}>
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {loadError && <div className="text-sm text-red-600">{loadError}</div>}
+
+      <div className="grid grid-cols-3 gap-2 text-sm">
+        <div />
+        <div className="font-medium">{t('admin.supplier.stored', 'Stored')}</div>
+        <div className="font-medium">{t('admin.supplier.live', 'Seeru (live)')}</div>
+        {(['status', 'pnr', 'ticketNumber'] as const).map(field => {
+          const differs = state.differences.some(d => d.field === field);
+          return (
+            <React.Fragment key={field}>
+              <div className="text-muted-foreground">{fieldLabel(field)}</div>
+              <div className={differs ? 'text-amber-700 font-medium' : ''}>{state.stored[field] || '-'}</div>
+              <div className={differs ? 'text-amber-700 font-medium' : ''}>
+                {field === 'status' ? (state.live?.rawStatus || '-') : (state.live?.[field] || '-')}
+              </div>
+            </React.Fragment>
+          );
+        })}
+      </div>
+
+      {state.differences.length > 0 && (
+        <p className="flex items-center gap-1 text-xs text-amber-700">
+          <AlertTriangle className="h-3 w-3" />
+          {t('admin.supplier.outOfSync', 'Our record differs from Seeru. Sync to update it.')}
+        </p>
+      )}
+      {state.stored.error && <p className="text-xs text-red-600">{state.stored.error}</p>}
+
+      {canManage && (
+        <div className="flex flex-wrap gap-2">
+          <Button size="sm" variant="outline" disabled={!!runningAction} onClick={() => runAction('refresh')}>
+            {runningAction === 'refresh' && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+            {t('admin.supplier.sync', 'Sync from Seeru')}
+          </Button>
+          <Button size="sm" variant="outline" disabled={!!runningAction || !canIssue} onClick={() => runAction('issue')}>
+            {runningAction === 'issue' && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+            {t('admin.supplier.issue', 'Issue')}
+          </Button>
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={!!runningAction || !canIssue || state.paymentStatus !== 'completed'}
+            onClick={() => runAction('retry')}
+          >
+            {runningAction === 'retry' && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+            {t('admin.supplier.retry', 'Retry issuance')}
+          </Button>
+          <Button size="sm" variant="destructive" disabled={!!runningAction || !canCancel} onClick={() => runAction('cancel')}>
+            {runningAction === 'cancel' && <Loader2 className="h-3 w-3 animate-spin mr-1" />}
+            {t('admin.supplier.cancel', 'Cancel order')}
+          </Button>
+        </div>
+      )}
+
+      {state.ticketHistory.length > 0 && (
+        <div>
+          <h5 className="text-sm font-medium mb-1">{t('admin.supplier.history', 'Action history')}</h5>
+          <ul className="space-y-1 max-h-40 overflow-y-auto text-xs">
+            {[...state.ticketHistory].reverse().map((entry, index) => (
+              <li key={`${entry.date}-${index}`} className="border-b pb-1">
+                <span className="text-muted-foreground">{entry.date ? format(new Date(entry.date), 'yyyy-MM-dd HH:mm') : '-'}</span>
+                {' · '}{entry.notes || entry.status}
+                {entry.updatedBy && <span className="text-muted-foreground"> ({entry.updatedBy})</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SupplierPanel;
@@ -0,0 +1,121 @@
+import React, { useMemo, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { X } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { getAirlineLogo, getAirlineOptions } from './utils/flightHelpers';
+
+interface AirlinePreferencePickerProps {
+  id: string;
+  label: string;
+  // Selected IATA codes
+  value: string[];
+  onChange: (codes: string[]) => void;
+  // Codes picked in the other list, which can't be picked here too
+  unavailable?: string[];
+}
+
+const MAX_AIRLINES = 10;
+const MAX_SUGGESTIONS = 8;
+const AIRLINE_CODE = /^[A-Z0-9]{2}$/;
+
+const AirlinePreferencePicker: React.FC<AirlinePreferencePickerProps> = ({ id, label, value, onChange, unavailable = [] }) => {
+  const { t } = useTranslation();
+  const [query, setQuery] = useState('');
+  const [open, setOpen] = useState(false);
+  const options = useMemo(() => getAirlineOptions(), []);
+  const nameByCode = useMemo(() => new Map(options.map(option => [option.code, option.name])), [options]);
+
+  const suggestions = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    if (!term) return [];
+    return options
+      .filter(option => !value.includes(option.code) && !unavailable.includes(option.code))
+      .filter(option => option.code.toLowerCase().startsWith(term) || option.name.toLowerCase().includes(term))
+      .slice(0, MAX_SUGGESTIONS);
+  }, [options, query, value, unavailable]);
+
+  const addAirline = (code: string) => {
+    if (value.length >= MAX_AIRLINES || value.includes(code) || unavailable.includes(code)) return;
+    onChange([...value, code]);
+    setQuery('');
+    setOpen(false);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    // Keep Enter from submitting the search form
+    e.preventDefault();
+    if (suggestions.length > 0) {
+      addAirline(suggestions[0].code);
+      return;
+    }
+    // Airlines without a logo can still be entered by their IATA code
+    const code = query.trim().toUpperCase();
+    if (AIRLINE_CODE.test(code)) addAirline(code);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <div className="relative">
+        <Input
+          id={id}
+          value={query}
+          disabled={value.length >= MAX_AIRLINES}
+          placeholder={t('airlinePreferences.placeholder', 'Airline name or code')}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={handleKeyDown}
+          autoComplete="off"
+        />
+        {open && query.trim() && (
+          <ul className="absolute z-50 bg-white border w-full max-h-48 overflow-y-auto shadow-lg rounded mt-1">
+            {suggestions.length > 0 ? (
+              suggestions.map(option => (
+                <li
+                  key={option.code}
+                  className="flex items-center gap-2 px-3 py-2 hover:bg-gray-100 cursor-pointer text-sm"
+                  onMouseDown={() => addAirline(option.code)}
+                >
+                  <img src={option.logo} alt="" width="20" height="20" loading="lazy" className="h-5 w-5 object-contain" />
+                  <span className="font-medium">{option.code}</span>
+                  <span className="text-gray-500">{option.name}</span>
+                </li>
+              ))
+            ) : (
+              <li className="px-3 py-2 text-sm text-gray-500">
+                {t('airlinePreferences.noMatches', 'No matching airlines. Press Enter to add a two-letter airline code.')}
+              </li>
+            )}
+          </ul>
+        )}
+      </div>
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {value.map(code => (
+            <span key={code} className="inline-flex items-center gap-1 rounded-full border bg-gray-50 px-2 py-1 text-xs">
+              <img src={getAirlineLogo(code)} alt="" width="16" height="16" className="h-4 w-4 object-contain" />
+              <span className="font-medium">{code}</span>
+              {nameByCode.get(code) && <span className="text-gray-500">{nameByCode.get(code)}</span>}
+              <button
+                type="button"
+                className="ml-1 text-gray-400 hover:text-gray-700"
+                aria-label={t('airlinePreferences.remove', 'Remove {{airline}}', { airline: nameByCode.get(code) || code })}
+                onClick={() => onChange(value.filter(item => item !== code))}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AirlinePreferencePicker;
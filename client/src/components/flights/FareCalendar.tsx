@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format, isSameDay } from 'date-fns';
+import { ar, enUS } from 'date-fns/locale';
+import { CalendarDays } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Skeleton } from '@/components/ui/skeleton';
+import { cn } from '@/lib/utils';
+import { useCurrency } from '@/hooks/useCurrency';
+import type { DayFare } from '@/hooks/useFareCalendar';
+
+interface FareCalendarProps {
+  departureFares: DayFare[];
+  returnFares: DayFare[];
+  selectedDeparture?: Date;
+  selectedReturn?: Date;
+  onSelect: (departureDate: Date, returnDate?: Date) => void;
+}
+
+interface MatrixCell {
+  loading: boolean;
+  price: number | null;
+  available: boolean;
+}
+
+const FareCalendar: React.FC<FareCalendarProps> = ({
+  departureFares,
+  returnFares,
+  selectedDeparture,
+  selectedReturn,
+  onSelect,
+}) => {
+  const { t, i18n } = useTranslation();
+  const { formatPrice } = useCurrency();
+  const locale = i18n.language === 'ar' ? ar : enUS;
+  const isRoundTrip = returnFares.length > 0;
+
+  // Round-trip totals combine the cheapest outbound and return fares for each pair of days
+  const matrix = useMemo<MatrixCell[][]>(() => {
+    const rows = isRoundTrip ? returnFares : [null];
+    return rows.map(ret => departureFares.map(dep => {
+      if (!ret) return { loading: dep.loading, price: dep.price, available: true };
+      const available = ret.date.getTime() > dep.date.getTime();
+      const loading = available && (dep.loading || ret.loading);
+      const price = available && dep.price != null && ret.price != null ? dep.price + ret.price : null;
+      return { loading, price, available };
+    }));
+  }, [departureFares, returnFares, isRoundTrip]);
+
+  const cheapest = useMemo(() => {
+    const prices = matrix.flat().map(cell => cell.price).filter((p): p is number => p != null);
+    return prices.length > 0 ? Math.min(...prices) : null;
+  }, [matrix]);
+
+  if (departureFares.length === 0) return null;
+
+  const formatDay = (date: Date) => format(date, 'EEE d MMM', { locale });
+
+  const renderCell = (cell: MatrixCell, dep: DayFare, ret?: DayFare) => {
+    const selected = !!selectedDeparture && isSameDay(dep.date, selectedDeparture)
+      && (!ret || (!!selectedReturn && isSameDay(ret.date, selectedReturn)));
+    const key = `${dep.date.getTime()}-${ret?.date.getTime() ?? 'ow'}`;
+
+    if (!cell.available) {
+      return <td key={key} className="p-1"><div className="h-12 rounded bg-gray-50" /></td>;
+    }
+
+    return (
+      <td key={key} className="p-1">
+        <button
+          type="button"
+          disabled={cell.loading || cell.price == null}
+          onClick={() => onSelect(dep.date, ret?.date)}
+          className={cn(
+            'w-full h-12 rounded border text-xs md:text-sm transition-colors',
+            selected ? 'border-tourtastic-blue bg-blue-50 font-semibold' : 'border-gray-200 hover:border-tourtastic-blue',
+            cell.price != null && cell.price === cheapest && 'text-green-700 font-semibold',
+            (cell.loading || cell.price == null) && 'cursor-default hover:border-gray-200'
+          )}
+        >
+          {cell.loading ? (
+            <Skeleton className="h-4 w-16 mx-auto" />
+          ) : cell.price != null ? (
+            formatPrice(cell.price)
+          ) : (
+            <span className="text-gray-400">{t('fareCalendar.noFare', 'No fares')}</span>
+          )}
+        </button>
+      </td>
+    );
+  };
+
+  return (
+    <Card className="mb-6">
+      <CardContent className="p-4 space-y-3">
+        <div className="flex items-center gap-2">
+          <CalendarDays className="h-5 w-5 text-tourtastic-blue" />
+          <h3 className="font-semibold">{t('fareCalendar.title', 'Flexible dates')}</h3>
+          <span className="text-xs text-gray-500">
+            {isRoundTrip
+              ? t('fareCalendar.roundTripHint', 'Total price for departure (columns) and return (rows)')
+              : t('fareCalendar.oneWayHint', 'Cheapest fare for nearby days')}
+          </span>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[560px] table-fixed">
+            <thead>
+              <tr>
+                {isRoundTrip && <th className="w-24" />}
+                {departureFares.map(dep => (
+                  <th key={dep.date.getTime()} className="p-1 text-xs font-medium text-gray-600">
+                    {formatDay(dep.date)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrix.map((row, rowIdx) => {
+                const ret = isRoundTrip ? returnFares[rowIdx] : undefined;
+                return (
+                  <tr key={ret?.date.getTime() ?? 'oneWay'}>
+                    {ret && <th className="p-1 text-xs font-medium text-gray-600 text-start">{formatDay(ret.date)}</th>}
+                    {row.map((cell, colIdx) => renderCell(cell, departureFares[colIdx], ret))}
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FareCalendar;
@@ -7,7 +7,7 @@ import { Button } from '@/components/ui/button';
 import { Flight } from '../../services/flightService';
 import { getAirlineLogo, getTimeOfDay, getTimeOfDayIcon, getTimeOfDayWithColor, formatBaggage } from './utils/flightHelpers';
 import { getAirportsMap } from '@/services/airportService';
-import { formatSypFromUsd } from '@/utils/currency';
+import { useCurrency } from '@/hooks/useCurrency';
 
 interface FlightCardProps {
   flight: Flight;
@@ -25,6 +25,7 @@ const FlightCard: React.FC<FlightCardProps> = ({
   onAddToCart
 }) => {
   const { t, i18n } = useTranslation();
+  const { formatPrice } = useCurrency();
   const [airportsMap, setAirportsMap] = useState<Record<string, import('@/services/airportService').Airport>>({});
   // mobile inline expansion removed: tapping the compact header will open details via onFlightSelection
 
@@ -37,23 +38,25 @@ const FlightCard: React.FC<FlightCardProps> = ({
     return () => { mounted = false; };
   }, [i18n.language]);
 
-  // Calculate totals and adult base/tax
-  const { totalPrice, adultBase, adultTax } = useMemo(() => {
-    const adtPrice = flight.price_breakdowns?.ADT?.price ?? flight.price ?? 0;
-    const adtTax = flight.price_breakdowns?.ADT?.tax ?? flight.tax ?? 0;
+  // Calculate totals and adult base/tax/service fee
+  const { totalPrice, adultBase, adultTax, serviceFeeTotal } = useMemo(() => {
+    const passengerTotal = (type: 'ADT' | 'CHD' | 'INF', count: number) => {
+      const breakdown = flight.price_breakdowns?.[type];
+      const price = breakdown?.price ?? flight.price ?? 0;
+      const tax = breakdown?.tax ?? flight.tax ?? 0;
+      const serviceFee = breakdown?.service_fee ?? 0;
+      return { total: count * (price + tax + serviceFee), serviceFee: count * serviceFee };
+    };
 
-    const adtTotal = (flight.search_query?.adt || 0) * (adtPrice + adtTax);
-    const chdPrice = flight.price_breakdowns?.CHD?.price ?? flight.price ?? 0;
-    const chdTax = flight.price_breakdowns?.CHD?.tax ?? flight.tax ?? 0;
-    const chdTotal = (flight.search_query?.chd || 0) * (chdPrice + chdTax);
-    const infPrice = flight.price_breakdowns?.INF?.price ?? flight.price ?? 0;
-    const infTax = flight.price_breakdowns?.INF?.tax ?? flight.tax ?? 0;
-    const infTotal = (flight.search_query?.inf || 0) * (infPrice + infTax);
+    const adt = passengerTotal('ADT', flight.search_query?.adt || 0);
+    const chd = passengerTotal('CHD', flight.search_query?.chd || 0);
+    const inf = passengerTotal('INF', flight.search_query?.inf || 0);
 
     return {
-      totalPrice: adtTotal + chdTotal + infTotal,
-      adultBase: adtPrice,
-      adultTax: adtTax,
+      totalPrice: adt.total + chd.total + inf.total,
+      adultBase: flight.price_breakdowns?.ADT?.price ?? flight.price ?? 0,
+      adultTax: flight.price_breakdowns?.ADT?.tax ?? flight.tax ?? 0,
+      serviceFeeTotal: adt.serviceFee + chd.serviceFee + inf.serviceFee,
     };
   }, [flight.price_breakdowns, flight.price, flight.tax, flight.search_query]);
 
@@ -125,7 +128,7 @@ const FlightCard: React.FC<FlightCardProps> = ({
         </div>
         <div className="flex items-center gap-3">
           <div className="text-right">
-            <div className="text-lg font-bold text-gray-900">{formatSypFromUsd(totalPrice)}</div>
+            <div className="text-lg font-bold text-gray-900">{formatPrice(totalPrice)}</div>
             <div className="text-xs text-gray-500">{t('perPerson', 'per person')}</div>
           </div>
           {/* mobile: remove explicit select/details buttons to make the whole ticket tappable */}
@@ -281,15 +284,20 @@ const FlightCard: React.FC<FlightCardProps> = ({
         <div className="flex flex-col items-center lg:items-end gap-3 w-full lg:w-auto lg:min-w-[220px] px-2 sm:px-4">
           {/* Black price: adult base */}
           <div className="text-xl sm:text-2xl font-bold text-center lg:text-right break-words">
-            {formatSypFromUsd(adultBase)}
+            {formatPrice(adultBase)}
           </div>
           <div className="text-xs text-gray-600 text-center lg:text-right whitespace-normal">
             {t('perAdult', 'للبالغ')} {t('base', 'السعر الأساسي')}
           </div>
           {/* Adult tax line */}
           <div className="text-xs text-gray-600 text-center lg:text-right whitespace-normal">
-            {t('tax', 'الضرائب')}: {formatSypFromUsd(adultTax)}
+            {t('tax', 'الضرائب')}: {formatPrice(adultTax)}
           </div>
+          {serviceFeeTotal > 0 && (
+            <div className="text-xs text-gray-600 text-center lg:text-right whitespace-normal">
+              {t('serviceFee', 'رسوم الخدمة')}: {formatPrice(serviceFeeTotal)}
+            </div>
+          )}
 
           {/* Passenger counts */}
           <div className="text-xs text-gray-700 text-center lg:text-right">
@@ -300,7 +308,7 @@ const FlightCard: React.FC<FlightCardProps> = ({
           
           {/* Blue total */}
           <div className="text-xs font-semibold text-tourtastic-blue text-center lg:text-right">
-            {t('total', 'المجموع')}: {formatSypFromUsd(totalPrice)}
+            {t('total', 'المجموع')}: {formatPrice(totalPrice)}
           </div>
 
           <div className="text-xs text-gray-600 text-center lg:text-right flex items-center justify-center lg:justify-end gap-1 px-2 max-w-full">
@@ -5,7 +5,7 @@ import { Info, ShoppingCart } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Flight } from '../../services/flightService';
 import { getTimeOfDay, getTimeOfDayIcon, getTimeOfDayWithColor, formatBaggage } from './utils/flightHelpers';
-import { formatSypFromUsd } from '@/utils/currency';
+import { useCurrency } from '@/hooks/useCurrency';
 import { getAirportsMap } from '@/services/airportService';
 
 interface FlightDetailsProps {
@@ -15,6 +15,7 @@ interface FlightDetailsProps {
 
 const FlightDetails: React.FC<FlightDetailsProps> = ({ flight, onAddToCart }) => {
   const { t } = useTranslation();
+  const { formatPrice } = useCurrency();
 
   const adtCount = flight.search_query?.adt || 0;
   const chdCount = flight.search_query?.chd || 0;
@@ -214,12 +215,12 @@ const FlightDetails: React.FC<FlightDetailsProps> = ({ flight, onAddToCart }) =>
               <div className="flex justify-between text-sm border-b pb-2">
                 <span className="font-medium">{adtCount} × {t('adults', 'بالغ')}</span>
                 <div className="text-right">
-                  <div>{formatSypFromUsd(breakdown.adt.total)} {t('each', 'للشخص')}</div>
+                  <div>{formatPrice(breakdown.adt.total)} {t('each', 'للشخص')}</div>
                   <div className="text-xs text-gray-500">
-                    {t('base', 'السعر الأساسي')}: {formatSypFromUsd(breakdown.adt.price)} + {t('tax', 'الضرائب')}: {formatSypFromUsd(breakdown.adt.tax)}
+                    {t('base', 'السعر الأساسي')}: {formatPrice(breakdown.adt.price)} + {t('tax', 'الضرائب')}: {formatPrice(breakdown.adt.tax)}
                   </div>
                   <div className="text-xs text-gray-500">
-                    {t('subtotal', 'المجموع الفرعي')}: {formatSypFromUsd(breakdown.adt.total * adtCount)}
+                    {t('subtotal', 'المجموع الفرعي')}: {formatPrice(breakdown.adt.total * adtCount)}
                   </div>
                 </div>
               </div>
@@ -228,12 +229,12 @@ const FlightDetails: React.FC<FlightDetailsProps> = ({ flight, onAddToCart }) =>
               <div className="flex justify-between text-sm border-b pb-2">
                 <span className="font-medium">{chdCount} × {t('children', 'طفل')}</span>
                 <div className="text-right">
-                  <div>{formatSypFromUsd(breakdown.chd.total)} {t('each', 'للشخص')}</div>
+                  <div>{formatPrice(breakdown.chd.total)} {t('each', 'للشخص')}</div>
                   <div className="text-xs text-gray-500">
-                    {t('base', 'السعر الأساسي')}: {formatSypFromUsd(breakdown.chd.price)} + {t('tax', 'الضرائب')}: {formatSypFromUsd(breakdown.chd.tax)}
+                    {t('base', 'السعر الأساسي')}: {formatPrice(breakdown.chd.price)} + {t('tax', 'الضرائب')}: {formatPrice(breakdown.chd.tax)}
                   </div>
                   <div className="text-xs text-gray-500">
-                    {t('subtotal', 'المجموع الفرعي')}: {formatSypFromUsd(breakdown.chd.total * chdCount)}
+                    {t('subtotal', 'المجموع الفرعي')}: {formatPrice(breakdown.chd.total * chdCount)}
                   </div>
                 </div>
               </div>
@@ -242,27 +243,27 @@ const FlightDetails: React.FC<FlightDetailsProps> = ({ flight, onAddToCart }) =>
               <div className="flex justify-between text-sm border-b pb-2">
                 <span className="font-medium">{infCount} × {t('infants', 'رضيع')}</span>
                 <div className="text-right">
-                  <div>{formatSypFromUsd(breakdown.inf.total)} {t('each', 'للشخص')}</div>
+                  <div>{formatPrice(breakdown.inf.total)} {t('each', 'للشخص')}</div>
                   <div className="text-xs text-gray-500">
-                    {t('base', 'السعر الأساسي')}: {formatSypFromUsd(breakdown.inf.price)} + {t('tax', 'الضرائب')}: {formatSypFromUsd(breakdown.inf.tax)}
+                    {t('base', 'السعر الأساسي')}: {formatPrice(breakdown.inf.price)} + {t('tax', 'الضرائب')}: {formatPrice(breakdown.inf.tax)}
                   </div>
                   <div className="text-xs text-gray-500">
-                    {t('subtotal', 'المجموع الفرعي')}: {formatSypFromUsd(breakdown.inf.total * infCount)}
+                    {t('subtotal', 'المجموع الفرعي')}: {formatPrice(breakdown.inf.total * infCount)}
                   </div>
                 </div>
               </div>
             )}
             <div className="flex justify-between">
               <span className="text-gray-500">{t('base', 'السعر الأساسي')}</span>
-              <span>{formatSypFromUsd(flight.price || 0)}</span>
+              <span>{formatPrice(flight.price || 0)}</span>
             </div>
             <div className="flex justify-between">
               <span className="text-gray-500">{t('taxes', 'الضرائب')}</span>
-              <span>{formatSypFromUsd(flight.tax || 0)}</span>
+              <span>{formatPrice(flight.tax || 0)}</span>
             </div>
             <div className="flex justify-between font-semibold border-t pt-2">
               <span>{t('total', 'المجموع')}</span>
-              <span>{formatSypFromUsd(grandTotal)}</span>
+              <span>{formatPrice(grandTotal)}</span>
             </div>
           </div>
           {onAddToCart && (
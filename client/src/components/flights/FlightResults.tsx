@@ -5,12 +5,13 @@ import { Plane, Info, ShoppingCart } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Flight } from '../../services/flightService';
-import { getAirlineLogo, formatBaggage } from './utils/flightHelpers';
+import { getAirlineLogo, formatBaggage, getFlightTotalPrice } from './utils/flightHelpers';
+import VirtualFlightList from './VirtualFlightList';
 
 import { getAirportsMap } from '../../services/airportService';
 import type { Airport as ApiAirport } from '../../services/airportService';
 import type { FlightSegment } from '../../services/flightService';
-import { formatSypFromUsd } from '@/utils/currency';
+import { useCurrency } from '@/hooks/useCurrency';
 
 // Helper function to get time of day
 const getTimeOfDay = (dateString: string) => {
@@ -51,9 +52,6 @@ interface FlightResultsProps {
   onFlightSelection: (flight: Flight) => void;
   selectedFlight?: Flight;
   onAddToCart?: (flight: Flight) => void;
-  onLoadMore?: () => void;
-  hasMore?: boolean;
-  loading?: boolean;
   showDetails?: string | null;
 }
 
@@ -63,9 +61,6 @@ const FlightResults: React.FC<FlightResultsProps> = ({
   onFlightSelection,
   selectedFlight,
   onAddToCart,
-  onLoadMore,
-  hasMore = false,
-  loading = false,
   showDetails
 }) => {
   const { t, i18n } = useTranslation();
@@ -102,35 +97,19 @@ const FlightResults: React.FC<FlightResultsProps> = ({
   }
 
   return (
-    <div className="space-y-6">
-      {/* Display flights without grouping by date for simpler pagination */}
-      <div className="space-y-4">
-        {flights.map((flight) => (
-          <FlightCard
-            key={flight.trip_id}
-            flight={flight}
-            onFlightSelection={handleFlightSelection}
-            selectedFlight={selectedFlight}
-            showDetails={showDetails}
-            onAddToCart={onAddToCart}
-            airportsMap={airportsMap}
-          />
-        ))}
-      </div>
-
-      {/* Load More Button */}
-      {hasMore && (
-        <div className="text-center py-6">
-          <Button
-            onClick={() => onLoadMore && onLoadMore()}
-            disabled={loading}
-            className="bg-tourtastic-blue hover:bg-tourtastic-dark-blue text-white px-8 py-2"
-          >
-            {loading ? t('loading', 'Loading...') : t('loadMore', 'Load More Flights')}
-          </Button>
-        </div>
+    <VirtualFlightList
+      flights={flights}
+      renderFlight={(flight) => (
+        <FlightCard
+          flight={flight}
+          onFlightSelection={handleFlightSelection}
+          selectedFlight={selectedFlight}
+          showDetails={showDetails}
+          onAddToCart={onAddToCart}
+          airportsMap={airportsMap}
+        />
       )}
-    </div>
+    />
   );
 };
 
@@ -152,6 +131,7 @@ const FlightCard: React.FC<FlightCardProps> = ({
   , airportsMap
 }) => {
   const { t, i18n } = useTranslation();
+  const { formatPrice } = useCurrency();
   // local expanded removed; mobile taps call onFlightSelection to show details
 
   const getAirlineDisplay = (segment: FlightSegment) => {
@@ -174,28 +154,7 @@ const FlightCard: React.FC<FlightCardProps> = ({
   };
 
   // Calculate total price using useMemo
-  const totalPrice = useMemo(() => {
-    // First try to use the pre-calculated total_price from backend
-    if (flight.total_price && flight.total_price > 0) {
-      return flight.total_price;
-    }
-
-    // Fallback: calculate manually using price + tax for single passenger
-    // then multiply by passenger count
-    const singlePassengerTotal = (flight.price || 0) + (flight.tax || 0);
-
-    // If we have detailed breakdowns, use them
-    if (flight.price_breakdowns) {
-      const adtTotal = (flight.search_query?.adt || 0) * (flight.price_breakdowns.ADT?.total || singlePassengerTotal);
-      const chdTotal = (flight.search_query?.chd || 0) * (flight.price_breakdowns.CHD?.total || singlePassengerTotal * 0.75);
-      const infTotal = (flight.search_query?.inf || 0) * (flight.price_breakdowns.INF?.total || singlePassengerTotal * 0.1);
-      return adtTotal + chdTotal + infTotal;
-    }
-
-    // Simple fallback for single adult passenger
-    const totalPassengers = (flight.search_query?.adt || 1) + (flight.search_query?.chd || 0) + (flight.search_query?.inf || 0);
-    return singlePassengerTotal * totalPassengers;
-  }, [flight.search_query, flight.price_breakdowns, flight.total_price, flight.price, flight.tax]);
+  const totalPrice = useMemo(() => getFlightTotalPrice(flight), [flight]);
 
   return (
     <Card className={`p-4 md:p-6 hover:shadow-lg transition-all duration-200 cursor-pointer border-l-4 ${selectedFlight?.trip_id === flight.trip_id
@@ -240,7 +199,7 @@ const FlightCard: React.FC<FlightCardProps> = ({
         </div>
         <div className="flex items-center gap-3">
           <div className="text-right">
-            <div className="text-lg font-bold text-gray-900">{formatSypFromUsd(totalPrice)}</div>
+            <div className="text-lg font-bold text-gray-900">{formatPrice(totalPrice)}</div>
             <div className="text-xs text-gray-500">{t('perPerson', 'per person')}</div>
           </div>
           {/* mobile: buttons removed to make header tappable */}
@@ -357,19 +316,19 @@ const FlightCard: React.FC<FlightCardProps> = ({
             {/* Per Person Price (Adult Rate) - Show First */}
             <div className="text-center lg:text-right">
               <div className="text-2xl font-bold text-gray-900">
-                {formatSypFromUsd(flight.price_breakdowns?.ADT?.total || 0)}
+                {formatPrice(flight.price_breakdowns?.ADT?.total || 0)}
               </div>
               <div className="text-sm text-gray-500">
                 {t('perPerson', 'per person')}
               </div>
               <div className="text-xs text-gray-400">
-                {t('baseFare', 'Base')}: {formatSypFromUsd(flight.price_breakdowns?.ADT?.price || 0)} + 
-                {t('taxes', 'Taxes')}: {formatSypFromUsd(flight.price_breakdowns?.ADT?.tax || 0)}
+                {t('baseFare', 'Base')}: {formatPrice(flight.price_breakdowns?.ADT?.price || 0)} + 
+                {t('taxes', 'Taxes')}: {formatPrice(flight.price_breakdowns?.ADT?.tax || 0)}
               </div>
             </div>          {/* Total Price for All Passengers - Show Second */}
           <div className="text-center lg:text-right">
             <div className="text-lg font-semibold text-tourtastic-blue">
-              {t('total', 'Total')}: {formatSypFromUsd(totalPrice)}
+              {t('total', 'Total')}: {formatPrice(totalPrice)}
             </div>
             <div className="text-xs text-gray-600">
               {(flight.search_query?.adt || 0) > 0 && `${flight.search_query.adt} ${t('adults', 'Adults')}`}
@@ -418,7 +377,7 @@ const FlightCard: React.FC<FlightCardProps> = ({
               <div className="text-xs text-gray-400 mt-0.5">{format(new Date(flight.legs[0].segments[0].from.date), 'EEE, MMM d')}</div>
             </div>
             <div className="text-right">
-              <div className="text-sm font-semibold text-tourtastic-blue">{formatSypFromUsd(totalPrice)}</div>
+              <div className="text-sm font-semibold text-tourtastic-blue">{formatPrice(totalPrice)}</div>
               <div className="text-xs text-gray-500">{t('perPerson', 'per person')}</div>
             </div>
           </div>
@@ -488,13 +447,13 @@ const FlightCard: React.FC<FlightCardProps> = ({
                         {flight.search_query.adt} × {t('adultPassenger', 'Adult')}
                       </span>
                       <div className="text-right">
-                        <div>{formatSypFromUsd(flight.price_breakdowns.ADT.total)} {t('perPerson', 'per person')}</div>
+                        <div>{formatPrice(flight.price_breakdowns.ADT.total)} {t('perPerson', 'per person')}</div>
                         <div className="text-xs text-gray-500">
-                          {t('baseFare', 'Base')}: {formatSypFromUsd(flight.price_breakdowns.ADT.price)} + 
-                          {t('taxes', 'Taxes')}: {formatSypFromUsd(flight.price_breakdowns.ADT.tax)}
+                          {t('baseFare', 'Base')}: {formatPrice(flight.price_breakdowns.ADT.price)} + 
+                          {t('taxes', 'Taxes')}: {formatPrice(flight.price_breakdowns.ADT.tax)}
                         </div>
                         <div className="text-xs text-gray-500">
-                          {t('subtotalAmount', 'Subtotal')}: {formatSypFromUsd((flight.price_breakdowns.ADT.total || 0) * (flight.search_query?.adt || 0))}
+                          {t('subtotalAmount', 'Subtotal')}: {formatPrice((flight.price_breakdowns.ADT.total || 0) * (flight.search_query?.adt || 0))}
                         </div>
                       </div>
                     </div>
@@ -507,13 +466,13 @@ const FlightCard: React.FC<FlightCardProps> = ({
                         {flight.search_query.chd} × {flight.price_breakdowns.CHD.label || t('children', 'Children')}
                       </span>
                       <div className="text-right">
-                        <div>{formatSypFromUsd(flight.price_breakdowns.CHD.total)} {t('each', 'each')}</div>
+                        <div>{formatPrice(flight.price_breakdowns.CHD.total)} {t('each', 'each')}</div>
                         <div className="text-xs text-gray-500">
-                          {t('base', 'Base')}: {formatSypFromUsd(flight.price_breakdowns.CHD.price)} + 
-                          {t('tax', 'Tax')}: {formatSypFromUsd(flight.price_breakdowns.CHD.tax)}
+                          {t('base', 'Base')}: {formatPrice(flight.price_breakdowns.CHD.price)} + 
+                          {t('tax', 'Tax')}: {formatPrice(flight.price_breakdowns.CHD.tax)}
                         </div>
                         <div className="text-xs text-gray-500">
-                          {t('subtotal', 'Subtotal')}: {formatSypFromUsd((flight.price_breakdowns.CHD.total || 0) * (flight.search_query?.chd || 0))}
+                          {t('subtotal', 'Subtotal')}: {formatPrice((flight.price_breakdowns.CHD.total || 0) * (flight.search_query?.chd || 0))}
                         </div>
                       </div>
                     </div>
@@ -526,13 +485,13 @@ const FlightCard: React.FC<FlightCardProps> = ({
                         {flight.search_query.inf} × {flight.price_breakdowns.INF.label || t('infants', 'Infants')}
                       </span>
                       <div className="text-right">
-                        <div>{formatSypFromUsd(flight.price_breakdowns.INF.total)} {t('each', 'each')}</div>
+                        <div>{formatPrice(flight.price_breakdowns.INF.total)} {t('each', 'each')}</div>
                         <div className="text-xs text-gray-500">
-                          {t('base', 'Base')}: {formatSypFromUsd(flight.price_breakdowns.INF.price)} + 
-                          {t('tax', 'Tax')}: {formatSypFromUsd(flight.price_breakdowns.INF.tax)}
+                          {t('base', 'Base')}: {formatPrice(flight.price_breakdowns.INF.price)} + 
+                          {t('tax', 'Tax')}: {formatPrice(flight.price_breakdowns.INF.tax)}
                         </div>
                         <div className="text-xs text-gray-500">
-                          {t('subtotal', 'Subtotal')}: {formatSypFromUsd((flight.price_breakdowns.INF.total || 0) * (flight.search_query?.inf || 0))}
+                          {t('subtotal', 'Subtotal')}: {formatPrice((flight.price_breakdowns.INF.total || 0) * (flight.search_query?.inf || 0))}
                         </div>
                       </div>
                     </div>
@@ -543,7 +502,7 @@ const FlightCard: React.FC<FlightCardProps> = ({
                 <div className="border-t pt-2 space-y-1">
                   <div className="flex justify-between font-semibold text-lg">
                     <span>{t('grandTotal', 'Grand Total')}</span>
-                    <span>{formatSypFromUsd(totalPrice)}</span>
+                    <span>{formatPrice(totalPrice)}</span>
                   </div>
                 </div>
               </div>
@@ -0,0 +1,61 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Clock } from 'lucide-react';
+
+interface HoldCountdownProps {
+  // Supplier ticketing time limit (or our own hold window) for the held fare
+  expiresAt: string;
+  compact?: boolean;
+  className?: string;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const formatTimeLeft = (ms: number) => {
+  const totalSeconds = Math.floor(ms / 1000);
+  const days = Math.floor(totalSeconds / 86400);
+  const hours = Math.floor((totalSeconds % 86400) / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const clock = `${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+  return days > 0 ? `${days}d ${clock}` : clock;
+};
+
+const HoldCountdown: React.FC<HoldCountdownProps> = ({ expiresAt, compact = false, className = '' }) => {
+  const { t } = useTranslation();
+  const deadline = new Date(expiresAt).getTime();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const timeLeft = deadline - now;
+  const expired = !Number.isFinite(deadline) || timeLeft <= 0;
+  // Highlight the last hour, when the monitor is about to release the fare
+  const urgent = !expired && timeLeft <= 60 * 60 * 1000;
+  const tone = expired ? 'text-red-600' : urgent ? 'text-orange-600' : 'text-tourtastic-blue';
+
+  if (compact) {
+    return (
+      <span className={`inline-flex items-center gap-1 text-xs font-medium ${tone} ${className}`}>
+        <Clock className="h-3 w-3" />
+        {expired ? t('hold.expired', 'Hold expired') : formatTimeLeft(timeLeft)}
+      </span>
+    );
+  }
+
+  return (
+    <div className={`flex items-center gap-2 rounded-lg border px-3 py-2 text-sm ${tone} ${className}`}>
+      <Clock className="h-4 w-4 flex-shrink-0" />
+      <span>
+        {expired
+          ? t('hold.expiredDescription', 'The hold has expired and the fare is being released.')
+          : t('hold.countdown', 'Fare held — pay within {{time}}', { time: formatTimeLeft(timeLeft) })}
+      </span>
+    </div>
+  );
+};
+
+export default HoldCountdown;
@@ -3,11 +3,11 @@ import { useTranslation } from 'react-i18next';
 import { Plane } from 'lucide-react';
 import PlaneAnimation from '@/components/ui/PlaneAnimation';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Button } from '@/components/ui/button';
 import { Flight } from '@/services/flightService';
 import FlightCard from './FlightCard';
 import { format } from 'date-fns';
 import FlightDetails from './FlightDetails';
+import VirtualFlightList from './VirtualFlightList';
 
 interface SearchSection {
   searchIndex: number;
@@ -18,18 +18,16 @@ interface SearchSection {
   }[];
   flights: Flight[];
   isComplete: boolean;
-  hasMore: boolean;
   loading: boolean;
   error?: string;
-  visibleCount: number;
   progress: number;
 }
 
 interface MultiCityFlightResultsProps {
+  // Sections already filtered and sorted
   searchSections: SearchSection[];
   passengers: { adults: number; children: number; infants: number };
   onFlightSelection: (flight: Flight, searchIndex: number) => void;
-  onLoadMore: (searchIndex: number) => void;
   onAddToCart: (flight: Flight) => void;
   selectedFlights: { [searchIndex: number]: Flight };
   showDetails: string | null;
@@ -48,7 +46,6 @@ const MultiCityFlightResults: React.FC<MultiCityFlightResultsProps> = ({
   searchSections,
   passengers,
   onFlightSelection,
-  onLoadMore,
   onAddToCart,
   selectedFlights,
   showDetails,
@@ -56,6 +53,7 @@ const MultiCityFlightResults: React.FC<MultiCityFlightResultsProps> = ({
   const { t } = useTranslation();
 
   const { i18n } = useTranslation();
+
   const [airportsMap, setAirportsMap] = useState<Record<string, import('@/services/airportService').Airport>>({});
 
   useEffect(() => {
@@ -143,9 +141,10 @@ const MultiCityFlightResults: React.FC<MultiCityFlightResultsProps> = ({
             </div>
           ) : section.flights.length > 0 ? (
             <>
-              <div className="space-y-4">
-                {section.flights.slice(0, section.visibleCount).map((flight) => (
-                  <div key={flight.trip_id}>
+              <VirtualFlightList
+                flights={section.flights}
+                renderFlight={(flight) => (
+                  <>
                     <FlightCard
                       flight={flight}
                       onFlightSelection={() => onFlightSelection(flight, section.searchIndex)}
@@ -156,28 +155,9 @@ const MultiCityFlightResults: React.FC<MultiCityFlightResultsProps> = ({
                     {showDetails === flight.trip_id && (
                       <FlightDetails flight={flight} onAddToCart={onAddToCart} />)
                     }
-                  </div>
-                ))}
-              </div>
-
-              {section.hasMore && (
-                <div className="mt-6 text-center">
-                  <Button
-                    variant="outline"
-                    onClick={() => onLoadMore(section.searchIndex)}
-                    disabled={section.loading}
-                  >
-                    {section.loading ? (
-                      <div className="flex items-center gap-2">
-                        <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-tourtastic-blue"></div>
-                        {t('loading', 'Loading...')}
-                      </div>
-                    ) : (
-                      t('loadMoreFlights', 'Load more flights')
-                    )}
-                  </Button>
-                </div>
-              )}
+                  </>
+                )}
+              />
 
               {!section.isComplete && (
                 <div className="mt-4 text-center text-sm text-gray-500">
@@ -211,7 +191,7 @@ const MultiCityFlightResults: React.FC<MultiCityFlightResultsProps> = ({
         </CardContent>
       </Card>
     );
-  }, [airportsMap, i18n.language, t, selectedFlights, showDetails, onAddToCart, onFlightSelection, onLoadMore]);
+  }, [airportsMap, i18n.language, t, selectedFlights, showDetails, onAddToCart, onFlightSelection]);
 
   if (searchSections.length === 0) {
     return (
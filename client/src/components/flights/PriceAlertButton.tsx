@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Bell } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
+import { useAuthenticatedAction } from '@/hooks/useAuthenticatedAction';
+import { useCurrency } from '@/hooks/useCurrency';
+import { priceAlertService } from '@/services/priceAlertService';
+import { PassengerCount } from '@/services/flightService';
+import { convertFromUsd, getCurrencySymbol, BASE_CURRENCY } from '@/utils/currency';
+import { toastSuccess, toastError } from '@/utils/i18nToast';
+
+interface PriceAlertButtonProps {
+  from: string;
+  to: string;
+  departureDate: Date;
+  returnDate?: Date;
+  passengers: PassengerCount;
+  cabin?: 'e' | 'p' | 'b' | 'f';
+  direct?: boolean;
+  // Cheapest total currently shown in the results (USD), used to suggest a target
+  currentPrice?: number | null;
+}
+
+const PriceAlertButton: React.FC<PriceAlertButtonProps> = ({
+  from,
+  to,
+  departureDate,
+  returnDate,
+  passengers,
+  cabin,
+  direct,
+  currentPrice,
+}) => {
+  const { t } = useTranslation();
+  const { currency, rates, formatPrice } = useCurrency();
+  const handleAuthenticatedAction = useAuthenticatedAction();
+  const [open, setOpen] = useState(false);
+  const [target, setTarget] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  // The target is entered in the display currency; alerts are stored in USD
+  const inputCurrency = convertFromUsd(1, currency, rates) == null ? BASE_CURRENCY : currency;
+  const rate = convertFromUsd(1, inputCurrency, rates) ?? 1;
+
+  const openDialog = () => {
+    handleAuthenticatedAction(() => {
+      const suggested = currentPrice ? Math.floor(currentPrice * 0.9 * rate) : '';
+      setTarget(String(suggested));
+      setOpen(true);
+    });
+  };
+
+  const handleSave = async () => {
+    const value = Number(target);
+    if (!Number.isFinite(value) || value <= 0) {
+      toastError('يرجى إدخال سعر مستهدف صالح', 'Please enter a valid target price');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      await priceAlertService.createAlert({
+        from,
+        to,
+        departureDate: format(departureDate, 'yyyy-MM-dd'),
+        returnDate: returnDate ? format(returnDate, 'yyyy-MM-dd') : null,
+        passengers,
+        cabin,
+        direct,
+        targetPrice: Math.round((value / rate) * 100) / 100,
+        currentPrice: currentPrice ?? undefined,
+      });
+      toastSuccess('سنخبرك عندما ينخفض السعر', "We'll let you know when the price drops");
+      setOpen(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      toastError('تعذر إنشاء تنبيه السعر', message || 'Failed to create price alert');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <Button variant="outline" size="sm" onClick={openDialog}>
+        <Bell className="h-4 w-4 me-2" />
+        {t('priceAlerts.watchRoute', 'Watch this route')}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t('priceAlerts.dialogTitle', 'Watch {{from}} → {{to}}', { from, to })}</DialogTitle>
+            <DialogDescription>
+              {t('priceAlerts.dialogDescription', "We'll check this route regularly and notify you when the total fare drops to your target price.")}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="price-alert-target">
+              {t('priceAlerts.targetPrice', 'Target price')} ({getCurrencySymbol(inputCurrency)})
+            </Label>
+            <Input
+              id="price-alert-target"
+              type="number"
+              min={0}
+              value={target}
+              onChange={(e) => setTarget(e.target.value)}
+            />
+            {currentPrice != null && (
+              <p className="text-xs text-gray-500">
+                {t('priceAlerts.currentPrice', 'Current cheapest fare: {{price}}', { price: formatPrice(currentPrice) })}
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpen(false)}>{t('cancel', 'Cancel')}</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? t('saving', 'Saving...') : t('priceAlerts.create', 'Create alert')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PriceAlertButton;
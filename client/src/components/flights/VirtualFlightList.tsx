@@ -0,0 +1,137 @@
+import React, { useCallback, useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Flight } from '@/services/flightService';
+
+interface VirtualFlightListProps {
+  flights: Flight[];
+  renderFlight: (flight: Flight) => React.ReactNode;
+  // Height assumed for cards that haven't been on screen yet
+  estimatedHeight?: number;
+  // Space between cards, in pixels
+  gap?: number;
+  // How far past the viewport to keep cards rendered, in pixels
+  overscan?: number;
+}
+
+interface VisibleRange {
+  start: number;
+  end: number;
+}
+
+// Smallest index whose offset is past `value` (offsets are ascending)
+const firstOffsetAfter = (offsets: number[], value: number) => {
+  let low = 0;
+  let high = offsets.length;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid] > value) high = mid;
+    else low = mid + 1;
+  }
+  return low;
+};
+
+/**
+ * Renders only the flight cards near the viewport, scrolling with the page. Cards are
+ * measured as they render (including when details expand), and the space for the rest is
+ * reserved with padding so the scrollbar reflects the full list.
+ */
+const VirtualFlightList: React.FC<VirtualFlightListProps> = ({
+  flights,
+  renderFlight,
+  estimatedHeight = 220,
+  gap = 16,
+  overscan = 800,
+}) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+  const [range, setRange] = useState<VisibleRange>({ start: 0, end: 0 });
+
+  // offsets[i] is where card i starts; the last entry is the height of the whole list
+  const offsets = useMemo(() => {
+    const result = [0];
+    flights.forEach((flight, idx) => {
+      result.push(result[idx] + (heights.get(flight.trip_id) ?? estimatedHeight + gap));
+    });
+    return result;
+  }, [flights, heights, estimatedHeight, gap]);
+
+  const updateRange = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const top = container.getBoundingClientRect().top;
+    const start = Math.max(firstOffsetAfter(offsets, -top - overscan) - 1, 0);
+    const end = Math.min(firstOffsetAfter(offsets, window.innerHeight - top + overscan), flights.length);
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }));
+  }, [offsets, overscan, flights.length]);
+
+  // Before paint, so a change in results never flashes an empty list
+  useLayoutEffect(() => {
+    updateRange();
+  }, [updateRange]);
+
+  useEffect(() => {
+    let frame: number | null = null;
+    const onViewportChange = () => {
+      if (frame !== null) return;
+      frame = requestAnimationFrame(() => {
+        frame = null;
+        updateRange();
+      });
+    };
+    window.addEventListener('scroll', onViewportChange, { passive: true });
+    window.addEventListener('resize', onViewportChange);
+    return () => {
+      window.removeEventListener('scroll', onViewportChange);
+      window.removeEventListener('resize', onViewportChange);
+      if (frame !== null) cancelAnimationFrame(frame);
+    };
+  }, [updateRange]);
+
+  // Cards mount before effects run, so the observer is created by the first card that needs it
+  const observerRef = useRef<ResizeObserver | null>(null);
+  const observeCard = useCallback((element: HTMLDivElement | null) => {
+    if (!element || typeof ResizeObserver === 'undefined') return;
+    if (!observerRef.current) {
+      const observer = new ResizeObserver((entries) => {
+        const measured: Array<[string, number]> = [];
+        entries.forEach(({ target }) => {
+          const card = target as HTMLElement;
+          // Cards scrolled out of range are detached rather than resized
+          if (!card.isConnected) {
+            observer.unobserve(card);
+            return;
+          }
+          if (card.dataset.tripId && card.offsetHeight > 0) measured.push([card.dataset.tripId, card.offsetHeight]);
+        });
+        setHeights(prev => {
+          const changed = measured.filter(([id, height]) => prev.get(id) !== height);
+          if (changed.length === 0) return prev;
+          const next = new Map(prev);
+          changed.forEach(([id, height]) => next.set(id, height));
+          return next;
+        });
+      });
+      observerRef.current = observer;
+    }
+    observerRef.current.observe(element);
+  }, []);
+
+  useEffect(() => () => observerRef.current?.disconnect(), []);
+
+  const start = Math.min(range.start, flights.length);
+  const end = Math.min(range.end, flights.length);
+
+  return (
+    <div
+      ref={containerRef}
+      style={{ paddingTop: offsets[start], paddingBottom: offsets[flights.length] - offsets[end] }}
+    >
+      {flights.slice(start, end).map(flight => (
+        <div key={flight.trip_id} ref={observeCard} data-trip-id={flight.trip_id} style={{ paddingBottom: gap }}>
+          {renderFlight(flight)}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default VirtualFlightList;
@@ -0,0 +1,269 @@
+import type { Flight } from '@/services/flightService';
+import { getFlightTotalPrice } from './flightHelpers';
+
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+// 2 stands for "two or more"
+export type StopsOption = 0 | 1 | 2;
+
+export interface FilterState {
+  sortBy: 'price_asc' | 'price_desc' | 'duration_asc' | 'departure_asc' | 'arrival_asc';
+  selectedAirlines: string[];
+  stops: StopsOption[];
+  // Longest connection allowed, in hours; null for any
+  maxLayoverHours: number | null;
+  checkedBaggageOnly: boolean;
+  refundableOnly: boolean;
+  departureAirports: string[];
+  arrivalAirports: string[];
+  timeOfDay: {
+    departure: TimeOfDay[];
+    arrival: TimeOfDay[];
+  };
+  // Total fare for all passengers (USD); null until the customer narrows it
+  priceRange: {
+    min: number;
+    max: number;
+  } | null;
+}
+
+export const DEFAULT_FILTERS: FilterState = {
+  sortBy: 'price_asc',
+  selectedAirlines: [],
+  stops: [],
+  maxLayoverHours: null,
+  checkedBaggageOnly: false,
+  refundableOnly: false,
+  departureAirports: [],
+  arrivalAirports: [],
+  timeOfDay: {
+    departure: [],
+    arrival: []
+  },
+  priceRange: null
+};
+
+export const SORT_OPTIONS: FilterState['sortBy'][] = ['price_asc', 'price_desc', 'duration_asc', 'departure_asc', 'arrival_asc'];
+export const TIMES_OF_DAY: TimeOfDay[] = ['morning', 'afternoon', 'evening', 'night'];
+export const STOPS_OPTIONS: StopsOption[] = [0, 1, 2];
+export const LAYOVER_HOUR_OPTIONS = [2, 4, 8, 12];
+
+export interface FacetOption<T> {
+  value: T;
+  count: number;
+}
+
+// Values available in the results, each with the number of results it would leave given the other filters
+export interface FilterFacets {
+  airlines: FacetOption<string>[];
+  stops: FacetOption<StopsOption>[];
+  layover: FacetOption<number>[];
+  departureTime: FacetOption<TimeOfDay>[];
+  arrivalTime: FacetOption<TimeOfDay>[];
+  departureAirports: FacetOption<string>[];
+  arrivalAirports: FacetOption<string>[];
+  checkedBaggage: number;
+  refundable: number;
+  priceBounds: { min: number; max: number } | null;
+  total: number;
+}
+
+type FilterGroup =
+  | 'airlines' | 'stops' | 'layover' | 'baggage' | 'refundable'
+  | 'departureAirports' | 'arrivalAirports' | 'departureTime' | 'arrivalTime' | 'price';
+
+const firstLeg = (flight: Flight) => flight.legs?.[0];
+const lastLeg = (flight: Flight) => flight.legs?.[flight.legs.length - 1];
+
+export const getFlightAirline = (flight: Flight) => firstLeg(flight)?.segments?.[0]?.airline_name || '';
+
+export const getFlightStops = (flight: Flight) =>
+  Math.max(0, ...(flight.legs || []).map(leg => leg.stops_count ?? Math.max((leg.segments?.length || 1) - 1, 0)));
+
+const toStopsOption = (stops: number): StopsOption => (stops >= 2 ? 2 : stops) as StopsOption;
+
+const parseDurationMinutes = (duration?: string) => {
+  const match = /(\d+)h\s*(\d+)m/.exec(duration || '');
+  return match ? Number(match[1]) * 60 + Number(match[2]) : 0;
+};
+
+const minutesBetween = (from?: string, to?: string) => {
+  const diff = new Date(to || '').getTime() - new Date(from || '').getTime();
+  return Number.isFinite(diff) && diff > 0 ? Math.round(diff / 60000) : 0;
+};
+
+// Longest connection across all legs; 0 for nonstop flights
+export const getLongestLayoverMinutes = (flight: Flight) => {
+  if (flight.layover_details?.length) {
+    return Math.max(...flight.layover_details.map(layover => layover.duration_minutes ?? parseDurationMinutes(layover.duration)));
+  }
+  // Results cached before the API listed layovers: work them out from the segment times
+  return Math.max(0, ...(flight.legs || []).flatMap(leg =>
+    (leg.segments || []).slice(1).map((segment, idx) => minutesBetween(leg.segments[idx].to?.date, segment.from?.date))
+  ));
+};
+
+// Seeru describes allowances as "0PC", "1PC", "23KG", "2*23KG"...; a leading zero means none
+const includesCheckedBag = (desc?: string | null) => {
+  const amount = /\d+/.exec(desc || '');
+  return amount !== null && Number(amount[0]) > 0;
+};
+
+export const hasCheckedBaggage = (flight: Flight) => {
+  const legs = flight.legs || [];
+  if (legs.some(leg => leg.bags?.ADT?.checked?.desc)) {
+    return legs.every(leg => includesCheckedBag(leg.bags?.ADT?.checked?.desc));
+  }
+  return includesCheckedBag(flight.baggage_allowance);
+};
+
+export const isRefundableFlight = (flight: Flight) => {
+  if (flight.can_refund) return true;
+  const info = (flight.refundable_info || '').toLowerCase();
+  return info.includes('refundable') && !/non[\s-]?refundable/.test(info);
+};
+
+export const getDepartureAirport = (flight: Flight) => {
+  const leg = firstLeg(flight);
+  return (leg?.from?.airport || leg?.segments?.[0]?.from?.airport || '').toUpperCase();
+};
+
+export const getArrivalAirport = (flight: Flight) => {
+  const leg = lastLeg(flight);
+  return (leg?.to?.airport || leg?.segments?.[leg.segments.length - 1]?.to?.airport || '').toUpperCase();
+};
+
+export const getTimeOfDay = (date?: string): TimeOfDay | null => {
+  const parsed = new Date(date || '');
+  if (Number.isNaN(parsed.getTime())) return null;
+  const hour = parsed.getHours();
+  return hour >= 5 && hour < 12 ? 'morning' :
+    hour >= 12 && hour < 17 ? 'afternoon' :
+      hour >= 17 && hour < 21 ? 'evening' : 'night';
+};
+
+const departureTime = (flight: Flight) => getTimeOfDay(firstLeg(flight)?.from?.date);
+const arrivalTime = (flight: Flight) => getTimeOfDay(lastLeg(flight)?.to?.date);
+
+const flightDurationMinutes = (flight: Flight) =>
+  (flight.legs || []).reduce((sum, leg) => sum + (leg.duration || minutesBetween(leg.from?.date, leg.to?.date)), 0);
+
+const timestamp = (date?: string) => {
+  const time = new Date(date || '').getTime();
+  return Number.isNaN(time) ? Number.MAX_SAFE_INTEGER : time;
+};
+
+/**
+ * Airport filters only narrow results that can match them: in a multi-city search, picking
+ * London Gatwick for one leg must not empty the sections that depart from elsewhere.
+ */
+function airportScope(flights: Flight[], filters: FilterState) {
+  const departures = new Set(flights.map(getDepartureAirport));
+  const arrivals = new Set(flights.map(getArrivalAirport));
+  return {
+    departure: filters.departureAirports.filter(code => departures.has(code)),
+    arrival: filters.arrivalAirports.filter(code => arrivals.has(code))
+  };
+}
+
+type AirportScope = ReturnType<typeof airportScope>;
+
+function matchesFilters(flight: Flight, filters: FilterState, scope: AirportScope, skip?: FilterGroup) {
+  if (skip !== 'airlines' && filters.selectedAirlines.length > 0 && !filters.selectedAirlines.includes(getFlightAirline(flight))) {
+    return false;
+  }
+  if (skip !== 'stops' && filters.stops.length > 0 && !filters.stops.includes(toStopsOption(getFlightStops(flight)))) {
+    return false;
+  }
+  if (skip !== 'layover' && filters.maxLayoverHours !== null && getLongestLayoverMinutes(flight) > filters.maxLayoverHours * 60) {
+    return false;
+  }
+  if (skip !== 'baggage' && filters.checkedBaggageOnly && !hasCheckedBaggage(flight)) return false;
+  if (skip !== 'refundable' && filters.refundableOnly && !isRefundableFlight(flight)) return false;
+  if (skip !== 'departureAirports' && scope.departure.length > 0 && !scope.departure.includes(getDepartureAirport(flight))) {
+    return false;
+  }
+  if (skip !== 'arrivalAirports' && scope.arrival.length > 0 && !scope.arrival.includes(getArrivalAirport(flight))) {
+    return false;
+  }
+  if (skip !== 'departureTime' && filters.timeOfDay.departure.length > 0) {
+    const time = departureTime(flight);
+    if (!time || !filters.timeOfDay.departure.includes(time)) return false;
+  }
+  if (skip !== 'arrivalTime' && filters.timeOfDay.arrival.length > 0) {
+    const time = arrivalTime(flight);
+    if (!time || !filters.timeOfDay.arrival.includes(time)) return false;
+  }
+  if (skip !== 'price' && filters.priceRange) {
+    const price = getFlightTotalPrice(flight);
+    if (price < filters.priceRange.min || price > filters.priceRange.max) return false;
+  }
+  return true;
+}
+
+const compareFlights = (sortBy: FilterState['sortBy']) => (a: Flight, b: Flight) => {
+  switch (sortBy) {
+    case 'price_asc':
+      return getFlightTotalPrice(a) - getFlightTotalPrice(b);
+    case 'price_desc':
+      return getFlightTotalPrice(b) - getFlightTotalPrice(a);
+    case 'duration_asc':
+      return flightDurationMinutes(a) - flightDurationMinutes(b);
+    case 'departure_asc':
+      return timestamp(firstLeg(a)?.from?.date) - timestamp(firstLeg(b)?.from?.date);
+    case 'arrival_asc':
+      return timestamp(lastLeg(a)?.to?.date) - timestamp(lastLeg(b)?.to?.date);
+    default:
+      return 0;
+  }
+};
+
+/**
+ * Filter and sort one search section's results
+ */
+export function applyFlightFilters(flights: Flight[], filters: FilterState): Flight[] {
+  const scope = airportScope(flights, filters);
+  return flights
+    .filter(flight => matchesFilters(flight, filters, scope))
+    .sort(compareFlights(filters.sortBy));
+}
+
+const countBy = <T>(values: T[]) => {
+  const counts = new Map<T, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return counts;
+};
+
+/**
+ * Facet options and counts over all search sections. Each facet is counted with every other
+ * filter applied but not its own, so the counts show what picking an option would leave.
+ */
+export function getFilterFacets(sections: Flight[][], filters: FilterState): FilterFacets {
+  const all = sections.flat();
+  const scoped = sections.map(flights => ({ flights, scope: airportScope(flights, filters) }));
+  const without = (group?: FilterGroup) =>
+    scoped.flatMap(({ flights, scope }) => flights.filter(flight => matchesFilters(flight, filters, scope, group)));
+
+  const facet = <T>(options: T[], group: FilterGroup, valueOf: (flight: Flight) => T | null): FacetOption<T>[] => {
+    const counts = countBy(without(group).map(valueOf));
+    return options.map(value => ({ value, count: counts.get(value) || 0 }));
+  };
+  const present = (valueOf: (flight: Flight) => string) => [...new Set(all.map(valueOf))].filter(Boolean);
+
+  const stopsPresent = new Set(all.map(flight => toStopsOption(getFlightStops(flight))));
+  const layoverBase = without('layover').map(getLongestLayoverMinutes);
+  const prices = all.map(getFlightTotalPrice).filter(price => price > 0);
+
+  return {
+    airlines: facet(present(getFlightAirline).sort(), 'airlines', getFlightAirline),
+    stops: facet(STOPS_OPTIONS.filter(option => stopsPresent.has(option)), 'stops', flight => toStopsOption(getFlightStops(flight))),
+    layover: LAYOVER_HOUR_OPTIONS.map(hours => ({ value: hours, count: layoverBase.filter(minutes => minutes <= hours * 60).length })),
+    departureTime: facet(TIMES_OF_DAY, 'departureTime', departureTime),
+    arrivalTime: facet(TIMES_OF_DAY, 'arrivalTime', arrivalTime),
+    departureAirports: facet(present(getDepartureAirport).sort(), 'departureAirports', getDepartureAirport),
+    arrivalAirports: facet(present(getArrivalAirport).sort(), 'arrivalAirports', getArrivalAirport),
+    checkedBaggage: without('baggage').filter(hasCheckedBaggage).length,
+    refundable: without('refundable').filter(isRefundableFlight).length,
+    priceBounds: prices.length > 0 ? { min: Math.floor(Math.min(...prices)), max: Math.ceil(Math.max(...prices)) } : null,
+    total: without().length
+  };
+}
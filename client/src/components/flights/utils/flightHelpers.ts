@@ -1,83 +1,115 @@
+import type { Flight } from '@/services/flightService';
+
+// Airline logos in /public by IATA code; also the airlines offered in the search form
+const AIRLINE_LOGOS: { [key: string]: string } = {
+  'TK': '/Turkish-Airlines-Logo.png',
+  'EK': '/Emirates-Logo.png',
+  'QR': '/Qatar Airways Logo.png',
+  'MS': '/egyptair-logo.png',
+  'SV': '/Saudi-Arabian-Airlines-Logo.png',
+  'RJ': '/Royal-Jordanian-logo.png',
+  'ME': '/Middle-East-Airlines-Logo.png',
+  'GF': '/Gulf-Air-logo.png',
+  'KU': '/Kuwait-Airways-logo.png',
+  'WY': '/Oman-Air-Logo.png',
+  'EY': '/Etihad-Airways-Logo.png',
+  'FZ': '/FlyDubai-Logo.png',
+  'XY': '/Flynas-Logo.png',
+  'PC': '/Pegasus-Airlines-Logo.png',
+  'HU': '/Hainan-Airlines-Logo.png',
+  'MU': '/China-Eastern-Airlines-Logo.png',
+  'SQ': '/Singapore-Airlines-Logo.png',
+  'OS': '/Austrian-Airlines-Logo.png',
+  'CA': '/Air-China-Logo.png',
+  'I2': '/Iberia-Express-Logo.png',
+  'LX': '/Swiss-International-Air-Lines-Logo.png',
+  'AF': '/Air-France-Logo.png',
+  'XQ': '/SunExpress-Logo.png',
+  'VF': '/AJet-logo.png',
+  'A3': '/Aegean-Airlines-logo.png',
+  'AZ': '/ITA-Airways-Logo.png',
+  'ET': '/Ethiopian-Airlines-Logo.png',
+  'KQ': '/Kenya-Airways-Logo.png',
+  'MH': '/Malaysia-Airlines-Logo.png',
+  'JL': '/Japan-Airlines-Logo.png',
+  'PK': '/Pakistan-International-Airlines-Logo.png',
+  'AH': '/Air-Algerie-Logo.png',
+  'AI': '/Air-India-Logo.png',
+  'TU': '/Tunisair-logo.png',
+  'NP': '/Nile-air-logo.png',
+  '3U': '/Sichuan-Airlines-Logo.png',
+  'AMF': '/Ameriflight-Logo.png',
+  'HR': '/Hahn-Air-Logo.png',
+  'NE': '/Nemsa-Airlines-Logo.png',
+  'SM': '/Air-Cairo-Logo.png',
+  'G9': '/Air-Arabia-Logo.png',
+  'F3': '/Flyadeal-Logo.svg',
+  'E5': '/Air-Arabia-Egypt-Logo.png',
+  'J9': '/Jazeera-Airways-Logo.png',
+  'R5': '/Royal-Jordanian-logo.png', // Same as RJ
+  'BA': '/British-Airways-Logo.png',
+  'LH': '/Lufthansa-Logo.png',
+  'AT': '/Royal-Air-Maroc-Logo.png',
+  '6E': '/IndiGo-Logo.png',
+  '9P': '/Fly_Jinnah_logo.png',
+  'BS': '/US-Bangla-Airlines-Logo.png',
+  'IX': '/Air-India-Express-Logo.png',
+  'J2': '/Azerbaijan-Airlines-Logo.png',
+  'OV': '/Salam_Air_Logo.png',
+  'VY': '/vueling.png'
+};
+
+// Added mappings for newly introduced IATA codes
+// Note: Eurowings logo file not found in /public; using Germanwings as a temporary fallback until the real logo is added.
+AIRLINE_LOGOS['EW'] = '/Germanwings-Logo.png';
+AIRLINE_LOGOS['KL'] = '/Royal-Dutch-Airlines-Logo.png';
+AIRLINE_LOGOS['LO'] = '/Polish-Airlines-Logo.png';
+AIRLINE_LOGOS['TO'] = '/Transavia-Logo.png';
+AIRLINE_LOGOS['TU'] = '/Tunisair-logo.png';
+// Vueling Airlines (IATA: VY)
+AIRLINE_LOGOS['VY'] = '/vueling.png';
+
 // Helper function to get airline logo
 export const getAirlineLogo = (airlineCode: string) => {
   if (!airlineCode) return '/placeholder.svg';
   
   // Normalize airline code to uppercase
   const normalizedCode = airlineCode.trim().toUpperCase();
-  
-  const logoMap: { [key: string]: string } = {
-    'TK': '/Turkish-Airlines-Logo.png',
-    'EK': '/Emirates-Logo.png',
-    'QR': '/Qatar Airways Logo.png',
-    'MS': '/egyptair-logo.png',
-    'SV': '/Saudi-Arabian-Airlines-Logo.png',
-    'RJ': '/Royal-Jordanian-logo.png',
-    'ME': '/Middle-East-Airlines-Logo.png',
-    'GF': '/Gulf-Air-logo.png',
-    'KU': '/Kuwait-Airways-logo.png',
-    'WY': '/Oman-Air-Logo.png',
-    'EY': '/Etihad-Airways-Logo.png',
-    'FZ': '/FlyDubai-Logo.png',
-    'XY': '/Flynas-Logo.png',
-    'PC': '/Pegasus-Airlines-Logo.png',
-    'HU': '/Hainan-Airlines-Logo.png',
-    'MU': '/China-Eastern-Airlines-Logo.png',
-    'SQ': '/Singapore-Airlines-Logo.png',
-    'OS': '/Austrian-Airlines-Logo.png',
-    'CA': '/Air-China-Logo.png',
-    'I2': '/Iberia-Express-Logo.png',
-    'LX': '/Swiss-International-Air-Lines-Logo.png',
-    'AF': '/Air-France-Logo.png',
-    'XQ': '/SunExpress-Logo.png',
-    'VF': '/AJet-logo.png',
-    'A3': '/Aegean-Airlines-logo.png',
-    'AZ': '/ITA-Airways-Logo.png',
-    'ET': '/Ethiopian-Airlines-Logo.png',
-    'KQ': '/Kenya-Airways-Logo.png',
-    'MH': '/Malaysia-Airlines-Logo.png',
-    'JL': '/Japan-Airlines-Logo.png',
-    'PK': '/Pakistan-International-Airlines-Logo.png',
-    'AH': '/Air-Algerie-Logo.png',
-    'AI': '/Air-India-Logo.png',
-    'TU': '/Tunisair-logo.png',
-    'NP': '/Nile-air-logo.png',
-    '3U': '/Sichuan-Airlines-Logo.png',
-    'AMF': '/Ameriflight-Logo.png',
-    'HR': '/Hahn-Air-Logo.png',
-    'NE': '/Nemsa-Airlines-Logo.png',
-    'SM': '/Air-Cairo-Logo.png',
-    'G9': '/Air-Arabia-Logo.png',
-    'F3': '/Flyadeal-Logo.svg',
-    'E5': '/Air-Arabia-Egypt-Logo.png',
-    'J9': '/Jazeera-Airways-Logo.png',
-    'R5': '/Royal-Jordanian-logo.png', // Same as RJ
-    'BA': '/British-Airways-Logo.png',
-    'LH': '/Lufthansa-Logo.png',
-    'AT': '/Royal-Air-Maroc-Logo.png',
-    '6E': '/IndiGo-Logo.png',
-    '9P': '/Fly_Jinnah_logo.png',
-    'BS': '/US-Bangla-Airlines-Logo.png',
-    'IX': '/Air-India-Express-Logo.png',
-    'J2': '/Azerbaijan-Airlines-Logo.png',
-    'OV': '/Salam_Air_Logo.png',
-    'VY': '/vueling.png'
-  };
-
-  // Added mappings for newly introduced IATA codes
-  // Note: Eurowings logo file not found in /public; using Germanwings as a temporary fallback until the real logo is added.
-  logoMap['EW'] = '/Germanwings-Logo.png';
-  logoMap['KL'] = '/Royal-Dutch-Airlines-Logo.png';
-  logoMap['LO'] = '/Polish-Airlines-Logo.png';
-  logoMap['TO'] = '/Transavia-Logo.png';
-  logoMap['TU'] = '/Tunisair-logo.png';
-  // Vueling Airlines (IATA: VY)
-  logoMap['VY'] = '/vueling.png';
-
-  const logoPath = logoMap[normalizedCode] || '/placeholder.svg';
+
+  const logoPath = AIRLINE_LOGOS[normalizedCode] || '/placeholder.svg';
   
   return logoPath;
 };
 
+// Names the logo file gets wrong (shared or fallback logos)
+const AIRLINE_NAME_OVERRIDES: { [key: string]: string } = {
+  EW: 'Eurowings',
+  KL: 'KLM Royal Dutch Airlines',
+  R5: 'Jordan Aviation',
+  VF: 'AJet',
+  AMF: 'Ameriflight',
+};
+
+export interface AirlineOption {
+  code: string;
+  name: string;
+  logo: string;
+}
+
+// "/Turkish-Airlines-Logo.png" -> "Turkish Airlines"
+const airlineNameFromLogo = (logoPath: string) => logoPath
+  .replace(/^\//, '')
+  .replace(/\.[a-z]+$/i, '')
+  .replace(/[-_ ]logo$/i, '')
+  .replace(/[-_]+/g, ' ')
+  .replace(/\b\w/g, (char) => char.toUpperCase())
+  .trim();
+
+// Airlines for the preferred/excluded airline pickers, sorted by name
+export const getAirlineOptions = (): AirlineOption[] => Object.entries(AIRLINE_LOGOS)
+  .map(([code, logo]) => ({ code, logo, name: AIRLINE_NAME_OVERRIDES[code] || airlineNameFromLogo(logo) }))
+  .sort((a, b) => a.name.localeCompare(b.name));
+
 // Helper function to get time of day
 export const getTimeOfDay = (dateString: string) => {
   const hour = new Date(dateString).getHours();
@@ -133,4 +165,28 @@ export const formatBaggage = (baggageStr: string | undefined | null, t: TFunctio
   const cleaned = parsed.trim();
   if (!cleaned) return t('noBaggageIncluded', 'No baggage included');
   return cleaned;
-};
\ No newline at end of file
+};
+
+// Total fare for all passengers on a search result (USD)
+export const getFlightTotalPrice = (flight: Flight) => {
+  // First try to use the pre-calculated total_price from backend
+  if (flight.total_price && flight.total_price > 0) {
+    return flight.total_price;
+  }
+
+  // Fallback: calculate manually using price + tax for single passenger
+  // then multiply by passenger count
+  const singlePassengerTotal = (flight.price || 0) + (flight.tax || 0);
+
+  // If we have detailed breakdowns, use them
+  if (flight.price_breakdowns) {
+    const adtTotal = (flight.search_query?.adt || 0) * (flight.price_breakdowns.ADT?.total || singlePassengerTotal);
+    const chdTotal = (flight.search_query?.chd || 0) * (flight.price_breakdowns.CHD?.total || singlePassengerTotal * 0.75);
+    const infTotal = (flight.search_query?.inf || 0) * (flight.price_breakdowns.INF?.total || singlePassengerTotal * 0.1);
+    return adtTotal + chdTotal + infTotal;
+  }
+
+  // Simple fallback for single adult passenger
+  const totalPassengers = (flight.search_query?.adt || 1) + (flight.search_query?.chd || 0) + (flight.search_query?.inf || 0);
+  return singlePassengerTotal * totalPassengers;
+};
@@ -0,0 +1,40 @@
+import { FlightResultsRequest, FlightResultsResponse, FlightResultsStore } from './flightResultsStore';
+
+// The app is type-checked against the DOM lib, so describe the parts of the worker scope used here
+interface ResultsWorkerScope {
+  onmessage: ((event: MessageEvent<FlightResultsRequest>) => void) | null;
+  postMessage: (message: FlightResultsResponse) => void;
+}
+
+const scope = self as unknown as ResultsWorkerScope;
+const store = new FlightResultsStore();
+let viewTimer: ReturnType<typeof setTimeout> | undefined;
+
+// Polls for several sections often land together; answer them with a single view
+const scheduleView = () => {
+  if (viewTimer !== undefined) return;
+  viewTimer = setTimeout(() => {
+    viewTimer = undefined;
+    scope.postMessage({ type: 'view', view: store.view() });
+  }, 0);
+};
+
+scope.onmessage = (event) => {
+  const request = event.data;
+  try {
+    switch (request.type) {
+      case 'reset':
+        store.reset(request.sectionCount);
+        break;
+      case 'append':
+        scope.postMessage({ type: 'appended', id: request.id, result: store.append(request.section, request.flights, request.context) });
+        break;
+      case 'filters':
+        store.setFilters(request.filters);
+        break;
+    }
+    scheduleView();
+  } catch (error) {
+    scope.postMessage({ type: 'error', id: request.id, message: error instanceof Error ? error.message : 'Could not process flight results' });
+  }
+};
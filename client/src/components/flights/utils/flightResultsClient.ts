@@ -0,0 +1,138 @@
+import type { Flight } from '@/services/flightService';
+import type { FilterState } from './flightFilters';
+import {
+  AppendResult,
+  FlightResultsRequest,
+  FlightResultsResponse,
+  FlightResultsStore,
+  FlightResultsView,
+  SearchResultContext,
+} from './flightResultsStore';
+
+interface PendingAppend {
+  resolve: (result: AppendResult) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Main-thread handle on the flight results worker. Remembers the requests since the last
+ * reset so that, if the worker can't start or crashes, the store is rebuilt in-thread and
+ * the search carries on.
+ */
+export class FlightResultsClient {
+  private onView: (view: FlightResultsView) => void;
+  private worker: Worker | null = null;
+  private store: FlightResultsStore | null = null;
+  private history: FlightResultsRequest[] = [];
+  private filters: FilterState | null = null;
+  private pending = new Map<number, PendingAppend>();
+  private nextId = 0;
+  private viewTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(onView: (view: FlightResultsView) => void) {
+    this.onView = onView;
+    try {
+      this.worker = new Worker(new URL('./flightResults.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<FlightResultsResponse>) => this.handleResponse(event.data);
+      this.worker.onerror = (event) => {
+        event.preventDefault();
+        this.runInThread();
+      };
+    } catch (error) {
+      this.runInThread();
+    }
+  }
+
+  // Start over with empty sections; filters are kept
+  reset(sectionCount: number) {
+    this.history = [];
+    this.send({ type: 'reset', id: this.nextId++, sectionCount });
+  }
+
+  // Add one poll's fares to a section. Resolves with the fares that were new or updated.
+  append(section: number, flights: Flight[], context: SearchResultContext): Promise<AppendResult> {
+    const id = this.nextId++;
+    return new Promise<AppendResult>((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.send({ type: 'append', id, section, flights, context });
+    });
+  }
+
+  setFilters(filters: FilterState) {
+    this.filters = filters;
+    this.send({ type: 'filters', id: this.nextId++, filters });
+  }
+
+  terminate() {
+    this.worker?.terminate();
+    this.worker = null;
+    if (this.viewTimer !== undefined) clearTimeout(this.viewTimer);
+    this.pending.clear();
+    this.history = [];
+  }
+
+  private send(request: FlightResultsRequest) {
+    if (request.type !== 'filters') this.history.push(request);
+    if (this.worker) {
+      this.worker.postMessage(request);
+    } else {
+      this.process(request);
+    }
+  }
+
+  private handleResponse(response: FlightResultsResponse) {
+    switch (response.type) {
+      case 'appended':
+        this.settle(response.id, response.result);
+        break;
+      case 'view':
+        this.onView(response.view);
+        break;
+      case 'error': {
+        const pending = this.pending.get(response.id);
+        this.pending.delete(response.id);
+        pending?.reject(new Error(response.message));
+        break;
+      }
+    }
+  }
+
+  private settle(id: number, result: AppendResult) {
+    const pending = this.pending.get(id);
+    this.pending.delete(id);
+    pending?.resolve(result);
+  }
+
+  private runInThread() {
+    if (this.store) return;
+    this.worker?.terminate();
+    this.worker = null;
+    this.store = new FlightResultsStore();
+    if (this.filters) this.store.setFilters(this.filters);
+    // Rebuild what the worker held; appends it never answered are answered from the replay
+    this.history.forEach(request => this.process(request));
+    this.scheduleView();
+  }
+
+  private process(request: FlightResultsRequest) {
+    const store = this.store;
+    if (!store) return;
+    try {
+      if (request.type === 'reset') store.reset(request.sectionCount);
+      if (request.type === 'filters') store.setFilters(request.filters);
+      if (request.type === 'append') this.settle(request.id, store.append(request.section, request.flights, request.context));
+    } catch (error) {
+      this.handleResponse({ type: 'error', id: request.id, message: error instanceof Error ? error.message : 'Could not process flight results' });
+    }
+    this.scheduleView();
+  }
+
+  // Same batching as the worker: one view per burst of requests
+  private scheduleView() {
+    if (this.viewTimer !== undefined) return;
+    this.viewTimer = setTimeout(() => {
+      this.viewTimer = undefined;
+      if (this.store) this.onView(this.store.view());
+    }, 0);
+  }
+}
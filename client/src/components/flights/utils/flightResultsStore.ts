@@ -0,0 +1,94 @@
+import type { Flight, PassengerCount } from '@/services/flightService';
+import { DEFAULT_FILTERS, FilterFacets, FilterState, applyFlightFilters, getFilterFacets } from './flightFilters';
+
+// What a poll's fares are tagged with before they're stored
+export interface SearchResultContext {
+  // Seeru search the fares came from; cached fares already carry theirs
+  searchId?: string;
+  passengers: PassengerCount;
+}
+
+export interface AppendResult {
+  // Fares not seen before in the section, in arrival order
+  added: Flight[];
+  // Fares that replaced a stored fare with the same trip_id
+  replaced: Flight[];
+}
+
+// Filtered and sorted trip ids for each section, plus facet counts over every stored fare
+export interface FlightResultsView {
+  version: number;
+  sections: string[][];
+  facets: FilterFacets;
+}
+
+export type FlightResultsRequest =
+  | { type: 'reset'; id: number; sectionCount: number }
+  | { type: 'append'; id: number; section: number; flights: Flight[]; context: SearchResultContext }
+  | { type: 'filters'; id: number; filters: FilterState };
+
+export type FlightResultsResponse =
+  | { type: 'appended'; id: number; result: AppendResult }
+  | { type: 'view'; view: FlightResultsView }
+  | { type: 'error'; id: number; message: string };
+
+/**
+ * Tag a fare with the search it came from and the passengers searched for, so it can be
+ * priced and booked for the current party.
+ */
+export const normalizeSearchResult = (flight: Flight, context: SearchResultContext): Flight => ({
+  ...flight,
+  search_id: context.searchId ?? flight.search_id,
+  search_query: {
+    ...flight.search_query,
+    adt: context.passengers.adults,
+    chd: context.passengers.children,
+    inf: context.passengers.infants,
+    options: {
+      ...flight.search_query?.options,
+    },
+  },
+});
+
+/**
+ * Results of a multi-section search, built up one poll at a time. Runs inside the results
+ * worker, or on the main thread where workers aren't available.
+ */
+export class FlightResultsStore {
+  private sections: Array<Map<string, Flight>> = [];
+  private filters: FilterState = DEFAULT_FILTERS;
+  private version = 0;
+
+  reset(sectionCount: number) {
+    this.sections = Array.from({ length: sectionCount }, () => new Map<string, Flight>());
+  }
+
+  append(section: number, flights: Flight[], context: SearchResultContext): AppendResult {
+    const stored = this.sections[section];
+    if (!stored) return { added: [], replaced: [] };
+
+    const added = new Map<string, Flight>();
+    const replaced = new Map<string, Flight>();
+    flights.forEach((raw) => {
+      const flight = normalizeSearchResult(raw, context);
+      // Later copies win; the fare keeps the position it first arrived in
+      (stored.has(flight.trip_id) && !added.has(flight.trip_id) ? replaced : added).set(flight.trip_id, flight);
+      stored.set(flight.trip_id, flight);
+    });
+    return { added: Array.from(added.values()), replaced: Array.from(replaced.values()) };
+  }
+
+  setFilters(filters: FilterState) {
+    this.filters = filters;
+  }
+
+  view(): FlightResultsView {
+    const sections = this.sections.map(stored => Array.from(stored.values()));
+    this.version += 1;
+    return {
+      version: this.version,
+      sections: sections.map(flights => applyFlightFilters(flights, this.filters).map(flight => flight.trip_id)),
+      facets: getFilterFacets(sections, this.filters),
+    };
+  }
+}
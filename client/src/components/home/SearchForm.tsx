@@ -15,6 +15,8 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import api from '@/config/api';
 import { Airport } from '@/services/airportService';
+import AirlinePreferencePicker from '@/components/flights/AirlinePreferencePicker';
+import { FlightSearchLinkState, buildFlightSearchUrl } from '@/utils/flightSearchUrl';
 
 type SearchType = 'oneWay' | 'roundTrip' | 'multiCity';
 
@@ -55,6 +57,8 @@ const searchFormSchema = z.object({
   }),
   cabin: z.enum(['e', 'p', 'b', 'f']).optional(),
   direct: z.boolean().optional(),
+  preferredAirlines: z.array(z.string()).optional(),
+  excludedAirlines: z.array(z.string()).optional(),
 });
 
 type SearchFormValues = z.infer<typeof searchFormSchema>;
@@ -82,6 +86,8 @@ const SearchForm: React.FC = () => {
       passengers: { adults: 1, children: 0, infants: 0 },
       cabin: 'e',
       direct: false,
+      preferredAirlines: [],
+      excludedAirlines: [],
       returnDate: undefined,
     },
   });
@@ -117,6 +123,8 @@ const SearchForm: React.FC = () => {
   const passengers = watch('passengers');
   const cabin = watch('cabin');
   const direct = watch('direct');
+  const preferredAirlines = watch('preferredAirlines') || [];
+  const excludedAirlines = watch('excludedAirlines') || [];
   const returnDate = watch('returnDate');
 
   // Update datePickerOpen state when flightSegments change
@@ -314,15 +322,23 @@ const SearchForm: React.FC = () => {
       }
     }
 
-    navigate('/flights', {
-      state: {
-        searchType: data.searchType,
-        flightSegments: segments,
-        passengers: data.passengers,
-        cabin: data.cabin,
-        direct: data.direct,
+    // The search goes in the URL; airport names ride along in router state for the results headers
+    const linkState: FlightSearchLinkState = {
+      segmentLabels: segments.map(segment => ({ from: segment.fromDisplay, to: segment.toDisplay })),
+    };
+    navigate(buildFlightSearchUrl({
+      searchType: data.searchType,
+      segments: segments.map(({ from, to, date }) => ({ from, to, date })),
+      passengers: {
+        adults: data.passengers.adults ?? 1,
+        children: data.passengers.children ?? 0,
+        infants: data.passengers.infants ?? 0,
       },
-    });
+      cabin: data.cabin,
+      direct: data.direct,
+      preferredAirlines: data.preferredAirlines,
+      excludedAirlines: data.excludedAirlines,
+    }), { state: linkState });
   };
 
   return (
@@ -759,6 +775,24 @@ const SearchForm: React.FC = () => {
           </div>
         </div>
 
+        {/* Airline Preferences */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 border rounded-lg">
+          <AirlinePreferencePicker
+            id="preferred-airlines"
+            label={t('airlinePreferences.preferred', 'Preferred airlines')}
+            value={preferredAirlines}
+            onChange={(codes) => setValue('preferredAirlines', codes)}
+            unavailable={excludedAirlines}
+          />
+          <AirlinePreferencePicker
+            id="excluded-airlines"
+            label={t('airlinePreferences.excluded', 'Exclude airlines')}
+            value={excludedAirlines}
+            onChange={(codes) => setValue('excludedAirlines', codes)}
+            unavailable={preferredAirlines}
+          />
+        </div>
+
         {/* Search Button */}
         <Button type="submit" className="bg-tourtastic-blue hover:bg-tourtastic-dark-blue text-white w-full">
           <Search className="mr-2 h-4 w-4" /> {t('searchFlights', 'Search Flights')}
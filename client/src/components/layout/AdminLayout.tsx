@@ -20,6 +20,10 @@ import {
   Menu as MenuIcon,
   X as CloseIcon,
   Settings as SettingsIcon,
+  Webhook,
+  ScrollText,
+  Percent,
+  TicketPercent,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
@@ -35,20 +39,25 @@ const AdminLayout: React.FC<AdminLayoutProps> = ({ children }) => {
   const location = useLocation();
   const navigate = useNavigate();
   const { t } = useTranslation();
-  const { logout } = useAuth();
+  const { logout, hasPermission } = useAuth();
   const { currentLocale, toggleLocale } = useLocale();
   const [collapsed, setCollapsed] = useState(false);
   const [sidebarOpen, setSidebarOpen] = useState(false); // for mobile drawer
   const lang = i18n.language.split('-')[0];
   
+  // Each item is shown only to staff holding its permission
   const navigation = [
-    { name: t('bookings'), href: '/admin/bookings', icon: <Ticket className="h-5 w-5" /> },
-    { name: t('users'), href: '/admin/users', icon: <Users className="h-5 w-5" /> },
-    { name: t('admin.support.title'), href: '/admin/support', icon: <HelpCircle className="h-5 w-5" /> },
-    { name: t('destinations'), href: '/admin/destinations', icon: <MapPin className="h-5 w-5" /> },
-    { name: t('reports'), href: '/admin/reports', icon: <BarChart2 className="h-5 w-5" /> },
-    { name: t('settings'), href: '/admin/settings', icon: <SettingsIcon className="h-5 w-5" /> },
-  ];
+    { name: t('bookings'), href: '/admin/bookings', icon: <Ticket className="h-5 w-5" />, permission: 'bookings:view' },
+    { name: t('users'), href: '/admin/users', icon: <Users className="h-5 w-5" />, permission: 'users:view' },
+    { name: t('admin.support.title'), href: '/admin/support', icon: <HelpCircle className="h-5 w-5" />, permission: 'support:manage' },
+    { name: t('destinations'), href: '/admin/destinations', icon: <MapPin className="h-5 w-5" />, permission: 'destinations:manage' },
+    { name: t('reports'), href: '/admin/reports', icon: <BarChart2 className="h-5 w-5" />, permission: 'reports:view' },
+    { name: t('admin.webhooks.title'), href: '/admin/webhook-events', icon: <Webhook className="h-5 w-5" />, permission: 'webhooks:view' },
+    { name: t('admin.pricing.title'), href: '/admin/pricing-rules', icon: <Percent className="h-5 w-5" />, permission: 'pricing:manage' },
+    { name: t('admin.promotions.title'), href: '/admin/promotions', icon: <TicketPercent className="h-5 w-5" />, permission: 'promotions:manage' },
+    { name: t('admin.audit.title'), href: '/admin/audit', icon: <ScrollText className="h-5 w-5" />, permission: 'audit:view' },
+    { name: t('settings'), href: '/admin/settings', icon: <SettingsIcon className="h-5 w-5" />, permission: 'settings:view' },
+  ].filter(item => hasPermission(item.permission));
 
   const isActive = (path: string) => {
     return location.pathname === path;
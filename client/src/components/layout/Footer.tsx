@@ -73,6 +73,11 @@ const Footer: React.FC = () => {
                   {t('contact', 'Contact')}
                 </Link>
               </li>
+              <li>
+                <Link to="/find-booking" className="text-gray-300 hover:text-tourtastic-blue transition-colors text-sm">
+                  {t('findBooking.title', 'Find my booking')}
+                </Link>
+              </li>
             </ul>
           </div>
 
@@ -5,11 +5,13 @@ import { useTranslation } from 'react-i18next';
 import i18n from '@/i18n';
 import { useLocale } from '@/hooks/useLocale';
 import Logo from '@/assets/logo';
+import CurrencySwitcher from '@/components/CurrencySwitcher';
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger, DropdownMenuSeparator } from '@/components/ui/dropdown-menu';
 import { Button } from '@/components/ui/button';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
-import axios from 'axios';
+import api from '@/config/api';
+import { NOTIFICATIONS_READ_EVENT, useNotificationStream } from '@/hooks/useNotificationStream';
 
 // Add the Notification interface
 interface Notification {
@@ -49,14 +51,8 @@ const Header: React.FC = () => {
     if (!user) return;
     
     try {
-      const token = localStorage.getItem('token');
-      if (!token) return;
-
-      const response = await axios.get('/api/notifications', {
-        headers: {
-          Authorization: `Bearer ${token}`
-        }
-      });
+      const response = await api.get('/notifications');
+      if (!response.data?.success) return;
 
       const hasUnread = response.data.data.some((notification: Notification) => !notification.read);
       setHasUnreadNotifications(hasUnread);
@@ -65,13 +61,20 @@ const Header: React.FC = () => {
     }
   }, [user]);
 
+  // New notifications arrive over the live stream; polling only runs while it is down
+  useNotificationStream(!!user, {
+    onReady: (unreadCount) => setHasUnreadNotifications(unreadCount > 0),
+    onNotification: () => setHasUnreadNotifications(true),
+    onPoll: fetchUnreadNotifications,
+  });
+
   useEffect(() => {
-    if (user) {
-      fetchUnreadNotifications();
-      // Set up polling every minute to check for new notifications
-      const interval = setInterval(fetchUnreadNotifications, 60000);
-      return () => clearInterval(interval);
+    if (!user) {
+      setHasUnreadNotifications(false);
+      return;
     }
+    window.addEventListener(NOTIFICATIONS_READ_EVENT, fetchUnreadNotifications);
+    return () => window.removeEventListener(NOTIFICATIONS_READ_EVENT, fetchUnreadNotifications);
   }, [user, fetchUnreadNotifications]);
 
   return (
@@ -197,6 +200,9 @@ const Header: React.FC = () => {
             </>
           )}
           
+          {/* Currency Switcher - Always Visible */}
+          <CurrencySwitcher />
+
           {/* Shopping Cart - Always Visible */}
           <Button
             variant="ghost"
@@ -316,6 +322,11 @@ const Header: React.FC = () => {
                 {currentLocale === 'en' ? 'EN' : 'AR'}
               </button>
 
+              {/* Currency Switcher for Mobile */}
+              <div className="px-2">
+                <CurrencySwitcher className="text-gray-800 px-2" />
+              </div>
+
               {/* Mobile Cart - Always Visible */}
               <Link 
                 to="/cart" 
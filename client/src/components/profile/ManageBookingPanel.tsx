@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Settings2, CheckCircle2, XCircle, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useCurrency } from '@/hooks/useCurrency';
+import { toastSuccess, toastError } from '@/utils/i18nToast';
+import {
+  ticketChangeService,
+  type TicketChangeOptions,
+  type TicketChangeResult,
+  type TicketTimelineEvent,
+} from '@/services/ticketChangeService';
+
+interface ManageBookingPanelProps {
+  bookingId: string;
+  timeline: TicketTimelineEvent[];
+  onChanged?: (result: TicketChangeResult) => void;
+}
+
+type PendingAction = 'refund' | 'void' | null;
+
+const ManageBookingPanel: React.FC<ManageBookingPanelProps> = ({ bookingId, timeline, onChanged }) => {
+  const { t, i18n } = useTranslation();
+  const { formatPrice } = useCurrency();
+  const [options, setOptions] = useState<TicketChangeOptions | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [pendingAction, setPendingAction] = useState<PendingAction>(null);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    let mounted = true;
+    setLoading(true);
+    setPendingAction(null);
+    ticketChangeService
+      .getOptions(bookingId)
+      .then((data) => { if (mounted) setOptions(data); })
+      .catch(() => { if (mounted) setOptions(null); })
+      .finally(() => { if (mounted) setLoading(false); });
+    return () => { mounted = false; };
+  }, [bookingId]);
+
+  // A ticket can only be changed once it has been issued and not already refunded/voided/exchanged
+  const ticketChangeable = !!options?.ticketId && (options.ticketStatus === 'issued' || options.ticketStatus === 'pending');
+
+  const handleConfirm = async () => {
+    if (!options?.ticketId || !pendingAction) return;
+    try {
+      setSubmitting(true);
+      const request = { bookingId, ticketId: options.ticketId, reason: reason.trim() || undefined };
+      const result = pendingAction === 'refund'
+        ? await ticketChangeService.refundTicket(request)
+        : await ticketChangeService.voidTicket(request);
+      setOptions({ ...options, ticketStatus: result.ticketStatus });
+      setPendingAction(null);
+      setReason('');
+      onChanged?.(result);
+      if (pendingAction === 'refund') {
+        toastSuccess('تم إرسال طلب الاسترداد بنجاح', 'Refund request submitted successfully');
+      } else {
+        toastSuccess('تم إلغاء التذكرة بنجاح', 'Ticket voided successfully');
+      }
+    } catch (error) {
+      console.error('Ticket change request failed:', error);
+      if (pendingAction === 'refund') {
+        toastError('فشل طلب الاسترداد', 'Refund request failed');
+      } else {
+        toastError('فشل إلغاء التذكرة', 'Failed to void ticket');
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderFlag = (label: string, enabled: boolean) => (
+    <div className="flex items-center gap-2 text-sm">
+      {enabled ? (
+        <CheckCircle2 className="h-4 w-4 text-green-600" />
+      ) : (
+        <XCircle className="h-4 w-4 text-gray-400" />
+      )}
+      <span>{label}</span>
+    </div>
+  );
+
+  const formatEventDate = (date: string) => {
+    try {
+      return new Date(date).toLocaleString(i18n?.language || 'en-US');
+    } catch (e) {
+      return date;
+    }
+  };
+
+  const selectedFee = pendingAction && options ? options.fees[pendingAction] : null;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-base font-semibold flex items-center gap-2">
+        <Settings2 className="h-4 w-4 text-tourtastic-blue" />
+        {t('manageBooking.title', 'Manage booking')}
+      </h3>
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-sm text-gray-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          {t('loading', 'Loading...')}
+        </div>
+      ) : !options ? (
+        <p className="text-sm text-gray-500">{t('manageBooking.unavailable', 'Booking changes are not available right now.')}</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+            {renderFlag(t('refundable', 'Refundable'), options.canRefund)}
+            {renderFlag(t('canBeVoided', 'Can be voided'), options.canVoid)}
+            {renderFlag(t('canBeExchanged', 'Can be exchanged'), options.canExchange)}
+          </div>
+
+          {options.ticketStatus !== 'issued' && options.ticketStatus !== 'pending' && (
+            <p className="text-sm font-medium text-amber-700">
+              {t(`manageBooking.ticketStatus.${options.ticketStatus}`, `Ticket ${options.ticketStatus}`)}
+            </p>
+          )}
+
+          {!options.ticketId && (
+            <p className="text-sm text-gray-500">
+              {t('manageBooking.notIssued', 'Changes become available once your ticket has been issued.')}
+            </p>
+          )}
+
+          {options.canExchange && ticketChangeable && (
+            <p className="text-xs text-gray-500">
+              {t('manageBooking.exchangeInfo', 'To change your travel dates, please contact our support team.')}
+            </p>
+          )}
+
+          {pendingAction && selectedFee ? (
+            <div className="border rounded-md p-3 space-y-3 bg-gray-50">
+              <p className="text-sm font-medium">
+                {pendingAction === 'refund'
+                  ? t('manageBooking.confirmRefund', 'Request a refund for this ticket?')
+                  : t('manageBooking.confirmVoid', 'Void this ticket?')}
+              </p>
+              <div className="grid grid-cols-3 gap-2 text-sm">
+                <div>
+                  <p className="text-xs text-gray-500">{t('manageBooking.paid', 'Paid')}</p>
+                  <p className="font-medium">{formatPrice(options.paidAmount)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">{t('manageBooking.fee', 'Fee')}</p>
+                  <p className="font-medium">{formatPrice(selectedFee.fee)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">{t('manageBooking.estimatedRefund', 'Estimated refund')}</p>
+                  <p className="font-medium">{formatPrice(selectedFee.estimatedRefund ?? 0)}</p>
+                </div>
+              </div>
+              <p className="text-xs text-gray-500">
+                {t('manageBooking.feeDisclaimer', 'Airline penalties may apply in addition to our service fee.')}
+              </p>
+              <Textarea
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={t('manageBooking.reasonPlaceholder', 'Reason (optional)')}
+                rows={2}
+              />
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setPendingAction(null)} disabled={submitting}>
+                  {t('cancel', 'Cancel')}
+                </Button>
+                <Button variant="destructive" size="sm" onClick={handleConfirm} disabled={submitting}>
+                  {submitting && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {t('manageBooking.confirm', 'Confirm')}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            ticketChangeable && (
+              <div className="flex flex-wrap gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!options.canRefund}
+                  onClick={() => setPendingAction('refund')}
+                >
+                  {t('manageBooking.requestRefund', 'Request refund')}
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={!options.canVoid}
+                  onClick={() => setPendingAction('void')}
+                >
+                  {t('manageBooking.voidTicket', 'Void ticket')}
+                </Button>
+              </div>
+            )
+          )}
+        </>
+      )}
+
+      {timeline && timeline.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-gray-500">{t('booking.timeline', 'Booking history')}</p>
+          <ul className="text-xs space-y-1">
+            {timeline.map((event, idx) => (
+              <li key={`${event.status}-${idx}`} className="flex justify-between gap-2">
+                <span className="font-medium">{event.notes || event.status}</span>
+                <span className="text-gray-500 whitespace-nowrap">{event.date ? formatEventDate(event.date) : ''}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ManageBookingPanel;
@@ -0,0 +1,130 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import { ar, enUS } from 'date-fns/locale';
+import { Bell, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Switch } from '@/components/ui/switch';
+import { useCurrency } from '@/hooks/useCurrency';
+import { toastSuccess, toastError } from '@/utils/i18nToast';
+import { priceAlertService, type PriceAlert } from '@/services/priceAlertService';
+
+const PriceAlertsPanel: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const navigate = useNavigate();
+  const { formatPrice } = useCurrency();
+  const locale = i18n.language === 'ar' ? ar : enUS;
+  const [alerts, setAlerts] = useState<PriceAlert[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => {
+    let mounted = true;
+    priceAlertService
+      .getAlerts()
+      .then((data) => { if (mounted) setAlerts(data); })
+      .catch(() => { if (mounted) setAlerts([]); })
+      .finally(() => { if (mounted) setLoading(false); });
+    return () => { mounted = false; };
+  }, []);
+
+  const handleToggle = async (alert: PriceAlert, active: boolean) => {
+    try {
+      setBusyId(alert._id);
+      const updated = await priceAlertService.updateAlert(alert._id, { active });
+      setAlerts((prev) => prev.map((a) => (a._id === updated._id ? updated : a)));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      toastError('تعذر تحديث تنبيه السعر', message || 'Failed to update price alert');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDelete = async (alert: PriceAlert) => {
+    try {
+      setBusyId(alert._id);
+      await priceAlertService.deleteAlert(alert._id);
+      setAlerts((prev) => prev.filter((a) => a._id !== alert._id));
+      toastSuccess('تم حذف تنبيه السعر', 'Price alert deleted');
+    } catch (error) {
+      toastError('تعذر حذف تنبيه السعر', 'Failed to delete price alert');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const formatDate = (value: string) => format(new Date(value), 'd MMM yyyy', { locale });
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <h3 className="text-xl font-bold mb-6">{t('priceAlerts.title', 'Price Alerts')}</h3>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-tourtastic-blue" />
+          </div>
+        ) : alerts.length > 0 ? (
+          <div className="space-y-3">
+            {alerts.map((alert) => (
+              <div key={alert._id} className="border rounded-lg p-4 flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex-1 space-y-1">
+                  <div className="flex items-center gap-2 font-semibold">
+                    <Bell className="h-4 w-4 text-tourtastic-blue" />
+                    {alert.from} → {alert.to}
+                    {alert.returnDate && <span className="text-xs font-normal text-gray-500">{t('priceAlerts.roundTrip', 'Round trip')}</span>}
+                  </div>
+                  <p className="text-sm text-gray-600">
+                    {formatDate(alert.departureDate)}
+                    {alert.returnDate && ` - ${formatDate(alert.returnDate)}`}
+                  </p>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm">
+                    <span>{t('priceAlerts.targetPrice', 'Target price')}: <strong>{formatPrice(alert.targetPrice)}</strong></span>
+                    <span>{t('priceAlerts.lastPrice', 'Latest fare')}: {formatPrice(alert.lastPrice)}</span>
+                    <span>{t('priceAlerts.lowestPrice', 'Lowest seen')}: {formatPrice(alert.lowestPrice)}</span>
+                  </div>
+                  {alert.lastCheckedAt && (
+                    <p className="text-xs text-gray-500">
+                      {t('priceAlerts.lastChecked', 'Last checked {{date}}', { date: format(new Date(alert.lastCheckedAt), 'd MMM, HH:mm', { locale }) })}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-3">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={alert.active}
+                      disabled={busyId === alert._id}
+                      onCheckedChange={(checked) => handleToggle(alert, checked)}
+                    />
+                    <span className="text-sm">{alert.active ? t('priceAlerts.active', 'Active') : t('priceAlerts.paused', 'Paused')}</span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={busyId === alert._id}
+                    onClick={() => handleDelete(alert)}
+                    aria-label={t('priceAlerts.delete', 'Delete alert')}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <p className="text-gray-500">{t('priceAlerts.empty', "You aren't watching any routes yet.")}</p>
+            <Button className="mt-4" onClick={() => navigate('/flights')}>
+              {t('priceAlerts.searchFlights', 'Search flights')}
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PriceAlertsPanel;
@@ -0,0 +1,275 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { AlertTriangle, Loader2, Pencil, Plus, Trash2, UserRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useAuth } from '@/hooks/useAuth';
+import { toastSuccess, toastError } from '@/utils/i18nToast';
+import { ARAB_COUNTRIES, passportExpiresTooSoon } from '@/utils/travellers';
+import { travellerService, type SavedTraveller, type SavedTravellerInput } from '@/services/travellerService';
+
+const EMPTY_TRAVELLER: SavedTravellerInput = {
+  firstName: '',
+  lastName: '',
+  gender: '',
+  dob: null,
+  passportNumber: '',
+  passportIssueDate: null,
+  passportExpiryDate: null,
+  passportCountry: '',
+  nationality: '',
+  phone: '',
+  email: '',
+};
+
+// Dates travel as ISO strings; native date inputs want yyyy-MM-dd
+const toInputDate = (value?: string | null) => (value ? value.slice(0, 10) : '');
+
+const TravellersPanel: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const { user } = useAuth();
+  const userId = user?._id || user?.id;
+  const isArabic = i18n.language === 'ar';
+  const [travellers, setTravellers] = useState<SavedTraveller[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<SavedTravellerInput>(EMPTY_TRAVELLER);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!userId) return;
+    let mounted = true;
+    travellerService
+      .getTravellers(userId)
+      .then((data) => { if (mounted) setTravellers(data); })
+      .catch(() => { if (mounted) setTravellers([]); })
+      .finally(() => { if (mounted) setLoading(false); });
+    return () => { mounted = false; };
+  }, [userId]);
+
+  const openDialog = (traveller?: SavedTraveller) => {
+    if (traveller) {
+      const { _id, ...rest } = traveller;
+      setEditingId(_id);
+      setForm({ ...EMPTY_TRAVELLER, ...rest });
+    } else {
+      setEditingId(null);
+      setForm(EMPTY_TRAVELLER);
+    }
+    setDialogOpen(true);
+  };
+
+  const setField = (field: keyof SavedTravellerInput, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSave = async () => {
+    if (!userId) return;
+    if (!form.firstName.trim() || !form.lastName.trim()) {
+      toastError('يرجى إدخال الاسم الأول واسم العائلة', 'Please enter a first and last name');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      if (editingId) {
+        const updated = await travellerService.updateTraveller(userId, editingId, form);
+        setTravellers((prev) => prev.map((item) => (item._id === updated._id ? updated : item)));
+      } else {
+        const created = await travellerService.addTraveller(userId, form);
+        setTravellers((prev) => [...prev, created]);
+      }
+      toastSuccess('تم حفظ المسافر', 'Traveller saved');
+      setDialogOpen(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      toastError('تعذر حفظ المسافر', message || 'Failed to save traveller');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (traveller: SavedTraveller) => {
+    if (!userId) return;
+    try {
+      setBusyId(traveller._id);
+      await travellerService.deleteTraveller(userId, traveller._id);
+      setTravellers((prev) => prev.filter((item) => item._id !== traveller._id));
+      toastSuccess('تم حذف المسافر', 'Traveller deleted');
+    } catch (error) {
+      toastError('تعذر حذف المسافر', 'Failed to delete traveller');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const countryName = (code?: string) => {
+    const country = ARAB_COUNTRIES.find((c) => c.code === code);
+    if (!country) return code || '';
+    return isArabic ? country.nameAr : country.nameEn;
+  };
+
+  const selectClassName = 'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-tourtastic-blue';
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-6">
+          <h3 className="text-xl font-bold">{t('travellers.title', 'Saved Travellers')}</h3>
+          <Button onClick={() => openDialog()} className="flex items-center gap-2">
+            <Plus className="h-4 w-4" />
+            {t('travellers.add', 'Add traveller')}
+          </Button>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-tourtastic-blue" />
+          </div>
+        ) : travellers.length > 0 ? (
+          <div className="space-y-3">
+            {travellers.map((traveller) => (
+              <div key={traveller._id} className="border rounded-lg p-4 flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex-1 space-y-1">
+                  <div className="flex items-center gap-2 font-semibold">
+                    <UserRound className="h-4 w-4 text-tourtastic-blue" />
+                    {traveller.firstName} {traveller.lastName}
+                  </div>
+                  <div className="flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+                    {traveller.dob && <span>{t('dob', 'Date of Birth')}: {format(new Date(traveller.dob), 'yyyy-MM-dd')}</span>}
+                    {traveller.nationality && <span>{t('nationality', 'Nationality')}: {countryName(traveller.nationality)}</span>}
+                    {traveller.passportNumber && <span>{t('passportNumber', 'Passport Number')}: {traveller.passportNumber}</span>}
+                    {traveller.passportExpiryDate && (
+                      <span>{t('passportExpiryDate', 'Passport Expiry Date')}: {format(new Date(traveller.passportExpiryDate), 'yyyy-MM-dd')}</span>
+                    )}
+                  </div>
+                  {passportExpiresTooSoon(traveller.passportExpiryDate, new Date()) && (
+                    <p className="flex items-center gap-1 text-xs text-amber-700">
+                      <AlertTriangle className="h-3 w-3" />
+                      {t('travellers.passportExpiringSoon', 'Passport expires within six months')}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={busyId === traveller._id}
+                    onClick={() => openDialog(traveller)}
+                    aria-label={t('travellers.edit', 'Edit traveller')}
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    disabled={busyId === traveller._id}
+                    onClick={() => handleDelete(traveller)}
+                    aria-label={t('travellers.delete', 'Delete traveller')}
+                  >
+                    <Trash2 className="h-4 w-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <p className="text-gray-500">
+              {t('travellers.empty', 'Save the people you travel with to fill in passenger details in one click.')}
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl w-[95vw]">
+          <DialogHeader>
+            <DialogTitle>
+              {editingId ? t('travellers.edit', 'Edit traveller') : t('travellers.add', 'Add traveller')}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 max-h-[65vh] overflow-y-auto py-2">
+            <div>
+              <Label>{t('firstName', 'First Name')}</Label>
+              <Input value={form.firstName} onChange={(e) => setField('firstName', e.target.value)} />
+            </div>
+            <div>
+              <Label>{t('lastName', 'Last Name')}</Label>
+              <Input value={form.lastName} onChange={(e) => setField('lastName', e.target.value)} />
+            </div>
+            <div>
+              <Label>{t('gender', 'Gender')}</Label>
+              <select value={form.gender || ''} onChange={(e) => setField('gender', e.target.value)} className={selectClassName}>
+                <option value="">{t('selectGender', 'Select Gender')}</option>
+                <option value="M">{t('male', 'Male')}</option>
+                <option value="F">{t('female', 'Female')}</option>
+              </select>
+            </div>
+            <div>
+              <Label>{t('dob', 'Date of Birth')}</Label>
+              <Input type="date" value={toInputDate(form.dob)} onChange={(e) => setField('dob', e.target.value)} />
+            </div>
+            <div>
+              <Label>{t('nationality', 'Nationality')}</Label>
+              <select value={form.nationality || ''} onChange={(e) => setField('nationality', e.target.value)} className={selectClassName}>
+                <option value="">{t('selectNationality', 'Select Nationality')}</option>
+                {ARAB_COUNTRIES.map((country) => (
+                  <option key={country.code} value={country.code}>
+                    {isArabic ? country.nameAr : country.nameEn}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label>{t('passportNumber', 'Passport Number')}</Label>
+              <Input value={form.passportNumber || ''} onChange={(e) => setField('passportNumber', e.target.value)} />
+            </div>
+            <div>
+              <Label>{t('passportCountry', 'Passport Country')}</Label>
+              <select value={form.passportCountry || ''} onChange={(e) => setField('passportCountry', e.target.value)} className={selectClassName}>
+                <option value="">{t('selectPassportCountry', 'Select Passport Country')}</option>
+                {ARAB_COUNTRIES.map((country) => (
+                  <option key={country.code} value={country.code}>
+                    {isArabic ? country.nameAr : country.nameEn}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label>{t('passportIssueDate', 'Passport Issue Date')}</Label>
+              <Input type="date" value={toInputDate(form.passportIssueDate)} onChange={(e) => setField('passportIssueDate', e.target.value)} />
+            </div>
+            <div>
+              <Label>{t('passportExpiryDate', 'Passport Expiry Date')}</Label>
+              <Input type="date" value={toInputDate(form.passportExpiryDate)} onChange={(e) => setField('passportExpiryDate', e.target.value)} />
+            </div>
+            <div>
+              <Label>{t('phone', 'Phone')}</Label>
+              <Input value={form.phone || ''} onChange={(e) => setField('phone', e.target.value)} />
+            </div>
+            <div className="md:col-span-2">
+              <Label>{t('email', 'Email')}</Label>
+              <Input type="email" value={form.email || ''} onChange={(e) => setField('email', e.target.value)} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)}>{t('cancel', 'Cancel')}</Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              {t('save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default TravellersPanel;
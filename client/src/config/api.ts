@@ -15,7 +15,7 @@ const REFRESH_ENDPOINT = '/auth/refresh-token';
 let redirectingToLogin = false;
 let refreshPromise: Promise<string | null> | null = null;
 
-const PUBLIC_ENDPOINT_PREFIXES = ['/flights/search', '/flights/results'];
+const PUBLIC_ENDPOINT_PREFIXES = ['/flights/search', '/flights/results', '/seeru/retrieve-ticket'];
 
 const isPublicEndpoint = (url?: string) => {
   if (!url) return false;
@@ -28,6 +28,12 @@ api.interceptors.request.use(async (config) => {
   const refreshToken = localStorage.getItem('refreshToken');
   const sessionId = localStorage.getItem('sessionId');
 
+  // Always identify the guest cart so the server can merge it on login or registration
+  if (sessionId) {
+    config.headers = (config.headers ?? {}) as AxiosRequestHeaders;
+    (config.headers as AxiosRequestHeaders)['X-Session-ID'] = sessionId;
+  }
+
   // If we have a token, ensure it's fresh. If expired, try to refresh synchronously.
   if (token) {
     try {
@@ -89,11 +95,6 @@ api.interceptors.request.use(async (config) => {
     }
   }
 
-  if (sessionId) {
-    config.headers = (config.headers ?? {}) as AxiosRequestHeaders;
-    (config.headers as AxiosRequestHeaders)['X-Session-ID'] = sessionId;
-  }
-
   return config;
 });
 
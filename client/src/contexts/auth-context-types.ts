@@ -6,6 +6,8 @@ export interface User {
   name: string;
   email: string;
   role: string;
+  /** Admin permissions granted by the role, e.g. 'bookings:view' */
+  permissions?: string[];
 }
 
 export interface AuthContextType {
@@ -16,6 +18,9 @@ export interface AuthContextType {
   error: string | null;
   login: (tokens: { accessToken: string; refreshToken: string }, userData: User) => void;
   logout: () => void;
+  /** Whether the user may access part of the admin area */
+  isStaff: boolean;
+  hasPermission: (permission: string) => boolean;
 }
 
 export const AuthContext = createContext<AuthContextType | undefined>(undefined);
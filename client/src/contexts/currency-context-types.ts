@@ -0,0 +1,14 @@
+import { createContext } from 'react';
+import type { CurrencyCode, CurrencyRates } from '../utils/currency';
+
+export interface CurrencyContextType {
+  currency: CurrencyCode;
+  currencies: CurrencyCode[];
+  rates: CurrencyRates;
+  loading: boolean;
+  setCurrency: (currency: CurrencyCode) => void;
+  refreshRates: () => Promise<void>;
+  formatPrice: (amountUsd: number | null | undefined, opts?: { minimumFractionDigits?: number }) => string;
+}
+
+export const CurrencyContext = createContext<CurrencyContextType | undefined>(undefined);
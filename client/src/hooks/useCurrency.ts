@@ -0,0 +1,10 @@
+import { useContext } from 'react';
+import { CurrencyContext } from '../contexts/currency-context-types';
+
+export const useCurrency = () => {
+  const context = useContext(CurrencyContext);
+  if (!context) {
+    throw new Error('useCurrency must be used within a CurrencyProvider');
+  }
+  return context;
+};
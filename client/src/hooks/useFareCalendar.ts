@@ -0,0 +1,168 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { addDays, format, isBefore, startOfDay } from 'date-fns';
+import { AirlineFilters, PassengerCount, getSearchResults, searchFlights } from '@/services/flightService';
+import { getFlightTotalPrice } from '@/components/flights/utils/flightHelpers';
+import { buildSegmentKey } from './useMultiCitySearch';
+
+export const FARE_CALENDAR_RANGE_DAYS = 3;
+
+export interface DayFare {
+  date: Date;
+  loading: boolean;
+  price: number | null;
+}
+
+export interface FareCalendarParams {
+  from: string;
+  to: string;
+  departureDate: Date;
+  returnDate?: Date;
+  passengers: PassengerCount;
+  cabin?: 'e' | 'p' | 'b' | 'f';
+  direct?: boolean;
+  airlines?: AirlineFilters;
+}
+
+export interface FareCalendarApi {
+  departureFares: DayFare[];
+  returnFares: DayFare[];
+  loadCalendar: (params: FareCalendarParams) => void;
+  clearCalendar: () => void;
+}
+
+// Module-level cache of the cheapest fare per route/day (shared across hook instances)
+const CACHE_DURATION_MS = 5 * 60 * 1000; // 5 minutes
+const POLLING_INTERVAL_MS = 1000;
+const MAX_POLLS = 30; // Give up on a cell after ~30s
+const MAX_CONCURRENT_SEARCHES = 3;
+const dayFareCache = new Map<string, { price: number | null; timestamp: number }>();
+const pendingDayFares = new Map<string, Promise<number | null>>();
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function fetchCheapestFare(
+  from: string,
+  to: string,
+  date: Date,
+  passengers: PassengerCount,
+  cabin?: 'e' | 'p' | 'b' | 'f',
+  direct?: boolean,
+  airlines?: AirlineFilters,
+): Promise<number | null> {
+  const { search_id: searchId } = await searchFlights({
+    flightSegments: [{ from, to, date: format(date, 'yyyy-MM-dd') }],
+    passengers,
+    cabin,
+    direct,
+    ...airlines,
+  });
+
+  let cheapest: number | null = null;
+  let after: number | undefined;
+  for (let poll = 0; poll < MAX_POLLS; poll++) {
+    const results = await getSearchResults(searchId, after, airlines);
+    (results.result || []).forEach(flight => {
+      const total = getFlightTotalPrice(flight);
+      if (total > 0 && (cheapest == null || total < cheapest)) cheapest = total;
+    });
+    if (results.status === 'no_results' || results.complete >= 100) break;
+    if (typeof results.last_result === 'number') after = results.last_result;
+    await wait(POLLING_INTERVAL_MS);
+  }
+  return cheapest;
+}
+
+function getCheapestFare(
+  from: string,
+  to: string,
+  date: Date,
+  passengers: PassengerCount,
+  cabin?: 'e' | 'p' | 'b' | 'f',
+  direct?: boolean,
+  airlines?: AirlineFilters,
+): Promise<number | null> {
+  const key = buildSegmentKey({ from, to, date }, passengers, cabin, direct, airlines);
+  const cached = dayFareCache.get(key);
+  if (cached && Date.now() - cached.timestamp < CACHE_DURATION_MS) {
+    return Promise.resolve(cached.price);
+  }
+
+  const pending = pendingDayFares.get(key);
+  if (pending) return pending;
+
+  const request = fetchCheapestFare(from, to, date, passengers, cabin, direct, airlines)
+    .then(price => {
+      dayFareCache.set(key, { price, timestamp: Date.now() });
+      return price;
+    })
+    .catch(() => null)
+    .finally(() => {
+      pendingDayFares.delete(key);
+    });
+  pendingDayFares.set(key, request);
+  return request;
+}
+
+function buildDays(center: Date): Date[] {
+  const today = startOfDay(new Date());
+  const days: Date[] = [];
+  for (let offset = -FARE_CALENDAR_RANGE_DAYS; offset <= FARE_CALENDAR_RANGE_DAYS; offset++) {
+    const day = startOfDay(addDays(center, offset));
+    if (!isBefore(day, today)) days.push(day);
+  }
+  return days;
+}
+
+// Round trips are searched as two independent one-way segments (see useMultiCitySearch),
+// so a ±N day matrix only needs one search per outbound day and one per return day.
+export function useFareCalendar(): FareCalendarApi {
+  const [departureFares, setDepartureFares] = useState<DayFare[]>([]);
+  const [returnFares, setReturnFares] = useState<DayFare[]>([]);
+  const generationRef = useRef(0);
+
+  useEffect(() => {
+    return () => {
+      // Ignore results that arrive after unmount
+      generationRef.current += 1;
+    };
+  }, []);
+
+  const clearCalendar = useCallback(() => {
+    generationRef.current += 1;
+    setDepartureFares([]);
+    setReturnFares([]);
+  }, []);
+
+  const loadCalendar = useCallback((params: FareCalendarParams) => {
+    const generation = ++generationRef.current;
+    const { from, to, passengers, cabin, direct, airlines } = params;
+
+    const departureDays = buildDays(params.departureDate);
+    const returnDays = params.returnDate ? buildDays(params.returnDate) : [];
+    setDepartureFares(departureDays.map(date => ({ date, loading: true, price: null })));
+    setReturnFares(returnDays.map(date => ({ date, loading: true, price: null })));
+
+    const tasks = [
+      ...departureDays.map(date => ({ date, from, to, setter: setDepartureFares })),
+      ...returnDays.map(date => ({ date, from: to, to: from, setter: setReturnFares })),
+    ];
+
+    // Fan out with a small concurrency limit so we don't flood the Seeru proxy
+    const runNext = async (): Promise<void> => {
+      const task = tasks.shift();
+      if (!task || generation !== generationRef.current) return;
+      const price = await getCheapestFare(task.from, task.to, task.date, passengers, cabin, direct, airlines);
+      if (generation === generationRef.current) {
+        task.setter(prev => prev.map(cell => (
+          cell.date.getTime() === task.date.getTime() ? { ...cell, loading: false, price } : cell
+        )));
+      }
+      return runNext();
+    };
+    for (let i = 0; i < MAX_CONCURRENT_SEARCHES; i++) {
+      runNext();
+    }
+  }, []);
+
+  return { departureFares, returnFares, loadCalendar, clearCalendar };
+}
@@ -1,6 +1,9 @@
-import { useCallback, useEffect, useRef, useState } from 'react';
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { format } from 'date-fns';
-import { Flight, FlightSearchParams, PassengerCount, getSearchResults, searchFlights } from '@/services/flightService';
+import { AirlineFilters, Flight, FlightSearchParams, PassengerCount, airlineFiltersKey, getSearchResults, searchFlights } from '@/services/flightService';
+import { DEFAULT_FILTERS, FilterFacets, FilterState, getFilterFacets } from '@/components/flights/utils/flightFilters';
+import { FlightResultsClient } from '@/components/flights/utils/flightResultsClient';
+import type { FlightResultsView } from '@/components/flights/utils/flightResultsStore';
 
 export interface SegmentInput {
   from: string;
@@ -18,21 +21,24 @@ export interface SearchSection {
   hasMore: boolean;
   loading: boolean;
   error?: string;
-  visibleCount: number;
   progress: number;
   searchId?: string;
   lastAfter?: number;
 }
 
 export interface MultiCitySearchApi {
+  // Every fare received so far, in arrival order
   searchSections: SearchSection[];
+  // The same sections holding only the fares that pass the filters, in the chosen order
+  resultSections: SearchSection[];
+  facets: FilterFacets;
   startMultiSearch: (
     segments: SegmentInput[],
     passengers: PassengerCount,
     cabin?: 'e' | 'p' | 'b' | 'f',
     direct?: boolean,
+    airlines?: AirlineFilters,
   ) => Promise<void>;
-  loadMore: (sectionIndex: number) => void;
 }
 
 interface PollingRef {
@@ -71,17 +77,33 @@ interface PollingRef {
 const pendingSearches = new Map<string, Promise<string>>();
 const pollingRefs = new Map<string, PollingRef>();
 
-function buildSegmentKey(segment: SegmentInput, passengers: PassengerCount, cabin?: 'e' | 'p' | 'b' | 'f', direct?: boolean) {
+export function buildSegmentKey(segment: SegmentInput, passengers: PassengerCount, cabin?: 'e' | 'p' | 'b' | 'f', direct?: boolean, airlines?: AirlineFilters) {
   const fromCode = (segment.from || '').trim().toUpperCase();
   const toCode = (segment.to || '').trim().toUpperCase();
   const dateKey = format(segment.date, 'yyyy-MM-dd');
   const cabinKey = cabin || 'e';
   const directKey = direct ? '1' : '0';
-  return `${fromCode}-${toCode}-${dateKey}-${cabinKey}-${directKey}-${passengers.adults}-${passengers.children}-${passengers.infants}`;
+  return `${fromCode}-${toCode}-${dateKey}-${cabinKey}-${directKey}-${passengers.adults}-${passengers.children}-${passengers.infants}-${airlineFiltersKey(airlines)}`;
 }
 
-export function useMultiCitySearch(): MultiCitySearchApi {
+export function useMultiCitySearch(filters: FilterState = DEFAULT_FILTERS): MultiCitySearchApi {
   const [searchSections, setSearchSections] = useState<SearchSection[]>([]);
+  const [resultsView, setResultsView] = useState<FlightResultsView | null>(null);
+  // Bumped by every new search so polls still in flight for the previous one are dropped
+  const searchGenerationRef = useRef(0);
+
+  // Dedup, filtering, sorting and facet counts run in a worker, fed one poll at a time
+  const resultsClientRef = useRef<FlightResultsClient | null>(null);
+  const getResultsClient = useCallback(() => {
+    if (!resultsClientRef.current) {
+      resultsClientRef.current = new FlightResultsClient(setResultsView);
+    }
+    return resultsClientRef.current;
+  }, []);
+
+  useEffect(() => {
+    getResultsClient().setFilters(filters);
+  }, [filters, getResultsClient]);
 
   // Track mounted for cleanup safety
   const mountedRef = useRef(true);
@@ -94,6 +116,8 @@ export function useMultiCitySearch(): MultiCitySearchApi {
         if (ref.timeoutId) clearTimeout(ref.timeoutId);
         ref.active = false;
       });
+      resultsClientRef.current?.terminate();
+      resultsClientRef.current = null;
     };
   }, []);
 
@@ -106,9 +130,10 @@ export function useMultiCitySearch(): MultiCitySearchApi {
     });
   }, []);
 
-  const startPolling = useCallback((segmentKey: string, sectionIndex: number, searchId: string, initialAfter: number | undefined, passengers: PassengerCount) => {
+  const startPolling = useCallback((segmentKey: string, sectionIndex: number, searchId: string, initialAfter: number | undefined, passengers: PassengerCount, airlines?: AirlineFilters) => {
     const existing = pollingRefs.get(segmentKey);
     if (existing?.active) return; // Already polling
+    const generation = searchGenerationRef.current;
 
     const newRef: PollingRef = {
       active: true,
@@ -139,7 +164,8 @@ export function useMultiCitySearch(): MultiCitySearchApi {
     const pollOnce = async (after?: number) => {
       if (!mountedRef.current) return;
       try {
-        const results = await withRetryOnce(() => getSearchResults(searchId, after));
+        const results = await withRetryOnce(() => getSearchResults(searchId, after, airlines));
+        if (generation !== searchGenerationRef.current) return;
 
         // Normalize result fields to avoid boolean coercion issues
         const normalizedComplete = typeof results.complete === 'number' ? results.complete : (results.complete ? 100 : 0);
@@ -195,37 +221,23 @@ export function useMultiCitySearch(): MultiCitySearchApi {
 
         pollingRefs.set(segmentKey, ref);
 
-        // Override passenger counts in flights to reflect current search
+        // The worker tags fares with this search and the current passengers, and drops repeats
         const refNow = pollingRefs.get(segmentKey);
         const segPassengers = refNow?.passengers || passengers;
-        const enrichedFlights = Array.isArray(results.result)
-          ? results.result.map((f) => ({
-              ...f,
-              // Attach Seeru search_id from the current polling context
-              // so it can be forwarded later when creating a booking
-              search_id: searchId,
-              search_query: {
-                ...f.search_query,
-                adt: segPassengers.adults,
-                chd: segPassengers.children,
-                inf: segPassengers.infants,
-                options: {
-                  ...f.search_query?.options,
-                },
-              },
-            }))
-          : [];
+        const incoming = Array.isArray(results.result) ? results.result : [];
+        const { added, replaced } = incoming.length > 0
+          ? await getResultsClient().append(sectionIndex, incoming, { searchId, passengers: segPassengers })
+          : { added: [], replaced: [] };
+        if (generation !== searchGenerationRef.current) return;
+        const newFlightsCountDelta = added.length;
 
         // Merge new flights and update progress
-        let newFlightsCountDelta = 0;
         updateSection(sectionIndex, (prev) => {
-          const byId = new Map<string, Flight>();
-          prev.flights.forEach(f => byId.set(f.trip_id, f));
-          const beforeCount = byId.size;
-          enrichedFlights.forEach((f) => byId.set(f.trip_id, f));
-          const flights = Array.from(byId.values());
-          const afterCount = flights.length;
-          newFlightsCountDelta = Math.max(0, afterCount - beforeCount);
+          const updates = new Map(replaced.map(f => [f.trip_id, f]));
+          const flights = [
+            ...(updates.size > 0 ? prev.flights.map(f => updates.get(f.trip_id) || f) : prev.flights),
+            ...added,
+          ];
 
           const isComplete = normalizedComplete >= 100;
           const lastAfter = normalizedLastAfter;
@@ -241,15 +253,13 @@ export function useMultiCitySearch(): MultiCitySearchApi {
             searchId,
           });
 
-          const hasMore = !isComplete || flights.length > prev.visibleCount;
-
           return {
             ...prev,
             flights,
             isComplete,
             lastAfter,
             progress,
-            hasMore,
+            hasMore: !isComplete,
             loading: !isComplete,
           };
         });
@@ -295,7 +305,7 @@ export function useMultiCitySearch(): MultiCitySearchApi {
             ...prev, 
             loading: false, 
             isComplete: true, 
-            hasMore: prev.flights.length > prev.visibleCount,
+            hasMore: false,
             error: prev.flights.length === 0 ? 'No flights found after multiple attempts. Please try different search criteria.' : undefined
           }));
           return;
@@ -310,7 +320,7 @@ export function useMultiCitySearch(): MultiCitySearchApi {
             ...prev, 
             loading: false, 
             isComplete: true, 
-            hasMore: prev.flights.length > prev.visibleCount,
+            hasMore: false,
             // Clear error when search completes successfully
             error: undefined
           }));
@@ -357,13 +367,14 @@ export function useMultiCitySearch(): MultiCitySearchApi {
 
     // Kick off first poll
     pollOnce(initialAfter);
-  }, [updateSection]);
+  }, [getResultsClient, updateSection]);
 
   const startMultiSearch = useCallback(async (
     segments: SegmentInput[],
     passengers: PassengerCount,
     cabin?: 'e' | 'p' | 'b' | 'f',
     direct?: boolean,
+    airlines?: AirlineFilters,
   ) => {
     // Clear existing searches and results
     segmentResultsCache.clear();
@@ -373,6 +384,9 @@ export function useMultiCitySearch(): MultiCitySearchApi {
       pollingRef.active = false;
     });
     pollingRefs.clear();
+    searchGenerationRef.current += 1;
+    const generation = searchGenerationRef.current;
+    getResultsClient().reset(segments.length);
 
     // Initialize sections for each provided segment
     const initialSections: SearchSection[] = segments.map((seg, idx) => {
@@ -386,7 +400,6 @@ export function useMultiCitySearch(): MultiCitySearchApi {
         hasMore: true,
         loading: true,
         error: undefined,
-        visibleCount: 4,
         progress: 0,
         searchId: undefined,
         lastAfter: undefined,
@@ -396,23 +409,16 @@ export function useMultiCitySearch(): MultiCitySearchApi {
 
     // For each segment, reuse cache or start a new search, then poll
     await Promise.all(segments.map(async (segment, idx) => {
-      const key = buildSegmentKey(segment, passengers, cabin, direct);
+      const key = buildSegmentKey(segment, passengers, cabin, direct, airlines);
 
       // If we have fresh cache, hydrate and resume polling only if not complete
       const cached = segmentResultsCache.get(key);
       if (cached && Date.now() - cached.timestamp < CACHE_DURATION_MS) {
+        const { added } = await getResultsClient().append(idx, cached.flights, { passengers });
+        if (generation !== searchGenerationRef.current) return;
         updateSection(idx, (prev) => ({
           ...prev,
-          flights: cached.flights.map((f) => ({
-            ...f,
-            search_query: {
-              ...f.search_query,
-              adt: passengers.adults,
-              chd: passengers.children,
-              inf: passengers.infants,
-              options: { ...f.search_query?.options },
-            },
-          })),
+          flights: added,
           isComplete: cached.isComplete,
           hasMore: !cached.isComplete,
           loading: !cached.isComplete,
@@ -422,7 +428,7 @@ export function useMultiCitySearch(): MultiCitySearchApi {
         }));
 
         if (!cached.isComplete && cached.searchId && !pollingRefs.get(key)?.active) {
-          startPolling(key, idx, cached.searchId, cached.lastAfter, passengers);
+          startPolling(key, idx, cached.searchId, cached.lastAfter, passengers, airlines);
         }
         return;
       }
@@ -456,6 +462,7 @@ export function useMultiCitySearch(): MultiCitySearchApi {
           passengers,
           cabin,
           direct,
+          ...airlines,
         };
 
         // Update section to show searching state
@@ -500,26 +507,25 @@ export function useMultiCitySearch(): MultiCitySearchApi {
       });
 
       // Start polling
-      startPolling(key, idx, searchId, undefined, passengers);
+      startPolling(key, idx, searchId, undefined, passengers, airlines);
     }));
-  }, [startPolling, updateSection]);
+  }, [getResultsClient, startPolling, updateSection]);
 
-  const loadMore = useCallback((sectionIndex: number) => {
-    updateSection(sectionIndex, (prev) => {
-      const nextVisible = prev.visibleCount + 4;
-      const hasMore = !prev.isComplete || prev.flights.length > nextVisible;
-      return {
-        ...prev,
-        visibleCount: nextVisible,
-        hasMore,
-      };
-    });
-  }, [updateSection]);
+  // Look the worker's trip ids up in the sections; a view a poll behind just misses the newest fares
+  const resultSections = useMemo(() => searchSections.map((section, idx) => {
+    const ids = resultsView?.sections[idx];
+    if (!ids) return { ...section, flights: [] };
+    const byId = new Map(section.flights.map(flight => [flight.trip_id, flight]));
+    return { ...section, flights: ids.map(id => byId.get(id)).filter((flight): flight is Flight => Boolean(flight)) };
+  }), [searchSections, resultsView]);
+
+  const facets = useMemo(() => resultsView?.facets ?? getFilterFacets([], filters), [resultsView, filters]);
 
   return {
     searchSections,
+    resultSections,
+    facets,
     startMultiSearch,
-    loadMore,
   };
 }
 
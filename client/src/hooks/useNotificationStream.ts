@@ -0,0 +1,156 @@
+import { useEffect, useRef, useState } from 'react';
+
+export interface StreamedNotification {
+  _id: string;
+  userId: string;
+  title: { en: string; ar: string };
+  message: { en: string; ar: string };
+  type: string;
+  read: boolean;
+  createdAt: string;
+  pdfUrl?: string | null;
+}
+
+export interface NotificationStreamHandlers {
+  /** Called with the unread count each time the stream (re)connects */
+  onReady?: (unreadCount: number) => void;
+  onNotification?: (notification: StreamedNotification) => void;
+  /** Called on an interval while the stream is down and after each failed connect; should use the api client */
+  onPoll?: () => void;
+}
+
+// Dispatched on window when notifications are marked read elsewhere in the app
+export const NOTIFICATIONS_READ_EVENT = 'notifications:read';
+
+const POLLING_INTERVAL_MS = 60 * 1000;
+const INITIAL_RECONNECT_DELAY_MS = 2000;
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+export const announceNotificationsRead = () => {
+  window.dispatchEvent(new Event(NOTIFICATIONS_READ_EVENT));
+};
+
+const streamUrl = () => `${import.meta.env.VITE_API_URL ?? '/api'}/notifications/stream`;
+
+/**
+ * Live notifications over Server-Sent Events. Uses fetch rather than
+ * EventSource so the bearer token can be sent; reconnects with backoff and
+ * falls back to polling while the stream is unavailable.
+ */
+export function useNotificationStream(enabled: boolean, handlers: NotificationStreamHandlers) {
+  const [connected, setConnected] = useState(false);
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let stopped = false;
+    let controller: AbortController | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    let reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+
+    const startPolling = () => {
+      if (pollTimer) return;
+      pollTimer = setInterval(() => handlersRef.current.onPoll?.(), POLLING_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (pollTimer) clearInterval(pollTimer);
+      pollTimer = null;
+    };
+
+    const dispatch = (event: string, data: string) => {
+      try {
+        const payload = JSON.parse(data);
+        if (event === 'ready') handlersRef.current.onReady?.(Number(payload.unreadCount) || 0);
+        if (event === 'notification') handlersRef.current.onNotification?.(payload);
+      } catch (err) {
+        console.warn('Ignoring malformed notification stream event', err);
+      }
+    };
+
+    const scheduleReconnect = () => {
+      if (stopped) return;
+      setConnected(false);
+      startPolling();
+      reconnectTimer = setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+    };
+
+    async function connect() {
+      const token = localStorage.getItem('token');
+      if (!token) {
+        handlersRef.current.onPoll?.();
+        scheduleReconnect();
+        return;
+      }
+
+      controller = new AbortController();
+      try {
+        const response = await fetch(streamUrl(), {
+          headers: { Accept: 'text/event-stream', Authorization: `Bearer ${token}` },
+          credentials: 'include',
+          signal: controller.signal,
+        });
+
+        if (!response.ok || !response.body) {
+          // A poll goes through the api client, which refreshes an expired token
+          handlersRef.current.onPoll?.();
+          scheduleReconnect();
+          return;
+        }
+
+        setConnected(true);
+        stopPolling();
+        reconnectDelay = INITIAL_RECONNECT_DELAY_MS;
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        while (!stopped) {
+          const { value, done } = await reader.read();
+          if (done) break;
+          buffer += decoder.decode(value, { stream: true });
+
+          let boundary = buffer.indexOf('\n\n');
+          while (boundary !== -1) {
+            const frame = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+            boundary = buffer.indexOf('\n\n');
+
+            let event = 'message';
+            const data: string[] = [];
+            for (const line of frame.split('\n')) {
+              if (line.startsWith('event:')) event = line.slice(6).trim();
+              else if (line.startsWith('data:')) data.push(line.slice(5).trim());
+            }
+            if (data.length > 0) dispatch(event, data.join('\n'));
+          }
+        }
+      } catch (err) {
+        if (stopped) return;
+        console.warn('Notification stream disconnected', err);
+      }
+
+      if (!stopped) {
+        // Catch up on anything missed while reconnecting
+        handlersRef.current.onPoll?.();
+        scheduleReconnect();
+      }
+    }
+
+    connect();
+
+    return () => {
+      stopped = true;
+      controller?.abort();
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      stopPolling();
+      setConnected(false);
+    };
+  }, [enabled]);
+
+  return { connected };
+}
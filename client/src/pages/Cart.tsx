@@ -4,116 +4,35 @@ import { format } from 'date-fns';
 import DatePicker from 'react-datepicker';
 import 'react-datepicker/dist/react-datepicker.css';
 import '@/styles/datepicker.css';
-import { Trash2, Plane, Calendar, Users, CreditCard } from 'lucide-react';
+import { Trash2, Plane, Calendar, Users, CreditCard, AlertTriangle, TicketPercent, X, Clock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter, DialogDescription } from '@/components/ui/dialog';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from '@/hooks/use-toast';
 import api from '@/config/api';
 import { useNavigate } from 'react-router-dom';
 import { paymentService } from '@/services/paymentService';
+import { cartService, type CartBooking } from '@/services/cartService';
 import { useAuthenticatedAction } from '@/hooks/useAuthenticatedAction';
 import { getAirlineLogo } from '@/components/flights/utils/flightHelpers';
-import { formatSypFromUsd, getSypRate } from '@/utils/currency';
-
-// Arab countries list with English and Arabic names
-const ARAB_COUNTRIES = [
-  { code: 'DZ', nameEn: 'Algeria', nameAr: 'الجزائر' },
-  { code: 'BH', nameEn: 'Bahrain', nameAr: 'البحرين' },
-  { code: 'KM', nameEn: 'Comoros', nameAr: 'جزر القمر' },
-  { code: 'DJ', nameEn: 'Djibouti', nameAr: 'جيبوتي' },
-  { code: 'EG', nameEn: 'Egypt', nameAr: 'مصر' },
-  { code: 'IQ', nameEn: 'Iraq', nameAr: 'العراق' },
-  { code: 'JO', nameEn: 'Jordan', nameAr: 'الأردن' },
-  { code: 'KW', nameEn: 'Kuwait', nameAr: 'الكويت' },
-  { code: 'LB', nameEn: 'Lebanon', nameAr: 'لبنان' },
-  { code: 'LY', nameEn: 'Libya', nameAr: 'ليبيا' },
-  { code: 'MR', nameEn: 'Mauritania', nameAr: 'موريتانيا' },
-  { code: 'MA', nameEn: 'Morocco', nameAr: 'المغرب' },
-  { code: 'OM', nameEn: 'Oman', nameAr: 'عمان' },
-  { code: 'PS', nameEn: 'Palestine', nameAr: 'فلسطين' },
-  { code: 'QA', nameEn: 'Qatar', nameAr: 'قطر' },
-  { code: 'SA', nameEn: 'Saudi Arabia', nameAr: 'المملكة العربية السعودية' },
-  { code: 'SO', nameEn: 'Somalia', nameAr: 'الصومال' },
-  { code: 'SD', nameEn: 'Sudan', nameAr: 'السودان' },
-  { code: 'SY', nameEn: 'Syria', nameAr: 'سوريا' },
-  { code: 'TN', nameEn: 'Tunisia', nameAr: 'تونس' },
-  { code: 'AE', nameEn: 'United Arab Emirates', nameAr: 'الإمارات العربية المتحدة' },
-  { code: 'YE', nameEn: 'Yemen', nameAr: 'اليمن' }
-];
-
-interface Transaction {
-  id: string;
-  amount: number;
-  currency: string;
-  status: string;
-  createdAt: string;
-}
-
-interface FlightBooking {
-  _id: string;
-  bookingId: string;
-  customerName: string;
-  customerEmail: string;
-  flightDetails: {
-    from: string;
-    to: string;
-    departureDate: string;
-    passengers: {
-      adults: number;
-      children: number;
-      infants: number;
-    };
-    selectedFlight: {
-      flightId: string;
-      airline: string;
-      departureTime: string;
-      arrivalTime: string;
-      price: {
-        total: number;
-        currency: string;
-      };
-      class: string;
-    };
-  };
-  status: string;
-  paymentDetails: {
-    status: string;
-    currency: string;
-    transactions: Transaction[];
-  };
-  createdAt: string;
-}
-
-interface ApiResponse {
-  success: boolean;
-  count: number;
-  data: FlightBooking[];
-}
-
-interface LocalCartItem {
-  from: string;
-  to: string;
-  departureTime: string;
-  passengers: {
-    adults: number;
-    children: number;
-    infants: number;
-  };
-  flightId: string;
-  airline: string;
-  arrivalTime: string;
-  price: number;
-  currency: string;
-  class: string;
-}
+import HoldCountdown from '@/components/flights/HoldCountdown';
+import { useCurrency } from '@/hooks/useCurrency';
+import { useAuth } from '@/hooks/useAuth';
+import { travellerService, type SavedTraveller } from '@/services/travellerService';
+import { promotionService, PromoCodeError, type PromoValidation } from '@/services/promotionService';
+import { fareCheckService, FareCheckError, type FareCheck, type FareSnapshot } from '@/services/fareCheckService';
+import { ARAB_COUNTRIES, getPassengerTypeOn, passportExpiresTooSoon } from '@/utils/travellers';
 
 const Cart = () => {
   const { t, i18n } = useTranslation();
+  const { formatPrice } = useCurrency();
   const isArabic = (i18n.language || '').toLowerCase().startsWith('ar');
   const navigate = useNavigate();
   const authenticatedAction = useAuthenticatedAction();
+  const { user } = useAuth();
+  const userId = user?._id || user?.id;
   // Simple airport type used for airports API responses
   interface SimpleAirport {
     iata_code: string;
@@ -126,14 +45,24 @@ const Cart = () => {
   }
   const [airportsMapAr, setAirportsMapAr] = useState<Record<string, SimpleAirport>>({});
   const [airportsMapEn, setAirportsMapEn] = useState<Record<string, SimpleAirport>>({});
-  const [bookings, setBookings] = useState<FlightBooking[]>([]);
+  const [bookings, setBookings] = useState<CartBooking[]>([]);
   const [loading, setLoading] = useState(true);
   const [processingPayment, setProcessingPayment] = useState<string | null>(null);
+  // Booking ids ticked for a combined payment
+  const [selectedForOrder, setSelectedForOrder] = useState<string[]>([]);
   const [passengerDialogOpen, setPassengerDialogOpen] = useState(false);
-  const [activeBookingForPassengers, setActiveBookingForPassengers] = useState<FlightBooking | null>(null);
+  const [activeBookingForPassengers, setActiveBookingForPassengers] = useState<CartBooking | null>(null);
   const [passengerForms, setPassengerForms] = useState<PassengerForm[]>([]);
   // Map of index -> array of missing field keys for inline validation in the dialog
   const [passengerFormErrors, setPassengerFormErrors] = useState<Record<number, string[]>>({});
+  const [savedTravellers, setSavedTravellers] = useState<SavedTraveller[]>([]);
+  const [promoInput, setPromoInput] = useState('');
+  const [appliedPromo, setAppliedPromo] = useState<PromoValidation | null>(null);
+  const [applyingPromo, setApplyingPromo] = useState(false);
+  const [holdingFare, setHoldingFare] = useState<string | null>(null);
+  // `order` is set when the change was found while paying for several bookings at once
+  const [fareChange, setFareChange] = useState<{ booking: CartBooking; check: FareCheck; order?: CartBooking[] } | null>(null);
+  const [acceptingFare, setAcceptingFare] = useState(false);
 
   // Local types to improve type-safety when reading optional fields from bookings
   interface SelectedFlight {
@@ -177,75 +106,8 @@ const Cart = () => {
 
   const fetchBookings = useCallback(async () => {
     try {
-      // Get items from localStorage first
-      const localItems = JSON.parse(localStorage.getItem('cartItems') || '[]');
-      
-      // Convert local items to FlightBooking format
-      const localBookings: FlightBooking[] = localItems.map((item: LocalCartItem & { fromIata?: string; toIata?: string; airlineCode?: string; airlineLogo?: string }, index: number) => ({
-        _id: `local_${index}`,
-        bookingId: `LOCAL-${index + 1000}`,
-        customerName: 'Guest User',
-        customerEmail: '',
-        flightDetails: {
-          from: item.from,
-          to: item.to,
-          fromIata: item.fromIata || null,
-          toIata: item.toIata || null,
-          departureDate: item.departureTime,
-          passengers: item.passengers,
-          selectedFlight: {
-            flightId: item.flightId,
-            airline: item.airline,
-            airlineCode: item.airlineCode || null,
-            airlineLogo: item.airlineLogo || null,
-            departureTime: item.departureTime,
-            arrivalTime: item.arrivalTime,
-            price: {
-              total: item.price,
-              currency: item.currency
-            },
-            class: item.class
-          }
-        },
-        status: 'pending',
-        paymentDetails: {
-          status: 'pending',
-          currency: item.currency,
-          transactions: []
-        },
-        createdAt: new Date().toISOString()
-      }));
-
-      // If user is logged in, also get items from backend and merge
-      const token = localStorage.getItem('token');
-      if (token) {
-        try {
-          const response = await api.get<ApiResponse>('/bookings/my');
-          if (response.data.success && Array.isArray(response.data.data)) {
-            // Merge local and server bookings
-            // Include all bookings except those with status 'done' or 'issued'
-            // (pending, confirmed are all shown in cart)
-            const serverBookings = response.data.data.filter(b => {
-              const status = String(b.status || '').toLowerCase();
-              return status !== 'done' && status !== 'issued';
-            });
-            setBookings([...localBookings, ...serverBookings]);
-          } else {
-            setBookings(localBookings);
-            console.error('Invalid response format:', response.data);
-          }
-        } catch (error) {
-          console.error('Error fetching server bookings:', error);
-          setBookings(localBookings);
-        }
-      } else {
-        // Include all local bookings (pending, confirmed, etc.)
-        // Only exclude 'done' and 'issued' bookings
-        setBookings(localBookings.filter((b: FlightBooking) => {
-          const status = String(b.status || '').toLowerCase();
-          return status !== 'done' && status !== 'issued';
-        }));
-      }
+      // Guest and logged-in carts both come from the server; paid-but-unissued bookings stay listed
+      setBookings(await cartService.getCart());
     } catch (error) {
       console.error('Error loading cart:', error);
       toast({
@@ -288,6 +150,21 @@ const Cart = () => {
     loadAirportsBoth();
   }, [i18n.language]);
 
+  // Saved travellers feed the picker in the passenger dialog
+  useEffect(() => {
+    if (!userId) {
+      setSavedTravellers([]);
+      return;
+    }
+    travellerService
+      .getTravellers(userId)
+      .then(setSavedTravellers)
+      .catch((err) => {
+        console.error('Failed to load saved travellers:', err);
+        setSavedTravellers([]);
+      });
+  }, [userId]);
+
   // Re-render dialog when language changes to update dropdown text
   useEffect(() => {
     if (passengerDialogOpen) {
@@ -321,20 +198,10 @@ const Cart = () => {
     navigate('/checkout');
   };
 
-  const handleDelete = async (booking: FlightBooking) => {
+  const handleDelete = async (booking: CartBooking) => {
     try {
-      if (booking._id.startsWith('local_')) {
-        // Handle local cart item deletion
-        const localItems = JSON.parse(localStorage.getItem('cartItems') || '[]');
-        const index = parseInt(booking._id.split('_')[1]);
-        localItems.splice(index, 1);
-        localStorage.setItem('cartItems', JSON.stringify(localItems));
-        setBookings(bookings.filter(b => b._id !== booking._id));
-      } else {
-        // Handle server-side cart item deletion
-        await api.delete(`/bookings/${booking._id}`);
-        setBookings(bookings.filter(b => b._id !== booking._id));
-      }
+      await cartService.removeItem(booking._id);
+      setBookings(bookings.filter(b => b._id !== booking._id));
       toast({
         title: t('success', 'Success'),
         description: t('bookingDeleted', 'Booking has been deleted successfully'),
@@ -349,7 +216,95 @@ const Cart = () => {
     }
   };
 
-  const handleProceedToPayment = async (booking: FlightBooking) => {
+  const getPromoResult = (bookingId: string) => appliedPromo?.items.find(item => item.bookingId === bookingId);
+
+  const promoErrorMessage = (error: PromoCodeError) =>
+    t(`promo.reasons.${error.reason || 'not_found'}`, error.message);
+
+  // A promo code rejected at payment time (e.g. its last use was just taken) is removed so the customer can pay without it
+  const showPaymentError = (error: unknown) => {
+    if (error instanceof PromoCodeError) {
+      setAppliedPromo(null);
+      toast({ title: t('promo.invalidTitle', 'Promo code not applied'), description: promoErrorMessage(error), variant: 'destructive' });
+      return;
+    }
+    toast({
+      title: t('error', 'Error'),
+      description: t('paymentInitiationError', 'Failed to initiate payment. Please try again.'),
+      variant: 'destructive',
+    });
+  };
+
+  const handleApplyPromo = (bookingIds: string[]) => {
+    const code = promoInput.trim();
+    if (!code || bookingIds.length === 0) return;
+
+    authenticatedAction(async () => {
+      try {
+        setApplyingPromo(true);
+        const result = await promotionService.validate(code, bookingIds);
+        setAppliedPromo(result);
+        setPromoInput('');
+        toast({
+          title: t('promo.appliedTitle', 'Promo code applied'),
+          description: t('promo.appliedDescription', 'You save {{amount}}', { amount: formatPrice(result.discountUsd) }),
+        });
+      } catch (error) {
+        console.error('Promo code validation error:', error);
+        toast({
+          title: t('promo.invalidTitle', 'Promo code not applied'),
+          description: error instanceof PromoCodeError ? promoErrorMessage(error) : t('promo.validateError', 'Could not check this promo code. Please try again.'),
+          variant: 'destructive',
+        });
+      } finally {
+        setApplyingPromo(false);
+      }
+    });
+  };
+
+  const updateBooking = (bookingId: string, changes: Partial<CartBooking>) =>
+    setBookings(prev => prev.map(b => (b._id === bookingId ? { ...b, ...changes } : b)));
+
+  const showFareUnavailable = () => {
+    toast({
+      title: t('fareCheck.unavailableTitle', 'Fare no longer available'),
+      description: t('fareCheck.unavailableDescription', 'The airline no longer offers this fare. Remove it from your cart and search again.'),
+      variant: 'destructive',
+    });
+  };
+
+  // Unavailable fares are blocked; changed fares wait for the customer to accept the new price
+  const handleFareCheck = (booking: CartBooking, check: FareCheck, order?: CartBooking[]) => {
+    updateBooking(booking._id, { fareCheck: check });
+    if (check.status === 'unavailable') {
+      showFareUnavailable();
+      return false;
+    }
+    if (check.status === 'changed') {
+      setFareChange({ booking, check, order });
+      return false;
+    }
+    return true;
+  };
+
+  const redirectToPayment = async (booking: CartBooking) => {
+    // The charged amount is priced, discounted and converted to SYP on the server
+    const promoCode = getPromoResult(booking.bookingId)?.eligible ? appliedPromo?.code : undefined;
+    const paymentUrl = await paymentService.initiatePayment(booking.bookingId, promoCode);
+    window.location.href = paymentUrl;
+  };
+
+  const handlePaymentFailure = (booking: CartBooking, error: unknown, order?: CartBooking[]) => {
+    // The fare can still move between the check and the payment request
+    if (error instanceof FareCheckError && error.check) {
+      handleFareCheck(booking, error.check, order);
+    } else {
+      showPaymentError(error);
+    }
+    setProcessingPayment(null);
+  };
+
+  const handleProceedToPayment = async (booking: CartBooking) => {
     // Ensure passenger details are complete before attempting payment
     if (!isBookingReadyForPayment(booking)) {
       openPassengerDialog(booking);
@@ -364,26 +319,138 @@ const Cart = () => {
     authenticatedAction(async () => {
       try {
         setProcessingPayment(booking._id);
-        const amountUsd = booking.flightDetails?.selectedFlight?.price?.total || 0;
-        // Convert USD amount to SYP using the exchange rate from localStorage
-        const sypRate = getSypRate();
-        const amountSyp = Math.round(amountUsd * sypRate);
-        console.log(`💰 Payment conversion: ${amountUsd} USD × ${sypRate} = ${amountSyp} SYP`);
-        const paymentUrl = await paymentService.initiatePayment(amountSyp, booking.bookingId);
-        window.location.href = paymentUrl;
+        // Prices can change between adding to the cart and paying, so the fare is checked again first
+        const check = await fareCheckService.check(booking._id);
+        if (!handleFareCheck(booking, check)) {
+          setProcessingPayment(null);
+          return;
+        }
+        await redirectToPayment(booking);
       } catch (error) {
         console.error('Payment initiation error:', error);
+        handlePaymentFailure(booking, error);
+      }
+    });
+  };
+
+  const handleAcceptFareChange = async () => {
+    if (!fareChange) return;
+    const { booking, order } = fareChange;
+    try {
+      setAcceptingFare(true);
+      const updated = await fareCheckService.accept(booking._id);
+      updateBooking(booking._id, updated);
+      setFareChange(null);
+      if (order) {
+        // The other bookings in the order are checked again before paying for all of them
+        handlePaySelected(order.map(b => (b._id === booking._id ? { ...b, ...updated } : b)));
+        return;
+      }
+      setProcessingPayment(booking._id);
+      await redirectToPayment({ ...booking, ...updated });
+    } catch (error) {
+      console.error('Fare change acceptance error:', error);
+      setFareChange(null);
+      if (error instanceof FareCheckError || error instanceof PromoCodeError) {
+        handlePaymentFailure(booking, error, order);
+        return;
+      }
+      setProcessingPayment(null);
+      toast({
+        title: t('error', 'Error'),
+        description: error instanceof Error && error.message ? error.message : t('fareCheck.acceptError', 'Could not update the fare. Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setAcceptingFare(false);
+    }
+  };
+
+  const hasActiveHold = (booking: CartBooking) => Boolean(booking.hold?.expiresAt && !booking.hold.releasedAt);
+
+  // Seeru marks fares that may be reserved now and ticketed after a later payment
+  const canHoldFare = (booking: CartBooking) =>
+    !booking.isGuest &&
+    booking.flightDetails?.selectedFlight?.raw?.can_hold === true &&
+    booking.status === 'pending' &&
+    booking.paymentDetails?.status !== 'completed' &&
+    !isFareUnavailable(booking) &&
+    !hasActiveHold(booking);
+
+  const handleHoldFare = (booking: CartBooking) => {
+    // The supplier order is saved with the passengers, so they must be complete first
+    if (!isBookingReadyForPayment(booking)) {
+      openPassengerDialog(booking);
+      toast({
+        title: t('passengerDetailsRequiredTitle', 'Passenger details required'),
+        description: t('hold.passengersRequired', 'Please enter passenger details for all travelers before holding this fare.'),
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    authenticatedAction(async () => {
+      try {
+        setHoldingFare(booking._id);
+        const updated = await cartService.holdFare(booking._id);
+        updateBooking(booking._id, updated);
         toast({
-          title: t('error', 'Error'),
-          description: t('paymentInitiationError', 'Failed to initiate payment. Please try again.'),
+          title: t('hold.placedTitle', 'Fare on hold'),
+          description: t('hold.placedDescription', 'Your seats are reserved. Pay before the hold expires to keep this fare.'),
+        });
+      } catch (error) {
+        console.error('Fare hold error:', error);
+        toast({
+          title: t('hold.errorTitle', 'Could not hold this fare'),
+          description: error instanceof Error && error.message ? error.message : t('hold.error', 'Please try again or pay now to keep this fare.'),
           variant: 'destructive',
         });
+      } finally {
+        setHoldingFare(null);
+      }
+    });
+  };
+
+  const toggleOrderSelection = (booking: CartBooking, checked: boolean) => {
+    setSelectedForOrder(prev => checked
+      ? [...prev.filter(id => id !== booking.bookingId), booking.bookingId]
+      : prev.filter(id => id !== booking.bookingId));
+  };
+
+  const handlePaySelected = (selected: CartBooking[]) => {
+    if (selected.length === 0) return;
+
+    authenticatedAction(async () => {
+      try {
+        setProcessingPayment('order');
+        // Every fare is checked again first; the customer reviews a changed one before paying for the order
+        for (const booking of selected) {
+          const check = await fareCheckService.check(booking._id);
+          if (!handleFareCheck(booking, check, selected)) {
+            setProcessingPayment(null);
+            return;
+          }
+        }
+        // One order, one payment; the server re-prices every booking again before redirecting
+        const promoCode = selected.some(b => getPromoResult(b.bookingId)?.eligible) ? appliedPromo?.code : undefined;
+        const { url } = await cartService.checkout(selected.map(b => b.bookingId), promoCode);
+        window.location.href = url;
+      } catch (error) {
+        console.error('Order checkout error:', error);
+        // The fare can still move between the check and the checkout request
+        const check = error instanceof FareCheckError ? error.check : undefined;
+        const changed = check && selected.find(b => b.bookingId === check.bookingId);
+        if (check && changed) {
+          handleFareCheck(changed, check, selected);
+        } else {
+          showPaymentError(error);
+        }
         setProcessingPayment(null);
       }
     });
   };
 
-  const openPassengerDialog = (booking: FlightBooking) => {
+  const openPassengerDialog = (booking: CartBooking) => {
     // Build a passenger forms array based on counts
     const counts = booking.flightDetails?.passengers || { adults: 0, children: 0, infants: 0 };
   const arr: PassengerForm[] = [];
@@ -428,6 +495,34 @@ const Cart = () => {
     });
   };
 
+  const applySavedTraveller = (index: number, travellerId: string) => {
+    const traveller = savedTravellers.find(item => item._id === travellerId);
+    if (!traveller) return;
+    setPassengerForms(prev => {
+      const copy = [...prev];
+      copy[index] = {
+        ...copy[index],
+        firstName: traveller.firstName || '',
+        lastName: traveller.lastName || '',
+        gender: traveller.gender || '',
+        dob: traveller.dob || null,
+        passportNumber: traveller.passportNumber || '',
+        passportIssueDate: traveller.passportIssueDate || null,
+        passportExpiryDate: traveller.passportExpiryDate || null,
+        passportCountry: traveller.passportCountry || '',
+        nationality: traveller.nationality || '',
+        phone: traveller.phone || copy[index].phone,
+        email: traveller.email || copy[index].email,
+      };
+      return copy;
+    });
+    setPassengerFormErrors(prev => {
+      const copy = { ...prev };
+      delete copy[index];
+      return copy;
+    });
+  };
+
   const validatePassengerForms = (forms: PassengerForm[]) => {
     // helpers
     const parseDate = (v?: string | null) => {
@@ -495,35 +590,13 @@ const Cart = () => {
     }
 
     try {
-      // If local booking (local_ prefix), update localStorage
-      if (activeBookingForPassengers._id.startsWith('local_')) {
-        const idx = parseInt(activeBookingForPassengers._id.split('_')[1]);
-        const localItems = JSON.parse(localStorage.getItem('cartItems') || '[]');
-        if (localItems[idx]) {
-          localItems[idx].passengerDetails = passengerForms;
-          localStorage.setItem('cartItems', JSON.stringify(localItems));
-          // Also update bookings state to reflect saved details
-          setBookings(prev => prev.map(b => b._id === activeBookingForPassengers._id ? ({ ...b, flightDetails: { ...((b.flightDetails as unknown) as FlightDetailsLocal), passengerDetails: passengerForms } } as FlightBooking) : b));
-        }
-        toast({ title: t('success', 'Success'), description: t('passengerDetailsSaved', 'Passenger details saved locally') });
-      } else {
-        // Server-side booking: call new endpoint to save passengers and trigger Seeru processing
-        console.log('📋 Saving passenger details and triggering Seeru booking...');
-        console.log('📝 Passenger forms to send:', JSON.stringify(passengerForms, null, 2));
-        const payload = { passengerDetails: passengerForms };
-        const resp = await api.post(`/bookings/${activeBookingForPassengers._id}/save-passengers`, payload);
-        if (resp.data && resp.data.success) {
-          console.log('✅ Response from server:', JSON.stringify(resp.data.data.passengerDetails, null, 2));
-          setBookings(prev => prev.map(b => b._id === activeBookingForPassengers._id ? resp.data.data : b));
-          toast({ 
-            title: t('success', 'Success'), 
-            description: t('passengerDetailsSaved', 'Passenger details saved and booking is being processed') 
-          });
-          console.log('✅ Passenger details saved. Seeru booking initiated.');
-        } else {
-          throw new Error('Failed to save passenger details');
-        }
-      }
+      // Guest items keep the details until login; saved bookings also start the Seeru booking
+      const updated = await cartService.savePassengers(activeBookingForPassengers._id, passengerForms);
+      setBookings(prev => prev.map(b => b._id === activeBookingForPassengers._id ? updated : b));
+      toast({
+        title: t('success', 'Success'),
+        description: t('passengerDetailsSaved', 'Passenger details saved and booking is being processed')
+      });
       setPassengerDialogOpen(false);
       setActiveBookingForPassengers(null);
     } catch (err) {
@@ -533,7 +606,7 @@ const Cart = () => {
   };
 
   // Check whether a booking has complete passenger details for payment
-  const isBookingReadyForPayment = (booking: FlightBooking) => {
+  const isBookingReadyForPayment = (booking: CartBooking) => {
     const counts = booking.flightDetails?.passengers || { adults: 0, children: 0, infants: 0 };
     const expected = (counts.adults || 0) + (counts.children || 0) + (counts.infants || 0);
 
@@ -545,6 +618,49 @@ const Cart = () => {
     return valid;
   };
 
+  // Guest items must be merged into the account, and passenger details completed, before paying
+  const isFareUnavailable = (booking: CartBooking) => booking.fareCheck?.status === 'unavailable';
+
+  const isBookingPayable = (booking: CartBooking) =>
+    !booking.isGuest && booking.paymentDetails?.status !== 'completed' && !isFareUnavailable(booking) && isBookingReadyForPayment(booking);
+
+  const formatTax = (snapshot?: FareSnapshot) =>
+    snapshot?.tax === null || snapshot?.tax === undefined ? '—' : formatPrice(snapshot.tax);
+
+  const formatBaggage = (snapshot: FareSnapshot | undefined, index: number) => {
+    const bags = snapshot?.baggage?.[index];
+    if (!bags) return '—';
+    return [
+      bags.checked && t('fareCheck.checkedBag', 'Checked: {{value}}', { value: bags.checked }),
+      bags.cabin && t('fareCheck.cabinBag', 'Cabin: {{value}}', { value: bags.cabin }),
+    ].filter(Boolean).join(' · ') || '—';
+  };
+
+  const fareDifference = fareChange?.check.current && fareChange.check.previous
+    ? fareChange.check.current.total - fareChange.check.previous.total
+    : 0;
+  const fareBaggageRows = Math.max(
+    fareChange?.check.previous?.baggage?.length || 0,
+    fareChange?.check.current?.baggage?.length || 0
+  );
+
+  const payableBookings = bookings.filter(isBookingPayable);
+  const selectedBookings = payableBookings.filter(b => selectedForOrder.includes(b.bookingId));
+  const selectedTotal = selectedBookings.reduce((sum, b) => {
+    const promo = getPromoResult(b.bookingId);
+    return sum + Number(b.flightDetails?.selectedFlight?.price?.total || 0) - (promo?.eligible ? promo.discountUsd : 0);
+  }, 0);
+  // Promo codes can be tried on any unpaid booking of a signed-in customer
+  const promoBookingIds = bookings
+    .filter(b => !b.isGuest && b.paymentDetails?.status !== 'completed')
+    .map(b => b.bookingId);
+
+  const dialogDepartureDate = new Date(
+    activeBookingForPassengers?.flightDetails?.selectedFlight?.departureTime ||
+    activeBookingForPassengers?.flightDetails?.departureDate ||
+    Date.now()
+  );
+
   if (loading) {
     return (
       <div className="container-custom py-8">
@@ -568,8 +684,26 @@ const Cart = () => {
           <div className="space-y-4 max-h-[70vh] overflow-y-auto py-2">
             {passengerForms.map((p, idx) => (
               <div key={idx} className="border rounded-lg p-4 bg-white">
-                <div className="flex justify-between items-center mb-2">
+                <div className="flex flex-col md:flex-row justify-between md:items-center gap-2 mb-2">
                   <div className="font-semibold">{`${t('passenger', 'Passenger')} ${idx + 1} - ${t(p.type, p.type)}`}</div>
+                  {savedTravellers.length > 0 && (
+                    <select
+                      value=""
+                      onChange={(e) => applySavedTraveller(idx, e.target.value)}
+                      className="md:w-64 px-3 py-1.5 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-tourtastic-blue"
+                    >
+                      <option value="">{t('travellers.pick', 'Fill from saved travellers')}</option>
+                      {savedTravellers
+                        // Only offer travellers whose age matches this fare type on the travel date
+                        .filter(tr => {
+                          const type = getPassengerTypeOn(tr.dob, dialogDepartureDate);
+                          return !type || type === p.type;
+                        })
+                        .map(tr => (
+                          <option key={tr._id} value={tr._id}>{`${tr.firstName} ${tr.lastName}`}</option>
+                        ))}
+                    </select>
+                  )}
                 </div>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                   <div>
@@ -697,6 +831,12 @@ const Cart = () => {
                     {passengerFormErrors[idx] && passengerFormErrors[idx].includes('passportExpiryDate') && (
                       <div className="text-sm text-red-600 mt-1">{t('passportExpiryDateInvalid', 'Invalid passport expiry date')}</div>
                     )}
+                    {passportExpiresTooSoon(p.passportExpiryDate, dialogDepartureDate) && (
+                      <div className="flex items-center gap-1 text-sm text-amber-700 mt-1">
+                        <AlertTriangle className="h-4 w-4 flex-shrink-0" />
+                        {t('travellers.passportValidityWarning', 'This passport expires less than 6 months after departure. Many destinations will refuse boarding.')}
+                      </div>
+                    )}
                   </div>
                   <div>
                     <label className="block text-sm">{t('phone', 'Phone')}</label>
@@ -725,6 +865,66 @@ const Cart = () => {
         </DialogContent>
       </Dialog>
 
+      <Dialog open={fareChange !== null} onOpenChange={(open) => { if (!open && !acceptingFare) setFareChange(null); }}>
+        <DialogContent className="max-w-lg w-[95vw]">
+          <DialogHeader>
+            <DialogTitle>{t('fareCheck.changedTitle', 'The fare has changed')}</DialogTitle>
+            <DialogDescription>
+              {t('fareCheck.changedDescription', 'The airline updated this fare since you added it to your cart. Please review the new fare before paying.')}
+            </DialogDescription>
+          </DialogHeader>
+          {fareChange && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-2 text-sm">
+                <div />
+                <div className="font-medium text-gray-500">{t('fareCheck.previous', 'Previous')}</div>
+                <div className="font-medium text-gray-500">{t('fareCheck.current', 'New')}</div>
+
+                <div className="text-gray-600">{t('totalPrice', 'Total price')}</div>
+                <div className="line-through text-gray-500">{formatPrice(fareChange.check.previous?.total || 0)}</div>
+                <div className="font-semibold text-tourtastic-blue">{formatPrice(fareChange.check.current?.total || 0)}</div>
+
+                <div className="text-gray-600">{t('fareCheck.taxes', 'Taxes')}</div>
+                <div>{formatTax(fareChange.check.previous)}</div>
+                <div>{formatTax(fareChange.check.current)}</div>
+
+                {Array.from({ length: fareBaggageRows }).map((_, index) => (
+                  <React.Fragment key={index}>
+                    <div className="text-gray-600">
+                      {t('fareCheck.baggage', 'Baggage')}
+                      {fareBaggageRows > 1 && (
+                        <span className="block text-xs text-gray-400" dir="ltr">
+                          {fareChange.check.current?.baggage?.[index]?.route || fareChange.check.previous?.baggage?.[index]?.route}
+                        </span>
+                      )}
+                    </div>
+                    <div>{formatBaggage(fareChange.check.previous, index)}</div>
+                    <div>{formatBaggage(fareChange.check.current, index)}</div>
+                  </React.Fragment>
+                ))}
+              </div>
+              {fareDifference !== 0 && (
+                <div className={`rounded-md p-3 text-sm ${fareDifference > 0 ? 'bg-orange-50 text-orange-700' : 'bg-green-50 text-green-700'}`}>
+                  {fareDifference > 0
+                    ? t('fareCheck.increased', 'The total increased by {{amount}}', { amount: formatPrice(fareDifference) })
+                    : t('fareCheck.decreased', 'The total decreased by {{amount}}', { amount: formatPrice(-fareDifference) })}
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setFareChange(null)} disabled={acceptingFare}>
+                {t('cancel', 'Cancel')}
+              </Button>
+              <Button onClick={handleAcceptFareChange} disabled={acceptingFare}>
+                {acceptingFare ? t('processing', 'Processing...') : t('fareCheck.accept', 'Accept and pay')}
+              </Button>
+            </div>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <div className="container-custom py-8">
       <h1 className={`text-3xl font-bold mb-8 ${i18n.language === 'ar' ? 'text-center md:text-right' : 'text-center md:text-left'}`}>
         {t('yourBookings', 'حجوزاتك')}
@@ -742,6 +942,71 @@ const Cart = () => {
         </div>
       ) : (
         <div className="grid gap-6">
+          {promoBookingIds.length > 0 && (
+            <Card className="p-4">
+              <CardContent className={`p-0 flex flex-col md:flex-row md:items-center justify-between gap-4 ${isArabic ? 'md:flex-row-reverse text-right' : ''}`}>
+                <div className={`flex items-center gap-2 font-semibold ${isArabic ? 'flex-row-reverse' : ''}`}>
+                  <TicketPercent className="h-5 w-5 text-tourtastic-blue" />
+                  {t('promo.title', 'Promo code')}
+                </div>
+                {appliedPromo ? (
+                  <div className={`flex items-center gap-3 ${isArabic ? 'flex-row-reverse' : ''}`}>
+                    <span className="font-mono font-semibold text-green-700">{appliedPromo.code}</span>
+                    <span className="text-sm text-gray-600">
+                      {appliedPromo.description || t('promo.appliedDescription', 'You save {{amount}}', { amount: formatPrice(appliedPromo.discountUsd) })}
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => setAppliedPromo(null)} disabled={processingPayment !== null}>
+                      <X className="h-4 w-4" />
+                      {t('promo.remove', 'Remove')}
+                    </Button>
+                  </div>
+                ) : (
+                  <div className={`flex items-center gap-2 ${isArabic ? 'flex-row-reverse' : ''}`}>
+                    <Input
+                      value={promoInput}
+                      onChange={(e) => setPromoInput(e.target.value.toUpperCase())}
+                      onKeyDown={(e) => { if (e.key === 'Enter') handleApplyPromo(promoBookingIds); }}
+                      placeholder={t('promo.placeholder', 'Enter promo code')}
+                      className="w-48 font-mono"
+                      dir="ltr"
+                    />
+                    <Button
+                      variant="outline"
+                      onClick={() => handleApplyPromo(promoBookingIds)}
+                      disabled={!promoInput.trim() || applyingPromo}
+                    >
+                      {applyingPromo ? t('processing', 'جارٍ المعالجة...') : t('promo.apply', 'Apply')}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          )}
+          {payableBookings.length > 1 && (
+            <Card className="p-4 border-2 border-tourtastic-blue/30 bg-tourtastic-blue/5">
+              <CardContent className={`p-0 flex flex-col md:flex-row md:items-center justify-between gap-4 ${isArabic ? 'md:flex-row-reverse text-right' : ''}`}>
+                <div>
+                  <div className="font-semibold text-tourtastic-blue">{t('cartOrder.title', 'Pay for several bookings at once')}</div>
+                  <div className="text-sm text-gray-600">
+                    {t('cartOrder.description', 'Tick the bookings you want to pay for together in a single payment.')}
+                  </div>
+                </div>
+                <Button
+                  onClick={() => handlePaySelected(selectedBookings)}
+                  disabled={selectedBookings.length < 2 || processingPayment !== null}
+                  className={`bg-tourtastic-blue hover:bg-tourtastic-dark-blue text-white flex items-center gap-2 ${isArabic ? 'flex-row-reverse' : ''}`}
+                >
+                  <CreditCard className="h-5 w-5" />
+                  {processingPayment === 'order'
+                    ? t('processing', 'جارٍ المعالجة...')
+                    : t('cartOrder.paySelected', 'Pay selected ({{count}}) · {{total}}', {
+                        count: selectedBookings.length,
+                        total: formatPrice(selectedTotal),
+                      })}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
           {bookings.map((booking) => {
             // Prefer iata codes when present so we can lookup localized names from airportsMap
             const selected: SelectedFlight = (booking?.flightDetails?.selectedFlight as SelectedFlight) || {};
@@ -822,6 +1087,7 @@ const Cart = () => {
             const status = booking?.status || 'pending';
             const price = selected?.price || booking?.flightDetails?.selectedFlight?.price || { total: 0, currency: 'USD' };
             const paymentStatus = booking?.paymentDetails?.status || 'pending';
+            const promo = paymentStatus !== 'completed' ? getPromoResult(booking.bookingId) : undefined;
 
             // Helper: get airport display name (prefer Arabic when available)
             const getAirportDisplay = (iataOrText: string | null) => {
@@ -1093,16 +1359,56 @@ const Cart = () => {
                         <div className={`text-sm font-medium text-tourtastic-blue mb-1 ${i18n.language === 'ar' ? 'text-right' : 'text-left'}`}>
                         {t('totalPrice', 'السعر الإجمالي')}
                       </div>
-                      <div className={`text-3xl font-bold text-tourtastic-blue ${i18n.language === 'ar' ? 'text-right' : 'text-left'}`}>
-                        {formatSypFromUsd(price.total)}
-                      </div>
+                      {promo?.eligible ? (
+                        <>
+                          <div className={`text-sm text-gray-500 line-through ${i18n.language === 'ar' ? 'text-right' : 'text-left'}`}>
+                            {formatPrice(price.total)}
+                          </div>
+                          <div className={`text-3xl font-bold text-tourtastic-blue ${i18n.language === 'ar' ? 'text-right' : 'text-left'}`}>
+                            {formatPrice(Number(price.total) - promo.discountUsd)}
+                          </div>
+                          <div className={`text-xs text-green-700 mt-1 ${i18n.language === 'ar' ? 'text-right' : 'text-left'}`}>
+                            {t('promo.discountLine', '{{code}}: −{{amount}}', { code: appliedPromo?.code, amount: formatPrice(promo.discountUsd) })}
+                          </div>
+                        </>
+                      ) : (
+                        <div className={`text-3xl font-bold text-tourtastic-blue ${i18n.language === 'ar' ? 'text-right' : 'text-left'}`}>
+                          {formatPrice(price.total)}
+                        </div>
+                      )}
+                      {promo && !promo.eligible && (
+                        <div className={`text-xs text-gray-500 mt-1 ${i18n.language === 'ar' ? 'text-right' : 'text-left'}`}>
+                          {t(`promo.reasons.${promo.reason || 'not_applicable'}`, 'Promo code does not apply to this booking')}
+                        </div>
+                      )}
                       </div>
 
+                      {isFareUnavailable(booking) && paymentStatus !== 'completed' && (
+                        <div className={`w-full mb-4 flex items-start gap-2 rounded-lg border border-red-200 bg-red-50 p-3 text-sm text-red-700 ${isArabic ? 'flex-row-reverse text-right' : ''}`}>
+                          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                          <span>{t('fareCheck.unavailableDescription', 'The airline no longer offers this fare. Remove it from your cart and search again.')}</span>
+                        </div>
+                      )}
+
+                      {booking.hold?.expiresAt && !booking.hold.releasedAt && paymentStatus !== 'completed' && (
+                        <HoldCountdown expiresAt={booking.hold.expiresAt} className="w-full mb-4 bg-white" />
+                      )}
+
                       <div className="flex flex-col gap-3 w-full">
+                        {payableBookings.length > 1 && isBookingPayable(booking) && (
+                          <label className={`flex items-center gap-2 text-sm text-gray-700 cursor-pointer ${isArabic ? 'flex-row-reverse' : ''}`}>
+                            <Checkbox
+                              checked={selectedForOrder.includes(booking.bookingId)}
+                              onCheckedChange={(checked) => toggleOrderSelection(booking, checked === true)}
+                              disabled={processingPayment !== null}
+                            />
+                            {t('cartOrder.include', 'Include in combined payment')}
+                          </label>
+                        )}
                         <Button
                           onClick={() => handleProceedToPayment(booking)}
                           className={`w-full bg-tourtastic-blue hover:bg-tourtastic-dark-blue text-white flex items-center justify-center gap-2 py-6 rounded-lg shadow-md hover:shadow-lg transition-all duration-300 ${i18n.language === 'ar' ? 'flex-row-reverse' : ''}`}
-                          disabled={paymentStatus === 'completed' || processingPayment === booking._id || !isBookingReadyForPayment(booking)}
+                          disabled={paymentStatus === 'completed' || processingPayment === booking._id || !isBookingReadyForPayment(booking) || isFareUnavailable(booking)}
                         >
                           <CreditCard className="h-5 w-5" />
                           {processingPayment === booking._id ? (
@@ -1114,6 +1420,18 @@ const Cart = () => {
                           )}
                         </Button>
 
+                        {canHoldFare(booking) && (
+                          <Button
+                            onClick={() => handleHoldFare(booking)}
+                            variant="outline"
+                            className={`w-full border-tourtastic-blue text-tourtastic-blue py-4 rounded-lg flex items-center justify-center gap-2 ${i18n.language === 'ar' ? 'flex-row-reverse' : ''}`}
+                            disabled={holdingFare === booking._id || processingPayment === booking._id}
+                          >
+                            <Clock className="h-5 w-5" />
+                            {holdingFare === booking._id ? t('hold.holding', 'Holding fare...') : t('hold.action', 'Hold this fare')}
+                          </Button>
+                        )}
+
                         <Button
                           onClick={() => authenticatedAction(() => openPassengerDialog(booking))}
                           variant="ghost"
@@ -1126,7 +1444,7 @@ const Cart = () => {
                           onClick={() => handleDelete(booking)}
                           variant="outline"
                           className={`w-full text-red-500 hover:text-red-600 hover:bg-red-50 py-4 rounded-lg border-2 border-red-200 hover:border-red-400 transition-all duration-300 flex items-center justify-center gap-2 ${i18n.language === 'ar' ? 'flex-row-reverse' : ''}`}
-                          disabled={String(status).toLowerCase() !== 'pending' || processingPayment === booking._id}
+                          disabled={String(status).toLowerCase() !== 'pending' || processingPayment === booking._id || hasActiveHold(booking)}
                         >
                           <Trash2 className="h-5 w-5" />
                           <span className="text-lg">{t('delete', 'حذف')}</span>
@@ -23,9 +23,11 @@ import { useToast } from '../hooks/use-toast';
 import PlaneAnimation from '../components/ui/PlaneAnimation';
 import api from '../config/api';
 import { Destination } from '../services/destinationService';
+import { cartService } from '../services/cartService';
 import { Flight, FlightSearchParams, searchFlights, getSearchResults } from '../services/flightService';
 import { Airport, findCapitalAirport } from '../services/airportService';
 import FlightResults from '@/components/flights/FlightResults';
+import { buildFlightSearchUrl } from '@/utils/flightSearchUrl';
 
 // Helper functions
 const formatDuration = (minutes: number): string => {
@@ -67,6 +69,14 @@ const getIataCode = (point: unknown): string | undefined => {
 // Import getAirlineLogo from flightHelpers
 import { getAirlineLogo } from '../components/flights/utils/flightHelpers';
 
+// Flights to a destination are searched destination.searchWindowDays ahead (fallback to 30)
+const getDestinationSearchDate = (destination: Destination) => {
+  const searchWindowDays = (destination as Destination & { searchWindowDays?: number }).searchWindowDays ?? 30;
+  const futureDate = new Date();
+  futureDate.setDate(futureDate.getDate() + Number(searchWindowDays));
+  return futureDate;
+};
+
 const DestinationDetails: React.FC = () => {
   const { t, i18n } = useTranslation();
   const { toast } = useToast();
@@ -85,7 +95,6 @@ const DestinationDetails: React.FC = () => {
   const [locationError, setLocationError] = useState<string | null>(null);
   const [showDetails, setShowDetails] = useState<string | null>(null);
   const [manualOrigin, setManualOrigin] = useState('');
-  const [visibleFlights, setVisibleFlights] = useState(10);
   const [results, setResults] = useState<{ complete: number; result: Flight[] } | null>(null);
 
   // Handler for flight selection
@@ -181,75 +190,15 @@ const DestinationDetails: React.FC = () => {
       }
     };
 
-    // Determine whether user is authenticated (token present)
-    const token = localStorage.getItem('token');
-
-    // Helper to persist locally (only used for anonymous users)
-  const persistLocally = () => {
-      try {
-        const item = {
-      // Save readable fields for localStorage
-      from: nearestAirport?.city || String(originCode).toUpperCase(),
-      to: destination?.name?.[currentLang] || String(destinationAirportCode).toUpperCase(),
-      fromIata: String(originCode).toUpperCase(),
-      toIata: String(destinationAirportCode).toUpperCase(),
-      departureTime: payload.flightDetails.departureDate,
-          passengers: payload.flightDetails.passengers,
-          flightId: payload.flightDetails.selectedFlight.flightId,
-          airline: payload.flightDetails.selectedFlight.airline,
-          arrivalTime: payload.flightDetails.selectedFlight.arrivalTime,
-          price: payload.flightDetails.selectedFlight.price.total,
-          currency: payload.flightDetails.selectedFlight.price.currency,
-          class: payload.flightDetails.selectedFlight.class,
-          segments: payload.flightDetails.selectedFlight.segments
-        };
-
-        const existing = JSON.parse(localStorage.getItem('cartItems') || '[]');
-        existing.push(item);
-        localStorage.setItem('cartItems', JSON.stringify(existing));
-        toast({ title: t('success', 'Success'), description: t('flightSavedLocally', 'Flight saved to your cart (local).'), variant: 'default' });
-        navigate('/cart');
-      } catch (err) {
-        console.error('Failed to save cart item locally:', err);
-        toast({ title: t('error', 'Error'), description: t('failedToAddToCart', 'Failed to add flight to cart'), variant: 'destructive' });
-      }
-    };
-
-    // If user appears authenticated, ensure we attempt to save to DB and do NOT fall back to localStorage silently.
-    if (token) {
-      try {
-        const response = await api.post('/cart', payload, { headers: { Authorization: `Bearer ${token}` } });
-        if (response?.data?.success) {
-          toast({ title: t('success', 'Success'), description: t('flightAddedToCart', 'Flight has been added to your cart'), variant: 'default' });
-          navigate('/cart');
-          return;
-        }
-
-        // Backend responded but indicated failure - show error to the user instead of silently saving locally
-        console.warn('Add to cart response not successful for authenticated user', response?.data);
-        toast({ title: t('error', 'Error'), description: response?.data?.message || t('failedToAddToCart', 'Failed to add flight to cart'), variant: 'destructive' });
-        return;
-      } catch (err) {
-        console.error('API add to cart failed for authenticated user:', err);
-        toast({ title: t('error', 'Error'), description: t('failedToAddToCart', 'Failed to add flight to cart'), variant: 'destructive' });
-        return;
-      }
-    }
-
-    // Anonymous user: try server (will use session) and fall back to localStorage if server call fails
+    // Guests and logged-in users share the server cart (guests are keyed by session id)
     try {
-      const response = await api.post('/cart', payload);
-      if (response?.data?.success) {
-        toast({ title: t('success', 'Success'), description: t('flightAddedToCart', 'Flight has been added to your cart'), variant: 'default' });
-        navigate('/cart');
-        return;
-      }
-
-      console.warn('Add to cart response not successful for anonymous user, falling back to localStorage', response?.data);
-      persistLocally();
+      await cartService.addFlight(payload.flightDetails);
+      toast({ title: t('success', 'Success'), description: t('flightAddedToCart', 'Flight has been added to your cart'), variant: 'default' });
+      navigate('/cart');
     } catch (err) {
-      console.error('API add to cart failed for anonymous user, falling back to localStorage:', err);
-      persistLocally();
+      console.error('Add to cart failed:', err);
+      const message = err instanceof Error && err.message ? err.message : t('failedToAddToCart', 'Failed to add flight to cart');
+      toast({ title: t('error', 'Error'), description: message, variant: 'destructive' });
     }
   };
 
@@ -471,11 +420,7 @@ const DestinationDetails: React.FC = () => {
       const formattedEndDate = lastDayOfMonth.toISOString().split('T')[0];
 
 
-  // Calculate date based on destination.searchWindowDays (fallback to 30)
-  const searchWindowDays = (destination as any)?.searchWindowDays ?? 30;
-  const futureDate = new Date();
-  futureDate.setDate(futureDate.getDate() + Number(searchWindowDays));
-  const searchDate = format(futureDate, 'yyyy-MM-dd');
+  const searchDate = format(getDestinationSearchDate(destination), 'yyyy-MM-dd');
 
 
       const searchParams: FlightSearchParams = {
@@ -525,13 +470,17 @@ const DestinationDetails: React.FC = () => {
     }
   }, [nearestAirport, destination, searchFlightsForDestination, isLoading, flights.length]);
 
-  // Handle loading more flights
-  const handleLoadMore = () => {
-    setVisibleFlights(prev => prev + 10);
-  };
+  // Same route on the flights page, with the full search form, filters and fare calendar
+  const flightsPageUrl = nearestAirport?.code && destination?.quickInfo.airport
+    ? buildFlightSearchUrl({
+      searchType: 'oneWay',
+      segments: [{ from: nearestAirport.code, to: destination.quickInfo.airport, date: getDestinationSearchDate(destination) }],
+      passengers: { adults: 1, children: 0, infants: 0 },
+    })
+    : null;
 
-  // Filter and sort flights
-  const filteredAndSortedFlights = flights
+  // Sort a copy so the results list sees a new array when the order changes
+  const filteredAndSortedFlights = [...flights]
     .sort((a, b) => {
       switch (sortBy) {
         case 'price':
@@ -543,8 +492,7 @@ const DestinationDetails: React.FC = () => {
         default:
           return 0;
       }
-    })
-    .slice(0, visibleFlights);
+    });
 
   if (loadingDestination) {
     return (
@@ -738,10 +686,17 @@ const DestinationDetails: React.FC = () => {
                 </div>
               </div>
 
-              <div className="text-sm text-gray-600" dir={currentLang === 'ar' ? 'rtl' : 'ltr'}>
-                {t('showingFlights', currentLang === 'ar' 
-                  ? `عرض ${Math.min(visibleFlights, filteredAndSortedFlights.length)} من ${flights.length} رحلة`
-                  : `Showing ${Math.min(visibleFlights, filteredAndSortedFlights.length)} of ${flights.length} flights`)}
+              <div className="flex items-center gap-4">
+                <div className="text-sm text-gray-600" dir={currentLang === 'ar' ? 'rtl' : 'ltr'}>
+                  {t('showingFlights', currentLang === 'ar' 
+                    ? `عرض ${filteredAndSortedFlights.length} من ${flights.length} رحلة`
+                    : `Showing ${filteredAndSortedFlights.length} of ${flights.length} flights`)}
+                </div>
+                {flightsPageUrl && (
+                  <Button variant="outline" size="sm" onClick={() => navigate(flightsPageUrl)}>
+                    {t('searchLink.moreOptions', currentLang === 'ar' ? 'المزيد من التواريخ والخيارات' : 'More dates and options')}
+                  </Button>
+                )}
               </div>
             </div>
 
@@ -759,26 +714,13 @@ const DestinationDetails: React.FC = () => {
 
             {/* Flight Results */}
             {!isLoading && !isPolling && filteredAndSortedFlights.length > 0 && (
-              <>
-                <FlightResults
-                  flights={filteredAndSortedFlights}
-                  selectedFlight={selectedFlight}
-                  showDetails={showDetails}
-                  onFlightSelection={handleFlightSelection}
-                  onAddToCart={handleAddToCart}
-                />
-                {filteredAndSortedFlights.length < flights.length && (
-                  <div className="text-center mt-6">
-                    <Button
-                      onClick={handleLoadMore}
-                      variant="outline"
-                      className="px-6"
-                    >
-                      {t('loadMore', currentLang === 'ar' ? 'تحميل المزيد' : 'Load More')}
-                    </Button>
-                  </div>
-                )}
-              </>
+              <FlightResults
+                flights={filteredAndSortedFlights}
+                selectedFlight={selectedFlight}
+                showDetails={showDetails}
+                onFlightSelection={handleFlightSelection}
+                onAddToCart={handleAddToCart}
+              />
             )}
 
             {/* No Flights Message */}
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Search, Plane, User, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Separator } from '@/components/ui/separator';
+import FlightDetails from '@/components/flights/FlightDetails';
+import { bookingLookupService, type RetrievedBooking } from '@/services/bookingLookupService';
+import { toastError } from '@/utils/i18nToast';
+
+const FindBooking: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const [airlinePnr, setAirlinePnr] = useState('');
+  const [lastName, setLastName] = useState('');
+  const [isSearching, setIsSearching] = useState(false);
+  const [result, setResult] = useState<RetrievedBooking | null>(null);
+  const [notFound, setNotFound] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!airlinePnr.trim() || !lastName.trim()) {
+      toastError('يرجى إدخال رقم الحجز واسم العائلة', 'Please enter the booking reference and last name');
+      return;
+    }
+
+    try {
+      setIsSearching(true);
+      setNotFound(false);
+      setResult(null);
+      const booking = await bookingLookupService.retrieveByPnr(airlinePnr.trim(), lastName.trim());
+      setResult(booking);
+    } catch (error) {
+      console.error('Booking lookup failed:', error);
+      setNotFound(true);
+    } finally {
+      setIsSearching(false);
+    }
+  };
+
+  const passengerTypeLabel = (type: string) => {
+    switch (type) {
+      case 'CHD':
+        return t('passenge.child', 'Child');
+      case 'INF':
+        return t('passenge.infant', 'Infant');
+      default:
+        return t('passenge.adult', 'Adult');
+    }
+  };
+
+  const formatLegDate = (date?: string) => {
+    if (!date) return '';
+    try {
+      return format(new Date(date), 'dd MMM yyyy, HH:mm');
+    } catch (e) {
+      return date;
+    }
+  };
+
+  const legs = result?.flight?.legs || [];
+  const hasItinerary = legs.length > 0 && legs[0]?.segments?.length > 0;
+
+  return (
+    <>
+      <div className="bg-gradient-to-r from-gray-50 to-gray-100 py-8 md:py-12">
+        <div className="container-custom px-4 md:px-6">
+          <h1 className="text-3xl md:text-4xl font-bold mb-2 md:mb-4">{t('findBooking.title', 'Find my booking')}</h1>
+          <p className="text-sm md:text-base text-gray-600">
+            {t('findBooking.intro', 'Enter your airline booking reference (PNR) and last name to view your itinerary and e-ticket.')}
+          </p>
+        </div>
+      </div>
+
+      <div className="py-8 md:py-12 container-custom px-4 md:px-6 space-y-6">
+        <Card>
+          <CardContent className="p-4 md:p-6">
+            <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="airlinePnr">{t('findBooking.pnr', 'Booking reference (PNR)')}</Label>
+                <Input
+                  id="airlinePnr"
+                  dir="ltr"
+                  placeholder="ABC123"
+                  value={airlinePnr}
+                  maxLength={10}
+                  onChange={(e) => setAirlinePnr(e.target.value.replace(/[^a-zA-Z0-9]/g, '').toUpperCase())}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lastName">{t('findBooking.lastName', 'Last name')}</Label>
+                <Input
+                  id="lastName"
+                  value={lastName}
+                  onChange={(e) => setLastName(e.target.value)}
+                />
+              </div>
+              <Button type="submit" disabled={isSearching} className="flex items-center gap-2">
+                {isSearching ? <Loader2 className="h-4 w-4 animate-spin" /> : <Search className="h-4 w-4" />}
+                {t('findBooking.search', 'Find booking')}
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+
+        {notFound && (
+          <Card>
+            <CardContent className="p-6 text-center text-gray-600">
+              {t('findBooking.notFound', 'We could not find a booking with these details. Please check the reference and last name and try again.')}
+            </CardContent>
+          </Card>
+        )}
+
+        {result && (
+          <Card>
+            <CardContent className="p-4 md:p-6 space-y-4">
+              <div className="flex flex-wrap justify-between items-start gap-4">
+                <div>
+                  <p className="text-xs text-gray-500">{t('findBooking.pnr', 'Booking reference (PNR)')}</p>
+                  <p className="text-xl font-bold" dir="ltr">{result.airlinePnr || result.reservationNo || airlinePnr}</p>
+                  {result.status && (
+                    <p className="text-sm text-gray-600">{t(`findBooking.status.${result.status}`, result.status)}</p>
+                  )}
+                </div>
+                {result.ticketUrl && (
+                  <Button
+                    variant="outline"
+                    className="flex items-center gap-2"
+                    onClick={() => window.open(result.ticketUrl as string, '_blank', 'noopener')}
+                  >
+                    <Download className="h-4 w-4" />
+                    {t('findBooking.downloadTicket', 'Download e-ticket')}
+                  </Button>
+                )}
+              </div>
+
+              <Separator />
+
+              {/* Itinerary */}
+              <div className="space-y-2">
+                <h3 className="text-base font-semibold flex items-center gap-2">
+                  <Plane className="h-4 w-4 text-tourtastic-blue" />
+                  {t('findBooking.itinerary', 'Itinerary')}
+                </h3>
+                {legs.map((leg, idx) => (
+                  <div key={leg.leg_id || idx} className="flex flex-wrap justify-between gap-2 bg-gray-50 p-3 rounded border text-sm">
+                    <div>
+                      <span className="font-medium">{leg.from?.city || leg.from?.airport}</span>
+                      <span className="mx-2">{i18n.language === 'ar' ? '←' : '→'}</span>
+                      <span className="font-medium">{leg.to?.city || leg.to?.airport}</span>
+                    </div>
+                    <div className="text-gray-600" dir="ltr">
+                      {formatLegDate(leg.from?.date)} - {formatLegDate(leg.to?.date)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <Separator />
+
+              {/* Passengers & ticket numbers */}
+              <div className="space-y-2">
+                <h3 className="text-base font-semibold flex items-center gap-2">
+                  <User className="h-4 w-4 text-tourtastic-blue" />
+                  {t('booking.passengerInformation', 'Passenger Information')}
+                </h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {result.passengers.map((p, idx) => (
+                    <div key={`${p.lastName}-${idx}`} className="border rounded p-3 text-sm">
+                      <p className="font-medium">{p.firstName} {p.lastName}</p>
+                      <p className="text-xs text-gray-500">{passengerTypeLabel(p.type)}</p>
+                      {p.ticketNumbers.length > 0 && (
+                        <p className="text-xs mt-1" dir="ltr">
+                          {t('findBooking.ticketNumber', 'Ticket number')}: {p.ticketNumbers.join(', ')}
+                        </p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              {hasItinerary && <FlightDetails flight={result.flight} />}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default FindBooking;
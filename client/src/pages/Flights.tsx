@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { useForm } from 'react-hook-form';
@@ -6,7 +6,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { format } from 'date-fns';
 import { ar, enUS } from 'date-fns/locale';
-import { CalendarIcon, Plane, Plus, X } from 'lucide-react';
+import { CalendarIcon, Link2, Plane, Plus, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -18,12 +18,27 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Slider } from '@/components/ui/slider';
-import { Flight, PassengerCount } from '@/services/flightService';
+import { AirlineFilters, Flight, PassengerCount } from '@/services/flightService';
 import { Airport } from '@/services/airportService';
 import { toast } from '@/hooks/use-toast';
 import api from '@/config/api';
 import { MultiCityFlightResults } from '@/components/flights/MultiCityFlightResults';
 import { useMultiCitySearch, SegmentInput } from '@/hooks/useMultiCitySearch';
+import { useFareCalendar } from '@/hooks/useFareCalendar';
+import FareCalendar from '@/components/flights/FareCalendar';
+import PriceAlertButton from '@/components/flights/PriceAlertButton';
+import AirlinePreferencePicker from '@/components/flights/AirlinePreferencePicker';
+import { cartService } from '@/services/cartService';
+import { getFlightTotalPrice } from '@/components/flights/utils/flightHelpers';
+import {
+  DEFAULT_FILTERS,
+  FilterFacets,
+  FilterState,
+  StopsOption,
+  TimeOfDay,
+} from '@/components/flights/utils/flightFilters';
+import { useCurrency } from '@/hooks/useCurrency';
+import { FlightSearchLinkState, SearchType, buildFlightSearchQuery, parseFlightSearchQuery } from '@/utils/flightSearchUrl';
 
 // Form schema
 const searchFormSchema = z.object({
@@ -41,49 +56,116 @@ const searchFormSchema = z.object({
   }),
   cabin: z.enum(['e', 'p', 'b', 'f']).optional(),
   direct: z.boolean().optional(),
+  preferredAirlines: z.array(z.string()).optional(),
+  excludedAirlines: z.array(z.string()).optional(),
 });
 
 type SearchFormValues = z.infer<typeof searchFormSchema>;
 
-type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
-
-interface FilterState {
-  sortBy: 'price_asc' | 'price_desc' | 'duration_asc' | 'departure_asc' | 'arrival_asc';
-  selectedAirlines: string[];
-  timeOfDay: {
-    departure: TimeOfDay[];
-    arrival: TimeOfDay[];
-  };
-  priceRange: {
-    min: number;
-    max: number;
-  };
-}
-
 interface FilterSidebarProps {
   filters: FilterState;
   setFilters: React.Dispatch<React.SetStateAction<FilterState>>;
-  availableAirlines: string[];
+  facets: FilterFacets;
 }
 
+const toggleValue = <T,>(values: T[], value: T, checked: boolean) =>
+  checked ? [...values, value] : values.filter(item => item !== value);
+
+const FacetCount: React.FC<{ count: number }> = ({ count }) => (
+  <span className="text-gray-400 text-xs tabular-nums">({count})</span>
+);
+
 const FilterSidebar: React.FC<FilterSidebarProps> = ({
   filters,
   setFilters,
-  availableAirlines,
+  facets,
 }) => {
   const { t, i18n } = useTranslation();
+  const { formatPrice } = useCurrency();
   const currentLang = i18n.language || 'ar';
+  const dir = currentLang === 'ar' ? 'rtl' : 'ltr';
+
+  const timeOfDayLabels: Record<TimeOfDay, { ar: string; hours: string }> = {
+    morning: { ar: 'صباحاً', hours: '(5AM - 11:59AM)' },
+    afternoon: { ar: 'ظهراً', hours: '(12PM - 4:59PM)' },
+    evening: { ar: 'مساءً', hours: '(5PM - 8:59PM)' },
+    night: { ar: 'ليلاً', hours: '(9PM - 4:59AM)' },
+  };
+
+  const stopsLabel = (stops: StopsOption) =>
+    stops === 0 ? t('nonstop', 'Nonstop') :
+      stops === 1 ? t('oneStop', '1 stop') :
+        t('flightFilters.twoPlusStops', '2+ stops');
+
+  const renderTimeOfDay = (kind: 'departure' | 'arrival', options: FilterFacets['departureTime']) => (
+    <div className="space-y-2" dir={dir}>
+      {options.map(({ value: time, count }) => (
+        <div key={time} className="flex items-center justify-end gap-2">
+          <Label htmlFor={`${kind}_${time}`} className="flex items-center gap-2 flex-grow">
+            <span>{currentLang === 'ar' ? timeOfDayLabels[time].ar : time}</span>
+            <span className="text-gray-500 text-sm">{timeOfDayLabels[time].hours}</span>
+            <FacetCount count={count} />
+          </Label>
+          <Checkbox
+            id={`${kind}_${time}`}
+            checked={filters.timeOfDay[kind].includes(time)}
+            onCheckedChange={(checked) => {
+              setFilters(prev => ({
+                ...prev,
+                timeOfDay: {
+                  ...prev.timeOfDay,
+                  [kind]: toggleValue(prev.timeOfDay[kind], time, checked === true)
+                }
+              }));
+            }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderAirports = (kind: 'departureAirports' | 'arrivalAirports', options: FilterFacets['departureAirports']) => (
+    <div className="space-y-2" dir={dir}>
+      {options.map(({ value: code, count }) => (
+        <div key={code} className="flex items-center justify-end gap-2">
+          <Label htmlFor={`${kind}-${code}`} className="flex items-center gap-2 flex-grow">
+            <span>{code}</span>
+            <FacetCount count={count} />
+          </Label>
+          <Checkbox
+            id={`${kind}-${code}`}
+            checked={filters[kind].includes(code)}
+            onCheckedChange={(checked) => {
+              setFilters(prev => ({ ...prev, [kind]: toggleValue(prev[kind], code, checked === true) }));
+            }}
+          />
+        </div>
+      ))}
+    </div>
+  );
+
+  const bounds = facets.priceBounds;
+  const priceValue = filters.priceRange ?? bounds;
 
   return (
     <Card className="sticky top-4 p-4">
-      <CardContent className="space-y-6" dir={currentLang === 'ar' ? 'rtl' : 'ltr'}>
+      <CardContent className="space-y-6" dir={dir}>
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-600">
+            {t('flightFilters.matching', '{{count}} matching flights', { count: facets.total })}
+          </span>
+          <Button variant="link" size="sm" className="px-0" onClick={() => setFilters({ ...DEFAULT_FILTERS, sortBy: filters.sortBy })}>
+            {t('flightFilters.clear', 'Clear filters')}
+          </Button>
+        </div>
+
         {/* Sort By Filter */}
         <div>
           <h3 className="font-semibold mb-3 text-right">
             {t('sortBy', currentLang === 'ar' ? 'ترتيب حسب' : 'Sort By')}
           </h3>
           <RadioGroup
-            dir={currentLang === 'ar' ? 'rtl' : 'ltr'}
+            dir={dir}
             value={filters.sortBy}
             onValueChange={(value: FilterState['sortBy']) =>
               setFilters(prev => ({ ...prev, sortBy: value }))
@@ -123,17 +205,102 @@ const FilterSidebar: React.FC<FilterSidebarProps> = ({
           </RadioGroup>
         </div>
 
+        {/* Stops Filter */}
+        {facets.stops.length > 0 && (
+          <div>
+            <h3 className="font-semibold mb-3 text-right">{t('flightFilters.stops', 'Stops')}</h3>
+            <div className="space-y-2" dir={dir}>
+              {facets.stops.map(({ value: stops, count }) => (
+                <div key={stops} className="flex items-center justify-end gap-2">
+                  <Label htmlFor={`stops-${stops}`} className="flex items-center gap-2 flex-grow">
+                    <span>{stopsLabel(stops)}</span>
+                    <FacetCount count={count} />
+                  </Label>
+                  <Checkbox
+                    id={`stops-${stops}`}
+                    checked={filters.stops.includes(stops)}
+                    onCheckedChange={(checked) => {
+                      setFilters(prev => ({ ...prev, stops: toggleValue(prev.stops, stops, checked === true) }));
+                    }}
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Layover Duration Filter */}
+        {facets.stops.some(option => option.value > 0) && (
+          <div>
+            <h3 className="font-semibold mb-3 text-right">{t('flightFilters.maxLayover', 'Longest layover')}</h3>
+            <RadioGroup
+              dir={dir}
+              value={filters.maxLayoverHours === null ? 'any' : String(filters.maxLayoverHours)}
+              onValueChange={(value) =>
+                setFilters(prev => ({ ...prev, maxLayoverHours: value === 'any' ? null : Number(value) }))
+              }
+              className="space-y-2 text-right"
+            >
+              <div className="flex items-center justify-end gap-2">
+                <Label htmlFor="layover-any" className="text-right flex-grow">
+                  {t('flightFilters.anyLayover', 'Any length')}
+                </Label>
+                <RadioGroupItem value="any" id="layover-any" className="rtl:mr-auto" />
+              </div>
+              {facets.layover.map(({ value: hours, count }) => (
+                <div key={hours} className="flex items-center justify-end gap-2">
+                  <Label htmlFor={`layover-${hours}`} className="flex items-center gap-2 flex-grow">
+                    <span>{t('flightFilters.layoverUpTo', 'Up to {{hours}}h', { hours })}</span>
+                    <FacetCount count={count} />
+                  </Label>
+                  <RadioGroupItem value={String(hours)} id={`layover-${hours}`} className="rtl:mr-auto" />
+                </div>
+              ))}
+            </RadioGroup>
+          </div>
+        )}
+
+        {/* Fare Conditions Filter */}
+        <div>
+          <h3 className="font-semibold mb-3 text-right">{t('flightFilters.fareConditions', 'Fare conditions')}</h3>
+          <div className="space-y-2" dir={dir}>
+            <div className="flex items-center justify-end gap-2">
+              <Label htmlFor="checked-baggage" className="flex items-center gap-2 flex-grow">
+                <span>{t('flightFilters.checkedBaggage', 'Checked bag included')}</span>
+                <FacetCount count={facets.checkedBaggage} />
+              </Label>
+              <Checkbox
+                id="checked-baggage"
+                checked={filters.checkedBaggageOnly}
+                onCheckedChange={(checked) => setFilters(prev => ({ ...prev, checkedBaggageOnly: checked === true }))}
+              />
+            </div>
+            <div className="flex items-center justify-end gap-2">
+              <Label htmlFor="refundable-only" className="flex items-center gap-2 flex-grow">
+                <span>{t('flightFilters.refundable', 'Refundable only')}</span>
+                <FacetCount count={facets.refundable} />
+              </Label>
+              <Checkbox
+                id="refundable-only"
+                checked={filters.refundableOnly}
+                onCheckedChange={(checked) => setFilters(prev => ({ ...prev, refundableOnly: checked === true }))}
+              />
+            </div>
+          </div>
+        </div>
+
         {/* Airlines Filter */}
         <div>
           <h3 className="font-semibold mb-3 text-right">{t('airlinesHeading', 'شركات الطيران')}</h3>
-          <div className="space-y-2 max-h-48 overflow-y-auto" dir={i18n.language === 'ar' ? 'rtl' : 'ltr'}>
-            {availableAirlines.map((airline) => (
+          <div className="space-y-2 max-h-48 overflow-y-auto" dir={dir}>
+            {facets.airlines.map(({ value: airline, count }) => (
               <div key={airline} className="flex items-center justify-end gap-2">
                 <Label
                   htmlFor={`airline-${airline}`}
-                  className="text-right flex-grow"
+                  className="flex items-center gap-2 flex-grow"
                 >
-                  {t(`airlines.${airline}`, airline)}
+                  <span>{t(`airlines.${airline}`, airline)}</span>
+                  <FacetCount count={count} />
                 </Label>
                 <Checkbox
                   id={`airline-${airline}`}
@@ -142,9 +309,7 @@ const FilterSidebar: React.FC<FilterSidebarProps> = ({
                   onCheckedChange={(checked) => {
                     setFilters(prev => ({
                       ...prev,
-                      selectedAirlines: checked
-                        ? [...prev.selectedAirlines, airline]
-                        : prev.selectedAirlines.filter(a => a !== airline)
+                      selectedAirlines: toggleValue(prev.selectedAirlines, airline, checked === true)
                     }))
                   }}
                 />
@@ -153,70 +318,57 @@ const FilterSidebar: React.FC<FilterSidebarProps> = ({
           </div>
         </div>
 
+        {/* Airports Filter: only worth showing for cities with more than one airport */}
+        {facets.departureAirports.length > 1 && (
+          <div>
+            <h3 className="font-semibold mb-3 text-right">{t('flightFilters.departureAirports', 'Departure airports')}</h3>
+            {renderAirports('departureAirports', facets.departureAirports)}
+          </div>
+        )}
+        {facets.arrivalAirports.length > 1 && (
+          <div>
+            <h3 className="font-semibold mb-3 text-right">{t('flightFilters.arrivalAirports', 'Arrival airports')}</h3>
+            {renderAirports('arrivalAirports', facets.arrivalAirports)}
+          </div>
+        )}
+
         {/* Departure Time Filter */}
         <div>
           <h3 className="font-semibold mb-3 text-right">{t('departureTime', 'وقت المغادرة')}</h3>
-          <div className="space-y-2" dir={currentLang === 'ar' ? 'rtl' : 'ltr'}>
-            {(['morning', 'afternoon', 'evening', 'night'] as const).map((time) => (
-              <div key={time} className="flex items-center justify-end gap-2">
-                <Label htmlFor={`departure_${time}`} className="flex items-center gap-2">
-                  <span>
-                    {currentLang === 'ar' ? {
-                      'morning': 'صباحاً',
-                      'afternoon': 'ظهراً',
-                      'evening': 'مساءً',
-                      'night': 'ليلاً'
-                    }[time] : time}
-                  </span>
-                  <span className="text-gray-500 text-sm">
-                    {time === 'morning' && '(5AM - 11:59AM)'}
-                    {time === 'afternoon' && '(12PM - 4:59PM)'}
-                    {time === 'evening' && '(5PM - 8:59PM)'}
-                    {time === 'night' && '(9PM - 4:59AM)'}
-                  </span>
-                </Label>
-                <Checkbox
-                  id={`departure_${time}`}
-                  checked={filters.timeOfDay.departure.includes(time)}
-                  onCheckedChange={(checked) => {
-                    setFilters(prev => ({
-                      ...prev,
-                      timeOfDay: {
-                        ...prev.timeOfDay,
-                        departure: checked
-                          ? [...prev.timeOfDay.departure, time]
-                          : prev.timeOfDay.departure.filter(t => t !== time)
-                      }
-                    }));
-                  }}
-                />
-              </div>
-            ))}
-          </div>
+          {renderTimeOfDay('departure', facets.departureTime)}
         </div>
 
-        {/* Price Range Filter */}
+        {/* Arrival Time Filter */}
         <div>
-          <h3 className="font-semibold mb-3">{t('priceRange', 'نطاق السعر')}</h3>
-          <div className="space-y-4">
-            <Slider
-              value={[filters.priceRange.min, filters.priceRange.max]}
-              min={0}
-              max={10000}
-              step={100}
-              onValueChange={([min, max]) => {
-                setFilters(prev => ({
-                  ...prev,
-                  priceRange: { min, max }
-                }));
-              }}
-            />
-            <div className="flex justify-between text-sm">
-              <span>{filters.priceRange.min}</span>
-              <span>{filters.priceRange.max}</span>
+          <h3 className="font-semibold mb-3 text-right">{t('arrivalTime', 'وقت الوصول')}</h3>
+          {renderTimeOfDay('arrival', facets.arrivalTime)}
+        </div>
+
+        {/* Price Range Filter */}
+        {bounds && priceValue && bounds.max > bounds.min && (
+          <div>
+            <h3 className="font-semibold mb-3">{t('priceRange', 'نطاق السعر')}</h3>
+            <div className="space-y-4">
+              <Slider
+                value={[priceValue.min, priceValue.max]}
+                min={bounds.min}
+                max={bounds.max}
+                step={Math.max(1, Math.round((bounds.max - bounds.min) / 100))}
+                onValueChange={([min, max]) => {
+                  setFilters(prev => ({
+                    ...prev,
+                    // Back at the full range means no price filter, so later results aren't cut off
+                    priceRange: min <= bounds.min && max >= bounds.max ? null : { min, max }
+                  }));
+                }}
+              />
+              <div className="flex justify-between text-sm">
+                <span>{formatPrice(priceValue.min)}</span>
+                <span>{formatPrice(priceValue.max)}</span>
+              </div>
             </div>
           </div>
-        </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -231,19 +383,7 @@ const Flights = () => {
   const [hasSearched, setHasSearched] = useState(false);
   const [selectedFlights, setSelectedFlights] = useState<Record<number, Flight>>({});
   const [showDetails, setShowDetails] = useState<string | null>(null);
-  const [availableAirlines, setAvailableAirlines] = useState<string[]>([]);
-  const [filters, setFilters] = useState<FilterState>({
-    sortBy: 'price_asc',
-    selectedAirlines: [],
-    timeOfDay: {
-      departure: [],
-      arrival: []
-    },
-    priceRange: {
-      min: 0,
-      max: 10000
-    }
-  });
+  const [filters, setFilters] = useState<FilterState>(DEFAULT_FILTERS);
   const [fromAirportNames, setFromAirportNames] = useState<string[]>(['']);
   const [toAirportNames, setToAirportNames] = useState<string[]>(['']);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -253,7 +393,9 @@ const Flights = () => {
   const [showToSuggestions, setShowToSuggestions] = useState<number | null>(null);
   const [returnDatePickerOpen, setReturnDatePickerOpen] = useState(false);
   const [datePickerOpen, setDatePickerOpen] = useState<boolean[]>([false]);
-  const initializedFromStateRef = useRef(false);
+  const [searchType, setSearchType] = useState<SearchType>('oneWay');
+  // Query string of the search currently shown, so URL updates we make ourselves don't restart it
+  const appliedQueryRef = useRef('');
 
   const { register, handleSubmit, formState: { errors }, setValue, watch, trigger, setError, clearErrors } = useForm<SearchFormValues>({
     resolver: zodResolver(searchFormSchema),
@@ -267,6 +409,8 @@ const Flights = () => {
       },
       cabin: 'e',
       direct: false,
+      preferredAirlines: [],
+      excludedAirlines: [],
       returnDate: undefined,
     },
   });
@@ -275,15 +419,20 @@ const Flights = () => {
   const passengers = watch('passengers');
   const cabin = watch('cabin');
   const direct = watch('direct');
+  const preferredAirlines = watch('preferredAirlines') || [];
+  const excludedAirlines = watch('excludedAirlines') || [];
   const returnDate = watch('returnDate');
 
-  const { searchSections, startMultiSearch, loadMore } = useMultiCitySearch();
+  const { searchSections, resultSections, facets: filterFacets, startMultiSearch } = useMultiCitySearch(filters);
+  const { departureFares, returnFares, loadCalendar, clearCalendar } = useFareCalendar();
   // Keep track of the last submitted search so we can retry automatically if needed
   const lastSearchPayloadRef = useRef<{
+    searchType: SearchType;
     segments: SegmentInput[];
     passengers: PassengerCount;
     cabin?: 'e' | 'p' | 'b' | 'f';
     direct?: boolean;
+    airlines?: AirlineFilters;
   } | null>(null);
   const hasRetriedRef = useRef(false);
 
@@ -293,6 +442,48 @@ const Flights = () => {
     searchSectionsRef.current = searchSections;
   }, [searchSections]);
 
+  const filtersRef = useRef(filters);
+  useEffect(() => {
+    filtersRef.current = filters;
+  }, [filters]);
+
+  // Query string describing the last search and the current result filters
+  const buildCurrentSearchQuery = useCallback(() => {
+    const payload = lastSearchPayloadRef.current;
+    if (!payload) return null;
+    return buildFlightSearchQuery({
+      searchType: payload.searchType,
+      segments: payload.segments,
+      passengers: payload.passengers,
+      cabin: payload.cabin,
+      direct: payload.direct,
+      preferredAirlines: payload.airlines?.preferredAirlines,
+      excludedAirlines: payload.airlines?.excludedAirlines,
+      filters: filtersRef.current,
+    });
+  }, []);
+
+  // Mirror the search into the URL so the results page survives a refresh and can be shared
+  const syncSearchUrl = useCallback(() => {
+    const query = buildCurrentSearchQuery();
+    if (query === null || query === appliedQueryRef.current) return;
+    appliedQueryRef.current = query;
+    const linkState: FlightSearchLinkState = {
+      segmentLabels: lastSearchPayloadRef.current?.segments.map(segment => ({
+        from: segment.fromDisplay || segment.from,
+        to: segment.toDisplay || segment.to,
+      })),
+    };
+    navigate({ search: `?${query}` }, { replace: true, state: linkState });
+  }, [buildCurrentSearchQuery, navigate]);
+
+  // Filter changes (e.g. dragging the price slider) are written to the URL once they settle
+  useEffect(() => {
+    if (!hasSearched) return;
+    const timer = setTimeout(syncSearchUrl, 300);
+    return () => clearTimeout(timer);
+  }, [filters, hasSearched, syncSearchUrl]);
+
   // Wait for search results to arrive (polls searchSectionsRef). Resolves true if results found, false on timeout.
   const waitForResults = (timeoutMs = 60000, pollInterval = 500) => {
     return new Promise<boolean>((resolve) => {
@@ -333,23 +524,32 @@ const Flights = () => {
     setDatePickerOpen(Array(flightSegments.length).fill(false));
   }, [flightSegments.length]);
 
-  // Update available airlines whenever search results change
-  useEffect(() => {
-    if (searchSections.length > 0) {
-      const uniqueAirlines = new Set<string>();
-      searchSections.forEach(section => {
-        section.flights.forEach(flight => {
-          if (flight.legs?.[0]?.segments?.[0]?.airline_name) {
-            uniqueAirlines.add(flight.legs[0].segments[0].airline_name);
-          }
-        });
-      });
-
-      // Update available airlines for filtering
-      const sortedAirlines = Array.from(uniqueAirlines).sort();
-      setAvailableAirlines(sortedAirlines);
+  // The flexible-date calendar covers one-way searches and round trips (outbound + mirrored return)
+  const loadFareCalendarFor = useCallback((
+    segments: Array<{ from: string; to: string; date: Date }>,
+    passengerCounts: PassengerCount,
+    cabinClass?: 'e' | 'p' | 'b' | 'f',
+    directOnly?: boolean,
+    airlines?: AirlineFilters,
+  ) => {
+    const [outbound, inbound] = segments;
+    const isOneWay = segments.length === 1;
+    const isRoundTrip = segments.length === 2 && inbound.from === outbound.to && inbound.to === outbound.from;
+    if (!outbound || (!isOneWay && !isRoundTrip)) {
+      clearCalendar();
+      return;
     }
-  }, [searchSections]);
+    loadCalendar({
+      from: outbound.from,
+      to: outbound.to,
+      departureDate: outbound.date,
+      returnDate: isRoundTrip ? inbound.date : undefined,
+      passengers: passengerCounts,
+      cabin: cabinClass,
+      direct: directOnly,
+      airlines,
+    });
+  }, [loadCalendar, clearCalendar]);
 
   const onSubmit = useCallback(async (data: SearchFormValues) => {
     try {
@@ -392,8 +592,14 @@ const Flights = () => {
         toDisplay: toAirportNames[idx] || segment.to,
       }));
 
+      const airlines: AirlineFilters = {
+        preferredAirlines: data.preferredAirlines,
+        excludedAirlines: data.excludedAirlines,
+      };
+
       // Save payload for potential retry
       lastSearchPayloadRef.current = {
+        searchType: data.searchType || 'oneWay',
         segments: segmentsForHook,
         passengers: {
           adults: data.passengers.adults ?? 1,
@@ -402,14 +608,18 @@ const Flights = () => {
         },
         cabin: data.cabin,
         direct: data.direct,
+        airlines,
       };
       hasRetriedRef.current = false;
 
+      syncSearchUrl();
+
       await startMultiSearch(segmentsForHook, {
         adults: data.passengers.adults ?? 1,
         children: data.passengers.children ?? 0,
         infants: data.passengers.infants ?? 0,
-      }, data.cabin, data.direct);
+      }, data.cabin, data.direct, airlines);
+      loadFareCalendarFor(segmentsForHook, lastSearchPayloadRef.current.passengers, data.cabin, data.direct, airlines);
 
       // Mark search as started immediately.
       // Results arrive asynchronously (Seeru async search model) and will
@@ -424,88 +634,75 @@ const Flights = () => {
     } finally {
       setIsSubmitting(false);
     }
-  }, [fromAirportNames, toAirportNames, startMultiSearch, t]);
-
-  // Define type for segments from home page state
-  interface LocationStateSegment {
-    from: string;
-    to: string;
-    date: string | Date;
-    fromDisplayValue?: string;
-    toDisplayValue?: string;
-  }
-
-  // Handle search params from home page (initialize once)
+  }, [fromAirportNames, toAirportNames, startMultiSearch, loadFareCalendarFor, syncSearchUrl, t]);
+
+  // Restore and run the search described by the URL: searches from the home page, refreshes and shared links
   useEffect(() => {
-    if (initializedFromStateRef.current) return;
-    if (!location.state) return;
-
-    const { flightSegments: segments, passengers: passengerCounts } = location.state as {
-      flightSegments?: Array<LocationStateSegment>;
-      passengers?: PassengerCount;
-      cabin?: 'e' | 'p' | 'b' | 'f';
-      direct?: boolean;
+    const query = location.search.replace(/^\?/, '');
+    if (query === appliedQueryRef.current) return;
+    const search = parseFlightSearchQuery(query);
+    if (!search) return;
+    appliedQueryRef.current = query;
+
+    // Airport names only come along when navigating within the app; links fall back to the codes
+    const labels = (location.state as FlightSearchLinkState | null)?.segmentLabels;
+    const segmentsForHook = search.segments.map((segment, idx) => ({
+      ...segment,
+      fromDisplay: labels?.[idx]?.from || segment.from,
+      toDisplay: labels?.[idx]?.to || segment.to,
+    }));
+    const airlines: AirlineFilters = {
+      preferredAirlines: search.preferredAirlines,
+      excludedAirlines: search.excludedAirlines,
     };
 
-    if (segments && segments.length > 0) {
-      const fromNames = segments.map(seg => seg.fromDisplayValue || seg.from);
-      const toNames = segments.map(seg => seg.toDisplayValue || seg.to);
-      setFromAirportNames(fromNames);
-      setToAirportNames(toNames);
-
-      setValue('flightSegments', segments.map((segment: LocationStateSegment) => ({
-        from: segment.from,
-        to: segment.to,
-        date: new Date(segment.date),
-      })));
-    }
-
-    if (passengerCounts) {
-      setValue('passengers', passengerCounts);
-    }
+    // The form shows a round trip as its outbound leg plus a return date
+    const formSegments = search.searchType === 'roundTrip' ? segmentsForHook.slice(0, 1) : segmentsForHook;
+    setSearchType(search.searchType);
+    setValue('searchType', search.searchType);
+    setValue('flightSegments', formSegments.map(({ from, to, date }) => ({ from, to, date })));
+    setValue('returnDate', search.searchType === 'roundTrip' ? search.segments[1].date : undefined);
+    setFromAirportNames(formSegments.map(segment => segment.fromDisplay));
+    setToAirportNames(formSegments.map(segment => segment.toDisplay));
+    setDatePickerOpen(formSegments.map(() => false));
+    setValue('passengers', search.passengers);
+    setValue('cabin', search.cabin || 'e');
+    setValue('direct', search.direct ?? false);
+    setValue('preferredAirlines', search.preferredAirlines || []);
+    setValue('excludedAirlines', search.excludedAirlines || []);
+    if (search.filters) setFilters(search.filters);
+
+    // Search straight from the parsed URL rather than waiting on the form state updates above
+    (async () => {
+      try {
+        setIsSubmitting(true);
+        // Save payload for potential retry
+        lastSearchPayloadRef.current = {
+          searchType: search.searchType,
+          segments: segmentsForHook,
+          passengers: search.passengers,
+          cabin: search.cabin,
+          direct: search.direct,
+          airlines,
+        };
+        hasRetriedRef.current = false;
 
-    // Auto submit once when fully provided. Build display-aware segments directly from
-    // the navigation payload and call startMultiSearch to avoid relying on async state updates
-    // (fromAirportNames/toAirportNames) which can be stale and produce wrong headers.
-    if (segments && segments.length > 0 && segments.every((segment: LocationStateSegment) => segment.from && segment.to && segment.date)) {
-      const segmentsForHook = segments.map((segment: LocationStateSegment) => ({
-        from: segment.from,
-        to: segment.to,
-        date: new Date(segment.date),
-        fromDisplay: segment.fromDisplayValue || segment.from,
-        toDisplay: segment.toDisplayValue || segment.to,
-      }));
+        await startMultiSearch(segmentsForHook, search.passengers, search.cabin, search.direct, airlines);
+        loadFareCalendarFor(segmentsForHook, search.passengers, search.cabin, search.direct, airlines);
 
-      (async () => {
-        try {
-          setIsSubmitting(true);
-          // Save payload for potential retry
-          lastSearchPayloadRef.current = {
-            segments: segmentsForHook,
-            passengers: passengerCounts || { adults: 1, children: 0, infants: 0 },
-            cabin: undefined,
-            direct: undefined,
-          };
-          hasRetriedRef.current = false;
-
-          await startMultiSearch(segmentsForHook, passengerCounts || { adults: 1, children: 0, infants: 0 }, undefined, undefined);
-
-          // Mark search as started immediately; results will stream in.
-          setHasSearched(true);
-        } catch (error) {
-          toast({
-            title: t('error', 'Error'),
-            description: t('flightSearchError', 'Failed to search for flights. Please try again.'),
-            variant: 'destructive',
-          });
-        } finally {
-          setIsSubmitting(false);
-        }
-      })();
-    }
-
-    initializedFromStateRef.current = true;
-  }, [location.state, onSubmit, setValue, startMultiSearch, t]);
+        // Mark search as started immediately; results will stream in.
+        setHasSearched(true);
+      } catch (error) {
+        toast({
+          title: t('error', 'Error'),
+          description: t('flightSearchError', 'Failed to search for flights. Please try again.'),
+          variant: 'destructive',
+        });
+      } finally {
+        setIsSubmitting(false);
+      }
+    })();
+  }, [location.search, location.state, setValue, startMultiSearch, loadFareCalendarFor, t]);
 
   // If we have searched and all sections are complete with zero results, trigger a one-time immediate retry
   useEffect(() => {
@@ -521,7 +718,7 @@ const Flights = () => {
       void (async () => {
         setIsSubmitting(true);
         try {
-          await startMultiSearch(payload.segments, payload.passengers, payload.cabin, payload.direct);
+          await startMultiSearch(payload.segments, payload.passengers, payload.cabin, payload.direct, payload.airlines);
           const retryResults = await waitForResults(30000, 500);
           if (retryResults) {
             setHasSearched(true);
@@ -555,7 +752,7 @@ const Flights = () => {
             const segment = payload.segments[sectionIndex];
             if (segment) {
               // Create a new search for just this segment
-              await startMultiSearch([segment], payload.passengers, payload.cabin, payload.direct);
+              await startMultiSearch([segment], payload.passengers, payload.cabin, payload.direct, payload.airlines);
             }
           } catch (error) {
             console.error(`Failed to retry segment ${sectionIndex}:`, error);
@@ -585,6 +782,92 @@ const Flights = () => {
     window.addEventListener('resize', onResize);
     return () => window.removeEventListener('resize', onResize);
   }, [hasSearched]);
+  // Re-run the last search on the day(s) picked in the fare calendar
+  const handleFareCalendarSelect = useCallback(async (departureDate: Date, selectedReturnDate?: Date) => {
+    const payload = lastSearchPayloadRef.current;
+    if (!payload) return;
+
+    const segments = payload.segments.map((segment, idx) => ({
+      ...segment,
+      date: idx === 0 ? departureDate : (selectedReturnDate ?? segment.date),
+    }));
+
+    // Keep the search form in sync with the calendar selection
+    setValue('flightSegments.0.date', departureDate);
+    if (selectedReturnDate) {
+      if (returnDate) {
+        setValue('returnDate', selectedReturnDate);
+      } else if (flightSegments.length > 1) {
+        setValue('flightSegments.1.date', selectedReturnDate);
+      }
+    }
+
+    lastSearchPayloadRef.current = { ...payload, segments };
+    hasRetriedRef.current = false;
+    syncSearchUrl();
+    try {
+      setIsSubmitting(true);
+      await startMultiSearch(segments, payload.passengers, payload.cabin, payload.direct, payload.airlines);
+      loadFareCalendarFor(segments, payload.passengers, payload.cabin, payload.direct, payload.airlines);
+    } catch (error) {
+      toast({
+        title: t('error', 'Error'),
+        description: t('flightSearchError', 'Failed to search for flights. Please try again.'),
+        variant: 'destructive',
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [returnDate, flightSegments.length, setValue, startMultiSearch, loadFareCalendarFor, syncSearchUrl, t]);
+
+  const handleCopySearchLink = useCallback(async () => {
+    const query = buildCurrentSearchQuery();
+    if (query === null) return;
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${location.pathname}?${query}`);
+      toast({
+        title: t('searchLink.copied', 'Link copied'),
+        description: t('searchLink.copiedDescription', 'Anyone who opens this link will see the same search.'),
+      });
+    } catch (error) {
+      toast({
+        title: t('error', 'Error'),
+        description: t('searchLink.copyFailed', "Couldn't copy the link. Copy it from the address bar instead."),
+        variant: 'destructive',
+      });
+    }
+  }, [buildCurrentSearchQuery, location.pathname, t]);
+
+  // Price alerts cover the same one-way / round-trip shapes as the fare calendar
+  const watchableRoute = useMemo(() => {
+    const payload = lastSearchPayloadRef.current;
+    if (!payload || searchSections.length === 0) return null;
+    const [outbound, inbound] = payload.segments;
+    const isOneWay = payload.segments.length === 1;
+    const isRoundTrip = payload.segments.length === 2 && inbound.from === outbound.to && inbound.to === outbound.from;
+    if (!outbound || (!isOneWay && !isRoundTrip)) return null;
+
+    // Cheapest total so far: one fare per leg, since each leg is searched separately
+    const cheapestPerLeg = searchSections.map(section => {
+      const prices = section.flights.map(getFlightTotalPrice).filter(p => p > 0);
+      return prices.length > 0 ? Math.min(...prices) : null;
+    });
+    const currentPrice = cheapestPerLeg.every(p => p != null)
+      ? cheapestPerLeg.reduce((sum, p) => sum + (p as number), 0)
+      : null;
+
+    return {
+      from: outbound.from,
+      to: outbound.to,
+      departureDate: outbound.date,
+      returnDate: isRoundTrip ? inbound.date : undefined,
+      passengers: payload.passengers,
+      cabin: payload.cabin,
+      direct: payload.direct,
+      currentPrice,
+    };
+  }, [searchSections]);
+
   const handleFlightSelection = useCallback((flight: Flight | null, searchIndex: number) => {
     if (flight === null) {
       setSelectedFlights(prev => {
@@ -693,87 +976,35 @@ const Flights = () => {
 
   const handleAddToCart = useCallback(async (flight: Flight) => {
     try {
-      // Store flight in local cart if user is not logged in
-      if (!localStorage.getItem('token')) {
-        const cartItems = JSON.parse(localStorage.getItem('cartItems') || '[]');
-        const newItem = {
-          from: flight.legs[0].from.city,
-          to: flight.legs[0].to.city,
-          fromIata: flight.legs[0].from.iata || flight.legs[0].from.iata_code || flight.legs[0].from.airport || null,
-          toIata: flight.legs[0].to.iata || flight.legs[0].to.iata_code || flight.legs[0].to.airport || null,
-          flightId: flight.legs[0].segments[0].flightnumber,
-          airline: flight.legs[0].segments[0].airline_name,
-          airlineCode: flight.legs[0].segments[0].airline_code || flight.legs[0].segments[0].airline_iata || null,
-          airlineLogo: flight.airline_logo_url || null,
-          departureTime: flight.legs[0].from.date,
-          arrivalTime: flight.legs[0].to.date,
-          price: flight.price,
-          currency: flight.currency,
-          passengers: {
-            adults: flight.search_query.adt || 1,
-            children: flight.search_query.chd || 0,
-            infants: flight.search_query.inf || 0
-          },
-          class: flight.search_query.options.cabin || 'economy'
-          ,
-          // store the full flight object so we can persist all details shown on the flight page
-          selectedFlight: {
-            ...flight,
-            // normalize price into expected object shape used by backend
-            price: {
-              total: flight.price,
-              currency: flight.currency
-            },
-            // Include fare_key for Seeru integration (use id as fare_key)
-            fareKey: flight.fare_key || flight.id || null
-          }
-        };
-        cartItems.push(newItem);
-        localStorage.setItem('cartItems', JSON.stringify(cartItems));
-
-        toast({
-          title: t('success', 'Success'),
-          description: t('flightAddedToCart', 'Flight has been added to your cart'),
-        });
-        navigate('/cart');
-        return;
-      }
-
-      // For logged in users, save to backend
-      const response = await api.post('/bookings', {
-        flightDetails: {
-          from: flight.legs[0].from.city,
-          to: flight.legs[0].to.city,
-          fromIata: flight.legs[0].from.iata || flight.legs[0].from.iata_code || null,
-          toIata: flight.legs[0].to.iata || flight.legs[0].to.iata_code || null,
-          departureDate: flight.legs[0].from.date,
-          passengers: {
-            adults: flight.search_query.adt || 1,
-            children: flight.search_query.chd || 0,
-            infants: flight.search_query.inf || 0
+      // Guests get a server-side cart keyed by their session id; it is merged into their account on login
+      await cartService.addFlight({
+        from: flight.legs[0].from.city,
+        to: flight.legs[0].to.city,
+        fromIata: flight.legs[0].from.iata || flight.legs[0].from.iata_code || null,
+        toIata: flight.legs[0].to.iata || flight.legs[0].to.iata_code || null,
+        departureDate: flight.legs[0].from.date,
+        passengers: {
+          adults: flight.search_query.adt || 1,
+          children: flight.search_query.chd || 0,
+          infants: flight.search_query.inf || 0
+        },
+        // send the entire flight object so the server can persist all displayed details
+        selectedFlight: {
+          ...flight,
+          price: {
+            total: flight.price,
+            currency: flight.currency
           },
-          // send the entire flight object so the server can persist all displayed details
-          selectedFlight: {
-            ...flight,
-            price: {
-              total: flight.price,
-              currency: flight.currency
-            },
-            // Include fare_key for Seeru integration (use id as fare_key)
-            fareKey: flight.fare_key || flight.id || null
-          }
+          // Include fare_key for Seeru integration (use id as fare_key)
+          fareKey: flight.fare_key || flight.id || null
         }
       });
 
-      if (response.data.success) {
-        toast({
-          title: t('success', 'Success'),
-          description: t('flightAddedToCart', 'Flight has been added to your cart'),
-        });
-        navigate('/cart');
-      } else {
-        throw new Error(response.data.message || 'Unknown error occurred');
-      }
+      toast({
+        title: t('success', 'Success'),
+        description: t('flightAddedToCart', 'Flight has been added to your cart'),
+      });
+      navigate('/cart');
     } catch (error: unknown) {
       console.error('Cart error:', error);
       let errorMessage = t('addToCartError', 'Failed to add flight to cart. Please try again.');
@@ -785,6 +1016,8 @@ const Flights = () => {
         'message' in error.response.data &&
         typeof error.response.data.message === 'string') {
         errorMessage = error.response.data.message;
+      } else if (error instanceof Error && error.message) {
+        errorMessage = error.message;
       }
 
       toast({
@@ -795,9 +1028,7 @@ const Flights = () => {
     }
   }, [navigate, t]);
 
-  const [searchType, setSearchType] = useState<'oneWay' | 'roundTrip' | 'multiCity'>('oneWay');
-
-  const handleSearchTypeChange = (type: 'oneWay' | 'roundTrip' | 'multiCity') => {
+  const handleSearchTypeChange = (type: SearchType) => {
     setSearchType(type);
     setValue('searchType', type);
 
@@ -1302,6 +1533,24 @@ const Flights = () => {
               </div>
             </div>
 
+            {/* Airline Preferences */}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 p-4 border rounded-lg">
+              <AirlinePreferencePicker
+                id="preferred-airlines"
+                label={t('airlinePreferences.preferred', 'Preferred airlines')}
+                value={preferredAirlines}
+                onChange={(codes) => setValue('preferredAirlines', codes)}
+                unavailable={excludedAirlines}
+              />
+              <AirlinePreferencePicker
+                id="excluded-airlines"
+                label={t('airlinePreferences.excluded', 'Exclude airlines')}
+                value={excludedAirlines}
+                onChange={(codes) => setValue('excludedAirlines', codes)}
+                unavailable={preferredAirlines}
+              />
+            </div>
+
             {/* Search Button */}
             <Button type="submit" disabled={isSubmitting} className="w-full bg-tourtastic-blue hover:bg-tourtastic-dark-blue text-white">
               {isSubmitting ? (
@@ -1330,7 +1579,7 @@ const Flights = () => {
             {isDesktop ? (
               filtersOpen && (
                 <div className="w-full">
-                  <FilterSidebar filters={filters} setFilters={setFilters} availableAirlines={availableAirlines} />
+                  <FilterSidebar filters={filters} setFilters={setFilters} facets={filterFacets} />
                 </div>
               )
             ) : (
@@ -1339,7 +1588,7 @@ const Flights = () => {
                   <Button variant="outline" className="w-full md:w-40 px-4 py-2">{t('filters', 'Filters')}</Button>
                 </PopoverTrigger>
                 <PopoverContent className="w-[320px] p-0">
-                  <FilterSidebar filters={filters} setFilters={setFilters} availableAirlines={availableAirlines} />
+                  <FilterSidebar filters={filters} setFilters={setFilters} facets={filterFacets} />
                 </PopoverContent>
               </Popover>
             )}
@@ -1347,65 +1596,26 @@ const Flights = () => {
 
           {/* Results */}
           <div className="md:col-span-3">
+            {hasSearched && (
+              <div className="flex justify-end gap-2 mb-3">
+                <Button variant="outline" size="sm" onClick={handleCopySearchLink}>
+                  <Link2 className="h-4 w-4 me-2" />
+                  {t('searchLink.copy', 'Copy link')}
+                </Button>
+                {watchableRoute && <PriceAlertButton {...watchableRoute} />}
+              </div>
+            )}
+            <FareCalendar
+              departureFares={departureFares}
+              returnFares={returnFares}
+              selectedDeparture={lastSearchPayloadRef.current?.segments[0]?.date}
+              selectedReturn={lastSearchPayloadRef.current?.segments[1]?.date}
+              onSelect={handleFareCalendarSelect}
+            />
             <MultiCityFlightResults
-              searchSections={searchSections.map(section => {
-                const derivedFlights = section.flights
-                  .filter(flight => {
-                    // Apply airline filter
-                    if (filters.selectedAirlines.length > 0 &&
-                      !filters.selectedAirlines.includes(flight.legs[0].segments[0].airline_name)) {
-                      return false;
-                    }                      // Apply price range filter
-                    if (flight.price < filters.priceRange.min ||
-                      flight.price > filters.priceRange.max) {
-                      return false;
-                    }
-
-                    // Apply time of day filter for departure
-                    if (filters.timeOfDay.departure.length > 0) {
-                      const hour = new Date(flight.legs[0].from.date).getHours();
-                      const timeOfDay =
-                        hour >= 5 && hour < 12 ? 'morning' :
-                          hour >= 12 && hour < 17 ? 'afternoon' :
-                            hour >= 17 && hour < 21 ? 'evening' : 'night';
-
-                      if (!filters.timeOfDay.departure.includes(timeOfDay)) {
-                        return false;
-                      }
-                    }
-
-                    return true;
-                  })
-                  .sort((a, b) => {
-                    switch (filters.sortBy) {
-                      case 'price_asc':
-                        return a.price - b.price;
-                      case 'price_desc':
-                        return b.price - a.price;
-                      case 'duration_asc': {
-                        const durationA = new Date(a.legs[0].to.date).getTime() -
-                          new Date(a.legs[0].from.date).getTime();
-                        const durationB = new Date(b.legs[0].to.date).getTime() -
-                          new Date(b.legs[0].from.date).getTime();
-                        return durationA - durationB;
-                      }
-                      default:
-                        return 0;
-                    }
-                  });
-
-                // Recompute hasMore relative to the derived list and streaming state
-                const hasMoreDerived = section.hasMore || (!section.isComplete) || (derivedFlights.length > section.visibleCount);
-
-                return {
-                  ...section,
-                  flights: derivedFlights,
-                  hasMore: hasMoreDerived,
-                };
-              })}
+              searchSections={resultSections}
               passengers={{ adults: passengers.adults, children: passengers.children, infants: passengers.infants }}
               onFlightSelection={handleFlightSelection}
-              onLoadMore={loadMore}
               onAddToCart={handleAddToCart}
               selectedFlights={selectedFlights}
               showDetails={showDetails}
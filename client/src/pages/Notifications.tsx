@@ -2,7 +2,7 @@ import React, { useState, useEffect, useCallback } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Bell, Mail, MapPin, Calendar, CreditCard, CheckCircle, AlertCircle } from 'lucide-react';
+import { Bell, Mail, MapPin, Calendar, CreditCard, CheckCircle, AlertCircle, TrendingDown } from 'lucide-react';
 import { format } from 'date-fns';
 import { toast } from 'sonner';
 import { useTranslation } from 'react-i18next';
@@ -10,6 +10,7 @@ import { useNavigate } from 'react-router-dom';
 import i18n from '@/i18n';
 import notificationService from '@/services/notificationService';
 import { useAuth } from '@/hooks/useAuth';
+import { announceNotificationsRead, useNotificationStream } from '@/hooks/useNotificationStream';
 
 // small type guard for axios-like errors
 function isAxiosErrorWithStatus(err: unknown): err is { response?: { status?: number } } {
@@ -26,7 +27,8 @@ const typeIcons = {
   reminder: Calendar,
   profile: Bell,
   cart: Bell,
-  system: Bell
+  system: Bell,
+  price_alert: TrendingDown
 };
 
 // Get icon color based on notification type
@@ -48,6 +50,8 @@ const getIconColor = (type: string) => {
       return 'text-indigo-500';
     case 'cart':
       return 'text-orange-500';
+    case 'price_alert':
+      return 'text-green-600';
     case 'system':
       return 'text-gray-500';
     default:
@@ -120,6 +124,19 @@ const Notifications = () => {
     fetchNotifications();
   }, [fetchNotifications]);
 
+  // Prepend notifications pushed over the live stream
+  useNotificationStream(!!user, {
+    onNotification: (notification) => {
+      // Attachments need a signed URL, which only the list endpoint provides
+      if (notification.pdfUrl) {
+        fetchNotifications();
+        return;
+      }
+      setNotifications(prev => (prev.some(n => n._id === notification._id) ? prev : [notification, ...prev]));
+    },
+    onPoll: fetchNotifications,
+  });
+
   // Get filtered notifications based on active tab
   const filteredNotifications = activeTab === 'all' 
     ? notifications 
@@ -132,6 +149,7 @@ const Notifications = () => {
     try {
       await notificationService.markNotificationRead(id);
       setNotifications(notifications.map(notification => (notification._id === id ? { ...notification, read: true } : notification)));
+      announceNotificationsRead();
       toast.success(t('notifications.markAsReadSuccess'));
     } catch (error: unknown) {
       console.error('Error marking notification as read:', error);
@@ -148,6 +166,7 @@ const Notifications = () => {
     try {
       await notificationService.markAllRead();
       setNotifications(notifications.map(notification => ({ ...notification, read: true })));
+      announceNotificationsRead();
       toast.success(t('notifications.markAllAsReadSuccess'));
     } catch (error: unknown) {
       console.error('Error marking all notifications as read:', error);
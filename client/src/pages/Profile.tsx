@@ -20,13 +20,19 @@ import {
   DialogTitle,
   DialogDescription,
 } from "@/components/ui/dialog";
-import { Star, Plane, Calendar, CreditCard, User, Mail, Phone, Eye, EyeOff } from 'lucide-react';
+import { Star, Plane, Calendar, CreditCard, User, Mail, Phone, Eye, EyeOff, FileDown } from 'lucide-react';
 import { toastSuccess, toastError, toastInfo } from '@/utils/i18nToast';
 import apiClient from '@/config/api';
-import { formatSypFromUsd } from '@/utils/currency';
+import { useCurrency } from '@/hooks/useCurrency';
 import { useAuth } from '@/hooks/useAuth';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
+import ManageBookingPanel from '@/components/profile/ManageBookingPanel';
+import PriceAlertsPanel from '@/components/profile/PriceAlertsPanel';
+import TravellersPanel from '@/components/profile/TravellersPanel';
+import HoldCountdown from '@/components/flights/HoldCountdown';
+import type { FareHold } from '@/services/cartService';
+import type { TicketChangeResult } from '@/services/ticketChangeService';
 
 interface UserProfile {
   _id: string;
@@ -70,6 +76,7 @@ interface TimelineEvent {
   status: string;
   date: string;
   notes?: string;
+  updatedBy?: string;
 }
 
 interface Booking {
@@ -79,8 +86,10 @@ interface Booking {
   customerEmail: string;
   flightDetails: FlightDetails;
   paymentDetails: PaymentDetails;
-  status: 'pending' | 'confirmed' | 'cancelled' | 'done';
+  status: 'pending' | 'confirmed' | 'issued' | 'cancelled' | 'done';
+  seeruStatus?: string;
   timeline: TimelineEvent[];
+  hold?: FareHold | null;
   // Optional URL stored on the booking pointing to the ticket PDF (or file reference)
   ticketPdfUrl?: string;
 }
@@ -101,6 +110,7 @@ const Profile: React.FC = () => {
   const navigate = useNavigate();
   const { user: authUser } = useAuth();
   const { t, i18n } = useTranslation();
+  const { formatPrice } = useCurrency();
   const [user, setUser] = useState<UserProfile | null>(null);
   const [bookings, setBookings] = useState<Booking[]>([]);
   const [wishlist, setWishlist] = useState<WishlistItem[]>([]);
@@ -262,6 +272,13 @@ const Profile: React.FC = () => {
     setIsDetailsOpen(true);
   };
 
+  // Keep the list and the open dialog in sync after a refund/void request
+  const handleTicketChanged = (result: TicketChangeResult) => {
+    const apply = (b: Booking) => (b._id === result.bookingId ? { ...b, timeline: result.timeline } : b);
+    setBookings(prev => prev.map(apply));
+    setSelectedBooking(prev => (prev ? apply(prev) : prev));
+  };
+
   const formatDate = (dateString: string) => {
     try {
       return new Date(dateString).toLocaleString(i18n?.language || 'en-US', {
@@ -285,6 +302,8 @@ const Profile: React.FC = () => {
         return t('statu.pending', 'قيد الانتظار');
       case 'cancelled':
         return t('statu.cancelled', 'ملغي');
+      case 'issued':
+        return t('statu.issued', 'تم الإصدار');
       case 'done':
         return t('statu.done', 'منجز');
       default:
@@ -375,6 +394,7 @@ const Profile: React.FC = () => {
 
   const [ticketPreviewUrl, setTicketPreviewUrl] = useState<string | null>(null);
   const [ticketLoading, setTicketLoading] = useState(false);
+  const [downloadingItinerary, setDownloadingItinerary] = useState<string | null>(null);
 
   // When a booking is selected, attempt to obtain a usable ticket URL for preview.
   // Note: server stores uploaded flight tickets on FlightBooking.ticketDetails.eTicketPath
@@ -452,9 +472,31 @@ const Profile: React.FC = () => {
     return () => { mounted = false; };
   }, [selectedBooking]);
 
-  // Whether to show the Actions column (only if at least one booking has a ticket and is done)
+  // Same rule as the server: the itinerary PDF exists once the ticket is issued
+  const isItineraryAvailable = (b: Booking) =>
+    b.status !== 'cancelled' && (b.status === 'issued' || b.status === 'done' || b.seeruStatus === 'issued');
+
+  const handleDownloadItinerary = async (b: Booking) => {
+    const id = b._id ?? b.bookingId;
+    setDownloadingItinerary(id);
+    try {
+      const lang = i18n.language?.startsWith('ar') ? 'ar' : 'en';
+      const res = await apiClient.get(`/bookings/${id}/itinerary`, { params: { lang } });
+      if (!res.data?.success || !res.data.data?.url) {
+        throw new Error(res.data?.message || 'Failed to prepare itinerary');
+      }
+      window.open(res.data.data.url, '_blank', 'noopener');
+    } catch (error) {
+      console.error('Error downloading itinerary:', error);
+      toastError('تعذر تجهيز خط سير الرحلة. يرجى المحاولة مرة أخرى.', "We couldn't prepare your itinerary. Please try again.");
+    } finally {
+      setDownloadingItinerary(null);
+    }
+  };
+
+  // Whether to show the Actions column (a done booking with an uploaded ticket, or an issued itinerary)
   const hasActionableBookings = bookings.some(
-    (b) => b.status === 'done' && !!resolveBookingPreviewUrl(b)
+    (b) => (b.status === 'done' && !!resolveBookingPreviewUrl(b)) || isItineraryAvailable(b)
   );
 
   return (
@@ -531,6 +573,8 @@ const Profile: React.FC = () => {
               <TabsList className="w-full md:w-auto">
                 <TabsTrigger value="bookings" className="flex-1 md:flex-none">{t('profile.myBookings', 'My Bookings')}</TabsTrigger>
                 <TabsTrigger value="wishlist" className="flex-1 md:flex-none">{t('profile.myWishlist', 'My Wishlist')}</TabsTrigger>
+                <TabsTrigger value="priceAlerts" className="flex-1 md:flex-none">{t('priceAlerts.title', 'Price Alerts')}</TabsTrigger>
+                <TabsTrigger value="travellers" className="flex-1 md:flex-none">{t('travellers.tab', 'Travellers')}</TabsTrigger>
                 <TabsTrigger value="settings" className="flex-1 md:flex-none">{t('profile.accountSettings', 'Account Settings')}</TabsTrigger>
               </TabsList>
               
@@ -598,13 +642,34 @@ const Profile: React.FC = () => {
                                       'bg-gray-100 text-gray-800'}`}>
                                     {translateStatus(booking.status)}
                                   </span>
+                                  {booking.status === 'pending' && booking.hold?.expiresAt && !booking.hold.releasedAt && (
+                                    <div className="mt-1">
+                                      <HoldCountdown expiresAt={booking.hold.expiresAt} compact />
+                                    </div>
+                                  )}
                                 </TableCell>
                                 <TableCell className="text-right">
-                                    {formatSypFromUsd(booking.flightDetails.selectedFlight.price.total)}
+                                    {formatPrice(booking.flightDetails.selectedFlight.price.total)}
                                 </TableCell>
                                 {hasActionableBookings && (
                                   <TableCell className="text-right">
                                     <div className="flex items-center justify-end gap-2">
+                                      {isItineraryAvailable(booking) && (
+                                        <Button
+                                          variant="ghost"
+                                          size="sm"
+                                          disabled={downloadingItinerary === (booking._id ?? booking.bookingId)}
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            handleDownloadItinerary(booking);
+                                          }}
+                                        >
+                                          <FileDown className="h-4 w-4 mr-1" />
+                                          {downloadingItinerary === (booking._id ?? booking.bookingId)
+                                            ? t('booking.preparingItinerary', 'Preparing PDF...')
+                                            : t('booking.itinerary', 'Itinerary & receipt')}
+                                        </Button>
+                                      )}
                                       {booking.status === 'done' && resolveBookingPreviewUrl(booking) && (
                                         <Button
                                           variant="ghost"
@@ -720,6 +785,16 @@ const Profile: React.FC = () => {
                   </CardContent>
                 </Card>
               </TabsContent>
+
+              {/* Price Alerts Tab */}
+              <TabsContent value="priceAlerts">
+                <PriceAlertsPanel />
+              </TabsContent>
+
+              {/* Saved Travellers Tab */}
+              <TabsContent value="travellers">
+                <TravellersPanel />
+              </TabsContent>
               
               {/* Settings Tab */}
               <TabsContent value="settings">
@@ -969,17 +1044,53 @@ const Profile: React.FC = () => {
                       <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
                         <div>
                           <p className="text-xs text-gray-500">{t('payment.amount', 'المبلغ')}</p>
-                          <p className="text-sm font-medium">{formatSypFromUsd(selectedBooking.flightDetails.selectedFlight.price.total)}</p>
+                          <p className="text-sm font-medium">{formatPrice(selectedBooking.flightDetails.selectedFlight.price.total)}</p>
                         </div>
                         <div>
                           <p className="text-xs text-gray-500">{t('payment.status', 'حالة الدفع')}</p>
                           <p className="text-sm font-medium">{translateStatus(selectedBooking.paymentDetails.status)}</p>
                         </div>
                       </div>
+                      {selectedBooking.status === 'pending' && selectedBooking.hold?.expiresAt && !selectedBooking.hold.releasedAt && (
+                        <HoldCountdown expiresAt={selectedBooking.hold.expiresAt} />
+                      )}
                     </div>
 
+                    {selectedBooking._id && selectedBooking.status !== 'pending' && (
+                      <>
+                        <Separator />
+
+                        {/* Manage booking: refund / void / exchange */}
+                        <ManageBookingPanel
+                          bookingId={selectedBooking._id}
+                          timeline={selectedBooking.timeline}
+                          onChanged={handleTicketChanged}
+                        />
+                      </>
+                    )}
+
                     <Separator />
 
+                    {isItineraryAvailable(selectedBooking) && (
+                      <div className="space-y-2">
+                        <h3 className="text-base font-semibold">{t('booking.itinerary', 'Itinerary & receipt')}</h3>
+                        <p className="text-sm text-gray-600">
+                          {t('booking.itineraryDescription', 'Your flights, passengers, baggage and payment in one PDF.')}
+                        </p>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          disabled={downloadingItinerary === (selectedBooking._id ?? selectedBooking.bookingId)}
+                          onClick={() => handleDownloadItinerary(selectedBooking)}
+                        >
+                          <FileDown className="h-4 w-4 mr-1" />
+                          {downloadingItinerary === (selectedBooking._id ?? selectedBooking.bookingId)
+                            ? t('booking.preparingItinerary', 'Preparing PDF...')
+                            : t('booking.downloadItinerary', 'Download itinerary (PDF)')}
+                        </Button>
+                      </div>
+                    )}
+
                     {/* Ticket PDF preview / link */}
                     {ticketLoading ? (
                       <div className="py-4 text-center">{t('booking.loadingTicket', 'Loading ticket...')}</div>
@@ -0,0 +1,317 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { saveAs } from 'file-saver';
+import { Download, Loader2, RefreshCw, ShieldCheck, ShieldAlert } from 'lucide-react';
+import api from '@/config/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toastError } from '@/utils/i18nToast';
+
+interface AuditChange {
+  path: string;
+  before: unknown;
+  after: unknown;
+}
+
+interface AuditEntry {
+  _id: string;
+  seq: number;
+  at: string;
+  actor: { id?: string; name?: string; email?: string; role?: string };
+  action: string;
+  target: { type: string; id?: string };
+  changes: AuditChange[];
+  ip?: string;
+  userAgent?: string;
+  hash: string;
+}
+
+interface ChainStatus {
+  valid: boolean;
+  checked: number;
+  brokenAt?: number;
+  reason?: string;
+}
+
+interface AuditFilters {
+  action: string;
+  actor: string;
+  targetId: string;
+  from: string;
+  to: string;
+}
+
+const EMPTY_FILTERS: AuditFilters = { action: '', actor: '', targetId: '', from: '', to: '' };
+
+const formatValue = (value: unknown) => (value === null || value === undefined ? '—' : typeof value === 'object' ? JSON.stringify(value) : String(value));
+
+const AuditLog: React.FC = () => {
+  const { t } = useTranslation();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [actions, setActions] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [selected, setSelected] = useState<AuditEntry | null>(null);
+  const [exporting, setExporting] = useState(false);
+  const [verifying, setVerifying] = useState(false);
+  const [chainStatus, setChainStatus] = useState<ChainStatus | null>(null);
+
+  const buildParams = useCallback(() => {
+    const params: Record<string, string | number> = {};
+    (Object.keys(filters) as Array<keyof AuditFilters>).forEach(key => {
+      if (filters[key].trim()) params[key] = filters[key].trim();
+    });
+    return params;
+  }, [filters]);
+
+  const fetchEntries = useCallback(async () => {
+    setLoading(true);
+    try {
+      const resp = await api.get('/admin/audit-logs', { params: { ...buildParams(), page } });
+      if (!resp.data?.success) {
+        throw new Error(resp.data?.message || 'Failed to load audit log');
+      }
+      setEntries(resp.data.data);
+      setActions(resp.data.actions || []);
+      setPages(resp.data.pages || 1);
+      setTotal(resp.data.total || 0);
+    } catch (err) {
+      console.error('Failed to load audit log', err);
+      toastError('تعذر تحميل سجل التدقيق', 'Failed to load audit log');
+      setEntries([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [buildParams, page]);
+
+  useEffect(() => {
+    fetchEntries();
+  }, [fetchEntries]);
+
+  const updateFilter = (key: keyof AuditFilters, value: string) => {
+    setPage(1);
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      const resp = await api.get('/admin/audit-logs/export', { params: buildParams(), responseType: 'blob' });
+      if (resp.status !== 200) throw new Error(`Export failed with status ${resp.status}`);
+      saveAs(new Blob([resp.data], { type: 'text/csv;charset=utf-8' }), `tourtastic_audit_${format(new Date(), 'yyyy-MM-dd')}.csv`);
+    } catch (err) {
+      console.error('Audit export failed', err);
+      toastError('فشل تصدير سجل التدقيق', 'Audit log export failed');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleVerify = async () => {
+    try {
+      setVerifying(true);
+      const resp = await api.get('/admin/audit-logs/verify');
+      if (!resp.data?.success) throw new Error(resp.data?.message || 'Verification failed');
+      setChainStatus(resp.data.data);
+    } catch (err) {
+      console.error('Audit verification failed', err);
+      toastError('تعذر التحقق من سجل التدقيق', 'Could not verify the audit log');
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const formatDateTime = (value?: string) => (value ? format(new Date(value), 'yyyy-MM-dd HH:mm:ss') : '-');
+
+  return (
+    <div className="p-8 space-y-6">
+      <div className="flex justify-center items-center">
+        <h1 className="text-3xl font-bold">{t('admin.audit.title', 'Audit Log')}</h1>
+      </div>
+
+      <Card>
+        <CardContent className="p-6 space-y-4">
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              value={filters.action}
+              onChange={(e) => updateFilter('action', e.target.value)}
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            >
+              <option value="">{t('admin.audit.allActions', 'All actions')}</option>
+              {actions.map(action => (
+                <option key={action} value={action}>{t(`admin.audit.actions.${action}`, action)}</option>
+              ))}
+            </select>
+            <Input
+              className="max-w-xs"
+              placeholder={t('admin.audit.actorPlaceholder', 'Staff name or email')}
+              value={filters.actor}
+              onChange={(e) => updateFilter('actor', e.target.value)}
+            />
+            <Input
+              className="max-w-xs"
+              placeholder={t('admin.audit.targetPlaceholder', 'Booking, user or setting ID')}
+              value={filters.targetId}
+              onChange={(e) => updateFilter('targetId', e.target.value)}
+            />
+            <label className="flex items-center gap-2 text-sm">
+              {t('admin.audit.from', 'From')}
+              <Input type="date" className="w-40" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} />
+            </label>
+            <label className="flex items-center gap-2 text-sm">
+              {t('admin.audit.to', 'To')}
+              <Input type="date" className="w-40" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} />
+            </label>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Button variant="outline" onClick={fetchEntries} className="flex items-center gap-2">
+              <RefreshCw className="h-4 w-4" />
+              {t('admin.webhooks.refresh', 'Refresh')}
+            </Button>
+            <Button variant="outline" onClick={() => { setPage(1); setFilters(EMPTY_FILTERS); }}>
+              {t('admin.bookings.clearFilters', 'Clear filters')}
+            </Button>
+            <Button variant="outline" onClick={handleExport} disabled={exporting} className="flex items-center gap-2">
+              {exporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+              {t('admin.audit.exportCsv', 'Export CSV')}
+            </Button>
+            <Button variant="outline" onClick={handleVerify} disabled={verifying} className="flex items-center gap-2">
+              {verifying ? <Loader2 className="h-4 w-4 animate-spin" /> : <ShieldCheck className="h-4 w-4" />}
+              {t('admin.audit.verify', 'Verify integrity')}
+            </Button>
+            {chainStatus && (
+              chainStatus.valid ? (
+                <span className="flex items-center gap-1 text-sm text-green-700">
+                  <ShieldCheck className="h-4 w-4" />
+                  {t('admin.audit.chainValid', 'All {{count}} entries verified', { count: chainStatus.checked })}
+                </span>
+              ) : (
+                <span className="flex items-center gap-1 text-sm text-red-700">
+                  <ShieldAlert className="h-4 w-4" />
+                  {t('admin.audit.chainBroken', 'Tampering detected at entry #{{seq}}', { seq: chainStatus.brokenAt })}
+                  {chainStatus.reason && ` (${chainStatus.reason})`}
+                </span>
+              )
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-tourtastic-blue" />
+            </div>
+          ) : entries.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">{t('admin.audit.empty', 'No audit entries')}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>{t('admin.audit.date', 'Date')}</TableHead>
+                  <TableHead>{t('admin.audit.actor', 'Staff member')}</TableHead>
+                  <TableHead>{t('admin.audit.action', 'Action')}</TableHead>
+                  <TableHead>{t('admin.audit.target', 'Target')}</TableHead>
+                  <TableHead>{t('admin.audit.changes', 'Changes')}</TableHead>
+                  <TableHead>IP</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry._id} className="cursor-pointer" onClick={() => setSelected(entry)}>
+                    <TableCell className="text-gray-500">{entry.seq}</TableCell>
+                    <TableCell className="whitespace-nowrap">{formatDateTime(entry.at)}</TableCell>
+                    <TableCell>
+                      <div>{entry.actor?.name || '-'}</div>
+                      <div className="text-xs text-gray-500">
+                        {entry.actor?.email}
+                        {entry.actor?.role && ` · ${t(`roles.${entry.actor.role}`, entry.actor.role)}`}
+                      </div>
+                    </TableCell>
+                    <TableCell className="font-mono text-sm">{t(`admin.audit.actions.${entry.action}`, entry.action)}</TableCell>
+                    <TableCell className="text-sm">
+                      {entry.target.type}
+                      {entry.target.id && <span className="font-mono text-xs text-gray-500"> {entry.target.id}</span>}
+                    </TableCell>
+                    <TableCell className="max-w-sm truncate text-sm" title={entry.changes.map(c => c.path).join(', ')}>
+                      {entry.changes.length === 0
+                        ? '-'
+                        : entry.changes.slice(0, 3).map(c => c.path).join(', ') + (entry.changes.length > 3 ? ` +${entry.changes.length - 3}` : '')}
+                    </TableCell>
+                    <TableCell className="font-mono text-xs">{entry.ip || '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {pages > 1 && (
+        <div className="flex justify-center items-center gap-4">
+          <Button variant="outline" disabled={page <= 1} onClick={() => setPage(p => p - 1)}>
+            {t('admin.bookings.previous', 'Previous')}
+          </Button>
+          <span className="text-sm">{page} / {pages} ({total})</span>
+          <Button variant="outline" disabled={page >= pages} onClick={() => setPage(p => p + 1)}>
+            {t('admin.bookings.next', 'Next')}
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => { if (!open) setSelected(null); }}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selected && t(`admin.audit.actions.${selected.action}`, selected.action)}</DialogTitle>
+            <DialogDescription>
+              {selected?.target.type} {selected?.target.id} · {formatDateTime(selected?.at)}
+            </DialogDescription>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-3 text-sm">
+              <div>{t('admin.audit.actor', 'Staff member')}: {selected.actor?.name || '-'} {selected.actor?.email && `(${selected.actor.email})`}</div>
+              <div>IP: {selected.ip || '-'}</div>
+              {selected.userAgent && <div className="text-xs text-gray-500 break-all">{selected.userAgent}</div>}
+              {selected.changes.length === 0 ? (
+                <p className="text-gray-500">{t('admin.audit.noChanges', 'No field changes recorded')}</p>
+              ) : (
+                <div className="max-h-[50vh] overflow-auto border rounded">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>{t('admin.audit.field', 'Field')}</TableHead>
+                        <TableHead>{t('admin.audit.before', 'Before')}</TableHead>
+                        <TableHead>{t('admin.audit.after', 'After')}</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {selected.changes.map(change => (
+                        <TableRow key={change.path}>
+                          <TableCell className="font-mono text-xs">{change.path}</TableCell>
+                          <TableCell className="text-xs text-red-700 break-all" dir="ltr">{formatValue(change.before)}</TableCell>
+                          <TableCell className="text-xs text-green-700 break-all" dir="ltr">{formatValue(change.after)}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+              <div className="font-mono text-xs text-gray-400 break-all">{selected.hash}</div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AuditLog;
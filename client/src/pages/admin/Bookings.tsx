@@ -1,4 +1,5 @@
 import React, { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import {
   Table,
   TableBody,
@@ -10,7 +11,6 @@ import {
 import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
-// removed Select imports because we no longer filter by type/status here
 import { 
   EyeIcon, 
   Pencil, 
@@ -20,9 +20,11 @@ import {
   ChevronRight, 
 } from 'lucide-react';
 import api from '@/config/api';
-import { formatSypFromUsd } from '@/utils/currency';
+import { useCurrency } from '@/hooks/useCurrency';
 import { toastSuccess, toastError, confirmDialog } from '@/utils/i18nToast';
 import { useTranslation } from 'react-i18next';
+import SupplierPanel from '@/components/admin/SupplierPanel';
+import { useAuth } from '@/hooks/useAuth';
 import {
   Dialog,
   DialogContent,
@@ -103,7 +105,15 @@ interface BookingType {
   selectedFlight?: SelectedFlight;
   flightDetails?: FlightDetails;
   amount?: number | null;
-  status: 'pending' | 'confirmed' | 'cancelled' | string;
+  status: 'pending' | 'confirmed' | 'issued' | 'done' | 'cancelled' | string;
+  paymentStatus?: string;
+  seeruStatus?: string;
+  // Next legal states, computed by the server's booking state machine
+  allowedTransitions?: {
+    status: string[];
+    paymentStatus: string[];
+    seeruStatus: string[];
+  };
   ticketInfo?: Record<string, unknown>;
   ticketDetails?: {
     ticketNumber?: string;
@@ -116,8 +126,9 @@ interface BookingType {
     currency?: string;
     method?: string;
     status?: string;
+    discount?: { code?: string; amountUsd?: number; redeemedAt?: string | null };
   };
-  adminData?: { assignedTo?: string; notes?: string; cost?: { amount?: number; currency?: string } };
+  adminData?: { assignedTo?: string; notes?: string; cost?: { amount?: number; currency?: string }; profit?: number };
   createdAt?: string | Date;
   // raw document from server (mapFlightBookingForClient attaches this)
   _raw?: unknown;
@@ -167,19 +178,49 @@ const convertStoragePath = (path: string): string => {
 
 // Mock bookings removed — bookings will be loaded from the API at runtime
 
+// Query parameters understood by GET /admin/flight-bookings
+type BookingFilterKey =
+  | 'search' | 'status' | 'paymentStatus' | 'seeruStatus'
+  | 'createdFrom' | 'createdTo' | 'departureFrom' | 'departureTo'
+  | 'from' | 'to' | 'airline' | 'sort' | 'order';
+
+// Typed filters are debounced before they reach the URL
+const TEXT_FILTER_KEYS = ['search', 'from', 'to', 'airline'] as const;
+type TextFilterKey = typeof TEXT_FILTER_KEYS[number];
+
+const readTextFilters = (params: URLSearchParams) => (
+  Object.fromEntries(TEXT_FILTER_KEYS.map(key => [key, params.get(key) || ''])) as Record<TextFilterKey, string>
+);
+
+const BOOKING_STATUS_OPTIONS = ['pending', 'confirmed', 'issued', 'done', 'cancelled'];
+const PAYMENT_STATUS_OPTIONS = ['pending', 'failed', 'completed', 'refund_pending', 'refunded'];
+const SUPPLIER_STATUS_OPTIONS = [
+  'pending', 'initiated', 'validated', 'new', 'saved', 'saved_not_issued',
+  'confirmed', 'issued', 'failed', 'expired', 'cancelled',
+];
+const filterSelectClassName = 'px-3 py-2 border border-gray-300 rounded-md';
+
 const AdminBookings: React.FC = () => {
   const { t } = useTranslation();
+  const { formatPrice } = useCurrency();
+  const { hasPermission } = useAuth();
+  const canManageBookings = hasPermission('bookings:manage');
+  const canDeleteBookings = hasPermission('bookings:delete');
+  const canManageSupplier = hasPermission('supplier:manage');
   const [bookings, setBookings] = useState<BookingType[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [selectedBooking, setSelectedBooking] = useState<BookingType | null>(null);
   const [viewOpen, setViewOpen] = useState(false);
-  const [searchTerm, setSearchTerm] = useState('');
-  // Pagination
-  const PAGE_SIZE = 5;
-  const [pendingPage, setPendingPage] = useState(0);
-  const [confirmedPage, setConfirmedPage] = useState(0);
-  const [donePage, setDonePage] = useState(0);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // Cursors of the pages visited before the current one, for "Previous"; a shared link starts without them
+  const [previousCursors, setPreviousCursors] = useState<string[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [total, setTotal] = useState(0);
+  // Rows before the current page, reported by the server so row numbers hold for any cursor
+  const [pageStart, setPageStart] = useState(0);
+  const [textInputs, setTextInputs] = useState<Record<TextFilterKey, string>>(() => readTextFilters(searchParams));
+  const PAGE_SIZE = 25;
   // Upload e-ticket dialog state
   const [uploadOpen, setUploadOpen] = useState(false);
   const [uploadBooking, setUploadBooking] = useState<BookingType | null>(null);
@@ -189,90 +230,120 @@ const AdminBookings: React.FC = () => {
   const [uploadAdminNote, setUploadAdminNote] = useState('');
   const [uploadLoading, setUploadLoading] = useState(false);
 
-  // Apply search filter to bookings, we'll split by status below
-  const searchedBookings = bookings.filter((booking) => {
-    const q = searchTerm.trim().toLowerCase();
-    if (!q) return true;
-    return (
-  (booking.customerName || '').toLowerCase().includes(q) ||
-  (booking.customerEmail || '').toLowerCase().includes(q) ||
-  (booking.destination || '').toLowerCase().includes(q) ||
-  String(booking.bookingId || booking.id || booking._id || '').toLowerCase().includes(q)
-    );
-  });
+  const filterValue = (key: BookingFilterKey) => searchParams.get(key) || '';
+
+  // Filters live in the URL so a filtered view can be shared; changing one restarts paging
+  const setFilter = (key: BookingFilterKey, value: string) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (value) next.set(key, value);
+      else next.delete(key);
+      next.delete('cursor');
+      return next;
+    }, { replace: true });
+  };
 
-  // Split bookings by status
-  const pendingBookings = searchedBookings.filter(b => b.status === 'pending');
-  const confirmedBookings = searchedBookings.filter(b => b.status === 'confirmed');
-  // Treat previously "done" reservations as Done for the new UI label.
-  const doneBookings = searchedBookings.filter(b => b.status === 'done');
+  const clearFilters = () => {
+    setTextInputs(readTextFilters(new URLSearchParams()));
+    setSearchParams(new URLSearchParams(), { replace: true });
+  };
 
-  // Reset pages when search term changes (or when the searched list changes)
+  // The visited pages belong to one set of filters
+  const filterParams = new URLSearchParams(searchParams);
+  filterParams.delete('cursor');
+  const filterString = filterParams.toString();
   useEffect(() => {
-    setPendingPage(0);
-    setConfirmedPage(0);
-    setDonePage(0);
-  }, [searchTerm]);
+    setPreviousCursors([]);
+  }, [filterString]);
+
+  const goToCursor = (cursor: string | null) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      if (cursor) next.set('cursor', cursor);
+      else next.delete('cursor');
+      return next;
+    });
+  };
 
-  // Fetch bookings from admin API
+  const handleNextPage = () => {
+    if (!nextCursor) return;
+    setPreviousCursors(prev => [...prev, searchParams.get('cursor') || '']);
+    goToCursor(nextCursor);
+  };
+
+  const handlePreviousPage = () => {
+    const stack = [...previousCursors];
+    const previous = stack.pop();
+    setPreviousCursors(stack);
+    goToCursor(previous || null);
+  };
+
+  const handleFirstPage = () => {
+    setPreviousCursors([]);
+    goToCursor(null);
+  };
+
+  const setTextInput = (key: TextFilterKey, value: string) => {
+    setTextInputs(prev => ({ ...prev, [key]: value }));
+  };
+
+  // Debounce typed filters into the URL
+  useEffect(() => {
+    const changed = TEXT_FILTER_KEYS.filter(key => textInputs[key].trim() !== (searchParams.get(key) || ''));
+    if (changed.length === 0) return;
+    const timer = setTimeout(() => {
+      setSearchParams(prev => {
+        const next = new URLSearchParams(prev);
+        changed.forEach(key => {
+          const value = textInputs[key].trim();
+          if (value) next.set(key, value);
+          else next.delete(key);
+        });
+        next.delete('cursor');
+        return next;
+      }, { replace: true });
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [textInputs, searchParams, setSearchParams]);
+
+  // Fetch the current page from the admin API
+  const queryString = searchParams.toString();
   useEffect(() => {
     let mounted = true;
     const fetchBookings = async () => {
       setLoading(true);
       setError(null);
       try {
-        // Try admin-only endpoint first (requires auth). If it fails with 401/403 or network error,
-        // attempt a development public fallback endpoint so the page can still display data locally.
-        let resp;
-        try {
-          resp = await api.get('/admin/flight-bookings');
-        } catch (e) {
-          // If admin call failed due to auth or network, attempt public endpoint (dev-only)
-          console.warn('Admin bookings fetch failed, attempting public fallback', e);
-          try {
-            resp = await api.get('/admin/flight-bookings/public');
-          } catch (e2) {
-            // rethrow original error for outer catch to handle
-            throw e2 || e;
-          }
-        }
+        const params: Record<string, string | number> = { limit: PAGE_SIZE };
+        new URLSearchParams(queryString).forEach((value, key) => {
+          if (value) params[key] = value;
+        });
+        const resp = await api.get('/admin/flight-bookings', { params });
 
         if (mounted) {
-          if (resp?.data?.success) {
-            setBookings(resp.data.data || []);
-          } else if (Array.isArray(resp?.data)) {
-            setBookings(resp.data || []);
-          } else {
-            // Some server responses may wrap payload differently; try to extract data
-            setBookings(resp?.data?.data || resp?.data || []);
+          if (!resp?.data?.success) {
+            throw new Error(resp?.data?.message || 'Failed to load bookings');
           }
+          setBookings(resp.data.data || []);
+          setTotal(resp.data.total ?? 0);
+          setPageStart(resp.data.offset ?? 0);
+          setNextCursor(resp.data.nextCursor || null);
         }
       } catch (err: unknown) {
         console.error('Failed to load admin bookings', err);
-        const message = getErrorMessage(err);
-        setError(message);
-        // keep mock data as a fallback for local dev
-  setBookings([]);
+        if (mounted) {
+          setError(getErrorMessage(err));
+          setBookings([]);
+          setNextCursor(null);
+        }
       } finally {
         if (mounted) setLoading(false);
       }
     };
     fetchBookings();
     return () => { mounted = false; };
-  }, []);
-
-  // Paginated slices
-  const pendingTotal = pendingBookings.length;
-  const pendingPageCount = Math.max(1, Math.ceil(pendingTotal / PAGE_SIZE));
-  const pendingPaged = pendingBookings.slice(pendingPage * PAGE_SIZE, (pendingPage + 1) * PAGE_SIZE);
-
-  const confirmedTotal = confirmedBookings.length;
-  const confirmedPageCount = Math.max(1, Math.ceil(confirmedTotal / PAGE_SIZE));
-  const confirmedPaged = confirmedBookings.slice(confirmedPage * PAGE_SIZE, (confirmedPage + 1) * PAGE_SIZE);
+  }, [queryString]);
 
-  const doneTotal = doneBookings.length;
-  const donePageCount = Math.max(1, Math.ceil(doneTotal / PAGE_SIZE));
-  const donePaged = doneBookings.slice(donePage * PAGE_SIZE, (donePage + 1) * PAGE_SIZE);
   
   // Get status badge component
   const getStatusBadge = (status: string) => {
@@ -288,17 +359,19 @@ const AdminBookings: React.FC = () => {
       case 'done':
         badgeClass = 'bg-blue-100 text-blue-800';
         break;
+      case 'issued':
+        badgeClass = 'bg-indigo-100 text-indigo-800';
+        break;
+      case 'cancelled':
+        badgeClass = 'bg-red-100 text-red-800';
+        break;
       default:
         badgeClass = 'bg-gray-100 text-gray-800';
     }
 
-    const displayText = (status === 'done')
-      ? t('statu.done')
-      : status === 'confirmed'
-        ? t('statu.confirmed')
-        : status === 'pending'
-          ? t('statu.pending')
-          : status;
+    const displayText = ['done', 'confirmed', 'pending', 'issued', 'cancelled'].includes(status)
+      ? t(`statu.${status}`)
+      : status;
 
     return (
       <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${badgeClass}`}>
@@ -320,15 +393,16 @@ const AdminBookings: React.FC = () => {
     }
   };
 
-  // Compute display amount (price) for a booking: prefer explicit amount, then paymentDetails, adminData.cost, then selectedFlight price
+  // Compute display amount (price) for a booking: prefer explicit amount, then paymentDetails, then selectedFlight price.
+  // adminData.cost is the supplier cost, so it is only a last resort
   const getAmount = (b: BookingType) => {
     if (!b) return null;
     if (typeof b.amount === 'number') return b.amount;
     if (b.paymentDetails && typeof b.paymentDetails.amount === 'number') return b.paymentDetails.amount;
-    if (b.adminData?.cost && typeof b.adminData.cost.amount === 'number') return b.adminData.cost.amount;
     const det = b.details as BookingDetails | undefined;
     if (det?.selectedFlight?.price && typeof det.selectedFlight.price.total === 'number') return det.selectedFlight.price.total;
     if (det?.flightDetails?.selectedFlight?.price && typeof det.flightDetails.selectedFlight.price.total === 'number') return det.flightDetails.selectedFlight.price.total;
+    if (b.adminData?.cost && typeof b.adminData.cost.amount === 'number') return b.adminData.cost.amount;
     return null;
   };
 
@@ -627,20 +701,32 @@ const AdminBookings: React.FC = () => {
     }
   };
 
-  const handleUpdateStatus = async (id: string, status: 'pending' | 'confirmed' | 'cancelled') => {
-    if (!['pending','confirmed','cancelled'].includes(status)) {
-      toastError('حالة غير صحيحة', 'Invalid status');
-      return;
+  // Reload one booking after a supplier action changed it
+  const refreshBooking = async (id: string) => {
+    try {
+      const resp = await api.get(`/admin/flight-bookings/${id}`);
+      if (!resp?.data?.success) return;
+      setBookings(prev => prev.map(b => ((b._id === id || b.bookingId === id || b.id === id) ? resp.data.data : b)));
+      setSelectedBooking(prev => (prev && (prev.bookingId === id || prev.id === id) ? resp.data.data : prev));
+    } catch (err: unknown) {
+      console.error('Failed to reload booking', err);
     }
+  };
+
+  const handleUpdateStatus = async (id: string, status: string) => {
+    // The server rejects anything outside the booking state machine
     try {
-  const resp = await api.put(`/admin/flight-bookings/${id}`, { status });
+      const resp = await api.put(`/admin/flight-bookings/${id}`, { status });
       if (resp?.data?.success) {
         toastSuccess('تم تحديث الحالة', 'Status updated');
         setBookings(prev => prev.map(b => ((b._id === id || b.bookingId === id || b.id === id) ? resp.data.data : b)));
+        setSelectedBooking(prev => (prev && (prev.bookingId === id || prev.id === id) ? resp.data.data : prev));
+      } else {
+        toastError('لا يمكن تغيير الحالة', resp?.data?.message || 'Status change not allowed');
       }
     } catch (err: unknown) {
       console.error('Update status error', err);
-      toastError('فشل العملية', 'Operation failed');
+      toastError('فشل العملية', getErrorMessage(err) || 'Operation failed');
     }
   };
   
@@ -652,103 +738,94 @@ const AdminBookings: React.FC = () => {
       
       {/* Filters */}
       <Card>
-        <CardContent className="p-6">
+        <CardContent className="p-6 space-y-4">
           <div className="flex flex-wrap items-center gap-4">
             <div className="flex-1 min-w-[240px]">
               <Input
                 placeholder={t('admin.bookings.searchPlaceholder')}
-                value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                value={textInputs.search}
+                onChange={(e) => setTextInput('search', e.target.value)}
                 className="w-full"
               />
             </div>
-
-            {/* Filters removed - keeping only search input as requested */}
-          </div>
-        </CardContent>
-      </Card>
-      {/* Pending Bookings */}
-      <Card>
-        <CardContent className="p-0">
-          <div className="p-4 border-b">
-            <h2 className="text-lg font-semibold">{t('admin.bookings.pendingReservations')}</h2>
+            <select value={filterValue('status')} onChange={(e) => setFilter('status', e.target.value)} className={filterSelectClassName}>
+              <option value="">{t('admin.bookings.anyStatus', 'Any status')}</option>
+              {BOOKING_STATUS_OPTIONS.map(status => (
+                <option key={status} value={status}>{t(`statu.${status}`, status)}</option>
+              ))}
+            </select>
+            <select value={filterValue('paymentStatus')} onChange={(e) => setFilter('paymentStatus', e.target.value)} className={filterSelectClassName}>
+              <option value="">{t('admin.bookings.anyPaymentStatus', 'Any payment status')}</option>
+              {PAYMENT_STATUS_OPTIONS.map(status => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
+            <select value={filterValue('seeruStatus')} onChange={(e) => setFilter('seeruStatus', e.target.value)} className={filterSelectClassName}>
+              <option value="">{t('admin.bookings.anySupplierStatus', 'Any supplier status')}</option>
+              {SUPPLIER_STATUS_OPTIONS.map(status => (
+                <option key={status} value={status}>{status}</option>
+              ))}
+            </select>
           </div>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>{t('bookingId')}</TableHead>
-                <TableHead>{t('admin.bookings.customer')}</TableHead>
-                <TableHead>{t('destination')}</TableHead>
-                <TableHead>{t('date')}</TableHead>
-                <TableHead>{t('status')}</TableHead>
-                <TableHead>{t('amount')}</TableHead>
-                <TableHead className="w-[100px]">{t('actions')}</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {pendingPaged.length > 0 ? (
-                pendingPaged.map((booking, idx) => (
-                  <TableRow key={getBookingId(booking) || booking._id || `${booking.customerEmail || 'booking'}-${idx}`}>
-                    <TableCell className="font-medium">{getBookingId(booking)}</TableCell>
-                    <TableCell>
-                      <div>
-                        <div className="font-medium">{booking.customerName || '-'}</div>
-                        <div className="text-xs text-gray-500">{booking.customerEmail || ''}</div>
-                      </div>
-                    </TableCell>
-                    <TableCell>{booking.destination}</TableCell>
-                    <TableCell>{formatDate(booking)}</TableCell>
-                    <TableCell>{getStatusBadge(booking.status)}</TableCell>
-                    <TableCell>{(getTicketPrice(booking) != null) ? formatSypFromUsd(getTicketPrice(booking) as number) : (getAmount(booking) != null ? formatSypFromUsd(getAmount(booking) as number) : '-')}</TableCell>
-                    <TableCell>
-                      <div className="flex space-x-2">
-                        <Button variant="ghost" size="icon" onClick={() => handleView(booking)}>
-                          <EyeIcon className="h-4 w-4" />
-                        </Button>
-                        <Button variant="ghost" onClick={() => handleDelete(getBookingId(booking))} size="sm">{t('delete')}</Button>
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ))
-              ) : (
-                <TableRow>
-                  <TableCell colSpan={7} className="text-center py-8">
-                    <div className="text-gray-500">{t('admin.bookings.noPending')}</div>
-                  </TableCell>
-                </TableRow>
-              )}
-            </TableBody>
-          </Table>
-
-          <div className="flex items-center justify-between p-4 border-t">
-            <div className="text-sm text-gray-500">
-              {t('admin.bookings.showingRange', {
-                from: pendingPage * PAGE_SIZE + (pendingPaged.length ? 1 : 0),
-                to: pendingPage * PAGE_SIZE + pendingPaged.length,
-                total: pendingTotal,
-                segment: t('admin.bookings.pendingReservationsLower')
-              })}
-            </div>
-            <div className="flex space-x-2">
-              <Button variant="outline" size="sm" onClick={() => setPendingPage(p => Math.max(0, p - 1))} disabled={pendingPage <= 0}>
-                <ChevronLeft className="h-4 w-4 mr-1" />
-                {t('admin.bookings.previous')}
-              </Button>
-              <Button variant="outline" size="sm" onClick={() => setPendingPage(p => Math.min(p + 1, pendingPageCount - 1))} disabled={pendingPage >= pendingPageCount - 1}>
-                {t('admin.bookings.next')}
-                <ChevronRight className="h-4 w-4 ml-1" />
-              </Button>
-            </div>
+          <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-8 gap-3 items-end">
+            <Input placeholder={t('from', 'From')} value={textInputs.from} onChange={(e) => setTextInput('from', e.target.value)} />
+            <Input placeholder={t('to', 'To')} value={textInputs.to} onChange={(e) => setTextInput('to', e.target.value)} />
+            <Input placeholder={t('admin.bookings.airline', 'Airline')} value={textInputs.airline} onChange={(e) => setTextInput('airline', e.target.value)} />
+            <label className="text-xs text-gray-500">
+              {t('admin.bookings.bookedFrom', 'Booked from')}
+              <Input type="date" value={filterValue('createdFrom')} onChange={(e) => setFilter('createdFrom', e.target.value)} />
+            </label>
+            <label className="text-xs text-gray-500">
+              {t('admin.bookings.bookedTo', 'Booked to')}
+              <Input type="date" value={filterValue('createdTo')} onChange={(e) => setFilter('createdTo', e.target.value)} />
+            </label>
+            <label className="text-xs text-gray-500">
+              {t('admin.bookings.departsFrom', 'Departs from')}
+              <Input type="date" value={filterValue('departureFrom')} onChange={(e) => setFilter('departureFrom', e.target.value)} />
+            </label>
+            <label className="text-xs text-gray-500">
+              {t('admin.bookings.departsTo', 'Departs to')}
+              <Input type="date" value={filterValue('departureTo')} onChange={(e) => setFilter('departureTo', e.target.value)} />
+            </label>
+            <select
+              value={`${filterValue('sort') || 'createdAt'}:${filterValue('order') || 'desc'}`}
+              onChange={(e) => {
+                const [sort, order] = e.target.value.split(':');
+                setSearchParams(prev => {
+                  const next = new URLSearchParams(prev);
+                  next.set('sort', sort);
+                  next.set('order', order);
+                  next.delete('cursor');
+                  return next;
+                }, { replace: true });
+                setPreviousCursors([]);
+              }}
+              className={filterSelectClassName}
+            >
+              <option value="createdAt:desc">{t('admin.bookings.sortNewest', 'Newest first')}</option>
+              <option value="createdAt:asc">{t('admin.bookings.sortOldest', 'Oldest first')}</option>
+              <option value="departureDate:asc">{t('admin.bookings.sortDepartureSoonest', 'Departure (soonest)')}</option>
+              <option value="departureDate:desc">{t('admin.bookings.sortDepartureLatest', 'Departure (latest)')}</option>
+              <option value="amount:desc">{t('admin.bookings.sortAmountHigh', 'Amount (high to low)')}</option>
+              <option value="amount:asc">{t('admin.bookings.sortAmountLow', 'Amount (low to high)')}</option>
+            </select>
           </div>
+          {queryString && (
+            <Button variant="ghost" size="sm" onClick={clearFilters}>
+              <X className="h-4 w-4 mr-1" />
+              {t('admin.bookings.clearFilters', 'Clear filters')}
+            </Button>
+          )}
         </CardContent>
       </Card>
-
-      {/* Confirmed Bookings */}
+      {/* Bookings */}
       <Card>
         <CardContent className="p-0">
-          <div className="p-4 border-b">
-            <h2 className="text-lg font-semibold">{t('admin.bookings.confirmedReservations')}</h2>
+          <div className="p-4 border-b flex items-center justify-between">
+            <h2 className="text-lg font-semibold">{t('admin.bookings.reservations', 'Reservations')}</h2>
+            {loading && <span className="text-sm text-gray-500">{t('loading')}</span>}
           </div>
+          {error && <div className="p-4 text-sm text-red-600">{error}</div>}
           <Table>
             <TableHeader>
               <TableRow>
@@ -762,8 +839,8 @@ const AdminBookings: React.FC = () => {
               </TableRow>
             </TableHeader>
             <TableBody>
-              {confirmedPaged.length > 0 ? (
-                confirmedPaged.map((booking, idx) => (
+              {bookings.length > 0 ? (
+                bookings.map((booking, idx) => (
                   <TableRow key={getBookingId(booking) || booking._id || `${booking.customerEmail || 'booking'}-${idx}`}>
                     <TableCell className="font-medium">{getBookingId(booking)}</TableCell>
                     <TableCell>
@@ -775,15 +852,23 @@ const AdminBookings: React.FC = () => {
                     <TableCell>{booking.destination}</TableCell>
                     <TableCell>{formatDate(booking)}</TableCell>
                     <TableCell>{getStatusBadge(booking.status)}</TableCell>
-                    <TableCell>{(getTicketPrice(booking) != null) ? formatSypFromUsd(getTicketPrice(booking) as number) : (getAmount(booking) != null ? formatSypFromUsd(getAmount(booking) as number) : '-')}</TableCell>
+                    <TableCell>{(getTicketPrice(booking) != null) ? formatPrice(getTicketPrice(booking) as number) : (getAmount(booking) != null ? formatPrice(getAmount(booking) as number) : '-')}</TableCell>
                     <TableCell>
                       <div className="flex space-x-2">
                         <Button variant="ghost" size="icon" onClick={() => handleView(booking)}>
                           <EyeIcon className="h-4 w-4" />
                         </Button>
-                        <Button variant="ghost" size="icon" onClick={() => openUpload(booking)} title={t('admin.bookings.uploadAndComplete')}>
-                          <Check className="h-4 w-4" />
-                        </Button>
+                        {booking.status === 'confirmed' ? (
+                          canManageBookings && (
+                            <Button variant="ghost" size="icon" onClick={() => openUpload(booking)} title={t('admin.bookings.uploadAndComplete')}>
+                              <Check className="h-4 w-4" />
+                            </Button>
+                          )
+                        ) : (
+                          canDeleteBookings && (
+                            <Button variant="ghost" onClick={() => handleDelete(getBookingId(booking))} size="sm">{t('delete')}</Button>
+                          )
+                        )}
                       </div>
                     </TableCell>
                   </TableRow>
@@ -791,7 +876,7 @@ const AdminBookings: React.FC = () => {
               ) : (
                 <TableRow>
                   <TableCell colSpan={7} className="text-center py-8">
-                    <div className="text-gray-500">{t('admin.bookings.noConfirmed')}</div>
+                    <div className="text-gray-500">{loading ? t('loading') : t('admin.bookings.noMatches', 'No bookings match these filters')}</div>
                   </TableCell>
                 </TableRow>
               )}
@@ -801,94 +886,23 @@ const AdminBookings: React.FC = () => {
           <div className="flex items-center justify-between p-4 border-t">
             <div className="text-sm text-gray-500">
               {t('admin.bookings.showingRange', {
-                from: confirmedPage * PAGE_SIZE + (confirmedPaged.length ? 1 : 0),
-                to: confirmedPage * PAGE_SIZE + confirmedPaged.length,
-                total: confirmedTotal,
-                segment: t('admin.bookings.confirmedReservationsLower')
+                from: pageStart + (bookings.length ? 1 : 0),
+                to: pageStart + bookings.length,
+                total,
+                segment: t('admin.bookings.reservationsLower', 'reservations')
               })}
             </div>
             <div className="flex space-x-2">
-              <Button variant="outline" size="sm" onClick={() => setConfirmedPage(p => Math.max(0, p - 1))} disabled={confirmedPage <= 0}>
-                <ChevronLeft className="h-4 w-4 mr-1" />
-                {t('admin.bookings.previous')}
-              </Button>
-              <Button variant="outline" size="sm" onClick={() => setConfirmedPage(p => Math.min(p + 1, confirmedPageCount - 1))} disabled={confirmedPage >= confirmedPageCount - 1}>
-                {t('admin.bookings.next')}
-                <ChevronRight className="h-4 w-4 ml-1" />
-              </Button>
-            </div>
-          </div>
-        </CardContent>
-      </Card>
-
-      {/* Cancelled Bookings */}
-      <Card>
-        <CardContent className="p-0">
-          <div className="p-4 border-b">
-            <h2 className="text-lg font-semibold">{t('admin.bookings.doneReservations')}</h2>
-          </div>
-          <Table>
-            <TableHeader>
-              <TableRow>
-                <TableHead>{t('bookingId')}</TableHead>
-                <TableHead>{t('admin.bookings.customer')}</TableHead>
-                <TableHead>{t('destination')}</TableHead>
-                <TableHead>{t('date')}</TableHead>
-                <TableHead>{t('status')}</TableHead>
-                <TableHead>{t('amount')}</TableHead>
-                <TableHead className="w-[100px]">{t('actions')}</TableHead>
-              </TableRow>
-            </TableHeader>
-            <TableBody>
-              {donePaged.length > 0 ? (
-                donePaged.map((booking, idx) => (
-                <TableRow key={getBookingId(booking) || booking._id || `${booking.customerEmail || 'booking'}-${idx}`}>
-                    <TableCell className="font-medium">{getBookingId(booking)}</TableCell>
-                    <TableCell>
-                      <div>
-                        <div className="font-medium">{booking.customerName || '-'}</div>
-                        <div className="text-xs text-gray-500">{booking.customerEmail || ''}</div>
-                      </div>
-                    </TableCell>
-                    <TableCell>{booking.destination}</TableCell>
-                    <TableCell>{formatDate(booking)}</TableCell>
-                    <TableCell>{getStatusBadge(booking.status)}</TableCell>
-                    <TableCell>{(getTicketPrice(booking) != null) ? formatSypFromUsd(getTicketPrice(booking) as number) : (getAmount(booking) != null ? formatSypFromUsd(getAmount(booking) as number) : '-')}</TableCell>
-                    <TableCell>
-                      <div className="flex space-x-2">
-                        <Button variant="ghost" size="icon" onClick={() => handleView(booking)}>
-                          <EyeIcon className="h-4 w-4" />
-                        </Button>
-                        <Button variant="ghost" onClick={() => handleDelete(getBookingId(booking))} size="sm">{t('delete')}</Button>
-                      </div>
-                    </TableCell>
-                  </TableRow>
-                ))
-              ) : (
-                <TableRow>
-                  <TableCell colSpan={7} className="text-center py-8">
-                    <div className="text-gray-500">{t('admin.bookings.noDone')}</div>
-                  </TableCell>
-                </TableRow>
+              {searchParams.get('cursor') && previousCursors.length > 0 && (
+                <Button variant="outline" size="sm" onClick={handleFirstPage} disabled={loading}>
+                  {t('admin.bookings.firstPage', 'First page')}
+                </Button>
               )}
-            </TableBody>
-          </Table>
-
-          <div className="flex items-center justify-between p-4 border-t">
-            <div className="text-sm text-gray-500">
-              {t('admin.bookings.showingRange', {
-                from: donePage * PAGE_SIZE + (donePaged.length ? 1 : 0),
-                to: donePage * PAGE_SIZE + donePaged.length,
-                total: doneTotal,
-                segment: t('admin.bookings.doneReservationsLower')
-              })}
-            </div>
-            <div className="flex space-x-2">
-              <Button variant="outline" size="sm" onClick={() => setDonePage(p => Math.max(0, p - 1))} disabled={donePage <= 0}>
+              <Button variant="outline" size="sm" onClick={handlePreviousPage} disabled={loading || !searchParams.get('cursor')}>
                 <ChevronLeft className="h-4 w-4 mr-1" />
                 {t('admin.bookings.previous')}
               </Button>
-              <Button variant="outline" size="sm" onClick={() => setDonePage(p => Math.min(p + 1, donePageCount - 1))} disabled={donePage >= donePageCount - 1}>
+              <Button variant="outline" size="sm" onClick={handleNextPage} disabled={loading || !nextCursor}>
                 {t('admin.bookings.next')}
                 <ChevronRight className="h-4 w-4 ml-1" />
               </Button>
@@ -912,7 +926,22 @@ const AdminBookings: React.FC = () => {
                     <div className="text-sm break-words">{selectedBooking.customerName} &lt;{selectedBooking.customerEmail}&gt;</div>
                     {selectedBooking.customerPhone && <div className="text-sm">{t('phone')}: {selectedBooking.customerPhone}</div>}
                     <div className="mt-2 text-sm">{t('status')}: {getStatusBadge(selectedBooking.status)}</div>
-                    <div className="mt-2 text-sm">{t('amount')}: {(getTicketPrice(selectedBooking) != null) ? formatSypFromUsd(getTicketPrice(selectedBooking) as number) : (getAmount(selectedBooking) != null ? formatSypFromUsd(getAmount(selectedBooking) as number) : '-')}</div>
+                    {canManageBookings && (selectedBooking.allowedTransitions?.status?.length ?? 0) > 0 && (
+                      <div className="mt-2 flex flex-wrap items-center gap-2">
+                        <span className="text-xs text-muted-foreground">{t('admin.bookings.changeStatus', 'Move to')}:</span>
+                        {selectedBooking.allowedTransitions!.status.map(next => (
+                          <Button
+                            key={next}
+                            size="sm"
+                            variant={next === 'cancelled' ? 'destructive' : 'outline'}
+                            onClick={() => handleUpdateStatus(selectedBooking.bookingId || selectedBooking.id || selectedBooking._id || '', next)}
+                          >
+                            {t(`statu.${next}`, next)}
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                    <div className="mt-2 text-sm">{t('amount')}: {(getTicketPrice(selectedBooking) != null) ? formatPrice(getTicketPrice(selectedBooking) as number) : (getAmount(selectedBooking) != null ? formatPrice(getAmount(selectedBooking) as number) : '-')}</div>
                   </div>
 
                   <div className="col-span-1">
@@ -948,7 +977,7 @@ const AdminBookings: React.FC = () => {
                         <br />
                         {t('class')}: {selectedDetails.selectedFlight.class || '-'}
                         <br />
-                        {t('price')}: {selectedDetails.selectedFlight.price && typeof selectedDetails.selectedFlight.price.total === 'number' ? formatSypFromUsd(selectedDetails.selectedFlight.price.total) : '-'}
+                        {t('price')}: {selectedDetails.selectedFlight.price && typeof selectedDetails.selectedFlight.price.total === 'number' ? formatPrice(selectedDetails.selectedFlight.price.total) : '-'}
                         <br />
                         {(() => { const bag = getBaggageInfo(selectedDetails.selectedFlight); return bag ? <div>{t('baggage')}: <span className="text-sm text-gray-600">{bag}</span></div> : null; })()}
                       </div>
@@ -1049,8 +1078,14 @@ const AdminBookings: React.FC = () => {
                   </div>
                   <div>
                     <h4 className="font-medium">{t('paymentDetails')}</h4>
-                    <div className="text-sm">{t('amount')}: {(typeof selectedBooking.paymentDetails?.amount === 'number') ? formatSypFromUsd(selectedBooking.paymentDetails!.amount!) : (getAmount(selectedBooking) != null ? formatSypFromUsd(getAmount(selectedBooking) as number) : formatSypFromUsd(0))}</div>
+                    <div className="text-sm">{t('amount')}: {(typeof selectedBooking.paymentDetails?.amount === 'number') ? formatPrice(selectedBooking.paymentDetails!.amount!) : (getAmount(selectedBooking) != null ? formatPrice(getAmount(selectedBooking) as number) : formatPrice(0))}</div>
                     <div className="text-sm">{t('admin.bookings.method')}: {selectedBooking.paymentDetails?.method || '-'}</div>
+                    {selectedBooking.paymentDetails?.discount?.code && (
+                      <div className="text-sm">
+                        {t('admin.bookings.promoCode', 'Promo code')}: <span className="font-mono">{selectedBooking.paymentDetails.discount.code}</span>
+                        {' '}(−{formatPrice(selectedBooking.paymentDetails.discount.amountUsd || 0)})
+                      </div>
+                    )}
                     <div className="text-sm">{t('status')}: {selectedBooking.paymentDetails?.status || '-'}</div>
                   </div>
                   <div>
@@ -1058,11 +1093,26 @@ const AdminBookings: React.FC = () => {
                     <div className="text-sm">{t('admin.bookings.assignedTo')}: {selectedBooking.adminData?.assignedTo || '-'}</div>
                     <div className="text-sm">{t('admin.bookings.notes')}: {selectedBooking.adminData?.notes || '-'}</div>
                     {selectedBooking.adminData?.cost && typeof selectedBooking.adminData.cost.amount === 'number' && (
-                      <div className="text-sm">{t('admin.bookings.adminCost')}: {formatSypFromUsd(selectedBooking.adminData.cost.amount)}</div>
+                      <div className="text-sm">{t('admin.bookings.adminCost')}: {formatPrice(selectedBooking.adminData.cost.amount)}</div>
+                    )}
+                    {typeof selectedBooking.adminData?.profit === 'number' && (
+                      <div className="text-sm">{t('admin.bookings.profit', 'Profit')}: {formatPrice(selectedBooking.adminData.profit)}</div>
                     )}
                   </div>
                 </div>
 
+                {selectedBooking.bookingId && (
+                  <div className="mt-4 border-t pt-4">
+                    <h4 className="font-medium mb-2">{t('admin.supplier.title', 'Supplier')}</h4>
+                    <SupplierPanel
+                      key={selectedBooking.bookingId}
+                      bookingId={selectedBooking.bookingId}
+                      canManage={canManageSupplier}
+                      onChanged={() => refreshBooking(selectedBooking.bookingId!)}
+                    />
+                  </div>
+                )}
+
               </div>
               <div className="pt-2">
                 <Button onClick={() => setViewOpen(false)}>{t('cancel')}</Button>
@@ -0,0 +1,585 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Calculator, Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import api from '@/config/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { confirmDialog, toastError, toastSuccess } from '@/utils/i18nToast';
+
+type RuleKind = 'markup' | 'service_fee';
+type Calculation = 'fixed' | 'percentage';
+type PassengerType = 'ADT' | 'CHD' | 'INF';
+
+interface PricingRule {
+  _id: string;
+  name: string;
+  active: boolean;
+  kind: RuleKind;
+  calculation: Calculation;
+  value: number;
+  priority: number;
+  airlines: string[];
+  origins: string[];
+  destinations: string[];
+  cabins: string[];
+  passengerTypes: PassengerType[];
+  departureFrom?: string | null;
+  departureTo?: string | null;
+  validFrom?: string | null;
+  validTo?: string | null;
+  updatedBy?: string;
+  updatedAt?: string;
+}
+
+// Form state keeps code lists as comma separated text and dates as yyyy-MM-dd
+interface RuleForm {
+  _id?: string;
+  name: string;
+  active: boolean;
+  kind: RuleKind;
+  calculation: Calculation;
+  value: string;
+  priority: string;
+  airlines: string;
+  origins: string;
+  destinations: string;
+  cabins: string[];
+  passengerTypes: PassengerType[];
+  departureFrom: string;
+  departureTo: string;
+  validFrom: string;
+  validTo: string;
+}
+
+interface PreviewSample {
+  airline: string;
+  origin: string;
+  destination: string;
+  cabin: string;
+  departureDate: string;
+  fares: Record<PassengerType, { count: string; total: string }>;
+}
+
+interface PreviewResult {
+  currency: string;
+  supplierTotal: number;
+  markup: number;
+  serviceFee: number;
+  total: number;
+  passengers: Partial<Record<PassengerType, { count: number; supplier: number; markup: number; serviceFee: number; total: number }>>;
+  rules: Array<{ rule: string; name: string; kind: RuleKind; passengerType: PassengerType; amount: number }>;
+}
+
+const PASSENGER_TYPES: PassengerType[] = ['ADT', 'CHD', 'INF'];
+const CABINS = ['e', 'p', 'b', 'f'];
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  active: true,
+  kind: 'markup',
+  calculation: 'percentage',
+  value: '',
+  priority: '0',
+  airlines: '',
+  origins: '',
+  destinations: '',
+  cabins: [],
+  passengerTypes: [],
+  departureFrom: '',
+  departureTo: '',
+  validFrom: '',
+  validTo: ''
+};
+
+const EMPTY_SAMPLE: PreviewSample = {
+  airline: '',
+  origin: '',
+  destination: '',
+  cabin: 'e',
+  departureDate: '',
+  fares: {
+    ADT: { count: '1', total: '' },
+    CHD: { count: '0', total: '' },
+    INF: { count: '0', total: '' }
+  }
+};
+
+const toDateInput = (value?: string | null) => (value ? format(new Date(value), 'yyyy-MM-dd') : '');
+const toCodes = (value: string) => value.split(',').map(code => code.trim().toUpperCase()).filter(Boolean);
+const formatUsd = (value: number) => `$${(value || 0).toFixed(2)}`;
+
+const ruleToForm = (rule: PricingRule): RuleForm => ({
+  _id: rule._id,
+  name: rule.name,
+  active: rule.active,
+  kind: rule.kind,
+  calculation: rule.calculation,
+  value: String(rule.value),
+  priority: String(rule.priority || 0),
+  airlines: rule.airlines.join(', '),
+  origins: rule.origins.join(', '),
+  destinations: rule.destinations.join(', '),
+  cabins: rule.cabins || [],
+  passengerTypes: rule.passengerTypes || [],
+  departureFrom: toDateInput(rule.departureFrom),
+  departureTo: toDateInput(rule.departureTo),
+  validFrom: toDateInput(rule.validFrom),
+  validTo: toDateInput(rule.validTo)
+});
+
+const formToPayload = (form: RuleForm) => ({
+  ...(form._id ? { _id: form._id } : {}),
+  name: form.name.trim(),
+  active: form.active,
+  kind: form.kind,
+  calculation: form.calculation,
+  value: Number(form.value),
+  priority: parseInt(form.priority, 10) || 0,
+  airlines: toCodes(form.airlines),
+  origins: toCodes(form.origins),
+  destinations: toCodes(form.destinations),
+  cabins: form.cabins,
+  passengerTypes: form.passengerTypes,
+  departureFrom: form.departureFrom,
+  departureTo: form.departureTo,
+  validFrom: form.validFrom,
+  validTo: form.validTo
+});
+
+const PricingRules: React.FC = () => {
+  const { t } = useTranslation();
+  const [rules, setRules] = useState<PricingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<RuleForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [sample, setSample] = useState<PreviewSample>(EMPTY_SAMPLE);
+  const [preview, setPreview] = useState<PreviewResult | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  const fetchRules = useCallback(async () => {
+    setLoading(true);
+    try {
+      const resp = await api.get('/admin/pricing-rules');
+      if (!resp.data?.success) {
+        throw new Error(resp.data?.message || 'Failed to load pricing rules');
+      }
+      setRules(resp.data.data);
+    } catch (err) {
+      console.error('Failed to load pricing rules', err);
+      toastError('تعذر تحميل قواعد التسعير', 'Failed to load pricing rules');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRules();
+  }, [fetchRules]);
+
+  const updateForm = <K extends keyof RuleForm>(key: K, value: RuleForm[K]) => {
+    setForm(prev => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const toggleListValue = <T extends string>(list: T[], value: T) =>
+    (list.includes(value) ? list.filter(item => item !== value) : [...list, value]);
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.name.trim() || form.value === '' || Number(form.value) < 0) {
+      toastError('يرجى إدخال اسم وقيمة صحيحة', 'Please enter a name and a valid value');
+      return;
+    }
+    try {
+      setSaving(true);
+      const payload = formToPayload(form);
+      const resp = form._id
+        ? await api.put(`/admin/pricing-rules/${form._id}`, payload)
+        : await api.post('/admin/pricing-rules', payload);
+      if (!resp.data?.success) {
+        throw new Error(resp.data?.message || 'Failed to save pricing rule');
+      }
+      toastSuccess('تم حفظ قاعدة التسعير', 'Pricing rule saved');
+      setForm(null);
+      fetchRules();
+    } catch (err) {
+      console.error('Failed to save pricing rule', err);
+      toastError('فشل حفظ قاعدة التسعير', err instanceof Error ? err.message : 'Failed to save pricing rule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (rule: PricingRule) => {
+    try {
+      const resp = await api.put(`/admin/pricing-rules/${rule._id}`, { active: !rule.active });
+      if (!resp.data?.success) {
+        throw new Error(resp.data?.message || 'Failed to update pricing rule');
+      }
+      setRules(prev => prev.map(item => (item._id === rule._id ? resp.data.data : item)));
+    } catch (err) {
+      console.error('Failed to update pricing rule', err);
+      toastError('فشل تحديث قاعدة التسعير', 'Failed to update pricing rule');
+    }
+  };
+
+  const handleDelete = async (rule: PricingRule) => {
+    if (!confirmDialog('هل أنت متأكد من حذف قاعدة التسعير هذه؟', 'Delete this pricing rule?')) return;
+    try {
+      const resp = await api.delete(`/admin/pricing-rules/${rule._id}`);
+      if (!resp.data?.success) {
+        throw new Error(resp.data?.message || 'Failed to delete pricing rule');
+      }
+      toastSuccess('تم حذف قاعدة التسعير', 'Pricing rule deleted');
+      setRules(prev => prev.filter(item => item._id !== rule._id));
+    } catch (err) {
+      console.error('Failed to delete pricing rule', err);
+      toastError('فشل حذف قاعدة التسعير', 'Failed to delete pricing rule');
+    }
+  };
+
+  // Prices the sample with the saved active rules, plus the rule being edited when withDraft is set
+  const runPreview = async (withDraft: boolean) => {
+    try {
+      setPreviewing(true);
+      const resp = await api.post('/admin/pricing-rules/preview', {
+        sample,
+        ...(withDraft && form ? { rule: formToPayload(form) } : {})
+      });
+      if (!resp.data?.success) {
+        throw new Error(resp.data?.message || 'Preview failed');
+      }
+      setPreview(resp.data.data);
+    } catch (err) {
+      console.error('Pricing preview failed', err);
+      toastError('تعذرت معاينة السعر', err instanceof Error ? err.message : 'Preview failed');
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const updateFare = (type: PassengerType, key: 'count' | 'total', value: string) => {
+    setSample(prev => ({ ...prev, fares: { ...prev.fares, [type]: { ...prev.fares[type], [key]: value } } }));
+  };
+
+  const describeScope = (rule: PricingRule) => {
+    const parts = [
+      rule.airlines.length > 0 && rule.airlines.join(', '),
+      (rule.origins.length > 0 || rule.destinations.length > 0)
+        && `${rule.origins.join('/') || '*'} → ${rule.destinations.join('/') || '*'}`,
+      rule.cabins.length > 0 && rule.cabins.map(cabin => t(`admin.pricing.cabins.${cabin}`, cabin)).join(', '),
+      rule.passengerTypes.length > 0 && rule.passengerTypes.join(', '),
+      (rule.departureFrom || rule.departureTo)
+        && `${t('admin.pricing.departure', 'Departure')}: ${toDateInput(rule.departureFrom) || '…'} – ${toDateInput(rule.departureTo) || '…'}`
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : t('admin.pricing.allFares', 'All fares');
+  };
+
+  return (
+    <div className="p-8 space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">{t('admin.pricing.title', 'Pricing Rules')}</h1>
+        <Button onClick={() => setForm({ ...EMPTY_FORM })} className="flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          {t('admin.pricing.addRule', 'Add rule')}
+        </Button>
+      </div>
+      <p className="text-sm text-gray-600">
+        {t('admin.pricing.description', 'Markups are added to the base fare; service fees are shown as a separate line. For each passenger, the highest priority matching rule of each kind applies.')}
+      </p>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-tourtastic-blue" />
+            </div>
+          ) : rules.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">{t('admin.pricing.empty', 'No pricing rules yet. Customers see supplier fares.')}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('admin.pricing.active', 'Active')}</TableHead>
+                  <TableHead>{t('admin.pricing.name', 'Name')}</TableHead>
+                  <TableHead>{t('admin.pricing.kind', 'Type')}</TableHead>
+                  <TableHead>{t('admin.pricing.value', 'Value')}</TableHead>
+                  <TableHead>{t('admin.pricing.scope', 'Applies to')}</TableHead>
+                  <TableHead>{t('admin.pricing.priority', 'Priority')}</TableHead>
+                  <TableHead>{t('admin.pricing.validity', 'Valid')}</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {rules.map(rule => (
+                  <TableRow key={rule._id} className={rule.active ? '' : 'opacity-60'}>
+                    <TableCell>
+                      <Switch checked={rule.active} onCheckedChange={() => handleToggle(rule)} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-medium">{rule.name}</div>
+                      {rule.updatedBy && <div className="text-xs text-gray-500">{rule.updatedBy}</div>}
+                    </TableCell>
+                    <TableCell>{t(`admin.pricing.kinds.${rule.kind}`, rule.kind)}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {rule.calculation === 'percentage' ? `${rule.value}%` : formatUsd(rule.value)}
+                      {rule.calculation === 'fixed' && <span className="text-xs text-gray-500"> / {t('admin.pricing.perPassenger', 'passenger')}</span>}
+                    </TableCell>
+                    <TableCell className="text-sm max-w-xs">{describeScope(rule)}</TableCell>
+                    <TableCell>{rule.priority}</TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">
+                      {rule.validFrom || rule.validTo
+                        ? `${toDateInput(rule.validFrom) || '…'} – ${toDateInput(rule.validTo) || '…'}`
+                        : t('admin.pricing.always', 'Always')}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <Button variant="ghost" size="icon" onClick={() => setForm(ruleToForm(rule))}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(rule)}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calculator className="h-5 w-5" />
+            {t('admin.pricing.previewTitle', 'Price preview')}
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <div>
+              <Label>{t('admin.pricing.airline', 'Airline')}</Label>
+              <Input placeholder="TK" value={sample.airline} onChange={(e) => setSample(prev => ({ ...prev, airline: e.target.value }))} />
+            </div>
+            <div>
+              <Label>{t('admin.pricing.origin', 'Origin')}</Label>
+              <Input placeholder="DAM" value={sample.origin} onChange={(e) => setSample(prev => ({ ...prev, origin: e.target.value }))} />
+            </div>
+            <div>
+              <Label>{t('admin.pricing.destination', 'Destination')}</Label>
+              <Input placeholder="IST" value={sample.destination} onChange={(e) => setSample(prev => ({ ...prev, destination: e.target.value }))} />
+            </div>
+            <div>
+              <Label>{t('admin.pricing.cabin', 'Cabin')}</Label>
+              <select
+                value={sample.cabin}
+                onChange={(e) => setSample(prev => ({ ...prev, cabin: e.target.value }))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                {CABINS.map(cabin => (
+                  <option key={cabin} value={cabin}>{t(`admin.pricing.cabins.${cabin}`, cabin)}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label>{t('admin.pricing.departureDate', 'Departure date')}</Label>
+              <Input type="date" value={sample.departureDate} onChange={(e) => setSample(prev => ({ ...prev, departureDate: e.target.value }))} />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+            {PASSENGER_TYPES.map(type => (
+              <div key={type} className="flex items-end gap-2">
+                <div className="w-20">
+                  <Label>{t(`admin.pricing.passengerTypes.${type}`, type)}</Label>
+                  <Input type="number" min={0} value={sample.fares[type].count} onChange={(e) => updateFare(type, 'count', e.target.value)} />
+                </div>
+                <div className="flex-1">
+                  <Label>{t('admin.pricing.supplierFare', 'Supplier fare (USD)')}</Label>
+                  <Input type="number" min={0} step="0.01" value={sample.fares[type].total} onChange={(e) => updateFare(type, 'total', e.target.value)} />
+                </div>
+              </div>
+            ))}
+          </div>
+          <Button variant="outline" onClick={() => runPreview(false)} disabled={previewing} className="flex items-center gap-2">
+            {previewing ? <Loader2 className="h-4 w-4 animate-spin" /> : <Calculator className="h-4 w-4" />}
+            {t('admin.pricing.runPreview', 'Preview with active rules')}
+          </Button>
+          {preview && (
+            <div className="space-y-3">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('admin.pricing.passenger', 'Passenger')}</TableHead>
+                    <TableHead>{t('admin.pricing.supplier', 'Supplier')}</TableHead>
+                    <TableHead>{t('admin.pricing.kinds.markup', 'Markup')}</TableHead>
+                    <TableHead>{t('admin.pricing.kinds.service_fee', 'Service fee')}</TableHead>
+                    <TableHead>{t('admin.pricing.customerPrice', 'Customer price')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {PASSENGER_TYPES.filter(type => preview.passengers[type]).map(type => {
+                    const passenger = preview.passengers[type]!;
+                    return (
+                      <TableRow key={type}>
+                        <TableCell>{passenger.count} × {t(`admin.pricing.passengerTypes.${type}`, type)}</TableCell>
+                        <TableCell>{formatUsd(passenger.supplier)}</TableCell>
+                        <TableCell>{formatUsd(passenger.markup)}</TableCell>
+                        <TableCell>{formatUsd(passenger.serviceFee)}</TableCell>
+                        <TableCell className="font-medium">{formatUsd(passenger.total)}</TableCell>
+                      </TableRow>
+                    );
+                  })}
+                  <TableRow className="font-semibold">
+                    <TableCell>{t('total', 'Total')}</TableCell>
+                    <TableCell>{formatUsd(preview.supplierTotal)}</TableCell>
+                    <TableCell>{formatUsd(preview.markup)}</TableCell>
+                    <TableCell>{formatUsd(preview.serviceFee)}</TableCell>
+                    <TableCell className="text-tourtastic-blue">{formatUsd(preview.total)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+              <div className="text-sm text-gray-600">
+                {preview.rules.length === 0
+                  ? t('admin.pricing.noRulesApplied', 'No rule matched this fare')
+                  : preview.rules.map(applied => `${applied.name} (${applied.passengerType}): ${formatUsd(applied.amount)}`).join(' · ')}
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!form} onOpenChange={(open) => { if (!open) setForm(null); }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form?._id ? t('admin.pricing.editRule', 'Edit pricing rule') : t('admin.pricing.addRule', 'Add rule')}</DialogTitle>
+            <DialogDescription>{t('admin.pricing.scopeHint', 'Leave a scope field empty to match every fare.')}</DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="md:col-span-2">
+                <Label>{t('admin.pricing.name', 'Name')}</Label>
+                <Input value={form.name} onChange={(e) => updateForm('name', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.pricing.kind', 'Type')}</Label>
+                <select
+                  value={form.kind}
+                  onChange={(e) => updateForm('kind', e.target.value as RuleKind)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="markup">{t('admin.pricing.kinds.markup', 'Markup')}</option>
+                  <option value="service_fee">{t('admin.pricing.kinds.service_fee', 'Service fee')}</option>
+                </select>
+              </div>
+              <div>
+                <Label>{t('admin.pricing.calculation', 'Calculation')}</Label>
+                <select
+                  value={form.calculation}
+                  onChange={(e) => updateForm('calculation', e.target.value as Calculation)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="percentage">{t('admin.pricing.calculations.percentage', 'Percentage of supplier fare')}</option>
+                  <option value="fixed">{t('admin.pricing.calculations.fixed', 'Fixed USD per passenger')}</option>
+                </select>
+              </div>
+              <div>
+                <Label>{t('admin.pricing.value', 'Value')}</Label>
+                <Input type="number" min={0} step="0.01" value={form.value} onChange={(e) => updateForm('value', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.pricing.priority', 'Priority')}</Label>
+                <Input type="number" value={form.priority} onChange={(e) => updateForm('priority', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.pricing.airlines', 'Airlines (IATA codes)')}</Label>
+                <Input placeholder="TK, QR" value={form.airlines} onChange={(e) => updateForm('airlines', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.pricing.origins', 'Origins')}</Label>
+                <Input placeholder="DAM" value={form.origins} onChange={(e) => updateForm('origins', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.pricing.destinations', 'Destinations')}</Label>
+                <Input placeholder="IST, DXB" value={form.destinations} onChange={(e) => updateForm('destinations', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.pricing.cabin', 'Cabin')}</Label>
+                <div className="flex flex-wrap gap-3 pt-2">
+                  {CABINS.map(cabin => (
+                    <label key={cabin} className="flex items-center gap-1 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={form.cabins.includes(cabin)}
+                        onChange={() => updateForm('cabins', toggleListValue(form.cabins, cabin))}
+                      />
+                      {t(`admin.pricing.cabins.${cabin}`, cabin)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div className="md:col-span-2">
+                <Label>{t('admin.pricing.passengerType', 'Passenger types')}</Label>
+                <div className="flex flex-wrap gap-3 pt-2">
+                  {PASSENGER_TYPES.map(type => (
+                    <label key={type} className="flex items-center gap-1 text-sm">
+                      <input
+                        type="checkbox"
+                        checked={form.passengerTypes.includes(type)}
+                        onChange={() => updateForm('passengerTypes', toggleListValue(form.passengerTypes, type))}
+                      />
+                      {t(`admin.pricing.passengerTypes.${type}`, type)}
+                    </label>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <Label>{t('admin.pricing.departureFrom', 'Departures from')}</Label>
+                <Input type="date" value={form.departureFrom} onChange={(e) => updateForm('departureFrom', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.pricing.departureTo', 'Departures until')}</Label>
+                <Input type="date" value={form.departureTo} onChange={(e) => updateForm('departureTo', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.pricing.validFrom', 'Effective from')}</Label>
+                <Input type="date" value={form.validFrom} onChange={(e) => updateForm('validFrom', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.pricing.validTo', 'Effective until')}</Label>
+                <Input type="date" value={form.validTo} onChange={(e) => updateForm('validTo', e.target.value)} />
+              </div>
+              <label className="flex items-center gap-2 text-sm md:col-span-2">
+                <Switch checked={form.active} onCheckedChange={(checked) => updateForm('active', checked)} />
+                {t('admin.pricing.active', 'Active')}
+              </label>
+            </div>
+          )}
+          {preview && (
+            <p className="text-sm text-gray-600">
+              {t('admin.pricing.previewSummary', 'Sample fare: {{supplier}} supplier → {{total}} customer', {
+                supplier: formatUsd(preview.supplierTotal),
+                total: formatUsd(preview.total)
+              })}
+            </p>
+          )}
+          <DialogFooter className="gap-2">
+            <Button variant="outline" onClick={() => runPreview(true)} disabled={previewing || !form?.name.trim() || form?.value === ''}>
+              {t('admin.pricing.previewDraft', 'Preview with this rule')}
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              {t('admin.pricing.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PricingRules;
@@ -0,0 +1,374 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Loader2, Pencil, Plus, Trash2 } from 'lucide-react';
+import api from '@/config/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { confirmDialog, toastError, toastSuccess } from '@/utils/i18nToast';
+
+type DiscountType = 'percentage' | 'fixed';
+
+interface Promotion {
+  _id: string;
+  code: string;
+  description?: string;
+  active: boolean;
+  discountType: DiscountType;
+  value: number;
+  maxDiscount?: number | null;
+  minAmount?: number;
+  validFrom?: string | null;
+  validTo?: string | null;
+  maxRedemptions?: number | null;
+  perUserLimit?: number | null;
+  redemptionCount: number;
+  airlines: string[];
+  origins: string[];
+  destinations: string[];
+  updatedBy?: string;
+}
+
+// Form state keeps numbers and code lists as text so optional fields can be left empty
+interface PromotionForm {
+  _id?: string;
+  code: string;
+  description: string;
+  active: boolean;
+  discountType: DiscountType;
+  value: string;
+  maxDiscount: string;
+  minAmount: string;
+  validFrom: string;
+  validTo: string;
+  maxRedemptions: string;
+  perUserLimit: string;
+  airlines: string;
+  origins: string;
+  destinations: string;
+}
+
+const EMPTY_FORM: PromotionForm = {
+  code: '',
+  description: '',
+  active: true,
+  discountType: 'percentage',
+  value: '',
+  maxDiscount: '',
+  minAmount: '',
+  validFrom: '',
+  validTo: '',
+  maxRedemptions: '',
+  perUserLimit: '1',
+  airlines: '',
+  origins: '',
+  destinations: ''
+};
+
+const toDateInput = (value?: string | null) => (value ? format(new Date(value), 'yyyy-MM-dd') : '');
+const toCodes = (value: string) => value.split(',').map(code => code.trim().toUpperCase()).filter(Boolean);
+const toOptionalNumber = (value: string) => (value.trim() === '' ? null : Number(value));
+const formatUsd = (value: number) => `$${(value || 0).toFixed(2)}`;
+
+const promotionToForm = (promotion: Promotion): PromotionForm => ({
+  _id: promotion._id,
+  code: promotion.code,
+  description: promotion.description || '',
+  active: promotion.active,
+  discountType: promotion.discountType,
+  value: String(promotion.value),
+  maxDiscount: promotion.maxDiscount != null ? String(promotion.maxDiscount) : '',
+  minAmount: promotion.minAmount ? String(promotion.minAmount) : '',
+  validFrom: toDateInput(promotion.validFrom),
+  validTo: toDateInput(promotion.validTo),
+  maxRedemptions: promotion.maxRedemptions != null ? String(promotion.maxRedemptions) : '',
+  perUserLimit: promotion.perUserLimit != null ? String(promotion.perUserLimit) : '',
+  airlines: promotion.airlines.join(', '),
+  origins: promotion.origins.join(', '),
+  destinations: promotion.destinations.join(', ')
+});
+
+const formToPayload = (form: PromotionForm) => ({
+  code: form.code.trim().toUpperCase(),
+  description: form.description.trim(),
+  active: form.active,
+  discountType: form.discountType,
+  value: Number(form.value),
+  maxDiscount: form.discountType === 'percentage' ? toOptionalNumber(form.maxDiscount) : null,
+  minAmount: Number(form.minAmount) || 0,
+  validFrom: form.validFrom,
+  validTo: form.validTo,
+  maxRedemptions: toOptionalNumber(form.maxRedemptions),
+  perUserLimit: toOptionalNumber(form.perUserLimit),
+  airlines: toCodes(form.airlines),
+  origins: toCodes(form.origins),
+  destinations: toCodes(form.destinations)
+});
+
+const Promotions: React.FC = () => {
+  const { t } = useTranslation();
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [form, setForm] = useState<PromotionForm | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const fetchPromotions = useCallback(async () => {
+    setLoading(true);
+    try {
+      const resp = await api.get('/admin/promotions');
+      if (!resp.data?.success) {
+        throw new Error(resp.data?.message || 'Failed to load promotions');
+      }
+      setPromotions(resp.data.data);
+    } catch (err) {
+      console.error('Failed to load promotions', err);
+      toastError('تعذر تحميل العروض الترويجية', 'Failed to load promotions');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPromotions();
+  }, [fetchPromotions]);
+
+  const updateForm = <K extends keyof PromotionForm>(key: K, value: PromotionForm[K]) => {
+    setForm(prev => (prev ? { ...prev, [key]: value } : prev));
+  };
+
+  const handleSave = async () => {
+    if (!form) return;
+    if (!form.code.trim() || form.value === '' || Number(form.value) < 0) {
+      toastError('يرجى إدخال رمز وقيمة صحيحة', 'Please enter a code and a valid value');
+      return;
+    }
+    try {
+      setSaving(true);
+      const payload = formToPayload(form);
+      const resp = form._id
+        ? await api.put(`/admin/promotions/${form._id}`, payload)
+        : await api.post('/admin/promotions', payload);
+      if (!resp.data?.success) {
+        throw new Error(resp.data?.message || 'Failed to save promotion');
+      }
+      toastSuccess('تم حفظ العرض الترويجي', 'Promotion saved');
+      setForm(null);
+      fetchPromotions();
+    } catch (err) {
+      console.error('Failed to save promotion', err);
+      toastError('فشل حفظ العرض الترويجي', err instanceof Error ? err.message : 'Failed to save promotion');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (promotion: Promotion) => {
+    try {
+      const resp = await api.put(`/admin/promotions/${promotion._id}`, { active: !promotion.active });
+      if (!resp.data?.success) {
+        throw new Error(resp.data?.message || 'Failed to update promotion');
+      }
+      setPromotions(prev => prev.map(item => (item._id === promotion._id ? resp.data.data : item)));
+    } catch (err) {
+      console.error('Failed to update promotion', err);
+      toastError('فشل تحديث العرض الترويجي', 'Failed to update promotion');
+    }
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (!confirmDialog('هل أنت متأكد من حذف هذا العرض الترويجي؟', 'Delete this promotion?')) return;
+    try {
+      const resp = await api.delete(`/admin/promotions/${promotion._id}`);
+      if (!resp.data?.success) {
+        throw new Error(resp.data?.message || 'Failed to delete promotion');
+      }
+      toastSuccess('تم حذف العرض الترويجي', 'Promotion deleted');
+      setPromotions(prev => prev.filter(item => item._id !== promotion._id));
+    } catch (err) {
+      console.error('Failed to delete promotion', err);
+      toastError('فشل حذف العرض الترويجي', err instanceof Error ? err.message : 'Failed to delete promotion');
+    }
+  };
+
+  const describeDiscount = (promotion: Promotion) => {
+    if (promotion.discountType === 'fixed') return formatUsd(promotion.value);
+    return promotion.maxDiscount
+      ? t('admin.promotions.percentUpTo', '{{value}}% (up to {{max}})', { value: promotion.value, max: formatUsd(promotion.maxDiscount) })
+      : `${promotion.value}%`;
+  };
+
+  const describeRestrictions = (promotion: Promotion) => {
+    const parts = [
+      promotion.airlines.length > 0 && promotion.airlines.join(', '),
+      (promotion.origins.length > 0 || promotion.destinations.length > 0)
+        && `${promotion.origins.join('/') || '*'} → ${promotion.destinations.join('/') || '*'}`,
+      promotion.minAmount ? t('admin.promotions.minAmountShort', 'Min {{amount}}', { amount: formatUsd(promotion.minAmount) }) : null
+    ].filter(Boolean);
+    return parts.length > 0 ? parts.join(' · ') : t('admin.promotions.allBookings', 'All bookings');
+  };
+
+  return (
+    <div className="p-8 space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-3xl font-bold">{t('admin.promotions.title', 'Promo Codes')}</h1>
+        <Button onClick={() => setForm({ ...EMPTY_FORM })} className="flex items-center gap-2">
+          <Plus className="h-4 w-4" />
+          {t('admin.promotions.add', 'Add promo code')}
+        </Button>
+      </div>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-tourtastic-blue" />
+            </div>
+          ) : promotions.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">{t('admin.promotions.empty', 'No promo codes yet')}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('admin.promotions.active', 'Active')}</TableHead>
+                  <TableHead>{t('admin.promotions.code', 'Code')}</TableHead>
+                  <TableHead>{t('admin.promotions.discount', 'Discount')}</TableHead>
+                  <TableHead>{t('admin.promotions.restrictions', 'Applies to')}</TableHead>
+                  <TableHead>{t('admin.promotions.validity', 'Valid')}</TableHead>
+                  <TableHead>{t('admin.promotions.usage', 'Used')}</TableHead>
+                  <TableHead></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {promotions.map(promotion => (
+                  <TableRow key={promotion._id} className={promotion.active ? '' : 'opacity-60'}>
+                    <TableCell>
+                      <Switch checked={promotion.active} onCheckedChange={() => handleToggle(promotion)} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="font-mono font-medium">{promotion.code}</div>
+                      {promotion.description && <div className="text-xs text-gray-500">{promotion.description}</div>}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">{describeDiscount(promotion)}</TableCell>
+                    <TableCell className="text-sm max-w-xs">{describeRestrictions(promotion)}</TableCell>
+                    <TableCell className="text-xs whitespace-nowrap">
+                      {promotion.validFrom || promotion.validTo
+                        ? `${toDateInput(promotion.validFrom) || '…'} – ${toDateInput(promotion.validTo) || '…'}`
+                        : t('admin.promotions.always', 'Always')}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {promotion.redemptionCount}{promotion.maxRedemptions ? ` / ${promotion.maxRedemptions}` : ''}
+                      {promotion.perUserLimit && (
+                        <div className="text-xs text-gray-500">
+                          {t('admin.promotions.perUserShort', '{{count}} per customer', { count: promotion.perUserLimit })}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      <Button variant="ghost" size="icon" onClick={() => setForm(promotionToForm(promotion))}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" onClick={() => handleDelete(promotion)} disabled={promotion.redemptionCount > 0}>
+                        <Trash2 className="h-4 w-4 text-red-600" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!form} onOpenChange={(open) => { if (!open) setForm(null); }}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{form?._id ? t('admin.promotions.edit', 'Edit promo code') : t('admin.promotions.add', 'Add promo code')}</DialogTitle>
+            <DialogDescription>{t('admin.promotions.formHint', 'Leave limits and restrictions empty for none.')}</DialogDescription>
+          </DialogHeader>
+          {form && (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <Label>{t('admin.promotions.code', 'Code')}</Label>
+                <Input className="font-mono" value={form.code} onChange={(e) => updateForm('code', e.target.value.toUpperCase())} />
+              </div>
+              <div>
+                <Label>{t('admin.promotions.description', 'Description')}</Label>
+                <Input value={form.description} onChange={(e) => updateForm('description', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.promotions.discountType', 'Discount type')}</Label>
+                <select
+                  value={form.discountType}
+                  onChange={(e) => updateForm('discountType', e.target.value as DiscountType)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                >
+                  <option value="percentage">{t('admin.promotions.types.percentage', 'Percentage of the booking')}</option>
+                  <option value="fixed">{t('admin.promotions.types.fixed', 'Fixed USD per payment')}</option>
+                </select>
+              </div>
+              <div>
+                <Label>{t('admin.promotions.value', 'Value')}</Label>
+                <Input type="number" min={0} step="0.01" value={form.value} onChange={(e) => updateForm('value', e.target.value)} />
+              </div>
+              {form.discountType === 'percentage' && (
+                <div>
+                  <Label>{t('admin.promotions.maxDiscount', 'Maximum discount (USD)')}</Label>
+                  <Input type="number" min={0} step="0.01" value={form.maxDiscount} onChange={(e) => updateForm('maxDiscount', e.target.value)} />
+                </div>
+              )}
+              <div>
+                <Label>{t('admin.promotions.minAmount', 'Minimum booking total (USD)')}</Label>
+                <Input type="number" min={0} step="0.01" value={form.minAmount} onChange={(e) => updateForm('minAmount', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.promotions.maxRedemptions', 'Total uses')}</Label>
+                <Input type="number" min={1} value={form.maxRedemptions} onChange={(e) => updateForm('maxRedemptions', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.promotions.perUserLimit', 'Uses per customer')}</Label>
+                <Input type="number" min={1} value={form.perUserLimit} onChange={(e) => updateForm('perUserLimit', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.promotions.validFrom', 'Valid from')}</Label>
+                <Input type="date" value={form.validFrom} onChange={(e) => updateForm('validFrom', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.promotions.validTo', 'Valid until')}</Label>
+                <Input type="date" value={form.validTo} onChange={(e) => updateForm('validTo', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.pricing.airlines', 'Airlines (IATA codes)')}</Label>
+                <Input placeholder="TK, QR" value={form.airlines} onChange={(e) => updateForm('airlines', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.pricing.origins', 'Origins')}</Label>
+                <Input placeholder="DAM" value={form.origins} onChange={(e) => updateForm('origins', e.target.value)} />
+              </div>
+              <div>
+                <Label>{t('admin.pricing.destinations', 'Destinations')}</Label>
+                <Input placeholder="IST, DXB" value={form.destinations} onChange={(e) => updateForm('destinations', e.target.value)} />
+              </div>
+              <label className="flex items-center gap-2 text-sm md:col-span-2">
+                <Switch checked={form.active} onCheckedChange={(checked) => updateForm('active', checked)} />
+                {t('admin.promotions.active', 'Active')}
+              </label>
+            </div>
+          )}
+          <DialogFooter>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving && <Loader2 className="h-4 w-4 animate-spin mr-2" />}
+              {t('admin.pricing.save', 'Save')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Promotions;
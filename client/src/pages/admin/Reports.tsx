@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell } from 'recharts';
 import api from '@/config/api';
-import currency, { formatSypFromUsd, getSypRate, setSypRate } from '@/utils/currency';
+import { useCurrency } from '@/hooks/useCurrency';
 import { saveAs } from 'file-saver';
 
 const monthNames = ['Jan','Feb','Mar','Apr','May','Jun','Jul','Aug','Sep','Oct','Nov','Dec'];
@@ -41,35 +41,22 @@ type SearchLogRecord = {
 
 type DistributionEntry = { name: string; value: number; percent?: number };
 type TopDestination = { destination: string; bookings: number; growthPercent: number };
+type PromotionRedemption = { code: string; redemptions: number; discountUsd: number; revenueUsd: number; lastRedeemedAt?: string };
 
 const AdminReports: React.FC = () => {
   const { t } = useTranslation();
+  const { currency, formatPrice } = useCurrency();
   const [revenueByMonth, setRevenueByMonth] = useState<number[]>(Array(12).fill(0));
   const [totalRevenue, setTotalRevenue] = useState<number>(0);
-  const [sypRate, setSypRateState] = useState<number>(getSypRate());
   const [totalBookings, setTotalBookings] = useState<number>(0);
   const [bookingDistribution, setBookingDistribution] = useState<DistributionEntry[]>([]);
   const [topDestinations, setTopDestinations] = useState<TopDestination[]>([]);
   const [searchLogs, setSearchLogs] = useState<SearchLogRecord[]>([]);
   const [orders, setOrders] = useState<BookingRecord[]>([]);
   const [growthRate, setGrowthRate] = useState<{ revenue?: number; bookings?: number }>({});
+  const [promotionRedemptions, setPromotionRedemptions] = useState<PromotionRedemption[]>([]);
 
-  useEffect(() => { fetchReports(); fetchOrders(); loadSypFromServer(); }, []);
-
-  const loadSypFromServer = async () => {
-    try {
-      const resp = await api.get('/settings/sypRate');
-      if (resp.data && resp.data.success && resp.data.data != null) {
-        const v = Number(resp.data.data);
-        if (!isNaN(v) && v > 0) {
-          setSypRateState(v);
-          setSypRate(v);
-        }
-      }
-    } catch (e) {
-      // ignore and use local value
-    }
-  };
+  useEffect(() => { fetchReports(); fetchOrders(); }, []);
 
   const fetchReports = async (year?: number) => {
     try {
@@ -83,6 +70,7 @@ const AdminReports: React.FC = () => {
           topDestinations?: TopDestination[];
           searchLogs?: any[];
           growthRate?: { revenue?: number; bookings?: number };
+          promotionRedemptions?: PromotionRedemption[];
         };
         setTotalRevenue(d.totalRevenue || 0);
         setTotalBookings(d.totalBookings || 0);
@@ -91,6 +79,7 @@ const AdminReports: React.FC = () => {
         setTopDestinations(d.topDestinations || []);
         setSearchLogs((d.searchLogs || []) as SearchLogRecord[]);
         setGrowthRate(d.growthRate || {});
+        setPromotionRedemptions(d.promotionRedemptions || []);
       }
     } catch (err) {
       console.error('Failed to fetch reports', err);
@@ -143,31 +132,14 @@ const AdminReports: React.FC = () => {
   return (
     <div className="p-6">
       <h1 className="text-2xl font-bold mb-6">{t('reports')}</h1>
-      <div className="mb-4 flex items-center gap-4">
-        <label className="text-sm font-medium">SYP rate (1 USD = )</label>
-        <input
-          type="number"
-          step="0.01"
-          className="border px-2 py-1 rounded w-32"
-          value={sypRate}
-          onChange={(e) => {
-              const v = Number(e.target.value);
-              const safe = isNaN(v) || v <= 0 ? 1 : v;
-              setSypRateState(safe);
-              if (!isNaN(v) && v > 0) {
-                setSypRate(v);
-                // persist to server (admin only route)
-                api.put('/settings/sypRate', { value: v }).catch((err) => console.warn('Failed to save syp rate', err));
-              }
-            }}
-        />
-        <div className="text-sm text-gray-600">Prices will display in SP</div>
+      <div className="mb-4 text-sm text-gray-600">
+        {t('currency.reportsNotice', 'Amounts are shown in {{currency}}. Exchange rates are managed in Settings.', { currency })}
       </div>
       
       <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6 mb-6">
         <Card>
           <CardContent className="pt-6">
-            <div className="text-2xl font-bold">{formatSypFromUsd(Number(totalRevenue || 0))}</div>
+            <div className="text-2xl font-bold">{formatPrice(Number(totalRevenue || 0))}</div>
             <p className="text-sm text-gray-500">{t('totalRevenue')}</p>
           </CardContent>
         </Card>
@@ -295,6 +267,42 @@ const AdminReports: React.FC = () => {
             </CardContent>
           </Card>
 
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-lg">{t('admin.promotions.redemptions', 'Promo code redemptions')}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {promotionRedemptions.length === 0 ? (
+                <div className="text-sm text-gray-500">{t('admin.promotions.noRedemptions', 'No promo codes redeemed this year')}</div>
+              ) : (
+                <div className="overflow-auto max-h-64">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left">
+                        <th>{t('admin.promotions.code', 'Code')}</th>
+                        <th>{t('admin.promotions.redemptionCount', 'Redemptions')}</th>
+                        <th>{t('admin.promotions.discountGiven', 'Discount given')}</th>
+                        <th>{t('admin.promotions.revenue', 'Revenue')}</th>
+                        <th>{t('admin.promotions.lastRedeemed', 'Last redeemed')}</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {promotionRedemptions.map((p) => (
+                        <tr key={p.code}>
+                          <td className="font-mono">{p.code}</td>
+                          <td>{p.redemptions}</td>
+                          <td>{formatPrice(p.discountUsd)}</td>
+                          <td>{formatPrice(p.revenueUsd)}</td>
+                          <td>{p.lastRedeemedAt ? new Date(p.lastRedeemedAt).toLocaleDateString() : ''}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
           <Card>
             <CardHeader>
                 <div className="flex items-center justify-between w-full">
@@ -326,7 +334,7 @@ const AdminReports: React.FC = () => {
                         <td>{(o.details && o.details.flightDetails && o.details.flightDetails.from) || ''}</td>
                         <td>{(o.details && o.details.flightDetails && o.details.flightDetails.to) || o.destination || ''}</td>
                         <td>{o.bookingDate ? new Date(o.bookingDate as any).toLocaleDateString() : (o.createdAt ? new Date(o.createdAt as any).toLocaleDateString() : '')}</td>
-                        <td>{formatSypFromUsd(o.amount ?? (o.details?.flightDetails?.selectedFlight?.price?.total ?? o.createdAt ? 0 : null))}</td>
+                        <td>{formatPrice(o.amount ?? (o.details?.flightDetails?.selectedFlight?.price?.total ?? o.createdAt ? 0 : null))}</td>
                         <td>{o.status}</td>
                       </tr>
                     ))}
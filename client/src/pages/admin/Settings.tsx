@@ -4,9 +4,15 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Button } from '@/components/ui/button';
 import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
+import { useCurrency } from '@/hooks/useCurrency';
 import api from '@/config/api';
-import { Loader2 } from 'lucide-react';
+import { useAuth } from '@/hooks/useAuth';
+import { currencyService, type CurrencyRateEntry } from '@/services/currencyService';
+import type { CurrencyCode } from '@/utils/currency';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
 
 interface IntegrationSettings {
   seeruTravelEnabled: boolean;
@@ -14,11 +20,18 @@ interface IntegrationSettings {
 
 const Settings: React.FC = () => {
   const { t } = useTranslation();
+  const { hasPermission } = useAuth();
+  const canManageSettings = hasPermission('settings:manage');
+  const canManageRates = hasPermission('currency:manage');
   const [settings, setSettings] = useState<IntegrationSettings>({
     seeruTravelEnabled: true,
   });
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
+  const { refreshRates } = useCurrency();
+  const [rateEntries, setRateEntries] = useState<CurrencyRateEntry[]>([]);
+  const [supportedCurrencies, setSupportedCurrencies] = useState<CurrencyCode[]>([]);
+  const [savingRates, setSavingRates] = useState(false);
 
   // Fetch current settings
   useEffect(() => {
@@ -48,6 +61,56 @@ const Settings: React.FC = () => {
     fetchSettings();
   }, [t]);
 
+  // Fetch the dated exchange rate schedule
+  useEffect(() => {
+    currencyService
+      .getRateSchedule()
+      .then((schedule) => {
+        setRateEntries(schedule.entries);
+        setSupportedCurrencies(schedule.supported);
+      })
+      .catch((error) => {
+        console.error('Failed to fetch currency rates:', error);
+      });
+  }, []);
+
+  const handleRateEntryChange = (index: number, patch: Partial<CurrencyRateEntry>) => {
+    setRateEntries(prev => prev.map((entry, i) => (i === index ? { ...entry, ...patch } : entry)));
+  };
+
+  const handleAddRateEntry = () => {
+    setRateEntries(prev => [
+      ...prev,
+      { currency: supportedCurrencies[0] || 'SYP', rate: 0, effectiveFrom: new Date().toISOString() },
+    ]);
+  };
+
+  const handleRemoveRateEntry = (index: number) => {
+    setRateEntries(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSaveRates = async () => {
+    try {
+      setSavingRates(true);
+      const schedule = await currencyService.updateRateSchedule(rateEntries);
+      setRateEntries(schedule.entries);
+      await refreshRates();
+      toast({
+        title: t('success', 'Success'),
+        description: t('currency.ratesSaved', 'Exchange rates saved'),
+      });
+    } catch (error) {
+      console.error('Failed to save currency rates:', error);
+      toast({
+        title: t('error', 'Error'),
+        description: error instanceof Error ? error.message : t('failedToUpdateSettings', 'Failed to update settings'),
+        variant: 'destructive',
+      });
+    } finally {
+      setSavingRates(false);
+    }
+  };
+
   const handleToggleSeeruTravel = async (enabled: boolean) => {
     try {
       setSaving(true);
@@ -124,7 +187,7 @@ const Settings: React.FC = () => {
               <Switch
                 checked={settings.seeruTravelEnabled}
                 onCheckedChange={handleToggleSeeruTravel}
-                disabled={saving}
+                disabled={saving || !canManageSettings}
               />
             </div>
           </div>
@@ -148,6 +211,74 @@ const Settings: React.FC = () => {
           </div>
         </CardContent>
       </Card>
+
+      {/* Exchange Rates */}
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('currency.ratesTitle', 'Exchange rates')}</CardTitle>
+          <CardDescription>
+            {t('currency.ratesDescription', 'Rates convert USD fares into other currencies. Each rate applies from its effective date until a newer rate takes over. Payments are charged in SYP using the rate in force.')}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {rateEntries.length === 0 && (
+            <p className="text-sm text-gray-500">{t('currency.noRates', 'No exchange rates configured yet.')}</p>
+          )}
+          {rateEntries.map((entry, index) => (
+            <div key={index} className="grid grid-cols-1 md:grid-cols-[140px_1fr_1fr_auto] gap-3 items-end">
+              <div className="space-y-1">
+                <Label>{t('currency.currency', 'Currency')}</Label>
+                <Select
+                  value={entry.currency}
+                  onValueChange={(value) => handleRateEntryChange(index, { currency: value as CurrencyCode })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {supportedCurrencies.map((code) => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label>{t('currency.rate', 'Rate (1 USD =)')}</Label>
+                <Input
+                  type="number"
+                  step="0.0001"
+                  min="0"
+                  value={entry.rate}
+                  onChange={(e) => handleRateEntryChange(index, { rate: Number(e.target.value) })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>{t('currency.effectiveFrom', 'Effective from')}</Label>
+                <Input
+                  type="date"
+                  value={entry.effectiveFrom ? entry.effectiveFrom.slice(0, 10) : ''}
+                  onChange={(e) => handleRateEntryChange(index, {
+                    effectiveFrom: e.target.value ? new Date(`${e.target.value}T00:00:00Z`).toISOString() : '',
+                  })}
+                />
+              </div>
+              <Button variant="ghost" size="icon" onClick={() => handleRemoveRateEntry(index)}>
+                <Trash2 className="h-4 w-4 text-red-600" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex justify-between">
+            <Button variant="outline" onClick={handleAddRateEntry} className="flex items-center gap-2">
+              <Plus className="h-4 w-4" />
+              {t('currency.addRate', 'Add rate')}
+            </Button>
+            <Button onClick={handleSaveRates} disabled={savingRates || !canManageRates}>
+              {savingRates && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              {t('save', 'Save')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 };
@@ -7,7 +7,7 @@ import { toastSuccess, toastError, confirmDialog } from '@/utils/i18nToast';
 import { useTranslation } from 'react-i18next';
 
 const AdminSupport: React.FC = () => {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const [tab, setTab] = useState<'send' | 'messages' | 'email'>('send');
 
   // send form states
@@ -123,7 +123,7 @@ const AdminSupport: React.FC = () => {
     if (tab === 'messages') fetchMessages();
   }, [tab, fetchMessages]);
 
-  if (!user || user.role !== 'admin') {
+  if (!user || !hasPermission('support:manage')) {
     return (
       <AdminLayout>
         <div className="p-8">{t('admin.support.notAuthorized')}</div>
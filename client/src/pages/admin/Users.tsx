@@ -13,6 +13,7 @@ import axios from 'axios';
 import api from '@/config/api';
 import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
+import { useAuth } from '@/hooks/useAuth';
 interface User {
   _id?: string;
   id?: number | string;
@@ -25,8 +26,12 @@ interface User {
   status?: string;
 }
 
+const ROLE_OPTIONS = ['user', 'admin', 'finance', 'support', 'content_editor'];
+
 const AdminUsers = () => {
   const { t } = useTranslation();
+  const { hasPermission } = useAuth();
+  const canManageUsers = hasPermission('users:manage');
   const [users, setUsers] = useState<User[]>([]);
   const [loading, setLoading] = useState(true);
   const navigate = useNavigate();
@@ -293,7 +298,7 @@ const AdminUsers = () => {
                 />
               </div>
               
-              {selectedUsers.length > 0 && (
+              {selectedUsers.length > 0 && canManageUsers && (
                 <div className="flex items-center space-x-2">
                   <span className="text-sm text-gray-500">
                     {t('admin.users.selected', { count: selectedUsers.length, defaultValue: `${selectedUsers.length} users selected` })}
@@ -374,9 +379,9 @@ const AdminUsers = () => {
                       </TableCell>
                       <TableCell>
                         <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${
-                          roleLabel === 'Admin' 
+                          user.role === 'admin' 
                             ? 'bg-purple-100 text-purple-800' 
-                            : roleLabel === 'Editor' 
+                            : user.role && user.role !== 'user' 
                               ? 'bg-blue-100 text-blue-800' 
                               : 'bg-gray-100 text-gray-800'
                         }`}>
@@ -403,7 +408,7 @@ const AdminUsers = () => {
                             <DropdownMenuItem onClick={() => viewUserDetails(id)}>
                               {t('admin.users.viewDetails', { defaultValue: 'View Details' })}
                             </DropdownMenuItem>
-                            {statusLabel === 'Active' ? (
+                            {canManageUsers && (statusLabel === 'Active' ? (
                               <DropdownMenuItem onClick={() => changeUserStatus(id, 'Inactive')}>
                                 {t('admin.users.deactivate', { defaultValue: 'Deactivate' })}
                               </DropdownMenuItem>
@@ -411,15 +416,19 @@ const AdminUsers = () => {
                                 <DropdownMenuItem onClick={() => changeUserStatus(id, 'Active')}>
                                   {t('admin.users.activate', { defaultValue: 'Activate' })}
                                 </DropdownMenuItem>
-                            )}
+                            ))}
+                            {canManageUsers && (
                             <DropdownMenuItem 
                                 onClick={() => changeUserRole(id, roleLabel === t('roles.admin', { defaultValue: 'Admin' }) ? 'User' : 'Admin')}
                             >
                                 {t('admin.users.changeRole', { defaultValue: 'Change Role' })}
                             </DropdownMenuItem>
+                            )}
+                            {hasPermission('users:delete') && (
                               <DropdownMenuItem onClick={() => deleteUser(id)} className="text-red-600">
                                 {t('admin.users.delete', { defaultValue: 'Delete' })}
                               </DropdownMenuItem>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
@@ -471,8 +480,9 @@ const AdminUsers = () => {
                       <div>
                         <label className="block text-sm text-gray-600">{t('admin.users.role', { defaultValue: 'Role' })}</label>
                         <select className="mt-1 w-full border rounded px-2 py-1" value={editForm.role} onChange={(e) => setEditForm(f => ({ ...f, role: e.target.value }))}>
-                          <option value="user">User</option>
-                          <option value="admin">Admin</option>
+                          {ROLE_OPTIONS.map(role => (
+                            <option key={role} value={role}>{t(`roles.${role}`, { defaultValue: role })}</option>
+                          ))}
                         </select>
                       </div>
                       <div>
@@ -488,7 +498,7 @@ const AdminUsers = () => {
                     <Button variant="ghost" onClick={() => { setShowModal(false); setModalUser(null); }}>
                       {t('cancel', { defaultValue: 'Cancel' })}
                     </Button>
-                    <Button onClick={saveUserEdits}>
+                    <Button onClick={saveUserEdits} disabled={!canManageUsers}>
                       {t('save', { defaultValue: 'Save' })}
                     </Button>
                   </div>
@@ -0,0 +1,231 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { format } from 'date-fns';
+import { Loader2, RefreshCw, RotateCcw } from 'lucide-react';
+import api from '@/config/api';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toastSuccess, toastError } from '@/utils/i18nToast';
+
+type WebhookEventStatus = 'received' | 'processing' | 'processed' | 'failed' | 'dead';
+
+interface WebhookEvent {
+  _id: string;
+  provider: string;
+  event: string;
+  orderId: string;
+  payload: Record<string, unknown>;
+  signatureValid: boolean;
+  status: WebhookEventStatus;
+  attempts: number;
+  deliveries: number;
+  lastError?: string;
+  nextAttemptAt?: string;
+  processedAt?: string;
+  lastReplayedBy?: string;
+  createdAt: string;
+}
+
+const STATUS_FILTERS: Array<WebhookEventStatus | ''> = ['', 'failed', 'dead', 'processed', 'processing', 'received'];
+
+const STATUS_BADGE: Record<WebhookEventStatus, string> = {
+  received: 'bg-gray-100 text-gray-800',
+  processing: 'bg-blue-100 text-blue-800',
+  processed: 'bg-green-100 text-green-800',
+  failed: 'bg-yellow-100 text-yellow-800',
+  dead: 'bg-red-100 text-red-800',
+};
+
+const WebhookEvents: React.FC = () => {
+  const { t } = useTranslation();
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState<WebhookEventStatus | ''>('');
+  const [orderFilter, setOrderFilter] = useState('');
+  const [page, setPage] = useState(1);
+  const [pages, setPages] = useState(1);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const [selected, setSelected] = useState<WebhookEvent | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    setLoading(true);
+    try {
+      const params: Record<string, string | number> = { page };
+      if (statusFilter) params.status = statusFilter;
+      if (orderFilter.trim()) params.orderId = orderFilter.trim();
+      const resp = await api.get('/admin/webhook-events', { params });
+      if (!resp.data?.success) {
+        throw new Error(resp.data?.message || 'Failed to load webhook events');
+      }
+      setEvents(resp.data.data);
+      setPages(resp.data.pages || 1);
+    } catch (err) {
+      console.error('Failed to load webhook events', err);
+      toastError('تعذر تحميل أحداث الويب هوك', 'Failed to load webhook events');
+      setEvents([]);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, statusFilter, orderFilter]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const handleReplay = async (event: WebhookEvent) => {
+    try {
+      setReplayingId(event._id);
+      const resp = await api.post(`/admin/webhook-events/${event._id}/replay`);
+      const updated: WebhookEvent | undefined = resp.data?.data;
+      if (updated) {
+        setEvents(prev => prev.map(e => (e._id === updated._id ? updated : e)));
+        setSelected(prev => (prev && prev._id === updated._id ? updated : prev));
+      }
+      if (resp.data?.success) {
+        toastSuccess('تمت إعادة تشغيل الحدث', 'Event replayed');
+      } else {
+        toastError('فشلت إعادة التشغيل', resp.data?.message || 'Replay failed');
+      }
+    } catch (err) {
+      console.error('Replay failed', err);
+      toastError('فشلت إعادة التشغيل', 'Replay failed');
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const formatDateTime = (value?: string) => (value ? format(new Date(value), 'yyyy-MM-dd HH:mm:ss') : '-');
+
+  return (
+    <div className="p-8 space-y-6">
+      <div className="flex justify-center items-center">
+        <h1 className="text-3xl font-bold">{t('admin.webhooks.title', 'Supplier Webhooks')}</h1>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          <div className="flex flex-wrap items-center gap-4">
+            <select
+              value={statusFilter}
+              onChange={(e) => { setPage(1); setStatusFilter(e.target.value as WebhookEventStatus | ''); }}
+              className="px-3 py-2 border border-gray-300 rounded-md"
+            >
+              {STATUS_FILTERS.map(status => (
+                <option key={status || 'all'} value={status}>
+                  {status ? t(`admin.webhooks.status.${status}`, status) : t('admin.webhooks.allStatuses', 'All statuses')}
+                </option>
+              ))}
+            </select>
+            <Input
+              className="max-w-xs"
+              placeholder={t('admin.webhooks.orderIdPlaceholder', 'Seeru order ID')}
+              value={orderFilter}
+              onChange={(e) => { setPage(1); setOrderFilter(e.target.value); }}
+            />
+            <Button variant="outline" onClick={fetchEvents} className="flex items-center gap-2">
+              <RefreshCw className="h-4 w-4" />
+              {t('admin.webhooks.refresh', 'Refresh')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-0">
+          {loading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-6 w-6 animate-spin text-tourtastic-blue" />
+            </div>
+          ) : events.length === 0 ? (
+            <p className="text-center text-gray-500 py-12">{t('admin.webhooks.empty', 'No webhook events')}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('admin.webhooks.received', 'Received')}</TableHead>
+                  <TableHead>{t('admin.webhooks.event', 'Event')}</TableHead>
+                  <TableHead>{t('admin.webhooks.orderId', 'Order ID')}</TableHead>
+                  <TableHead>{t('status', 'Status')}</TableHead>
+                  <TableHead>{t('admin.webhooks.attempts', 'Attempts')}</TableHead>
+                  <TableHead>{t('admin.webhooks.lastError', 'Last error')}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {events.map(event => (
+                  <TableRow key={event._id} className="cursor-pointer" onClick={() => setSelected(event)}>
+                    <TableCell className="whitespace-nowrap">{formatDateTime(event.createdAt)}</TableCell>
+                    <TableCell className="font-mono text-sm">{event.event}</TableCell>
+                    <TableCell className="font-mono text-sm">{event.orderId}</TableCell>
+                    <TableCell>
+                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_BADGE[event.status]}`}>
+                        {t(`admin.webhooks.status.${event.status}`, event.status)}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {event.attempts}
+                      {event.deliveries > 1 && (
+                        <span className="text-xs text-gray-500"> ({t('admin.webhooks.deliveries', '{{count}} deliveries', { count: event.deliveries })})</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate text-sm text-red-700" title={event.lastError}>{event.lastError || '-'}</TableCell>
+                    <TableCell>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        disabled={replayingId === event._id || event.status === 'processing'}
+                        onClick={(e) => { e.stopPropagation(); handleReplay(event); }}
+                        className="flex items-center gap-1"
+                      >
+                        {replayingId === event._id ? <Loader2 className="h-3 w-3 animate-spin" /> : <RotateCcw className="h-3 w-3" />}
+                        {t('admin.webhooks.replay', 'Replay')}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {pages > 1 && (
+        <div className="flex justify-center items-center gap-4">
+          <Button variant="outline" disabled={page <= 1} onClick={() => setPage(p => p - 1)}>
+            {t('admin.bookings.previous', 'Previous')}
+          </Button>
+          <span className="text-sm">{page} / {pages}</span>
+          <Button variant="outline" disabled={page >= pages} onClick={() => setPage(p => p + 1)}>
+            {t('admin.bookings.next', 'Next')}
+          </Button>
+        </div>
+      )}
+
+      <Dialog open={!!selected} onOpenChange={(open) => { if (!open) setSelected(null); }}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{selected?.event}</DialogTitle>
+            <DialogDescription>{selected?.orderId}</DialogDescription>
+          </DialogHeader>
+          {selected && (
+            <div className="space-y-2 text-sm">
+              <div>{t('admin.webhooks.signature', 'Signature')}: {selected.signatureValid ? t('admin.webhooks.verified', 'Verified') : t('admin.webhooks.unsigned', 'Not verified')}</div>
+              <div>{t('admin.webhooks.processedAt', 'Processed at')}: {formatDateTime(selected.processedAt)}</div>
+              {selected.nextAttemptAt && <div>{t('admin.webhooks.nextAttempt', 'Next retry')}: {formatDateTime(selected.nextAttemptAt)}</div>}
+              {selected.lastReplayedBy && <div>{t('admin.webhooks.replayedBy', 'Last replayed by')}: {selected.lastReplayedBy}</div>}
+              {selected.lastError && <div className="text-red-700">{selected.lastError}</div>}
+              <pre className="bg-gray-50 border rounded p-3 max-h-[50vh] overflow-auto text-xs" dir="ltr">
+                {JSON.stringify(selected.payload, null, 2)}
+              </pre>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default WebhookEvents;
@@ -60,58 +60,14 @@ const Login: React.FC = () => {
           },
           response.data.user
         );
-        
-        // Sync local cart items if any exist
-        const localCartItems = JSON.parse(localStorage.getItem('cartItems') || '[]');
-        if (localCartItems.length > 0) {
-          try {
-            // Create bookings for each local cart item
-                for (const raw of localCartItems) {
-                  // Normalize dates: server expects `departureDate`
-                  const departureDate = raw.departureDate || raw.departureTime || raw.departure_time ||
-                    raw.selectedFlight?.departureTime || raw.selectedFlight?.legs?.[0]?.from?.date || null;
-
-                  // Build payload matching bookingController expectations
-                  const flightDetails = {
-                    from: raw.from || raw.origin || raw.fromLabel || '',
-                    to: raw.to || raw.destination || raw.toLabel || '',
-                    fromIata: raw.fromIata || raw.originIata || null,
-                    toIata: raw.toIata || raw.destinationIata || null,
-                    departureDate,
-                    passengers: raw.passengers || { adults: 1, children: 0, infants: 0 },
-                    selectedFlight: {
-                      flightId: raw.flightId || raw.flightnumber || raw.trip_id || raw.selectedFlight?.flightId || '',
-                      airline: raw.airline || raw.selectedFlight?.airline || '',
-                      airlineCode: raw.airlineCode || raw.selectedFlight?.airlineCode || null,
-                      airlineLogo: raw.airlineLogo || raw.selectedFlight?.airlineLogo || null,
-                      departureTime: raw.departureTime || departureDate || raw.selectedFlight?.departureTime || null,
-                      arrivalTime: raw.arrivalTime || raw.selectedFlight?.arrivalTime || null,
-                      price: {
-                        total: (raw.price && typeof raw.price === 'object' ? (Number(raw.price.total || raw.price.amount || 0) || 0) : Number(raw.price || 0)) || 0,
-                        currency: (raw.price && typeof raw.price === 'object' ? (raw.price.currency || raw.price.currency_code) : raw.currency) || 'USD'
-                      },
-                      class: raw.class || raw.cabin || raw.selectedFlight?.class || 'economy',
-                      // Keep raw as well for maximum compatibility (server stores under selectedFlight.raw)
-                      raw,
-                    },
-                  };
-
-                  await api.post('/bookings', { flightDetails });
-                }
-            // Clear local cart after successful sync
-            localStorage.removeItem('cartItems');
-          } catch (error) {
-            console.error('Failed to sync cart items to bookings:', error);
-          }
-        }
 
         toast({
           title: lang === 'ar' ? 'نجاح' : 'Success',
           description: lang === 'ar' ? 'تم تسجيل الدخول بنجاح' : 'Successfully logged in',
         });
 
-        // If admin, go straight to admin dashboard
-        if (response.data.user?.role === 'admin') {
+        // Staff go straight to the admin area
+        if (response.data.user?.permissions?.length || response.data.user?.role === 'admin') {
           navigate('/admin');
         } else {
           // Check if we should redirect to cart for checkout
@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useCallback } from 'react';
 import { useNavigate } from 'react-router-dom';
 import axios from 'axios';
+import api from '@/config/api';
 import { AuthContext, type AuthContextType, type User } from '../contexts/auth-context-types';
 
 interface AuthProviderProps {
@@ -26,6 +27,22 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setLoading(false);
   }, []);
 
+  // Keep role and permissions current; they may have changed since the user was stored
+  useEffect(() => {
+    if (!localStorage.getItem('token')) return;
+    api.get('/auth/me')
+      .then(resp => {
+        const me = resp.data?.data;
+        if (!resp.data?.success || !me || !localStorage.getItem('token')) return;
+        setUser(prev => {
+          const next = { ...(prev ?? {}), ...me, id: me._id ?? prev?.id } as User;
+          localStorage.setItem('user', JSON.stringify(next));
+          return next;
+        });
+      })
+      .catch(err => console.warn('Could not refresh the signed-in user', err));
+  }, [token]);
+
   const login = (tokens: { accessToken: string, refreshToken: string }, userData: User) => {
     localStorage.setItem('token', tokens.accessToken);
     localStorage.setItem('refreshToken', tokens.refreshToken);
@@ -94,6 +111,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     };
   }, [refreshAccessToken]);
 
+  const hasPermission = useCallback((permission: string) => {
+    if (!user) return false;
+    return user.role === 'admin' || (user.permissions ?? []).includes(permission);
+  }, [user]);
+
+  const isStaff = !!user && (user.role === 'admin' || (user.permissions ?? []).length > 0);
+
   const value: AuthContextType = {
     isAuthenticated,
     token,
@@ -101,7 +125,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     loading,
     error,
     login,
-    logout
+    logout,
+    isStaff,
+    hasPermission
   };
 
   return (
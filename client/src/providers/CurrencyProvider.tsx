@@ -0,0 +1,67 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import api from '../config/api';
+import { CurrencyContext, type CurrencyContextType } from '../contexts/currency-context-types';
+import {
+  BASE_CURRENCY,
+  formatPrice as formatPriceIn,
+  getCachedRates,
+  getStoredCurrency,
+  setCachedRates,
+  setStoredCurrency,
+  type CurrencyCode,
+  type CurrencyRates,
+} from '../utils/currency';
+
+interface CurrencyProviderProps {
+  children: React.ReactNode;
+}
+
+export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children }) => {
+  const [currency, setCurrencyState] = useState<CurrencyCode>(getStoredCurrency());
+  const [rates, setRates] = useState<CurrencyRates>(getCachedRates());
+  const [currencies, setCurrencies] = useState<CurrencyCode[]>([BASE_CURRENCY]);
+  const [loading, setLoading] = useState(true);
+
+  const refreshRates = useCallback(async () => {
+    try {
+      const response = await api.get('/currency/rates');
+      if (response.data?.success && response.data.data) {
+        const { rates: activeRates, currencies: available } = response.data.data as {
+          rates: CurrencyRates;
+          currencies: CurrencyCode[];
+        };
+        setRates(activeRates);
+        setCachedRates(activeRates);
+        if (Array.isArray(available) && available.length > 0) {
+          setCurrencies(available);
+        }
+      }
+    } catch (error) {
+      // Keep the cached rates when the server is unreachable
+      console.error('Failed to load currency rates:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshRates();
+  }, [refreshRates]);
+
+  const setCurrency = useCallback((next: CurrencyCode) => {
+    setStoredCurrency(next);
+    setCurrencyState(next);
+  }, []);
+
+  const value = useMemo<CurrencyContextType>(() => ({
+    currency,
+    currencies,
+    rates,
+    loading,
+    setCurrency,
+    refreshRates,
+    formatPrice: (amountUsd, opts) => formatPriceIn(amountUsd, currency, rates, opts),
+  }), [currency, currencies, rates, loading, setCurrency, refreshRates]);
+
+  return <CurrencyContext.Provider value={value}>{children}</CurrencyContext.Provider>;
+};
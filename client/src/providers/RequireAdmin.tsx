@@ -4,10 +4,19 @@ import { useAuth } from '@/hooks/useAuth';
 
 interface RequireAdminProps {
   children: React.ReactNode;
+  /** Permission the page needs; without it any staff role may enter */
+  permission?: string;
 }
 
-export const RequireAdmin: React.FC<RequireAdminProps> = ({ children }) => {
-  const { user, loading } = useAuth();
+// Where staff land when they open a page their role does not cover
+const LANDING_PAGES: Array<[string, string]> = [
+  ['/admin/reports', 'reports:view'],
+  ['/admin/bookings', 'bookings:view'],
+  ['/admin/destinations', 'destinations:manage'],
+];
+
+export const RequireAdmin: React.FC<RequireAdminProps> = ({ children, permission }) => {
+  const { user, loading, isStaff, hasPermission } = useAuth();
   const location = useLocation();
 
   if (loading) {
@@ -23,11 +32,17 @@ export const RequireAdmin: React.FC<RequireAdminProps> = ({ children }) => {
     return <Navigate to="/login" state={{ from: location }} replace />;
   }
 
-  // If authenticated but not admin, redirect to home
-  if (user.role !== 'admin') {
+  // If authenticated but not staff, redirect to home
+  if (!isStaff) {
     return <Navigate to="/" replace />;
   }
 
-  // If admin, render children
+  // Staff without this page's permission go to the first page they can use
+  if (permission && !hasPermission(permission)) {
+    const landing = LANDING_PAGES.find(([, required]) => hasPermission(required));
+    return <Navigate to={landing ? landing[0] : '/admin/profile'} replace />;
+  }
+
+  // If permitted, render children
   return <>{children}</>;
 };
@@ -20,6 +20,7 @@ const PaymentSuccess = lazy(() => import('./pages/PaymentSuccess'));
 const Cart = lazy(() => import('./pages/Cart'));
 const Profile = lazy(() => import('./pages/Profile'));
 const Notifications = lazy(() => import('./pages/Notifications'));
+const FindBooking = lazy(() => import('./pages/FindBooking'));
 const AdminLayout = lazy(() => import('./components/layout/AdminLayout'));
 const AdminBookings = lazy(() => import('./pages/admin/Bookings'));
 const AdminProfile = lazy(() => import('./pages/admin/Profile'));
@@ -28,6 +29,10 @@ const AdminDestinations = lazy(() => import('./pages/admin/Destinations'));
 const AdminReports = lazy(() => import('./pages/admin/Reports'));
 const AdminSupport = lazy(() => import('./pages/admin/Support'));
 const AdminSettings = lazy(() => import('./pages/admin/Settings'));
+const AdminWebhookEvents = lazy(() => import('./pages/admin/WebhookEvents'));
+const AdminAuditLog = lazy(() => import('./pages/admin/AuditLog'));
+const AdminPricingRules = lazy(() => import('./pages/admin/PricingRules'));
+const AdminPromotions = lazy(() => import('./pages/admin/Promotions'));
 // Support pages
 const Support247 = lazy(() => import('./pages/support/Support247'));
 const HelpCenter = lazy(() => import('./pages/support/HelpCenter'));
@@ -61,6 +66,7 @@ const AppRoutes = () => {
         <Route path="/forgot-password" element={<Suspense fallback={<PageLoader />}><ForgotPassword /></Suspense>} />
         <Route path="/payment/success" element={<Suspense fallback={<PageLoader />}><PaymentSuccess /></Suspense>} />
         <Route path="/cart" element={<Suspense fallback={<PageLoader />}><Cart /></Suspense>} />
+        <Route path="/find-booking" element={<Suspense fallback={<PageLoader />}><FindBooking /></Suspense>} />
 
         {/* Protected User Routes (still use main Layout) */}
         <Route path="/profile" element={<RequireAuth><Suspense fallback={<PageLoader />}><Profile /></Suspense></RequireAuth>} />
@@ -81,14 +87,18 @@ const AppRoutes = () => {
 
       {/* Admin Routes - NOT wrapped by main site Layout so only AdminLayout is used */}
 
-  <Route path="/admin" element={<RequireAdmin><Suspense fallback={<PageLoader />}><AdminLayout><AdminReports /></AdminLayout></Suspense></RequireAdmin>} />
-  <Route path="/admin/bookings" element={<RequireAdmin><Suspense fallback={<PageLoader />}><AdminLayout><AdminBookings /></AdminLayout></Suspense></RequireAdmin>} />
-      <Route path="/admin/users" element={<RequireAdmin><Suspense fallback={<PageLoader />}><AdminLayout><AdminUsers /></AdminLayout></Suspense></RequireAdmin>} />
-      <Route path="/admin/destinations" element={<RequireAdmin><Suspense fallback={<PageLoader />}><AdminLayout><AdminDestinations /></AdminLayout></Suspense></RequireAdmin>} />
-      <Route path="/admin/reports" element={<RequireAdmin><Suspense fallback={<PageLoader />}><AdminLayout><AdminReports /></AdminLayout></Suspense></RequireAdmin>} />
+  <Route path="/admin" element={<RequireAdmin permission="reports:view"><Suspense fallback={<PageLoader />}><AdminLayout><AdminReports /></AdminLayout></Suspense></RequireAdmin>} />
+  <Route path="/admin/bookings" element={<RequireAdmin permission="bookings:view"><Suspense fallback={<PageLoader />}><AdminLayout><AdminBookings /></AdminLayout></Suspense></RequireAdmin>} />
+      <Route path="/admin/users" element={<RequireAdmin permission="users:view"><Suspense fallback={<PageLoader />}><AdminLayout><AdminUsers /></AdminLayout></Suspense></RequireAdmin>} />
+      <Route path="/admin/destinations" element={<RequireAdmin permission="destinations:manage"><Suspense fallback={<PageLoader />}><AdminLayout><AdminDestinations /></AdminLayout></Suspense></RequireAdmin>} />
+      <Route path="/admin/reports" element={<RequireAdmin permission="reports:view"><Suspense fallback={<PageLoader />}><AdminLayout><AdminReports /></AdminLayout></Suspense></RequireAdmin>} />
       <Route path="/admin/profile" element={<RequireAdmin><Suspense fallback={<PageLoader />}><AdminLayout><AdminProfile /></AdminLayout></Suspense></RequireAdmin>} />
-  <Route path="/admin/support" element={<RequireAdmin><Suspense fallback={<PageLoader />}><AdminLayout><AdminSupport /></AdminLayout></Suspense></RequireAdmin>} />
-      <Route path="/admin/settings" element={<RequireAdmin><Suspense fallback={<PageLoader />}><AdminLayout><AdminSettings /></AdminLayout></Suspense></RequireAdmin>} />
+  <Route path="/admin/support" element={<RequireAdmin permission="support:manage"><Suspense fallback={<PageLoader />}><AdminLayout><AdminSupport /></AdminLayout></Suspense></RequireAdmin>} />
+      <Route path="/admin/webhook-events" element={<RequireAdmin permission="webhooks:view"><Suspense fallback={<PageLoader />}><AdminLayout><AdminWebhookEvents /></AdminLayout></Suspense></RequireAdmin>} />
+      <Route path="/admin/audit" element={<RequireAdmin permission="audit:view"><Suspense fallback={<PageLoader />}><AdminLayout><AdminAuditLog /></AdminLayout></Suspense></RequireAdmin>} />
+      <Route path="/admin/pricing-rules" element={<RequireAdmin permission="pricing:manage"><Suspense fallback={<PageLoader />}><AdminLayout><AdminPricingRules /></AdminLayout></Suspense></RequireAdmin>} />
+      <Route path="/admin/promotions" element={<RequireAdmin permission="promotions:manage"><Suspense fallback={<PageLoader />}><AdminLayout><AdminPromotions /></AdminLayout></Suspense></RequireAdmin>} />
+      <Route path="/admin/settings" element={<RequireAdmin permission="settings:view"><Suspense fallback={<PageLoader />}><AdminLayout><AdminSettings /></AdminLayout></Suspense></RequireAdmin>} />
     </Routes>
   );
 };
@@ -0,0 +1,31 @@
+import api from '../config/api';
+import type { Flight } from './flightService';
+
+export interface RetrievedPassenger {
+  firstName: string;
+  lastName: string;
+  type: 'ADT' | 'CHD' | 'INF' | string;
+  ticketNumbers: string[];
+}
+
+export interface RetrievedBooking {
+  orderId: string | null;
+  reservationNo: string | null;
+  airlinePnr: string | null;
+  status: string | null;
+  ticketUrl: string | null;
+  passengers: RetrievedPassenger[];
+  flight: Flight;
+}
+
+class BookingLookupService {
+  async retrieveByPnr(airlinePnr: string, lastName: string): Promise<RetrievedBooking> {
+    const response = await api.post('/seeru/retrieve-ticket', { airlinePnr, lastName });
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'No booking found');
+    }
+    return response.data.data;
+  }
+}
+
+export const bookingLookupService = new BookingLookupService();
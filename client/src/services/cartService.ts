@@ -1,24 +1,134 @@
-import api from './api';
+import api from '../config/api';
+import { PromoCodeError } from './promotionService';
+import { FareCheckError, isFareCheckReason, type FareCheck } from './fareCheckService';
 
-export interface CartItem {
+const SESSION_ID_KEY = 'sessionId';
+// Guest carts used to live in localStorage before the server kept them
+const LEGACY_CART_KEY = 'cartItems';
+
+export interface CartPassengerCount {
+  adults: number;
+  children: number;
+  infants: number;
+}
+
+export interface CartPassengerDetails {
+  type: 'adult' | 'child' | 'infant';
+  firstName: string;
+  lastName: string;
+  gender?: string;
+  dob?: string | null;
+  passportNumber?: string;
+  passportIssueDate?: string | null;
+  passportExpiryDate?: string | null;
+  passportCountry?: string;
+  nationality?: string;
+  phone?: string;
+  email?: string;
+}
+
+export interface CartSelectedFlight {
+  flightId: string;
+  airline: string;
+  airlineCode?: string | null;
+  airlineLogo?: string | null;
+  departureTime: string;
+  arrivalTime: string;
+  price: {
+    total: number;
+    currency: string;
+  };
+  class: string;
+  fareKey?: string;
+  raw?: Record<string, unknown>;
+}
+
+export interface CartTransaction {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+  createdAt: string;
+}
+
+// Fare reserved with the supplier; unpaid holds are released at expiresAt
+export interface FareHold {
+  requestedAt: string;
+  expiresAt: string;
+  expirySource?: 'supplier' | 'default';
+  releasedAt?: string | null;
+  releaseReason?: string | null;
+}
+
+// Logged-in carts are FlightBookings; guest items are returned in the same shape with isGuest set
+export interface CartBooking {
+  _id: string;
   bookingId: string;
-  type: string;
-  name: string;
-  image: string;
-  details: string;
-  price: number;
-  quantity: number;
+  isGuest?: boolean;
+  customerName: string;
+  customerEmail: string;
+  flightDetails: {
+    from: string;
+    to: string;
+    fromIata?: string | null;
+    toIata?: string | null;
+    departureDate: string;
+    passengers: CartPassengerCount;
+    passengerDetails?: CartPassengerDetails[];
+    selectedFlight: CartSelectedFlight;
+  };
+  passengerDetails?: CartPassengerDetails[];
+  status: string;
+  paymentDetails: {
+    status: string;
+    currency: string;
+    transactions: CartTransaction[];
+  };
+  hold?: FareHold | null;
+  fareCheck?: Partial<FareCheck> | null;
+  createdAt: string;
 }
 
-export interface PaymentDetails {
-  cardholderName: string;
-  cardNumber: string;
-  expiryDate: string;
-  cvc: string;
+// Payload accepted by POST /cart; selectedFlight may be the raw search result
+export interface AddToCartFlightDetails {
+  from: string;
+  to: string;
+  fromIata?: string | null;
+  toIata?: string | null;
+  departureDate: string;
+  passengers: CartPassengerCount;
+  selectedFlight: Record<string, unknown>;
+}
+
+export interface CartCheckoutResult {
+  url: string;
+  orderRef: string;
+  amount: number;
+  currency: string;
+}
+
+interface LegacyCartItem {
+  from: string;
+  to: string;
+  fromIata?: string | null;
+  toIata?: string | null;
+  departureTime: string;
+  arrivalTime?: string;
+  passengers?: CartPassengerCount;
+  passengerDetails?: CartPassengerDetails[];
+  flightId?: string;
+  airline?: string;
+  price?: number;
+  currency?: string;
+  class?: string;
+  selectedFlight?: Record<string, unknown>;
 }
 
 class CartService {
-  async getCartItems(): Promise<CartItem[]> {
+  private legacyMigration: Promise<void> | null = null;
+
+  async getCart(): Promise<CartBooking[]> {
+    await this.migrateLegacyCart();
     const response = await api.get('/cart');
     if (!response.data.success) {
       throw new Error(response.data.message || 'Failed to load cart items');
@@ -26,7 +136,19 @@ class CartService {
     return response.data.data;
   }
 
-  async removeFromCart(itemId: string): Promise<void> {
+  async addFlight(flightDetails: AddToCartFlightDetails): Promise<CartBooking> {
+    const response = await api.post('/cart', { flightDetails });
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to add flight to cart');
+    }
+    // The server issues a guest session id on the first anonymous add
+    if (response.data.sessionId) {
+      localStorage.setItem(SESSION_ID_KEY, response.data.sessionId);
+    }
+    return response.data.data;
+  }
+
+  async removeItem(itemId: string): Promise<void> {
     if (!itemId) {
       throw new Error('Item ID is required');
     }
@@ -36,21 +158,79 @@ class CartService {
     }
   }
 
-  async updateQuantity(itemId: string, quantity: number): Promise<void> {
-    if (!itemId) {
-      throw new Error('Item ID is required');
-    }
-    const response = await api.patch(`/cart/${itemId}`, { quantity });
+  async savePassengers(itemId: string, passengerDetails: CartPassengerDetails[]): Promise<CartBooking> {
+    const response = await api.post(`/cart/${itemId}/passengers`, { passengerDetails });
     if (!response.data.success) {
-      throw new Error(response.data.message || 'Failed to update quantity');
+      throw new Error(response.data.message || 'Failed to save passenger details');
     }
+    return response.data.data;
   }
 
-  async checkout(): Promise<void> {
-    const response = await api.post('/cart/checkout');
+  // Reserves the fare with the supplier so it can be paid later
+  async holdFare(itemId: string): Promise<CartBooking> {
+    const response = await api.post(`/bookings/${itemId}/hold`);
     if (!response.data.success) {
-      throw new Error(response.data.message || 'Failed to confirm booking');
+      throw new Error(response.data.message || 'Failed to hold this fare');
+    }
+    return response.data.data;
+  }
+
+  // Pays for several cart bookings with one payment; resolves to the gateway URL
+  async checkout(bookingIds: string[], promoCode?: string): Promise<CartCheckoutResult> {
+    const returnUrl = `${window.location.origin}/payment/success`;
+    const response = await api.post('/payment/checkout', { bookingIds, returnUrl, promoCode });
+    if (isFareCheckReason(response.data.reason)) {
+      throw new FareCheckError(response.data.message, response.data.reason, response.data.data);
+    }
+    if (response.data.reason) {
+      throw new PromoCodeError(response.data.message, response.data.reason);
+    }
+    if (!response.data.success || !response.data.url) {
+      throw new Error(response.data.message || 'Failed to start checkout');
+    }
+    return response.data;
+  }
+
+  // Move items saved by older versions of the site into the server cart, once
+  private migrateLegacyCart(): Promise<void> {
+    if (!this.legacyMigration) {
+      this.legacyMigration = (async () => {
+        let items: LegacyCartItem[] = [];
+        try {
+          items = JSON.parse(localStorage.getItem(LEGACY_CART_KEY) || '[]');
+        } catch {
+          items = [];
+        }
+        localStorage.removeItem(LEGACY_CART_KEY);
+
+        for (const item of items) {
+          try {
+            const added = await this.addFlight({
+              from: item.from,
+              to: item.to,
+              fromIata: item.fromIata || null,
+              toIata: item.toIata || null,
+              departureDate: item.departureTime,
+              passengers: item.passengers || { adults: 1, children: 0, infants: 0 },
+              selectedFlight: item.selectedFlight || {
+                flightId: item.flightId,
+                airline: item.airline,
+                departureTime: item.departureTime,
+                arrivalTime: item.arrivalTime,
+                price: { total: item.price, currency: item.currency || 'USD' },
+                class: item.class,
+              },
+            });
+            if (item.passengerDetails?.length) {
+              await this.savePassengers(added._id, item.passengerDetails);
+            }
+          } catch (error) {
+            console.error('Failed to move saved cart item to the server:', error);
+          }
+        }
+      })();
     }
+    return this.legacyMigration;
   }
 }
 
@@ -0,0 +1,34 @@
+import api from '../config/api';
+import type { CurrencyCode } from '../utils/currency';
+
+export interface CurrencyRateEntry {
+  currency: CurrencyCode;
+  rate: number;
+  effectiveFrom: string;
+}
+
+export interface CurrencyRateSchedule {
+  base: CurrencyCode;
+  supported: CurrencyCode[];
+  entries: CurrencyRateEntry[];
+}
+
+class CurrencyService {
+  async getRateSchedule(): Promise<CurrencyRateSchedule> {
+    const response = await api.get('/currency/rates/history');
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to load currency rates');
+    }
+    return response.data.data;
+  }
+
+  async updateRateSchedule(entries: CurrencyRateEntry[]): Promise<CurrencyRateSchedule> {
+    const response = await api.put('/currency/rates', { entries });
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to save currency rates');
+    }
+    return response.data.data;
+  }
+}
+
+export const currencyService = new CurrencyService();
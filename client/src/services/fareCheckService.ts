@@ -0,0 +1,67 @@
+import api from '../config/api';
+import type { CartBooking } from './cartService';
+
+export interface FareBaggage {
+  route: string;
+  checked: string | null;
+  cabin: string | null;
+}
+
+// Totals and taxes are in USD, like the stored fare
+export interface FareSnapshot {
+  total: number;
+  currency: string;
+  tax: number | null;
+  baggage: FareBaggage[];
+}
+
+export type FareCheckStatus = 'unchanged' | 'changed' | 'accepted' | 'unavailable';
+
+export interface FareCheck {
+  bookingId: string;
+  status: FareCheckStatus;
+  checkedAt: string;
+  acceptedAt?: string;
+  previous?: FareSnapshot;
+  current?: FareSnapshot;
+  error?: string;
+}
+
+export type FareCheckReason = 'fare_changed' | 'fare_unavailable';
+
+// Payment refused because the fare moved (or disappeared) since the customer last saw it
+export class FareCheckError extends Error {
+  reason: FareCheckReason;
+  check?: FareCheck;
+
+  constructor(message: string, reason: FareCheckReason, check?: FareCheck) {
+    super(message);
+    this.name = 'FareCheckError';
+    this.reason = reason;
+    this.check = check;
+  }
+}
+
+export const isFareCheckReason = (reason: unknown): reason is FareCheckReason =>
+  reason === 'fare_changed' || reason === 'fare_unavailable';
+
+class FareCheckService {
+  // Re-prices the booking with the supplier; a changed fare has to be accepted before paying
+  async check(bookingId: string): Promise<FareCheck> {
+    const response = await api.post(`/bookings/${bookingId}/fare-check`);
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to check the fare');
+    }
+    return response.data.data;
+  }
+
+  async accept(bookingId: string): Promise<CartBooking> {
+    const response = await api.post(`/bookings/${bookingId}/fare-check/accept`);
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to accept the new fare');
+    }
+    return response.data.data;
+  }
+}
+
+export const fareCheckService = new FareCheckService();
@@ -12,7 +12,13 @@ export interface PassengerCount {
   infants: number;
 }
 
-export interface FlightSearchParams {
+// IATA codes. A single preferred airline is passed on to Seeru; the API filters results for the rest
+export interface AirlineFilters {
+  preferredAirlines?: string[];
+  excludedAirlines?: string[];
+}
+
+export interface FlightSearchParams extends AirlineFilters {
   flightSegments: FlightSearchInputSegment[];
   passengers: PassengerCount;
   cabin?: 'e' | 'p' | 'b' | 'f'; // e: Economy, p: PremiumEconomy, b: Business, f: First
@@ -59,6 +65,7 @@ export interface PriceBreakdown {
   price: number;
   label: string;
   tax: number;
+  service_fee?: number; // Per passenger, from the admin pricing rules
 }
 
 export interface FlightSegment {
@@ -143,6 +150,14 @@ export interface Flight {
 
   // Add these new fields
   total_price?: number; // Pre-calculated total from backend
+  service_fee?: number; // Average service fee per passenger
+  // Supplier fare the displayed prices were derived from
+  pricing?: {
+    supplier: Partial<Record<'ADT' | 'CHD' | 'INF', { count: number; price: number; tax: number; total: number }>>;
+    supplierTotal: number;
+    serviceFee: number;
+    total: number;
+  };
   cabin_class?: string; // Flight-level cabin class
   carry_on_baggage?: string;
   checked_baggage?: string;
@@ -153,6 +168,7 @@ export interface Flight {
     airport: string;
     city: string;
     duration: string;
+    duration_minutes?: number;
     terminal?: string;
   }>;
   
@@ -175,6 +191,20 @@ export interface Flight {
   legs: FlightLeg[];
 }
 
+const airlineFilterParams = (filters?: AirlineFilters) => {
+  const params: Record<string, string> = {};
+  if (filters?.preferredAirlines?.length) params.airlines = filters.preferredAirlines.join(',');
+  if (filters?.excludedAirlines?.length) params.exclude_airlines = filters.excludedAirlines.join(',');
+  return params;
+};
+
+// Stable cache key part for a set of airline filters
+export const airlineFiltersKey = (filters?: AirlineFilters) => {
+  const preferred = [...(filters?.preferredAirlines || [])].sort().join('.');
+  const excluded = [...(filters?.excludedAirlines || [])].sort().join('.');
+  return `${preferred || '*'}~${excluded || '-'}`;
+};
+
 export const searchFlights = async (params: FlightSearchParams): Promise<FlightSearchResponse> => {
   // Format trips string according to Seeru API format: ORIGIN-DESTINATION-DATE
   const tripsString = params.flightSegments
@@ -191,7 +221,8 @@ export const searchFlights = async (params: FlightSearchParams): Promise<FlightS
       const response = await api.get(`/flights/search/${tripsString}/${params.passengers.adults}/${params.passengers.children}/${params.passengers.infants}`, {
         params: {
           cabin: params.cabin || 'e',
-          direct: params.direct ? 1 : 0
+          direct: params.direct ? 1 : 0,
+          ...airlineFilterParams(params)
         }
       });
       return response.data;
@@ -226,8 +257,8 @@ export const searchFlights = async (params: FlightSearchParams): Promise<FlightS
 const searchCache = new Map<string, { data: FlightSearchResults; timestamp: number }>();
 const CACHE_DURATION = 1500; // 1.5 seconds
 
-export const getSearchResults = async (searchId: string, after?: number): Promise<FlightSearchResults> => {
-  const cacheKey = `${searchId}-${after || 0}`;
+export const getSearchResults = async (searchId: string, after?: number, airlines?: AirlineFilters): Promise<FlightSearchResults> => {
+  const cacheKey = `${searchId}-${after || 0}-${airlineFiltersKey(airlines)}`;
   const cached = searchCache.get(cacheKey);
   
   if (cached && Date.now() - cached.timestamp < CACHE_DURATION) {
@@ -240,7 +271,7 @@ export const getSearchResults = async (searchId: string, after?: number): Promis
   while (retries > 0) {
     try {
       const response = await api.get(`/flights/results/${searchId}`, {
-        params: after ? { after } : undefined
+        params: { ...(after ? { after } : {}), ...airlineFilterParams(airlines) }
       });
       
       // Validate response structure
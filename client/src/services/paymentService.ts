@@ -1,4 +1,6 @@
 import api from '../config/api';
+import { PromoCodeError } from './promotionService';
+import { FareCheckError, isFareCheckReason } from './fareCheckService';
 
 export interface PaymentResponse {
   isSuccess: boolean;
@@ -10,9 +12,15 @@ export interface PaymentResponse {
 }
 
 class PaymentService {
-  async initiatePayment(amount: number, orderRef: string): Promise<string> {
+  async initiatePayment(bookingId: string, promoCode?: string): Promise<string> {
     const returnUrl = `${window.location.origin}/payment/success`;
-    const resp = await api.post('/payment/initiate', { amount, orderRef, returnUrl });
+    const resp = await api.post('/payment/initiate', { bookingId, returnUrl, promoCode });
+    if (isFareCheckReason(resp.data?.reason)) {
+      throw new FareCheckError(resp.data.message, resp.data.reason, resp.data.data);
+    }
+    if (resp.data?.reason) {
+      throw new PromoCodeError(resp.data.message, resp.data.reason);
+    }
     if (!resp.data?.success || !resp.data?.url) {
       throw new Error(resp.data?.message || 'Failed to initiate payment');
     }
@@ -0,0 +1,73 @@
+import api from '../config/api';
+
+export interface PriceAlertPassengers {
+  adults: number;
+  children: number;
+  infants: number;
+}
+
+// Prices are stored in USD, like the Seeru fares they are compared against
+export interface PriceAlert {
+  _id: string;
+  from: string;
+  to: string;
+  departureDate: string;
+  returnDate?: string | null;
+  passengers: PriceAlertPassengers;
+  cabin: 'e' | 'p' | 'b' | 'f';
+  direct: boolean;
+  targetPrice: number;
+  active: boolean;
+  lastCheckedAt?: string;
+  lastPrice?: number;
+  lowestPrice?: number;
+  lastNotifiedAt?: string;
+  createdAt: string;
+}
+
+export interface PriceAlertInput {
+  from: string;
+  to: string;
+  departureDate: string;
+  returnDate?: string | null;
+  passengers: PriceAlertPassengers;
+  cabin?: 'e' | 'p' | 'b' | 'f';
+  direct?: boolean;
+  targetPrice: number;
+  currentPrice?: number;
+}
+
+class PriceAlertService {
+  async getAlerts(): Promise<PriceAlert[]> {
+    const response = await api.get('/price-alerts');
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to load price alerts');
+    }
+    return response.data.data;
+  }
+
+  async createAlert(input: PriceAlertInput): Promise<PriceAlert> {
+    const response = await api.post('/price-alerts', input);
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to create price alert');
+    }
+    return response.data.data;
+  }
+
+  async updateAlert(id: string, updates: Partial<PriceAlertInput> & { active?: boolean }): Promise<PriceAlert> {
+    const response = await api.put(`/price-alerts/${id}`, updates);
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to update price alert');
+    }
+    return response.data.data;
+  }
+
+  async deleteAlert(id: string): Promise<void> {
+    const response = await api.delete(`/price-alerts/${id}`);
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to delete price alert');
+    }
+  }
+}
+
+export const priceAlertService = new PriceAlertService();
@@ -0,0 +1,53 @@
+import api from '../config/api';
+
+export type PromoReason =
+  | 'not_found'
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'usage_limit'
+  | 'user_limit'
+  | 'not_applicable'
+  | 'min_amount';
+
+export interface PromoBookingResult {
+  bookingId: string;
+  eligible: boolean;
+  reason?: PromoReason;
+  originalAmountUsd: number;
+  discountUsd: number;
+  amountUsd: number;
+}
+
+export interface PromoValidation {
+  code: string;
+  description?: string;
+  discountType: 'percentage' | 'fixed';
+  value: number;
+  items: PromoBookingResult[];
+  discountUsd: number;
+}
+
+// Rejected promo code; reason identifies why so the message can be localized
+export class PromoCodeError extends Error {
+  reason?: PromoReason;
+
+  constructor(message: string, reason?: PromoReason) {
+    super(message);
+    this.name = 'PromoCodeError';
+    this.reason = reason;
+  }
+}
+
+class PromotionService {
+  // Discounts are worked out on the server; payment applies the same code again on the final fare
+  async validate(code: string, bookingIds: string[]): Promise<PromoValidation> {
+    const response = await api.post('/promotions/validate', { code, bookingIds });
+    if (!response.data.success) {
+      throw new PromoCodeError(response.data.message || 'Invalid promo code', response.data.reason);
+    }
+    return response.data.data;
+  }
+}
+
+export const promotionService = new PromotionService();
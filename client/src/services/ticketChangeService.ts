@@ -0,0 +1,91 @@
+import api from '../config/api';
+
+export type TicketChangeAction = 'refund' | 'void' | 'exchange';
+
+export type TicketStatus = 'issued' | 'refunded' | 'voided' | 'exchanged' | 'pending';
+
+export interface TicketChangeFee {
+  fee: number;
+  estimatedRefund?: number;
+}
+
+export interface TicketChangeOptions {
+  bookingId: string;
+  ticketId: string | null;
+  ticketStatus: TicketStatus;
+  canRefund: boolean;
+  canVoid: boolean;
+  canExchange: boolean;
+  refundableInfo: string | null;
+  currency: string;
+  paidAmount: number;
+  fees: {
+    refund: TicketChangeFee;
+    void: TicketChangeFee;
+    exchange: TicketChangeFee;
+  };
+}
+
+export interface TicketTimelineEvent {
+  status: string;
+  date: string;
+  notes?: string;
+}
+
+export interface TicketChangeResult {
+  bookingId: string;
+  ticketId: string;
+  ticketStatus: TicketStatus;
+  timeline: TicketTimelineEvent[];
+}
+
+export interface TicketChangeRequest {
+  bookingId: string;
+  ticketId: string;
+  reason?: string;
+  passengers?: string[];
+}
+
+export interface RefundRequest extends TicketChangeRequest {
+  legs?: string[];
+}
+
+export interface ExchangeRequest extends TicketChangeRequest {
+  exchangeLegs: unknown[];
+}
+
+class TicketChangeService {
+  async getOptions(bookingId: string): Promise<TicketChangeOptions> {
+    const response = await api.get(`/seeru/ticket-options/${bookingId}`);
+    if (!response.data.success) {
+      throw new Error(response.data.message || 'Failed to load ticket options');
+    }
+    return response.data.data;
+  }
+
+  async refundTicket(request: RefundRequest): Promise<TicketChangeResult> {
+    const response = await api.post('/seeru/refund-ticket', request);
+    if (!response.data.success) {
+      throw new Error(response.data.error || response.data.message || 'Failed to refund ticket');
+    }
+    return response.data.data;
+  }
+
+  async voidTicket(request: TicketChangeRequest): Promise<TicketChangeResult> {
+    const response = await api.post('/seeru/void-ticket', request);
+    if (!response.data.success) {
+      throw new Error(response.data.error || response.data.message || 'Failed to void ticket');
+    }
+    return response.data.data;
+  }
+
+  async exchangeTicket(request: ExchangeRequest): Promise<TicketChangeResult> {
+    const response = await api.post('/seeru/exchange-ticket', request);
+    if (!response.data.success) {
+      throw new Error(response.data.error || response.data.message || 'Failed to exchange ticket');
+    }
+    return response.data.data;
+  }
+}
+
+export const ticketChangeService = new TicketChangeService();
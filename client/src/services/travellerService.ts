@@ -0,0 +1,53 @@
+import api from '../config/api';
+
+export interface SavedTraveller {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  gender?: 'M' | 'F' | '';
+  dob?: string | null;
+  passportNumber?: string;
+  passportIssueDate?: string | null;
+  passportExpiryDate?: string | null;
+  passportCountry?: string;
+  nationality?: string;
+  phone?: string;
+  email?: string;
+}
+
+export type SavedTravellerInput = Omit<SavedTraveller, '_id'>;
+
+class TravellerService {
+  async getTravellers(userId: string): Promise<SavedTraveller[]> {
+    const response = await api.get(`/users/${userId}/travellers`);
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to load saved travellers');
+    }
+    return response.data.data;
+  }
+
+  async addTraveller(userId: string, traveller: SavedTravellerInput): Promise<SavedTraveller> {
+    const response = await api.post(`/users/${userId}/travellers`, traveller);
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to save traveller');
+    }
+    return response.data.data;
+  }
+
+  async updateTraveller(userId: string, travellerId: string, traveller: SavedTravellerInput): Promise<SavedTraveller> {
+    const response = await api.put(`/users/${userId}/travellers/${travellerId}`, traveller);
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to update traveller');
+    }
+    return response.data.data;
+  }
+
+  async deleteTraveller(userId: string, travellerId: string): Promise<void> {
+    const response = await api.delete(`/users/${userId}/travellers/${travellerId}`);
+    if (!response.data.success) {
+      throw new Error(response.data.error || 'Failed to delete traveller');
+    }
+  }
+}
+
+export const travellerService = new TravellerService();
@@ -1,34 +1,89 @@
-const SYP_RATE_KEY = 'sypRate';
+// Flight prices are quoted in USD; every other currency is derived from admin-managed rates
+export type CurrencyCode = 'USD' | 'SYP' | 'EUR' | 'TRY' | 'AED' | 'SAR';
 
-export function getSypRate(): number {
+export type CurrencyRates = Partial<Record<CurrencyCode, number>>;
+
+export const BASE_CURRENCY: CurrencyCode = 'USD';
+export const DEFAULT_CURRENCY: CurrencyCode = 'SYP';
+
+const CURRENCY_KEY = 'currency';
+const RATES_KEY = 'currencyRates';
+
+const CURRENCY_SYMBOLS: Record<CurrencyCode, string> = {
+  USD: '$',
+  SYP: 'SP',
+  EUR: '€',
+  TRY: '₺',
+  AED: 'AED',
+  SAR: 'SAR',
+};
+
+export function getCurrencySymbol(currency: CurrencyCode): string {
+  return CURRENCY_SYMBOLS[currency] || currency;
+}
+
+export function getStoredCurrency(): CurrencyCode {
+  try {
+    const v = localStorage.getItem(CURRENCY_KEY) as CurrencyCode | null;
+    return v && v in CURRENCY_SYMBOLS ? v : DEFAULT_CURRENCY;
+  } catch {
+    return DEFAULT_CURRENCY;
+  }
+}
+
+export function setStoredCurrency(currency: CurrencyCode) {
+  try {
+    localStorage.setItem(CURRENCY_KEY, currency);
+  } catch (e) {
+    // ignore
+  }
+}
+
+export function getCachedRates(): CurrencyRates {
   try {
-    const v = localStorage.getItem(SYP_RATE_KEY);
-    if (!v) return 1;
-    const n = Number(v);
-    return isNaN(n) || n <= 0 ? 1 : n;
+    const v = localStorage.getItem(RATES_KEY);
+    return v ? { ...JSON.parse(v), USD: 1 } : { USD: 1 };
   } catch {
-    return 1;
+    return { USD: 1 };
   }
 }
 
-export function setSypRate(rate: number) {
+export function setCachedRates(rates: CurrencyRates) {
   try {
-    localStorage.setItem(SYP_RATE_KEY, String(rate));
+    localStorage.setItem(RATES_KEY, JSON.stringify(rates));
   } catch (e) {
     // ignore
   }
 }
 
-export function formatSypFromUsd(amount?: number | null, opts?: { minimumFractionDigits?: number }) {
+export function convertFromUsd(amount: number, currency: CurrencyCode, rates: CurrencyRates): number | null {
+  const rate = currency === BASE_CURRENCY ? 1 : rates[currency];
+  if (!rate || rate <= 0) return null;
+  return amount * rate;
+}
+
+export function formatPrice(
+  amount: number | null | undefined,
+  currency: CurrencyCode,
+  rates: CurrencyRates,
+  opts?: { minimumFractionDigits?: number }
+) {
   if (amount == null || typeof amount !== 'number' || isNaN(amount)) return '-';
-  const rate = getSypRate();
-  const syp = amount * rate;
-  const min = opts?.minimumFractionDigits ?? (syp % 1 === 0 ? 0 : 2);
-  return `${syp.toLocaleString(undefined, { minimumFractionDigits: min, maximumFractionDigits: 2 })} SP`;
+  // Fall back to the USD quote when no rate is configured for the selected currency
+  const converted = convertFromUsd(amount, currency, rates);
+  const displayCurrency = converted == null ? BASE_CURRENCY : currency;
+  const value = converted == null ? amount : converted;
+  const min = opts?.minimumFractionDigits ?? (value % 1 === 0 ? 0 : 2);
+  const formatted = value.toLocaleString(undefined, { minimumFractionDigits: min, maximumFractionDigits: 2 });
+  const symbol = getCurrencySymbol(displayCurrency);
+  return displayCurrency === 'USD' ? `${symbol}${formatted}` : `${formatted} ${symbol}`;
 }
 
 export default {
-  getSypRate,
-  setSypRate,
-  formatSypFromUsd,
+  getStoredCurrency,
+  setStoredCurrency,
+  getCachedRates,
+  setCachedRates,
+  convertFromUsd,
+  formatPrice,
 };
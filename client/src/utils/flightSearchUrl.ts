@@ -0,0 +1,184 @@
+import { format, isValid, parse } from 'date-fns';
+import { PassengerCount } from '@/services/flightService';
+import {
+  DEFAULT_FILTERS,
+  FilterState,
+  LAYOVER_HOUR_OPTIONS,
+  SORT_OPTIONS,
+  STOPS_OPTIONS,
+  StopsOption,
+  TIMES_OF_DAY,
+  TimeOfDay,
+} from '@/components/flights/utils/flightFilters';
+
+// Flight searches live in the /flights query string so results pages can be refreshed, shared and deep linked:
+//   /flights?trips=DAM-DXB-20261201:DXB-DAM-20261210&adt=2&chd=1&cabin=b&direct=1&airlines=EK,QR&sort=duration_asc
+// Only `trips` is required; everything else falls back to the search form defaults.
+
+export type SearchType = 'oneWay' | 'roundTrip' | 'multiCity';
+export type CabinClass = 'e' | 'p' | 'b' | 'f';
+
+export interface FlightSearchUrlSegment {
+  from: string;
+  to: string;
+  date: Date;
+}
+
+export interface FlightSearchUrlState {
+  searchType: SearchType;
+  segments: FlightSearchUrlSegment[];
+  passengers: PassengerCount;
+  cabin?: CabinClass;
+  direct?: boolean;
+  preferredAirlines?: string[];
+  excludedAirlines?: string[];
+  filters?: FilterState;
+}
+
+// Airport names shown in the form; passed as router state next to the URL since they don't belong in links
+export interface FlightSearchLinkState {
+  segmentLabels?: Array<{ from: string; to: string }>;
+}
+
+const MAX_SEGMENTS = 3;
+const MAX_PASSENGERS = 9;
+const SEARCH_TYPES: Record<string, SearchType> = { oneway: 'oneWay', roundtrip: 'roundTrip', multicity: 'multiCity' };
+const CABINS: CabinClass[] = ['e', 'p', 'b', 'f'];
+const TRIP_PATTERN = /^([A-Z]{3})-([A-Z]{3})-(\d{8})$/;
+const AIRLINE_CODE_PATTERN = /^[A-Z0-9]{2,3}$/;
+const AIRPORT_CODE_PATTERN = /^[A-Z]{3}$/;
+
+const isMirroredPair = (segments: FlightSearchUrlSegment[]) =>
+  segments.length === 2 && segments[1].from === segments[0].to && segments[1].to === segments[0].from;
+
+// Links without a `type` get the trip type their segments describe
+export const inferSearchType = (segments: FlightSearchUrlSegment[]): SearchType => {
+  if (segments.length === 1) return 'oneWay';
+  return isMirroredPair(segments) ? 'roundTrip' : 'multiCity';
+};
+
+const splitList = (value: string | null) =>
+  (value || '').split(',').map(item => item.trim()).filter(Boolean);
+
+const parseCount = (value: string | null, fallback: number, min: number) => {
+  if (value === null) return fallback;
+  const count = Number(value);
+  return Number.isInteger(count) ? Math.min(Math.max(count, min), MAX_PASSENGERS) : fallback;
+};
+
+const parseAirlineCodes = (value: string | null) =>
+  [...new Set(splitList(value).map(code => code.toUpperCase()).filter(code => AIRLINE_CODE_PATTERN.test(code)))];
+
+const parseAirportCodes = (value: string | null) =>
+  splitList(value).map(code => code.toUpperCase()).filter(code => AIRPORT_CODE_PATTERN.test(code));
+
+const parseTimes = (value: string | null) =>
+  splitList(value).filter((time): time is TimeOfDay => TIMES_OF_DAY.includes(time as TimeOfDay));
+
+function parseFilters(params: URLSearchParams): FilterState {
+  const sort = params.get('sort') as FilterState['sortBy'] | null;
+  const price = params.get('price');
+  const [min, max] = (price || '').split('-').map(Number);
+  const layover = Number(params.get('layover'));
+  return {
+    sortBy: sort && SORT_OPTIONS.includes(sort) ? sort : DEFAULT_FILTERS.sortBy,
+    // Carrier names can contain commas, so each one is its own param
+    selectedAirlines: params.getAll('carrier').filter(Boolean),
+    stops: splitList(params.get('stops')).map(Number).filter((stops): stops is StopsOption => STOPS_OPTIONS.includes(stops as StopsOption)),
+    maxLayoverHours: LAYOVER_HOUR_OPTIONS.includes(layover) ? layover : null,
+    checkedBaggageOnly: params.get('bags') === '1',
+    refundableOnly: params.get('refundable') === '1',
+    departureAirports: parseAirportCodes(params.get('dep_airports')),
+    arrivalAirports: parseAirportCodes(params.get('arr_airports')),
+    timeOfDay: {
+      departure: parseTimes(params.get('dep')),
+      arrival: parseTimes(params.get('arr'))
+    },
+    priceRange: price && Number.isFinite(min) && Number.isFinite(max) && min >= 0 && min <= max ? { min, max } : null
+  };
+}
+
+/**
+ * Read a search from a /flights query string.
+ * Returns null when there's no usable `trips` param; other bad values fall back to defaults.
+ */
+export function parseFlightSearchQuery(search: string): FlightSearchUrlState | null {
+  const params = new URLSearchParams(search);
+  const trips = (params.get('trips') || '').toUpperCase().split(':').filter(Boolean);
+  if (trips.length === 0 || trips.length > MAX_SEGMENTS) return null;
+
+  const segments: FlightSearchUrlSegment[] = [];
+  for (const trip of trips) {
+    const match = TRIP_PATTERN.exec(trip);
+    if (!match) return null;
+    const date = parse(match[3], 'yyyyMMdd', new Date());
+    if (!isValid(date)) return null;
+    segments.push({ from: match[1], to: match[2], date });
+  }
+
+  const adults = parseCount(params.get('adt'), 1, 1);
+  const passengers: PassengerCount = {
+    adults,
+    children: parseCount(params.get('chd'), 0, 0),
+    // Every infant travels on an adult's lap
+    infants: Math.min(parseCount(params.get('inf'), 0, 0), adults)
+  };
+
+  // A round trip needs its mirrored return leg; anything else keeps the type the segments imply
+  const requestedType = SEARCH_TYPES[(params.get('type') || '').toLowerCase()];
+  const inferredType = inferSearchType(segments);
+  const searchType = requestedType === 'multiCity' || requestedType === inferredType ? requestedType : inferredType;
+
+  const cabin = params.get('cabin') as CabinClass | null;
+  const excludedAirlines = parseAirlineCodes(params.get('exclude_airlines'));
+
+  return {
+    searchType,
+    segments,
+    passengers,
+    cabin: cabin && CABINS.includes(cabin) ? cabin : undefined,
+    direct: params.has('direct') ? params.get('direct') === '1' : undefined,
+    preferredAirlines: parseAirlineCodes(params.get('airlines')).filter(code => !excludedAirlines.includes(code)),
+    excludedAirlines,
+    filters: parseFilters(params)
+  };
+}
+
+/**
+ * Query string (without the leading "?") for a search. Defaults are left out to keep links short.
+ */
+export function buildFlightSearchQuery(state: FlightSearchUrlState): string {
+  const params = new URLSearchParams();
+  params.set('trips', state.segments
+    .map(segment => `${segment.from.toUpperCase()}-${segment.to.toUpperCase()}-${format(segment.date, 'yyyyMMdd')}`)
+    .join(':'));
+  if (state.searchType !== inferSearchType(state.segments)) params.set('type', state.searchType.toLowerCase());
+
+  params.set('adt', String(state.passengers.adults));
+  if (state.passengers.children > 0) params.set('chd', String(state.passengers.children));
+  if (state.passengers.infants > 0) params.set('inf', String(state.passengers.infants));
+  if (state.cabin && state.cabin !== 'e') params.set('cabin', state.cabin);
+  if (state.direct) params.set('direct', '1');
+  if (state.preferredAirlines?.length) params.set('airlines', state.preferredAirlines.join(','));
+  if (state.excludedAirlines?.length) params.set('exclude_airlines', state.excludedAirlines.join(','));
+
+  const filters = state.filters;
+  if (filters) {
+    if (filters.sortBy !== DEFAULT_FILTERS.sortBy) params.set('sort', filters.sortBy);
+    filters.selectedAirlines.forEach(airline => params.append('carrier', airline));
+    if (filters.stops.length > 0) params.set('stops', filters.stops.join(','));
+    if (filters.maxLayoverHours !== null) params.set('layover', String(filters.maxLayoverHours));
+    if (filters.checkedBaggageOnly) params.set('bags', '1');
+    if (filters.refundableOnly) params.set('refundable', '1');
+    if (filters.departureAirports.length > 0) params.set('dep_airports', filters.departureAirports.join(','));
+    if (filters.arrivalAirports.length > 0) params.set('arr_airports', filters.arrivalAirports.join(','));
+    if (filters.timeOfDay.departure.length > 0) params.set('dep', filters.timeOfDay.departure.join(','));
+    if (filters.timeOfDay.arrival.length > 0) params.set('arr', filters.timeOfDay.arrival.join(','));
+    if (filters.priceRange) params.set('price', `${filters.priceRange.min}-${filters.priceRange.max}`);
+  }
+
+  // Keep the separators readable in shared links
+  return params.toString().replace(/%3A/g, ':').replace(/%2C/g, ',');
+}
+
+export const buildFlightSearchUrl = (state: FlightSearchUrlState) => `/flights?${buildFlightSearchQuery(state)}`;
@@ -0,0 +1,50 @@
+import { addMonths, differenceInYears } from 'date-fns';
+
+export type PassengerType = 'adult' | 'child' | 'infant';
+
+// Many countries refuse entry when the passport expires within six months of arrival
+export const PASSPORT_MIN_VALIDITY_MONTHS = 6;
+
+// Arab countries list with English and Arabic names
+export const ARAB_COUNTRIES = [
+  { code: 'DZ', nameEn: 'Algeria', nameAr: 'الجزائر' },
+  { code: 'BH', nameEn: 'Bahrain', nameAr: 'البحرين' },
+  { code: 'KM', nameEn: 'Comoros', nameAr: 'جزر القمر' },
+  { code: 'DJ', nameEn: 'Djibouti', nameAr: 'جيبوتي' },
+  { code: 'EG', nameEn: 'Egypt', nameAr: 'مصر' },
+  { code: 'IQ', nameEn: 'Iraq', nameAr: 'العراق' },
+  { code: 'JO', nameEn: 'Jordan', nameAr: 'الأردن' },
+  { code: 'KW', nameEn: 'Kuwait', nameAr: 'الكويت' },
+  { code: 'LB', nameEn: 'Lebanon', nameAr: 'لبنان' },
+  { code: 'LY', nameEn: 'Libya', nameAr: 'ليبيا' },
+  { code: 'MR', nameEn: 'Mauritania', nameAr: 'موريتانيا' },
+  { code: 'MA', nameEn: 'Morocco', nameAr: 'المغرب' },
+  { code: 'OM', nameEn: 'Oman', nameAr: 'عمان' },
+  { code: 'PS', nameEn: 'Palestine', nameAr: 'فلسطين' },
+  { code: 'QA', nameEn: 'Qatar', nameAr: 'قطر' },
+  { code: 'SA', nameEn: 'Saudi Arabia', nameAr: 'المملكة العربية السعودية' },
+  { code: 'SO', nameEn: 'Somalia', nameAr: 'الصومال' },
+  { code: 'SD', nameEn: 'Sudan', nameAr: 'السودان' },
+  { code: 'SY', nameEn: 'Syria', nameAr: 'سوريا' },
+  { code: 'TN', nameEn: 'Tunisia', nameAr: 'تونس' },
+  { code: 'AE', nameEn: 'United Arab Emirates', nameAr: 'الإمارات العربية المتحدة' },
+  { code: 'YE', nameEn: 'Yemen', nameAr: 'اليمن' }
+];
+
+// Fare type a traveller falls under on the travel date (infant < 2, child < 12)
+export const getPassengerTypeOn = (dob: string | null | undefined, travelDate: Date): PassengerType | null => {
+  if (!dob) return null;
+  const birth = new Date(dob);
+  if (isNaN(birth.getTime())) return null;
+  const age = differenceInYears(travelDate, birth);
+  if (age < 2) return 'infant';
+  if (age < 12) return 'child';
+  return 'adult';
+};
+
+export const passportExpiresTooSoon = (expiry: string | null | undefined, departure: Date): boolean => {
+  if (!expiry) return false;
+  const expiryDate = new Date(expiry);
+  if (isNaN(expiryDate.getTime()) || isNaN(departure.getTime())) return false;
+  return expiryDate < addMonths(departure, PASSPORT_MIN_VALIDITY_MONTHS);
+};
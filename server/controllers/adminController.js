@@ -1,15 +1,25 @@
 const User = require("../models/User");
 const Booking = require("../models/Booking");
 const FlightBooking = require("../models/FlightBooking");
+const mongoose = require("mongoose");
 const Destination = require("../models/Destination");
 const NewsletterSubscription = require("../models/NewsletterSubscription");
 const SearchLog = require('../models/SearchLog');
 const asyncHandler = require("../middleware/asyncHandler");
 const sendEmail = require('../utils/sendEmail'); // Import the email utility
+const { recordAudit } = require('../services/auditLogService');
 const path = require('path');
 const fs = require('fs');
 // Supabase storage helper
 const { uploadFile, uploadBuffer, generateSignedUrl, deleteFile } = require('../utils/gcsStorage');
+const {
+  InvalidTransitionError,
+  canTransition,
+  setBookingStatus,
+  setPaymentStatus,
+  setSupplierStatus,
+  getBookingTransitions
+} = require('../utils/bookingStateMachine');
 
 /**
  * Convert storage path to signed URL for frontend (destinations)
@@ -121,6 +131,10 @@ const mapFlightBookingForClient = (b) => {
     },
     amount,
     status: b.status,
+    paymentStatus: b.paymentStatus,
+    seeruStatus: b.seeruStatus,
+    // Next legal states so the admin UI only offers valid changes
+    allowedTransitions: getBookingTransitions(b),
     ticketInfo: b.ticketDetails || {},
     ticketDetails: b.ticketDetails || {},
     paymentDetails: b.paymentDetails || {},
@@ -265,6 +279,29 @@ exports.getReports = asyncHandler(async (req, res, next) => {
   ]);
   const searchLogs = searchLogsAgg.map(s => ({ from: s._id.from, to: s._id.to, count: s.count, lastSearchedAt: s.lastSearchedAt }));
 
+  // promo code redemptions (USD) for bookings paid during the year
+  const promotionsAgg = await FlightBooking.aggregate([
+    { $match: { 'paymentDetails.discount.redeemedAt': { $gte: new Date(year, 0, 1), $lt: new Date(year + 1, 0, 1) } } },
+    { $group: {
+      _id: '$paymentDetails.discount.code',
+      redemptions: { $sum: 1 },
+      discountUsd: { $sum: { $ifNull: ['$paymentDetails.discount.amountUsd', 0] } },
+      revenueUsd: { $sum: { $subtract: [
+        { $ifNull: ['$paymentDetails.discount.originalAmountUsd', 0] },
+        { $ifNull: ['$paymentDetails.discount.amountUsd', 0] }
+      ] } },
+      lastRedeemedAt: { $max: '$paymentDetails.discount.redeemedAt' }
+    } },
+    { $sort: { redemptions: -1 } }
+  ]);
+  const promotionRedemptions = promotionsAgg.map(p => ({
+    code: p._id,
+    redemptions: p.redemptions,
+    discountUsd: Math.round(p.discountUsd * 100) / 100,
+    revenueUsd: Math.round(p.revenueUsd * 100) / 100,
+    lastRedeemedAt: p.lastRedeemedAt
+  }));
+
   res.status(200).json({ success: true, data: {
     totalRevenue,
     totalBookings,
@@ -272,7 +309,8 @@ exports.getReports = asyncHandler(async (req, res, next) => {
     revenueByMonth,
     bookingDistribution,
     topDestinations,
-    searchLogs
+    searchLogs,
+    promotionRedemptions
   } });
 });
 
@@ -601,6 +639,7 @@ exports.updateUser = asyncHandler(async (req, res, next) => {
   // Remove undefined fields to avoid overwriting with null
   Object.keys(updateData).forEach(key => updateData[key] === undefined && delete updateData[key]);
 
+  const before = await User.findById(req.params.id).lean();
   const user = await User.findByIdAndUpdate(req.params.id, updateData, {
     new: true,
     runValidators: true,
@@ -609,6 +648,7 @@ exports.updateUser = asyncHandler(async (req, res, next) => {
   if (!user) {
     return next(new Error(`User not found with id of ${req.params.id}`));
   }
+  await recordAudit(req, { action: 'user.update', targetType: 'User', targetId: user._id, before, after: user });
   res.status(200).json({ success: true, data: user });
 });
 
@@ -622,7 +662,9 @@ exports.deleteUser = asyncHandler(async (req, res, next) => {
   }
   // Add logic here if deleting a user should also delete their bookings or other related data
   // Example: await Booking.deleteMany({ userId: req.params.id });
+  const before = user.toObject();
   await user.deleteOne();
+  await recordAudit(req, { action: 'user.delete', targetType: 'User', targetId: user._id, before });
   res.status(200).json({ success: true, data: {} });
 });
 
@@ -1028,39 +1070,153 @@ exports.updateAdminProfile = asyncHandler(async (req, res, next) => {
 
 // --- Flight Booking Management ---
 
-// @desc    Get all flight bookings (Admin)
+// Sortable fields for the admin bookings list
+const FLIGHT_BOOKING_SORT_FIELDS = {
+  createdAt: { path: 'createdAt', type: 'date' },
+  departureDate: { path: 'flightDetails.departureDate', type: 'date' },
+  amount: { path: 'flightDetails.selectedFlight.price.total', type: 'number' }
+};
+const MAX_FLIGHT_BOOKING_PAGE_SIZE = 100;
+
+const escapeRegex = (value) => String(value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Comma-separated query values become an $in filter
+const toListFilter = (value) => {
+  const values = String(value).split(',').map(v => v.trim()).filter(Boolean);
+  return values.length > 1 ? { $in: values } : values[0];
+};
+
+const toDateRange = (from, to) => {
+  const range = {};
+  if (from && !Number.isNaN(Date.parse(from))) range.$gte = new Date(from);
+  if (to && !Number.isNaN(Date.parse(to))) {
+    const end = new Date(to);
+    // Date-only bounds include the whole day
+    if (/^\d{4}-\d{2}-\d{2}$/.test(to)) end.setUTCHours(23, 59, 59, 999);
+    range.$lte = end;
+  }
+  return Object.keys(range).length ? range : null;
+};
+
+// Cursors are opaque to clients: the last row's sort value and _id
+const encodeCursor = (value, id) => Buffer.from(JSON.stringify({ v: value, id: String(id) })).toString('base64url');
+
+const decodeCursor = (cursor) => {
+  try {
+    const { v, id } = JSON.parse(Buffer.from(String(cursor), 'base64url').toString('utf8'));
+    if (!id || !mongoose.Types.ObjectId.isValid(id)) return null;
+    return { value: v, id: new mongoose.Types.ObjectId(id) };
+  } catch (e) {
+    return null;
+  }
+};
+
+const getPath = (obj, path) => path.split('.').reduce((acc, key) => (acc == null ? acc : acc[key]), obj);
+
+// @desc    Get flight bookings (Admin), filtered and cursor-paginated
 // @route   GET /api/admin/flight-bookings
 // @access  Private/Admin
+// Query: status, paymentStatus, seeruStatus (comma-separated), createdFrom/createdTo,
+// departureFrom/departureTo, from, to, airline, search, sort, order, limit, cursor.
+// Without limit or cursor every matching booking is returned, as before.
 exports.getAllFlightBookings = asyncHandler(async (req, res, next) => {
-  const { status, search } = req.query;
-  
-  let query = {};
-  
-  // Filter by status if provided
-  if (status) {
-    query.status = status;
+  const {
+    status, paymentStatus, seeruStatus,
+    createdFrom, createdTo, departureFrom, departureTo,
+    from, to, airline, search,
+    sort = 'createdAt', order = 'desc', limit, cursor
+  } = req.query;
+
+  const conditions = [];
+
+  if (status) conditions.push({ status: toListFilter(status) });
+  if (paymentStatus) conditions.push({ paymentStatus: toListFilter(paymentStatus) });
+  if (seeruStatus) conditions.push({ seeruStatus: toListFilter(seeruStatus) });
+
+  const createdRange = toDateRange(createdFrom, createdTo);
+  if (createdRange) conditions.push({ createdAt: createdRange });
+  const departureRange = toDateRange(departureFrom, departureTo);
+  if (departureRange) conditions.push({ 'flightDetails.departureDate': departureRange });
+
+  // Route ends match either the stored city name or the airport code
+  if (from) {
+    const pattern = new RegExp(escapeRegex(String(from).trim()), 'i');
+    conditions.push({ $or: [{ 'flightDetails.from': pattern }, { 'flightDetails.fromAirportCode': pattern }] });
+  }
+  if (to) {
+    const pattern = new RegExp(escapeRegex(String(to).trim()), 'i');
+    conditions.push({ $or: [{ 'flightDetails.to': pattern }, { 'flightDetails.toAirportCode': pattern }] });
+  }
+  if (airline) {
+    conditions.push({ 'flightDetails.selectedFlight.airline': new RegExp(escapeRegex(String(airline).trim()), 'i') });
   }
 
-  // Search by booking ID, customer name, or email
+  // Search by booking ID, customer name, email, PNR or supplier order
   if (search) {
-    query.$or = [
-      { bookingId: { $regex: search, $options: 'i' } },
-      { customerName: { $regex: search, $options: 'i' } },
-      { customerEmail: { $regex: search, $options: 'i' } }
-    ];
+    const pattern = new RegExp(escapeRegex(String(search).trim()), 'i');
+    conditions.push({
+      $or: [
+        { bookingId: pattern },
+        { customerName: pattern },
+        { customerEmail: pattern },
+        { pnr: pattern },
+        { seeruOrderId: pattern }
+      ]
+    });
   }
 
-  const bookings = await FlightBooking.find(query).sort({ createdAt: -1 });
-  const mapped = bookings.map(mapFlightBookingForClient);
-  
-  // Convert all ticket paths to signed URLs
-  const mappedWithUrls = await Promise.all(
-    mapped.map(b => convertBookingUrls(b))
-  );
+  const filter = conditions.length ? { $and: conditions } : {};
+  const sortSpec = FLIGHT_BOOKING_SORT_FIELDS[sort] || FLIGHT_BOOKING_SORT_FIELDS.createdAt;
+  const sortField = sortSpec.path;
+  const direction = order === 'asc' ? 1 : -1;
+  const paginate = limit !== undefined || cursor !== undefined;
+
+  if (!paginate) {
+    const bookings = await FlightBooking.find(filter).sort({ [sortField]: direction, _id: direction });
+    const mappedWithUrls = await Promise.all(bookings.map(b => convertBookingUrls(mapFlightBookingForClient(b))));
+    return res.status(200).json({
+      success: true,
+      count: mappedWithUrls.length,
+      data: mappedWithUrls
+    });
+  }
+
+  const pageSize = Math.min(Math.max(parseInt(limit, 10) || 25, 1), MAX_FLIGHT_BOOKING_PAGE_SIZE);
+  const pageFilter = { ...filter };
+  if (cursor) {
+    const decoded = decodeCursor(cursor);
+    if (!decoded) {
+      return res.status(400).json({ success: false, message: 'Invalid cursor' });
+    }
+    const op = direction === 1 ? '$gt' : '$lt';
+    const value = sortSpec.type === 'date' && decoded.value ? new Date(decoded.value) : decoded.value;
+    pageFilter.$and = [...(filter.$and || []), {
+      $or: [
+        { [sortField]: { [op]: value } },
+        { [sortField]: value, _id: { [op]: decoded.id } }
+      ]
+    }];
+  }
+
+  // Rows from the cursor onwards tell how many come before the page, so row numbers hold for any cursor
+  const [bookings, total, remaining] = await Promise.all([
+    FlightBooking.find(pageFilter).sort({ [sortField]: direction, _id: direction }).limit(pageSize + 1),
+    FlightBooking.countDocuments(filter),
+    cursor ? FlightBooking.countDocuments(pageFilter) : null
+  ]);
+
+  const hasMore = bookings.length > pageSize;
+  const page = hasMore ? bookings.slice(0, pageSize) : bookings;
+  const last = page[page.length - 1];
+  const mappedWithUrls = await Promise.all(page.map(b => convertBookingUrls(mapFlightBookingForClient(b))));
 
   res.status(200).json({
     success: true,
     count: mappedWithUrls.length,
+    total,
+    offset: remaining === null ? 0 : Math.max(total - remaining, 0),
+    hasMore,
+    nextCursor: hasMore && last ? encodeCursor(getPath(last, sortField), last._id) : null,
     data: mappedWithUrls
   });
 });
@@ -1104,11 +1260,34 @@ exports.updateFlightBooking = asyncHandler(async (req, res, next) => {
 
   const {
     status,
+    paymentStatus,
+    seeruStatus,
     adminData,
     ticketDetails,
     paymentDetails
   } = req.body;
 
+  const before = booking.toObject();
+
+  // Status changes are applied first so an illegal one leaves the booking untouched
+  const allowedTransitions = getBookingTransitions(booking);
+  const transitionOptions = { notes: req.body.notes, updatedBy: req.user.name };
+  const requestedPaymentStatus = paymentStatus || paymentDetails?.status;
+  try {
+    if (status) setBookingStatus(booking, status, transitionOptions);
+    if (requestedPaymentStatus) setPaymentStatus(booking, requestedPaymentStatus, transitionOptions);
+    if (seeruStatus) setSupplierStatus(booking, seeruStatus, transitionOptions);
+  } catch (error) {
+    if (error instanceof InvalidTransitionError) {
+      return res.status(409).json({
+        success: false,
+        message: error.message,
+        allowedTransitions
+      });
+    }
+    throw error;
+  }
+
   // Update admin data if provided
   if (adminData) {
     booking.adminData = {
@@ -1125,27 +1304,19 @@ exports.updateFlightBooking = asyncHandler(async (req, res, next) => {
     };
   }
 
-  // Update payment details if provided
+  // Update payment details if provided; the status itself went through the state machine
   if (paymentDetails) {
+    const { status: _ignoredStatus, ...details } = paymentDetails;
     booking.paymentDetails = {
       ...booking.paymentDetails,
-      ...paymentDetails
+      ...details,
+      status: booking.paymentStatus
     };
   }
 
-  // Update status and add to timeline if status changed
-  if (status && status !== booking.status) {
-    booking.status = status;
-    booking.timeline.push({
-      status,
-      date: new Date(),
-      notes: req.body.notes || `Status updated to ${status}`,
-      updatedBy: req.user.name
-    });
-  }
-
   booking.updatedAt = Date.now();
   await booking.save();
+  await recordAudit(req, { action: 'flightBooking.update', targetType: 'FlightBooking', targetId: booking.bookingId, before, after: booking });
 
   res.status(200).json({
   success: true,
@@ -1181,7 +1352,9 @@ exports.deleteFlightBooking = asyncHandler(async (req, res, next) => {
     }
   }
 
+  const before = booking.toObject();
   await booking.deleteOne();
+  await recordAudit(req, { action: 'flightBooking.delete', targetType: 'FlightBooking', targetId: booking.bookingId, before });
 
   res.status(200).json({ success: true, data: {} });
 });
@@ -1206,6 +1379,16 @@ exports.uploadFlightTicket = asyncHandler(async (req, res, next) => {
     });
   }
 
+  if (!canTransition('status', booking.status, 'done')) {
+    return res.status(409).json({
+      success: false,
+      message: `Cannot complete a ${booking.status} booking`,
+      allowedTransitions: getBookingTransitions(booking)
+    });
+  }
+
+  const before = booking.toObject();
+
   // Upload file to Cloudinary via centralized util and use returned URL; fallback to local path if it fails
   let publicUrl = null;
   if (req.file) {
@@ -1253,18 +1436,13 @@ exports.uploadFlightTicket = asyncHandler(async (req, res, next) => {
   if (req.body.adminNote) booking.adminData.notes = String(req.body.adminNote);
 
   // Mark booking as Done
-  booking.status = 'done';
-
-  // Update timeline
-  booking.timeline = booking.timeline || [];
-  booking.timeline.push({
-    status: booking.status,
-    date: new Date(),
+  setBookingStatus(booking, 'done', {
     notes: "E-ticket uploaded and booking completed",
     updatedBy: req.user ? req.user.name : 'system'
   });
 
   await booking.save();
+  await recordAudit(req, { action: 'flightBooking.uploadTicket', targetType: 'FlightBooking', targetId: booking.bookingId, before, after: booking });
 
   res.status(200).json({
     success: true,
@@ -1393,6 +1571,7 @@ exports.updateAdminSettings = asyncHandler(async (req, res, next) => {
   const { seeruTravelEnabled } = req.body;
   
   let settings = await Setting.findOne({ key: 'integrations' });
+  const before = settings ? { value: settings.value } : null;
   
   if (!settings) {
     settings = await Setting.create({
@@ -1408,6 +1587,7 @@ exports.updateAdminSettings = asyncHandler(async (req, res, next) => {
     };
     await settings.save();
   }
+  await recordAudit(req, { action: 'setting.update', targetType: 'Setting', targetId: 'integrations', before, after: { value: settings.value } });
   
   res.status(200).json({
     success: true,
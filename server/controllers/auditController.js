@@ -0,0 +1,116 @@
+const mongoose = require('mongoose');
+const AuditLog = require('../models/AuditLog');
+const asyncHandler = require('../middleware/asyncHandler');
+const { verifyAuditChain } = require('../services/auditLogService');
+
+const AUDIT_PAGE_SIZE = 50;
+const MAX_EXPORT_ROWS = 10000;
+
+const escapeRegex = (value) => String(value).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Shared by the list and the CSV export
+const buildAuditFilter = (query) => {
+  const filter = {};
+  if (query.action) filter.action = String(query.action);
+  if (query.targetType) filter['target.type'] = String(query.targetType);
+  if (query.targetId) filter['target.id'] = String(query.targetId).trim();
+  if (query.actor) {
+    const actor = String(query.actor).trim();
+    if (mongoose.Types.ObjectId.isValid(actor)) {
+      filter['actor.id'] = actor;
+    } else {
+      const pattern = new RegExp(escapeRegex(actor), 'i');
+      filter.$or = [{ 'actor.name': pattern }, { 'actor.email': pattern }];
+    }
+  }
+  if (query.from || query.to) {
+    filter.at = {};
+    const from = query.from ? new Date(query.from) : null;
+    const to = query.to ? new Date(query.to) : null;
+    if (from && !isNaN(from)) filter.at.$gte = from;
+    // A bare date includes the whole day
+    if (to && !isNaN(to)) {
+      if (/^\d{4}-\d{2}-\d{2}$/.test(String(query.to))) to.setUTCHours(23, 59, 59, 999);
+      filter.at.$lte = to;
+    }
+    if (Object.keys(filter.at).length === 0) delete filter.at;
+  }
+  return filter;
+};
+
+// Spreadsheet apps run cells starting with these as formulas
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const csvCell = (value) => {
+  let text = value === null || value === undefined ? '' : (typeof value === 'object' ? JSON.stringify(value) : String(value));
+  if (CSV_FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return `"${text.replace(/"/g, '""')}"`;
+};
+
+// @desc    List audit log entries
+// @route   GET /api/admin/audit-logs
+// @access  Private (audit:view)
+exports.getAuditLogs = asyncHandler(async (req, res, next) => {
+  const filter = buildAuditFilter(req.query);
+  const page = Math.max(1, parseInt(req.query.page, 10) || 1);
+
+  const [entries, total, actions] = await Promise.all([
+    AuditLog.find(filter)
+      .sort({ seq: -1 })
+      .skip((page - 1) * AUDIT_PAGE_SIZE)
+      .limit(AUDIT_PAGE_SIZE)
+      .lean(),
+    AuditLog.countDocuments(filter),
+    AuditLog.distinct('action')
+  ]);
+
+  res.status(200).json({
+    success: true,
+    count: entries.length,
+    total,
+    page,
+    pages: Math.max(1, Math.ceil(total / AUDIT_PAGE_SIZE)),
+    actions: actions.sort(),
+    data: entries
+  });
+});
+
+// @desc    Download audit log entries as CSV
+// @route   GET /api/admin/audit-logs/export
+// @access  Private (audit:view)
+exports.exportAuditLogs = asyncHandler(async (req, res, next) => {
+  const filter = buildAuditFilter(req.query);
+  const entries = await AuditLog.find(filter).sort({ seq: -1 }).limit(MAX_EXPORT_ROWS).lean();
+
+  const headers = ['Seq', 'Date', 'Actor', 'Actor email', 'Role', 'Action', 'Target type', 'Target id', 'Changes', 'IP', 'Hash'];
+  const rows = entries.map(entry => [
+    entry.seq,
+    new Date(entry.at).toISOString(),
+    entry.actor?.name,
+    entry.actor?.email,
+    entry.actor?.role,
+    entry.action,
+    entry.target?.type,
+    entry.target?.id,
+    (entry.changes || [])
+      .map(change => `${change.path}: ${JSON.stringify(change.before)} -> ${JSON.stringify(change.after)}`)
+      .join('; '),
+    entry.ip,
+    entry.hash
+  ]);
+
+  const csv = [headers, ...rows].map(row => row.map(csvCell).join(',')).join('\n');
+  const stamp = new Date().toISOString().slice(0, 10);
+  res.setHeader('Content-Disposition', `attachment; filename="tourtastic_audit_${stamp}.csv"`);
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  // BOM so spreadsheet apps read Arabic names correctly
+  res.send(`\uFEFF${csv}`);
+});
+
+// @desc    Check the audit log hash chain for tampering
+// @route   GET /api/admin/audit-logs/verify
+// @access  Private (audit:view)
+exports.verifyAuditLogs = asyncHandler(async (req, res, next) => {
+  const result = await verifyAuditChain();
+  res.status(200).json({ success: true, data: result });
+});
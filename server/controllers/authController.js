@@ -4,6 +4,8 @@ const asyncHandler = require("../middleware/asyncHandler");
 const jwt = require("jsonwebtoken");
 const bcrypt = require('bcryptjs');
 const { sendMail } = require('../utils/email');
+const { getRolePermissions } = require('../utils/permissions');
+const { getGuestSessionId, mergeGuestCart } = require('../services/guestCartService');
 
 // @desc    Check if email or username exists
 // @route   POST /api/auth/check-exists
@@ -65,11 +67,21 @@ const generateToken = (id) => {
   return { accessToken, refreshToken };
 };
 
+// Move the visitor's guest cart into their account; never block authentication on it
+async function mergeGuestCartForUser(req, user) {
+  try {
+    return await mergeGuestCart(getGuestSessionId(req), user);
+  } catch (error) {
+    console.error('Error merging guest cart:', error.message);
+    return 0;
+  }
+}
+
 // @desc    Register a new user
 // @route   POST /api/auth/register
 // @access  Public
 exports.register = asyncHandler(async (req, res, next) => {
-  const { name, username, email, password, phoneNumber, dateOfBirth, role } = req.body;
+  const { name, username, email, password, phoneNumber, dateOfBirth } = req.body;
 
   // Check if user already exists (by email or username)
   const userExists = await User.findOne({ 
@@ -94,7 +106,8 @@ exports.register = asyncHandler(async (req, res, next) => {
     password,
     phone: phoneNumber,
     birthdate: dateOfBirth,
-    role: role || "user",
+    // Staff roles are only granted by an admin from the users panel
+    role: "user",
   });
 
   if (user) {
@@ -113,15 +126,17 @@ exports.register = asyncHandler(async (req, res, next) => {
     });
 
     // Don't send password back, even hashed
-    const userResponse = { ...user._doc };
+    const userResponse = { ...user._doc, permissions: getRolePermissions(user.role) };
     delete userResponse.password;
 
     const tokens = generateToken(user._id);
+    const mergedCartItems = await mergeGuestCartForUser(req, user);
 
     res.status(201).json({
       success: true,
       ...tokens,
       user: userResponse,
+      mergedCartItems,
     });
   } else {
     res.status(400).json({ success: false, message: "Invalid user data" });
@@ -169,16 +184,18 @@ exports.login = asyncHandler(async (req, res, next) => {
     await user.save();
 
     // Don't send password back
-    const userResponse = { ...user._doc };
+    const userResponse = { ...user._doc, permissions: getRolePermissions(user.role) };
     delete userResponse.password;
 
     // Generate tokens
     const tokens = generateToken(user._id);
+    const mergedCartItems = await mergeGuestCartForUser(req, user);
 
     res.status(200).json({
       success: true,
       ...tokens,
       user: userResponse,
+      mergedCartItems,
     });
   } catch (error) {
     console.error('Login error:', error);
@@ -221,7 +238,8 @@ exports.refreshToken = asyncHandler(async (req, res, next) => {
         _id: user._id,
         name: user.name,
         email: user.email,
-        role: user.role
+        role: user.role,
+        permissions: getRolePermissions(user.role)
       }
     });
   } catch (err) {
@@ -242,7 +260,7 @@ exports.getMe = asyncHandler(async (req, res, next) => {
 
   res.status(200).json({
     success: true,
-    data: user,
+    data: { ...user.toJSON(), permissions: getRolePermissions(user.role) },
   });
 });
 
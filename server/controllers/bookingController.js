@@ -1,59 +1,21 @@
 const FlightBooking = require("../models/FlightBooking");
 const User = require("../models/User"); // Needed to get user details
 const asyncHandler = require("../middleware/asyncHandler");
-const fs = require('fs');
-const path = require('path');
 const { generateSignedUrl } = require('../utils/gcsStorage');
 const { checkFareValidityIfEnabled, processSeeruBookingIfEnabled } = require('../utils/seeruBookingHelper');
-
-// Load airports data to try to resolve IATA codes when missing
-const airportsJsonPath = path.join(__dirname, '../data/airports.json');
-let airports = [];
-try {
-  airports = JSON.parse(fs.readFileSync(airportsJsonPath, 'utf8'));
-} catch (err) {
-  console.warn('Could not load airports.json for IATA resolution:', err.message);
-}
-
-const findAirportIataForLabel = (label) => {
-  if (!label) return null;
-  const s = String(label).trim().toLowerCase();
-  // If it's already a 3-letter IATA
-  if (/^[a-z]{3}$/.test(s)) return s.toUpperCase();
-
-  // Try to match exact iata_code
-  const byIata = airports.find(a => a.iata_code && a.iata_code.toLowerCase() === s);
-  if (byIata) return byIata.iata_code;
-
-  // Try matching by name, municipality or Arabic equivalents
-  const byName = airports.find(a => {
-    return (
-      (a.name && a.name.toLowerCase().includes(s)) ||
-      (a.name_arbic && a.name_arbic.toLowerCase().includes(s)) ||
-      (a.municipality && a.municipality.toLowerCase().includes(s)) ||
-      (a.municipality_arbic && a.municipality_arbic.toLowerCase().includes(s)) ||
-      (a.country && a.country.toLowerCase().includes(s)) ||
-      (a.country_arbic && a.country_arbic.toLowerCase().includes(s))
-    );
-  });
-  if (byName) return byName.iata_code;
-
-  return null;
+const { createFlightBookingForUser, normalizePassengerDetails, getCustomerTimeline } = require('../utils/flightBookingHelper');
+const { placeFareHold, releaseHeldFare } = require('../services/fareHoldService');
+const { revalidateBookingFare, acceptFareChange, getFareCheckSummary } = require('../services/fareCheckService');
+const { ITINERARY_LANGUAGES, isItineraryAvailable, getItineraryPdf } = require('../services/itineraryPdfService');
+
+// Cart items are addressed by Mongo id, payments by booking reference
+const findOwnBooking = (req) => {
+  const idFilter = /^[a-f\d]{24}$/i.test(req.params.id)
+    ? { _id: req.params.id }
+    : { bookingId: req.params.id };
+  return FlightBooking.findOne({ ...idFilter, userId: req.user._id });
 };
 
-// Helper function to generate a unique booking ID (Example: BK-1001)
-async function generateBookingId() {
-  const lastBooking = await FlightBooking.findOne().sort({ createdAt: -1 });
-  let nextIdNumber = 1001;
-  if (lastBooking && lastBooking.bookingId) {
-    const lastIdNumber = parseInt(lastBooking.bookingId.split("-")[1]);
-    if (!isNaN(lastIdNumber)) {
-      nextIdNumber = lastIdNumber + 1;
-    }
-  }
-  return `BK-${nextIdNumber}`;
-}
-
 // @desc    Create a new booking
 // @route   POST /api/bookings
 // @access  Private (User must be logged in)
@@ -73,162 +35,7 @@ exports.createBooking = asyncHandler(async (req, res, next) => {
     return res.status(400).json({ success: false, message: "Missing required flight booking details" });
   }
 
-  // Extract flight details
-  const {
-    from,
-    to,
-    departureDate,
-    passengers,
-    selectedFlight
-  } = flightDetails;
-
-  // Attempt to resolve IATA codes if not provided in the payload
-  const resolvedFromIata = flightDetails.fromIata || findAirportIataForLabel(from) || null;
-  const resolvedToIata = flightDetails.toIata || findAirportIataForLabel(to) || null;
-
-  // Resolve airline code/logo from selectedFlight if not top-level provided
-  const resolvedAirlineCode = flightDetails.airlineCode || selectedFlight?.airlineCode || selectedFlight?.airline_code || null;
-  const resolvedAirlineLogo = flightDetails.airlineLogo || selectedFlight?.airlineLogo || selectedFlight?.airline_logo_url || null;
-
-  // Format the booking details
-  const bookingData = {
-    type: 'Flight',
-    destination: `${from} to ${to}`,
-    bookingDate: new Date(departureDate),
-    details: {
-      from,
-      to,
-      departureDate,
-      passengers,
-      flight: selectedFlight
-    },
-    // amount will be resolved below from selectedFlight (robustly)
-    amount: null,
-  };
-
-  // Normalize raw flight object from selectedFlight for downstream processing
-  const rawFlight = selectedFlight || {};
-
-  // Resolve Seeru integration keys from incoming payload/raw flight
-  const resolvedFareKey = (selectedFlight && (selectedFlight.fareKey || selectedFlight.fare_key))
-    || (rawFlight && (rawFlight.fareKey || rawFlight.fare_key))
-    || null;
-  const resolvedFareBrand = (selectedFlight && (selectedFlight.fareBrand || selectedFlight.fare_brand))
-    || (rawFlight && (rawFlight.fareBrand || rawFlight.fare_brand))
-    || undefined;
-
-  // Generate a unique booking ID
-  const bookingId = await generateBookingId();
-
-  // Use values from bookingData when creating the DB record
-  const { type, destination, bookingDate, details, amount } = bookingData;
-
-  const extractFlightId = (f) => {
-    return (
-      f.flightId || f.flightnumber || f.trip_id ||
-      (f.legs && f.legs[0] && f.legs[0].segments && f.legs[0].segments[0] && (f.legs[0].segments[0].flightnumber || f.legs[0].segments[0].flightId)) ||
-      ''
-    );
-  };
-
-  const extractAirline = (f) => {
-    return (
-      f.airline || f.airline_name ||
-      (f.legs && f.legs[0] && f.legs[0].segments && f.legs[0].segments[0] && (f.legs[0].segments[0].airline_name || f.legs[0].segments[0].airline)) ||
-      ''
-    );
-  };
-
-  const extractDate = (val) => {
-    if (!val) return null;
-    const d = new Date(val);
-    if (!isNaN(d.getTime())) return d;
-    return null;
-  };
-
-  const flightIdVal = extractFlightId(rawFlight);
-  const airlineVal = extractAirline(rawFlight);
-  const departureVal = extractDate(rawFlight.departureTime) || extractDate(rawFlight.legs?.[0]?.from?.date) || extractDate(details.departureDate) || new Date();
-  const arrivalVal = extractDate(rawFlight.arrivalTime) || extractDate(rawFlight.legs?.[0]?.to?.date) || new Date(departureVal.getTime() + 2 * 60 * 60 * 1000); // default +2h
-
-  // Normalize price object
-  let priceObj = { total: 0, currency: 'USD' };
-  if (rawFlight.price && typeof rawFlight.price === 'object') {
-    priceObj.total = Number(rawFlight.price.total || rawFlight.price.amount || 0) || 0;
-    priceObj.currency = rawFlight.price.currency || rawFlight.price.currency_code || 'USD';
-  } else if (typeof rawFlight.price === 'number') {
-    priceObj.total = rawFlight.price;
-    priceObj.currency = rawFlight.currency || 'USD';
-  } else if (selectedFlight && selectedFlight.price && typeof selectedFlight.price === 'object') {
-    priceObj.total = Number(selectedFlight.price.total || 0) || 0;
-    priceObj.currency = selectedFlight.price.currency || 'USD';
-  }
-
-  // set bookingData.amount for bookkeeping
-  bookingData.amount = priceObj.total;
-
-  // Create a FlightBooking document (specific collection for flights)
-  const booking = await FlightBooking.create({
-    bookingId,
-    userId: req.user.id,
-    customerName: user.name,
-    customerEmail: user.email,
-    customerPhone: user.phone || '', // Add phone for Seeru integration
-    // Add passenger and contact data for Seeru integration
-    passengers: details.passengers || [],
-    passengerDetails: details.passengerDetails || [],
-    contact: {
-      full_name: user.name,
-      email: user.email,
-      mobile: user.phone || '',
-      phone: user.phone || ''
-    },
-    flightDetails: {
-      from: details.from,
-      to: details.to,
-      fromIata: resolvedFromIata,
-      toIata: resolvedToIata,
-      departureDate: details.departureDate,
-      passengers: details.passengers,
-      passengerDetails: details.passengerDetails || [],
-      selectedFlight: {
-        flightId: flightIdVal || '',
-        airline: airlineVal || '',
-        departureTime: departureVal,
-        arrivalTime: arrivalVal,
-        price: priceObj,
-        class: details.flight?.class || details.flight?.cabin || 'economy',
-        airlineCode: resolvedAirlineCode,
-        airlineLogo: resolvedAirlineLogo,
-        // include fareKey for downstream seeru processing
-        fareKey: resolvedFareKey || undefined,
-        // store raw provider flight object for full UI rendering
-        raw: details.flight || selectedFlight || {}
-      }
-    },
-    status: "pending",
-    paymentStatus: "pending",
-    ticketDetails: {
-      additionalDocuments: []
-    },
-    paymentDetails: {
-      status: "pending",
-      currency: details.flight?.price?.currency || 'USD',
-      transactions: []
-    },
-    timeline: [{ status: 'created', timestamp: new Date(), description: 'Booking created and added to cart' }]
-  });
-
-  // Persist fare metadata at booking root if available (helps server-side processors)
-  if (resolvedFareKey) {
-    booking.fareKey = resolvedFareKey;
-  }
-  if (resolvedFareBrand) {
-    booking.fareBrand = resolvedFareBrand;
-  }
-  if (resolvedFareKey || resolvedFareBrand) {
-    try { await booking.save(); } catch (e) { /* ignore non-fatal persist errors */ }
-  }
+  const booking = await createFlightBookingForUser(user, flightDetails);
 
   // Step 1: Check fare validity with Seeru (POST /booking/fare)
   // This sets status to "Initiated" if successful
@@ -304,7 +111,11 @@ exports.getMyBookings = asyncHandler(async (req, res, next) => {
 
   // Convert all ticket paths to signed URLs
   const bookingsWithUrls = await Promise.all(
-    bookings.map(b => convertBookingUrls(b))
+    bookings.map(async (b) => {
+      const book = await convertBookingUrls(b);
+      book.timeline = getCustomerTimeline(b);
+      return book;
+    })
   );
 
   res.status(200).json({
@@ -328,6 +139,12 @@ exports.deleteBooking = asyncHandler(async (req, res, next) => {
     return res.status(403).json({ success: false, message: 'Not authorized to delete this booking' });
   }
 
+  // A held fare is released with Seeru before the booking goes
+  const release = await releaseHeldFare(booking);
+  if (!release.success) {
+    return res.status(409).json({ success: false, message: release.message });
+  }
+
   await booking.deleteOne();
 
   res.status(200).json({ success: true, data: {} });
@@ -401,20 +218,7 @@ exports.savePassengersAndProcessSeeru = asyncHandler(async (req, res, next) => {
   }
 
   // Update passenger details with all required fields
-  const transformedPassengers = passengerDetails.map(p => ({
-    firstName: p.firstName || '',
-    lastName: p.lastName || '',
-    gender: p.gender || '',
-    dob: p.dob ? new Date(p.dob) : null,
-    passportNumber: p.passportNumber || '',
-    passportIssueDate: p.passportIssueDate ? new Date(p.passportIssueDate) : null,
-    passportExpiryDate: p.passportExpiryDate ? new Date(p.passportExpiryDate) : null,
-    passportCountry: p.passportCountry || '',
-    nationality: p.nationality || '',
-    phone: p.phone || '',
-    email: p.email || '',
-    type: p.type || 'adult'
-  }));
+  const transformedPassengers = normalizePassengerDetails(passengerDetails);
 
   // Save only to root level passengerDetails to avoid Mongoose version conflicts
   booking.passengerDetails = transformedPassengers;
@@ -464,6 +268,83 @@ exports.savePassengersAndProcessSeeru = asyncHandler(async (req, res, next) => {
   });
 });
 
+// @desc    Hold a booking's fare with the supplier and pay later
+// @route   POST /api/bookings/:id/hold
+// @access  Private
+exports.holdBooking = asyncHandler(async (req, res, next) => {
+  const booking = await findOwnBooking(req);
+  if (!booking) {
+    return res.status(404).json({ success: false, message: 'Booking not found' });
+  }
+
+  if (booking.status !== 'pending' || booking.paymentStatus === 'completed') {
+    return res.status(400).json({ success: false, message: 'Only unpaid bookings can be held' });
+  }
+
+  // Seeru needs every traveller to save the order
+  const counts = booking.flightDetails?.passengers || {};
+  const travellers = (counts.adults || 0) + (counts.children || 0) + (counts.infants || 0);
+  if ((booking.passengerDetails || []).length < Math.max(travellers, 1)) {
+    return res.status(400).json({ success: false, message: 'Enter passenger details for all travellers before holding this fare' });
+  }
+
+  const result = await placeFareHold(booking);
+  if (!result.success) {
+    return res.status(400).json({ success: false, message: result.message });
+  }
+
+  res.status(200).json({
+    success: true,
+    message: result.message,
+    data: result.booking
+  });
+});
+
+// @desc    Re-check a booking's fare with the supplier before payment
+// @route   POST /api/bookings/:id/fare-check
+// @access  Private
+exports.checkBookingFare = asyncHandler(async (req, res, next) => {
+  const booking = await findOwnBooking(req);
+  if (!booking) {
+    return res.status(404).json({ success: false, message: 'Booking not found' });
+  }
+  if (booking.status !== 'pending' || booking.paymentStatus === 'completed') {
+    return res.status(400).json({ success: false, message: 'Only unpaid bookings can be re-checked' });
+  }
+
+  await revalidateBookingFare(booking, { updatedBy: req.user.name });
+  await booking.save();
+
+  res.status(200).json({
+    success: true,
+    data: getFareCheckSummary(booking)
+  });
+});
+
+// @desc    Accept a changed fare found by the pre-payment check
+// @route   POST /api/bookings/:id/fare-check/accept
+// @access  Private
+exports.acceptBookingFare = asyncHandler(async (req, res, next) => {
+  const booking = await findOwnBooking(req);
+  if (!booking) {
+    return res.status(404).json({ success: false, message: 'Booking not found' });
+  }
+  if (booking.status !== 'pending' || booking.paymentStatus === 'completed') {
+    return res.status(400).json({ success: false, message: 'Only unpaid bookings can be updated' });
+  }
+
+  const result = acceptFareChange(booking, { updatedBy: req.user.name });
+  if (!result.success) {
+    return res.status(409).json({ success: false, message: result.message });
+  }
+  await booking.save();
+
+  res.status(200).json({
+    success: true,
+    data: booking
+  });
+});
+
 // @desc    Return a usable URL (public or signed) for a booking ticket
 // @route   GET /api/bookings/:id/ticket-url
 // @access  Private
@@ -507,4 +388,44 @@ exports.getTicketUrl = asyncHandler(async (req, res, next) => {
   return res.status(200).json({ success: true, url: raw });
 });
 
+// @desc    Download the itinerary/receipt PDF of an issued booking
+// @route   GET /api/bookings/:id/itinerary?lang=en|ar
+// @access  Private
+exports.getItinerary = asyncHandler(async (req, res, next) => {
+  const booking = await findOwnBooking(req);
+  if (!booking) {
+    return res.status(404).json({ success: false, message: 'Booking not found' });
+  }
+  if (!isItineraryAvailable(booking)) {
+    return res.status(400).json({ success: false, message: 'The itinerary is available once the ticket is issued' });
+  }
+
+  const language = ITINERARY_LANGUAGES.includes(req.query.lang) ? req.query.lang : 'en';
+  let itinerary;
+  try {
+    itinerary = await getItineraryPdf(booking, language);
+  } catch (err) {
+    console.error(`Failed to generate itinerary for ${booking.bookingId}:`, err);
+    return res.status(500).json({ success: false, message: 'Failed to generate the itinerary' });
+  }
+  if (booking.isModified()) {
+    await booking.save();
+  }
+
+  let url = await generateSignedUrl(itinerary.path, 3600);
+  // Local storage fallback serves files under /uploads
+  if (url.startsWith('/uploads')) {
+    url = `${req.protocol}://${req.get('host')}${url}`;
+  }
+
+  res.status(200).json({
+    success: true,
+    data: {
+      url,
+      language: itinerary.language,
+      generatedAt: itinerary.generatedAt
+    }
+  });
+});
+
 // Note: Admin booking management (get all, get by ID, update, delete) will be in adminController
@@ -1,22 +1,20 @@
 const asyncHandler = require("../middleware/asyncHandler");
-const Booking = require("../models/Booking");
 const FlightBooking = require("../models/FlightBooking");
-const Notification = require("../models/Notification");
-const User = require("../models/User");
-const { checkFareValidityIfEnabled, processSeeruBookingIfEnabled } = require('../utils/seeruBookingHelper');
-
-// Helper function to generate a unique flight booking ID
-async function generateFlightBookingId() {
-  const lastBooking = await FlightBooking.findOne().sort({ createdAt: -1 });
-  let nextIdNumber = 1001;
-  if (lastBooking && lastBooking.bookingId) {
-    const lastIdNumber = parseInt(lastBooking.bookingId.split("-")[1]);
-    if (!isNaN(lastIdNumber)) {
-      nextIdNumber = lastIdNumber + 1;
-    }
-  }
-  return `FB-${nextIdNumber}`;
-}
+const { checkFareValidityIfEnabled } = require('../utils/seeruBookingHelper');
+const { createFlightBookingForUser, getFlightIdentity } = require('../utils/flightBookingHelper');
+const {
+  getGuestSessionId,
+  generateGuestSessionId,
+  getGuestCartItems,
+  addGuestCartItem,
+  removeGuestCartItem,
+  saveGuestPassengers
+} = require('../services/guestCartService');
+const { savePassengersAndProcessSeeru } = require('./bookingController');
+const { releaseHeldFare } = require('../services/fareHoldService');
+
+// Cart items stay visible until the ticket is issued or the booking is cancelled
+const CART_EXCLUDED_STATUSES = ["issued", "done", "cancelled"];
 
 // @desc    Add flight to cart (works for both authenticated and anonymous users)
 // @route   POST /api/cart
@@ -39,8 +37,9 @@ exports.addFlightToCart = asyncHandler(async (req, res) => {
     });
   }
 
-  if (!flightDetails.selectedFlight || !flightDetails.selectedFlight.flightId || 
-      !flightDetails.selectedFlight.airline) {
+  // selectedFlight may be a flat summary or the raw Seeru flight object
+  const identity = getFlightIdentity(flightDetails);
+  if (!flightDetails.selectedFlight || !identity.flightId) {
     return res.status(400).json({
       success: false,
       message: "Missing required selected flight details"
@@ -58,14 +57,13 @@ exports.addFlightToCart = asyncHandler(async (req, res) => {
 
   if (req.user) {
     // Check for existing booking to prevent duplicates
-    const existingBooking = await FlightBooking.findOne({
-      userId: req.user.id,
-      status: "pending",
-      'flightDetails.selectedFlight.flightId': flightDetails.selectedFlight?.flightId,
-      'flightDetails.departureDate': new Date(flightDetails.departureDate)
-    });
+    const pendingBookings = await FlightBooking.find({ userId: req.user._id, status: "pending" });
+    const isDuplicate = pendingBookings.some(booking =>
+      booking.flightDetails?.selectedFlight?.flightId === identity.flightId &&
+      new Date(booking.flightDetails?.selectedFlight?.departureTime).getTime() === identity.departureTime
+    );
 
-    if (existingBooking) {
+    if (isDuplicate) {
       return res.status(400).json({
         success: false,
         message: "This flight is already in your cart"
@@ -73,31 +71,7 @@ exports.addFlightToCart = asyncHandler(async (req, res) => {
     }
 
     // Authenticated user - save to database
-    const bookingId = await generateFlightBookingId();
-    
-    // Prepare flight details with proper date conversion
-    const processedFlightDetails = {
-      ...flightDetails,
-      departureDate: new Date(flightDetails.departureDate),
-      selectedFlight: {
-        ...flightDetails.selectedFlight,
-        departureTime: new Date(flightDetails.selectedFlight.departureTime || flightDetails.departureDate),
-        arrivalTime: new Date(flightDetails.selectedFlight.arrivalTime || flightDetails.departureDate),
-        price: {
-          total: Number(flightDetails.selectedFlight.price.total),
-          currency: flightDetails.selectedFlight.price.currency || 'USD'
-        }
-      }
-    };
-    
-    const flightBooking = await FlightBooking.create({
-      bookingId,
-      userId: req.user.id,
-      customerName: req.user.name,
-      customerEmail: req.user.email,
-      flightDetails: processedFlightDetails,
-      status: "pending"
-    });
+    const flightBooking = await createFlightBookingForUser(req.user, flightDetails);
 
     // Step 1: Check fare validity with Seeru (POST /booking/fare)
     // This is done asynchronously to not block the response
@@ -118,49 +92,21 @@ exports.addFlightToCart = asyncHandler(async (req, res) => {
       data: flightBooking,
     });
   } else {
-    // Anonymous user - save to session
-    if (!req.session.cart) {
-      req.session.cart = [];
-    }
+    // Anonymous user - save to the guest cart keyed by X-Session-ID
+    const sessionId = getGuestSessionId(req) || generateGuestSessionId();
+    const result = await addGuestCartItem(sessionId, flightDetails);
 
-    // Check for duplicates in session
-    const existingItem = req.session.cart.find(item => 
-      item.flightDetails?.selectedFlight?.flightId === flightDetails.selectedFlight?.flightId &&
-      new Date(item.flightDetails?.departureDate).getTime() === new Date(flightDetails.departureDate).getTime()
-    );
-
-    if (existingItem) {
+    if (!result.success) {
       return res.status(400).json({
         success: false,
-        message: "This flight is already in your cart"
+        message: result.error
       });
     }
 
-    const cartItem = {
-      id: 'temp_' + Date.now(),
-      type: 'flight',
-      flightDetails: {
-        ...flightDetails,
-        departureDate: new Date(flightDetails.departureDate),
-        selectedFlight: {
-          ...flightDetails.selectedFlight,
-          departureTime: new Date(flightDetails.selectedFlight.departureTime || flightDetails.departureDate),
-          arrivalTime: new Date(flightDetails.selectedFlight.arrivalTime || flightDetails.departureDate),
-          price: {
-            total: Number(flightDetails.selectedFlight.price.total),
-            currency: flightDetails.selectedFlight.price.currency || 'USD'
-          }
-        }
-      },
-      addedAt: new Date()
-    };
-
-    req.session.cart.push(cartItem);
-
     res.status(201).json({
       success: true,
-      data: cartItem,
-      sessionId: req.sessionId
+      data: result.data,
+      sessionId
     });
   }
 });
@@ -173,30 +119,19 @@ exports.getCartItems = asyncHandler(async (req, res) => {
 
   if (req.user) {
     // Authenticated user - get full FlightBooking objects from database
-    const flightBookings = await FlightBooking.find({
-      userId: req.user.id,
-      status: "pending"
+    cartItems = await FlightBooking.find({
+      userId: req.user._id,
+      status: { $nin: CART_EXCLUDED_STATUSES }
     }).sort({ createdAt: -1 });
-
-    cartItems = flightBookings;
   } else {
-    // Anonymous user - get from session and convert to FlightBooking-like format
-    if (req.session.cart) {
-      cartItems = req.session.cart.map(item => ({
-        _id: item.id,
-        bookingId: item.id,
-        flightDetails: item.flightDetails,
-        status: 'pending',
-        createdAt: item.addedAt,
-        paymentDetails: { status: 'pending' }
-      }));
-    }
+    // Anonymous user - guest cart items already come in FlightBooking shape
+    cartItems = await getGuestCartItems(getGuestSessionId(req));
   }
 
   res.status(200).json({
     success: true,
-    data: cartItems,
-    sessionId: req.sessionId
+    count: cartItems.length,
+    data: cartItems
   });
 });
 
@@ -205,31 +140,37 @@ exports.getCartItems = asyncHandler(async (req, res) => {
 // @access  Public
 exports.removeFromCart = asyncHandler(async (req, res) => {
   if (req.user) {
-    // Authenticated user - remove from database
-    let booking = await Booking.findOne({
-      bookingId: req.params.id,
-      userId: req.user.id
-    });
+    // Authenticated user - remove from database (by Mongo id or booking reference)
+    const idFilter = /^[a-f\d]{24}$/i.test(req.params.id)
+      ? { _id: req.params.id }
+      : { bookingId: req.params.id };
+    const booking = await FlightBooking.findOne({ ...idFilter, userId: req.user._id });
 
     if (!booking) {
-      booking = await FlightBooking.findOne({
-        bookingId: req.params.id,
-        userId: req.user.id
+      return res.status(404).json({
+        success: false,
+        message: "Booking not found"
       });
     }
 
-    if (!booking) {
-      return res.status(404).json({
+    // A held fare is released with Seeru before the booking goes
+    const release = await releaseHeldFare(booking);
+    if (!release.success) {
+      return res.status(409).json({
         success: false,
-        message: "Booking not found"
+        message: release.message
       });
     }
 
     await booking.deleteOne();
   } else {
-    // Anonymous user - remove from session
-    if (req.session.cart) {
-      req.session.cart = req.session.cart.filter(item => item.id !== req.params.id);
+    // Anonymous user - remove from the guest cart
+    const removed = await removeGuestCartItem(getGuestSessionId(req), req.params.id);
+    if (!removed) {
+      return res.status(404).json({
+        success: false,
+        message: "Cart item not found"
+      });
     }
   }
 
@@ -239,90 +180,30 @@ exports.removeFromCart = asyncHandler(async (req, res) => {
   });
 });
 
-// @desc    Checkout cart items (requires authentication)
-// @route   POST /api/cart/checkout
-// @access  Private
-exports.checkout = asyncHandler(async (req, res) => {
-  if (!req.user) {
-    return res.status(401).json({
-      success: false,
-      message: "Authentication required for checkout"
-    });
+// @desc    Save passenger details for a cart item
+// @route   POST /api/cart/:id/passengers
+// @access  Public
+exports.saveCartPassengers = asyncHandler(async (req, res, next) => {
+  if (req.user) {
+    // Logged-in carts are FlightBookings; saving passengers also starts the Seeru booking
+    return savePassengersAndProcessSeeru(req, res, next);
   }
 
-  try {
-    // Get both regular bookings and flight bookings
-    const [regularBookings, flightBookings] = await Promise.all([
-      Booking.find({
-        userId: req.user.id,
-        status: "pending"
-      }),
-      FlightBooking.find({
-        userId: req.user.id,
-        status: "pending"
-      })
-    ]);
-
-    const totalItems = regularBookings.length + flightBookings.length;
-
-    if (totalItems === 0) {
-      return res.status(400).json({
-        success: false,
-        message: "Cart is empty"
-      });
-    }
-
-    // Update status for all items
-    await Promise.all([
-      ...regularBookings.map(async (item) => {
-        item.status = "confirmed";
-        await item.save();
-        
-        // Create notification for regular booking
-        await Notification.create({
-          userId: req.user.id,
-          title: {
-            en: "Booking Confirmed",
-            ar: "تم تأكيد الحجز"
-          },
-          message: {
-            en: `Your ${item.type} booking for ${item.destination || 'your selected destination'} has been confirmed.`,
-            ar: `تم تأكيد حجز ${item.type} الخاص بك لـ ${item.destination || 'الوجهة المختارة'}.`
-          },
-          type: "booking"
-        });
-      }),
-      ...flightBookings.map(async (item) => {
-        item.status = "confirmed";
-        await item.save();
-        
-        // Create notification for flight booking
-        await Notification.create({
-          userId: req.user.id,
-          title: {
-            en: "Flight Booking Confirmed",
-            ar: "تم تأكيد حجز الرحلة"
-          },
-          message: {
-            en: `Your flight from ${item.flightDetails.from} to ${item.flightDetails.to} has been confirmed.`,
-            ar: `تم تأكيد حجز رحلتك من ${item.flightDetails.from} إلى ${item.flightDetails.to}.`
-          },
-          type: "booking"
-        });
-      })
-    ]);
+  const { passengerDetails } = req.body;
+  if (!passengerDetails || !Array.isArray(passengerDetails) || passengerDetails.length === 0) {
+    return res.status(400).json({ success: false, message: 'Passenger details are required' });
+  }
 
-    res.status(200).json({
-      success: true,
-      message: "Checkout completed successfully"
-    });
-  } catch (error) {
-    console.error('Checkout error:', error);
-    res.status(500).json({
-      success: false,
-      message: "Failed to confirm booking"
-    });
+  const item = await saveGuestPassengers(getGuestSessionId(req), req.params.id, passengerDetails);
+  if (!item) {
+    return res.status(404).json({ success: false, message: 'Cart item not found' });
   }
+
+  res.status(200).json({
+    success: true,
+    message: 'Passenger details saved',
+    data: item
+  });
 });
 
 // Helper functions to format booking data for cart display
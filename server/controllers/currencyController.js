@@ -0,0 +1,74 @@
+const asyncHandler = require('../middleware/asyncHandler');
+const Setting = require('../models/Setting');
+const { recordAudit } = require('../services/auditLogService');
+const {
+  BASE_CURRENCY,
+  CURRENCY_RATES_KEY,
+  SUPPORTED_CURRENCIES,
+  normalizeRateEntries,
+  getRateEntries,
+  getActiveRates,
+} = require('../utils/currency');
+
+// @desc    Get the exchange rates currently in force
+// @route   GET /api/currency/rates
+// @access  Public
+exports.getCurrencyRates = asyncHandler(async (req, res) => {
+  const rates = await getActiveRates();
+  res.status(200).json({
+    success: true,
+    data: {
+      base: BASE_CURRENCY,
+      currencies: SUPPORTED_CURRENCIES.filter(c => rates[c] != null),
+      rates
+    }
+  });
+});
+
+// @desc    Get all configured rate entries, including scheduled ones
+// @route   GET /api/currency/rates/history
+// @access  Private/Admin
+exports.getCurrencyRateEntries = asyncHandler(async (req, res) => {
+  const entries = await getRateEntries();
+  res.status(200).json({
+    success: true,
+    data: {
+      base: BASE_CURRENCY,
+      supported: SUPPORTED_CURRENCIES.filter(c => c !== BASE_CURRENCY),
+      entries
+    }
+  });
+});
+
+// @desc    Replace the configured rate entries
+// @route   PUT /api/currency/rates
+// @access  Private/Admin
+exports.updateCurrencyRates = asyncHandler(async (req, res) => {
+  const { entries, error } = normalizeRateEntries(req.body?.entries);
+  if (error) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const existing = await Setting.findOne({ key: CURRENCY_RATES_KEY }).lean();
+  await Setting.findOneAndUpdate(
+    { key: CURRENCY_RATES_KEY },
+    { value: entries },
+    { upsert: true, new: true, setDefaultsOnInsert: true }
+  );
+  await recordAudit(req, {
+    action: 'currency.updateRates',
+    targetType: 'Setting',
+    targetId: CURRENCY_RATES_KEY,
+    before: { rates: existing?.value || [] },
+    after: { rates: entries }
+  });
+
+  res.status(200).json({
+    success: true,
+    data: {
+      base: BASE_CURRENCY,
+      supported: SUPPORTED_CURRENCIES.filter(c => c !== BASE_CURRENCY),
+      entries
+    }
+  });
+});
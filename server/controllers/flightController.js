@@ -1,6 +1,7 @@
 const axios = require('axios');
 const asyncHandler = require('../middleware/asyncHandler');
 const SearchLog = require('../models/SearchLog');
+const { getActiveRules, applyPricingToFlight, rememberSearchFares } = require('../services/pricingService');
 
 // Seeru API configuration
 const seeruBaseURL = `https://${process.env.SEERU_API_ENDPOINT}/${process.env.SEERU_API_VERSION}/flights`;
@@ -22,8 +23,36 @@ const getSeeruApiInstance = () => {
   });
 };
 
+// Preferred/excluded airline filters, as comma separated IATA codes in the query
+const MAX_AIRLINE_FILTERS = 10;
+
+function parseAirlineCodes(value) {
+  const codes = String(value || '')
+    .split(',')
+    .map(code => code.trim().toUpperCase())
+    .filter(code => /^[A-Z0-9]{2,3}$/.test(code));
+  return [...new Set(codes)].slice(0, MAX_AIRLINE_FILTERS);
+}
+
+// `airline` is the older single-airline param; an airline in both lists counts as excluded
+function getAirlineFilters(query = {}) {
+  const excluded = parseAirlineCodes(query.exclude_airlines);
+  const preferred = parseAirlineCodes([query.airlines, query.airline].filter(Boolean).join(','))
+    .filter(code => !excluded.includes(code));
+  return { preferred, excluded };
+}
+
+// Preferred: every segment is flown by one of them. Excluded: no segment is.
+function matchesAirlineFilters(flight, { preferred, excluded }) {
+  const carriers = (flight.legs || [])
+    .flatMap(leg => (leg.segments || []).map(segment => String(segment.iata || '').toUpperCase()))
+    .filter(Boolean);
+  if (excluded.some(code => carriers.includes(code))) return false;
+  return preferred.length === 0 || (carriers.length > 0 && carriers.every(code => preferred.includes(code)));
+}
+
 // @desc    Search for flights using Seeru API
-// @route   GET /api/flights/search/:trips/:adults/:children/:infants
+// @route   GET /api/flights/search/:trips/:adults/:children/:infants?airlines=&exclude_airlines=
 // @access  Public
 // Add timeout configuration to Seeru API calls
 const seeruApiConfig = {
@@ -73,8 +102,9 @@ exports.searchFlights = asyncHandler(async (req, res) => {
     }
 
     // [SEERU-FIX-2] append airline query param only when provided (do not append when missing/empty)
-    const airline = req.query?.airline;
-    const airlinePart = airline !== undefined && String(airline).trim() !== '' ? `&airline=${encodeURIComponent(String(airline).trim())}` : '';
+    // Seeru filters on a single airline; other preferences are applied to the results
+    const { preferred } = getAirlineFilters(req.query);
+    const airlinePart = preferred.length === 1 ? `&airline=${encodeURIComponent(preferred[0])}` : '';
     const seeruUrl = `https://${process.env.SEERU_API_ENDPOINT}/${process.env.SEERU_API_VERSION}/flights/search/${trips}/${adults}/${children}/${infants}?cabin=${cabin}&direct=${direct}${airlinePart}`;
 
     // Use environment variables for the correct API endpoint
@@ -131,7 +161,7 @@ exports.searchFlights = asyncHandler(async (req, res) => {
 });
 
 // @desc    Get search results from Seeru API
-// @route   GET /api/flights/results/:searchId
+// @route   GET /api/flights/results/:searchId?airlines=&exclude_airlines=
 // @access  Public
 exports.getFlightSearchResults = asyncHandler(async (req, res) => {
   const { searchId } = req.params;
@@ -206,7 +236,13 @@ exports.getFlightSearchResults = asyncHandler(async (req, res) => {
       }
     });
 
-    const transformedFlights = Array.from(tripIdToTransformed.values());
+    // Customer prices: supplier fare plus the configured markups and service fees
+    const airlineFilters = getAirlineFilters(req.query);
+    const pricingRules = await getActiveRules();
+    const transformedFlights = Array.from(tripIdToTransformed.values())
+      .filter(flight => matchesAirlineFilters(flight, airlineFilters))
+      .map(flight => applyPricingToFlight(flight, pricingRules));
+    rememberSearchFares(searchId, transformedFlights);
 
     const isDefinitiveNoResults = transformedFlights.length === 0 && completePercent >= 100;
 
@@ -218,7 +254,10 @@ exports.getFlightSearchResults = asyncHandler(async (req, res) => {
     };
     
     if (isDefinitiveNoResults) {
-      transformedResults.message = 'No flights found for this route and date combination.';
+      const airlineFiltered = airlineFilters.preferred.length > 0 || airlineFilters.excluded.length > 0;
+      transformedResults.message = airlineFiltered
+        ? 'No flights found for the selected airlines on this route and date.'
+        : 'No flights found for this route and date combination.';
     }
     
     res.status(200).json(transformedResults);
@@ -480,6 +519,7 @@ function transformSeeruToFrontendFormat(seeruFlight, segmentIndex = 0) {
       ? formatMinutesToHoursMinutes(seeruFlight.legs[0].duration) : '0h 0m',
     stops_count: seeruFlight.legs && seeruFlight.legs[0] && seeruFlight.legs[0].stops 
       ? seeruFlight.legs[0].stops.length : 0,
+    layover_details: buildLayoverDetails(seeruFlight.legs),
     baggage_allowance: standardizedBaggage,
     
     // Add cabin class at flight level
@@ -585,6 +625,24 @@ function computeDurationMinutes(fromDateStr, toDateStr) {
   }
 }
 
+// Helper to list the connections in each leg: where the plane change happens and how long it takes
+function buildLayoverDetails(legs) {
+  return (legs || []).flatMap(leg => {
+    const segments = Array.isArray(leg.segments) ? leg.segments : [];
+    return segments.slice(0, -1).map((segment, index) => {
+      const next = segments[index + 1];
+      const minutes = computeDurationMinutes(segment.to?.date, next.from?.date);
+      return {
+        airport: segment.to?.airport || segment.to?.iata || '',
+        city: segment.to?.city || '',
+        duration: formatMinutesToHoursMinutes(minutes),
+        duration_minutes: minutes,
+        terminal: next.from?.terminal || undefined
+      };
+    });
+  });
+}
+
 // Legacy functions for backward compatibility (can be removed after full migration)
 // These are kept to ensure the application doesn't break during transition
 
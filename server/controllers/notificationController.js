@@ -3,6 +3,8 @@ const asyncHandler = require("../middleware/asyncHandler");
 const User = require("../models/User");
 const cloudStorageService = require("../services/gcsService");
 const { generateSignedUrl } = require("../utils/gcsStorage");
+const { openStream } = require("../services/notificationStreamService");
+const { hasPermission } = require("../utils/permissions");
 const multer = require("multer");
 
 // Use memory storage for multer here so we can stream directly to Supabase
@@ -47,12 +49,12 @@ exports.getNotifications = asyncHandler(async (req, res) => {
   res.status(200).json({ success: true, data: notificationsWithUrls });
 });
 
-// Get notifications for a specific userId. A user may fetch only their own notifications unless the requester is admin.
+// Get notifications for a specific userId. A user may fetch only their own notifications unless the requester may send notifications.
 exports.getNotificationsByUserId = asyncHandler(async (req, res) => {
   const { userId } = req.params;
 
-  // If requester is not admin, ensure they are requesting their own notifications
-  if (req.user.role !== 'admin' && req.user.id !== userId) {
+  // Staff who send notifications may read anyone's; everyone else only their own
+  if (!hasPermission(req.user.role, 'notifications:send') && req.user.id !== userId) {
     return res.status(403).json({ success: false, message: 'Forbidden' });
   }
 
@@ -68,10 +70,18 @@ exports.getNotificationsByUserId = asyncHandler(async (req, res) => {
   res.status(200).json({ success: true, data: notificationsWithUrls });
 });
 
+// @desc    Stream new notifications as Server-Sent Events
+// @route   GET /api/notifications/stream
+// @access  Private
+exports.streamNotifications = asyncHandler(async (req, res) => {
+  const unreadCount = await Notification.countDocuments({ userId: req.user.id, read: false });
+  openStream(req.user.id, req, res, { unreadCount });
+});
+
 // @desc    Mark notification as read
 // @route   PUT /api/notifications/:id/read
 // @access  Private
-// Mark a specific notification as read. Owners or admins only.
+// Mark a specific notification as read. Owners or staff who send notifications only.
 exports.markAsRead = asyncHandler(async (req, res) => {
   const { notificationId } = req.params;
 
@@ -80,8 +90,8 @@ exports.markAsRead = asyncHandler(async (req, res) => {
     return res.status(404).json({ success: false, message: 'Notification not found' });
   }
 
-  // Only owner or admin can mark as read
-  if (req.user.role !== 'admin' && notification.userId.toString() !== req.user.id) {
+  // Only the owner or staff who send notifications can mark as read
+  if (!hasPermission(req.user.role, 'notifications:send') && notification.userId.toString() !== req.user.id) {
     return res.status(403).json({ success: false, message: 'Forbidden' });
   }
 
@@ -114,7 +124,7 @@ exports.createNotification = asyncHandler(async (req, res) => {
   res.status(201).json({ success: true, data: notification });
 });
 
-// Admin-only: Send notification to a single user (by email/username) or to all users. Accepts multipart/form-data with optional 'pdf' file.
+// Staff with notifications:send: Send notification to a single user (by email/username) or to all users. Accepts multipart/form-data with optional 'pdf' file.
 exports.sendNotification = [
   // multer middleware for single file upload in memory
   memoryUpload.single('pdf'),
@@ -124,9 +134,9 @@ exports.sendNotification = [
       console.warn('sendNotification logging failed', logErr);
     }
 
-    // Ensure admin
-    if (!req.user || req.user.role !== 'admin') {
-      return res.status(403).json({ success: false, message: 'Admin only' });
+    // Ensure the sender may send notifications
+    if (!req.user || !hasPermission(req.user.role, 'notifications:send')) {
+      return res.status(403).json({ success: false, message: 'Not authorized to send notifications' });
     }
 
     const { recipientType, recipient, title, message, type } = req.body;
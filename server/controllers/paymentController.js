@@ -1,9 +1,38 @@
 const asyncHandler = require("../middleware/asyncHandler");
 const FlightBooking = require("../models/FlightBooking");
-const Booking = require("../models/Booking");
 const Notification = require("../models/Notification");
 const crypto = require('crypto');
 const { issueOrder } = require('../utils/seeruAPI');
+const { convertFromUsd, PAYMENT_CURRENCY } = require('../utils/currency');
+const { setBookingPricing } = require('../services/pricingService');
+const { revalidateBookingFare, getFareCheckSummary } = require('../services/fareCheckService');
+const {
+  evaluatePromotion,
+  setBookingDiscount,
+  reservePromotionUses,
+  releasePromotionReservation,
+  recordPromotionRedemption
+} = require('../services/promotionService');
+const {
+  canTransition,
+  setBookingStatus,
+  setPaymentStatus,
+  setSupplierStatus
+} = require('../utils/bookingStateMachine');
+const Order = require("../models/Order");
+const { hasPermission } = require('../utils/permissions');
+const {
+  generateOrderRef,
+  splitOrderAmount,
+  releaseOrderPromotions,
+  supersedePendingOrders,
+  markOrderBookingsPaid,
+  refundSupersededOrder,
+  fulfilPaidOrder,
+  completeOrderRefunds
+} = require('../services/orderService');
+
+const MAX_ORDER_BOOKINGS = 10;
 
 // Load payment config from environment
 const ECASH_PAYMENT_GATEWAY_URL = process.env.ECASH_PAYMENT_GATEWAY_URL || 'https://checkout.ecash-pay.com';
@@ -26,28 +55,430 @@ function buildExpectedCallbackToken(transactionNo, amount, orderRef) {
   return md5Upper(`${MERCHANT_KEY}${MERCHANT_SECRET}${transactionNo}${amount}${orderRef}`);
 }
 
+// Latest payment transaction awaiting a gateway callback
+function findPendingTransaction(booking) {
+  const transactions = booking.paymentDetails?.transactions || [];
+  for (let i = transactions.length - 1; i >= 0; i--) {
+    if (transactions[i].type === 'payment' && transactions[i].status === 'pending') {
+      return transactions[i];
+    }
+  }
+  return null;
+}
+
+// Latest replaced payment attempt for the amount the gateway charged
+function findSupersededTransaction(booking, amount) {
+  const transactions = booking.paymentDetails?.transactions || [];
+  for (let i = transactions.length - 1; i >= 0; i--) {
+    const tx = transactions[i];
+    if (tx.type === 'payment' && tx.status === 'superseded' && Number(tx.amount) === amount) {
+      return tx;
+    }
+  }
+  return null;
+}
+
+// Why a successful gateway payment can't be applied to a booking, if it can't
+function getUnusablePaymentReason(booking, transaction) {
+  if (transaction.status === 'superseded') return 'Payment attempt had been replaced by a newer one';
+  if (booking.paymentStatus === 'completed') return 'Booking was already paid in another payment';
+  // e.g. a fare hold that lapsed while the customer was on the payment page
+  if (!canTransition('status', booking.status, 'confirmed')) return `Booking is ${booking.status} and can no longer be confirmed`;
+  return null;
+}
+
+// The customer was charged but the booking can't take the payment: keep it on record and queue a refund
+function queueUnusablePaymentRefund(booking, transaction, reason) {
+  const currency = transaction.currency || PAYMENT_CURRENCY;
+  const notes = `${reason}; ${transaction.amount} ${currency} from transaction ${transaction.reference} queued for refund`;
+  transaction.status = 'completed';
+  booking.paymentDetails.transactions.push({
+    date: new Date(),
+    amount: transaction.amount,
+    currency,
+    type: 'refund',
+    status: 'pending',
+    reference: transaction.reference,
+    amountUsd: transaction.amountUsd,
+    exchangeRate: transaction.exchangeRate
+  });
+  // The refund lives on the transactions only; the booking's payment status keeps describing its own payment,
+  // so an unpaid booking can still be paid (and later settled) through a new attempt
+  booking.timeline.push({ status: 'payment_refund_queued', date: new Date(), notes, updatedBy: 'system' });
+}
+
+// Record a fare change found by the pre-payment re-price
+function applyRepricedFare(booking, pricing, updatedBy) {
+  const amountUsd = Number(pricing.total);
+  if (pricing.repriced && amountUsd !== Number(booking.flightDetails?.selectedFlight?.price?.total)) {
+    booking.timeline.push({
+      status: 'repriced',
+      date: new Date(),
+      notes: `Fare re-priced before payment: ${booking.flightDetails.selectedFlight.price.total} -> ${amountUsd} USD`,
+      updatedBy
+    });
+    if (pricing.pricing) {
+      setBookingPricing(booking, pricing.pricing);
+    } else {
+      booking.flightDetails.selectedFlight.price.total = amountUsd;
+    }
+  }
+}
+
+// Pending single-booking payments can no longer be settled once a newer attempt starts
+function supersedePendingTransactions(booking) {
+  (booking.paymentDetails?.transactions || []).forEach((tx) => {
+    if (tx.type === 'payment' && tx.status === 'pending') {
+      tx.status = 'superseded';
+    }
+  });
+}
+
+function buildPaymentUrl(amount, orderRef, returnUrl) {
+  const verificationCode = buildVerificationCode(amount, orderRef);
+  const ru = encodeURIComponent(returnUrl || `${SERVER_PUBLIC_URL}/payment/success`);
+  // callback must point to server public URL
+  const cu = encodeURIComponent(`${SERVER_PUBLIC_URL}/api/payment/callback`);
+  return `${ECASH_PAYMENT_GATEWAY_URL}/Checkout/CardCheckout?tk=${TERMINAL_KEY}&mid=${MERCHANT_KEY}&vc=${verificationCode}&c=${PAYMENT_CURRENCY}&a=${amount}&lang=EN&or=${orderRef}&ru=${ru}&cu=${cu}`;
+}
+
 // @desc    Initiate ECash payment (server-side)
 // @route   POST /api/payment/initiate
-// @access  Private (requires authenticated user) but can be relaxed as needed
+// @access  Private
 exports.initiatePayment = asyncHandler(async (req, res) => {
-  const { amount, orderRef, returnUrl } = req.body || {};
+  // The client only identifies the booking (and any promo code); the charge is priced and converted here
+  const { bookingId, returnUrl, promoCode } = req.body || {};
   if (!TERMINAL_KEY || !MERCHANT_KEY || !MERCHANT_SECRET) {
     return res.status(500).json({ success: false, message: 'Payment gateway not configured' });
   }
-  if (!amount || !orderRef) {
-    return res.status(400).json({ success: false, message: 'Missing amount or orderRef' });
+  if (!bookingId) {
+    return res.status(400).json({ success: false, message: 'Missing bookingId' });
   }
 
-  // Build verification and URLs
-  const verificationCode = buildVerificationCode(amount, orderRef);
-  const ru = encodeURIComponent(returnUrl || `${SERVER_PUBLIC_URL}/payment/success`);
-  // callback must point to server public URL
-  const cu = encodeURIComponent(`${SERVER_PUBLIC_URL}/api/payment/callback`);
+  const booking = await FlightBooking.findOne({ bookingId });
+  if (!booking) {
+    return res.status(404).json({ success: false, message: 'Booking not found' });
+  }
+  if (booking.userId?.toString() !== req.user._id.toString() && !hasPermission(req.user.role, 'bookings:manage')) {
+    return res.status(403).json({ success: false, message: 'Not authorized to pay for this booking' });
+  }
+  if (booking.paymentStatus === 'completed' || booking.paymentDetails?.status === 'completed') {
+    return res.status(400).json({ success: false, message: 'Booking is already paid' });
+  }
+  if (!canTransition('paymentStatus', booking.paymentStatus, 'completed')) {
+    return res.status(400).json({ success: false, message: `A booking with a ${booking.paymentStatus} payment can no longer be paid` });
+  }
+  if (!canTransition('status', booking.status, 'confirmed')) {
+    return res.status(400).json({ success: false, message: `A ${booking.status} booking can no longer be paid` });
+  }
+
+  // The customer only pays a fare they have seen; a change found here goes back to them first
+  const fareCheck = await revalidateBookingFare(booking, { updatedBy: req.user.name });
+  if (fareCheck.status !== 'unchanged') {
+    await booking.save();
+    const unavailable = fareCheck.status === 'unavailable';
+    return res.status(409).json({
+      success: false,
+      reason: unavailable ? 'fare_unavailable' : 'fare_changed',
+      message: unavailable ? 'Fare is no longer available' : 'The fare has changed since it was added to the cart',
+      error: fareCheck.pricing.error,
+      data: getFareCheckSummary(booking)
+    });
+  }
+  const { pricing } = fareCheck;
+
+  const fareUsd = Number(pricing.total);
+  if (!Number.isFinite(fareUsd) || fareUsd <= 0) {
+    return res.status(400).json({ success: false, message: 'Booking has no payable amount' });
+  }
+
+  // The discount is worked out on the re-priced fare; a use held by an earlier attempt is given back first
+  await releasePromotionReservation(booking);
+  let promotion = null;
+  let promoResult = null;
+  if (promoCode) {
+    const evaluation = await evaluatePromotion(promoCode, booking.userId, [{ booking, amountUsd: fareUsd }]);
+    if (!evaluation.success) {
+      return res.status(400).json({ success: false, message: evaluation.message, reason: evaluation.reason });
+    }
+    promotion = evaluation.promotion;
+    promoResult = evaluation.items[0];
+  }
+  const amountUsd = promoResult ? promoResult.amountUsd : fareUsd;
+  if (amountUsd <= 0) {
+    return res.status(400).json({ success: false, message: 'Booking has no payable amount' });
+  }
+
+  let amount;
+  let exchangeRate;
+  try {
+    const converted = await convertFromUsd(amountUsd, PAYMENT_CURRENCY);
+    amount = Math.round(converted.amount);
+    exchangeRate = converted.rate;
+  } catch (error) {
+    console.error('Payment currency conversion failed:', error);
+    return res.status(500).json({ success: false, message: 'Exchange rate not configured' });
+  }
+
+  if (promoResult?.eligible && !(await reservePromotionUses(promotion, 1))) {
+    return res.status(409).json({ success: false, message: `Promo code ${promotion.code} has been fully used`, reason: 'usage_limit' });
+  }
 
-  const paymentUrl = `${ECASH_PAYMENT_GATEWAY_URL}/Checkout/CardCheckout?tk=${TERMINAL_KEY}&mid=${MERCHANT_KEY}&vc=${verificationCode}&c=SYP&a=${amount}&lang=EN&or=${orderRef}&ru=${ru}&cu=${cu}`;
-  return res.status(200).json({ success: true, url: paymentUrl });
+  if (!booking.paymentDetails) {
+    booking.paymentDetails = {};
+  }
+
+  // Only the latest attempt may be settled by the gateway callback, whether it was for this booking alone or a cart order
+  supersedePendingTransactions(booking);
+  await supersedePendingOrders([booking._id], 'Replaced by a payment for a single booking');
+  booking.orderRef = undefined;
+  booking.paymentDetails.transactions.push({
+    date: new Date(),
+    amount,
+    currency: PAYMENT_CURRENCY,
+    type: 'payment',
+    status: 'pending',
+    amountUsd,
+    exchangeRate
+  });
+  applyRepricedFare(booking, pricing, req.user._id.toString());
+  setBookingDiscount(booking, promotion, promoResult);
+  await booking.save();
+
+  const paymentUrl = buildPaymentUrl(amount, booking.bookingId, returnUrl);
+  return res.status(200).json({ success: true, url: paymentUrl, amount, currency: PAYMENT_CURRENCY });
 });
 
+// @desc    Start one eCash payment covering several cart bookings
+// @route   POST /api/payment/checkout
+// @access  Private
+exports.checkoutOrder = asyncHandler(async (req, res) => {
+  const { bookingIds, returnUrl, promoCode } = req.body || {};
+  if (!TERMINAL_KEY || !MERCHANT_KEY || !MERCHANT_SECRET) {
+    return res.status(500).json({ success: false, message: 'Payment gateway not configured' });
+  }
+
+  const ids = Array.isArray(bookingIds) ? [...new Set(bookingIds.map(String))] : [];
+  if (ids.length === 0) {
+    return res.status(400).json({ success: false, message: 'Select at least one booking to pay for' });
+  }
+  if (ids.length > MAX_ORDER_BOOKINGS) {
+    return res.status(400).json({ success: false, message: `An order can include up to ${MAX_ORDER_BOOKINGS} bookings` });
+  }
+
+  const bookings = await FlightBooking.find({ bookingId: { $in: ids } });
+  const missing = ids.filter(id => !bookings.some(b => b.bookingId === id));
+  if (missing.length > 0) {
+    return res.status(404).json({ success: false, message: `Booking not found: ${missing.join(', ')}` });
+  }
+
+  for (const booking of bookings) {
+    if (booking.userId?.toString() !== req.user._id.toString() && !hasPermission(req.user.role, 'bookings:manage')) {
+      return res.status(403).json({ success: false, message: `Not authorized to pay for ${booking.bookingId}` });
+    }
+    if (booking.paymentStatus === 'completed' || booking.paymentDetails?.status === 'completed') {
+      return res.status(400).json({ success: false, message: `Booking ${booking.bookingId} is already paid` });
+    }
+    if (!canTransition('paymentStatus', booking.paymentStatus, 'completed')) {
+      return res.status(400).json({ success: false, message: `Booking ${booking.bookingId} has a ${booking.paymentStatus} payment and can no longer be paid` });
+    }
+    if (!canTransition('status', booking.status, 'confirmed')) {
+      return res.status(400).json({ success: false, message: `Booking ${booking.bookingId} is ${booking.status} and can no longer be paid` });
+    }
+  }
+
+  // Every fare must still be bookable, at the price the customer saw, before they are charged for any of them
+  const amountsUsd = [];
+  for (const booking of bookings) {
+    const fareCheck = await revalidateBookingFare(booking, { updatedBy: req.user.name });
+    if (fareCheck.status !== 'unchanged') {
+      await booking.save();
+      const unavailable = fareCheck.status === 'unavailable';
+      return res.status(409).json({
+        success: false,
+        reason: unavailable ? 'fare_unavailable' : 'fare_changed',
+        message: unavailable
+          ? `The fare for ${booking.bookingId} is no longer available`
+          : `The fare for ${booking.bookingId} has changed since it was added to the cart`,
+        bookingId: booking.bookingId,
+        error: fareCheck.pricing.error,
+        data: getFareCheckSummary(booking)
+      });
+    }
+    const { pricing } = fareCheck;
+    const amountUsd = Number(pricing.total);
+    if (!Number.isFinite(amountUsd) || amountUsd <= 0) {
+      return res.status(400).json({ success: false, message: `Booking ${booking.bookingId} has no payable amount` });
+    }
+    applyRepricedFare(booking, pricing, req.user._id.toString());
+    amountsUsd.push(amountUsd);
+  }
+
+  // One code covers every eligible booking, up to the customer's remaining uses
+  for (const booking of bookings) {
+    await releasePromotionReservation(booking);
+  }
+  let promotion = null;
+  let promoResults = [];
+  if (promoCode) {
+    const evaluation = await evaluatePromotion(
+      promoCode,
+      req.user._id,
+      bookings.map((booking, i) => ({ booking, amountUsd: amountsUsd[i] }))
+    );
+    if (!evaluation.success) {
+      return res.status(400).json({ success: false, message: evaluation.message, reason: evaluation.reason });
+    }
+    promotion = evaluation.promotion;
+    promoResults = evaluation.items;
+    promoResults.forEach((result, i) => { amountsUsd[i] = result.amountUsd; });
+  }
+  if (amountsUsd.reduce((sum, value) => sum + value, 0) <= 0) {
+    return res.status(400).json({ success: false, message: 'Order has no payable amount' });
+  }
+
+  let exchangeRate;
+  try {
+    exchangeRate = (await convertFromUsd(1, PAYMENT_CURRENCY)).rate;
+  } catch (error) {
+    console.error('Payment currency conversion failed:', error);
+    return res.status(500).json({ success: false, message: 'Exchange rate not configured' });
+  }
+  const { total, shares } = splitOrderAmount(amountsUsd, exchangeRate);
+
+  const discounted = promoResults.filter(result => result.eligible).length;
+  if (promotion && !(await reservePromotionUses(promotion, discounted))) {
+    return res.status(409).json({ success: false, message: `Promo code ${promotion.code} has been fully used`, reason: 'usage_limit' });
+  }
+
+  // A newer checkout replaces any unpaid order that covered the same bookings
+  await supersedePendingOrders(bookings.map(b => b._id), 'Replaced by a newer checkout');
+
+  const order = await Order.create({
+    orderRef: generateOrderRef(),
+    userId: req.user._id,
+    items: bookings.map((booking, i) => ({
+      booking: booking._id,
+      bookingId: booking.bookingId,
+      amountUsd: amountsUsd[i],
+      amount: shares[i]
+    })),
+    amount: total,
+    currency: PAYMENT_CURRENCY,
+    amountUsd: amountsUsd.reduce((sum, value) => sum + value, 0),
+    exchangeRate,
+    timeline: [{ status: 'pending', date: new Date(), notes: 'Checkout started', updatedBy: req.user._id.toString() }]
+  });
+
+  for (const [i, booking] of bookings.entries()) {
+    supersedePendingTransactions(booking);
+    setBookingDiscount(booking, promotion, promoResults[i]);
+    booking.orderRef = order.orderRef;
+    await booking.save();
+  }
+
+  const paymentUrl = buildPaymentUrl(total, order.orderRef, returnUrl);
+  return res.status(200).json({
+    success: true,
+    url: paymentUrl,
+    orderRef: order.orderRef,
+    amount: total,
+    currency: PAYMENT_CURRENCY
+  });
+});
+
+// Settle a gateway callback for a multi-booking order
+async function settleOrderPayment(order, { transactionNo, amount, isSuccess }, res) {
+  // Gateways may retry callbacks; a settled order is acknowledged without reprocessing
+  if (order.transactionNo === String(transactionNo) && order.status !== 'pending') {
+    return res.status(200).json({ success: true, message: "Payment callback already processed" });
+  }
+  // A replaced order can still be paid if the customer finishes its gateway page; that money is refunded
+  const paidAfterSuperseded = order.status === 'superseded' && isSuccess;
+  if (order.status !== 'pending' && !paidAfterSuperseded) {
+    return res.status(409).json({ success: false, message: "Order is not awaiting payment" });
+  }
+
+  order.transactionNo = String(transactionNo);
+
+  if (amount !== Number(order.amount)) {
+    console.error(`❌ Payment amount mismatch for ${order.orderRef}: expected ${order.amount}, received ${amount}`);
+    if (order.status === 'pending') await releaseOrderPromotions(order);
+    order.status = 'failed';
+    order.timeline.push({
+      status: 'payment_amount_mismatch',
+      date: new Date(),
+      notes: `Expected ${order.amount} ${order.currency}, gateway reported ${amount}`,
+      updatedBy: 'system'
+    });
+    await order.save();
+    return res.status(400).json({ success: false, message: "Payment amount mismatch" });
+  }
+
+  if (paidAfterSuperseded) {
+    await refundSupersededOrder(order, transactionNo);
+    await Notification.create({
+      userId: order.userId,
+      title: {
+        en: "Payment will be refunded",
+        ar: "سيتم رد المبلغ المدفوع"
+      },
+      message: {
+        en: `We received ${amount} ${order.currency} for order ${order.orderRef}, which had been replaced by a newer payment. This amount will be refunded to you.`,
+        ar: `استلمنا ${amount} ${order.currency} للطلب ${order.orderRef} الذي تم استبداله بعملية دفع أحدث. سيتم رد هذا المبلغ إليك.`
+      },
+      type: "payment"
+    });
+    return res.status(200).json({ success: true, message: "Payment recorded and queued for refund" });
+  }
+
+  if (!isSuccess) {
+    await releaseOrderPromotions(order);
+    order.status = 'failed';
+    order.timeline.push({ status: 'failed', date: new Date(), notes: 'Payment failed at the gateway', updatedBy: 'system' });
+    await order.save();
+    await Notification.create({
+      userId: order.userId,
+      title: {
+        en: "Payment Failed",
+        ar: "فشلت عملية الدفع"
+      },
+      message: {
+        en: `Your payment for order ${order.orderRef} has failed. Please try again or contact support.`,
+        ar: `فشلت عملية الدفع للطلب ${order.orderRef}. يرجى المحاولة مرة أخرى أو الاتصال بالدعم.`
+      },
+      type: "payment"
+    });
+    return res.status(200).json({ success: true, message: "Payment callback processed successfully" });
+  }
+
+  order.status = 'paid';
+  order.paidAt = new Date();
+  await markOrderBookingsPaid(order, transactionNo);
+  order.timeline.push({ status: 'paid', date: new Date(), notes: `Transaction ${transactionNo}`, updatedBy: 'system' });
+  await order.save();
+
+  await Notification.create({
+    userId: order.userId,
+    title: {
+      en: "Payment Successful",
+      ar: "تمت عملية الدفع بنجاح"
+    },
+    message: {
+      en: `Your payment of ${amount} ${order.currency} for order ${order.orderRef} (${order.items.map(i => i.bookingId).join(', ')}) has been processed successfully.`,
+      ar: `تم معالجة دفعتك البالغة ${amount} ${order.currency} للطلب ${order.orderRef} (${order.items.map(i => i.bookingId).join('، ')}) بنجاح.`
+    },
+    type: "payment"
+  });
+
+  // Ticket issuance can be slow; answer the gateway first
+  fulfilPaidOrder(order._id).catch(error => {
+    console.error(`❌ Error fulfilling order ${order.orderRef}:`, error);
+  });
+
+  return res.status(200).json({ success: true, message: "Payment callback processed successfully" });
+}
+
 // @desc    Handle ECash payment callback
 // @route   POST /api/payment/callback
 // @access  Public
@@ -101,12 +532,18 @@ exports.handlePaymentCallback = asyncHandler(async (req, res) => {
       return res.status(400).json({ success: false, message: 'Invalid callback token' });
     }
 
-    // Find the booking by orderRef
-    let booking = await FlightBooking.findOne({ bookingId: orderRef });
-    if (!booking) {
-      booking = await Booking.findOne({ bookingId: orderRef });
+    const amountNumber = Number(String(amountCandidates[1] ?? amountCandidates[0] ?? amountStr).replace(/,/g, ''));
+    const safeAmountNumber = Number.isFinite(amountNumber) ? amountNumber : 0;
+
+    // Multi-booking checkouts use their own order reference
+    const order = await Order.findOne({ orderRef: String(orderRef) });
+    if (order) {
+      return await settleOrderPayment(order, { transactionNo, amount: safeAmountNumber, isSuccess }, res);
     }
 
+    // Find the booking by orderRef
+    const booking = await FlightBooking.findOne({ bookingId: orderRef });
+
     if (!booking) {
       return res.status(404).json({
         success: false,
@@ -114,30 +551,72 @@ exports.handlePaymentCallback = asyncHandler(async (req, res) => {
       });
     }
 
-    const amountNumber = Number(String(amountCandidates[1] ?? amountCandidates[0] ?? amountStr).replace(/,/g, ''));
-    const safeAmountNumber = Number.isFinite(amountNumber) ? amountNumber : 0;
-
     if (!booking.paymentDetails) {
       booking.paymentDetails = {};
     }
 
-    booking.paymentDetails.status = isSuccess ? 'completed' : 'pending';
-    booking.paymentDetails.currency = 'SYP';
+    // Gateways may retry callbacks; a settled transaction is acknowledged without reprocessing
+    const settled = (booking.paymentDetails.transactions || []).find(
+      tx => tx.type === 'payment' && tx.reference === String(transactionNo) && tx.status !== 'pending'
+    );
+    if (settled) {
+      return res.status(200).json({ success: true, message: "Payment callback already processed" });
+    }
+
+    // A replaced attempt may still be paid at the gateway; the charge is kept on record and refunded
+    let pendingTransaction = findPendingTransaction(booking);
+    if (isSuccess && Number(pendingTransaction?.amount) !== safeAmountNumber) {
+      pendingTransaction = findSupersededTransaction(booking, safeAmountNumber) || pendingTransaction;
+    }
+    if (!pendingTransaction) {
+      return res.status(409).json({ success: false, message: "No pending payment for this booking" });
+    }
+
+    if (safeAmountNumber !== Number(pendingTransaction.amount)) {
+      console.error(`❌ Payment amount mismatch for ${orderRef}: expected ${pendingTransaction.amount}, received ${safeAmountNumber}`);
+      pendingTransaction.status = 'failed';
+      pendingTransaction.reference = String(transactionNo);
+      if (canTransition('paymentStatus', booking.paymentStatus, 'failed')) {
+        setPaymentStatus(booking, 'failed', {
+          notes: `Payment amount mismatch: expected ${pendingTransaction.amount} ${pendingTransaction.currency || 'SYP'}, gateway reported ${safeAmountNumber}`
+        });
+      }
+      await releasePromotionReservation(booking);
+      await booking.save();
+      return res.status(400).json({ success: false, message: "Payment amount mismatch" });
+    }
+
+    const unusableReason = isSuccess ? getUnusablePaymentReason(booking, pendingTransaction) : null;
+    pendingTransaction.status = isSuccess ? 'completed' : 'failed';
+    pendingTransaction.reference = String(transactionNo);
+    pendingTransaction.date = new Date();
+
+    if (unusableReason) {
+      queueUnusablePaymentRefund(booking, pendingTransaction, unusableReason);
+      await booking.save();
+      await Notification.create({
+        userId: booking.userId,
+        title: {
+          en: "Payment will be refunded",
+          ar: "سيتم رد المبلغ المدفوع"
+        },
+        message: {
+          en: `We received ${safeAmountNumber} ${pendingTransaction.currency || PAYMENT_CURRENCY} for booking ${orderRef}, but it could not be applied to the booking. This amount will be refunded to you.`,
+          ar: `استلمنا ${safeAmountNumber} ${pendingTransaction.currency || PAYMENT_CURRENCY} للحجز ${orderRef} ولكن تعذر تطبيقه على الحجز. سيتم رد هذا المبلغ إليك.`
+        },
+        type: "payment"
+      });
+      return res.status(200).json({ success: true, message: "Payment recorded and queued for refund" });
+    }
+
+    booking.paymentDetails.currency = pendingTransaction.currency || 'SYP';
     booking.paymentDetails.amount = safeAmountNumber;
     booking.paymentDetails.reference = String(transactionNo);
-    booking.paymentDetails.transactions = [
-      ...(booking.paymentDetails.transactions || []),
-      {
-        date: new Date(),
-        amount: safeAmountNumber,
-        type: 'payment',
-        reference: String(transactionNo)
-      }
-    ];
 
     if (isSuccess) {
-      booking.status = "confirmed";
-      booking.paymentStatus = "completed";
+      setPaymentStatus(booking, 'completed', { notes: `Transaction ${transactionNo}` });
+      setBookingStatus(booking, 'confirmed', { notes: 'Payment received' });
+      await recordPromotionRedemption(booking);
       
       // Create payment success notification
       await Notification.create({
@@ -147,8 +626,8 @@ exports.handlePaymentCallback = asyncHandler(async (req, res) => {
           ar: "تمت عملية الدفع بنجاح"
         },
         message: {
-          en: `Your payment of ${amount} SYP for booking ${orderRef} has been processed successfully.`,
-          ar: `تم معالجة دفعتك البالغة ${amount} ليرة سورية للحجز ${orderRef} بنجاح.`
+          en: `Your payment of ${safeAmountNumber} SYP for booking ${orderRef} has been processed successfully.`,
+          ar: `تم معالجة دفعتك البالغة ${safeAmountNumber} ليرة سورية للحجز ${orderRef} بنجاح.`
         },
         type: "payment"
       });
@@ -158,50 +637,58 @@ exports.handlePaymentCallback = asyncHandler(async (req, res) => {
         console.log('🎫 Issuing ticket from Seeru after payment confirmation for order:', booking.seeruOrderId);
         issueOrder(booking.seeruOrderId)
           .then(result => {
-            if (result.success) {
-              console.log('✅ Ticket issued successfully after payment');
-              
-              // Update booking with ticket details
-              booking.seeruStatus = 'issued';
-              booking.status = 'issued';
-              
-              // Save ticket details
-              if (!booking.ticketDetails) {
-                booking.ticketDetails = {};
-              }
-              
-              booking.ticketDetails.ticketNumber = result.ticketNumber;
-              booking.ticketDetails.pnr = result.pnr;
-              booking.ticketDetails.eTicketPath = result.ticketUrl;
-              booking.seeruIssuedAt = result.issuedAt;
-              
-              booking.save()
-                .then(() => {
-                  console.log('✅ Booking updated with ticket details:', {
-                    ticketNumber: result.ticketNumber,
-                    pnr: result.pnr,
-                    ticketUrl: result.ticketUrl
-                  });
-                })
-                .catch(err => {
-                  console.error('❌ Error saving ticket details to booking:', err);
-                });
-            } else {
+            if (!result.success) {
               console.error('❌ Failed to issue ticket:', result.error);
-              booking.seeruStatus = 'issue_failed';
+              setSupplierStatus(booking, 'failed', { notes: `Ticket issuance failed: ${result.error}` });
               booking.seeruError = result.error;
-              booking.save();
+              booking.seeruFailedAt = new Date();
+              return booking.save();
             }
-          })
-          .catch(error => {
+
+            console.log('✅ Ticket issued successfully after payment');
+
+            // Save ticket details first; the ticket is issued even if a status can't follow
+            if (!booking.ticketDetails) {
+              booking.ticketDetails = {};
+            }
+
+            booking.ticketDetails.ticketNumber = result.ticketNumber;
+            booking.ticketDetails.pnr = result.pnr;
+            booking.ticketDetails.eTicketPath = result.ticketUrl;
+            booking.seeruIssuedAt = result.issuedAt;
+
+            if (canTransition('seeruStatus', booking.seeruStatus, 'issued')) {
+              setSupplierStatus(booking, 'issued');
+            }
+            if (canTransition('status', booking.status, 'issued')) {
+              setBookingStatus(booking, 'issued', { notes: 'Ticket issued after payment' });
+            }
+
+            return booking.save().then(() => {
+              console.log('✅ Booking updated with ticket details:', {
+                ticketNumber: result.ticketNumber,
+                pnr: result.pnr,
+                ticketUrl: result.ticketUrl
+              });
+            });
+          }, error => {
             console.error('❌ Error issuing ticket after payment:', error);
-            booking.seeruStatus = 'issue_error';
             booking.seeruError = error.message;
-            booking.save();
+            booking.seeruFailedAt = new Date();
+            if (canTransition('seeruStatus', booking.seeruStatus, 'failed')) {
+              setSupplierStatus(booking, 'failed', { notes: `Ticket issuance error: ${error.message}` });
+            }
+            return booking.save();
+          })
+          .catch(err => {
+            console.error('❌ Error saving ticket issuance result to booking:', err);
           });
       }
     } else {
-      booking.paymentStatus = "failed";
+      if (canTransition('paymentStatus', booking.paymentStatus, 'failed')) {
+        setPaymentStatus(booking, 'failed', { notes: `Gateway reported a failed payment (${transactionNo})` });
+      }
+      await releasePromotionReservation(booking);
       // Create payment failure notification
       await Notification.create({
         userId: booking.userId,
@@ -230,4 +717,46 @@ exports.handlePaymentCallback = asyncHandler(async (req, res) => {
       message: "Failed to process payment callback"
     });
   }
-}); 
\ No newline at end of file
+});
+
+// @desc    Get a checkout order
+// @route   GET /api/payment/orders/:orderRef
+// @access  Private (owner or staff with bookings:view)
+exports.getOrder = asyncHandler(async (req, res) => {
+  const order = await Order.findOne({ orderRef: req.params.orderRef });
+  if (!order) {
+    return res.status(404).json({ success: false, message: 'Order not found' });
+  }
+  if (order.userId.toString() !== req.user._id.toString() && !hasPermission(req.user.role, 'bookings:view')) {
+    return res.status(403).json({ success: false, message: 'Not authorized to view this order' });
+  }
+  res.status(200).json({ success: true, data: order });
+});
+
+// @desc    List checkout orders (e.g. those waiting for a refund)
+// @route   GET /api/payment/orders
+// @access  Private/Admin
+exports.getOrders = asyncHandler(async (req, res) => {
+  const filter = {};
+  if (req.query.status) {
+    filter.status = { $in: String(req.query.status).split(',') };
+  }
+  const orders = await Order.find(filter).sort({ createdAt: -1 }).limit(200);
+  res.status(200).json({ success: true, count: orders.length, data: orders });
+});
+
+// @desc    Mark the pending refunds of an order as paid out
+// @route   PUT /api/payment/orders/:orderRef/refunds
+// @access  Private/Admin
+exports.completeOrderRefunds = asyncHandler(async (req, res) => {
+  const order = await Order.findOne({ orderRef: req.params.orderRef });
+  if (!order) {
+    return res.status(404).json({ success: false, message: 'Order not found' });
+  }
+  if (!['refund_pending', 'partial_refund_pending'].includes(order.status)) {
+    return res.status(400).json({ success: false, message: 'Order has no pending refunds' });
+  }
+
+  await completeOrderRefunds(order, req.user._id.toString());
+  res.status(200).json({ success: true, data: order });
+});
@@ -0,0 +1,140 @@
+const asyncHandler = require("../middleware/asyncHandler");
+const PriceAlert = require("../models/PriceAlert");
+
+const MAX_ACTIVE_ALERTS_PER_USER = 20;
+const IATA_PATTERN = /^[A-Z]{3}$/;
+
+// Validate and normalise alert fields shared by create and update
+function buildAlertFields(body, existing = {}) {
+  const from = String(body.from ?? existing.from ?? '').trim().toUpperCase();
+  const to = String(body.to ?? existing.to ?? '').trim().toUpperCase();
+  if (!IATA_PATTERN.test(from) || !IATA_PATTERN.test(to) || from === to) {
+    return { error: 'A valid origin and destination airport are required' };
+  }
+
+  const departureDate = new Date(body.departureDate ?? existing.departureDate);
+  if (isNaN(departureDate.getTime())) {
+    return { error: 'A valid departure date is required' };
+  }
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  if (departureDate < today) {
+    return { error: 'Departure date must be in the future' };
+  }
+
+  const rawReturn = body.returnDate !== undefined ? body.returnDate : existing.returnDate;
+  const returnDate = rawReturn ? new Date(rawReturn) : null;
+  if (returnDate && (isNaN(returnDate.getTime()) || returnDate <= departureDate)) {
+    return { error: 'Return date must be after the departure date' };
+  }
+
+  const passengers = { ...(existing.passengers || {}), ...(body.passengers || {}) };
+  const adults = Number(passengers.adults ?? 1);
+  const children = Number(passengers.children ?? 0);
+  const infants = Number(passengers.infants ?? 0);
+  if (adults < 1 || children < 0 || infants < 0 || infants > adults || adults + children + infants > 9) {
+    return { error: 'Invalid passenger counts' };
+  }
+
+  const targetPrice = Number(body.targetPrice ?? existing.targetPrice);
+  if (!Number.isFinite(targetPrice) || targetPrice <= 0) {
+    return { error: 'Target price must be greater than zero' };
+  }
+
+  return {
+    fields: {
+      from,
+      to,
+      departureDate,
+      returnDate,
+      passengers: { adults, children, infants },
+      cabin: body.cabin ?? existing.cabin ?? 'e',
+      direct: Boolean(body.direct ?? existing.direct ?? false),
+      targetPrice
+    }
+  };
+}
+
+// @desc    Get price alerts for the current user
+// @route   GET /api/price-alerts
+// @access  Private
+exports.getMyPriceAlerts = asyncHandler(async (req, res) => {
+  const alerts = await PriceAlert.find({ userId: req.user._id }).sort({ createdAt: -1 });
+  res.status(200).json({ success: true, count: alerts.length, data: alerts });
+});
+
+// @desc    Create a price alert
+// @route   POST /api/price-alerts
+// @access  Private
+exports.createPriceAlert = asyncHandler(async (req, res) => {
+  const { fields, error } = buildAlertFields(req.body || {});
+  if (error) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const activeCount = await PriceAlert.countDocuments({ userId: req.user._id, active: true });
+  if (activeCount >= MAX_ACTIVE_ALERTS_PER_USER) {
+    return res.status(400).json({
+      success: false,
+      message: `You can watch up to ${MAX_ACTIVE_ALERTS_PER_USER} routes at a time`
+    });
+  }
+
+  const alert = await PriceAlert.create({
+    ...fields,
+    userId: req.user._id,
+    // Seed with the fare the customer was looking at, when provided
+    lastPrice: Number(req.body.currentPrice) > 0 ? Number(req.body.currentPrice) : undefined,
+    lowestPrice: Number(req.body.currentPrice) > 0 ? Number(req.body.currentPrice) : undefined
+  });
+
+  res.status(201).json({ success: true, data: alert });
+});
+
+// @desc    Update a price alert (target price, dates, active flag)
+// @route   PUT /api/price-alerts/:id
+// @access  Private
+exports.updatePriceAlert = asyncHandler(async (req, res) => {
+  const alert = await PriceAlert.findOne({ _id: req.params.id, userId: req.user._id });
+  if (!alert) {
+    return res.status(404).json({ success: false, message: 'Price alert not found' });
+  }
+
+  const { fields, error } = buildAlertFields(req.body || {}, alert.toObject());
+  if (error) {
+    return res.status(400).json({ success: false, message: error });
+  }
+
+  const routeChanged = ['from', 'to'].some(k => fields[k] !== alert[k])
+    || fields.departureDate.getTime() !== alert.departureDate.getTime()
+    || (fields.returnDate?.getTime() ?? null) !== (alert.returnDate?.getTime() ?? null);
+
+  Object.assign(alert, fields);
+  if (typeof req.body.active === 'boolean') {
+    alert.active = req.body.active;
+  }
+  if (routeChanged) {
+    // Prices for the old itinerary no longer apply
+    alert.lastPrice = undefined;
+    alert.lowestPrice = undefined;
+    alert.lastCheckedAt = undefined;
+    alert.consecutiveFailures = 0;
+    alert.lastError = undefined;
+    alert.lastNotifiedAt = undefined;
+    alert.lastNotifiedPrice = undefined;
+  }
+  await alert.save();
+
+  res.status(200).json({ success: true, data: alert });
+});
+
+// @desc    Delete a price alert
+// @route   DELETE /api/price-alerts/:id
+// @access  Private
+exports.deletePriceAlert = asyncHandler(async (req, res) => {
+  const alert = await PriceAlert.findOneAndDelete({ _id: req.params.id, userId: req.user._id });
+  if (!alert) {
+    return res.status(404).json({ success: false, message: 'Price alert not found' });
+  }
+  res.status(200).json({ success: true, data: {} });
+});
@@ -0,0 +1,158 @@
+const mongoose = require('mongoose');
+const PricingRule = require('../models/PricingRule');
+const asyncHandler = require('../middleware/asyncHandler');
+const { recordAudit } = require('../services/auditLogService');
+const { getActiveRules, invalidatePricingRules, priceFare } = require('../services/pricingService');
+
+const EDITABLE_FIELDS = [
+  'name', 'active', 'kind', 'calculation', 'value', 'priority',
+  'airlines', 'origins', 'destinations', 'cabins', 'passengerTypes',
+  'departureFrom', 'departureTo', 'validFrom', 'validTo'
+];
+const DATE_FIELDS = ['departureFrom', 'departureTo', 'validFrom', 'validTo'];
+
+// Only editable fields; empty dates clear the bound
+const pickRuleFields = (body = {}) => {
+  const fields = {};
+  EDITABLE_FIELDS.forEach(field => {
+    if (body[field] === undefined) return;
+    fields[field] = DATE_FIELDS.includes(field) && !body[field] ? null : body[field];
+  });
+  return fields;
+};
+
+const checkPercentage = (fields) => {
+  if (fields.calculation === 'percentage' && Number(fields.value) > 100) {
+    return 'A percentage rule cannot exceed 100%';
+  }
+  return null;
+};
+
+// @desc    List pricing rules
+// @route   GET /api/admin/pricing-rules
+// @access  Private (pricing:manage)
+exports.getPricingRules = asyncHandler(async (req, res, next) => {
+  const rules = await PricingRule.find().sort({ active: -1, kind: 1, priority: -1, updatedAt: -1 });
+  res.status(200).json({ success: true, count: rules.length, data: rules });
+});
+
+// @desc    Create a pricing rule
+// @route   POST /api/admin/pricing-rules
+// @access  Private (pricing:manage)
+exports.createPricingRule = asyncHandler(async (req, res, next) => {
+  const fields = pickRuleFields(req.body);
+  const invalid = checkPercentage(fields);
+  if (invalid) {
+    return res.status(400).json({ success: false, message: invalid });
+  }
+
+  try {
+    const rule = await PricingRule.create({ ...fields, createdBy: req.user.name, updatedBy: req.user.name });
+    invalidatePricingRules();
+    await recordAudit(req, { action: 'pricingRule.create', targetType: 'PricingRule', targetId: rule._id, after: rule });
+    res.status(201).json({ success: true, data: rule });
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    throw error;
+  }
+});
+
+// @desc    Update a pricing rule
+// @route   PUT /api/admin/pricing-rules/:id
+// @access  Private (pricing:manage)
+exports.updatePricingRule = asyncHandler(async (req, res, next) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return res.status(404).json({ success: false, message: 'Pricing rule not found' });
+  }
+  const rule = await PricingRule.findById(req.params.id);
+  if (!rule) {
+    return res.status(404).json({ success: false, message: 'Pricing rule not found' });
+  }
+
+  const before = rule.toObject();
+  rule.set({ ...pickRuleFields(req.body), updatedBy: req.user.name });
+  const invalid = checkPercentage(rule);
+  if (invalid) {
+    return res.status(400).json({ success: false, message: invalid });
+  }
+
+  try {
+    await rule.save();
+  } catch (error) {
+    if (error instanceof mongoose.Error.ValidationError) {
+      return res.status(400).json({ success: false, message: error.message });
+    }
+    throw error;
+  }
+  invalidatePricingRules();
+  await recordAudit(req, { action: 'pricingRule.update', targetType: 'PricingRule', targetId: rule._id, before, after: rule });
+  res.status(200).json({ success: true, data: rule });
+});
+
+// @desc    Delete a pricing rule
+// @route   DELETE /api/admin/pricing-rules/:id
+// @access  Private (pricing:manage)
+exports.deletePricingRule = asyncHandler(async (req, res, next) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return res.status(404).json({ success: false, message: 'Pricing rule not found' });
+  }
+  const rule = await PricingRule.findById(req.params.id);
+  if (!rule) {
+    return res.status(404).json({ success: false, message: 'Pricing rule not found' });
+  }
+
+  const before = rule.toObject();
+  await rule.deleteOne();
+  invalidatePricingRules();
+  await recordAudit(req, { action: 'pricingRule.delete', targetType: 'PricingRule', targetId: rule._id, before });
+  res.status(200).json({ success: true, data: {} });
+});
+
+// @desc    Price a sample fare with the active rules, optionally with an unsaved rule in place
+// @route   POST /api/admin/pricing-rules/preview
+// @access  Private (pricing:manage)
+exports.previewPricing = asyncHandler(async (req, res, next) => {
+  const { sample = {}, rule: draft } = req.body || {};
+
+  const supplier = {};
+  ['ADT', 'CHD', 'INF'].forEach(type => {
+    const fare = sample.fares?.[type];
+    const count = parseInt(fare?.count, 10) || 0;
+    const total = Number(fare?.total);
+    if (count > 0 && Number.isFinite(total) && total >= 0) {
+      supplier[type] = { count, total };
+    }
+  });
+  if (Object.keys(supplier).length === 0) {
+    return res.status(400).json({ success: false, message: 'Add at least one passenger fare to preview' });
+  }
+
+  const code = (value) => (value ? String(value).trim().toUpperCase() : null);
+  const departureDate = sample.departureDate ? new Date(sample.departureDate) : null;
+  const context = {
+    airline: code(sample.airline),
+    origin: code(sample.origin),
+    destination: code(sample.destination),
+    cabin: sample.cabin ? String(sample.cabin).toLowerCase() : null,
+    departureDate: departureDate && !isNaN(departureDate) ? departureDate : null
+  };
+
+  let rules = await getActiveRules();
+  if (draft) {
+    // Validate and normalise the draft the same way a saved rule would be
+    const draftRule = new PricingRule({ ...pickRuleFields(draft), updatedAt: new Date() });
+    const validation = draftRule.validateSync();
+    if (validation) {
+      return res.status(400).json({ success: false, message: validation.message });
+    }
+    const draftId = draft._id ? String(draft._id) : null;
+    rules = rules.filter(rule => String(rule._id) !== draftId);
+    if (draftRule.active) {
+      rules = [...rules, { ...draftRule.toObject(), _id: draftId || 'draft' }];
+    }
+  }
+
+  res.status(200).json({ success: true, data: priceFare(supplier, context, rules) });
+});
@@ -0,0 +1,160 @@
+const mongoose = require('mongoose');
+const Promotion = require('../models/Promotion');
+const FlightBooking = require('../models/FlightBooking');
+const asyncHandler = require('../middleware/asyncHandler');
+const { recordAudit } = require('../services/auditLogService');
+const { evaluatePromotion } = require('../services/promotionService');
+
+const EDITABLE_FIELDS = [
+  'code', 'description', 'active', 'discountType', 'value', 'maxDiscount', 'minAmount',
+  'validFrom', 'validTo', 'maxRedemptions', 'perUserLimit', 'airlines', 'origins', 'destinations'
+];
+// Cleared rather than set to 0 or an invalid date when left empty
+const OPTIONAL_FIELDS = ['maxDiscount', 'validFrom', 'validTo', 'maxRedemptions', 'perUserLimit'];
+
+const pickPromotionFields = (body = {}) => {
+  const fields = {};
+  EDITABLE_FIELDS.forEach(field => {
+    if (body[field] === undefined) return;
+    fields[field] = OPTIONAL_FIELDS.includes(field) && (body[field] === '' || body[field] === null) ? null : body[field];
+  });
+  return fields;
+};
+
+const checkPercentage = (fields) => {
+  if (fields.discountType === 'percentage' && Number(fields.value) > 100) {
+    return 'A percentage discount cannot exceed 100%';
+  }
+  return null;
+};
+
+const saveError = (error) => {
+  if (error instanceof mongoose.Error.ValidationError) return error.message;
+  if (error?.code === 11000) return 'A promotion with this code already exists';
+  return null;
+};
+
+// @desc    Check a promo code against the bookings about to be paid
+// @route   POST /api/promotions/validate
+// @access  Private
+exports.validatePromotion = asyncHandler(async (req, res, next) => {
+  const { code, bookingIds } = req.body || {};
+  const ids = Array.isArray(bookingIds) ? [...new Set(bookingIds.map(String))] : [];
+  if (!code || ids.length === 0) {
+    return res.status(400).json({ success: false, message: 'Enter a promo code and select a booking' });
+  }
+
+  const bookings = await FlightBooking.find({ bookingId: { $in: ids }, userId: req.user._id });
+  if (bookings.length !== ids.length) {
+    return res.status(404).json({ success: false, message: 'Booking not found' });
+  }
+
+  // Keep the caller's order so multi-booking checkouts discount the same bookings as here
+  const ordered = ids.map(id => bookings.find(booking => booking.bookingId === id));
+  const evaluation = await evaluatePromotion(
+    code,
+    req.user._id,
+    ordered.map(booking => ({ booking, amountUsd: Number(booking.flightDetails?.selectedFlight?.price?.total) || 0 }))
+  );
+  if (!evaluation.success) {
+    return res.status(400).json({ success: false, message: evaluation.message, reason: evaluation.reason, data: { items: evaluation.items } });
+  }
+
+  const { promotion, items } = evaluation;
+  res.status(200).json({
+    success: true,
+    data: {
+      code: promotion.code,
+      description: promotion.description,
+      discountType: promotion.discountType,
+      value: promotion.value,
+      items,
+      discountUsd: items.reduce((sum, item) => sum + item.discountUsd, 0)
+    }
+  });
+});
+
+// @desc    List promotions
+// @route   GET /api/admin/promotions
+// @access  Private (promotions:manage)
+exports.getPromotions = asyncHandler(async (req, res, next) => {
+  const promotions = await Promotion.find().sort({ active: -1, createdAt: -1 });
+  res.status(200).json({ success: true, count: promotions.length, data: promotions });
+});
+
+// @desc    Create a promotion
+// @route   POST /api/admin/promotions
+// @access  Private (promotions:manage)
+exports.createPromotion = asyncHandler(async (req, res, next) => {
+  const fields = pickPromotionFields(req.body);
+  const invalid = checkPercentage(fields);
+  if (invalid) {
+    return res.status(400).json({ success: false, message: invalid });
+  }
+
+  try {
+    const promotion = await Promotion.create({ ...fields, createdBy: req.user.name, updatedBy: req.user.name });
+    await recordAudit(req, { action: 'promotion.create', targetType: 'Promotion', targetId: promotion._id, after: promotion });
+    res.status(201).json({ success: true, data: promotion });
+  } catch (error) {
+    const message = saveError(error);
+    if (message) {
+      return res.status(400).json({ success: false, message });
+    }
+    throw error;
+  }
+});
+
+// @desc    Update a promotion
+// @route   PUT /api/admin/promotions/:id
+// @access  Private (promotions:manage)
+exports.updatePromotion = asyncHandler(async (req, res, next) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return res.status(404).json({ success: false, message: 'Promotion not found' });
+  }
+  const promotion = await Promotion.findById(req.params.id);
+  if (!promotion) {
+    return res.status(404).json({ success: false, message: 'Promotion not found' });
+  }
+
+  const before = promotion.toObject();
+  promotion.set({ ...pickPromotionFields(req.body), updatedBy: req.user.name });
+  const invalid = checkPercentage(promotion);
+  if (invalid) {
+    return res.status(400).json({ success: false, message: invalid });
+  }
+
+  try {
+    await promotion.save();
+  } catch (error) {
+    const message = saveError(error);
+    if (message) {
+      return res.status(400).json({ success: false, message });
+    }
+    throw error;
+  }
+  await recordAudit(req, { action: 'promotion.update', targetType: 'Promotion', targetId: promotion._id, before, after: promotion });
+  res.status(200).json({ success: true, data: promotion });
+});
+
+// @desc    Delete a promotion
+// @route   DELETE /api/admin/promotions/:id
+// @access  Private (promotions:manage)
+exports.deletePromotion = asyncHandler(async (req, res, next) => {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    return res.status(404).json({ success: false, message: 'Promotion not found' });
+  }
+  const promotion = await Promotion.findById(req.params.id);
+  if (!promotion) {
+    return res.status(404).json({ success: false, message: 'Promotion not found' });
+  }
+  // Redeemed promotions stay on record for reporting; they can only be deactivated
+  if (promotion.redemptionCount > 0) {
+    return res.status(400).json({ success: false, message: 'This promotion has been redeemed; deactivate it instead' });
+  }
+
+  const before = promotion.toObject();
+  await promotion.deleteOne();
+  await recordAudit(req, { action: 'promotion.delete', targetType: 'Promotion', targetId: promotion._id, before });
+  res.status(200).json({ success: true, data: {} });
+});
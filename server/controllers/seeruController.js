@@ -17,6 +17,16 @@ const {
   transformPassengersToSeeru,
   transformContactToSeeru
 } = require('../utils/seeruAPI');
+const { getCustomerTimeline } = require('../utils/flightBookingHelper');
+const { hasPermission } = require('../utils/permissions');
+const {
+  setSupplierStatus,
+  setBookingStatus,
+  setPaymentStatus,
+  canTransition,
+  getAllowedTransitions,
+  SUPPLIER_STATUSES
+} = require('../utils/bookingStateMachine');
 
 /**
  * Check if Seeru integration is enabled
@@ -31,6 +41,277 @@ async function isSeeruEnabled() {
   }
 }
 
+/**
+ * Check whether the requesting user may manage a booking (owner or staff with bookings:manage)
+ */
+function canManageBooking(req, booking) {
+  if (!req.user) return false;
+  if (hasPermission(req.user.role, 'bookings:manage')) return true;
+  return booking.userId && booking.userId.toString() === req.user.id.toString();
+}
+
+/**
+ * Get the configured fees (USD) charged for customer ticket changes.
+ * Stored under the `ticketChangeFees` setting, e.g. { refund: 25, void: 10, exchange: 25 }
+ */
+async function getTicketChangeFees() {
+  const defaults = { refund: 0, void: 0, exchange: 0 };
+  try {
+    const setting = await Setting.findOne({ key: 'ticketChangeFees' }).lean();
+    const value = setting?.value || {};
+    return {
+      refund: Number(value.refund) || defaults.refund,
+      void: Number(value.void) || defaults.void,
+      exchange: Number(value.exchange) || defaults.exchange
+    };
+  } catch (error) {
+    console.error('Error loading ticket change fees:', error);
+    return defaults;
+  }
+}
+
+const TICKET_CHANGE_FLAGS = { refund: 'can_refund', void: 'can_void', exchange: 'can_exchange' };
+const TICKET_CHANGE_RESULTS = { refund: 'refunded', void: 'voided', exchange: 'exchanged' };
+
+/**
+ * Find the ticket a ticket change targets on the booking's own Seeru order and check the
+ * change is allowed. The ticket ID sent by the client is only ever matched against that order.
+ * @returns {Promise<{ ticket: Object } | { status: number, message: string }>}
+ */
+async function resolveChangeableTicket(booking, ticketId, change) {
+  if (booking.paymentStatus !== 'completed') {
+    return { status: 400, message: 'Only paid bookings can have their tickets changed' };
+  }
+  if (!booking.seeruOrderId || booking.seeruStatus !== 'issued') {
+    return { status: 400, message: 'This booking has no issued ticket' };
+  }
+  if (Object.values(TICKET_CHANGE_RESULTS).includes(booking.ticketStatus)) {
+    return { status: 409, message: `This ticket has already been ${booking.ticketStatus}` };
+  }
+
+  const orderResult = await getOrderDetails(booking.seeruOrderId);
+  if (!orderResult.success) {
+    return { status: 502, message: 'Could not load the supplier order for this booking' };
+  }
+  const tickets = orderResult.data?.tickets || orderResult.data?.order?.tickets || [];
+  const ticket = tickets.find(t => t.ticket_id != null && String(t.ticket_id) === String(ticketId));
+  if (!ticket) {
+    return { status: 403, message: 'This ticket does not belong to this booking' };
+  }
+
+  // Seeru's own flags win over the flight stored with the booking
+  const flag = TICKET_CHANGE_FLAGS[change];
+  const supplierFlight = orderResult.data?.booking || orderResult.data?.order?.booking || {};
+  const storedFlight = booking.flightDetails?.selectedFlight?.raw || {};
+  const allowed = ticket[flag] ?? supplierFlight[flag] ?? storedFlight[flag];
+  if (allowed !== true) {
+    return { status: 400, message: `This ticket cannot be ${TICKET_CHANGE_RESULTS[change]}` };
+  }
+
+  return { ticket };
+}
+
+/**
+ * Append a ticket change request (and its outcome) to the booking timeline
+ */
+function recordTicketChange(booking, req, status, notes) {
+  booking.timeline = booking.timeline || [];
+  booking.timeline.push({
+    status,
+    date: new Date(),
+    notes,
+    updatedBy: req.user ? req.user.name : 'system'
+  });
+}
+
+/**
+ * Queue the refund of a paid booking's payment and cancel the booking. The payout is made
+ * by staff, who then mark the payment refunded.
+ * @param {Object} booking - FlightBooking document (not saved here)
+ * @param {Object} req - Request of the user making the change
+ * @param {string} notes - Why the money goes back
+ * @param {number} [feeUsd] - Fee kept from the refund (USD)
+ */
+function queueBookingRefund(booking, req, notes, feeUsd = 0) {
+  const transactions = booking.paymentDetails?.transactions || [];
+  const payment = [...transactions].reverse().find(tx => tx.type === 'payment' && tx.status === 'completed');
+  const paidUsd = Number(payment?.amountUsd ?? booking.flightDetails?.selectedFlight?.price?.total) || 0;
+  const refundUsd = Math.round(Math.max(paidUsd - feeUsd, 0) * 100) / 100;
+  // Refunds go back in the currency that was paid
+  const rate = Number(payment?.exchangeRate);
+  const inPaidCurrency = Number.isFinite(rate) && rate > 0;
+  const updatedBy = req.user ? req.user.name : 'system';
+
+  booking.paymentDetails.transactions.push({
+    date: new Date(),
+    amount: inPaidCurrency ? Math.round(refundUsd * rate) : refundUsd,
+    currency: inPaidCurrency ? payment.currency : 'USD',
+    type: 'refund',
+    status: 'pending',
+    reference: payment?.reference || booking.paymentDetails.reference,
+    amountUsd: refundUsd,
+    exchangeRate: payment?.exchangeRate,
+    orderRef: payment?.orderRef
+  });
+  setPaymentStatus(booking, 'refund_pending', { notes: `${notes}; ${refundUsd} USD queued for refund`, updatedBy });
+  if (canTransition('status', booking.status, 'cancelled')) {
+    setBookingStatus(booking, 'cancelled', { notes, updatedBy });
+  }
+}
+
+/**
+ * Record a supplier action taken from the admin console in the ticket history
+ */
+function recordSupplierAction(booking, req, action, notes) {
+  booking.ticketHistory = booking.ticketHistory || [];
+  booking.ticketHistory.push({
+    status: `supplier_${action}`,
+    date: new Date(),
+    notes,
+    updatedBy: req.user ? req.user.name : 'system'
+  });
+}
+
+/**
+ * Normalise a Seeru order status ("Saved not issued", "ISSUED") to a seeruStatus value
+ */
+function normaliseSupplierStatus(value) {
+  if (!value) return null;
+  const status = String(value).trim().toLowerCase().replace(/[\s-]+/g, '_');
+  if (status === 'canceled') return 'cancelled';
+  return SUPPLIER_STATUSES.includes(status) ? status : null;
+}
+
+/**
+ * Pull the fields we mirror locally out of a Seeru order/details response
+ */
+function extractLiveOrderState(data) {
+  const order = data?.order || data?.booking || {};
+  const tickets = order.tickets || data?.tickets || [];
+  const firstTicket = tickets[0] || {};
+  const rawStatus = order.status || data?.order_status || data?.orderStatus || firstTicket.status || null;
+
+  return {
+    rawStatus,
+    status: normaliseSupplierStatus(rawStatus),
+    pnr: firstTicket.airline_pnr || firstTicket.pnr || order.pnr || null,
+    ticketNumber: firstTicket.ticket_number || firstTicket.etkt || null
+  };
+}
+
+/**
+ * Stored supplier state of a booking, compared with the live Seeru order when given
+ */
+function buildSupplierState(booking, live) {
+  const stored = {
+    status: booking.seeruStatus || null,
+    pnr: booking.pnr || null,
+    ticketNumber: booking.ticketNumber || null,
+    error: booking.seeruError || null
+  };
+
+  const differences = live
+    ? ['status', 'pnr', 'ticketNumber']
+      .filter(field => live[field] && live[field] !== stored[field])
+      .map(field => ({ field, stored: stored[field], live: live[field] }))
+    : [];
+
+  return {
+    bookingId: booking.bookingId,
+    orderId: booking.seeruOrderId || null,
+    paymentStatus: booking.paymentStatus,
+    stored,
+    live,
+    differences,
+    allowedTransitions: getAllowedTransitions('seeruStatus', booking.seeruStatus),
+    ticketHistory: booking.ticketHistory || [],
+    fetchedAt: new Date()
+  };
+}
+
+/**
+ * Copy only the listed fields that are present
+ */
+function pickFields(source, fields) {
+  const picked = {};
+  fields.forEach(field => {
+    if (source?.[field] !== undefined) picked[field] = source[field];
+  });
+  return picked;
+}
+
+const RETRIEVED_AIRPORT_FIELDS = ['airport', 'city', 'country', 'country_iso', 'name', 'terminal', 'date'];
+const RETRIEVED_SEGMENT_FIELDS = [
+  'cabin', 'cabin_name', 'class', 'equipment', 'equipment_name', 'flightnumber', 'iata',
+  'airline_iata', 'airline_code', 'airline_name', 'duration', 'duration_formatted'
+];
+const RETRIEVED_FLIGHT_FIELDS = [
+  'trip_id', 'currency', 'price', 'tax', 'total_price', 'price_breakdowns',
+  'baggage_allowance', 'can_refund', 'refundable_info'
+];
+
+const pickAirport = (airport) => pickFields(airport, RETRIEVED_AIRPORT_FIELDS);
+
+function mapRetrievedLeg(leg) {
+  return {
+    ...pickFields(leg, ['leg_id', 'duration', 'stops_count', 'cabin_name']),
+    from: pickAirport(leg?.from),
+    to: pickAirport(leg?.to),
+    bags: leg?.bags || {},
+    segments: (leg?.segments || []).map(segment => ({
+      ...pickFields(segment, RETRIEVED_SEGMENT_FIELDS),
+      from: pickAirport(segment?.from),
+      to: pickAirport(segment?.to)
+    }))
+  };
+}
+
+/**
+ * Map a Seeru ticket retrieval response into the itinerary shape used by the
+ * public "Find my booking" page. Only the fields the page shows are returned;
+ * document numbers and contact details are left out.
+ */
+function mapRetrievedTicket(data) {
+  const booking = data?.payload?.booking || data?.booking || {};
+  const tickets = Array.isArray(data?.tickets) ? data.tickets : (data?.ticket ? [data.ticket] : []);
+  const firstTicket = tickets[0] || {};
+  const legs = booking.legs || firstTicket.legs || [];
+
+  let searchQuery = booking.search_query || {};
+  if (typeof searchQuery === 'string') {
+    try { searchQuery = JSON.parse(searchQuery); } catch (e) { searchQuery = {}; }
+  }
+
+  const rawPassengers = firstTicket.passengers || data?.payload?.passengers || data?.passengers || [];
+  const passengers = rawPassengers.map(p => ({
+    firstName: p.first_name || '',
+    lastName: p.last_name || '',
+    type: p.type || 'ADT',
+    ticketNumbers: [...new Set((p.legs || []).filter(Boolean).map(l => l.etkt).filter(Boolean))]
+  }));
+
+  const countType = (type) => passengers.filter(p => p.type === type).length;
+
+  return {
+    orderId: data?.order_id || null,
+    reservationNo: data?.reservation_no || firstTicket.ticket_ref || null,
+    airlinePnr: firstTicket.airline_pnr || null,
+    status: firstTicket.status || data?.orderStatus || null,
+    ticketUrl: data?.ticket_url || firstTicket.ticket_url || null,
+    passengers,
+    flight: {
+      ...pickFields(booking, RETRIEVED_FLIGHT_FIELDS),
+      legs: legs.map(mapRetrievedLeg),
+      search_query: {
+        adt: searchQuery.adt ?? countType('ADT'),
+        chd: searchQuery.chd ?? countType('CHD'),
+        inf: searchQuery.inf ?? countType('INF'),
+        options: pickFields(searchQuery.options, ['cabin', 'direct'])
+      }
+    }
+  };
+}
+
 /**
  * Process booking with Seeru (check fare, save, and issue ticket)
  * @route POST /api/seeru/process-booking
@@ -98,7 +379,7 @@ exports.processBookingWithSeeru = asyncHandler(async (req, res, next) => {
 
     // Store Seeru order ID
     booking.seeruOrderId = saveResult.orderId;
-    booking.seeruStatus = 'saved';
+    setSupplierStatus(booking, 'saved');
     booking.seeruSavedAt = new Date();
 
     // Step 3: Issue ticket with Seeru
@@ -106,7 +387,7 @@ exports.processBookingWithSeeru = asyncHandler(async (req, res, next) => {
 
     if (!issueResult.success) {
       // Ticket issuance failed, but booking is saved
-      booking.seeruStatus = 'saved_not_issued';
+      setSupplierStatus(booking, 'saved_not_issued');
       booking.seeruError = issueResult.error;
       await booking.save();
 
@@ -121,7 +402,7 @@ exports.processBookingWithSeeru = asyncHandler(async (req, res, next) => {
     // Update booking with ticket details
     booking.ticketNumber = issueResult.ticketNumber;
     booking.pnr = issueResult.pnr;
-    booking.seeruStatus = 'issued';
+    setSupplierStatus(booking, 'issued');
     booking.seeruIssuedAt = new Date();
     booking.ticketUrl = issueResult.data?.ticket_url || '';
 
@@ -238,7 +519,7 @@ exports.saveBookingWithSeeru = asyncHandler(async (req, res, next) => {
 
     // Update booking with order ID
     booking.seeruOrderId = result.orderId;
-    booking.seeruStatus = 'saved';
+    setSupplierStatus(booking, 'saved');
     booking.seeruSavedAt = new Date();
     await booking.save();
 
@@ -297,7 +578,7 @@ exports.issueTicketWithSeeru = asyncHandler(async (req, res, next) => {
     // Update booking with ticket details
     booking.ticketNumber = result.ticketNumber;
     booking.pnr = result.pnr;
-    booking.seeruStatus = 'issued';
+    setSupplierStatus(booking, 'issued');
     booking.seeruIssuedAt = new Date();
     booking.ticketUrl = result.data?.ticket_url || '';
     await booking.save();
@@ -396,7 +677,7 @@ exports.cancelOrderWithSeeru = asyncHandler(async (req, res, next) => {
     }
 
     // Update booking status
-    booking.seeruStatus = 'cancelled';
+    setSupplierStatus(booking, 'cancelled');
     booking.seeruCancelledAt = new Date();
     await booking.save();
 
@@ -453,7 +734,7 @@ exports.issueOrderWithSeeru = asyncHandler(async (req, res, next) => {
     }
 
     // Update booking status
-    booking.seeruStatus = 'issued';
+    setSupplierStatus(booking, 'issued');
     booking.seeruIssuedAt = new Date();
     await booking.save();
 
@@ -518,7 +799,7 @@ exports.getTicketDetailsFromSeeru = asyncHandler(async (req, res, next) => {
 /**
  * Retrieve ticket by PNR
  * @route POST /api/seeru/retrieve-ticket
- * @access Private
+ * @access Public (airline PNR + last name act as credentials)
  */
 exports.retrieveTicketFromSeeru = asyncHandler(async (req, res, next) => {
   const { airlinePnr, lastName } = req.body;
@@ -531,19 +812,19 @@ exports.retrieveTicketFromSeeru = asyncHandler(async (req, res, next) => {
   }
 
   try {
-    const result = await retrieveTicketByPnr(airlinePnr, lastName);
+    const result = await retrieveTicketByPnr(String(airlinePnr).trim().toUpperCase(), String(lastName).trim());
 
     if (!result.success) {
-      return res.status(400).json({
+      return res.status(404).json({
         success: false,
-        message: 'Failed to retrieve ticket',
+        message: 'No booking found for this PNR and last name',
         error: result.error
       });
     }
 
     res.status(200).json({
       success: true,
-      data: result.data
+      data: mapRetrievedTicket(result.data)
     });
   } catch (error) {
     console.error('Retrieve ticket error:', error);
@@ -555,13 +836,73 @@ exports.retrieveTicketFromSeeru = asyncHandler(async (req, res, next) => {
   }
 });
 
+/**
+ * Get self-service ticket change options for a booking (flags, ticket ID and fee preview)
+ * @route GET /api/seeru/ticket-options/:bookingId
+ * @access Private (booking owner or staff with bookings:manage)
+ */
+exports.getTicketChangeOptions = asyncHandler(async (req, res, next) => {
+  const booking = await FlightBooking.findById(req.params.bookingId);
+  if (!booking) {
+    return res.status(404).json({
+      success: false,
+      message: 'Booking not found'
+    });
+  }
+
+  if (!canManageBooking(req, booking)) {
+    return res.status(403).json({
+      success: false,
+      message: 'Not authorized to manage this booking'
+    });
+  }
+
+  // Flags come from the provider flight stored when the booking was created
+  const rawFlight = booking.flightDetails?.selectedFlight?.raw || {};
+  const flags = {
+    canRefund: rawFlight.can_refund === true,
+    canVoid: rawFlight.can_void === true,
+    canExchange: rawFlight.can_exchange === true,
+    refundableInfo: rawFlight.refundable_info || null
+  };
+
+  // Resolve the Seeru ticket ID from the order, if the booking has been issued
+  let ticketId = null;
+  if (booking.seeruOrderId && booking.seeruStatus === 'issued') {
+    const orderResult = await getOrderDetails(booking.seeruOrderId);
+    if (orderResult.success) {
+      ticketId = orderResult.data?.tickets?.[0]?.ticket_id || null;
+    }
+  }
+
+  const fees = await getTicketChangeFees();
+  const paidAmount = Number(booking.flightDetails?.selectedFlight?.price?.total) || 0;
+
+  res.status(200).json({
+    success: true,
+    data: {
+      bookingId: booking._id,
+      ticketId,
+      ticketStatus: booking.ticketStatus,
+      ...flags,
+      currency: booking.flightDetails?.selectedFlight?.price?.currency || 'USD',
+      paidAmount,
+      fees: {
+        refund: { fee: fees.refund, estimatedRefund: Math.max(paidAmount - fees.refund, 0) },
+        void: { fee: fees.void, estimatedRefund: Math.max(paidAmount - fees.void, 0) },
+        exchange: { fee: fees.exchange }
+      }
+    }
+  });
+});
+
 /**
  * Refund ticket
  * @route POST /api/seeru/refund-ticket
- * @access Private
+ * @access Private (booking owner or staff with bookings:manage)
  */
 exports.refundTicketWithSeeru = asyncHandler(async (req, res, next) => {
-  const { bookingId, ticketId, legs, totalFees, passengers } = req.body;
+  const { bookingId, ticketId, legs, totalFees, passengers, reason } = req.body;
 
   if (!bookingId || !ticketId) {
     return res.status(400).json({
@@ -579,9 +920,31 @@ exports.refundTicketWithSeeru = asyncHandler(async (req, res, next) => {
       });
     }
 
-    const result = await refundTicket(ticketId, legs || [], totalFees, passengers || []);
+    if (!canManageBooking(req, booking)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to manage this booking'
+      });
+    }
+
+    const resolved = await resolveChangeableTicket(booking, ticketId, 'refund');
+    if (!resolved.ticket) {
+      return res.status(resolved.status).json({
+        success: false,
+        message: resolved.message
+      });
+    }
+
+    // Customers are always charged the configured fee; staff who handle refunds may override it
+    const fees = await getTicketChangeFees();
+    const fee = hasPermission(req.user.role, 'payments:refund') && totalFees != null ? Number(totalFees) : fees.refund;
+
+    const result = await refundTicket(resolved.ticket.ticket_id, legs || [], fee, passengers || []);
 
     if (!result.success) {
+      recordTicketChange(booking, req, 'refund_failed', `Refund request failed: ${result.error}`);
+      await booking.save();
+
       return res.status(400).json({
         success: false,
         message: 'Failed to refund ticket',
@@ -592,6 +955,8 @@ exports.refundTicketWithSeeru = asyncHandler(async (req, res, next) => {
     // Update booking status
     booking.ticketStatus = 'refunded';
     booking.refundedAt = new Date();
+    recordTicketChange(booking, req, 'refunded', `Ticket refunded (fee: ${fee} USD)${reason ? ` - ${reason}` : ''}`);
+    queueBookingRefund(booking, req, 'Ticket refunded with Seeru', fee);
     await booking.save();
 
     res.status(200).json({
@@ -599,7 +964,9 @@ exports.refundTicketWithSeeru = asyncHandler(async (req, res, next) => {
       message: 'Ticket refunded successfully',
       data: {
         bookingId: booking._id,
-        ticketId: ticketId
+        ticketId: ticketId,
+        ticketStatus: booking.ticketStatus,
+        timeline: getCustomerTimeline(booking)
       }
     });
   } catch (error) {
@@ -615,10 +982,10 @@ exports.refundTicketWithSeeru = asyncHandler(async (req, res, next) => {
 /**
  * Void ticket
  * @route POST /api/seeru/void-ticket
- * @access Private
+ * @access Private (booking owner or staff with bookings:manage)
  */
 exports.voidTicketWithSeeru = asyncHandler(async (req, res, next) => {
-  const { bookingId, ticketId, passengers } = req.body;
+  const { bookingId, ticketId, passengers, reason } = req.body;
 
   if (!bookingId || !ticketId) {
     return res.status(400).json({
@@ -636,9 +1003,27 @@ exports.voidTicketWithSeeru = asyncHandler(async (req, res, next) => {
       });
     }
 
-    const result = await voidTicket(ticketId, passengers || []);
+    if (!canManageBooking(req, booking)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to manage this booking'
+      });
+    }
+
+    const resolved = await resolveChangeableTicket(booking, ticketId, 'void');
+    if (!resolved.ticket) {
+      return res.status(resolved.status).json({
+        success: false,
+        message: resolved.message
+      });
+    }
+
+    const result = await voidTicket(resolved.ticket.ticket_id, passengers || []);
 
     if (!result.success) {
+      recordTicketChange(booking, req, 'void_failed', `Void request failed: ${result.error}`);
+      await booking.save();
+
       return res.status(400).json({
         success: false,
         message: 'Failed to void ticket',
@@ -647,8 +1032,11 @@ exports.voidTicketWithSeeru = asyncHandler(async (req, res, next) => {
     }
 
     // Update booking status
+    const fees = await getTicketChangeFees();
     booking.ticketStatus = 'voided';
     booking.voidedAt = new Date();
+    recordTicketChange(booking, req, 'voided', `Ticket voided (fee: ${fees.void} USD)${reason ? ` - ${reason}` : ''}`);
+    queueBookingRefund(booking, req, 'Ticket voided with Seeru', fees.void);
     await booking.save();
 
     res.status(200).json({
@@ -656,7 +1044,9 @@ exports.voidTicketWithSeeru = asyncHandler(async (req, res, next) => {
       message: 'Ticket voided successfully',
       data: {
         bookingId: booking._id,
-        ticketId: ticketId
+        ticketId: ticketId,
+        ticketStatus: booking.ticketStatus,
+        timeline: getCustomerTimeline(booking)
       }
     });
   } catch (error) {
@@ -672,10 +1062,10 @@ exports.voidTicketWithSeeru = asyncHandler(async (req, res, next) => {
 /**
  * Exchange ticket
  * @route POST /api/seeru/exchange-ticket
- * @access Private
+ * @access Private (booking owner or staff with bookings:manage)
  */
 exports.exchangeTicketWithSeeru = asyncHandler(async (req, res, next) => {
-  const { bookingId, ticketId, exchangeLegs, totalFees, passengers } = req.body;
+  const { bookingId, ticketId, exchangeLegs, totalFees, passengers, reason } = req.body;
 
   if (!bookingId || !ticketId || !exchangeLegs) {
     return res.status(400).json({
@@ -693,9 +1083,30 @@ exports.exchangeTicketWithSeeru = asyncHandler(async (req, res, next) => {
       });
     }
 
-    const result = await exchangeTicket(ticketId, exchangeLegs, totalFees, passengers || []);
+    if (!canManageBooking(req, booking)) {
+      return res.status(403).json({
+        success: false,
+        message: 'Not authorized to manage this booking'
+      });
+    }
+
+    const resolved = await resolveChangeableTicket(booking, ticketId, 'exchange');
+    if (!resolved.ticket) {
+      return res.status(resolved.status).json({
+        success: false,
+        message: resolved.message
+      });
+    }
+
+    const fees = await getTicketChangeFees();
+    const fee = hasPermission(req.user.role, 'bookings:manage') && totalFees != null ? Number(totalFees) : fees.exchange;
+
+    const result = await exchangeTicket(resolved.ticket.ticket_id, exchangeLegs, fee, passengers || []);
 
     if (!result.success) {
+      recordTicketChange(booking, req, 'exchange_failed', `Exchange request failed: ${result.error}`);
+      await booking.save();
+
       return res.status(400).json({
         success: false,
         message: 'Failed to exchange ticket',
@@ -706,6 +1117,7 @@ exports.exchangeTicketWithSeeru = asyncHandler(async (req, res, next) => {
     // Update booking status
     booking.ticketStatus = 'exchanged';
     booking.exchangedAt = new Date();
+    recordTicketChange(booking, req, 'exchanged', `Ticket exchanged (fee: ${fee} USD)${reason ? ` - ${reason}` : ''}`);
     await booking.save();
 
     res.status(200).json({
@@ -713,7 +1125,9 @@ exports.exchangeTicketWithSeeru = asyncHandler(async (req, res, next) => {
       message: 'Ticket exchanged successfully',
       data: {
         bookingId: booking._id,
-        ticketId: ticketId
+        ticketId: ticketId,
+        ticketStatus: booking.ticketStatus,
+        timeline: getCustomerTimeline(booking)
       }
     });
   } catch (error) {
@@ -725,3 +1139,188 @@ exports.exchangeTicketWithSeeru = asyncHandler(async (req, res, next) => {
     });
   }
 });
+
+const SUPPLIER_ACTIONS = ['cancel', 'issue', 'retry', 'refresh'];
+
+/**
+ * Live Seeru order state for a booking, compared with what we have stored
+ * @route GET /api/admin/flight-bookings/:bookingId/supplier
+ * @access Private/Admin
+ */
+exports.getSupplierOrderState = asyncHandler(async (req, res, next) => {
+  const booking = await FlightBooking.findOne({ bookingId: req.params.bookingId });
+  if (!booking) {
+    return res.status(404).json({
+      success: false,
+      message: 'Booking not found'
+    });
+  }
+
+  if (!booking.seeruOrderId) {
+    return res.status(200).json({
+      success: true,
+      data: buildSupplierState(booking, null)
+    });
+  }
+
+  const result = await getOrderDetails(booking.seeruOrderId);
+  if (!result.success) {
+    return res.status(502).json({
+      success: false,
+      message: 'Failed to get order details from Seeru',
+      error: result.error,
+      data: buildSupplierState(booking, null)
+    });
+  }
+
+  res.status(200).json({
+    success: true,
+    data: {
+      ...buildSupplierState(booking, extractLiveOrderState(result.data)),
+      raw: result.data
+    }
+  });
+});
+
+/**
+ * Run a Seeru order action from the admin console
+ * @route POST /api/admin/flight-bookings/:bookingId/supplier/:action
+ * @access Private/Admin
+ */
+exports.runSupplierAction = asyncHandler(async (req, res, next) => {
+  const { action } = req.params;
+  if (!SUPPLIER_ACTIONS.includes(action)) {
+    return res.status(400).json({
+      success: false,
+      message: `Unknown supplier action. Use one of: ${SUPPLIER_ACTIONS.join(', ')}`
+    });
+  }
+
+  const booking = await FlightBooking.findOne({ bookingId: req.params.bookingId });
+  if (!booking) {
+    return res.status(404).json({
+      success: false,
+      message: 'Booking not found'
+    });
+  }
+
+  if (!booking.seeruOrderId) {
+    return res.status(400).json({
+      success: false,
+      message: 'No Seeru order found for this booking'
+    });
+  }
+
+  const orderId = booking.seeruOrderId;
+  const target = { cancel: 'cancelled', issue: 'issued', retry: 'issued' }[action];
+  if (target && !canTransition('seeruStatus', booking.seeruStatus, target)) {
+    return res.status(409).json({
+      success: false,
+      message: `Cannot ${action} an order whose supplier status is "${booking.seeruStatus}"`,
+      allowedTransitions: getAllowedTransitions('seeruStatus', booking.seeruStatus)
+    });
+  }
+
+  // Issuing spends the supplier's money, so only paid bookings that can still be issued qualify
+  if (target === 'issued') {
+    if (booking.paymentStatus !== 'completed') {
+      return res.status(400).json({
+        success: false,
+        message: 'Payment not confirmed. Cannot issue ticket.'
+      });
+    }
+    if (!canTransition('status', booking.status, 'issued')) {
+      return res.status(409).json({
+        success: false,
+        message: `Cannot issue a ticket for a booking whose status is "${booking.status}"`,
+        allowedTransitions: getAllowedTransitions('status', booking.status)
+      });
+    }
+  }
+
+  const reason = req.body?.reason ? ` - ${req.body.reason}` : '';
+  let result;
+
+  if (action === 'refresh') {
+    result = await getOrderDetails(orderId);
+    if (result.success) {
+      const live = extractLiveOrderState(result.data);
+      if (live.status && live.status !== booking.seeruStatus) {
+        if (!canTransition('seeruStatus', booking.seeruStatus, live.status)) {
+          recordSupplierAction(booking, req, 'refresh', `Seeru reports "${live.rawStatus}", which cannot follow "${booking.seeruStatus}"; not synced`);
+          await booking.save();
+          return res.status(409).json({
+            success: false,
+            message: `Seeru reports "${live.rawStatus}", which cannot follow the stored status "${booking.seeruStatus}"`,
+            data: buildSupplierState(booking, live)
+          });
+        }
+        setSupplierStatus(booking, live.status, { notes: 'Synced from Seeru order details', updatedBy: req.user.name });
+      }
+      if (live.pnr && !booking.pnr) booking.pnr = live.pnr;
+      if (live.ticketNumber && !booking.ticketNumber) booking.ticketNumber = live.ticketNumber;
+      recordSupplierAction(booking, req, 'refresh', `Synced from Seeru (status: ${live.rawStatus || 'unknown'})`);
+      await booking.save();
+      return res.status(200).json({
+        success: true,
+        message: 'Booking synced with Seeru',
+        data: buildSupplierState(booking, live)
+      });
+    }
+  } else if (action === 'cancel') {
+    result = await cancelOrder(orderId);
+    if (result.success) {
+      setSupplierStatus(booking, 'cancelled', { notes: `Order cancelled by ${req.user.name}${reason}`, updatedBy: req.user.name });
+      booking.seeruCancelledAt = new Date();
+      // The customer paid for an order that no longer exists
+      if (booking.paymentStatus === 'completed') {
+        queueBookingRefund(booking, req, `Seeru order cancelled by ${req.user.name}${reason}`);
+      }
+    }
+  } else {
+    result = await issueOrder(orderId);
+    if (result.success) {
+      setSupplierStatus(booking, 'issued', {
+        notes: action === 'retry' ? 'Ticket issuance retried' : `Order issued by ${req.user.name}`,
+        updatedBy: req.user.name
+      });
+      setBookingStatus(booking, 'issued', {
+        notes: action === 'retry' ? 'Ticket issued after retry' : 'Ticket issued from the admin console',
+        updatedBy: req.user.name
+      });
+      booking.seeruError = null;
+      booking.seeruIssuedAt = result.issuedAt || new Date();
+      if (result.ticketNumber) booking.ticketNumber = result.ticketNumber;
+      if (result.pnr) booking.pnr = result.pnr;
+      if (result.ticketUrl) booking.ticketUrl = result.ticketUrl;
+      if (!booking.ticketDetails) {
+        booking.ticketDetails = {};
+      }
+      booking.ticketDetails.ticketNumber = result.ticketNumber || booking.ticketDetails.ticketNumber;
+      booking.ticketDetails.pnr = result.pnr || booking.ticketDetails.pnr;
+      booking.ticketDetails.eTicketPath = result.ticketUrl || booking.ticketDetails.eTicketPath;
+    } else {
+      booking.seeruError = `Ticket issuance failed: ${result.error}`;
+    }
+  }
+
+  if (!result.success) {
+    recordSupplierAction(booking, req, action, `Seeru ${action} failed: ${result.error}${reason}`);
+    await booking.save();
+    return res.status(400).json({
+      success: false,
+      message: `Seeru ${action} failed`,
+      error: result.error,
+      data: buildSupplierState(booking, null)
+    });
+  }
+
+  recordSupplierAction(booking, req, action, `Seeru ${action} succeeded${reason}`);
+  await booking.save();
+
+  res.status(200).json({
+    success: true,
+    message: `Seeru ${action} succeeded`,
+    data: buildSupplierState(booking, null)
+  });
+});
@@ -1,9 +1,16 @@
 const Setting = require('../models/Setting');
 const asyncHandler = require('../middleware/asyncHandler');
+const { recordAudit } = require('../services/auditLogService');
+
+// Settings anyone may read; everything else is only reachable through the admin endpoints
+const PUBLIC_SETTING_KEYS = ['integrations', 'currencyRates', 'sypRate', 'ticketChangeFees'];
 
 // Get setting by key (public read)
 exports.getSetting = asyncHandler(async (req, res, next) => {
   const key = req.params.key;
+  if (!PUBLIC_SETTING_KEYS.includes(key)) {
+    return res.status(404).json({ success: false, message: 'Setting not found' });
+  }
   const setting = await Setting.findOne({ key }).lean();
   res.status(200).json({ success: true, data: setting ? setting.value : null });
 });
@@ -12,6 +19,14 @@ exports.getSetting = asyncHandler(async (req, res, next) => {
 exports.upsertSetting = asyncHandler(async (req, res, next) => {
   const key = req.params.key;
   const { value } = req.body;
+  const existing = await Setting.findOne({ key }).lean();
   const updated = await Setting.findOneAndUpdate({ key }, { value }, { upsert: true, new: true, setDefaultsOnInsert: true });
+  await recordAudit(req, {
+    action: 'setting.upsert',
+    targetType: 'Setting',
+    targetId: key,
+    before: existing ? { value: existing.value } : null,
+    after: { value: updated.value }
+  });
   res.status(200).json({ success: true, data: updated });
 });
@@ -1,10 +1,35 @@
 const User = require('../models/User');
 const asyncHandler = require('../middleware/async');
+const { hasPermission } = require('../utils/permissions');
+
+const MAX_SAVED_TRAVELLERS = 20;
+const TRAVELLER_FIELDS = [
+  'firstName', 'lastName', 'gender', 'dob', 'passportNumber', 'passportIssueDate',
+  'passportExpiryDate', 'passportCountry', 'nationality', 'phone', 'email'
+];
+
+// Profiles and saved travellers (passport data) may only be touched by their owner or staff with the permission
+const canAccessUser = (req, permission) =>
+  req.user._id.toString() === req.params.id || hasPermission(req.user.role, permission);
+
+const pickTravellerFields = (body = {}) => {
+  const fields = {};
+  TRAVELLER_FIELDS.forEach((field) => {
+    if (body[field] !== undefined) {
+      fields[field] = body[field] === '' && /Date$|^dob$/.test(field) ? null : body[field];
+    }
+  });
+  return fields;
+};
 
 // @desc    Get user profile
 // @route   GET /api/users/:id
 // @access  Private
 exports.getUserProfile = asyncHandler(async (req, res, next) => {
+  if (!canAccessUser(req, 'users:view')) {
+    return res.status(403).json({ success: false, error: 'Not authorized to access this user' });
+  }
+
   const user = await User.findById(req.params.id).select('-password');
   
   if (!user) {
@@ -24,6 +49,10 @@ exports.getUserProfile = asyncHandler(async (req, res, next) => {
 // @route   PUT /api/users/:id
 // @access  Private
 exports.updateUserProfile = asyncHandler(async (req, res, next) => {
+  if (!canAccessUser(req, 'users:manage')) {
+    return res.status(403).json({ success: false, error: 'Not authorized to access this user' });
+  }
+
   const fieldsToUpdate = {
     name: req.body.name,
     email: req.body.email,
@@ -181,4 +210,96 @@ exports.changePassword = asyncHandler(async (req, res, next) => {
     success: true,
     message: 'Password changed successfully'
   });
-});
\ No newline at end of file
+});
+
+// @desc    Get saved travellers
+// @route   GET /api/users/:id/travellers
+// @access  Private
+exports.getTravellers = asyncHandler(async (req, res, next) => {
+  if (!canAccessUser(req, 'users:manage')) {
+    return res.status(403).json({ success: false, error: 'Not authorized to access these travellers' });
+  }
+
+  const user = await User.findById(req.params.id).select('+travellers');
+  if (!user) {
+    return res.status(404).json({ success: false, error: 'User not found' });
+  }
+
+  res.status(200).json({ success: true, data: user.travellers });
+});
+
+// @desc    Save a traveller
+// @route   POST /api/users/:id/travellers
+// @access  Private
+exports.addTraveller = asyncHandler(async (req, res, next) => {
+  if (!canAccessUser(req, 'users:manage')) {
+    return res.status(403).json({ success: false, error: 'Not authorized to access these travellers' });
+  }
+
+  const user = await User.findById(req.params.id).select('+travellers');
+  if (!user) {
+    return res.status(404).json({ success: false, error: 'User not found' });
+  }
+  if (user.travellers.length >= MAX_SAVED_TRAVELLERS) {
+    return res.status(400).json({ success: false, error: `You can save up to ${MAX_SAVED_TRAVELLERS} travellers` });
+  }
+
+  user.travellers.push(pickTravellerFields(req.body));
+  try {
+    await user.save();
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ success: false, error: Object.values(error.errors).map(e => e.message).join(', ') });
+    }
+    throw error;
+  }
+
+  res.status(201).json({ success: true, data: user.travellers[user.travellers.length - 1] });
+});
+
+// @desc    Update a saved traveller
+// @route   PUT /api/users/:id/travellers/:travellerId
+// @access  Private
+exports.updateTraveller = asyncHandler(async (req, res, next) => {
+  if (!canAccessUser(req, 'users:manage')) {
+    return res.status(403).json({ success: false, error: 'Not authorized to access these travellers' });
+  }
+
+  const user = await User.findById(req.params.id).select('+travellers');
+  const traveller = user?.travellers.id(req.params.travellerId);
+  if (!traveller) {
+    return res.status(404).json({ success: false, error: 'Traveller not found' });
+  }
+
+  traveller.set(pickTravellerFields(req.body));
+  try {
+    await user.save();
+  } catch (error) {
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({ success: false, error: Object.values(error.errors).map(e => e.message).join(', ') });
+    }
+    throw error;
+  }
+
+  res.status(200).json({ success: true, data: traveller });
+});
+
+// @desc    Delete a saved traveller
+// @route   DELETE /api/users/:id/travellers/:travellerId
+// @access  Private
+exports.deleteTraveller = asyncHandler(async (req, res, next) => {
+  if (!canAccessUser(req, 'users:manage')) {
+    return res.status(403).json({ success: false, error: 'Not authorized to access these travellers' });
+  }
+
+  const user = await User.findById(req.params.id).select('+travellers');
+  const traveller = user?.travellers.id(req.params.travellerId);
+  if (!traveller) {
+    return res.status(404).json({ success: false, error: 'Traveller not found' });
+  }
+
+  traveller.deleteOne();
+  await user.save();
+
+  res.status(200).json({ success: true, data: {} });
+});
@@ -1,6 +1,7 @@
 const jwt = require("jsonwebtoken");
 const User = require("../models/User");
 const asyncHandler = require("./asyncHandler");
+const { hasPermission } = require("../utils/permissions");
 
 // Protect routes
 exports.protect = asyncHandler(async (req, res, next) => {
@@ -74,14 +75,16 @@ exports.optionalAuth = asyncHandler(async (req, res, next) => {
   next();
 });
 
-// Grant access to specific roles
-exports.authorize = (...roles) => {
+// Grant access to specific roles or permissions, e.g. authorize('admin') or
+// authorize('bookings:view'); see utils/permissions for what each role grants
+exports.authorize = (...grants) => {
   return (req, res, next) => {
     if (!req.user) {
         // Should be caught by protect middleware first, but added for safety
         return res.status(401).json({ success: false, message: "User not authenticated" });
     }
-    if (!roles.includes(req.user.role)) {
+    const allowed = grants.some(grant => grant === req.user.role || hasPermission(req.user.role, grant));
+    if (!allowed) {
       return res.status(403).json({
         success: false,
         message: `User role '${req.user.role}' is not authorized to access this route`,
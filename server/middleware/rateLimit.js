@@ -0,0 +1,48 @@
+/**
+ * In-memory, fixed-window rate limiting for public endpoints.
+ * Counts are per process, which is enough to slow down enumeration from a single client.
+ */
+
+/**
+ * Build a middleware allowing `max` requests per `windowMs` for each key
+ * @param {Object} options
+ * @param {number} options.windowMs - Window length in milliseconds
+ * @param {number} options.max - Requests allowed per window
+ * @param {Function} [options.keyGenerator] - Maps a request to the key it is counted under (default: client IP)
+ * @param {string} [options.message] - Response message once the limit is hit
+ */
+function rateLimit({ windowMs, max, keyGenerator = (req) => req.ip, message = 'Too many requests, please try again later' }) {
+  const hits = new Map();
+
+  // Forget expired windows so the map doesn't grow with every client ever seen
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    hits.forEach((entry, key) => {
+      if (entry.resetAt <= now) hits.delete(key);
+    });
+  }, windowMs);
+  sweep.unref();
+
+  return (req, res, next) => {
+    const key = keyGenerator(req) || 'unknown';
+    const now = Date.now();
+    let entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(key, entry);
+    }
+    entry.count += 1;
+
+    res.set('RateLimit-Limit', String(max));
+    res.set('RateLimit-Remaining', String(Math.max(max - entry.count, 0)));
+    res.set('RateLimit-Reset', String(Math.ceil((entry.resetAt - now) / 1000)));
+
+    if (entry.count > max) {
+      res.set('Retry-After', String(Math.ceil((entry.resetAt - now) / 1000)));
+      return res.status(429).json({ success: false, message });
+    }
+    next();
+  };
+}
+
+module.exports = rateLimit;
@@ -0,0 +1,75 @@
+const mongoose = require("mongoose");
+
+const IMMUTABLE_MESSAGE = "Audit log entries cannot be modified or deleted";
+
+// One field changed by an audited action
+const AuditChangeSchema = new mongoose.Schema({
+  path: { type: String, required: true },
+  before: mongoose.Schema.Types.Mixed,
+  after: mongoose.Schema.Types.Mixed
+}, { _id: false, minimize: false });
+
+// Append-only record of a staff action. Entries are chained by hash so a
+// modified, removed or reordered entry breaks verification (see auditLogService)
+const AuditLogSchema = new mongoose.Schema({
+  seq: {
+    type: Number,
+    required: true,
+    unique: true
+  },
+  at: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  actor: {
+    id: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    name: String,
+    email: String,
+    role: String
+  },
+  // e.g. "flightBooking.update", "user.delete", "setting.upsert"
+  action: {
+    type: String,
+    required: true
+  },
+  target: {
+    type: { type: String, required: true },
+    id: { type: String }
+  },
+  changes: {
+    type: [AuditChangeSchema],
+    default: []
+  },
+  ip: String,
+  userAgent: String,
+  prevHash: {
+    type: String,
+    required: true
+  },
+  hash: {
+    type: String,
+    required: true
+  }
+// Keep empty objects so entries hash the same when read back
+}, { minimize: false });
+
+AuditLogSchema.index({ at: -1 });
+AuditLogSchema.index({ action: 1, at: -1 });
+AuditLogSchema.index({ "target.type": 1, "target.id": 1, at: -1 });
+AuditLogSchema.index({ "actor.id": 1, at: -1 });
+
+AuditLogSchema.pre("save", function (next) {
+  if (!this.isNew) return next(new Error(IMMUTABLE_MESSAGE));
+  next();
+});
+
+AuditLogSchema.pre(
+  ["updateOne", "updateMany", "findOneAndUpdate", "replaceOne", "findOneAndReplace", "deleteOne", "deleteMany", "findOneAndDelete"],
+  { document: true, query: true },
+  function (next) {
+    next(new Error(IMMUTABLE_MESSAGE));
+  }
+);
+
+module.exports = mongoose.model("AuditLog", AuditLogSchema);
@@ -1,4 +1,5 @@
 const mongoose = require("mongoose");
+const { BOOKING_STATUSES, PAYMENT_STATUSES, SUPPLIER_STATUSES } = require("../utils/bookingStateMachine");
 
 const FlightBookingSchema = new mongoose.Schema({
   userId: {
@@ -119,16 +120,19 @@ const FlightBookingSchema = new mongoose.Schema({
       }
     }
   },
+  // Changes go through utils/bookingStateMachine, which owns the legal transitions
   status: {
     type: String,
-    enum: ["pending", "confirmed", "issued", "done"],
+    enum: BOOKING_STATUSES,
     default: "pending"
   },
   paymentStatus: {
     type: String,
-    enum: ["pending", "completed", "failed"],
+    enum: PAYMENT_STATUSES,
     default: "pending"
   },
+  // Latest checkout order this booking was included in
+  orderRef: String,
   ticketUrl: {
     type: String
   },
@@ -141,8 +145,26 @@ const FlightBookingSchema = new mongoose.Schema({
       amount: Number,
       currency: String
     },
+    // Set from pricing when the booking is priced; staff may still override it
     profit: Number
   },
+  // Customer price built from the supplier fare by the pricing rules (see services/pricingService)
+  pricing: {
+    currency: String,
+    supplierTotal: Number,
+    markup: Number,
+    serviceFee: Number,
+    total: Number,
+    passengers: mongoose.Schema.Types.Mixed,
+    rules: [{
+      rule: { type: mongoose.Schema.Types.ObjectId, ref: "PricingRule" },
+      name: String,
+      kind: String,
+      passengerType: String,
+      amount: Number
+    }],
+    pricedAt: Date
+  },
   ticketDetails: {
     ticketNumber: String,
     airline: String,
@@ -154,10 +176,23 @@ const FlightBookingSchema = new mongoose.Schema({
       uploadedAt: Date
     }]
   },
+  // Generated itinerary/receipt PDFs per language (see services/itineraryPdfService)
+  itineraryPdf: {
+    en: {
+      path: String,
+      fingerprint: String,
+      generatedAt: Date
+    },
+    ar: {
+      path: String,
+      fingerprint: String,
+      generatedAt: Date
+    }
+  },
   paymentDetails: {
     status: {
       type: String,
-      enum: ["pending", "completed"],
+      enum: PAYMENT_STATUSES,
       default: "pending"
     },
     amount: Number,
@@ -167,13 +202,56 @@ const FlightBookingSchema = new mongoose.Schema({
     },
     method: String,
     reference: String,
+    // Promo code applied to the latest payment attempt (see services/promotionService)
+    discount: {
+      promotion: { type: mongoose.Schema.Types.ObjectId, ref: "Promotion" },
+      code: String,
+      discountType: String,
+      value: Number,
+      originalAmountUsd: Number,
+      amountUsd: Number,
+      appliedAt: Date,
+      // Set while the discount holds one of the promotion's uses for an unpaid payment
+      reservedAt: Date,
+      redeemedAt: Date
+    },
     transactions: [{
       date: Date,
       amount: Number,
-      type: String, // payment, refund
-      reference: String
+      currency: String,
+      type: { type: String }, // payment, refund
+      status: String, // pending, completed, failed, superseded
+      reference: String,
+      amountUsd: Number,
+      exchangeRate: Number,
+      orderRef: String // Set when paid as part of a multi-booking checkout order
     }]
   },
+  // Latest pre-payment fare re-check; a changed fare must be accepted before paying (see services/fareCheckService)
+  fareCheck: {
+    status: {
+      type: String,
+      enum: ["unchanged", "changed", "accepted", "unavailable"]
+    },
+    checkedAt: Date,
+    acceptedAt: Date,
+    previous: mongoose.Schema.Types.Mixed,
+    current: mongoose.Schema.Types.Mixed,
+    // Re-priced fare applied when the customer accepts the change
+    pricing: mongoose.Schema.Types.Mixed,
+    fare: mongoose.Schema.Types.Mixed,
+    error: String
+  },
+  // Fare held with the supplier to pay later (see services/fareHoldService)
+  hold: {
+    requestedAt: Date,
+    expiresAt: Date,
+    // supplier: Seeru's ticketing time limit; default: our own hold window
+    expirySource: String,
+    remindersSent: [Number],
+    releasedAt: Date,
+    releaseReason: String
+  },
   timeline: [{
     status: String,
     date: Date,
@@ -190,7 +268,7 @@ const FlightBookingSchema = new mongoose.Schema({
   seeruOrderId: String,
   seeruStatus: {
     type: String,
-    enum: ['pending', 'initiated', 'validated', 'saved', 'new', 'confirmed', 'issued', 'saved_not_issued', 'failed', 'cancelled', 'expired'],
+    enum: SUPPLIER_STATUSES,
     default: 'pending'
   },
   seeruValidated: {
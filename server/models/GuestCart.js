@@ -0,0 +1,41 @@
+const mongoose = require("mongoose");
+
+const GUEST_CART_TTL_DAYS = 30;
+
+const GuestCartItemSchema = new mongoose.Schema({
+  // Flight details exactly as the client would send them to POST /api/bookings
+  flightDetails: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  passengerDetails: {
+    type: [mongoose.Schema.Types.Mixed],
+    default: []
+  },
+  addedAt: {
+    type: Date,
+    default: Date.now
+  }
+});
+
+// Anonymous cart keyed by the X-Session-ID header; merged into FlightBookings on login
+const GuestCartSchema = new mongoose.Schema({
+  sessionId: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  items: [GuestCartItemSchema],
+  expiresAt: Date
+}, { timestamps: true });
+
+// Every change keeps the cart alive for another TTL window
+GuestCartSchema.pre("save", function (next) {
+  this.expiresAt = new Date(Date.now() + GUEST_CART_TTL_DAYS * 24 * 60 * 60 * 1000);
+  next();
+});
+
+// Abandoned guest carts are removed by MongoDB once they expire
+GuestCartSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+module.exports = mongoose.model("GuestCart", GuestCartSchema);
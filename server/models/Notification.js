@@ -1,4 +1,5 @@
 const mongoose = require("mongoose");
+const { publishNotification } = require("../services/notificationStreamService");
 
 const NotificationSchema = new mongoose.Schema({
   userId: {
@@ -28,7 +29,7 @@ const NotificationSchema = new mongoose.Schema({
   },
   type: {
     type: String,
-    enum: ["welcome", "booking", "payment", "profile", "cart", "system"],
+    enum: ["welcome", "booking", "payment", "profile", "cart", "system", "price_alert"],
     required: true
   },
   pdfUrl: {
@@ -45,4 +46,18 @@ const NotificationSchema = new mongoose.Schema({
   }
 });
 
+// Push new notifications to the recipient's open SSE streams
+NotificationSchema.pre("save", function (next) {
+  this.$locals.wasNew = this.isNew;
+  next();
+});
+
+NotificationSchema.post("save", function (doc) {
+  if (doc.$locals.wasNew) publishNotification(doc);
+});
+
+NotificationSchema.post("insertMany", function (docs) {
+  docs.forEach(publishNotification);
+});
+
 module.exports = mongoose.model("Notification", NotificationSchema); 
\ No newline at end of file
@@ -0,0 +1,75 @@
+const mongoose = require("mongoose");
+
+// One checkout covering several FlightBookings, paid with a single eCash transaction
+const OrderItemSchema = new mongoose.Schema({
+  booking: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "FlightBooking",
+    required: true
+  },
+  bookingId: {
+    type: String,
+    required: true
+  },
+  amountUsd: Number,
+  // This booking's share of the order amount, in the payment currency
+  amount: Number,
+  status: {
+    type: String,
+    enum: ["pending", "confirmed", "issued", "failed", "refund_pending", "refunded"],
+    default: "pending"
+  },
+  error: String
+}, { _id: false });
+
+const OrderSchema = new mongoose.Schema({
+  orderRef: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+    index: true
+  },
+  items: [OrderItemSchema],
+  amount: {
+    type: Number,
+    required: true
+  },
+  currency: {
+    type: String,
+    default: "SYP"
+  },
+  amountUsd: Number,
+  exchangeRate: Number,
+  status: {
+    type: String,
+    enum: [
+      "pending", // waiting for the gateway callback
+      "paid", // payment received, bookings being issued
+      "completed", // every booking confirmed or issued
+      "partial_refund_pending", // some bookings failed and must be refunded
+      "refund_pending", // every booking failed; the whole payment must be refunded
+      "partially_refunded",
+      "refunded",
+      "failed", // payment failed or was rejected
+      "superseded" // replaced by a newer checkout for the same bookings
+    ],
+    default: "pending"
+  },
+  transactionNo: String,
+  paidAt: Date,
+  timeline: [{
+    status: String,
+    date: Date,
+    notes: String,
+    updatedBy: String
+  }]
+}, { timestamps: true });
+
+OrderSchema.index({ "items.booking": 1, status: 1 });
+
+module.exports = mongoose.model("Order", OrderSchema);
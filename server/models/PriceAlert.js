@@ -0,0 +1,71 @@
+const mongoose = require("mongoose");
+
+const PriceAlertSchema = new mongoose.Schema({
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+    index: true
+  },
+  from: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true
+  },
+  to: {
+    type: String,
+    required: true,
+    uppercase: true,
+    trim: true
+  },
+  departureDate: {
+    type: Date,
+    required: true
+  },
+  // Set for round trips
+  returnDate: Date,
+  passengers: {
+    adults: { type: Number, default: 1, min: 1 },
+    children: { type: Number, default: 0, min: 0 },
+    infants: { type: Number, default: 0, min: 0 }
+  },
+  cabin: {
+    type: String,
+    enum: ["e", "p", "b", "f"],
+    default: "e"
+  },
+  direct: {
+    type: Boolean,
+    default: false
+  },
+  // Target total for all passengers, in USD like Seeru fares
+  targetPrice: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  currency: {
+    type: String,
+    default: "USD"
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  lastCheckedAt: Date,
+  // Searches that failed in a row, reset by the next successful one
+  consecutiveFailures: {
+    type: Number,
+    default: 0
+  },
+  lastError: String,
+  lastPrice: Number,
+  lowestPrice: Number,
+  lastNotifiedAt: Date,
+  lastNotifiedPrice: Number
+}, { timestamps: true });
+
+PriceAlertSchema.index({ active: 1, lastCheckedAt: 1 });
+
+module.exports = mongoose.model("PriceAlert", PriceAlertSchema);
@@ -0,0 +1,73 @@
+const mongoose = require("mongoose");
+
+const upperCodes = (codes) => (codes || []).map(code => String(code).trim().toUpperCase()).filter(Boolean);
+
+// Markup or service fee added on top of the supplier fare. Empty scope lists match everything;
+// among the rules that match a fare, the highest priority of each kind applies (see pricingService)
+const PricingRuleSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, "Please add a rule name"],
+    trim: true
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  kind: {
+    type: String,
+    enum: ["markup", "service_fee"],
+    default: "markup"
+  },
+  // fixed: USD per passenger; percentage: of the supplier fare per passenger
+  calculation: {
+    type: String,
+    enum: ["fixed", "percentage"],
+    default: "percentage"
+  },
+  value: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  priority: {
+    type: Number,
+    default: 0
+  },
+  // Scope
+  airlines: {
+    type: [String],
+    default: [],
+    set: upperCodes
+  },
+  origins: {
+    type: [String],
+    default: [],
+    set: upperCodes
+  },
+  destinations: {
+    type: [String],
+    default: [],
+    set: upperCodes
+  },
+  cabins: [{
+    type: String,
+    enum: ["e", "p", "b", "f"]
+  }],
+  passengerTypes: [{
+    type: String,
+    enum: ["ADT", "CHD", "INF"]
+  }],
+  // Departure dates the rule covers
+  departureFrom: Date,
+  departureTo: Date,
+  // When the rule is in effect for new searches and bookings
+  validFrom: Date,
+  validTo: Date,
+  createdBy: String,
+  updatedBy: String
+}, { timestamps: true });
+
+PricingRuleSchema.index({ active: 1, kind: 1, priority: -1 });
+
+module.exports = mongoose.model("PricingRule", PricingRuleSchema);
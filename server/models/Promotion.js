@@ -0,0 +1,83 @@
+const mongoose = require("mongoose");
+
+const upperCodes = (codes) => (codes || []).map(code => String(code).trim().toUpperCase()).filter(Boolean);
+
+// Promo code customers enter at checkout. Empty restriction lists match every booking;
+// redemptionCount includes uses reserved by payments still in progress (see promotionService)
+const PromotionSchema = new mongoose.Schema({
+  code: {
+    type: String,
+    required: [true, "Please add a promo code"],
+    unique: true,
+    trim: true,
+    uppercase: true,
+    match: [/^[A-Z0-9_-]{3,32}$/, "Promo codes are 3-32 letters, digits, dashes or underscores"]
+  },
+  description: {
+    type: String,
+    trim: true
+  },
+  active: {
+    type: Boolean,
+    default: true
+  },
+  // percentage: of each booking total; fixed: USD off the whole payment
+  discountType: {
+    type: String,
+    enum: ["percentage", "fixed"],
+    default: "percentage"
+  },
+  value: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  // Upper bound for percentage discounts (USD per booking)
+  maxDiscount: {
+    type: Number,
+    min: 0
+  },
+  // Booking total (USD) needed for the code to apply
+  minAmount: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  validFrom: Date,
+  validTo: Date,
+  // Total redemptions allowed across all customers; empty means unlimited
+  maxRedemptions: {
+    type: Number,
+    min: 1
+  },
+  // Redemptions allowed per customer; empty means unlimited
+  perUserLimit: {
+    type: Number,
+    min: 1,
+    default: 1
+  },
+  redemptionCount: {
+    type: Number,
+    default: 0
+  },
+  // Restrictions
+  airlines: {
+    type: [String],
+    default: [],
+    set: upperCodes
+  },
+  origins: {
+    type: [String],
+    default: [],
+    set: upperCodes
+  },
+  destinations: {
+    type: [String],
+    default: [],
+    set: upperCodes
+  },
+  createdBy: String,
+  updatedBy: String
+}, { timestamps: true });
+
+module.exports = mongoose.model("Promotion", PromotionSchema);
@@ -1,6 +1,41 @@
 const mongoose = require("mongoose");
+const { ROLES } = require("../utils/permissions");
 const bcrypt = require('bcryptjs');
 
+// Saved traveller used to prefill passenger forms at checkout
+const TravellerSchema = new mongoose.Schema({
+  firstName: {
+    type: String,
+    required: [true, "Please add a first name"],
+    trim: true,
+  },
+  lastName: {
+    type: String,
+    required: [true, "Please add a last name"],
+    trim: true,
+  },
+  gender: {
+    type: String,
+    enum: ["M", "F", ""],
+    default: "",
+  },
+  dob: Date,
+  passportNumber: {
+    type: String,
+    trim: true,
+  },
+  passportIssueDate: Date,
+  passportExpiryDate: Date,
+  passportCountry: String,
+  nationality: String,
+  phone: String,
+  email: {
+    type: String,
+    lowercase: true,
+    trim: true,
+  },
+}, { timestamps: true });
+
 const UserSchema = new mongoose.Schema({
   name: {
     type: String,
@@ -40,7 +75,7 @@ const UserSchema = new mongoose.Schema({
   },
   role: {
     type: String,
-    enum: ["user", "admin"],
+    enum: ROLES,
     default: "user",
   },
   status: {
@@ -51,6 +86,11 @@ const UserSchema = new mongoose.Schema({
   wishlist: [{
     type: String
   }],
+  // Passport data: only loaded by the saved traveller endpoints
+  travellers: {
+    type: [TravellerSchema],
+    select: false,
+  },
   createdAt: {
     type: Date,
     default: Date.now,
@@ -0,0 +1,61 @@
+const mongoose = require("mongoose");
+
+// Every webhook delivery received from a supplier, kept for dedup, retries and replay
+const WebhookEventSchema = new mongoose.Schema({
+  provider: {
+    type: String,
+    enum: ["seeru"],
+    default: "seeru"
+  },
+  event: {
+    type: String,
+    required: true
+  },
+  orderId: {
+    type: String,
+    required: true,
+    index: true
+  },
+  // provider:order_id:event - one record per supplier event
+  dedupeKey: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  payload: {
+    type: mongoose.Schema.Types.Mixed,
+    required: true
+  },
+  signatureValid: {
+    type: Boolean,
+    default: false
+  },
+  status: {
+    type: String,
+    enum: [
+      "received",
+      "processing",
+      "processed",
+      "failed", // handler failed; retried while nextAttemptAt is set
+      "dead" // gave up after the last retry or the event can never apply
+    ],
+    default: "received"
+  },
+  attempts: {
+    type: Number,
+    default: 0
+  },
+  deliveries: {
+    type: Number,
+    default: 1
+  },
+  lastError: String,
+  nextAttemptAt: Date,
+  processedAt: Date,
+  lastReplayedBy: String
+}, { timestamps: true });
+
+WebhookEventSchema.index({ status: 1, nextAttemptAt: 1 });
+WebhookEventSchema.index({ createdAt: -1 });
+
+module.exports = mongoose.model("WebhookEvent", WebhookEventSchema);
@@ -29,54 +29,72 @@ const {
     getAdminSettings,
     updateAdminSettings
 } = require("../controllers/adminController");
+const { getWebhookEvents, replayWebhookEvent } = require("../controllers/webhookController");
+const { getSupplierOrderState, runSupplierAction } = require("../controllers/seeruController");
+const { getAuditLogs, exportAuditLogs, verifyAuditLogs } = require("../controllers/auditController");
+const {
+    getPricingRules,
+    createPricingRule,
+    updatePricingRule,
+    deletePricingRule,
+    previewPricing
+} = require("../controllers/pricingRuleController");
+const {
+    getPromotions,
+    createPromotion,
+    updatePromotion,
+    deletePromotion
+} = require("../controllers/promotionController");
 
 const { protect, authorize } = require("../middleware/auth");
+const { STAFF_ROLES } = require("../utils/permissions");
 const upload = require("../middleware/upload"); // Import upload middleware
 
 const router = express.Router();
 
-// All routes below are protected and require admin role
+// All routes below are protected and require a staff role; each route then
+// checks the permission it needs (see utils/permissions)
 router.use(protect);
-router.use(authorize("admin"));
+router.use(authorize(...STAFF_ROLES));
 
 // Dashboard & Reports
-router.get("/stats", getDashboardStats);
-router.get("/reports", getReports);
-router.get("/reports/download", downloadReport);
+router.get("/stats", authorize("dashboard:view"), getDashboardStats);
+router.get("/reports", authorize("reports:view"), getReports);
+router.get("/reports/download", authorize("reports:view"), downloadReport);
 
 // Booking Management
 router.route("/bookings")
-    .get(getAllBookings);
+    .get(authorize("bookings:view"), getAllBookings);
 router.route("/bookings/:id")
-    .get(getBookingById)
+    .get(authorize("bookings:view"), getBookingById)
     // Use upload middleware for the PUT request to handle potential ticket PDF upload
     // It expects the file field name to be 'ticketPdf'
-    .put(upload.single("ticketPdf"), updateBooking) 
-    .delete(deleteBooking);
-router.post("/bookings/:id/send-ticket", sendTicket);
+    .put(authorize("bookings:manage"), upload.single("ticketPdf"), updateBooking) 
+    .delete(authorize("bookings:delete"), deleteBooking);
+router.post("/bookings/:id/send-ticket", authorize("bookings:manage"), sendTicket);
 
 // User Management
 router.route("/users")
-    .get(getAllUsers)
-    .post(createUser);
+    .get(authorize("users:view"), getAllUsers)
+    .post(authorize("users:manage"), createUser);
 router.route("/users/:id")
-    .get(getUserById)
-    .put(updateUser)
-    .delete(deleteUser);
+    .get(authorize("users:view"), getUserById)
+    .put(authorize("users:manage"), updateUser)
+    .delete(authorize("users:delete"), deleteUser);
 
 // Destination Management (CRUD operations)
 router.route("/destinations")
     // Use upload middleware for POST request to handle potential destination image upload
     // Temporarily accept any file field (destinationImage or image) to diagnose client/server mismatch
-    .post(upload.any(), createDestination); 
+    .post(authorize("destinations:manage"), upload.any(), createDestination); 
 router.route("/destinations/:id")
     // Use upload middleware for PUT request to handle potential destination image upload
-    .put(upload.any(), updateDestination)
-    .delete(deleteDestination); 
+    .put(authorize("destinations:manage"), upload.any(), updateDestination)
+    .delete(authorize("destinations:manage"), deleteDestination); 
 
 // Newsletter Management
-router.get("/newsletter/subscribers", getSubscribers);
-router.post("/newsletter/send", sendNewsletter);
+router.get("/newsletter/subscribers", authorize("newsletter:send"), getSubscribers);
+router.post("/newsletter/send", authorize("newsletter:send"), sendNewsletter);
 
 // Admin Profile Management
 router.route("/profile")
@@ -85,26 +103,57 @@ router.route("/profile")
 
 // Flight Booking Management
 router.route("/flight-bookings")
-    .get(getAllFlightBookings);
+    .get(authorize("bookings:view"), getAllFlightBookings);
 
 router.route("/flight-bookings/:bookingId")
-    .get(getFlightBookingById)
-    .put(updateFlightBooking);
+    .get(authorize("bookings:view"), getFlightBookingById)
+    .put(authorize("bookings:manage"), updateFlightBooking);
 
 // Allow admin deletion of flight bookings
-router.route('/flight-bookings/:bookingId').delete(deleteFlightBooking);
+router.route('/flight-bookings/:bookingId').delete(authorize("bookings:delete"), deleteFlightBooking);
 
 router.post(
     "/flight-bookings/:bookingId/upload-ticket",
+    authorize("bookings:manage"),
     upload.single("ticketFile"),
     uploadFlightTicket
 );
 
-router.post("/flight-bookings/:bookingId/send-ticket", sendFlightTicket);
+router.post("/flight-bookings/:bookingId/send-ticket", authorize("bookings:manage"), sendFlightTicket);
+
+// Seeru order console
+router.get("/flight-bookings/:bookingId/supplier", authorize("bookings:view"), getSupplierOrderState);
+router.post("/flight-bookings/:bookingId/supplier/:action", authorize("supplier:manage"), runSupplierAction);
+
+// Supplier webhook log
+router.get("/webhook-events", authorize("webhooks:view"), getWebhookEvents);
+router.post("/webhook-events/:id/replay", authorize("webhooks:replay"), replayWebhookEvent);
+
+// Pricing rules (markups and service fees)
+router.route("/pricing-rules")
+    .get(authorize("pricing:manage"), getPricingRules)
+    .post(authorize("pricing:manage"), createPricingRule);
+router.post("/pricing-rules/preview", authorize("pricing:manage"), previewPricing);
+router.route("/pricing-rules/:id")
+    .put(authorize("pricing:manage"), updatePricingRule)
+    .delete(authorize("pricing:manage"), deletePricingRule);
+
+// Promo codes
+router.route("/promotions")
+    .get(authorize("promotions:manage"), getPromotions)
+    .post(authorize("promotions:manage"), createPromotion);
+router.route("/promotions/:id")
+    .put(authorize("promotions:manage"), updatePromotion)
+    .delete(authorize("promotions:manage"), deletePromotion);
+
+// Audit log
+router.get("/audit-logs", authorize("audit:view"), getAuditLogs);
+router.get("/audit-logs/export", authorize("audit:view"), exportAuditLogs);
+router.get("/audit-logs/verify", authorize("audit:view"), verifyAuditLogs);
 
 // Settings Management
 router.route("/settings")
-    .get(getAdminSettings)
-    .put(updateAdminSettings);
+    .get(authorize("settings:view"), getAdminSettings)
+    .put(authorize("settings:manage"), updateAdminSettings);
 
 module.exports = router;
@@ -3,9 +3,13 @@ const {
   createBooking,
   getMyBookings,
   getTicketUrl,
+  getItinerary,
   deleteBooking,
   updateBooking,
-  savePassengersAndProcessSeeru
+  savePassengersAndProcessSeeru,
+  holdBooking,
+  checkBookingFare,
+  acceptBookingFare
 } = require("../controllers/bookingController");
 const { protect } = require("../middleware/auth");
 
@@ -20,9 +24,19 @@ router.route("/my").get(getMyBookings);
 // Return a usable URL for an uploaded ticket (public or signed)
 router.route('/:id/ticket-url').get(getTicketUrl);
 
+// Itinerary/receipt PDF, generated from the booking once it is issued
+router.route('/:id/itinerary').get(getItinerary);
+
 // Save passenger details and trigger Seeru booking
 router.route('/:id/save-passengers').post(savePassengersAndProcessSeeru);
 
+// Hold a fare that allows it and pay later
+router.route('/:id/hold').post(holdBooking);
+
+// Re-check the fare right before payment; a changed fare must be accepted
+router.route('/:id/fare-check').post(checkBookingFare);
+router.route('/:id/fare-check/accept').post(acceptBookingFare);
+
 // Allow users to delete or update their own bookings
 router.route('/:id').delete(deleteBooking).patch(updateBooking);
 
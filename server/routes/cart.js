@@ -2,10 +2,10 @@ const express = require("express");
 const {
   getCartItems,
   removeFromCart,
-  checkout,
-  addFlightToCart
+  addFlightToCart,
+  saveCartPassengers
 } = require("../controllers/cartController");
-const { protect, optionalAuth } = require("../middleware/auth");
+const { optionalAuth } = require("../middleware/auth");
 
 const router = express.Router();
 
@@ -17,8 +17,9 @@ router.route("/")
 router.route("/:id")
   .delete(optionalAuth, removeFromCart);
 
-// Checkout requires authentication
-router.route("/checkout")
-  .post(protect, checkout);
+router.route("/:id/passengers")
+  .post(optionalAuth, saveCartPassengers);
+
+// Cart checkout is paid through POST /api/payment/checkout, which confirms bookings once the payment completes
 
 module.exports = router;
@@ -13,7 +13,7 @@ router.post("/", createContactMessage);
 
 // Admin routes
 router.use(protect);
-router.use(authorize("admin"));
+router.use(authorize("support:manage"));
 
 router.route("/admin")
   .get(getAllContactMessages);
@@ -0,0 +1,14 @@
+const express = require('express');
+const { getCurrencyRates, getCurrencyRateEntries, updateCurrencyRates } = require('../controllers/currencyController');
+const { protect, authorize } = require('../middleware/auth');
+
+const router = express.Router();
+
+// Public read of the rates in force
+router.get('/rates', getCurrencyRates);
+
+// Admin management of dated rate entries
+router.get('/rates/history', protect, authorize('currency:manage'), getCurrencyRateEntries);
+router.put('/rates', protect, authorize('currency:manage'), updateCurrencyRates);
+
+module.exports = router;
@@ -21,16 +21,16 @@ router
   .get(getDestinations)
   // allow single file upload named 'image'
   // NOTE: use upload.any() temporarily to diagnose unexpected field issues
-  .post(protect, authorize('admin'), upload.any(), createDestination);
+  .post(protect, authorize('destinations:manage'), upload.any(), createDestination);
 
 router
   .route('/:id')
   .get(getDestination)
-  .put(protect, authorize('admin'), upload.any(), authorize('admin'), updateDestination)
-  .delete(protect, authorize('admin'), deleteDestination);
+  .put(protect, authorize('destinations:manage'), upload.any(), authorize('destinations:manage'), updateDestination)
+  .delete(protect, authorize('destinations:manage'), deleteDestination);
 
 router
   .route('/:id/popular')
-  .patch(protect, authorize('admin'), updateDestinationPopular);
+  .patch(protect, authorize('destinations:manage'), updateDestinationPopular);
 
 module.exports = router;
@@ -6,15 +6,19 @@ const {
   markAllAsRead,
   createNotification,
   sendNotification,
-  getNotificationsByUserId
+  getNotificationsByUserId,
+  streamNotifications
 } = require('../controllers/notificationController');
 const { protect, authorize } = require('../middleware/auth');
 
 // All routes require authentication
 router.use(protect);
 
-// Admin-only send endpoint (multipart/form-data)
-router.post('/send', authorize('admin'), sendNotification);
+// Staff send endpoint (multipart/form-data)
+router.post('/send', authorize('notifications:send'), sendNotification);
+
+// Live stream of new notifications (Server-Sent Events)
+router.get('/stream', streamNotifications);
 
 // Get notifications for a specific userId (user can fetch own, admin can fetch any)
 router.get('/:userId', getNotificationsByUserId);
@@ -1,10 +1,23 @@
 const express = require("express");
-const { handlePaymentCallback, initiatePayment } = require("../controllers/paymentController");
+const {
+  handlePaymentCallback,
+  initiatePayment,
+  checkoutOrder,
+  getOrder,
+  getOrders,
+  completeOrderRefunds
+} = require("../controllers/paymentController");
+const { protect, authorize } = require("../middleware/auth");
 
 const router = express.Router();
 
 router.post("/callback", handlePaymentCallback);
 router.get("/callback", handlePaymentCallback);
-router.post("/initiate", initiatePayment);
+router.post("/initiate", protect, initiatePayment);
+router.post("/checkout", protect, checkoutOrder);
 
-module.exports = router;
\ No newline at end of file
+router.get("/orders", protect, authorize("bookings:view"), getOrders);
+router.get("/orders/:orderRef", protect, getOrder);
+router.put("/orders/:orderRef/refunds", protect, authorize("payments:refund"), completeOrderRefunds);
+
+module.exports = router;
@@ -0,0 +1,23 @@
+const express = require('express');
+const {
+  getMyPriceAlerts,
+  createPriceAlert,
+  updatePriceAlert,
+  deletePriceAlert
+} = require('../controllers/priceAlertController');
+const { protect } = require('../middleware/auth');
+
+const router = express.Router();
+
+// All routes require authentication
+router.use(protect);
+
+router.route('/')
+  .get(getMyPriceAlerts)
+  .post(createPriceAlert);
+
+router.route('/:id')
+  .put(updatePriceAlert)
+  .delete(deletePriceAlert);
+
+module.exports = router;
@@ -0,0 +1,9 @@
+const express = require('express');
+const { validatePromotion } = require('../controllers/promotionController');
+const { protect } = require('../middleware/auth');
+
+const router = express.Router();
+
+router.post('/validate', protect, validatePromotion);
+
+module.exports = router;
@@ -11,9 +11,12 @@ const {
   retrieveTicketFromSeeru,
   refundTicketWithSeeru,
   voidTicketWithSeeru,
-  exchangeTicketWithSeeru
+  exchangeTicketWithSeeru,
+  getTicketChangeOptions
 } = require('../controllers/seeruController');
 const { protect } = require('../middleware/auth');
+const rateLimit = require('../middleware/rateLimit');
+const { setBookingStatus, setPaymentStatus, setSupplierStatus } = require('../utils/bookingStateMachine');
 
 const router = express.Router();
 
@@ -81,8 +84,8 @@ router.post('/test/simulate-payment/:bookingId', async (req, res) => {
     });
 
     // Simulate payment completion
-    booking.status = 'confirmed';
-    booking.paymentStatus = 'completed';
+    setPaymentStatus(booking, 'completed', { notes: 'Test payment' });
+    setBookingStatus(booking, 'confirmed', { notes: 'Test payment' });
     booking.paymentDetails = {
       status: 'completed',
       currency: 'SYP',
@@ -102,8 +105,8 @@ router.post('/test/simulate-payment/:bookingId', async (req, res) => {
 
       if (result.success) {
         console.log('✅ TEST: Ticket issued successfully');
-        booking.seeruStatus = 'issued';
-        booking.status = 'issued';
+        setSupplierStatus(booking, 'issued');
+        setBookingStatus(booking, 'issued');
         booking.ticketDetails = {
           ticketNumber: result.ticketNumber,
           pnr: result.pnr,
@@ -112,7 +115,7 @@ router.post('/test/simulate-payment/:bookingId', async (req, res) => {
         booking.seeruIssuedAt = result.issuedAt;
       } else {
         console.error('❌ TEST: Failed to issue ticket:', result.error);
-        booking.seeruStatus = 'issue_failed';
+        setSupplierStatus(booking, 'failed', { notes: `Ticket issuance failed: ${result.error}` });
         booking.seeruError = result.error;
       }
     } else {
@@ -143,7 +146,17 @@ router.post('/test/simulate-payment/:bookingId', async (req, res) => {
   }
 });
 
-// All routes require authentication
+// ===== PUBLIC BOOKING LOOKUP =====
+// Retrieve ticket by airline PNR and last name ("Find my booking" for guests).
+// PNR + last name is the only credential, so lookups are throttled per client.
+const retrieveTicketLimiter = rateLimit({
+  windowMs: 15 * 60 * 1000,
+  max: 10,
+  message: 'Too many booking lookups. Please try again in a few minutes.'
+});
+router.post('/retrieve-ticket', retrieveTicketLimiter, retrieveTicketFromSeeru);
+
+// All routes below require authentication
 router.use(protect);
 
 // ===== BOOKING OPERATIONS =====
@@ -202,7 +215,7 @@ router.post('/retry-ticket/:bookingId', async (req, res) => {
     const result = await issueOrder(booking.seeruOrderId);
 
     if (result.success) {
-      booking.seeruStatus = 'issued';
+      setSupplierStatus(booking, 'issued', { notes: 'Ticket issuance retried' });
       booking.seeruError = null;
       await booking.save();
 
@@ -271,8 +284,8 @@ router.post('/manual-issue/:bookingId', async (req, res) => {
 // Get ticket details by ticket ID
 router.post('/ticket-details', getTicketDetailsFromSeeru);
 
-// Retrieve ticket by PNR and last name
-router.post('/retrieve-ticket', retrieveTicketFromSeeru);
+// Self-service change options (flags, ticket ID and fee preview) for a booking
+router.get('/ticket-options/:bookingId', getTicketChangeOptions);
 
 // Refund ticket
 router.post('/refund-ticket', refundTicketWithSeeru);
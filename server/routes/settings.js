@@ -7,7 +7,7 @@ const router = express.Router();
 // Public read
 router.get('/:key', getSetting);
 
-// Admin upsert
-router.put('/:key', protect, authorize('admin'), upsertSetting);
+// Admin upsert (integration toggles such as seeruTravelEnabled)
+router.put('/:key', protect, authorize('settings:manage'), upsertSetting);
 
 module.exports = router;
@@ -22,7 +22,7 @@ router.post('/', async (req, res) => {
 
 // Admin: list all support messages (protected + admin only)
 router.use(protect);
-router.use(authorize('admin'));
+router.use(authorize('support:manage'));
 
 router.get('/', async (req, res) => {
   // Placeholder: respond with empty list
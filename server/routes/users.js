@@ -5,7 +5,11 @@ const {
   getUserWishlist,
   addToWishlist,
   removeFromWishlist,
-  changePassword
+  changePassword,
+  getTravellers,
+  addTraveller,
+  updateTraveller,
+  deleteTraveller
 } = require('../controllers/users');
 const { protect } = require('../middleware/auth');
 
@@ -22,6 +26,12 @@ router.get('/:id/wishlist', getUserWishlist);
 router.post('/:id/wishlist', addToWishlist);
 router.delete('/:id/wishlist/:itemId', removeFromWishlist);
 
+// Saved traveller routes
+router.get('/:id/travellers', getTravellers);
+router.post('/:id/travellers', addTraveller);
+router.put('/:id/travellers/:travellerId', updateTraveller);
+router.delete('/:id/travellers/:travellerId', deleteTraveller);
+
 // User profile routes - more generic routes last
 router.get('/:id', getUserProfile);
 router.put('/:id', updateUserProfile);
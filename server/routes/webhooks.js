@@ -6,7 +6,7 @@ const router = express.Router();
 /**
  * Seeru webhook endpoint
  * This endpoint receives notifications from Seeru Travel API
- * No authentication required (but should validate webhook signature in production)
+ * Requests are authenticated by the HMAC signature in X-Seeru-Signature
  */
 router.post('/seeru', handleSeeruWebhook);
 
@@ -9,13 +9,12 @@ const FlightBooking = require('../models/FlightBooking');
 const { 
   checkFareValidity, 
   saveBooking, 
-  issueOrder 
-} = require('../utils/seeruAPI');
-const {
+  issueOrder,
   transformBookingToSeeru,
   transformPassengersToSeeru,
   transformContactToSeeru
-} = require('../utils/seeruBookingHelper');
+} = require('../utils/seeruAPI');
+const { canTransition, setBookingStatus, setSupplierStatus } = require('../utils/bookingStateMachine');
 
 const MONGODB_URI = process.env.MONGODB_URI || 'mongodb://localhost:27017/test';
 
@@ -45,6 +44,13 @@ async function retryFailedBooking(bookingId) {
       process.exit(1);
     }
 
+    // Check the booking can still move on: saved first when there is no Seeru order yet, then issued
+    const nextSupplierStatus = booking.seeruOrderId ? 'issued' : 'saved';
+    if (!canTransition('seeruStatus', booking.seeruStatus, nextSupplierStatus) || !canTransition('status', booking.status, 'issued')) {
+      console.error(`❌ Booking is ${booking.status} (supplier status ${booking.seeruStatus}). Cannot issue ticket.`);
+      process.exit(1);
+    }
+
     // If no Seeru order, process from scratch
     if (!booking.seeruOrderId) {
       console.log('\n📝 No Seeru order found. Processing from scratch...\n');
@@ -73,7 +79,7 @@ async function retryFailedBooking(bookingId) {
       console.log('✅ Booking saved. Order ID:', saveResult.orderId);
 
       booking.seeruOrderId = saveResult.orderId;
-      booking.seeruStatus = 'saved';
+      setSupplierStatus(booking, 'saved', { notes: `Saved with Seeru by the retry script (order ${saveResult.orderId})` });
       booking.seeruValidated = true;
       await booking.save();
     }
@@ -91,8 +97,16 @@ async function retryFailedBooking(bookingId) {
     console.log(`   Order ID: ${booking.seeruOrderId}`);
 
     // Update booking
-    booking.seeruStatus = 'issued';
+    setSupplierStatus(booking, 'issued');
+    setBookingStatus(booking, 'issued', { notes: 'Ticket issued by the retry script' });
     booking.seeruError = null;
+    booking.seeruIssuedAt = issueResult.issuedAt || new Date();
+    if (!booking.ticketDetails) {
+      booking.ticketDetails = {};
+    }
+    booking.ticketDetails.ticketNumber = issueResult.ticketNumber;
+    booking.ticketDetails.pnr = issueResult.pnr;
+    booking.ticketDetails.eTicketPath = issueResult.ticketUrl;
     await booking.save();
 
     console.log('\n✅ Booking updated successfully!\n');
@@ -24,6 +24,7 @@ const bookingRoutes = require("./routes/bookings");
 const newsletterRoutes = require("./routes/newsletter");
 const adminRoutes = require("./routes/admin");
 const settingsRoutes = require("./routes/settings");
+const currencyRoutes = require("./routes/currency");
 const adminController = require("./controllers/adminController");
 const cartRoutes = require("./routes/cart");
 const userRoutes = require("./routes/users");
@@ -36,12 +37,23 @@ const supportRoutes = require('./routes/support');
 const storageRoutes = require('./routes/storage');
 const seeruRoutes = require('./routes/seeru');
 const webhookRoutes = require('./routes/webhooks');
+const priceAlertRoutes = require('./routes/priceAlerts');
+const promotionRoutes = require('./routes/promotions');
 const { startTicketIssuanceMonitor } = require('./services/ticketIssuanceService');
+const { startPriceAlertMonitor } = require('./services/priceAlertService');
+const { startFareHoldMonitor } = require('./services/fareHoldService');
+const { startWebhookRetryMonitor } = require('./services/webhookEventService');
 
 const app = express();
 
-// Body parser middleware
-app.use(express.json());
+// Body parser middleware; webhook signatures are checked against the exact raw body
+app.use(express.json({
+  verify: (req, res, buf) => {
+    if (req.originalUrl.startsWith('/api/webhooks')) {
+      req.rawBody = buf;
+    }
+  }
+}));
 
 app.use(express.urlencoded({ extended: true }));
 
@@ -149,6 +161,7 @@ app.use("/api/bookings", bookingRoutes);
 app.use("/api/newsletter", newsletterRoutes);
 app.use("/api/admin", adminRoutes);
 app.use('/api/settings', settingsRoutes);
+app.use('/api/currency', currencyRoutes);
 app.use('/api/seeru', seeruRoutes);
 app.use('/api/webhooks', webhookRoutes);
 
@@ -174,6 +187,8 @@ app.use('/api/flights', flightRoutes);
 app.use('/api/contact', contactRoutes);
 app.use('/api/support', supportRoutes);
 app.use('/api/storage', storageRoutes);
+app.use('/api/price-alerts', priceAlertRoutes);
+app.use('/api/promotions', promotionRoutes);
 
 // Serve static files from the uploads directory
 app.use("/uploads", express.static(path.join(__dirname, "uploads")));
@@ -196,9 +211,12 @@ if (!process.env.VERCEL) {
     console.log(`Listening on ${HOST}:${PORT}`);
     console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
     
-    // Start ticket issuance monitor
+    // Start background monitors
     if (process.env.MONGODB_URI) {
       startTicketIssuanceMonitor();
+      startPriceAlertMonitor();
+      startFareHoldMonitor();
+      startWebhookRetryMonitor();
     }
   });
 
@@ -0,0 +1,214 @@
+/**
+ * Audit Log Service
+ * Records who changed what from the admin area. Entries are append-only and
+ * hash-chained: each one stores the HMAC of its own content plus the hash of
+ * the entry before it, so editing, removing or reordering any entry is
+ * detected by verifyAuditChain().
+ */
+
+const crypto = require('crypto');
+const AuditLog = require('../models/AuditLog');
+
+const GENESIS_HASH = '0'.repeat(64);
+const MAX_DIFF_DEPTH = 3;
+const MAX_VALUE_LENGTH = 2000;
+const APPEND_ATTEMPTS = 3;
+const IGNORED_KEYS = new Set(['__v', 'updatedAt', 'password']);
+const SENSITIVE_KEY_PATTERN = /secret|password|token|passport|document/i;
+
+// Appends are serialised within this process so each entry links to the previous one
+let appendQueue = Promise.resolve();
+
+function getChainKey() {
+  return process.env.AUDIT_LOG_SECRET || process.env.JWT_SECRET || '';
+}
+
+// Plain JSON copy: ObjectIds and Dates become strings, undefined fields drop out
+function toPlain(value) {
+  if (value === undefined || value === null) return null;
+  const source = typeof value.toObject === 'function' ? value.toObject({ depopulate: true }) : value;
+  return JSON.parse(JSON.stringify(source));
+}
+
+function isPlainObject(value) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+// Flatten nested objects into dotted paths; arrays and deeper objects are compared whole
+function flatten(value, prefix = '', depth = 0, out = {}) {
+  if (!isPlainObject(value)) {
+    if (prefix) out[prefix] = value;
+    return out;
+  }
+  for (const [key, child] of Object.entries(value)) {
+    if (IGNORED_KEYS.has(key)) continue;
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isPlainObject(child) && depth < MAX_DIFF_DEPTH) {
+      flatten(child, path, depth + 1, out);
+    } else {
+      out[path] = child;
+    }
+  }
+  return out;
+}
+
+// Arrays and deep objects are stored whole, so sensitive keys inside them are redacted too
+function redactNested(value) {
+  if (Array.isArray(value)) return value.map(redactNested);
+  if (!isPlainObject(value)) return value;
+  return Object.fromEntries(Object.entries(value).map(([key, child]) => (
+    [key, SENSITIVE_KEY_PATTERN.test(key) && child !== null && child !== undefined ? '[redacted]' : redactNested(child)]
+  )));
+}
+
+function redactValue(path, value) {
+  if (value === null || value === undefined) return null;
+  if (SENSITIVE_KEY_PATTERN.test(path)) return '[redacted]';
+  value = redactNested(value);
+  const json = JSON.stringify(value);
+  if (json.length > MAX_VALUE_LENGTH) return `[${json.length} characters omitted]`;
+  return value;
+}
+
+/**
+ * Field-level differences between two snapshots
+ * @param {Object|null} before - State before the action (null when created)
+ * @param {Object|null} after - State after the action (null when deleted)
+ * @returns {Array<{ path: string, before: *, after: * }>}
+ */
+function diffSnapshots(before, after) {
+  const beforePaths = flatten(toPlain(before));
+  const afterPaths = flatten(toPlain(after));
+  const paths = [...new Set([...Object.keys(beforePaths), ...Object.keys(afterPaths)])].sort();
+
+  return paths
+    .filter(path => JSON.stringify(beforePaths[path] ?? null) !== JSON.stringify(afterPaths[path] ?? null))
+    .map(path => ({
+      path,
+      before: redactValue(path, beforePaths[path]),
+      after: redactValue(path, afterPaths[path])
+    }));
+}
+
+// Stable JSON with sorted keys, so a stored entry hashes the same when read back
+function canonicalJson(value) {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (isPlainObject(value)) {
+    return `{${Object.keys(value).sort().map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+function hashEntry(entry) {
+  const content = {
+    seq: entry.seq,
+    at: new Date(entry.at).toISOString(),
+    actor: {
+      id: entry.actor?.id ? String(entry.actor.id) : null,
+      name: entry.actor?.name ?? null,
+      email: entry.actor?.email ?? null,
+      role: entry.actor?.role ?? null
+    },
+    action: entry.action,
+    target: { type: entry.target?.type ?? null, id: entry.target?.id ?? null },
+    changes: (entry.changes || []).map(change => ({
+      path: change.path,
+      before: change.before ?? null,
+      after: change.after ?? null
+    })),
+    ip: entry.ip ?? null,
+    userAgent: entry.userAgent ?? null,
+    prevHash: entry.prevHash
+  };
+  return crypto.createHmac('sha256', getChainKey()).update(canonicalJson(content)).digest('hex');
+}
+
+async function appendEntry(fields) {
+  for (let attempt = 1; attempt <= APPEND_ATTEMPTS; attempt += 1) {
+    const last = await AuditLog.findOne().sort({ seq: -1 }).select('seq hash').lean();
+    const entry = {
+      ...fields,
+      at: new Date(),
+      seq: last ? last.seq + 1 : 1,
+      prevHash: last ? last.hash : GENESIS_HASH
+    };
+    entry.hash = hashEntry(entry);
+
+    try {
+      return await AuditLog.create(entry);
+    } catch (error) {
+      // Another server instance appended the same seq first; link to its entry instead
+      if (error.code !== 11000 || attempt === APPEND_ATTEMPTS) throw error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Record a staff action. Never throws: a failed audit write is logged and
+ * must not undo an action that already happened.
+ * @param {Object} req - Express request of the acting user (actor, IP, user agent)
+ * @param {Object} details
+ * @param {string} details.action - e.g. "flightBooking.update"
+ * @param {string} details.targetType - e.g. "FlightBooking"
+ * @param {string} [details.targetId] - Business or database id of the target
+ * @param {Object|null} [details.before] - Snapshot before the change
+ * @param {Object|null} [details.after] - Snapshot after the change
+ * @returns {Promise<Object|null>} The stored entry, or null when it could not be written
+ */
+function recordAudit(req, { action, targetType, targetId, before = null, after = null }) {
+  const fields = {
+    actor: req.user ? {
+      id: req.user._id,
+      name: req.user.name,
+      email: req.user.email,
+      role: req.user.role
+    } : {},
+    action,
+    target: { type: targetType, id: targetId != null ? String(targetId) : null },
+    changes: diffSnapshots(before, after),
+    ip: req.ip || null,
+    userAgent: (req.get && req.get('user-agent')) || null
+  };
+
+  const write = appendQueue.then(() => appendEntry(fields));
+  appendQueue = write.catch(() => {});
+  return write.catch(error => {
+    console.error(`Failed to write audit entry for ${action}:`, error);
+    return null;
+  });
+}
+
+/**
+ * Walk the whole chain and report the first entry that does not verify
+ * @returns {Promise<{ valid: boolean, checked: number, brokenAt?: number, reason?: string }>}
+ */
+async function verifyAuditChain() {
+  let expectedSeq = 1;
+  let prevHash = GENESIS_HASH;
+  let checked = 0;
+
+  const cursor = AuditLog.find().sort({ seq: 1 }).lean().cursor();
+  for await (const entry of cursor) {
+    if (entry.seq !== expectedSeq) {
+      return { valid: false, checked, brokenAt: expectedSeq, reason: `Entry ${expectedSeq} is missing` };
+    }
+    if (entry.prevHash !== prevHash) {
+      return { valid: false, checked, brokenAt: entry.seq, reason: 'Link to the previous entry does not match' };
+    }
+    if (hashEntry(entry) !== entry.hash) {
+      return { valid: false, checked, brokenAt: entry.seq, reason: 'Entry content was modified' };
+    }
+    prevHash = entry.hash;
+    expectedSeq += 1;
+    checked += 1;
+  }
+
+  return { valid: true, checked };
+}
+
+module.exports = {
+  recordAudit,
+  diffSnapshots,
+  verifyAuditChain
+};
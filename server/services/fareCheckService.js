@@ -0,0 +1,176 @@
+/**
+ * Fare Check Service
+ * Re-checks a booking's fare with Seeru right before payment. A changed price
+ * or baggage allowance is kept as a quote the customer has to accept; fares
+ * Seeru no longer offers cannot be paid for.
+ */
+
+const { repriceBookingIfEnabled } = require('../utils/seeruBookingHelper');
+const { setBookingPricing } = require('./pricingService');
+
+// A changed fare must be accepted within this long of the check that found it
+const FARE_QUOTE_TTL_MS = 15 * 60 * 1000;
+
+const roundAmount = (value) => Math.round((Number(value) || 0) * 100) / 100;
+
+/**
+ * Adult baggage allowance per leg, as shown to customers
+ * @param {Array} legs - Seeru legs
+ * @returns {Array<{ route: string, checked: string|null, cabin: string|null }>}
+ */
+function summarizeBaggage(legs) {
+  return (Array.isArray(legs) ? legs : []).map(leg => {
+    const adult = leg.bags?.ADT || {};
+    const fallback = leg.bags?.value ? `${leg.bags.value} ${leg.bags.unit || 'kg'}` : null;
+    return {
+      route: `${leg.from?.airport || leg.from?.iata || ''}-${leg.to?.airport || leg.to?.iata || ''}`,
+      checked: adult.checked?.desc || fallback,
+      cabin: adult.cabin?.desc || null
+    };
+  });
+}
+
+/**
+ * The fare the booking is currently priced at
+ * @param {Object} booking - FlightBooking document
+ * @returns {{ total: number, currency: string, tax: number|null, baggage: Array }}
+ */
+function describeBookedFare(booking) {
+  const selectedFlight = booking.flightDetails?.selectedFlight || {};
+  const raw = selectedFlight.raw || {};
+  return {
+    total: roundAmount(selectedFlight.price?.total),
+    currency: selectedFlight.price?.currency || 'USD',
+    tax: raw.tax != null ? roundAmount(raw.tax) : null,
+    baggage: summarizeBaggage(raw.legs)
+  };
+}
+
+const sameBaggage = (a, b) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * What the customer sees about a fare check
+ * @param {Object} booking - FlightBooking document
+ * @returns {Object|null}
+ */
+function getFareCheckSummary(booking) {
+  const check = booking.fareCheck;
+  if (!check?.status) return null;
+  return {
+    bookingId: booking.bookingId,
+    status: check.status,
+    checkedAt: check.checkedAt,
+    acceptedAt: check.acceptedAt,
+    previous: check.previous,
+    current: check.current,
+    error: check.error
+  };
+}
+
+/**
+ * Re-price a booking with Seeru and record the outcome on booking.fareCheck.
+ * Does not save the booking.
+ * @param {Object} booking - FlightBooking document
+ * @param {Object} [options]
+ * @param {string} [options.updatedBy] - Who triggered the check
+ * @returns {Promise<Object>} - { status, pricing } where pricing is the repriceBookingIfEnabled() result
+ */
+async function revalidateBookingFare(booking, { updatedBy = 'system' } = {}) {
+  const previous = describeBookedFare(booking);
+  const pricing = await repriceBookingIfEnabled(booking);
+  const checkedAt = new Date();
+
+  if (!pricing.success) {
+    // Only the first failed check is worth a timeline entry
+    if (booking.fareCheck?.status !== 'unavailable') {
+      booking.timeline.push({
+        status: 'fare_unavailable',
+        date: checkedAt,
+        notes: `Fare no longer available at re-check: ${pricing.error || 'rejected by Seeru'}`,
+        updatedBy
+      });
+    }
+    booking.fareCheck = { status: 'unavailable', checkedAt, previous, error: pricing.error || 'Fare is no longer available' };
+    return { status: 'unavailable', pricing };
+  }
+
+  const current = pricing.repriced
+    ? {
+      total: roundAmount(pricing.total),
+      currency: pricing.pricing?.currency || previous.currency,
+      tax: pricing.fare?.tax != null ? roundAmount(pricing.fare.tax) : previous.tax,
+      baggage: pricing.fare?.legs ? summarizeBaggage(pricing.fare.legs) : previous.baggage
+    }
+    : previous;
+
+  // Baggage only counts as changed when the booked flight recorded an allowance to compare with
+  const changed = pricing.repriced && (
+    Math.abs(current.total - previous.total) >= 0.01 ||
+    (previous.baggage.length > 0 && !sameBaggage(current.baggage, previous.baggage))
+  );
+
+  booking.fareCheck = changed
+    ? { status: 'changed', checkedAt, previous, current, pricing: pricing.pricing, fare: { tax: pricing.fare?.tax, legs: pricing.fare?.legs } }
+    : { status: 'unchanged', checkedAt, previous, current };
+  return { status: booking.fareCheck.status, pricing };
+}
+
+/**
+ * Apply a changed fare the customer accepted: new price, supplier fare details
+ * and a timeline entry. Does not save the booking.
+ * @param {Object} booking - FlightBooking document
+ * @param {Object} [options]
+ * @param {string} [options.updatedBy] - Who accepted the change
+ * @returns {{ success: boolean, message?: string }}
+ */
+function acceptFareChange(booking, { updatedBy = 'system' } = {}) {
+  const check = booking.fareCheck;
+  if (check?.status !== 'changed') {
+    return { success: false, message: 'There is no fare change to accept' };
+  }
+  if (Date.now() - new Date(check.checkedAt).getTime() > FARE_QUOTE_TTL_MS) {
+    return { success: false, message: 'This fare quote has expired; please check the fare again' };
+  }
+
+  if (check.pricing) {
+    setBookingPricing(booking, check.pricing);
+  } else {
+    booking.flightDetails.selectedFlight.price.total = check.current.total;
+  }
+
+  // Keep the stored flight in line with what Seeru now offers
+  const raw = booking.flightDetails.selectedFlight.raw;
+  if (raw && check.fare) {
+    if (check.fare.tax != null) raw.tax = check.fare.tax;
+    if (Array.isArray(check.fare.legs) && Array.isArray(raw.legs)) {
+      raw.legs.forEach((leg, index) => {
+        if (check.fare.legs[index]?.bags) leg.bags = check.fare.legs[index].bags;
+      });
+    }
+    booking.markModified('flightDetails.selectedFlight.raw');
+  }
+
+  booking.timeline.push({
+    status: 'fare_change_accepted',
+    date: new Date(),
+    notes: `Customer accepted the re-checked fare: ${check.previous.total} -> ${check.current.total} ${check.current.currency}`,
+    updatedBy
+  });
+  booking.fareCheck = {
+    status: 'accepted',
+    checkedAt: check.checkedAt,
+    acceptedAt: new Date(),
+    previous: check.previous,
+    current: check.current
+  };
+  return { success: true };
+}
+
+module.exports = {
+  FARE_QUOTE_TTL_MS,
+  summarizeBaggage,
+  describeBookedFare,
+  getFareCheckSummary,
+  revalidateBookingFare,
+  acceptFareChange
+};
@@ -0,0 +1,354 @@
+/**
+ * Fare Hold Service
+ * Lets customers reserve a fare Seeru allows to be held (can_hold) and pay
+ * later. The supplier order is saved straight away; the monitor reminds the
+ * customer before the ticketing time limit and cancels the order once it lapses.
+ */
+
+const FlightBooking = require('../models/FlightBooking');
+const Order = require('../models/Order');
+const Notification = require('../models/Notification');
+const {
+  getOrderDetails,
+  cancelOrder,
+  getTicketingTimeLimit,
+  checkFareValidity,
+  transformBookingToSeeru
+} = require('../utils/seeruAPI');
+const { processSeeruBookingIfEnabled } = require('../utils/seeruBookingHelper');
+const { getSearchFare } = require('./pricingService');
+const { setSupplierStatus, setBookingStatus } = require('../utils/bookingStateMachine');
+
+const MONITOR_INTERVAL_MS = 5 * 60 * 1000; // Wake up every 5 minutes
+const HOUR_MS = 60 * 60 * 1000;
+// Used when Seeru does not report a ticketing time limit for the order
+const DEFAULT_HOLD_MS = 24 * HOUR_MS;
+// A hold always ends this long before departure
+const DEPARTURE_BUFFER_MS = 3 * HOUR_MS;
+// Reminders go out when this much time is left on the hold
+const REMINDER_OFFSETS_MS = [6 * HOUR_MS, HOUR_MS];
+// Stop retrying a failed supplier cancellation after this long; Seeru expires the order itself
+const CANCEL_RETRY_MS = HOUR_MS;
+// A lapsed hold is kept while a payment started this recently may still complete
+const PAYMENT_IN_PROGRESS_MS = 30 * 60 * 1000;
+const HOLDS_PER_RUN = 20;
+// Supplier orders in these states have nothing left to cancel
+const CLOSED_SUPPLIER_STATUSES = ['cancelled', 'expired'];
+// (Re)saving the order with Seeru is needed from these states
+const UNSAVED_SUPPLIER_STATUSES = ['pending', 'initiated', 'validated', 'failed'];
+
+let isRunning = false;
+let checkInterval = null;
+let isChecking = false;
+
+const formatTimeLeft = (ms) => {
+  const hours = Math.max(1, Math.round(ms / HOUR_MS));
+  return { en: `${hours} hour${hours === 1 ? '' : 's'}`, ar: `${hours} ساعة` };
+};
+
+/**
+ * Whether a booking currently has a fare on hold
+ * @param {Object} booking - FlightBooking document
+ * @returns {boolean}
+ */
+function hasActiveHold(booking) {
+  return Boolean(booking.hold?.expiresAt && !booking.hold.releasedAt);
+}
+
+/**
+ * Whether Seeru allows the booked fare to be held. The flight stored on the booking came
+ * from the client, so its can_hold flag is only a hint: the search result the server
+ * served is checked, or Seeru is asked again when that is no longer remembered.
+ * @param {Object} booking - FlightBooking document
+ * @returns {Promise<boolean>}
+ */
+async function canHoldFare(booking) {
+  const selectedFlight = booking.flightDetails?.selectedFlight || {};
+  const raw = selectedFlight.raw || {};
+  if (raw.can_hold !== true && selectedFlight.can_hold !== true) return false;
+
+  const searched = getSearchFare(raw.search_id, raw.trip_id);
+  if (searched) return searched.canHold;
+
+  const fareCheck = await checkFareValidity(transformBookingToSeeru(booking));
+  return fareCheck.success && fareCheck.booking?.can_hold === true;
+}
+
+/**
+ * Whether the customer has a payment for the booking that may still complete
+ * @param {Object} booking - FlightBooking document
+ * @returns {Promise<boolean>}
+ */
+async function hasPaymentInProgress(booking) {
+  const since = Date.now() - PAYMENT_IN_PROGRESS_MS;
+  const pendingPayment = (booking.paymentDetails?.transactions || []).some(
+    tx => tx.type === 'payment' && tx.status === 'pending' && new Date(tx.date).getTime() > since
+  );
+  if (pendingPayment) return true;
+  return Boolean(await Order.exists({ 'items.booking': booking._id, status: 'pending', createdAt: { $gt: new Date(since) } }));
+}
+
+/**
+ * Hold a booking's fare: save the Seeru order now and record when it lapses
+ * @param {Object} booking - FlightBooking document with passenger details
+ * @returns {Promise<Object>} - { success, message, booking }
+ */
+async function placeFareHold(booking) {
+  if (!(await canHoldFare(booking))) {
+    return { success: false, message: 'This fare cannot be held' };
+  }
+  if (hasActiveHold(booking)) {
+    return { success: false, message: 'This fare is already on hold' };
+  }
+  if (CLOSED_SUPPLIER_STATUSES.includes(booking.seeruStatus)) {
+    return { success: false, message: 'This fare is no longer available' };
+  }
+
+  let timeLimit = null;
+  if (!booking.seeruOrderId || UNSAVED_SUPPLIER_STATUSES.includes(booking.seeruStatus)) {
+    const result = await processSeeruBookingIfEnabled(booking);
+    if (!result.success || !result.seeruProcessed || !booking.seeruOrderId) {
+      return { success: false, message: result.error || 'Holding fares is not available right now' };
+    }
+    timeLimit = result.data?.timeLimit || null;
+  }
+
+  if (!timeLimit) {
+    const details = await getOrderDetails(booking.seeruOrderId);
+    timeLimit = details.success ? getTicketingTimeLimit(details.data) : null;
+  }
+
+  const now = Date.now();
+  const departure = new Date(booking.flightDetails?.selectedFlight?.departureTime || booking.flightDetails?.departureDate).getTime();
+  let expiresAt = timeLimit ? timeLimit.getTime() : now + DEFAULT_HOLD_MS;
+  if (Number.isFinite(departure)) {
+    expiresAt = Math.min(expiresAt, departure - DEPARTURE_BUFFER_MS);
+  }
+  if (expiresAt <= now) {
+    return { success: false, message: 'This fare can no longer be held; please pay now to keep it' };
+  }
+
+  booking.hold = {
+    requestedAt: new Date(now),
+    expiresAt: new Date(expiresAt),
+    expirySource: timeLimit ? 'supplier' : 'default',
+    remindersSent: [],
+    releasedAt: null,
+    releaseReason: null
+  };
+  booking.timeline.push({
+    status: 'hold_placed',
+    date: new Date(now),
+    notes: `Fare held until ${booking.hold.expiresAt.toISOString()} (Seeru order ${booking.seeruOrderId})`,
+    updatedBy: booking.customerName || 'customer'
+  });
+  await booking.save();
+
+  await Notification.create({
+    userId: booking.userId,
+    title: {
+      en: 'Fare on hold',
+      ar: 'تم حجز السعر مؤقتاً'
+    },
+    message: {
+      en: `Booking ${booking.bookingId} is held. Pay before ${booking.hold.expiresAt.toUTCString()} to keep this fare.`,
+      ar: `تم حجز ${booking.bookingId} مؤقتاً. ادفع قبل ${booking.hold.expiresAt.toUTCString()} للاحتفاظ بهذا السعر.`
+    },
+    type: 'booking'
+  });
+
+  return { success: true, message: 'Fare held', booking };
+}
+
+/**
+ * Start monitoring held fares
+ */
+async function startFareHoldMonitor() {
+  if (isRunning) {
+    console.log('⚠️ Fare hold monitor already running');
+    return;
+  }
+
+  isRunning = true;
+  console.log('🚀 Starting fare hold monitor...');
+
+  // Check immediately on start
+  await checkFareHolds();
+
+  checkInterval = setInterval(async () => {
+    try {
+      await checkFareHolds();
+    } catch (error) {
+      console.error('❌ Error in fare hold monitor:', error.message);
+    }
+  }, MONITOR_INTERVAL_MS);
+
+  console.log('✅ Fare hold monitor started');
+}
+
+/**
+ * Stop monitoring
+ */
+function stopFareHoldMonitor() {
+  if (checkInterval) {
+    clearInterval(checkInterval);
+    checkInterval = null;
+  }
+  isRunning = false;
+  console.log('⏹️ Fare hold monitor stopped');
+}
+
+/**
+ * Remind customers about holds running out and release the ones that lapsed
+ */
+async function checkFareHolds() {
+  // Supplier cancellations can be slow; never overlap runs
+  if (isChecking) return;
+  isChecking = true;
+
+  try {
+    // Paid bookings leave 'pending', so only unpaid holds are picked up
+    const bookings = await FlightBooking.find({
+      status: 'pending',
+      paymentStatus: { $ne: 'completed' },
+      'hold.expiresAt': { $ne: null },
+      'hold.releasedAt': null
+    })
+      .sort({ 'hold.expiresAt': 1 })
+      .limit(HOLDS_PER_RUN);
+
+    for (const booking of bookings) {
+      try {
+        if (booking.hold.expiresAt.getTime() <= Date.now()) {
+          // Cancelling now would leave the customer charged for a cancelled booking
+          if (await hasPaymentInProgress(booking)) continue;
+          await releaseExpiredHold(booking);
+        } else {
+          await sendHoldReminder(booking);
+        }
+      } catch (error) {
+        console.error(`❌ Error processing fare hold ${booking.bookingId}:`, error.message);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Error checking fare holds:', error.message);
+  } finally {
+    isChecking = false;
+  }
+}
+
+/**
+ * Send the most urgent reminder that is due and not yet sent
+ */
+async function sendHoldReminder(booking) {
+  const timeLeft = booking.hold.expiresAt.getTime() - Date.now();
+  const sent = booking.hold.remindersSent || [];
+  const due = REMINDER_OFFSETS_MS.filter(offset => timeLeft <= offset && !sent.includes(offset));
+  if (due.length === 0) return;
+
+  const left = formatTimeLeft(timeLeft);
+  await Notification.create({
+    userId: booking.userId,
+    title: {
+      en: 'Your held fare expires soon',
+      ar: 'ينتهي الحجز المؤقت قريباً'
+    },
+    message: {
+      en: `About ${left.en} left to pay for booking ${booking.bookingId} before the held fare is released.`,
+      ar: `تبقى حوالي ${left.ar} لدفع قيمة الحجز ${booking.bookingId} قبل إلغاء السعر المحجوز.`
+    },
+    type: 'booking'
+  });
+
+  // Later reminders cover the earlier ones that were missed
+  booking.hold.remindersSent = [...sent, ...due];
+  await booking.save();
+}
+
+/**
+ * Cancel the supplier order of a lapsed hold and close the booking
+ */
+async function releaseExpiredHold(booking) {
+  if (booking.seeruOrderId && !CLOSED_SUPPLIER_STATUSES.includes(booking.seeruStatus)) {
+    const result = await cancelOrder(booking.seeruOrderId);
+    if (result.success) {
+      setSupplierStatus(booking, 'cancelled', { notes: 'Seeru order cancelled: fare hold expired' });
+      booking.seeruCancelledAt = new Date();
+      booking.seeruError = null;
+    } else if (Date.now() - booking.hold.expiresAt.getTime() < CANCEL_RETRY_MS) {
+      // Retried on the next run
+      booking.seeruError = `Hold cancellation failed: ${result.error}`;
+      await booking.save();
+      return;
+    } else {
+      setSupplierStatus(booking, 'expired', { notes: `Fare hold expired; Seeru cancellation failed: ${result.error}` });
+      booking.seeruExpiredAt = new Date();
+    }
+  }
+
+  setBookingStatus(booking, 'cancelled', { notes: 'Fare hold expired before payment' });
+  booking.hold.releasedAt = new Date();
+  booking.hold.releaseReason = 'expired';
+  await booking.save();
+
+  await Notification.create({
+    userId: booking.userId,
+    title: {
+      en: 'Held fare released',
+      ar: 'تم إلغاء الحجز المؤقت'
+    },
+    message: {
+      en: `The hold on booking ${booking.bookingId} expired before payment, so the reservation was cancelled.`,
+      ar: `انتهت مدة الحجز المؤقت ${booking.bookingId} قبل الدفع، لذلك تم إلغاء الحجز.`
+    },
+    type: 'booking'
+  });
+}
+
+/**
+ * Release a held fare before its booking is removed. The Seeru order is cancelled first,
+ * so no supplier reservation outlives the booking.
+ * @param {Object} booking - FlightBooking document (not saved here)
+ * @returns {Promise<{ success: boolean, message?: string }>}
+ */
+async function releaseHeldFare(booking) {
+  if (!hasActiveHold(booking)) return { success: true };
+  if (await hasPaymentInProgress(booking)) {
+    return { success: false, message: 'A payment for this booking is in progress; try again once it has finished' };
+  }
+
+  if (booking.seeruOrderId && !CLOSED_SUPPLIER_STATUSES.includes(booking.seeruStatus)) {
+    const result = await cancelOrder(booking.seeruOrderId);
+    if (!result.success) {
+      console.error(`❌ Could not cancel held Seeru order for ${booking.bookingId}:`, result.error);
+      return { success: false, message: 'The held fare could not be released right now; please try again' };
+    }
+    setSupplierStatus(booking, 'cancelled', { notes: 'Seeru order cancelled: held booking removed by the customer' });
+    booking.seeruCancelledAt = new Date();
+  }
+  booking.hold.releasedAt = new Date();
+  booking.hold.releaseReason = 'removed';
+  return { success: true };
+}
+
+/**
+ * Get monitor status
+ */
+function getMonitorStatus() {
+  return {
+    running: isRunning,
+    checking: isChecking,
+    checkInterval: checkInterval ? `${MONITOR_INTERVAL_MS / 60000} minutes` : 'not set'
+  };
+}
+
+module.exports = {
+  hasActiveHold,
+  canHoldFare,
+  placeFareHold,
+  releaseHeldFare,
+  startFareHoldMonitor,
+  stopFareHoldMonitor,
+  checkFareHolds,
+  getMonitorStatus
+};
@@ -0,0 +1,196 @@
+/**
+ * Guest Cart Service
+ * Stores anonymous carts keyed by the X-Session-ID header and merges them
+ * into the user's FlightBookings once they log in or register
+ */
+
+const crypto = require('crypto');
+const GuestCart = require('../models/GuestCart');
+const FlightBooking = require('../models/FlightBooking');
+const {
+  normalizeFlightDetails,
+  normalizePassengerDetails,
+  getFlightIdentity,
+  createFlightBookingForUser
+} = require('../utils/flightBookingHelper');
+const { checkFareValidityIfEnabled, processSeeruBookingIfEnabled } = require('../utils/seeruBookingHelper');
+
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{8,128}$/;
+const MAX_GUEST_CART_ITEMS = 20;
+
+/**
+ * Read the guest session id sent by the client
+ * @param {Object} req - Express request
+ * @returns {string|null}
+ */
+function getGuestSessionId(req) {
+  const sessionId = req.headers['x-session-id'];
+  return typeof sessionId === 'string' && SESSION_ID_PATTERN.test(sessionId) ? sessionId : null;
+}
+
+/**
+ * Issue a new guest session id for a client that does not have one yet
+ * @returns {string}
+ */
+function generateGuestSessionId() {
+  return `guest_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+const sameFlight = (a, b) => a.flightId === b.flightId && a.departureTime === b.departureTime;
+
+const getBookingIdentity = (booking) => {
+  const departure = booking.flightDetails?.selectedFlight?.departureTime;
+  return {
+    flightId: String(booking.flightDetails?.selectedFlight?.flightId || ''),
+    departureTime: departure ? new Date(departure).getTime() : null
+  };
+};
+
+/**
+ * Present a guest cart item in the same shape as a FlightBooking so the cart
+ * page can render both without branching
+ * @param {Object} item - GuestCart item subdocument
+ * @returns {Object}
+ */
+function toCartBooking(item) {
+  const { flightDetails } = normalizeFlightDetails(item.flightDetails);
+  const id = item._id.toString();
+  return {
+    _id: id,
+    bookingId: `GUEST-${id.slice(-6).toUpperCase()}`,
+    isGuest: true,
+    customerName: '',
+    customerEmail: '',
+    flightDetails,
+    passengerDetails: item.passengerDetails || [],
+    status: 'pending',
+    paymentDetails: {
+      status: 'pending',
+      currency: flightDetails.selectedFlight.price.currency,
+      transactions: []
+    },
+    createdAt: item.addedAt
+  };
+}
+
+/**
+ * Get the guest cart items for a session
+ * @param {string} sessionId - Guest session id
+ * @returns {Promise<Array>} - Items in FlightBooking shape
+ */
+async function getGuestCartItems(sessionId) {
+  if (!sessionId) return [];
+  const cart = await GuestCart.findOne({ sessionId });
+  return cart ? cart.items.map(toCartBooking).reverse() : [];
+}
+
+/**
+ * Add a flight to a guest cart, creating the cart when needed
+ * @param {string} sessionId - Guest session id
+ * @param {Object} flightDetails - Flight details as sent by the client
+ * @returns {Promise<{ success: boolean, data?: Object, error?: string }>}
+ */
+async function addGuestCartItem(sessionId, flightDetails) {
+  const cart = (await GuestCart.findOne({ sessionId })) || new GuestCart({ sessionId, items: [] });
+
+  const identity = getFlightIdentity(flightDetails);
+  if (cart.items.some(item => sameFlight(getFlightIdentity(item.flightDetails), identity))) {
+    return { success: false, error: 'This flight is already in your cart' };
+  }
+  if (cart.items.length >= MAX_GUEST_CART_ITEMS) {
+    return { success: false, error: `Your cart can hold up to ${MAX_GUEST_CART_ITEMS} flights` };
+  }
+
+  cart.items.push({ flightDetails });
+  await cart.save();
+
+  return { success: true, data: toCartBooking(cart.items[cart.items.length - 1]) };
+}
+
+/**
+ * Remove an item from a guest cart
+ * @param {string} sessionId - Guest session id
+ * @param {string} itemId - Guest cart item id
+ * @returns {Promise<boolean>} - Whether the item existed
+ */
+async function removeGuestCartItem(sessionId, itemId) {
+  const cart = await GuestCart.findOne({ sessionId });
+  const item = cart?.items.id(itemId);
+  if (!item) return false;
+
+  item.deleteOne();
+  await cart.save();
+  return true;
+}
+
+/**
+ * Store passenger details on a guest cart item until the guest logs in
+ * @param {string} sessionId - Guest session id
+ * @param {string} itemId - Guest cart item id
+ * @param {Array} passengerDetails - Passenger forms
+ * @returns {Promise<Object|null>} - Updated item in FlightBooking shape
+ */
+async function saveGuestPassengers(sessionId, itemId, passengerDetails) {
+  const cart = await GuestCart.findOne({ sessionId });
+  const item = cart?.items.id(itemId);
+  if (!item) return null;
+
+  item.passengerDetails = normalizePassengerDetails(passengerDetails);
+  await cart.save();
+  return toCartBooking(item);
+}
+
+/**
+ * Move every item of a guest cart into the user's cart as pending FlightBookings
+ * @param {string} sessionId - Guest session id
+ * @param {Object} user - User document
+ * @returns {Promise<number>} - Number of bookings created
+ */
+async function mergeGuestCart(sessionId, user) {
+  if (!sessionId || !user) return 0;
+
+  const cart = await GuestCart.findOne({ sessionId });
+  if (!cart || cart.items.length === 0) {
+    if (cart) await cart.deleteOne();
+    return 0;
+  }
+
+  const pendingBookings = await FlightBooking.find({ userId: user._id, status: 'pending' });
+  const existing = pendingBookings.map(getBookingIdentity);
+
+  let merged = 0;
+  for (const item of cart.items) {
+    const identity = getFlightIdentity(item.flightDetails);
+    if (existing.some(other => sameFlight(other, identity))) continue;
+
+    const booking = await createFlightBookingForUser(user, item.flightDetails, item.passengerDetails);
+    existing.push(identity);
+    merged += 1;
+
+    // Same Seeru flow as a cart add followed by saving passengers
+    checkFareValidityIfEnabled(booking)
+      .then(() => {
+        if (booking.passengerDetails?.length > 0) {
+          return processSeeruBookingIfEnabled(booking);
+        }
+        return null;
+      })
+      .catch(error => {
+        console.error('❌ Error processing merged guest booking with Seeru:', error);
+      });
+  }
+
+  await cart.deleteOne();
+  console.log(`🛒 Merged ${merged} guest cart item(s) for user ${user._id}`);
+  return merged;
+}
+
+module.exports = {
+  getGuestSessionId,
+  generateGuestSessionId,
+  getGuestCartItems,
+  addGuestCartItem,
+  removeGuestCartItem,
+  saveGuestPassengers,
+  mergeGuestCart
+};
@@ -0,0 +1,664 @@
+/**
+ * Itinerary PDF Service
+ * Renders the e-ticket itinerary and payment receipt of an issued FlightBooking
+ * in English or Arabic (right-to-left) and keeps it in file storage. A stored
+ * PDF is reused until the booking details printed on it change.
+ */
+
+const path = require('path');
+const crypto = require('crypto');
+const PDFDocument = require('pdfkit');
+const { uploadBuffer, deleteFile } = require('../utils/gcsStorage');
+const { convertFromUsd, PAYMENT_CURRENCY } = require('../utils/currency');
+const { summarizeBaggage } = require('./fareCheckService');
+
+// DejaVu Sans ships with the server so Arabic renders wherever it is deployed
+const FONT_DIR = path.join(__dirname, '..', 'assets', 'fonts');
+const FONTS = {
+  regular: path.join(FONT_DIR, 'DejaVuSans.ttf'),
+  bold: path.join(FONT_DIR, 'DejaVuSans-Bold.ttf')
+};
+
+const ITINERARY_LANGUAGES = ['en', 'ar'];
+// Raise when the layout changes so stored PDFs are rendered again
+const LAYOUT_VERSION = 1;
+
+const PAGE_MARGIN = 40;
+const ROW_HEIGHT = 20;
+const MIN_FONT_SIZE = 6;
+const COLORS = {
+  brand: '#0088a9',
+  text: '#333333',
+  muted: '#6b7280',
+  border: '#d1d5db',
+  shade: '#e6f9ff',
+  white: '#ffffff'
+};
+
+const LABELS = {
+  en: {
+    title: 'E-ticket itinerary & receipt',
+    generated: 'Generated',
+    bookingId: 'Booking reference',
+    pnr: 'Airline reference (PNR)',
+    status: 'Status',
+    issuedAt: 'Issued on',
+    customer: 'Booked by',
+    email: 'Email',
+    tickets: 'Ticket numbers',
+    flights: 'Flights',
+    leg: 'Flight',
+    arrow: '→',
+    flight: 'Flight',
+    airline: 'Airline',
+    from: 'From',
+    departure: 'Departure',
+    to: 'To',
+    arrival: 'Arrival',
+    cabin: 'Cabin',
+    passengers: 'Passengers',
+    name: 'Name',
+    type: 'Type',
+    passport: 'Passport',
+    baggage: 'Baggage allowance (per adult)',
+    route: 'Route',
+    checkedBag: 'Checked',
+    cabinBag: 'Cabin',
+    payment: 'Payment receipt',
+    paidUsd: 'Amount paid (USD)',
+    paidLocal: 'Amount paid (SYP)',
+    exchangeRate: 'Exchange rate',
+    method: 'Payment method',
+    reference: 'Payment reference',
+    paidAt: 'Paid on',
+    promoCode: 'Promo code',
+    notAvailable: '—',
+    passengerTypes: { adult: 'Adult', child: 'Child', infant: 'Infant' },
+    statuses: { confirmed: 'Confirmed', issued: 'Issued', done: 'Completed' },
+    notice: 'Flight times are local to each airport. Please carry a valid passport and check in with the airline at least three hours before international departures.'
+  },
+  ar: {
+    title: 'خط سير الرحلة وإيصال الدفع',
+    generated: 'تاريخ الإنشاء',
+    bookingId: 'رقم الحجز',
+    pnr: 'مرجع شركة الطيران',
+    status: 'الحالة',
+    issuedAt: 'تاريخ الإصدار',
+    customer: 'صاحب الحجز',
+    email: 'البريد الإلكتروني',
+    tickets: 'أرقام التذاكر',
+    flights: 'الرحلات',
+    leg: 'الرحلة',
+    arrow: '←',
+    flight: 'الرحلة',
+    airline: 'شركة الطيران',
+    from: 'من',
+    departure: 'المغادرة',
+    to: 'إلى',
+    arrival: 'الوصول',
+    cabin: 'الدرجة',
+    passengers: 'المسافرون',
+    name: 'الاسم',
+    type: 'الفئة',
+    passport: 'جواز السفر',
+    baggage: 'الأمتعة المسموحة لكل بالغ',
+    route: 'المسار',
+    checkedBag: 'الأمتعة المشحونة',
+    cabinBag: 'حقيبة المقصورة',
+    payment: 'إيصال الدفع',
+    paidUsd: 'المبلغ المدفوع بالدولار',
+    paidLocal: 'المبلغ المدفوع بالليرة السورية',
+    exchangeRate: 'سعر الصرف',
+    method: 'طريقة الدفع',
+    reference: 'مرجع الدفع',
+    paidAt: 'تاريخ الدفع',
+    promoCode: 'رمز الخصم',
+    notAvailable: '—',
+    passengerTypes: { adult: 'بالغ', child: 'طفل', infant: 'رضيع' },
+    statuses: { confirmed: 'مؤكد', issued: 'تم الإصدار', done: 'مكتمل' },
+    notice: 'أوقات الرحلات بالتوقيت المحلي لكل مطار. يرجى حمل جواز سفر ساري المفعول والتسجيل لدى شركة الطيران قبل ثلاث ساعات على الأقل من الرحلات الدولية.'
+  }
+};
+
+/**
+ * Whether the customer can download the itinerary for a booking
+ * @param {Object} booking - FlightBooking document
+ * @returns {boolean}
+ */
+function isItineraryAvailable(booking) {
+  if (booking.status === 'cancelled') return false;
+  return ['issued', 'done'].includes(booking.status) || booking.seeruStatus === 'issued';
+}
+
+// ---------------------------------------------------------------------------
+// Booking data printed on the PDF
+// ---------------------------------------------------------------------------
+
+const roundAmount = (value, digits = 2) => {
+  const factor = 10 ** digits;
+  return Math.round((Number(value) || 0) * factor) / factor;
+};
+
+const toIsoString = (value) => {
+  const date = value ? new Date(value) : null;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : null;
+};
+
+// Some bookings keep several ticket numbers in one comma separated field
+function collectTicketNumbers(booking) {
+  const numbers = [booking.ticketDetails?.ticketNumber, booking.ticketNumber]
+    .filter(Boolean)
+    .flatMap(value => String(value).split(/[,\s]+/))
+    .filter(Boolean);
+  return [...new Set(numbers)];
+}
+
+function describeLegs(booking) {
+  const selectedFlight = booking.flightDetails?.selectedFlight || {};
+  const legs = selectedFlight.raw?.legs;
+
+  if (!Array.isArray(legs) || legs.length === 0) {
+    // Bookings made before the raw Seeru flight was stored
+    const place = (code, date) => ({ airport: code || '', city: '', date: toIsoString(date) });
+    const from = place(booking.flightDetails?.from, selectedFlight.departureTime);
+    const to = place(booking.flightDetails?.to, selectedFlight.arrivalTime);
+    return [{
+      from,
+      to,
+      segments: [{ flight: '', airline: selectedFlight.airline || '', from, to, cabin: selectedFlight.class || '' }]
+    }];
+  }
+
+  const place = (airport = {}) => ({
+    airport: airport.airport || airport.iata || '',
+    city: airport.city || '',
+    date: airport.date || null
+  });
+
+  return legs.map(leg => ({
+    from: place(leg.from),
+    to: place(leg.to),
+    segments: (leg.segments || []).map(segment => ({
+      flight: [segment.iata, segment.flightnumber].filter(Boolean).join(' '),
+      airline: segment.airline_name || '',
+      from: place(segment.from),
+      to: place(segment.to),
+      cabin: segment.cabin_name || segment.cabin || ''
+    }))
+  }));
+}
+
+// Only the last four passport digits are printed
+const maskDocument = (value) => (value ? `****${String(value).slice(-4)}` : '');
+
+function describePassengers(booking) {
+  const passengers = booking.passengerDetails?.length
+    ? booking.passengerDetails
+    : booking.flightDetails?.passengerDetails || [];
+  return passengers.map(passenger => ({
+    name: [passenger.firstName, passenger.lastName].filter(Boolean).join(' ').toUpperCase(),
+    type: passenger.type || 'adult',
+    passport: maskDocument(passenger.passportNumber)
+  }));
+}
+
+/**
+ * What was paid for the booking, in USD and in the gateway currency
+ */
+async function describePayment(booking) {
+  const paymentDetails = booking.paymentDetails || {};
+  const payments = (paymentDetails.transactions || [])
+    .filter(tx => tx.type === 'payment' && tx.status === 'completed');
+  const latest = payments[payments.length - 1];
+
+  const amountUsd = payments.some(tx => tx.amountUsd != null)
+    ? payments.reduce((sum, tx) => sum + (Number(tx.amountUsd) || 0), 0)
+    : Number(booking.pricing?.total ?? booking.flightDetails?.selectedFlight?.price?.total) || 0;
+
+  let amountLocal = null;
+  let exchangeRate = latest?.exchangeRate || null;
+  const localPayments = payments.filter(tx => tx.currency === PAYMENT_CURRENCY);
+  if (localPayments.length > 0) {
+    amountLocal = localPayments.reduce((sum, tx) => sum + (Number(tx.amount) || 0), 0);
+  } else {
+    // Paid outside the gateway: show the equivalent at the rate of the payment date
+    try {
+      const converted = await convertFromUsd(amountUsd, PAYMENT_CURRENCY, latest?.date || new Date());
+      amountLocal = converted.amount;
+      exchangeRate = converted.rate;
+    } catch (error) {
+      console.warn(`Itinerary ${booking.bookingId}: no ${PAYMENT_CURRENCY} amount available:`, error.message);
+    }
+  }
+
+  return {
+    amountUsd: roundAmount(amountUsd),
+    amountLocal: amountLocal != null ? roundAmount(amountLocal, 0) : null,
+    exchangeRate,
+    method: paymentDetails.method || '',
+    reference: latest?.reference || paymentDetails.reference || '',
+    paidAt: toIsoString(latest?.date),
+    promoCode: paymentDetails.discount?.redeemedAt ? paymentDetails.discount.code : ''
+  };
+}
+
+function findIssuedAt(booking) {
+  if (booking.seeruIssuedAt) return toIsoString(booking.seeruIssuedAt);
+  const entry = (booking.timeline || []).find(item => ['issued', 'done', 'seeru_issued'].includes(item.status));
+  return toIsoString(entry?.date);
+}
+
+/**
+ * Everything the itinerary shows, independent of the language it is rendered in
+ * @param {Object} booking - FlightBooking document
+ * @returns {Promise<Object>}
+ */
+async function describeItinerary(booking) {
+  const raw = booking.flightDetails?.selectedFlight?.raw || {};
+  return {
+    bookingId: booking.bookingId,
+    status: booking.status,
+    pnr: booking.ticketDetails?.pnr || booking.pnr || '',
+    ticketNumbers: collectTicketNumbers(booking),
+    issuedAt: findIssuedAt(booking),
+    customerName: booking.customerName,
+    customerEmail: booking.customerEmail,
+    legs: describeLegs(booking),
+    passengers: describePassengers(booking),
+    baggage: summarizeBaggage(raw.legs),
+    payment: await describePayment(booking)
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Bidirectional text
+// PDFKit draws glyphs in the order it is given them. Fontkit shapes Arabic and
+// reverses it, but only for a whole string, so mixed text (Arabic labels next
+// to flight numbers, amounts or names) is split into runs of one direction,
+// each drawn on its own in visual order.
+// ---------------------------------------------------------------------------
+
+const ARABIC_CHAR = /[\u0600-\u06FF\u0750-\u077F\u08A0-\u08FF\uFB50-\uFDFF\uFE70-\uFEFF]/;
+const LTR_CHAR = /[A-Za-z0-9\u00C0-\u024F]/;
+const MIRRORED_CHARS = { '(': ')', ')': '(', '[': ']', ']': '[', '<': '>', '>': '<' };
+
+// Without explicit features PDFKit shapes word by word, which breaks right-to-left runs
+const SHAPING = { features: ['rlig'] };
+
+const charDirection = (char) => (ARABIC_CHAR.test(char) ? 'R' : LTR_CHAR.test(char) ? 'L' : 'N');
+
+// Like dir="auto": the first strong character decides, otherwise the layout does
+function isRtlParagraph(text, rtlLayout) {
+  for (const char of text) {
+    const direction = charDirection(char);
+    if (direction !== 'N') return direction === 'R';
+  }
+  return rtlLayout;
+}
+
+/**
+ * Split a paragraph into same-direction runs, in visual (left to right) order
+ * @param {string} text
+ * @param {boolean} rtl - Paragraph direction
+ * @returns {string[]}
+ */
+function toVisualRuns(text, rtl) {
+  const chars = Array.from(text);
+  const types = chars.map(charDirection);
+
+  // Neutrals between two runs of one direction join them; any others follow the paragraph
+  for (let start = 0; start < types.length; start++) {
+    if (types[start] !== 'N') continue;
+    let end = start;
+    while (end < types.length && types[end] === 'N') end++;
+    const before = start > 0 ? types[start - 1] : null;
+    const after = end < types.length ? types[end] : null;
+    const resolved = before && before === after ? before : (rtl ? 'R' : 'L');
+    types.fill(resolved, start, end);
+    start = end - 1;
+  }
+
+  const runs = [];
+  chars.forEach((char, index) => {
+    const last = runs[runs.length - 1];
+    if (last && last.type === types[index]) {
+      last.text += char;
+    } else {
+      runs.push({ type: types[index], text: char });
+    }
+  });
+
+  const texts = runs.map(run => {
+    // Fontkit leaves text without Arabic letters in logical order
+    if (run.type === 'R' && !ARABIC_CHAR.test(run.text)) {
+      return Array.from(run.text).reverse().map(char => MIRRORED_CHARS[char] || char).join('');
+    }
+    return run.text;
+  });
+  return rtl ? texts.reverse() : texts;
+}
+
+// ---------------------------------------------------------------------------
+// Drawing
+// ---------------------------------------------------------------------------
+
+/**
+ * Draw one line of text in a box. Each part is an isolated paragraph; parts are
+ * laid out in reading order and shrunk until the line fits the box.
+ * @param {Object} doc - PDFKit document
+ * @param {string|string[]} parts
+ * @param {Object} box - { x, y, width }
+ * @param {Object} options - { rtl, font, size, color, align: start|end|center }
+ */
+function drawLine(doc, parts, { x, y, width }, { rtl = false, font = 'regular', size = 10, color = COLORS.text, align = 'start' } = {}) {
+  const paragraphs = (Array.isArray(parts) ? parts : [parts])
+    .map(part => String(part ?? '').replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .map(text => toVisualRuns(text, isRtlParagraph(text, rtl)));
+  if (paragraphs.length === 0) return;
+
+  const visual = rtl ? [...paragraphs].reverse() : paragraphs;
+  doc.font(font).fillColor(color);
+
+  let fontSize = size;
+  const measure = () => {
+    doc.fontSize(fontSize);
+    const gaps = doc.widthOfString(' ') * (visual.length - 1);
+    return visual.flat().reduce((sum, run) => sum + doc.widthOfString(run, SHAPING), gaps);
+  };
+  let total = measure();
+  while (total > width && fontSize > MIN_FONT_SIZE) {
+    fontSize -= 0.5;
+    total = measure();
+  }
+
+  const alignLeft = align === 'start' ? !rtl : align === 'end' ? rtl : null;
+  let cursor = alignLeft === null ? x + (width - total) / 2 : alignLeft ? x : x + width - total;
+  const gap = doc.widthOfString(' ');
+  visual.forEach(runs => {
+    runs.forEach(run => {
+      doc.text(run, cursor, y, { ...SHAPING, lineBreak: false });
+      cursor += doc.widthOfString(run, SHAPING);
+    });
+    cursor += gap;
+  });
+}
+
+/**
+ * Draw wrapped text of a single direction and return its height
+ */
+function drawParagraph(doc, text, box, options = {}) {
+  const { font = 'regular', size = 10 } = options;
+  const lineHeight = size * 1.5;
+  doc.font(font).fontSize(size);
+
+  const lines = [];
+  String(text).split(/\s+/).filter(Boolean).forEach(word => {
+    const current = lines[lines.length - 1];
+    if (current && doc.widthOfString(`${current} ${word}`, SHAPING) <= box.width) {
+      lines[lines.length - 1] = `${current} ${word}`;
+    } else {
+      lines.push(word);
+    }
+  });
+
+  lines.forEach((line, index) => drawLine(doc, line, { ...box, y: box.y + index * lineHeight }, options));
+  return lines.length * lineHeight;
+}
+
+const formatUsd = (amount) => `${Number(amount).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })} USD`;
+const formatLocal = (amount) => `${Number(amount).toLocaleString('en-US', { maximumFractionDigits: 0 })} ${PAYMENT_CURRENCY}`;
+// Dates use Western digits in both languages; Seeru times are already local to the airport
+const formatDay = (value) => (value ? String(value).slice(0, 10) : '');
+const formatDateTime = (value) => (value ? String(value).replace('T', ' ').slice(0, 16) : '');
+const formatPlace = (place) => [place.airport, place.city].filter(Boolean).join(' · ');
+
+/**
+ * Render an itinerary to a PDF buffer
+ * @param {Object} itinerary - From describeItinerary()
+ * @param {string} language - en | ar
+ * @returns {Promise<Buffer>}
+ */
+function renderItineraryPdf(itinerary, language) {
+  const labels = LABELS[language] || LABELS.en;
+  const rtl = language === 'ar';
+  const doc = new PDFDocument({
+    size: 'A4',
+    margin: PAGE_MARGIN,
+    info: { Title: `${labels.title} - ${itinerary.bookingId}`, Author: 'Tourtastic' }
+  });
+  doc.registerFont('regular', FONTS.regular);
+  doc.registerFont('bold', FONTS.bold);
+
+  const chunks = [];
+  doc.on('data', chunk => chunks.push(chunk));
+  const finished = new Promise((resolve, reject) => {
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+  });
+
+  const left = PAGE_MARGIN;
+  const contentWidth = doc.page.width - PAGE_MARGIN * 2;
+  const bottom = doc.page.height - PAGE_MARGIN;
+  const textOptions = { rtl };
+  let y = PAGE_MARGIN;
+
+  // x of a box that starts `offset` points from the reading edge of the page
+  const boxX = (offset, width) => (rtl ? left + contentWidth - offset - width : left + offset);
+
+  const ensureSpace = (height) => {
+    if (y + height > bottom) {
+      doc.addPage();
+      y = PAGE_MARGIN;
+      return true;
+    }
+    return false;
+  };
+
+  const drawHeader = () => {
+    doc.rect(0, 0, doc.page.width, 90).fill(COLORS.brand);
+    const half = contentWidth / 2;
+    drawLine(doc, 'Tourtastic', { x: boxX(0, half), y: 26, width: half }, { ...textOptions, font: 'bold', size: 22, color: COLORS.white });
+    drawLine(doc, labels.title, { x: boxX(0, half), y: 56, width: half }, { ...textOptions, size: 11, color: COLORS.white });
+    drawLine(doc, itinerary.bookingId, { x: boxX(half, half), y: 28, width: half }, { ...textOptions, align: 'end', font: 'bold', size: 14, color: COLORS.white });
+    drawLine(doc, [labels.generated, formatDay(new Date().toISOString())], { x: boxX(half, half), y: 56, width: half }, { ...textOptions, align: 'end', size: 8, color: COLORS.white });
+    y = 110;
+  };
+
+  const drawSectionTitle = (title) => {
+    ensureSpace(ROW_HEIGHT * 3);
+    y += 8;
+    drawLine(doc, title, { x: left, y, width: contentWidth }, { ...textOptions, font: 'bold', size: 12, color: COLORS.brand });
+    y += 18;
+    doc.moveTo(left, y).lineTo(left + contentWidth, y).lineWidth(1).strokeColor(COLORS.brand).stroke();
+    y += 8;
+  };
+
+  // Label/value pairs, two per row
+  const drawFields = (fields) => {
+    const columnWidth = contentWidth / 2;
+    for (let index = 0; index < fields.length; index += 2) {
+      ensureSpace(32);
+      fields.slice(index, index + 2).forEach(([label, value], column) => {
+        const x = boxX(column * columnWidth, columnWidth - 10);
+        drawLine(doc, label, { x, y, width: columnWidth - 10 }, { ...textOptions, size: 8, color: COLORS.muted });
+        drawLine(doc, value || labels.notAvailable, { x, y: y + 11, width: columnWidth - 10 }, { ...textOptions, font: 'bold', size: 10 });
+      });
+      y += 32;
+    }
+  };
+
+  // columns: [{ label, width }] with widths as fractions of the content width
+  const drawTable = (columns, rows) => {
+    const cells = columns.map((column, index) => {
+      const offset = columns.slice(0, index).reduce((sum, item) => sum + item.width, 0) * contentWidth;
+      const width = column.width * contentWidth;
+      return { x: boxX(offset, width) + 4, width: width - 8 };
+    });
+
+    const drawHeaderRow = () => {
+      doc.rect(left, y, contentWidth, ROW_HEIGHT).fill(COLORS.shade);
+      columns.forEach((column, index) => {
+        drawLine(doc, column.label, { ...cells[index], y: y + 6 }, { ...textOptions, font: 'bold', size: 8, color: COLORS.brand });
+      });
+      y += ROW_HEIGHT;
+    };
+
+    ensureSpace(ROW_HEIGHT * 2);
+    drawHeaderRow();
+    rows.forEach(row => {
+      if (ensureSpace(ROW_HEIGHT)) drawHeaderRow();
+      row.forEach((value, index) => {
+        drawLine(doc, value, { ...cells[index], y: y + 6 }, { ...textOptions, size: 8.5 });
+      });
+      doc.moveTo(left, y + ROW_HEIGHT).lineTo(left + contentWidth, y + ROW_HEIGHT).lineWidth(0.5).strokeColor(COLORS.border).stroke();
+      y += ROW_HEIGHT;
+    });
+  };
+
+  drawHeader();
+
+  drawFields([
+    [labels.bookingId, itinerary.bookingId],
+    [labels.pnr, itinerary.pnr],
+    [labels.status, labels.statuses[itinerary.status] || itinerary.status],
+    [labels.issuedAt, formatDay(itinerary.issuedAt)],
+    [labels.customer, itinerary.customerName],
+    [labels.email, itinerary.customerEmail],
+    [labels.tickets, itinerary.ticketNumbers.join(', ')]
+  ]);
+
+  drawSectionTitle(labels.flights);
+  itinerary.legs.forEach((leg, index) => {
+    ensureSpace(ROW_HEIGHT * 3);
+    drawLine(
+      doc,
+      [`${labels.leg} ${index + 1}`, leg.from.airport, labels.arrow, leg.to.airport, formatDay(leg.from.date)],
+      { x: left, y, width: contentWidth },
+      { ...textOptions, font: 'bold', size: 10 }
+    );
+    y += 16;
+    drawTable(
+      [
+        { label: labels.flight, width: 0.1 },
+        { label: labels.airline, width: 0.16 },
+        { label: labels.from, width: 0.17 },
+        { label: labels.departure, width: 0.155 },
+        { label: labels.to, width: 0.17 },
+        { label: labels.arrival, width: 0.155 },
+        { label: labels.cabin, width: 0.09 }
+      ],
+      leg.segments.map(segment => [
+        segment.flight,
+        segment.airline,
+        formatPlace(segment.from),
+        formatDateTime(segment.from.date),
+        formatPlace(segment.to),
+        formatDateTime(segment.to.date),
+        segment.cabin
+      ])
+    );
+    y += 10;
+  });
+
+  if (itinerary.passengers.length > 0) {
+    drawSectionTitle(labels.passengers);
+    drawTable(
+      [
+        { label: '#', width: 0.06 },
+        { label: labels.name, width: 0.5 },
+        { label: labels.type, width: 0.18 },
+        { label: labels.passport, width: 0.26 }
+      ],
+      itinerary.passengers.map((passenger, index) => [
+        String(index + 1),
+        passenger.name,
+        labels.passengerTypes[passenger.type] || passenger.type,
+        passenger.passport
+      ])
+    );
+  }
+
+  if (itinerary.baggage.length > 0) {
+    drawSectionTitle(labels.baggage);
+    drawTable(
+      [
+        { label: labels.route, width: 0.4 },
+        { label: labels.checkedBag, width: 0.3 },
+        { label: labels.cabinBag, width: 0.3 }
+      ],
+      itinerary.baggage.map(bag => [bag.route, bag.checked || labels.notAvailable, bag.cabin || labels.notAvailable])
+    );
+  }
+
+  const { payment } = itinerary;
+  drawSectionTitle(labels.payment);
+  drawFields([
+    [labels.paidUsd, formatUsd(payment.amountUsd)],
+    [labels.paidLocal, payment.amountLocal != null ? formatLocal(payment.amountLocal) : ''],
+    [labels.exchangeRate, payment.exchangeRate ? `1 USD = ${formatLocal(payment.exchangeRate)}` : ''],
+    [labels.paidAt, formatDay(payment.paidAt)],
+    [labels.method, payment.method],
+    [labels.reference, payment.reference],
+    ...(payment.promoCode ? [[labels.promoCode, payment.promoCode]] : [])
+  ]);
+
+  ensureSpace(50);
+  y += 12;
+  drawParagraph(doc, labels.notice, { x: left, y, width: contentWidth }, { ...textOptions, size: 8, color: COLORS.muted });
+
+  doc.end();
+  return finished;
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+const fingerprintItinerary = (itinerary, language) => crypto
+  .createHash('sha256')
+  .update(JSON.stringify({ version: LAYOUT_VERSION, language, itinerary }))
+  .digest('hex');
+
+/**
+ * Get the stored itinerary PDF for a booking, rendering and uploading it when
+ * it is missing or out of date. Does not save the booking.
+ * @param {Object} booking - FlightBooking document
+ * @param {string} [language] - en | ar
+ * @returns {Promise<Object>} - { path, fingerprint, generatedAt, language }
+ */
+async function getItineraryPdf(booking, language = 'en') {
+  const lang = ITINERARY_LANGUAGES.includes(language) ? language : 'en';
+  const itinerary = await describeItinerary(booking);
+  const fingerprint = fingerprintItinerary(itinerary, lang);
+
+  const stored = booking.itineraryPdf?.[lang];
+  if (stored?.path && stored.fingerprint === fingerprint) {
+    return { path: stored.path, fingerprint, generatedAt: stored.generatedAt, language: lang };
+  }
+
+  const buffer = await renderItineraryPdf(itinerary, lang);
+  // A new name per version, so cached copies of an outdated PDF are never served
+  const destination = `itineraries/${booking.bookingId}/itinerary-${lang}-${fingerprint.slice(0, 12)}.pdf`;
+  const storedPath = await uploadBuffer(buffer, destination, 'application/pdf');
+
+  if (stored?.path) {
+    try {
+      await deleteFile(stored.path);
+    } catch (error) {
+      console.warn(`Failed to delete outdated itinerary ${stored.path}:`, error.message);
+    }
+  }
+
+  const generatedAt = new Date();
+  booking.set(`itineraryPdf.${lang}`, { path: storedPath, fingerprint, generatedAt });
+  return { path: storedPath, fingerprint, generatedAt, language: lang };
+}
+
+module.exports = {
+  ITINERARY_LANGUAGES,
+  isItineraryAvailable,
+  describeItinerary,
+  renderItineraryPdf,
+  getItineraryPdf
+};
@@ -0,0 +1,106 @@
+/**
+ * Notification Stream Service
+ * Keeps the open Server-Sent Events connections per user and pushes every
+ * newly created Notification to its recipient. Connections live in this
+ * process only, so each server instance streams the notifications it creates.
+ */
+
+const HEARTBEAT_INTERVAL_MS = 25 * 1000;
+const CLIENT_RETRY_MS = 5000;
+
+// userId -> Set of open responses
+const clients = new Map();
+let heartbeatInterval = null;
+
+function writeEvent(res, event, data) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// Comment lines keep proxies from closing idle connections
+function startHeartbeat() {
+  if (heartbeatInterval) return;
+  heartbeatInterval = setInterval(() => {
+    for (const connections of clients.values()) {
+      for (const res of connections) res.write(': ping\n\n');
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeatInterval.unref();
+}
+
+function stopHeartbeatIfIdle() {
+  if (clients.size === 0 && heartbeatInterval) {
+    clearInterval(heartbeatInterval);
+    heartbeatInterval = null;
+  }
+}
+
+/**
+ * Open an SSE stream for a user on an Express response
+ * @param {string} userId - Recipient user id
+ * @param {Object} req - Express request, used to detect disconnects
+ * @param {Object} res - Express response
+ * @param {Object} [initial] - Payload sent as the first 'ready' event
+ */
+function openStream(userId, req, res, initial = {}) {
+  const key = String(userId);
+
+  res.status(200);
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Disable response buffering on nginx
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write(`retry: ${CLIENT_RETRY_MS}\n\n`);
+  writeEvent(res, 'ready', initial);
+
+  if (!clients.has(key)) clients.set(key, new Set());
+  clients.get(key).add(res);
+  startHeartbeat();
+
+  req.on('close', () => {
+    const connections = clients.get(key);
+    if (connections) {
+      connections.delete(res);
+      if (connections.size === 0) clients.delete(key);
+    }
+    stopHeartbeatIfIdle();
+  });
+}
+
+/**
+ * Push a notification to every open stream of its recipient
+ * @param {Object} notification - Notification document or plain object
+ */
+function publishNotification(notification) {
+  if (!notification?.userId) return;
+  const connections = clients.get(String(notification.userId._id || notification.userId));
+  if (!connections || connections.size === 0) return;
+
+  const data = notification.toObject ? notification.toObject() : notification;
+  for (const res of connections) {
+    try {
+      writeEvent(res, 'notification', data);
+    } catch (error) {
+      console.warn('Failed to push notification to stream:', error.message);
+    }
+  }
+}
+
+/**
+ * Number of open streams, for diagnostics
+ * @returns {number}
+ */
+function getOpenStreamCount() {
+  let count = 0;
+  for (const connections of clients.values()) count += connections.size;
+  return count;
+}
+
+module.exports = {
+  openStream,
+  publishNotification,
+  getOpenStreamCount
+};
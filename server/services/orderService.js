@@ -0,0 +1,374 @@
+/**
+ * Order Service
+ * Settles multi-booking checkout orders: marks every booking paid, issues
+ * tickets per booking, and moves failed bookings to refund handling
+ */
+
+const crypto = require('crypto');
+const Order = require('../models/Order');
+const FlightBooking = require('../models/FlightBooking');
+const Notification = require('../models/Notification');
+const { issueOrder } = require('../utils/seeruAPI');
+const { canTransition, setBookingStatus, setPaymentStatus, setSupplierStatus } = require('../utils/bookingStateMachine');
+const { recordPromotionRedemption, releasePromotionReservation } = require('./promotionService');
+
+const ORDER_REF_PREFIX = 'ORD';
+const FAILED_ITEM_STATUSES = ['failed', 'refund_pending', 'refunded'];
+
+/**
+ * Generate a unique order reference (Example: ORD-LZ3K9Q-4F2A)
+ * @returns {string}
+ */
+function generateOrderRef() {
+  const time = Date.now().toString(36).toUpperCase();
+  const random = crypto.randomBytes(2).toString('hex').toUpperCase();
+  return `${ORDER_REF_PREFIX}-${time}-${random}`;
+}
+
+/**
+ * Split an order total across its bookings in proportion to their USD price.
+ * Shares are whole units of the payment currency and always add up to the total.
+ * @param {Array<number>} amountsUsd - USD price per booking
+ * @param {number} rate - Exchange rate from USD to the payment currency
+ * @returns {{ total: number, shares: Array<number> }}
+ */
+function splitOrderAmount(amountsUsd, rate) {
+  const totalUsd = amountsUsd.reduce((sum, value) => sum + value, 0);
+  const total = Math.round(totalUsd * rate);
+  const shares = amountsUsd.map(value => Math.round(value * rate));
+  // Put any rounding difference on the last booking
+  const drift = total - shares.reduce((sum, value) => sum + value, 0);
+  shares[shares.length - 1] += drift;
+  return { total, shares };
+}
+
+/**
+ * Whether a booking already holds the completed payment of an order
+ * @param {Object} booking - FlightBooking document
+ * @param {string} orderRef - Order reference
+ * @returns {boolean}
+ */
+function hasOrderPayment(booking, orderRef) {
+  return (booking.paymentDetails?.transactions || []).some(
+    tx => tx.type === 'payment' && tx.status === 'completed' && tx.orderRef === orderRef
+  );
+}
+
+/**
+ * Give back the promotion uses an unpaid order reserved for its bookings
+ * @param {Object} order - Order document
+ * @param {Set<string>} [skip] - Booking _ids whose discount the caller replaces itself
+ */
+async function releaseOrderPromotions(order, skip = new Set()) {
+  for (const item of order.items) {
+    if (skip.has(String(item.booking))) continue;
+    const booking = await FlightBooking.findById(item.booking);
+    // A booking that moved on to another payment holds that payment's discount instead
+    if (booking && booking.orderRef === order.orderRef) {
+      await releasePromotionReservation(booking);
+    }
+  }
+}
+
+/**
+ * Mark unpaid checkout orders covering any of the given bookings as superseded, so their
+ * gateway callbacks can no longer settle them
+ * @param {Array} bookingIds - FlightBooking _ids
+ * @param {string} notes - Timeline note
+ */
+async function supersedePendingOrders(bookingIds, notes) {
+  const orders = await Order.find({ 'items.booking': { $in: bookingIds }, status: 'pending' });
+  if (orders.length === 0) return;
+
+  await Order.updateMany(
+    { _id: { $in: orders.map(order => order._id) }, status: 'pending' },
+    {
+      $set: { status: 'superseded' },
+      $push: { timeline: { status: 'superseded', date: new Date(), notes, updatedBy: 'system' } }
+    }
+  );
+  const replaced = new Set(bookingIds.map(String));
+  for (const order of orders) {
+    await releaseOrderPromotions(order, replaced);
+  }
+}
+
+/**
+ * Record the order payment on every booking it covers. Safe to call again for the same
+ * order: bookings already holding its payment are left alone. Bookings that can no longer
+ * take the payment (cancelled meanwhile, or paid another way) are failed so the order
+ * refunds their share.
+ * @param {Object} order - Order document
+ * @param {string} transactionNo - Gateway transaction number
+ */
+async function markOrderBookingsPaid(order, transactionNo) {
+  // Work out every booking's outcome before changing any of them
+  const payable = [];
+  for (const item of order.items) {
+    const booking = await FlightBooking.findById(item.booking);
+    if (!booking) {
+      item.status = 'failed';
+      item.error = 'Booking no longer exists';
+      continue;
+    }
+    if (hasOrderPayment(booking, order.orderRef)) {
+      if (item.status === 'pending') item.status = 'confirmed';
+      continue;
+    }
+    if (booking.paymentStatus === 'completed') {
+      item.status = 'failed';
+      item.error = 'Booking was already paid in another payment';
+      continue;
+    }
+    if (!canTransition('paymentStatus', booking.paymentStatus, 'completed') || !canTransition('status', booking.status, 'confirmed')) {
+      item.status = 'failed';
+      item.error = `Booking is ${booking.status} and can no longer be confirmed`;
+      continue;
+    }
+    payable.push({ item, booking });
+  }
+
+  for (const { item, booking } of payable) {
+    booking.paymentDetails.transactions.push({
+      date: new Date(),
+      amount: item.amount,
+      currency: order.currency,
+      type: 'payment',
+      status: 'completed',
+      reference: String(transactionNo),
+      amountUsd: item.amountUsd,
+      exchangeRate: order.exchangeRate,
+      orderRef: order.orderRef
+    });
+    booking.paymentDetails.currency = order.currency;
+    booking.paymentDetails.amount = item.amount;
+    booking.paymentDetails.reference = String(transactionNo);
+    setPaymentStatus(booking, 'completed', { notes: `Paid as part of order ${order.orderRef}` });
+    setBookingStatus(booking, 'confirmed', { notes: 'Payment received' });
+    await recordPromotionRedemption(booking);
+    await booking.save();
+
+    item.status = 'confirmed';
+  }
+}
+
+/**
+ * Issue a single booking's ticket with Seeru
+ * @param {Object} booking - FlightBooking document
+ * @param {Object} order - Order the booking was paid in
+ * @returns {Promise<{ success: boolean, error?: string }>}
+ */
+async function issueBookingTicket(booking, order) {
+  let result;
+  try {
+    result = await issueOrder(booking.seeruOrderId);
+  } catch (error) {
+    return { success: false, error: error.message };
+  }
+  if (!result.success) {
+    return { success: false, error: result.error || 'Ticket issuance failed' };
+  }
+
+  // The ticket exists at the supplier from here on; nothing below may turn it into a failure (and a refund)
+  booking.seeruError = null;
+  booking.seeruIssuedAt = result.issuedAt || new Date();
+  if (!booking.ticketDetails) {
+    booking.ticketDetails = {};
+  }
+  booking.ticketDetails.ticketNumber = result.ticketNumber;
+  booking.ticketDetails.pnr = result.pnr;
+  booking.ticketDetails.eTicketPath = result.ticketUrl;
+  if (canTransition('seeruStatus', booking.seeruStatus, 'issued')) {
+    setSupplierStatus(booking, 'issued');
+  }
+  if (canTransition('status', booking.status, 'issued')) {
+    setBookingStatus(booking, 'issued', { notes: `Ticket issued for order ${order.orderRef}` });
+  }
+  try {
+    await booking.save();
+  } catch (error) {
+    console.error(`❌ Error saving ticket details for ${booking.bookingId}:`, error);
+  }
+  return { success: true };
+}
+
+/**
+ * Queue a refund for a booking that could not be fulfilled after payment
+ * @param {Object} order - Order document
+ * @param {Object} item - Order item
+ * @param {Object|null} booking - FlightBooking document, when it still exists
+ */
+async function queueItemRefund(order, item, booking) {
+  item.status = 'refund_pending';
+  if (!booking) return;
+
+  // Bookings that never took this order's payment keep their own statuses; only the refund is noted
+  const paidByOrder = hasOrderPayment(booking, order.orderRef);
+  if (paidByOrder) {
+    booking.seeruError = item.error;
+    booking.seeruFailedAt = new Date();
+    if (booking.seeruStatus !== 'failed' && canTransition('seeruStatus', booking.seeruStatus, 'failed')) {
+      setSupplierStatus(booking, 'failed', { notes: `Ticket issuance failed: ${item.error}` });
+    }
+  }
+  booking.paymentDetails.transactions.push({
+    date: new Date(),
+    amount: item.amount,
+    currency: order.currency,
+    type: 'refund',
+    status: 'pending',
+    reference: order.transactionNo,
+    amountUsd: item.amountUsd,
+    exchangeRate: order.exchangeRate,
+    orderRef: order.orderRef
+  });
+  const notes = `${paidByOrder ? 'Ticket could not be issued' : 'Booking could not take the order payment'} (${item.error}); ${item.amount} ${order.currency} queued for refund from order ${order.orderRef}`;
+  if (paidByOrder) {
+    setPaymentStatus(booking, 'refund_pending', { notes });
+  } else {
+    booking.timeline.push({ status: 'payment_refund_queued', date: new Date(), notes, updatedBy: 'system' });
+  }
+  await booking.save();
+}
+
+/**
+ * Issue every booking of a paid order and resolve the order outcome.
+ * Bookings that fail are moved to refund handling; if all fail the whole
+ * payment is rolled back into a full refund.
+ * @param {string} orderId - Order id
+ */
+async function fulfilPaidOrder(orderId) {
+  const order = await Order.findById(orderId);
+  if (!order || order.status !== 'paid') return;
+
+  for (const item of order.items) {
+    if (item.status !== 'confirmed') continue;
+
+    const booking = await FlightBooking.findById(item.booking);
+    if (!booking) {
+      item.status = 'failed';
+      item.error = 'Booking no longer exists';
+      continue;
+    }
+
+    // Bookings not yet saved with Seeru stay confirmed and are issued by the monitor or an admin
+    if (!booking.seeruOrderId) continue;
+
+    console.log(`🎫 Issuing ticket for ${booking.bookingId} (order ${order.orderRef})`);
+    const result = await issueBookingTicket(booking, order);
+    if (result.success) {
+      item.status = 'issued';
+    } else {
+      console.error(`❌ Failed to issue ticket for ${booking.bookingId}:`, result.error);
+      item.status = 'failed';
+      item.error = result.error;
+    }
+  }
+
+  const failedItems = order.items.filter(item => FAILED_ITEM_STATUSES.includes(item.status));
+  if (failedItems.length === 0) {
+    order.status = 'completed';
+    order.timeline.push({ status: 'completed', date: new Date(), notes: 'All bookings confirmed', updatedBy: 'system' });
+    await order.save();
+    return;
+  }
+
+  for (const item of failedItems) {
+    const booking = await FlightBooking.findById(item.booking);
+    await queueItemRefund(order, item, booking);
+  }
+
+  const fullRollback = failedItems.length === order.items.length;
+  order.status = fullRollback ? 'refund_pending' : 'partial_refund_pending';
+  order.timeline.push({
+    status: order.status,
+    date: new Date(),
+    notes: `${failedItems.length} of ${order.items.length} bookings failed: ${failedItems.map(item => item.bookingId).join(', ')}`,
+    updatedBy: 'system'
+  });
+  await order.save();
+
+  const refundAmount = failedItems.reduce((sum, item) => sum + (item.amount || 0), 0);
+  await Notification.create({
+    userId: order.userId,
+    title: {
+      en: fullRollback ? "Order could not be completed" : "Part of your order could not be completed",
+      ar: fullRollback ? "تعذر إتمام طلبك" : "تعذر إتمام جزء من طلبك"
+    },
+    message: {
+      en: `We could not issue ${failedItems.map(item => item.bookingId).join(', ')} from order ${order.orderRef}. ${refundAmount} ${order.currency} will be refunded to you.`,
+      ar: `لم نتمكن من إصدار ${failedItems.map(item => item.bookingId).join('، ')} من الطلب ${order.orderRef}. سيتم رد مبلغ ${refundAmount} ${order.currency} إليك.`
+    },
+    type: "payment"
+  });
+}
+
+/**
+ * Record a payment that arrived for an order after a newer checkout replaced it. The
+ * bookings are settled by the newer payment, so the whole amount is queued for refund.
+ * @param {Object} order - Superseded Order document
+ * @param {string} transactionNo - Gateway transaction number
+ */
+async function refundSupersededOrder(order, transactionNo) {
+  order.transactionNo = String(transactionNo);
+  order.paidAt = new Date();
+  for (const item of order.items) {
+    item.status = 'failed';
+    item.error = 'Order had been replaced by a newer payment';
+    const booking = await FlightBooking.findById(item.booking);
+    await queueItemRefund(order, item, booking);
+  }
+  order.status = 'refund_pending';
+  order.timeline.push({
+    status: 'refund_pending',
+    date: new Date(),
+    notes: `Transaction ${transactionNo} received after the order was replaced; queued for refund`,
+    updatedBy: 'system'
+  });
+  await order.save();
+}
+
+/**
+ * Mark every pending refund of an order as completed (refund paid out manually)
+ * @param {Object} order - Order document
+ * @param {string} updatedBy - Admin user id
+ */
+async function completeOrderRefunds(order, updatedBy) {
+  for (const item of order.items) {
+    if (item.status !== 'refund_pending') continue;
+
+    const booking = await FlightBooking.findById(item.booking);
+    if (booking) {
+      booking.paymentDetails.transactions.forEach((tx) => {
+        if (tx.type === 'refund' && tx.status === 'pending' && tx.orderRef === order.orderRef) {
+          tx.status = 'completed';
+          tx.date = new Date();
+        }
+      });
+      if (hasOrderPayment(booking, order.orderRef)) {
+        setPaymentStatus(booking, 'refunded', { notes: `Refund for order ${order.orderRef} completed`, updatedBy });
+        setBookingStatus(booking, 'cancelled', { notes: 'Cancelled after refund', updatedBy });
+      } else {
+        booking.timeline.push({ status: 'payment_refunded', date: new Date(), notes: `Refund for order ${order.orderRef} completed`, updatedBy });
+      }
+      await booking.save();
+    }
+    item.status = 'refunded';
+  }
+
+  order.status = order.status === 'refund_pending' ? 'refunded' : 'partially_refunded';
+  order.timeline.push({ status: order.status, date: new Date(), notes: 'Refunds completed', updatedBy });
+  await order.save();
+}
+
+module.exports = {
+  generateOrderRef,
+  splitOrderAmount,
+  hasOrderPayment,
+  releaseOrderPromotions,
+  supersedePendingOrders,
+  markOrderBookingsPaid,
+  refundSupersededOrder,
+  fulfilPaidOrder,
+  completeOrderRefunds
+};
@@ -0,0 +1,263 @@
+/**
+ * Price Alert Service
+ * Periodically re-runs Seeru searches for watched routes and notifies
+ * customers when the fare drops to or below their target price
+ */
+
+const PriceAlert = require('../models/PriceAlert');
+const Notification = require('../models/Notification');
+const User = require('../models/User');
+const { searchFlights, getSearchResults } = require('../utils/seeruAPI');
+const { sendMail } = require('../utils/email');
+const { getActiveRules, applyPricingToFlight } = require('./pricingService');
+
+const MONITOR_INTERVAL_MS = 15 * 60 * 1000; // Wake up every 15 minutes
+const RECHECK_AFTER_MS = 6 * 60 * 60 * 1000; // Re-search each alert at most every 6 hours
+const ALERTS_PER_RUN = 10;
+const RESULT_POLL_DELAY_MS = 1000;
+const MAX_RESULT_POLLS = 30;
+
+let isRunning = false;
+let checkInterval = null;
+let isChecking = false;
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const formatTripDate = (date) => new Date(date).toISOString().split('T')[0].replace(/-/g, '');
+
+/**
+ * Start monitoring price alerts
+ */
+async function startPriceAlertMonitor() {
+  if (isRunning) {
+    console.log('⚠️ Price alert monitor already running');
+    return;
+  }
+
+  isRunning = true;
+  console.log('🚀 Starting price alert monitor...');
+
+  // Check immediately on start
+  await checkPriceAlerts();
+
+  checkInterval = setInterval(async () => {
+    try {
+      await checkPriceAlerts();
+    } catch (error) {
+      console.error('❌ Error in price alert monitor:', error.message);
+    }
+  }, MONITOR_INTERVAL_MS);
+
+  console.log('✅ Price alert monitor started');
+}
+
+/**
+ * Stop monitoring
+ */
+function stopPriceAlertMonitor() {
+  if (checkInterval) {
+    clearInterval(checkInterval);
+    checkInterval = null;
+  }
+  isRunning = false;
+  console.log('⏹️ Price alert monitor stopped');
+}
+
+/**
+ * Find alerts that are due for a re-search and process them
+ */
+async function checkPriceAlerts() {
+  // Seeru searches can take a while; never overlap runs
+  if (isChecking) return;
+  isChecking = true;
+
+  try {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+
+    // Alerts for dates that have passed can no longer be booked
+    await PriceAlert.updateMany({ active: true, departureDate: { $lt: today } }, { active: false });
+
+    const dueBefore = new Date(Date.now() - RECHECK_AFTER_MS);
+    const alerts = await PriceAlert.find({
+      active: true,
+      $or: [{ lastCheckedAt: null }, { lastCheckedAt: { $lt: dueBefore } }]
+    })
+      .sort({ lastCheckedAt: 1 })
+      .limit(ALERTS_PER_RUN);
+
+    if (alerts.length === 0) {
+      return;
+    }
+
+    console.log(`\n🔔 Checking ${alerts.length} price alerts`);
+
+    for (const alert of alerts) {
+      try {
+        await processPriceAlert(alert);
+      } catch (error) {
+        console.error(`❌ Error processing price alert ${alert._id}:`, error.message);
+        await recordPriceAlertFailure(alert, error);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Error checking price alerts:', error.message);
+  } finally {
+    isChecking = false;
+  }
+}
+
+/**
+ * Search Seeru for the alert's itinerary and return the cheapest total fare (USD), priced
+ * with the current markups and service fees like the search results customers see
+ */
+async function findCheapestFare(alert) {
+  const trips = [`${alert.from}-${alert.to}-${formatTripDate(alert.departureDate)}`];
+  if (alert.returnDate) {
+    trips.push(`${alert.to}-${alert.from}-${formatTripDate(alert.returnDate)}`);
+  }
+
+  const search = await searchFlights(trips.join(':'), alert.passengers, { cabin: alert.cabin, direct: alert.direct });
+  if (!search.success) {
+    throw new Error(search.error);
+  }
+
+  const pricingRules = await getActiveRules();
+  let cheapest = null;
+  let after;
+  for (let i = 0; i < MAX_RESULT_POLLS; i++) {
+    const results = await getSearchResults(search.searchId, after);
+    if (!results.success) {
+      throw new Error(results.error);
+    }
+
+    // Seeru price and tax are totals for all passengers; fares without a breakdown can't be priced
+    results.data.result.forEach((flight) => {
+      const priced = applyPricingToFlight(flight, pricingRules);
+      const total = priced.pricing
+        ? Number(priced.total_price)
+        : Number(flight.price || 0) + Number(flight.tax || 0);
+      if (total > 0 && (cheapest === null || total < cheapest)) {
+        cheapest = total;
+      }
+    });
+
+    after = results.data.lastResult;
+    if (results.data.complete >= 100) break;
+    await sleep(RESULT_POLL_DELAY_MS);
+  }
+
+  return cheapest === null ? null : Math.round(cheapest * 100) / 100;
+}
+
+/**
+ * Re-search a single alert and notify the customer when the target is met
+ */
+async function processPriceAlert(alert) {
+  const price = await findCheapestFare(alert);
+
+  alert.lastCheckedAt = new Date();
+  alert.consecutiveFailures = 0;
+  alert.lastError = undefined;
+  if (price === null) {
+    await alert.save();
+    return;
+  }
+
+  alert.lastPrice = price;
+  if (alert.lowestPrice == null || price < alert.lowestPrice) {
+    alert.lowestPrice = price;
+  }
+
+  // Notify once per drop: only when below target and cheaper than the last price we told them about
+  const shouldNotify = price <= alert.targetPrice
+    && (alert.lastNotifiedPrice == null || price < alert.lastNotifiedPrice);
+
+  if (shouldNotify) {
+    await notifyPriceDrop(alert, price);
+    alert.lastNotifiedAt = new Date();
+    alert.lastNotifiedPrice = price;
+  }
+
+  await alert.save();
+}
+
+/**
+ * Mark a failed re-search as checked, so alerts that keep failing go to the back of the
+ * queue instead of being picked first on every run
+ */
+async function recordPriceAlertFailure(alert, error) {
+  try {
+    await PriceAlert.updateOne(
+      { _id: alert._id },
+      {
+        $set: { lastCheckedAt: new Date(), lastError: String(error?.message || error).slice(0, 500) },
+        $inc: { consecutiveFailures: 1 }
+      }
+    );
+  } catch (updateError) {
+    console.error(`❌ Error recording failure for price alert ${alert._id}:`, updateError.message);
+  }
+}
+
+/**
+ * Create an in-app notification and send an email about a price drop
+ */
+async function notifyPriceDrop(alert, price) {
+  const route = `${alert.from} → ${alert.to}`;
+  const dates = alert.returnDate
+    ? `${formatTripDate(alert.departureDate)} - ${formatTripDate(alert.returnDate)}`
+    : formatTripDate(alert.departureDate);
+
+  await Notification.create({
+    userId: alert.userId,
+    title: {
+      en: "Price drop on a watched route",
+      ar: "انخفاض السعر على مسار تتابعه"
+    },
+    message: {
+      en: `Flights ${route} (${dates}) are now ${price} USD, at or below your target of ${alert.targetPrice} USD.`,
+      ar: `أصبح سعر الرحلات ${route} (${dates}) الآن ${price} دولار، وهو أقل من أو يساوي السعر المستهدف ${alert.targetPrice} دولار.`
+    },
+    type: "price_alert"
+  });
+
+  try {
+    const user = await User.findById(alert.userId).select('name email');
+    if (!user?.email) return;
+
+    await sendMail({
+      to: user.email,
+      subject: `Price drop: ${route} - Tourtastic`,
+      html: `
+        <h2>Good news, the price dropped!</h2>
+        <p>Dear ${user.name || 'traveller'},</p>
+        <p>Flights <strong>${route}</strong> on <strong>${dates}</strong> are now available from <strong>${price} USD</strong>.</p>
+        <p>Your target price was ${alert.targetPrice} USD.</p>
+        <p>Prices change quickly, so book soon to secure this fare.</p>
+        <p>Thank you for choosing Tourtastic!</p>
+      `
+    });
+  } catch (error) {
+    // The in-app notification is already stored; email is best-effort
+    console.error('Error sending price alert email:', error.message);
+  }
+}
+
+/**
+ * Get monitor status
+ */
+function getMonitorStatus() {
+  return {
+    running: isRunning,
+    checking: isChecking,
+    checkInterval: checkInterval ? `${MONITOR_INTERVAL_MS / 60000} minutes` : 'not set'
+  };
+}
+
+module.exports = {
+  startPriceAlertMonitor,
+  stopPriceAlertMonitor,
+  checkPriceAlerts,
+  getMonitorStatus
+};
@@ -0,0 +1,348 @@
+/**
+ * Pricing Service
+ * Applies the admin-managed PricingRules (markups and service fees) on top of
+ * supplier fares. The supplier fares served in search results are kept here
+ * for a while, so a booking is priced from what Seeru returned rather than
+ * from the flight the client posts back; a fare Seeru re-prices before
+ * payment is priced from Seeru's fare check.
+ */
+
+const PricingRule = require('../models/PricingRule');
+
+const PASSENGER_TYPES = ['ADT', 'CHD', 'INF'];
+const RULE_KINDS = ['markup', 'service_fee'];
+const RULES_CACHE_TTL_MS = 60 * 1000;
+const SEARCH_FARE_TTL_MS = 2 * 60 * 60 * 1000;
+const MAX_SEARCH_FARES = 50000;
+
+let rulesCache = { rules: null, loadedAt: 0 };
+// `${searchId}:${tripId}` -> { supplier, context, canHold, cachedAt }, oldest first
+const searchFares = new Map();
+
+const roundAmount = (value) => Math.round((Number(value) || 0) * 100) / 100;
+
+/**
+ * Active rules, cached briefly since every search result is priced with them
+ * @returns {Promise<Array<Object>>}
+ */
+async function getActiveRules() {
+  if (rulesCache.rules && Date.now() - rulesCache.loadedAt < RULES_CACHE_TTL_MS) {
+    return rulesCache.rules;
+  }
+  const rules = await PricingRule.find({ active: true }).lean();
+  rulesCache = { rules, loadedAt: Date.now() };
+  return rules;
+}
+
+/**
+ * Drop cached rules after an admin change
+ */
+function invalidatePricingRules() {
+  rulesCache = { rules: null, loadedAt: 0 };
+}
+
+/**
+ * What rules are matched against, read from a search result flight
+ * @param {Object} flight - Flight as returned by getFlightSearchResults
+ * @returns {{ airline: string|null, origin: string|null, destination: string|null, cabin: string|null, departureDate: Date|null }}
+ */
+function getFareContext(flight) {
+  const firstLeg = flight?.legs?.[0] || {};
+  const segments = Array.isArray(firstLeg.segments) ? firstLeg.segments : [];
+  const firstSegment = segments[0] || {};
+  const lastSegment = segments[segments.length - 1] || {};
+  const departure = firstLeg.from?.date || firstSegment.from?.date || flight?.departureTime;
+  const departureDate = departure ? new Date(departure) : null;
+
+  const code = (value) => (value ? String(value).trim().toUpperCase() : null);
+  return {
+    airline: code(flight?.airline_code || firstSegment.iata || flight?.airlineCode),
+    origin: code(firstSegment.from?.airport || firstLeg.from?.iata || firstLeg.from?.iata_code),
+    destination: code(lastSegment.to?.airport || firstLeg.to?.iata || firstLeg.to?.iata_code),
+    cabin: flight?.search_query?.options?.cabin ? String(flight.search_query.options.cabin).toLowerCase() : null,
+    departureDate: departureDate && !isNaN(departureDate) ? departureDate : null
+  };
+}
+
+/**
+ * Per-passenger supplier fares of a flight
+ * @param {Object} flight - Unpriced fare from Seeru (search result or fare check)
+ * @param {Object} [counts] - Travellers per passenger type, e.g. { ADT: 2 }; defaults to the fare's search query
+ * @returns {Object|null} e.g. { ADT: { count, price, tax, total } }, or null when the flight has no fare breakdown
+ */
+function getSupplierBreakdowns(flight, counts = null) {
+  const breakdowns = flight?.price_breakdowns;
+  const query = flight?.search_query;
+  if (!breakdowns || (!counts && !query)) return null;
+
+  const travellers = counts || { ADT: Number(query.adt) || 0, CHD: Number(query.chd) || 0, INF: Number(query.inf) || 0 };
+  const supplier = {};
+  PASSENGER_TYPES.forEach(type => {
+    if (travellers[type] > 0 && breakdowns[type]) {
+      supplier[type] = {
+        count: travellers[type],
+        price: roundAmount(breakdowns[type].price),
+        tax: roundAmount(breakdowns[type].tax),
+        total: roundAmount(breakdowns[type].total)
+      };
+    }
+  });
+  return Object.keys(supplier).length > 0 ? supplier : null;
+}
+
+/**
+ * Travellers of a booking per passenger type
+ * @param {Object} booking - FlightBooking document
+ * @returns {{ ADT: number, CHD: number, INF: number }}
+ */
+function getBookingPassengerCounts(booking) {
+  const passengers = booking.flightDetails?.passengers || {};
+  return {
+    ADT: Number(passengers.adults) || 0,
+    CHD: Number(passengers.children) || 0,
+    INF: Number(passengers.infants) || 0
+  };
+}
+
+function inRange(date, from, to) {
+  if (!from && !to) return true;
+  if (!date) return false;
+  if (from && date < new Date(from)) return false;
+  if (to && date > new Date(to)) return false;
+  return true;
+}
+
+function ruleMatches(rule, context, passengerType, now) {
+  if (rule.validFrom && now < new Date(rule.validFrom)) return false;
+  if (rule.validTo && now > new Date(rule.validTo)) return false;
+  if (rule.airlines?.length && !rule.airlines.includes(context.airline)) return false;
+  if (rule.origins?.length && !rule.origins.includes(context.origin)) return false;
+  if (rule.destinations?.length && !rule.destinations.includes(context.destination)) return false;
+  if (rule.cabins?.length && !rule.cabins.includes(context.cabin)) return false;
+  if (rule.passengerTypes?.length && !rule.passengerTypes.includes(passengerType)) return false;
+  return inRange(context.departureDate, rule.departureFrom, rule.departureTo);
+}
+
+// Highest priority wins; the most recently changed rule breaks ties
+function pickRule(rules, kind, context, passengerType, now) {
+  return rules
+    .filter(rule => rule.kind === kind && ruleMatches(rule, context, passengerType, now))
+    .sort((a, b) => (b.priority || 0) - (a.priority || 0)
+      || new Date(b.updatedAt || 0) - new Date(a.updatedAt || 0))[0] || null;
+}
+
+function ruleAmount(rule, supplierFare) {
+  if (!rule) return 0;
+  return roundAmount(rule.calculation === 'fixed' ? rule.value : supplierFare * rule.value / 100);
+}
+
+/**
+ * Price supplier fares with the given rules
+ * @param {Object} supplier - Per-passenger supplier fares, see getSupplierBreakdowns()
+ * @param {Object} context - See getFareContext()
+ * @param {Array<Object>} rules - Pricing rules to consider
+ * @param {Date} [now] - Evaluation time for rule validity
+ * @returns {Object} Totals (USD) with a per-passenger breakdown and the rules that applied
+ */
+function priceFare(supplier, context, rules, now = new Date()) {
+  const passengers = {};
+  const applied = [];
+  let supplierTotal = 0;
+  let markup = 0;
+  let serviceFee = 0;
+
+  PASSENGER_TYPES.forEach(type => {
+    const fare = supplier?.[type];
+    if (!fare || !(fare.count > 0)) return;
+
+    const amounts = {};
+    RULE_KINDS.forEach(kind => {
+      const rule = pickRule(rules, kind, context, type, now);
+      amounts[kind] = ruleAmount(rule, fare.total);
+      if (rule && amounts[kind] > 0) {
+        applied.push({
+          rule: rule._id,
+          name: rule.name,
+          kind,
+          passengerType: type,
+          amount: roundAmount(amounts[kind] * fare.count)
+        });
+      }
+    });
+
+    passengers[type] = {
+      count: fare.count,
+      supplier: fare.total,
+      markup: amounts.markup,
+      serviceFee: amounts.service_fee,
+      total: roundAmount(fare.total + amounts.markup + amounts.service_fee)
+    };
+    supplierTotal += fare.total * fare.count;
+    markup += amounts.markup * fare.count;
+    serviceFee += amounts.service_fee * fare.count;
+  });
+
+  return {
+    currency: 'USD',
+    supplierTotal: roundAmount(supplierTotal),
+    markup: roundAmount(markup),
+    serviceFee: roundAmount(serviceFee),
+    total: roundAmount(supplierTotal + markup + serviceFee),
+    passengers,
+    rules: applied
+  };
+}
+
+/**
+ * Apply markups and service fees to a search result in place. The markup is
+ * folded into the base fare; the service fee is shown as its own line.
+ * @param {Object} flight - Flight as built by getFlightSearchResults
+ * @param {Array<Object>} rules - Active pricing rules
+ * @returns {Object} The same flight
+ */
+function applyPricingToFlight(flight, rules) {
+  const supplier = getSupplierBreakdowns(flight);
+  if (!supplier) return flight;
+
+  const pricing = priceFare(supplier, getFareContext(flight), rules);
+  Object.entries(pricing.passengers).forEach(([type, priced]) => {
+    const breakdown = flight.price_breakdowns[type];
+    breakdown.price = roundAmount(supplier[type].price + priced.markup);
+    breakdown.service_fee = priced.serviceFee;
+    breakdown.total = priced.total;
+  });
+
+  const totalPassengers = Object.values(pricing.passengers).reduce((sum, p) => sum + p.count, 0) || 1;
+  flight.price = roundAmount(flight.price + pricing.markup / totalPassengers);
+  flight.service_fee = roundAmount(pricing.serviceFee / totalPassengers);
+  flight.total_price = pricing.total;
+  flight.pricing = {
+    supplier,
+    supplierTotal: pricing.supplierTotal,
+    serviceFee: pricing.serviceFee,
+    total: pricing.total
+  };
+  return flight;
+}
+
+/**
+ * Remember the supplier fares of priced search results for booking later
+ * @param {string} searchId - Seeru search id the results came from
+ * @param {Array<Object>} flights - Flights priced by applyPricingToFlight()
+ */
+function rememberSearchFares(searchId, flights) {
+  if (!searchId) return;
+  const cachedAt = Date.now();
+  flights.forEach(flight => {
+    // These are our own search results: applyPricingToFlight() kept the net fare under `pricing`
+    const supplier = flight?.pricing?.supplier || getSupplierBreakdowns(flight);
+    if (!flight?.trip_id || !supplier) return;
+    const key = `${searchId}:${flight.trip_id}`;
+    // Re-inserting moves the fare to the back, so the oldest fares are dropped first
+    searchFares.delete(key);
+    searchFares.set(key, { supplier, context: getFareContext(flight), canHold: flight.can_hold === true, cachedAt });
+  });
+  for (const [key, entry] of searchFares) {
+    if (searchFares.size <= MAX_SEARCH_FARES && cachedAt - entry.cachedAt < SEARCH_FARE_TTL_MS) break;
+    searchFares.delete(key);
+  }
+}
+
+/**
+ * Supplier fare served for a search result, if it is still remembered
+ * @param {string} searchId
+ * @param {string} tripId
+ * @returns {{ supplier: Object, context: Object, canHold: boolean }|null}
+ */
+function getSearchFare(searchId, tripId) {
+  const entry = searchFares.get(`${searchId}:${tripId}`);
+  if (!entry || Date.now() - entry.cachedAt >= SEARCH_FARE_TTL_MS) return null;
+  return entry;
+}
+
+/**
+ * Price a flight being booked from the supplier fare its search returned, with the current rules
+ * @param {Object} flight - Selected flight as sent by the client; only its search_id and trip_id are used
+ * @returns {Promise<Object|null>} Pricing (see priceFare) or null when the search result is no longer
+ * remembered; the fare is then priced by the re-check before payment
+ */
+async function priceSelectedFlight(flight) {
+  const fare = getSearchFare(flight?.search_id || flight?.raw?.search_id, flight?.trip_id || flight?.raw?.trip_id);
+  if (!fare) return null;
+  return priceFare(fare.supplier, fare.context, await getActiveRules());
+}
+
+/**
+ * Price a booking again after the supplier changed its total fare. The new
+ * total is split across the booking's passengers in the proportions of
+ * Seeru's fare, or of the remembered search result when Seeru's fare has no
+ * breakdown. Nothing the client posted is used.
+ * @param {Object} booking - FlightBooking document
+ * @param {number} supplierTotal - New supplier total (USD)
+ * @param {Object} [fare] - Fare returned by Seeru's fare check
+ * @returns {Promise<Object>} Pricing (see priceFare)
+ */
+async function repriceFromSupplierTotal(booking, supplierTotal, fare = null) {
+  const counts = getBookingPassengerCounts(booking);
+  const selected = booking.flightDetails?.selectedFlight?.raw || {};
+  const remembered = getSearchFare(selected.search_id, selected.trip_id);
+  const previous = getSupplierBreakdowns(fare, counts) || remembered?.supplier;
+  const previousTotal = previous
+    ? Object.values(previous).reduce((sum, passengerFare) => sum + passengerFare.total * passengerFare.count, 0)
+    : 0;
+
+  const supplier = {};
+  if (previous && previousTotal > 0) {
+    const ratio = supplierTotal / previousTotal;
+    Object.entries(previous).forEach(([type, passengerFare]) => {
+      supplier[type] = { ...passengerFare, total: roundAmount(passengerFare.total * ratio) };
+    });
+  } else {
+    // No breakdown to go by: every traveller pays the same share
+    const travellers = PASSENGER_TYPES.reduce((sum, type) => sum + counts[type], 0) || 1;
+    PASSENGER_TYPES.forEach(type => {
+      if (counts[type] > 0) {
+        supplier[type] = { count: counts[type], total: roundAmount(supplierTotal / travellers) };
+      }
+    });
+    if (Object.keys(supplier).length === 0) {
+      supplier.ADT = { count: 1, total: roundAmount(supplierTotal) };
+    }
+  }
+
+  const context = fare?.legs?.length ? getFareContext(fare) : remembered?.context || getFareContext(null);
+  const pricing = priceFare(supplier, context, await getActiveRules());
+  // Keep the exact supplier total rather than the sum of rounded shares
+  const drift = roundAmount(supplierTotal - pricing.supplierTotal);
+  pricing.supplierTotal = roundAmount(supplierTotal);
+  pricing.total = roundAmount(pricing.total + drift);
+  return pricing;
+}
+
+/**
+ * Store pricing on a booking: customer price, supplier cost and profit
+ * @param {Object} booking - FlightBooking document (not saved here)
+ * @param {Object} pricing - See priceFare()
+ */
+function setBookingPricing(booking, pricing) {
+  booking.pricing = { ...pricing, pricedAt: new Date() };
+  booking.flightDetails.selectedFlight.price.total = pricing.total;
+  booking.flightDetails.selectedFlight.price.currency = pricing.currency;
+  booking.adminData = booking.adminData || {};
+  booking.adminData.cost = { amount: pricing.supplierTotal, currency: pricing.currency };
+  booking.adminData.profit = roundAmount(pricing.markup + pricing.serviceFee);
+}
+
+module.exports = {
+  getActiveRules,
+  invalidatePricingRules,
+  getFareContext,
+  getSupplierBreakdowns,
+  priceFare,
+  applyPricingToFlight,
+  rememberSearchFares,
+  getSearchFare,
+  priceSelectedFlight,
+  repriceFromSupplierTotal,
+  setBookingPricing
+};
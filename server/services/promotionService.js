@@ -0,0 +1,246 @@
+/**
+ * Promotion Service
+ * Checks promo codes against the bookings being paid for and works out the
+ * discount on each. The discount is stored on the booking's paymentDetails
+ * when payment starts, together with a reserved use of the promotion so
+ * concurrent checkouts can't exceed its limit. The reservation is released
+ * when the payment fails or is replaced, and kept once the payment completes.
+ */
+
+const Promotion = require('../models/Promotion');
+const FlightBooking = require('../models/FlightBooking');
+const { getFareContext } = require('./pricingService');
+
+const roundAmount = (value) => Math.round((Number(value) || 0) * 100) / 100;
+
+const normaliseCode = (code) => String(code || '').trim().toUpperCase();
+
+/**
+ * Why a promotion cannot be used right now by this customer, if anything
+ * @param {Object} promotion - Promotion document
+ * @param {string} userId - Customer id
+ * @param {Date} now
+ * @returns {Promise<{ reason: string|null, remaining?: number }>} remaining is how many more bookings it may cover
+ */
+async function checkAvailability(promotion, userId, now) {
+  if (!promotion.active) return { reason: 'inactive' };
+  if (promotion.validFrom && now < promotion.validFrom) return { reason: 'not_started' };
+  if (promotion.validTo && now > promotion.validTo) return { reason: 'expired' };
+
+  let remaining = Infinity;
+  if (promotion.maxRedemptions) {
+    remaining = promotion.maxRedemptions - (promotion.redemptionCount || 0);
+    if (remaining <= 0) return { reason: 'usage_limit' };
+  }
+  if (promotion.perUserLimit) {
+    // Uses held by the customer's unpaid payments count too, or parallel checkouts could each take the last one
+    const used = await FlightBooking.countDocuments({
+      userId,
+      'paymentDetails.discount.promotion': promotion._id,
+      $or: [
+        { 'paymentDetails.discount.redeemedAt': { $ne: null } },
+        { 'paymentDetails.discount.reservedAt': { $ne: null } }
+      ]
+    });
+    const userRemaining = promotion.perUserLimit - used;
+    if (userRemaining <= 0) return { reason: 'user_limit' };
+    remaining = Math.min(remaining, userRemaining);
+  }
+  return { reason: null, remaining };
+}
+
+/**
+ * Whether a booking falls within the promotion's airline and route restrictions
+ * @param {Object} promotion
+ * @param {Object} booking - FlightBooking document
+ * @returns {boolean}
+ */
+function bookingMatchesPromotion(promotion, booking) {
+  const context = getFareContext(booking.flightDetails?.selectedFlight?.raw);
+  if (promotion.airlines?.length && !promotion.airlines.includes(context.airline)) return false;
+  if (promotion.origins?.length && !promotion.origins.includes(context.origin)) return false;
+  if (promotion.destinations?.length && !promotion.destinations.includes(context.destination)) return false;
+  return true;
+}
+
+/**
+ * Discount a promotion gives on a booking total; never more than the total itself
+ * @param {Object} promotion
+ * @param {number} amountUsd - Booking total (USD)
+ * @returns {number}
+ */
+function computeDiscount(promotion, amountUsd) {
+  let discount = promotion.discountType === 'fixed'
+    ? promotion.value
+    : amountUsd * promotion.value / 100;
+  if (promotion.discountType === 'percentage' && promotion.maxDiscount) {
+    discount = Math.min(discount, promotion.maxDiscount);
+  }
+  return roundAmount(Math.min(discount, amountUsd));
+}
+
+// Split a fixed amount across the eligible bookings in proportion to their totals, to the cent
+function splitFixedDiscount(value, results) {
+  const eligible = results.filter(result => result.eligible);
+  const totalUsd = eligible.reduce((sum, result) => sum + result.originalAmountUsd, 0);
+  const discount = roundAmount(Math.min(value, totalUsd));
+  let left = discount;
+  eligible.forEach((result, i) => {
+    const share = i === eligible.length - 1
+      ? left
+      : roundAmount(discount * result.originalAmountUsd / totalUsd);
+    result.discountUsd = roundAmount(Math.min(share, result.originalAmountUsd));
+    result.amountUsd = roundAmount(result.originalAmountUsd - result.discountUsd);
+    left = roundAmount(left - result.discountUsd);
+  });
+}
+
+/**
+ * Work out a promo code's discount on the bookings being paid for. Bookings
+ * outside the restrictions, or beyond the customer's remaining uses, get none.
+ * Percentage codes discount each booking; a fixed code takes its value off the
+ * payment once, shared across the eligible bookings.
+ * @param {string} code - Promo code as entered
+ * @param {string} userId - Customer id
+ * @param {Array<{ booking: Object, amountUsd: number }>} items - Bookings with their current total (USD)
+ * @returns {Promise<Object>} { success, reason?, message?, promotion?, items: [{ bookingId, eligible, reason?, originalAmountUsd, discountUsd, amountUsd }] }
+ */
+async function evaluatePromotion(code, userId, items) {
+  const promotion = await Promotion.findOne({ code: normaliseCode(code) });
+  if (!promotion) {
+    return { success: false, reason: 'not_found', message: 'Promo code not found', items: [] };
+  }
+
+  const now = new Date();
+  const { reason, remaining } = await checkAvailability(promotion, userId, now);
+  if (reason) {
+    return { success: false, reason, message: `Promo code ${promotion.code} cannot be used (${reason})`, promotion, items: [] };
+  }
+
+  let uses = remaining;
+  const results = items.map(({ booking, amountUsd }) => {
+    const result = {
+      bookingId: booking.bookingId,
+      eligible: false,
+      originalAmountUsd: roundAmount(amountUsd),
+      discountUsd: 0,
+      amountUsd: roundAmount(amountUsd)
+    };
+    if (!bookingMatchesPromotion(promotion, booking)) {
+      result.reason = 'not_applicable';
+    } else if (amountUsd < (promotion.minAmount || 0)) {
+      result.reason = 'min_amount';
+    } else if (uses <= 0) {
+      result.reason = 'user_limit';
+    } else {
+      uses -= 1;
+      result.eligible = true;
+      result.discountUsd = computeDiscount(promotion, amountUsd);
+      result.amountUsd = roundAmount(amountUsd - result.discountUsd);
+    }
+    return result;
+  });
+
+  if (promotion.discountType === 'fixed') {
+    splitFixedDiscount(promotion.value, results);
+  }
+
+  if (!results.some(result => result.eligible)) {
+    const first = results[0]?.reason || 'not_applicable';
+    return { success: false, reason: first, message: `Promo code ${promotion.code} does not apply to these bookings`, promotion, items: results };
+  }
+  return { success: true, promotion, items: results };
+}
+
+/**
+ * Record the discount (or its absence) for the payment being started
+ * @param {Object} booking - FlightBooking document (not saved here)
+ * @param {Object|null} promotion - Promotion document
+ * @param {Object|null} result - Matching entry of evaluatePromotion().items
+ */
+function setBookingDiscount(booking, promotion, result) {
+  if (!booking.paymentDetails) {
+    booking.paymentDetails = {};
+  }
+  if (!promotion || !result?.eligible) {
+    booking.paymentDetails.discount = undefined;
+    return;
+  }
+  booking.paymentDetails.discount = {
+    promotion: promotion._id,
+    code: promotion.code,
+    discountType: promotion.discountType,
+    value: promotion.value,
+    originalAmountUsd: result.originalAmountUsd,
+    amountUsd: result.discountUsd,
+    appliedAt: new Date(),
+    reservedAt: new Date(),
+    redeemedAt: null
+  };
+}
+
+/**
+ * Reserve uses of a promotion for a payment being started. Fails instead of
+ * going over maxRedemptions, however many checkouts run at once.
+ * @param {Object} promotion - Promotion document
+ * @param {number} count - Bookings the code discounts in this payment
+ * @returns {Promise<boolean>}
+ */
+async function reservePromotionUses(promotion, count) {
+  if (count <= 0) return true;
+  const filter = { _id: promotion._id };
+  if (promotion.maxRedemptions) {
+    filter.redemptionCount = { $lte: promotion.maxRedemptions - count };
+  }
+  const result = await Promotion.updateOne(filter, { $inc: { redemptionCount: count } });
+  return result.modifiedCount === 1;
+}
+
+/**
+ * Give back the use a booking's unpaid discount reserved, once. The booking
+ * document is updated in place as well as in the database.
+ * @param {Object} booking - FlightBooking document
+ */
+async function releasePromotionReservation(booking) {
+  const discount = booking.paymentDetails?.discount;
+  if (!discount?.promotion || !discount.reservedAt || discount.redeemedAt) return;
+
+  // Only the request that clears the reservation gives the use back
+  const cleared = await FlightBooking.updateOne(
+    { _id: booking._id, 'paymentDetails.discount.reservedAt': { $ne: null }, 'paymentDetails.discount.redeemedAt': null },
+    { $set: { 'paymentDetails.discount.reservedAt': null } }
+  );
+  discount.reservedAt = null;
+  if (cleared.modifiedCount === 1) {
+    await Promotion.updateOne({ _id: discount.promotion, redemptionCount: { $gt: 0 } }, { $inc: { redemptionCount: -1 } });
+  }
+}
+
+/**
+ * Count the redemption of a paid booking's promo code, once. A use reserved
+ * at checkout is kept; discounts without one are counted now. Profit taken
+ * from pricing is reduced by the discount the customer received.
+ * @param {Object} booking - FlightBooking document (saved by the caller)
+ */
+async function recordPromotionRedemption(booking) {
+  const discount = booking.paymentDetails?.discount;
+  if (!discount?.promotion || discount.redeemedAt) return;
+
+  discount.redeemedAt = new Date();
+  if (!discount.reservedAt) {
+    await Promotion.updateOne({ _id: discount.promotion }, { $inc: { redemptionCount: 1 } });
+  }
+  if (typeof booking.adminData?.profit === 'number') {
+    booking.adminData.profit = roundAmount(booking.adminData.profit - (discount.amountUsd || 0));
+  }
+}
+
+module.exports = {
+  normaliseCode,
+  evaluatePromotion,
+  computeDiscount,
+  setBookingDiscount,
+  reservePromotionUses,
+  releasePromotionReservation,
+  recordPromotionRedemption
+};
@@ -5,6 +5,7 @@
 
 const FlightBooking = require('../models/FlightBooking');
 const { issueOrder } = require('../utils/seeruAPI');
+const { setSupplierStatus, setBookingStatus } = require('../utils/bookingStateMachine');
 
 let isRunning = false;
 let checkInterval = null;
@@ -105,13 +106,14 @@ async function processBookingTicketIssuance(booking) {
     console.log(`   ✅ Ticket issued successfully`);
 
     // Update booking status
-    booking.seeruStatus = 'issued';
+    setSupplierStatus(booking, 'issued');
+    setBookingStatus(booking, 'issued', { notes: 'Ticket issued by the issuance monitor' });
     booking.seeruError = null;
     booking.seeruIssuedAt = new Date();
     await booking.save();
 
-    // Note: Email will be sent via webhook notification from Seeru
-    // when ticket.issued event is received
+    // Note: Email and in-app notification will be sent via webhook notification
+    // from Seeru when ticket.issued event is received
     console.log(`   📧 Email will be sent via Seeru webhook notification`);
 
     console.log(`   ✅ Booking ${booking.bookingId} completed`);
@@ -0,0 +1,491 @@
+/**
+ * Webhook Event Service
+ * Verifies, logs and applies Seeru webhook events. Every delivery is stored
+ * as a WebhookEvent; failed handlers are retried with exponential backoff
+ * and can be replayed by staff.
+ */
+
+const crypto = require('crypto');
+const WebhookEvent = require('../models/WebhookEvent');
+const FlightBooking = require('../models/FlightBooking');
+const Notification = require('../models/Notification');
+const sendEmail = require('../utils/sendEmail');
+const { setSupplierStatus, InvalidTransitionError } = require('../utils/bookingStateMachine');
+
+const MAX_ATTEMPTS = 6;
+const RETRY_BASE_DELAY_MS = 60 * 1000; // 1, 2, 4, 8, 16 minutes between attempts
+const RETRY_INTERVAL_MS = 60 * 1000;
+const EVENTS_PER_RETRY_RUN = 20;
+
+let retryInterval = null;
+let isRetrying = false;
+
+/**
+ * Shared secret used to sign Seeru webhooks. Kept in the environment only: settings
+ * can be read publicly, so the secret must never be stored there.
+ * @returns {Promise<string|null>}
+ */
+async function getSeeruWebhookSecret() {
+  return process.env.SEERU_WEBHOOK_SECRET || null;
+}
+
+/**
+ * Check the HMAC-SHA256 signature of a raw webhook body
+ * @param {Buffer|string} rawBody - Request body exactly as received
+ * @param {string} signature - Hex digest from the X-Seeru-Signature header, optionally prefixed with "sha256="
+ * @param {string} secret - Shared secret
+ * @returns {boolean}
+ */
+function verifySeeruSignature(rawBody, signature, secret) {
+  if (!rawBody || !signature || !secret) return false;
+  const provided = String(signature).trim().replace(/^sha256=/i, '');
+  const expected = crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+  if (provided.length !== expected.length) return false;
+  return crypto.timingSafeEqual(Buffer.from(provided, 'utf8'), Buffer.from(expected, 'utf8'));
+}
+
+/**
+ * Store a webhook delivery; redeliveries of the same order event reuse the existing record
+ * @param {Object} payload - Parsed webhook body
+ * @param {boolean} signatureValid - Whether the signature was verified
+ * @returns {Promise<{ event: Object, duplicate: boolean }>}
+ */
+async function recordSeeruEvent(payload, signatureValid) {
+  const dedupeKey = `seeru:${payload.order_id}:${payload.event}`;
+  try {
+    const event = await WebhookEvent.create({
+      provider: 'seeru',
+      event: payload.event,
+      orderId: String(payload.order_id),
+      dedupeKey,
+      payload,
+      signatureValid
+    });
+    return { event, duplicate: false };
+  } catch (error) {
+    if (error.code !== 11000) throw error;
+    const event = await WebhookEvent.findOneAndUpdate(
+      { dedupeKey },
+      { $inc: { deliveries: 1 } },
+      { new: true }
+    );
+    return { event, duplicate: true };
+  }
+}
+
+/**
+ * Run the handler for a stored event and record the outcome
+ * @param {Object} event - WebhookEvent document
+ * @returns {Promise<Object>} - The updated event
+ */
+async function processWebhookEvent(event) {
+  event.status = 'processing';
+  event.attempts += 1;
+  await event.save();
+
+  try {
+    await applySeeruEvent(event.payload);
+    event.status = 'processed';
+    event.processedAt = new Date();
+    event.lastError = undefined;
+    event.nextAttemptAt = undefined;
+  } catch (error) {
+    console.error(`❌ Webhook ${event.dedupeKey} failed (attempt ${event.attempts}):`, error.message);
+    event.lastError = error.message;
+    // An event that conflicts with the booking state will never apply, so retrying is pointless
+    if (error instanceof InvalidTransitionError || event.attempts >= MAX_ATTEMPTS) {
+      event.status = 'dead';
+      event.nextAttemptAt = undefined;
+    } else {
+      event.status = 'failed';
+      event.nextAttemptAt = new Date(Date.now() + RETRY_BASE_DELAY_MS * 2 ** (event.attempts - 1));
+    }
+  }
+
+  await event.save();
+  return event;
+}
+
+/**
+ * Re-run a stored event on request of staff, whatever its current status
+ * @param {string} eventId - WebhookEvent id
+ * @param {string} replayedBy - Admin name
+ * @returns {Promise<Object|null>} - The updated event, or null if it does not exist
+ */
+async function replayWebhookEvent(eventId, replayedBy) {
+  const event = await WebhookEvent.findById(eventId);
+  if (!event) return null;
+  event.lastReplayedBy = replayedBy;
+  return processWebhookEvent(event);
+}
+
+/**
+ * Retry failed events whose backoff has elapsed
+ */
+async function retryFailedEvents() {
+  if (isRetrying) return;
+  isRetrying = true;
+  try {
+    const events = await WebhookEvent.find({
+      status: 'failed',
+      nextAttemptAt: { $lte: new Date() }
+    }).sort({ nextAttemptAt: 1 }).limit(EVENTS_PER_RETRY_RUN);
+
+    for (const event of events) {
+      await processWebhookEvent(event);
+    }
+  } catch (error) {
+    console.error('❌ Error retrying webhook events:', error.message);
+  } finally {
+    isRetrying = false;
+  }
+}
+
+/**
+ * Start retrying failed webhook events in the background
+ */
+function startWebhookRetryMonitor() {
+  if (retryInterval) {
+    console.log('⚠️ Webhook retry monitor already running');
+    return;
+  }
+  retryInterval = setInterval(retryFailedEvents, RETRY_INTERVAL_MS);
+  console.log('✅ Webhook retry monitor started');
+}
+
+/**
+ * Stop retrying failed webhook events
+ */
+function stopWebhookRetryMonitor() {
+  if (retryInterval) {
+    clearInterval(retryInterval);
+    retryInterval = null;
+  }
+}
+
+/**
+ * Apply a Seeru webhook payload to its booking. Throws when the event cannot be applied.
+ * @param {Object} payload - Webhook body
+ */
+async function applySeeruEvent(payload) {
+  const { event, order_id, booking_id, tickets, error_message } = payload;
+
+  // Find booking by Seeru order ID or booking ID
+  let booking = null;
+  if (booking_id) {
+    booking = await FlightBooking.findById(booking_id);
+  } else if (order_id) {
+    booking = await FlightBooking.findOne({ seeruOrderId: order_id });
+  }
+
+  // The order may be saved on our side only after Seeru notifies us, so this is retried
+  if (!booking) {
+    throw new Error(`Booking not found for order ${order_id}`);
+  }
+
+  switch (event) {
+    case 'order.created':
+      await handleOrderCreated(booking, order_id);
+      break;
+
+    case 'order.confirmed':
+      await handleOrderConfirmed(booking, order_id);
+      break;
+
+    case 'ticket.issued':
+      await handleTicketIssued(booking, order_id, tickets);
+      break;
+
+    case 'ticket.failed':
+      await handleTicketFailed(booking, order_id, error_message);
+      break;
+
+    case 'order.cancelled':
+      await handleOrderCancelled(booking, order_id);
+      break;
+
+    case 'order.expired':
+      await handleOrderExpired(booking, order_id);
+      break;
+
+    default:
+      throw new Error(`Unknown webhook event: ${event}`);
+  }
+}
+
+/**
+ * Handle order created event
+ */
+async function handleOrderCreated(booking, orderId) {
+  console.log('Processing order.created event for:', orderId);
+
+  booking.seeruOrderId = orderId;
+  setSupplierStatus(booking, 'saved', { notes: 'Seeru webhook: order.created' });
+  booking.seeruSavedAt = new Date();
+
+  await booking.save();
+
+  // Send notification email to customer
+  await sendOrderCreatedEmail(booking, orderId);
+}
+
+/**
+ * Handle order confirmed event
+ */
+async function handleOrderConfirmed(booking, orderId) {
+  console.log('Processing order.confirmed event for:', orderId);
+
+  setSupplierStatus(booking, 'confirmed', { notes: 'Seeru webhook: order.confirmed' });
+  booking.seeruConfirmedAt = new Date();
+
+  await booking.save();
+}
+
+/**
+ * Handle ticket issued event
+ */
+async function handleTicketIssued(booking, orderId, tickets) {
+  console.log('Processing ticket.issued event for:', orderId);
+
+  // Extract ticket information from webhook
+  if (tickets && tickets.length > 0) {
+    const firstTicket = tickets[0];
+    booking.ticketNumber = firstTicket.ticket_number || firstTicket.etkt;
+    booking.pnr = firstTicket.pnr || firstTicket.airline_pnr;
+    booking.ticketUrl = firstTicket.ticket_url || '';
+  }
+
+  setSupplierStatus(booking, 'issued', { notes: 'Seeru webhook: ticket.issued' });
+  booking.seeruIssuedAt = new Date();
+
+  await booking.save();
+
+  // Send ticket email to customer
+  await sendTicketEmail(booking, tickets);
+
+  await notifyBookingOwner(booking, {
+    en: 'Your ticket has been issued',
+    ar: 'تم إصدار تذكرتك'
+  }, {
+    en: `The e-ticket for booking ${booking.bookingId} is ready${booking.pnr ? ` (PNR ${booking.pnr})` : ''}.`,
+    ar: `التذكرة الإلكترونية للحجز ${booking.bookingId} جاهزة${booking.pnr ? ` (رقم الحجز ${booking.pnr})` : ''}.`
+  });
+}
+
+/**
+ * Handle ticket failed event
+ */
+async function handleTicketFailed(booking, orderId, errorMessage) {
+  console.log('Processing ticket.failed event for:', orderId);
+
+  setSupplierStatus(booking, 'failed', { notes: `Seeru webhook: ticket.failed (${errorMessage || 'no reason given'})` });
+  booking.seeruError = errorMessage || 'Ticket issuance failed';
+  booking.seeruFailedAt = new Date();
+
+  await booking.save();
+
+  // Send error notification email
+  await sendTicketFailedEmail(booking, errorMessage);
+
+  await notifyBookingOwner(booking, {
+    en: 'Ticket issuance problem',
+    ar: 'مشكلة في إصدار التذكرة'
+  }, {
+    en: `We could not issue the ticket for booking ${booking.bookingId}. Our team is working on it.`,
+    ar: `تعذر إصدار التذكرة للحجز ${booking.bookingId}. يعمل فريقنا على حل المشكلة.`
+  });
+}
+
+/**
+ * Handle order cancelled event
+ */
+async function handleOrderCancelled(booking, orderId) {
+  console.log('Processing order.cancelled event for:', orderId);
+
+  setSupplierStatus(booking, 'cancelled', { notes: 'Seeru webhook: order.cancelled' });
+  booking.seeruCancelledAt = new Date();
+
+  await booking.save();
+
+  // Send cancellation email
+  await sendOrderCancelledEmail(booking);
+
+  await notifyBookingOwner(booking, {
+    en: 'Booking cancelled',
+    ar: 'تم إلغاء الحجز'
+  }, {
+    en: `Booking ${booking.bookingId} has been cancelled by the airline supplier.`,
+    ar: `تم إلغاء الحجز ${booking.bookingId} من قبل مزود الطيران.`
+  });
+}
+
+/**
+ * Handle order expired event
+ */
+async function handleOrderExpired(booking, orderId) {
+  console.log('Processing order.expired event for:', orderId);
+
+  setSupplierStatus(booking, 'expired', { notes: 'Seeru webhook: order.expired' });
+  booking.seeruExpiredAt = new Date();
+
+  await booking.save();
+
+  // Send expiration email
+  await sendOrderExpiredEmail(booking);
+
+  await notifyBookingOwner(booking, {
+    en: 'Booking expired',
+    ar: 'انتهت صلاحية الحجز'
+  }, {
+    en: `Booking ${booking.bookingId} expired before it was ticketed.`,
+    ar: `انتهت صلاحية الحجز ${booking.bookingId} قبل إصدار التذكرة.`
+  });
+}
+
+/**
+ * Email notification functions
+ */
+
+/**
+ * In-app notification for the booking's owner; guests have none
+ */
+async function notifyBookingOwner(booking, title, message) {
+  if (!booking.userId) return;
+  try {
+    await Notification.create({ userId: booking.userId, title, message, type: 'booking' });
+  } catch (error) {
+    console.error('Error creating booking notification:', error);
+  }
+}
+
+async function sendOrderCreatedEmail(booking, orderId) {
+  try {
+    const subject = 'Your booking has been confirmed - Tourtastic';
+    const html = `
+      <h2>Booking Confirmed</h2>
+      <p>Dear ${booking.customerName},</p>
+      <p>Your booking has been confirmed with Seeru Travel.</p>
+      <p><strong>Order ID:</strong> ${orderId}</p>
+      <p><strong>Booking ID:</strong> ${booking.bookingId}</p>
+      <p>We are processing your ticket. You will receive your e-ticket shortly.</p>
+      <p>Thank you for booking with Tourtastic!</p>
+    `;
+
+    await sendEmail({
+      to: booking.customerEmail,
+      subject,
+      html
+    });
+  } catch (error) {
+    console.error('Error sending order created email:', error);
+  }
+}
+
+async function sendTicketEmail(booking, tickets) {
+  try {
+    let ticketInfo = '';
+    if (tickets && tickets.length > 0) {
+      const ticket = tickets[0];
+      ticketInfo = `
+        <p><strong>Ticket Number:</strong> ${ticket.ticket_number || ticket.etkt}</p>
+        <p><strong>PNR:</strong> ${ticket.pnr || ticket.airline_pnr}</p>
+      `;
+    }
+
+    const subject = 'Your e-ticket is ready - Tourtastic';
+    const html = `
+      <h2>Your E-Ticket is Ready!</h2>
+      <p>Dear ${booking.customerName},</p>
+      <p>Your e-ticket has been successfully issued.</p>
+      <p><strong>Booking ID:</strong> ${booking.bookingId}</p>
+      ${ticketInfo}
+      <p>Please check your email for the complete ticket details.</p>
+      <p>Thank you for booking with Tourtastic!</p>
+    `;
+
+    await sendEmail({
+      to: booking.customerEmail,
+      subject,
+      html
+    });
+  } catch (error) {
+    console.error('Error sending ticket email:', error);
+  }
+}
+
+async function sendTicketFailedEmail(booking, errorMessage) {
+  try {
+    const subject = 'Ticket Issuance Failed - Action Required - Tourtastic';
+    const html = `
+      <h2>Ticket Issuance Failed</h2>
+      <p>Dear ${booking.customerName},</p>
+      <p>Unfortunately, we encountered an issue while issuing your ticket.</p>
+      <p><strong>Booking ID:</strong> ${booking.bookingId}</p>
+      <p><strong>Error:</strong> ${errorMessage}</p>
+      <p>Our team will contact you shortly to resolve this issue.</p>
+      <p>Thank you for your patience!</p>
+    `;
+
+    await sendEmail({
+      to: booking.customerEmail,
+      subject,
+      html
+    });
+  } catch (error) {
+    console.error('Error sending ticket failed email:', error);
+  }
+}
+
+async function sendOrderCancelledEmail(booking) {
+  try {
+    const subject = 'Your booking has been cancelled - Tourtastic';
+    const html = `
+      <h2>Booking Cancelled</h2>
+      <p>Dear ${booking.customerName},</p>
+      <p>Your booking has been cancelled.</p>
+      <p><strong>Booking ID:</strong> ${booking.bookingId}</p>
+      <p>If you have any questions, please contact our support team.</p>
+      <p>Thank you for booking with Tourtastic!</p>
+    `;
+
+    await sendEmail({
+      to: booking.customerEmail,
+      subject,
+      html
+    });
+  } catch (error) {
+    console.error('Error sending order cancelled email:', error);
+  }
+}
+
+async function sendOrderExpiredEmail(booking) {
+  try {
+    const subject = 'Your booking has expired - Tourtastic';
+    const html = `
+      <h2>Booking Expired</h2>
+      <p>Dear ${booking.customerName},</p>
+      <p>Your booking has expired and is no longer available.</p>
+      <p><strong>Booking ID:</strong> ${booking.bookingId}</p>
+      <p>Please contact our support team if you would like to rebook.</p>
+      <p>Thank you for your interest in Tourtastic!</p>
+    `;
+
+    await sendEmail({
+      to: booking.customerEmail,
+      subject,
+      html
+    });
+  } catch (error) {
+    console.error('Error sending order expired email:', error);
+  }
+}
+
+module.exports = {
+  getSeeruWebhookSecret,
+  verifySeeruSignature,
+  recordSeeruEvent,
+  processWebhookEvent,
+  replayWebhookEvent,
+  startWebhookRetryMonitor,
+  stopWebhookRetryMonitor
+};
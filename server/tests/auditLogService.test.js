@@ -0,0 +1,27 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const { diffSnapshots } = require('../services/auditLogService');
+
+test('diffSnapshots reports changed paths only', () => {
+  const changes = diffSnapshots({ status: 'pending', amount: 100 }, { status: 'confirmed', amount: 100 });
+  assert.deepEqual(changes, [{ path: 'status', before: 'pending', after: 'confirmed' }]);
+});
+
+test('diffSnapshots redacts sensitive fields', () => {
+  const changes = diffSnapshots(
+    { contact: { passportNumber: 'N1', apiToken: 'a' } },
+    { contact: { passportNumber: 'N2', apiToken: 'b' } }
+  );
+  assert.deepEqual(changes.map(change => [change.before, change.after]), [
+    ['[redacted]', '[redacted]'],
+    ['[redacted]', '[redacted]']
+  ]);
+});
+
+test('diffSnapshots redacts sensitive fields inside arrays', () => {
+  const [change] = diffSnapshots(
+    { passengerDetails: [] },
+    { passengerDetails: [{ firstName: 'Sami', passportNumber: 'N1', documentExpiry: '2030-01-01' }] }
+  );
+  assert.deepEqual(change.after, [{ firstName: 'Sami', passportNumber: '[redacted]', documentExpiry: '[redacted]' }]);
+});
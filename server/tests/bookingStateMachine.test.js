@@ -0,0 +1,80 @@
+const { test } = require('node:test');
+const assert = require('node:assert/strict');
+const {
+  canTransition,
+  transition,
+  setPaymentStatus,
+  InvalidTransitionError
+} = require('../utils/bookingStateMachine');
+
+const makeBooking = (fields = {}) => ({
+  status: 'pending',
+  paymentStatus: 'pending',
+  seeruStatus: 'pending',
+  paymentDetails: { status: 'pending' },
+  timeline: [],
+  ...fields
+});
+
+test('canTransition follows the booking status machine', () => {
+  assert.equal(canTransition('status', 'pending', 'confirmed'), true);
+  assert.equal(canTransition('status', 'confirmed', 'issued'), true);
+  assert.equal(canTransition('status', 'pending', 'issued'), false);
+  assert.equal(canTransition('status', 'cancelled', 'confirmed'), false);
+});
+
+test('canTransition follows the payment status machine', () => {
+  assert.equal(canTransition('paymentStatus', 'pending', 'completed'), true);
+  assert.equal(canTransition('paymentStatus', 'failed', 'pending'), true);
+  assert.equal(canTransition('paymentStatus', 'completed', 'refund_pending'), true);
+  assert.equal(canTransition('paymentStatus', 'refunded', 'completed'), false);
+});
+
+test('canTransition allows staying put and any state for legacy bookings', () => {
+  assert.equal(canTransition('status', 'cancelled', 'cancelled'), true);
+  assert.equal(canTransition('status', undefined, 'issued'), true);
+  assert.equal(canTransition('status', 'pending', 'unknown'), false);
+  assert.throws(() => canTransition('unknown', 'pending', 'confirmed'), /Unknown booking status field/);
+});
+
+test('transition updates the field and records it on the timeline', () => {
+  const booking = makeBooking();
+  assert.equal(transition(booking, 'status', 'confirmed', { notes: 'Payment received', updatedBy: 'admin' }), true);
+  assert.equal(booking.status, 'confirmed');
+  assert.equal(booking.timeline.length, 1);
+  assert.equal(booking.timeline[0].status, 'confirmed');
+  assert.equal(booking.timeline[0].notes, 'Payment received');
+  assert.equal(booking.timeline[0].updatedBy, 'admin');
+});
+
+test('transition prefixes timeline entries and mirrors the payment status', () => {
+  const booking = makeBooking();
+  setPaymentStatus(booking, 'completed');
+  assert.equal(booking.paymentStatus, 'completed');
+  assert.equal(booking.paymentDetails.status, 'completed');
+  assert.equal(booking.timeline[0].status, 'payment_completed');
+});
+
+test('transition to the current state is a no-op', () => {
+  const booking = makeBooking({ status: 'confirmed' });
+  assert.equal(transition(booking, 'status', 'confirmed'), false);
+  assert.equal(booking.timeline.length, 0);
+});
+
+test('transition throws on an illegal change and leaves the booking alone', () => {
+  const booking = makeBooking({ status: 'cancelled' });
+  assert.throws(() => transition(booking, 'status', 'confirmed'), (error) => {
+    assert.ok(error instanceof InvalidTransitionError);
+    assert.equal(error.statusCode, 409);
+    assert.equal(error.from, 'cancelled');
+    assert.equal(error.to, 'confirmed');
+    return true;
+  });
+  assert.equal(booking.status, 'cancelled');
+  assert.equal(booking.timeline.length, 0);
+});
+
+test('transition throws on unknown states and fields', () => {
+  assert.throws(() => transition(makeBooking(), 'status', 'unknown'), InvalidTransitionError);
+  assert.throws(() => transition(makeBooking(), 'unknown', 'confirmed'), /Unknown booking status field/);
+});
@@ -0,0 +1,213 @@
+const { test, afterEach, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const mongoose = require('mongoose');
+const seeruAPI = require('../utils/seeruAPI');
+const Order = require('../models/Order');
+const FlightBooking = require('../models/FlightBooking');
+const Promotion = require('../models/Promotion');
+const Notification = require('../models/Notification');
+
+// orderService keeps its own reference to issueOrder, so the stub has to be in place before it loads
+const issueOrder = mock.fn(async () => ({ success: false, error: 'not stubbed' }));
+seeruAPI.issueOrder = issueOrder;
+
+const {
+  splitOrderAmount,
+  supersedePendingOrders,
+  markOrderBookingsPaid,
+  refundSupersededOrder,
+  fulfilPaidOrder,
+  completeOrderRefunds
+} = require('../services/orderService');
+
+// Bookings and orders are documents kept in memory; save() only records that it ran
+const useBookings = (...fields) => {
+  const bookings = fields.map((extra, index) => {
+    const booking = new FlightBooking({
+      bookingId: `BK-${index + 1}`,
+      status: 'pending',
+      paymentStatus: 'pending',
+      paymentDetails: { transactions: [] },
+      ...extra
+    });
+    mock.method(booking, 'save', async () => booking);
+    return booking;
+  });
+  mock.method(FlightBooking, 'findById', async id => bookings.find(booking => booking._id.equals(id)) || null);
+  return bookings;
+};
+
+const makeOrder = (bookings, fields = {}) => {
+  const order = new Order({
+    orderRef: 'ORD-1',
+    userId: new mongoose.Types.ObjectId(),
+    amount: bookings.length * 1000,
+    currency: 'SYP',
+    exchangeRate: 10,
+    items: bookings.map(booking => ({ booking: booking._id, bookingId: booking.bookingId, amount: 1000, amountUsd: 100 })),
+    ...fields
+  });
+  mock.method(order, 'save', async () => order);
+  return order;
+};
+
+const payments = booking => booking.paymentDetails.transactions.filter(tx => tx.type === 'payment');
+const refunds = booking => booking.paymentDetails.transactions.filter(tx => tx.type === 'refund');
+
+afterEach(() => {
+  mock.restoreAll();
+  issueOrder.mock.resetCalls();
+});
+
+test('splitOrderAmount converts each booking and the total', () => {
+  assert.deepEqual(splitOrderAmount([100, 50], 10), { total: 1500, shares: [1000, 500] });
+});
+
+test('splitOrderAmount shares always add up to the total', () => {
+  const amounts = [10.005, 20.005, 30.005];
+  const { total, shares } = splitOrderAmount(amounts, 1.5);
+  assert.equal(shares.reduce((sum, share) => sum + share, 0), total);
+  assert.equal(total, Math.round(60.015 * 1.5));
+});
+
+test('splitOrderAmount puts the rounding difference on the last booking', () => {
+  // Each share rounds down to 0 while the total rounds up to 1
+  assert.deepEqual(splitOrderAmount([0.4, 0.4, 0.4], 1), { total: 1, shares: [0, 0, 1] });
+});
+
+test('splitOrderAmount handles a single booking', () => {
+  assert.deepEqual(splitOrderAmount([123.45], 14000), { total: 1728300, shares: [1728300] });
+});
+
+test('markOrderBookingsPaid records the payment on every booking once', async () => {
+  const bookings = useBookings({}, {});
+  const order = makeOrder(bookings);
+
+  await markOrderBookingsPaid(order, 'TX-1');
+  await markOrderBookingsPaid(order, 'TX-1');
+
+  assert.deepEqual(order.items.map(item => item.status), ['confirmed', 'confirmed']);
+  for (const booking of bookings) {
+    assert.equal(booking.paymentStatus, 'completed');
+    assert.equal(booking.status, 'confirmed');
+    assert.equal(payments(booking).length, 1);
+    assert.equal(payments(booking)[0].orderRef, 'ORD-1');
+    assert.equal(payments(booking)[0].reference, 'TX-1');
+  }
+});
+
+test('markOrderBookingsPaid fails bookings that can no longer take the payment', async () => {
+  const [open, paid, cancelled] = useBookings({}, { paymentStatus: 'completed', status: 'confirmed' }, { status: 'cancelled' });
+  const order = makeOrder([open, paid, cancelled]);
+
+  await markOrderBookingsPaid(order, 'TX-1');
+
+  assert.deepEqual(order.items.map(item => item.status), ['confirmed', 'failed', 'failed']);
+  assert.equal(order.items[1].error, 'Booking was already paid in another payment');
+  assert.equal(payments(paid).length, 0);
+  assert.equal(cancelled.paymentStatus, 'pending');
+  assert.equal(cancelled.save.mock.callCount(), 0);
+});
+
+test('refundSupersededOrder queues a refund without touching unpaid bookings', async () => {
+  const bookings = useBookings({}, {});
+  const order = makeOrder(bookings, { status: 'superseded' });
+
+  await refundSupersededOrder(order, 'TX-LATE');
+
+  assert.equal(order.status, 'refund_pending');
+  assert.equal(order.transactionNo, 'TX-LATE');
+  assert.deepEqual(order.items.map(item => item.status), ['refund_pending', 'refund_pending']);
+  for (const booking of bookings) {
+    assert.equal(booking.paymentStatus, 'pending');
+    assert.equal(booking.status, 'pending');
+    assert.equal(refunds(booking).length, 1);
+    assert.equal(refunds(booking)[0].amount, 1000);
+    assert.equal(booking.timeline.at(-1).status, 'payment_refund_queued');
+  }
+});
+
+test('supersedePendingOrders releases promotions only for bookings left out of the new checkout', async () => {
+  const [kept, dropped] = useBookings({ orderRef: 'ORD-1' }, { orderRef: 'ORD-1' });
+  const order = makeOrder([kept, dropped]);
+  mock.method(Order, 'find', async () => [order]);
+  const updateMany = mock.method(Order, 'updateMany', async () => ({ modifiedCount: 1 }));
+  const released = [];
+  mock.method(FlightBooking, 'updateOne', async (filter) => {
+    released.push(String(filter._id));
+    return { modifiedCount: 1 };
+  });
+  for (const booking of [kept, dropped]) {
+    booking.paymentDetails.discount = { promotion: new mongoose.Types.ObjectId(), reservedAt: new Date() };
+  }
+  mock.method(Promotion, 'updateOne', async () => ({ modifiedCount: 1 }));
+
+  await supersedePendingOrders([kept._id], 'Replaced by a new checkout');
+
+  assert.equal(updateMany.mock.callCount(), 1);
+  assert.deepEqual(updateMany.mock.calls[0].arguments[1].$set, { status: 'superseded' });
+  assert.deepEqual(released, [String(dropped._id)]);
+});
+
+test('supersedePendingOrders does nothing without pending orders', async () => {
+  mock.method(Order, 'find', async () => []);
+  const updateMany = mock.method(Order, 'updateMany', async () => ({}));
+  await supersedePendingOrders([new mongoose.Types.ObjectId()], 'Replaced');
+  assert.equal(updateMany.mock.callCount(), 0);
+});
+
+test('fulfilPaidOrder refunds bookings whose ticket could not be issued', async () => {
+  const bookings = useBookings({ seeruOrderId: 'S-1', seeruStatus: 'saved' }, { seeruOrderId: 'S-2', seeruStatus: 'saved' });
+  const order = makeOrder(bookings, { status: 'paid' });
+  await markOrderBookingsPaid(order, 'TX-1');
+  mock.method(Order, 'findById', async () => order);
+  mock.method(Notification, 'create', async () => ({}));
+  issueOrder.mock.mockImplementation(async orderId => (orderId === 'S-1'
+    ? { success: true, ticketNumber: 'T-1', pnr: 'PNR1' }
+    : { success: false, error: 'Fare expired' }));
+
+  await fulfilPaidOrder(order._id);
+
+  assert.deepEqual(order.items.map(item => item.status), ['issued', 'refund_pending']);
+  assert.equal(order.status, 'partial_refund_pending');
+  assert.equal(bookings[0].status, 'issued');
+  assert.equal(bookings[0].ticketDetails.ticketNumber, 'T-1');
+  assert.equal(bookings[1].paymentStatus, 'refund_pending');
+  assert.equal(refunds(bookings[1]).length, 1);
+});
+
+test('fulfilPaidOrder keeps an issued ticket when the booking status cannot follow', async () => {
+  const [booking] = useBookings({ seeruOrderId: 'S-1', seeruStatus: 'saved' });
+  const order = makeOrder([booking], { status: 'paid' });
+  await markOrderBookingsPaid(order, 'TX-1');
+  // Cancelled by an admin while the ticket was being issued
+  booking.status = 'cancelled';
+  mock.method(Order, 'findById', async () => order);
+  issueOrder.mock.mockImplementation(async () => ({ success: true, ticketNumber: 'T-1', pnr: 'PNR1' }));
+
+  await fulfilPaidOrder(order._id);
+
+  assert.equal(order.status, 'completed');
+  assert.equal(order.items[0].status, 'issued');
+  assert.equal(booking.ticketDetails.ticketNumber, 'T-1');
+  assert.equal(booking.seeruStatus, 'issued');
+  assert.equal(refunds(booking).length, 0);
+});
+
+test('completeOrderRefunds settles the queued refunds and cancels refunded bookings', async () => {
+  const bookings = useBookings({ seeruOrderId: 'S-1' });
+  const order = makeOrder(bookings, { status: 'paid' });
+  await markOrderBookingsPaid(order, 'TX-1');
+  mock.method(Order, 'findById', async () => order);
+  mock.method(Notification, 'create', async () => ({}));
+  issueOrder.mock.mockImplementation(async () => ({ success: false, error: 'Fare expired' }));
+  await fulfilPaidOrder(order._id);
+
+  await completeOrderRefunds(order, 'admin-1');
+
+  assert.equal(order.status, 'refunded');
+  assert.equal(order.items[0].status, 'refunded');
+  assert.equal(bookings[0].paymentStatus, 'refunded');
+  assert.equal(bookings[0].status, 'cancelled');
+  assert.equal(refunds(bookings[0])[0].status, 'completed');
+});
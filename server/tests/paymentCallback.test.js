@@ -0,0 +1,99 @@
+const { test, afterEach, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const crypto = require('crypto');
+
+process.env.MERCHANT_KEY = 'merchant';
+process.env.MERCHANT_SECRET = 'secret';
+
+const FlightBooking = require('../models/FlightBooking');
+const Notification = require('../models/Notification');
+const Order = require('../models/Order');
+const { handlePaymentCallback } = require('../controllers/paymentController');
+
+const token = (transactionNo, amount, orderRef) => crypto
+  .createHash('md5')
+  .update(`merchant${'secret'}${transactionNo}${amount}${orderRef}`, 'utf8')
+  .digest('hex')
+  .toUpperCase();
+
+// asyncHandler doesn't return the handler's promise; settle on the response instead
+const callback = (transactionNo, amount) => new Promise((resolve, reject) => {
+  const res = {
+    status(code) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body) {
+      resolve({ statusCode: this.statusCode, body });
+      return this;
+    }
+  };
+  const query = { orderRef: 'BK-1', transactionNo, amount: String(amount), isSuccess: 'true', token: token(transactionNo, amount, 'BK-1') };
+  handlePaymentCallback({ query, body: {} }, res, reject);
+});
+
+const useBooking = (transactions) => {
+  const booking = new FlightBooking({
+    bookingId: 'BK-1',
+    status: 'pending',
+    paymentStatus: 'pending',
+    paymentDetails: { transactions }
+  });
+  mock.method(booking, 'save', async () => booking);
+  mock.method(FlightBooking, 'findOne', async () => booking);
+  mock.method(Order, 'findOne', async () => null);
+  mock.method(Notification, 'create', async () => ({}));
+  return booking;
+};
+
+afterEach(() => mock.restoreAll());
+
+test('a replaced attempt paid late is refunded without touching the booking payment status', async () => {
+  const booking = useBooking([
+    { type: 'payment', status: 'superseded', amount: 1000, currency: 'SYP', date: new Date() },
+    { type: 'payment', status: 'pending', amount: 1200, currency: 'SYP', date: new Date() }
+  ]);
+
+  const result = await callback('TX-OLD', 1000);
+
+  assert.equal(result.statusCode, 200);
+  assert.equal(booking.paymentStatus, 'pending');
+  assert.equal(booking.status, 'pending');
+  const [old, current, refund] = booking.paymentDetails.transactions;
+  assert.equal(old.status, 'completed');
+  assert.equal(old.reference, 'TX-OLD');
+  assert.equal(current.status, 'pending');
+  assert.equal(refund.type, 'refund');
+  assert.equal(refund.status, 'pending');
+  assert.equal(refund.amount, 1000);
+});
+
+test('the new attempt still settles after the replaced one was paid', async () => {
+  const booking = useBooking([
+    { type: 'payment', status: 'superseded', amount: 1000, currency: 'SYP', date: new Date() },
+    { type: 'payment', status: 'pending', amount: 1200, currency: 'SYP', date: new Date() }
+  ]);
+
+  await callback('TX-OLD', 1000);
+  const result = await callback('TX-NEW', 1200);
+
+  assert.equal(result.statusCode, 200);
+  assert.equal(booking.paymentStatus, 'completed');
+  assert.equal(booking.status, 'confirmed');
+  assert.equal(booking.paymentDetails.reference, 'TX-NEW');
+  const refunds = booking.paymentDetails.transactions.filter(tx => tx.type === 'refund');
+  assert.equal(refunds.length, 1);
+  assert.equal(refunds[0].reference, 'TX-OLD');
+});
+
+test('a retried callback for a settled transaction is not processed again', async () => {
+  const booking = useBooking([
+    { type: 'payment', status: 'pending', amount: 1200, currency: 'SYP', date: new Date() }
+  ]);
+
+  await callback('TX-NEW', 1200);
+  const result = await callback('TX-NEW', 1200);
+
+  assert.equal(result.body.message, 'Payment callback already processed');
+  assert.equal(booking.paymentStatus, 'completed');
+});
@@ -0,0 +1,131 @@
+const { test, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const PricingRule = require('../models/PricingRule');
+const { priceFare, priceSelectedFlight, rememberSearchFares, repriceFromSupplierTotal, invalidatePricingRules } = require('../services/pricingService');
+
+const context = {
+  airline: 'RJ',
+  origin: 'DAM',
+  destination: 'DXB',
+  cabin: 'economy',
+  departureDate: new Date('2026-12-01T10:00:00Z')
+};
+const now = new Date('2026-10-01T00:00:00Z');
+
+const rule = (fields) => ({
+  _id: fields.name,
+  active: true,
+  calculation: 'percentage',
+  priority: 0,
+  ...fields
+});
+
+test('priceFare without rules returns the supplier fare', () => {
+  const pricing = priceFare({ ADT: { count: 2, total: 150 } }, context, [], now);
+  assert.equal(pricing.supplierTotal, 300);
+  assert.equal(pricing.markup, 0);
+  assert.equal(pricing.serviceFee, 0);
+  assert.equal(pricing.total, 300);
+  assert.deepEqual(pricing.rules, []);
+});
+
+test('priceFare applies percentage markups and fixed service fees per passenger', () => {
+  const rules = [
+    rule({ name: 'markup', kind: 'markup', value: 10 }),
+    rule({ name: 'fee', kind: 'service_fee', calculation: 'fixed', value: 5 })
+  ];
+  const pricing = priceFare({ ADT: { count: 2, total: 100 }, CHD: { count: 1, total: 80 } }, context, rules, now);
+  assert.deepEqual(pricing.passengers.ADT, { count: 2, supplier: 100, markup: 10, serviceFee: 5, total: 115 });
+  assert.deepEqual(pricing.passengers.CHD, { count: 1, supplier: 80, markup: 8, serviceFee: 5, total: 93 });
+  assert.equal(pricing.supplierTotal, 280);
+  assert.equal(pricing.markup, 28);
+  assert.equal(pricing.serviceFee, 15);
+  assert.equal(pricing.total, 323);
+  assert.equal(pricing.rules.length, 4);
+});
+
+test('priceFare picks the highest-priority matching rule', () => {
+  const rules = [
+    rule({ name: 'general', kind: 'markup', value: 10 }),
+    rule({ name: 'airline', kind: 'markup', value: 20, priority: 5, airlines: ['RJ'] }),
+    rule({ name: 'other airline', kind: 'markup', value: 50, priority: 9, airlines: ['QR'] })
+  ];
+  const pricing = priceFare({ ADT: { count: 1, total: 100 } }, context, rules, now);
+  assert.equal(pricing.markup, 20);
+  assert.equal(pricing.rules[0].name, 'airline');
+});
+
+test('priceFare skips rules outside their validity or for other passenger types', () => {
+  const rules = [
+    rule({ name: 'expired', kind: 'markup', value: 10, validTo: new Date('2026-09-01T00:00:00Z') }),
+    rule({ name: 'children', kind: 'service_fee', calculation: 'fixed', value: 7, passengerTypes: ['CHD'] })
+  ];
+  const pricing = priceFare({ ADT: { count: 1, total: 100 }, CHD: { count: 1, total: 60 } }, context, rules, now);
+  assert.equal(pricing.markup, 0);
+  assert.equal(pricing.passengers.ADT.serviceFee, 0);
+  assert.equal(pricing.passengers.CHD.serviceFee, 7);
+  assert.equal(pricing.total, 167);
+});
+
+test('priceFare ignores passenger types with no travellers', () => {
+  const pricing = priceFare({ ADT: { count: 1, total: 100 }, INF: { count: 0, total: 10 } }, context, [], now);
+  assert.deepEqual(Object.keys(pricing.passengers), ['ADT']);
+  assert.equal(pricing.total, 100);
+});
+
+test('priceSelectedFlight prices from the remembered search result, not the posted fare', async () => {
+  const searched = {
+    trip_id: 'trip-1',
+    search_query: { adt: 1, chd: 0, inf: 0 },
+    price_breakdowns: { ADT: { price: 90, tax: 10, total: 100 } }
+  };
+  rememberSearchFares('search-1', [searched]);
+  mock.method(PricingRule, 'find', () => ({ lean: async () => [] }));
+  const posted = {
+    search_id: 'search-1',
+    trip_id: 'trip-1',
+    search_query: { adt: 1 },
+    price_breakdowns: { ADT: { price: 1, tax: 0, total: 1 } }
+  };
+  const pricing = await priceSelectedFlight(posted);
+  assert.equal(pricing.supplierTotal, 100);
+  assert.equal(await priceSelectedFlight({ ...posted, trip_id: 'trip-2' }), null);
+  mock.restoreAll();
+});
+
+const bookingFor = (passengers, raw) => ({
+  flightDetails: { passengers, selectedFlight: { raw } }
+});
+const useServiceFee = (value) => {
+  invalidatePricingRules();
+  mock.method(PricingRule, 'find', () => ({ lean: async () => [rule({ name: 'fee', kind: 'service_fee', calculation: 'fixed', value })] }));
+};
+
+test('repriceFromSupplierTotal splits the new fare with Seeru\'s breakdown and the booking\'s travellers', async () => {
+  useServiceFee(5);
+  // The client claims one adult at a tiny fare; only the booking's counts and Seeru's fare count
+  const booking = bookingFor({ adults: 2, children: 1, infants: 0 }, {
+    pricing: { supplier: { ADT: { count: 1, total: 1 } } },
+    search_query: { adt: 1 },
+    price_breakdowns: { ADT: { price: 1, tax: 0, total: 1 } }
+  });
+  const fare = {
+    legs: [{ segments: [{ iata: 'RJ', from: { airport: 'DAM' }, to: { airport: 'DXB' } }] }],
+    price_breakdowns: { ADT: { price: 90, tax: 10, total: 100 }, CHD: { price: 40, tax: 10, total: 50 } }
+  };
+  const pricing = await repriceFromSupplierTotal(booking, 500, fare);
+  assert.deepEqual(pricing.passengers.ADT, { count: 2, supplier: 200, markup: 0, serviceFee: 5, total: 205 });
+  assert.equal(pricing.passengers.CHD.supplier, 100);
+  assert.equal(pricing.supplierTotal, 500);
+  assert.equal(pricing.serviceFee, 15);
+  assert.equal(pricing.total, 515);
+  mock.restoreAll();
+});
+
+test('repriceFromSupplierTotal charges per-passenger fees for every traveller without a breakdown', async () => {
+  useServiceFee(5);
+  const pricing = await repriceFromSupplierTotal(bookingFor({ adults: 3 }, {}), 300);
+  assert.deepEqual(pricing.passengers.ADT, { count: 3, supplier: 100, markup: 0, serviceFee: 5, total: 105 });
+  assert.equal(pricing.total, 315);
+  mock.restoreAll();
+});
@@ -0,0 +1,147 @@
+const { test, afterEach, mock } = require('node:test');
+const assert = require('node:assert/strict');
+const Promotion = require('../models/Promotion');
+const FlightBooking = require('../models/FlightBooking');
+const { evaluatePromotion, reservePromotionUses, releasePromotionReservation } = require('../services/promotionService');
+
+const flight = (airline, from, to) => ({
+  legs: [{ segments: [{ iata: airline, from: { airport: from }, to: { airport: to } }] }]
+});
+const booking = (bookingId, airline = 'RJ', from = 'DAM', to = 'DXB') => ({
+  bookingId,
+  flightDetails: { selectedFlight: { raw: flight(airline, from, to) } }
+});
+
+// Promotions are looked up and counted through the models; serve them from memory
+const usePromotion = (fields, usedByCustomer = 0) => {
+  const promotion = {
+    _id: 'promo-1',
+    code: 'SAVE10',
+    active: true,
+    discountType: 'percentage',
+    value: 10,
+    redemptionCount: 0,
+    ...fields
+  };
+  mock.method(Promotion, 'findOne', async () => promotion);
+  mock.method(FlightBooking, 'countDocuments', async () => usedByCustomer);
+  return promotion;
+};
+
+afterEach(() => mock.restoreAll());
+
+test('evaluatePromotion rejects unknown codes', async () => {
+  mock.method(Promotion, 'findOne', async () => null);
+  const result = await evaluatePromotion('nope', 'user-1', [{ booking: booking('BK-1'), amountUsd: 100 }]);
+  assert.equal(result.success, false);
+  assert.equal(result.reason, 'not_found');
+});
+
+test('evaluatePromotion discounts every eligible booking', async () => {
+  usePromotion({ maxDiscount: 15 });
+  const result = await evaluatePromotion(' save10 ', 'user-1', [
+    { booking: booking('BK-1'), amountUsd: 100 },
+    { booking: booking('BK-2'), amountUsd: 300 }
+  ]);
+  assert.equal(result.success, true);
+  assert.deepEqual(result.items.map(item => [item.discountUsd, item.amountUsd]), [[10, 90], [15, 285]]);
+});
+
+test('evaluatePromotion reports inactive and used-up promotions', async () => {
+  usePromotion({ active: false });
+  assert.equal((await evaluatePromotion('SAVE10', 'user-1', [])).reason, 'inactive');
+  mock.restoreAll();
+
+  usePromotion({ maxRedemptions: 5, redemptionCount: 5 });
+  assert.equal((await evaluatePromotion('SAVE10', 'user-1', [])).reason, 'usage_limit');
+  mock.restoreAll();
+
+  usePromotion({ perUserLimit: 1 }, 1);
+  assert.equal((await evaluatePromotion('SAVE10', 'user-1', [])).reason, 'user_limit');
+});
+
+test('evaluatePromotion counts the customer\'s reserved uses against their limit', async () => {
+  usePromotion({ perUserLimit: 1 });
+  const countDocuments = mock.method(FlightBooking, 'countDocuments', async (filter) => (filter.$or ? 1 : 0));
+  const result = await evaluatePromotion('SAVE10', 'user-1', [{ booking: booking('BK-1'), amountUsd: 100 }]);
+  assert.equal(result.reason, 'user_limit');
+  assert.deepEqual(countDocuments.mock.calls[0].arguments[0].$or, [
+    { 'paymentDetails.discount.redeemedAt': { $ne: null } },
+    { 'paymentDetails.discount.reservedAt': { $ne: null } }
+  ]);
+});
+
+test('evaluatePromotion skips bookings outside its restrictions or minimum', async () => {
+  usePromotion({ airlines: ['RJ'], minAmount: 50 });
+  const result = await evaluatePromotion('SAVE10', 'user-1', [
+    { booking: booking('BK-1', 'QR'), amountUsd: 100 },
+    { booking: booking('BK-2'), amountUsd: 40 },
+    { booking: booking('BK-3'), amountUsd: 200 }
+  ]);
+  assert.equal(result.success, true);
+  assert.deepEqual(result.items.map(item => item.reason), ['not_applicable', 'min_amount', undefined]);
+  assert.equal(result.items[2].discountUsd, 20);
+});
+
+test('evaluatePromotion stops at the customer\'s remaining uses', async () => {
+  usePromotion({ perUserLimit: 2 }, 1);
+  const result = await evaluatePromotion('SAVE10', 'user-1', [
+    { booking: booking('BK-1'), amountUsd: 100 },
+    { booking: booking('BK-2'), amountUsd: 100 }
+  ]);
+  assert.deepEqual(result.items.map(item => item.eligible), [true, false]);
+  assert.equal(result.items[1].reason, 'user_limit');
+});
+
+test('evaluatePromotion fails when no booking qualifies', async () => {
+  usePromotion({ destinations: ['IST'] });
+  const result = await evaluatePromotion('SAVE10', 'user-1', [{ booking: booking('BK-1'), amountUsd: 100 }]);
+  assert.equal(result.success, false);
+  assert.equal(result.reason, 'not_applicable');
+});
+
+test('evaluatePromotion takes a fixed discount off the payment once', async () => {
+  usePromotion({ discountType: 'fixed', value: 30, perUserLimit: 5 });
+  const result = await evaluatePromotion('SAVE10', 'user-1', [
+    { booking: booking('BK-1'), amountUsd: 100 },
+    { booking: booking('BK-2'), amountUsd: 200 }
+  ]);
+  assert.deepEqual(result.items.map(item => item.discountUsd), [10, 20]);
+  assert.deepEqual(result.items.map(item => item.amountUsd), [90, 180]);
+});
+
+test('evaluatePromotion caps a fixed discount at the payment total', async () => {
+  usePromotion({ discountType: 'fixed', value: 50, perUserLimit: 5 });
+  const result = await evaluatePromotion('SAVE10', 'user-1', [
+    { booking: booking('BK-1'), amountUsd: 10 },
+    { booking: booking('BK-2'), amountUsd: 20 }
+  ]);
+  assert.deepEqual(result.items.map(item => item.amountUsd), [0, 0]);
+});
+
+test('reservePromotionUses only reserves uses that are left', async () => {
+  const updateOne = mock.method(Promotion, 'updateOne', async () => ({ modifiedCount: 0 }));
+  assert.equal(await reservePromotionUses({ _id: 'promo-1', maxRedemptions: 5 }, 2), false);
+  assert.deepEqual(updateOne.mock.calls[0].arguments, [
+    { _id: 'promo-1', redemptionCount: { $lte: 3 } },
+    { $inc: { redemptionCount: 2 } }
+  ]);
+});
+
+test('releasePromotionReservation gives the use back once', async () => {
+  const promotionUpdate = mock.method(Promotion, 'updateOne', async () => ({ modifiedCount: 1 }));
+  let cleared = false;
+  mock.method(FlightBooking, 'updateOne', async () => {
+    const modifiedCount = cleared ? 0 : 1;
+    cleared = true;
+    return { modifiedCount };
+  });
+  const discounted = { _id: 'b1', paymentDetails: { discount: { promotion: 'promo-1', reservedAt: new Date(), redeemedAt: null } } };
+  const copy = { _id: 'b1', paymentDetails: { discount: { promotion: 'promo-1', reservedAt: new Date(), redeemedAt: null } } };
+
+  await releasePromotionReservation(discounted);
+  await releasePromotionReservation(copy);
+  assert.equal(discounted.paymentDetails.discount.reservedAt, null);
+  assert.equal(promotionUpdate.mock.callCount(), 1);
+  assert.deepEqual(promotionUpdate.mock.calls[0].arguments[1], { $inc: { redemptionCount: -1 } });
+});
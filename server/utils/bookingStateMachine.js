@@ -0,0 +1,160 @@
+/**
+ * Booking State Machine
+ * Legal transitions for a FlightBooking's booking, payment and supplier (Seeru)
+ * status. Every status change goes through here so it is validated and
+ * recorded on the booking timeline.
+ */
+
+const MACHINES = {
+  status: {
+    label: 'booking status',
+    timelinePrefix: '',
+    transitions: {
+      pending: ['confirmed', 'cancelled'],
+      confirmed: ['issued', 'done', 'cancelled'],
+      issued: ['done', 'cancelled'],
+      // Completed bookings can still be cancelled for a refund
+      done: ['cancelled'],
+      cancelled: []
+    }
+  },
+  paymentStatus: {
+    label: 'payment status',
+    timelinePrefix: 'payment_',
+    transitions: {
+      pending: ['completed', 'failed'],
+      // A failed attempt can be retried
+      failed: ['pending', 'completed'],
+      completed: ['refund_pending', 'refunded'],
+      refund_pending: ['refunded'],
+      refunded: []
+    }
+  },
+  seeruStatus: {
+    label: 'supplier status',
+    timelinePrefix: 'seeru_',
+    transitions: {
+      pending: ['initiated', 'validated', 'new', 'saved', 'failed', 'expired'],
+      initiated: ['pending', 'validated', 'new', 'saved', 'failed', 'expired'],
+      validated: ['pending', 'new', 'saved', 'failed', 'expired'],
+      new: ['saved', 'confirmed', 'issued', 'saved_not_issued', 'failed', 'cancelled', 'expired'],
+      saved: ['confirmed', 'issued', 'saved_not_issued', 'failed', 'cancelled', 'expired'],
+      saved_not_issued: ['saved', 'issued', 'failed', 'cancelled', 'expired'],
+      confirmed: ['issued', 'failed', 'cancelled', 'expired'],
+      issued: ['cancelled'],
+      // Failed bookings may be re-booked or have issuance retried
+      failed: ['pending', 'initiated', 'new', 'saved', 'issued', 'cancelled', 'expired'],
+      expired: ['pending', 'initiated'],
+      cancelled: []
+    }
+  }
+};
+
+class InvalidTransitionError extends Error {
+  constructor(field, from, to) {
+    const { label } = MACHINES[field];
+    super(`Cannot change ${label} from "${from}" to "${to}"`);
+    this.name = 'InvalidTransitionError';
+    this.statusCode = 409;
+    this.field = field;
+    this.from = from;
+    this.to = to;
+  }
+}
+
+/**
+ * List the states a booking field may move to next
+ * @param {string} field - 'status', 'paymentStatus' or 'seeruStatus'
+ * @param {string} from - Current value
+ * @returns {Array<string>}
+ */
+function getAllowedTransitions(field, from) {
+  const machine = MACHINES[field];
+  if (!machine) throw new Error(`Unknown booking status field: ${field}`);
+  // Bookings created before a field existed may move to any state
+  if (!from) return Object.keys(machine.transitions);
+  return machine.transitions[from] || [];
+}
+
+/**
+ * Check whether a status change is legal
+ * @param {string} field - 'status', 'paymentStatus' or 'seeruStatus'
+ * @param {string} from - Current value
+ * @param {string} to - Requested value
+ * @returns {boolean}
+ */
+function canTransition(field, from, to) {
+  return from === to || getAllowedTransitions(field, from).includes(to);
+}
+
+/**
+ * Move a booking field to a new state and record it on the timeline.
+ * Does not save the booking.
+ * @param {Object} booking - FlightBooking document
+ * @param {string} field - 'status', 'paymentStatus' or 'seeruStatus'
+ * @param {string} to - Requested value
+ * @param {Object} [options]
+ * @param {string} [options.notes] - Timeline note
+ * @param {string} [options.updatedBy] - Who made the change
+ * @returns {boolean} - False when the booking was already in that state
+ * @throws {InvalidTransitionError}
+ */
+function transition(booking, field, to, { notes, updatedBy = 'system' } = {}) {
+  const machine = MACHINES[field];
+  if (!machine) throw new Error(`Unknown booking status field: ${field}`);
+  if (!Object.prototype.hasOwnProperty.call(machine.transitions, to)) {
+    throw new InvalidTransitionError(field, booking[field], to);
+  }
+
+  const from = booking[field];
+  if (from === to) return false;
+  if (!canTransition(field, from, to)) {
+    throw new InvalidTransitionError(field, from, to);
+  }
+
+  booking[field] = to;
+  // paymentDetails.status mirrors the root payment status
+  if (field === 'paymentStatus' && booking.paymentDetails) {
+    booking.paymentDetails.status = to;
+  }
+
+  booking.timeline = booking.timeline || [];
+  booking.timeline.push({
+    status: `${machine.timelinePrefix}${to}`,
+    date: new Date(),
+    notes: notes || `${machine.label.charAt(0).toUpperCase()}${machine.label.slice(1)} changed from ${from || 'none'} to ${to}`,
+    updatedBy
+  });
+  return true;
+}
+
+const setBookingStatus = (booking, to, options) => transition(booking, 'status', to, options);
+const setPaymentStatus = (booking, to, options) => transition(booking, 'paymentStatus', to, options);
+const setSupplierStatus = (booking, to, options) => transition(booking, 'seeruStatus', to, options);
+
+/**
+ * Next legal states for every status field, for admin UIs
+ * @param {Object} booking - FlightBooking document
+ * @returns {{ status: Array<string>, paymentStatus: Array<string>, seeruStatus: Array<string> }}
+ */
+function getBookingTransitions(booking) {
+  return {
+    status: getAllowedTransitions('status', booking.status),
+    paymentStatus: getAllowedTransitions('paymentStatus', booking.paymentStatus),
+    seeruStatus: getAllowedTransitions('seeruStatus', booking.seeruStatus)
+  };
+}
+
+module.exports = {
+  BOOKING_STATUSES: Object.keys(MACHINES.status.transitions),
+  PAYMENT_STATUSES: Object.keys(MACHINES.paymentStatus.transitions),
+  SUPPLIER_STATUSES: Object.keys(MACHINES.seeruStatus.transitions),
+  InvalidTransitionError,
+  getAllowedTransitions,
+  canTransition,
+  transition,
+  setBookingStatus,
+  setPaymentStatus,
+  setSupplierStatus,
+  getBookingTransitions
+};
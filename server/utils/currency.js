@@ -0,0 +1,134 @@
+/**
+ * Currency Utility
+ *
+ * Flight prices coming from Seeru are quoted in USD. Exchange rates for every
+ * other currency are managed by admins and stored in the `currencyRates`
+ * Setting as a list of entries, each with the date it becomes effective:
+ *
+ *   [{ currency: 'SYP', rate: 13000, effectiveFrom: '2025-01-01T00:00:00.000Z' }]
+ *
+ * The active rate for a currency is the entry with the latest `effectiveFrom`
+ * that is not in the future. The legacy single `sypRate` Setting is still
+ * honoured as a fallback for SYP.
+ */
+
+const Setting = require('../models/Setting');
+
+const BASE_CURRENCY = 'USD';
+const CURRENCY_RATES_KEY = 'currencyRates';
+const LEGACY_SYP_RATE_KEY = 'sypRate';
+
+// Currencies admins may configure; the payment gateway settles in SYP.
+const SUPPORTED_CURRENCIES = ['USD', 'SYP', 'EUR', 'TRY', 'AED', 'SAR'];
+const PAYMENT_CURRENCY = 'SYP';
+
+/**
+ * Validate and normalise raw rate entries
+ * @param {Array} entries - Raw entries (e.g. from a request body)
+ * @returns {{ entries: Array, error: string|null }}
+ */
+function normalizeRateEntries(entries) {
+  if (!Array.isArray(entries)) {
+    return { entries: [], error: 'Rates must be an array' };
+  }
+
+  const normalized = [];
+  for (const entry of entries) {
+    const currency = String(entry?.currency || '').trim().toUpperCase();
+    const rate = Number(entry?.rate);
+    const effectiveFrom = entry?.effectiveFrom ? new Date(entry.effectiveFrom) : new Date();
+
+    if (!SUPPORTED_CURRENCIES.includes(currency) || currency === BASE_CURRENCY) {
+      return { entries: [], error: `Unsupported currency: ${entry?.currency}` };
+    }
+    if (!Number.isFinite(rate) || rate <= 0) {
+      return { entries: [], error: `Invalid rate for ${currency}` };
+    }
+    if (isNaN(effectiveFrom.getTime())) {
+      return { entries: [], error: `Invalid effective date for ${currency}` };
+    }
+
+    normalized.push({ currency, rate, effectiveFrom: effectiveFrom.toISOString() });
+  }
+
+  normalized.sort((a, b) => new Date(a.effectiveFrom) - new Date(b.effectiveFrom));
+  return { entries: normalized, error: null };
+}
+
+/**
+ * Load every configured rate entry, including the legacy SYP rate
+ * @returns {Promise<Array>} - Rate entries sorted by effective date
+ */
+async function getRateEntries() {
+  const setting = await Setting.findOne({ key: CURRENCY_RATES_KEY }).lean();
+  const entries = Array.isArray(setting?.value) ? [...setting.value] : [];
+
+  if (!entries.some(e => e.currency === PAYMENT_CURRENCY)) {
+    const legacy = await Setting.findOne({ key: LEGACY_SYP_RATE_KEY }).lean();
+    const legacyRate = Number(legacy?.value);
+    if (Number.isFinite(legacyRate) && legacyRate > 0) {
+      entries.push({ currency: PAYMENT_CURRENCY, rate: legacyRate, effectiveFrom: new Date(0).toISOString() });
+    }
+  }
+
+  return entries.sort((a, b) => new Date(a.effectiveFrom) - new Date(b.effectiveFrom));
+}
+
+/**
+ * Resolve the rate in force for each currency at a given moment
+ * @param {Array} entries - Rate entries
+ * @param {Date} at - Moment to resolve rates for (default: now)
+ * @returns {object} - Map of currency code to rate (USD is always 1)
+ */
+function resolveActiveRates(entries, at = new Date()) {
+  const rates = { [BASE_CURRENCY]: 1 };
+  const activeSince = {};
+
+  for (const entry of entries || []) {
+    const since = new Date(entry.effectiveFrom);
+    if (since > at) continue;
+    if (!activeSince[entry.currency] || since >= activeSince[entry.currency]) {
+      activeSince[entry.currency] = since;
+      rates[entry.currency] = Number(entry.rate);
+    }
+  }
+
+  return rates;
+}
+
+/**
+ * Get the active rates for all configured currencies
+ * @param {Date} at - Moment to resolve rates for (default: now)
+ * @returns {Promise<object>} - Map of currency code to rate
+ */
+async function getActiveRates(at = new Date()) {
+  return resolveActiveRates(await getRateEntries(), at);
+}
+
+/**
+ * Convert a USD amount into another currency using the active rate
+ * @param {number} amountUsd - Amount in USD
+ * @param {string} currency - Target currency code
+ * @param {Date} at - Moment to resolve the rate for (default: now)
+ * @returns {Promise<{ amount: number, rate: number }>} - Converted amount and the rate used
+ */
+async function convertFromUsd(amountUsd, currency, at = new Date()) {
+  const rates = await getActiveRates(at);
+  const rate = rates[currency];
+  if (!rate) {
+    throw new Error(`No exchange rate configured for ${currency}`);
+  }
+  return { amount: Number(amountUsd) * rate, rate };
+}
+
+module.exports = {
+  BASE_CURRENCY,
+  CURRENCY_RATES_KEY,
+  SUPPORTED_CURRENCIES,
+  PAYMENT_CURRENCY,
+  normalizeRateEntries,
+  getRateEntries,
+  resolveActiveRates,
+  getActiveRates,
+  convertFromUsd,
+};
@@ -0,0 +1,277 @@
+const fs = require('fs');
+const path = require('path');
+const FlightBooking = require('../models/FlightBooking');
+const { priceSelectedFlight, setBookingPricing } = require('../services/pricingService');
+
+// Load airports data to try to resolve IATA codes when missing
+const airportsJsonPath = path.join(__dirname, '../data/airports.json');
+let airports = [];
+try {
+  airports = JSON.parse(fs.readFileSync(airportsJsonPath, 'utf8'));
+} catch (err) {
+  console.warn('Could not load airports.json for IATA resolution:', err.message);
+}
+
+const findAirportIataForLabel = (label) => {
+  if (!label) return null;
+  const s = String(label).trim().toLowerCase();
+  // If it's already a 3-letter IATA
+  if (/^[a-z]{3}$/.test(s)) return s.toUpperCase();
+
+  // Try to match exact iata_code
+  const byIata = airports.find(a => a.iata_code && a.iata_code.toLowerCase() === s);
+  if (byIata) return byIata.iata_code;
+
+  // Try matching by name, municipality or Arabic equivalents
+  const byName = airports.find(a => {
+    return (
+      (a.name && a.name.toLowerCase().includes(s)) ||
+      (a.name_arbic && a.name_arbic.toLowerCase().includes(s)) ||
+      (a.municipality && a.municipality.toLowerCase().includes(s)) ||
+      (a.municipality_arbic && a.municipality_arbic.toLowerCase().includes(s)) ||
+      (a.country && a.country.toLowerCase().includes(s)) ||
+      (a.country_arbic && a.country_arbic.toLowerCase().includes(s))
+    );
+  });
+  if (byName) return byName.iata_code;
+
+  return null;
+};
+
+// Helper function to generate a unique booking ID (Example: BK-1001)
+async function generateBookingId() {
+  const lastBooking = await FlightBooking.findOne().sort({ createdAt: -1 });
+  let nextIdNumber = 1001;
+  if (lastBooking && lastBooking.bookingId) {
+    const lastIdNumber = parseInt(lastBooking.bookingId.split("-")[1]);
+    if (!isNaN(lastIdNumber)) {
+      nextIdNumber = lastIdNumber + 1;
+    }
+  }
+  return `BK-${nextIdNumber}`;
+}
+
+const extractFlightId = (f) => {
+  return (
+    f.flightId || f.flightnumber || f.trip_id ||
+    (f.legs && f.legs[0] && f.legs[0].segments && f.legs[0].segments[0] && (f.legs[0].segments[0].flightnumber || f.legs[0].segments[0].flightId)) ||
+    ''
+  );
+};
+
+const extractAirline = (f) => {
+  return (
+    f.airline || f.airline_name ||
+    (f.legs && f.legs[0] && f.legs[0].segments && f.legs[0].segments[0] && (f.legs[0].segments[0].airline_name || f.legs[0].segments[0].airline)) ||
+    ''
+  );
+};
+
+const extractDate = (val) => {
+  if (!val) return null;
+  const d = new Date(val);
+  if (!isNaN(d.getTime())) return d;
+  return null;
+};
+
+/**
+ * Normalise passenger forms into the shape stored on FlightBooking.passengerDetails
+ * @param {Array} passengerDetails - Passenger forms from the client
+ * @returns {Array}
+ */
+function normalizePassengerDetails(passengerDetails) {
+  return (passengerDetails || []).map(p => ({
+    firstName: p.firstName || '',
+    lastName: p.lastName || '',
+    gender: p.gender || '',
+    dob: p.dob ? new Date(p.dob) : null,
+    passportNumber: p.passportNumber || '',
+    passportIssueDate: p.passportIssueDate ? new Date(p.passportIssueDate) : null,
+    passportExpiryDate: p.passportExpiryDate ? new Date(p.passportExpiryDate) : null,
+    passportCountry: p.passportCountry || '',
+    nationality: p.nationality || '',
+    phone: p.phone || '',
+    email: p.email || '',
+    type: p.type || 'adult'
+  }));
+}
+
+/**
+ * Identify a flight so the same fare is not added to a cart twice
+ * @param {Object} flightDetails - Flight details as sent by the client
+ * @returns {{ flightId: string, departureTime: number|null }}
+ */
+function getFlightIdentity(flightDetails) {
+  const rawFlight = flightDetails?.selectedFlight || {};
+  const departure = extractDate(rawFlight.departureTime)
+    || extractDate(rawFlight.legs?.[0]?.from?.date)
+    || extractDate(flightDetails?.departureDate);
+  return {
+    flightId: String(extractFlightId(rawFlight) || ''),
+    departureTime: departure ? departure.getTime() : null
+  };
+}
+
+/**
+ * Normalise client flight details into the FlightBooking.flightDetails shape
+ * @param {Object} flightDetails - Flight details as sent by the client
+ * @returns {{ flightDetails: Object, fareKey: string|null, fareBrand: string|undefined }}
+ */
+function normalizeFlightDetails(flightDetails) {
+  // Extract flight details
+  const {
+    from,
+    to,
+    departureDate,
+    passengers,
+    selectedFlight
+  } = flightDetails;
+
+  // Attempt to resolve IATA codes if not provided in the payload
+  const resolvedFromIata = flightDetails.fromIata || findAirportIataForLabel(from) || null;
+  const resolvedToIata = flightDetails.toIata || findAirportIataForLabel(to) || null;
+
+  // Resolve airline code/logo from selectedFlight if not top-level provided
+  const resolvedAirlineCode = flightDetails.airlineCode || selectedFlight?.airlineCode || selectedFlight?.airline_code || null;
+  const resolvedAirlineLogo = flightDetails.airlineLogo || selectedFlight?.airlineLogo || selectedFlight?.airline_logo_url || null;
+
+  // Normalize raw flight object from selectedFlight for downstream processing
+  const rawFlight = selectedFlight || {};
+
+  // Resolve Seeru integration keys from incoming payload/raw flight
+  const resolvedFareKey = rawFlight.fareKey || rawFlight.fare_key || null;
+  const resolvedFareBrand = rawFlight.fareBrand || rawFlight.fare_brand || undefined;
+
+  const flightIdVal = extractFlightId(rawFlight);
+  const airlineVal = extractAirline(rawFlight);
+  const departureVal = extractDate(rawFlight.departureTime) || extractDate(rawFlight.legs?.[0]?.from?.date) || extractDate(departureDate) || new Date();
+  const arrivalVal = extractDate(rawFlight.arrivalTime) || extractDate(rawFlight.legs?.[0]?.to?.date) || new Date(departureVal.getTime() + 2 * 60 * 60 * 1000); // default +2h
+
+  // Normalize price object
+  let priceObj = { total: 0, currency: 'USD' };
+  if (rawFlight.price && typeof rawFlight.price === 'object') {
+    priceObj.total = Number(rawFlight.price.total || rawFlight.price.amount || 0) || 0;
+    priceObj.currency = rawFlight.price.currency || rawFlight.price.currency_code || 'USD';
+  } else if (typeof rawFlight.price === 'number') {
+    priceObj.total = rawFlight.price;
+    priceObj.currency = rawFlight.currency || 'USD';
+  }
+
+  return {
+    flightDetails: {
+      from,
+      to,
+      fromIata: resolvedFromIata,
+      toIata: resolvedToIata,
+      departureDate,
+      passengers,
+      selectedFlight: {
+        flightId: flightIdVal || '',
+        airline: airlineVal || '',
+        departureTime: departureVal,
+        arrivalTime: arrivalVal,
+        price: priceObj,
+        class: rawFlight.class || rawFlight.cabin || 'economy',
+        airlineCode: resolvedAirlineCode,
+        airlineLogo: resolvedAirlineLogo,
+        // include fareKey for downstream seeru processing
+        fareKey: resolvedFareKey || undefined,
+        // store raw provider flight object for full UI rendering
+        raw: selectedFlight || {}
+      }
+    },
+    fareKey: resolvedFareKey,
+    fareBrand: resolvedFareBrand
+  };
+}
+
+/**
+ * Create a pending FlightBooking (cart item) for a user from client flight details
+ * @param {Object} user - User document
+ * @param {Object} flightDetails - Flight details as sent by the client
+ * @param {Array} passengerForms - Optional passenger forms collected before the booking existed
+ * @returns {Promise<Object>} - Created FlightBooking document
+ */
+async function createFlightBookingForUser(user, flightDetails, passengerForms) {
+  const normalized = normalizeFlightDetails(flightDetails);
+  const passengerDetails = normalizePassengerDetails(passengerForms || flightDetails.passengerDetails);
+
+  // Generate a unique booking ID
+  const bookingId = await generateBookingId();
+
+  // The customer price comes from the supplier fare and the pricing rules, not from the client
+  const pricing = await priceSelectedFlight(flightDetails.selectedFlight);
+
+  // Create a FlightBooking document (specific collection for flights)
+  const booking = new FlightBooking({
+    bookingId,
+    userId: user._id,
+    customerName: user.name,
+    customerEmail: user.email,
+    customerPhone: user.phone || '', // Add phone for Seeru integration
+    // Add passenger and contact data for Seeru integration
+    passengers: flightDetails.passengers || [],
+    passengerDetails,
+    contact: {
+      full_name: user.name,
+      email: user.email,
+      mobile: user.phone || '',
+      phone: user.phone || ''
+    },
+    flightDetails: {
+      ...normalized.flightDetails,
+      passengerDetails
+    },
+    status: "pending",
+    paymentStatus: "pending",
+    ticketDetails: {
+      additionalDocuments: []
+    },
+    paymentDetails: {
+      status: "pending",
+      currency: flightDetails.selectedFlight?.price?.currency || 'USD',
+      transactions: []
+    },
+    timeline: [{ status: 'created', timestamp: new Date(), description: 'Booking created and added to cart' }]
+  });
+  if (pricing) {
+    setBookingPricing(booking, pricing);
+  }
+  await booking.save();
+
+  // Persist fare metadata at booking root if available (helps server-side processors)
+  if (normalized.fareKey) {
+    booking.fareKey = normalized.fareKey;
+  }
+  if (normalized.fareBrand) {
+    booking.fareBrand = normalized.fareBrand;
+  }
+  if (normalized.fareKey || normalized.fareBrand) {
+    try { await booking.save(); } catch (e) { /* ignore non-fatal persist errors */ }
+  }
+
+  return booking;
+}
+
+// Timeline entries a customer may see: their own ticket changes, not staff or system history
+const CUSTOMER_TIMELINE_STATUSES = ['refunded', 'refund_failed', 'voided', 'void_failed', 'exchanged', 'exchange_failed'];
+
+/**
+ * Timeline of a booking as shown to its customer
+ * @param {Object} booking - FlightBooking document or plain object
+ * @returns {Array<{ status: string, date: Date, notes: string }>}
+ */
+function getCustomerTimeline(booking) {
+  return (booking.timeline || [])
+    .filter(event => CUSTOMER_TIMELINE_STATUSES.includes(event.status))
+    .map(event => ({ status: event.status, date: event.date, notes: event.notes }));
+}
+
+module.exports = {
+  findAirportIataForLabel,
+  normalizePassengerDetails,
+  normalizeFlightDetails,
+  getFlightIdentity,
+  getCustomerTimeline,
+  createFlightBookingForUser
+};
@@ -0,0 +1,99 @@
+/**
+ * Roles & Permissions
+ * Staff roles and the admin permissions each one grants. `authorize()` in
+ * middleware/auth.js accepts role names or any of these permissions.
+ */
+
+const PERMISSIONS = [
+  'dashboard:view',
+  'reports:view',
+  'bookings:view',
+  'bookings:manage', // status changes, ticket upload and sending
+  'bookings:delete',
+  'supplier:manage', // Seeru order actions
+  'payments:refund',
+  'users:view',
+  'users:manage',
+  'users:delete',
+  'notifications:send',
+  'support:manage', // support tickets and contact messages
+  'destinations:manage',
+  'newsletter:send',
+  'currency:manage', // exchange rates, including the SYP rate
+  'pricing:manage', // markup and service-fee rules
+  'promotions:manage', // promo codes
+  'settings:view',
+  'settings:manage', // integrations such as seeruTravelEnabled
+  'webhooks:view',
+  'webhooks:replay',
+  'audit:view'
+];
+
+const ROLE_PERMISSIONS = {
+  user: [],
+  admin: PERMISSIONS,
+  finance: [
+    'dashboard:view',
+    'reports:view',
+    'bookings:view',
+    'payments:refund',
+    'currency:manage',
+    'pricing:manage',
+    'promotions:manage',
+    'settings:view',
+    'audit:view'
+  ],
+  support: [
+    'dashboard:view',
+    'bookings:view',
+    'users:view',
+    'notifications:send',
+    'support:manage',
+    'webhooks:view'
+  ],
+  content_editor: [
+    'dashboard:view',
+    'destinations:manage',
+    'newsletter:send'
+  ]
+};
+
+const ROLES = Object.keys(ROLE_PERMISSIONS);
+const STAFF_ROLES = ROLES.filter(role => role !== 'user');
+
+/**
+ * Permissions granted to a role
+ * @param {string} role
+ * @returns {Array<string>}
+ */
+function getRolePermissions(role) {
+  return ROLE_PERMISSIONS[role] || [];
+}
+
+/**
+ * Check whether a role grants a permission
+ * @param {string} role
+ * @param {string} permission
+ * @returns {boolean}
+ */
+function hasPermission(role, permission) {
+  return getRolePermissions(role).includes(permission);
+}
+
+/**
+ * Staff roles may open the admin area; what they see depends on their permissions
+ * @param {string} role
+ * @returns {boolean}
+ */
+function isStaff(role) {
+  return STAFF_ROLES.includes(role);
+}
+
+module.exports = {
+  PERMISSIONS,
+  ROLES,
+  STAFF_ROLES,
+  getRolePermissions,
+  hasPermission,
+  isStaff
+};
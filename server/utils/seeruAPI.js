@@ -192,6 +192,64 @@ seeruClient.interceptors.response.use(
   }
 );
 
+/**
+ * Start a flight search with Seeru
+ * @param {string} trips - Trips string in Seeru format (ORIGIN-DESTINATION-YYYYMMDD, joined by ":")
+ * @param {Object} passengers - Passenger counts { adults, children, infants }
+ * @param {Object} options - Search options { cabin, direct }
+ * @returns {Promise<Object>} - Result with search_id
+ */
+async function searchFlights(trips, passengers, options = {}) {
+  try {
+    const { adults = 1, children = 0, infants = 0 } = passengers || {};
+    const response = await seeruClient.get(`/search/${trips}/${adults}/${children}/${infants}`, {
+      params: {
+        cabin: options.cabin || 'e',
+        direct: options.direct ? 1 : 0
+      }
+    });
+
+    if (!response.data?.search_id) {
+      return { success: false, error: response.data?.message || 'No search_id returned' };
+    }
+    return { success: true, searchId: response.data.search_id };
+  } catch (error) {
+    const errorMsg = error.response?.data?.message || error.response?.data?.error || error.message;
+    console.error('❌ Seeru search error:', errorMsg);
+    return { success: false, error: errorMsg };
+  }
+}
+
+/**
+ * Fetch (a page of) results for a Seeru search
+ * @param {string} searchId - Search ID returned by searchFlights
+ * @param {number} after - Last result index already received
+ * @returns {Promise<Object>} - Result with raw flights, completion percentage and last_result
+ */
+async function getSearchResults(searchId, after) {
+  try {
+    const response = await seeruClient.get(`/result/${searchId}`, {
+      params: after !== undefined ? { after } : {}
+    });
+    const complete = typeof response.data?.complete === 'number'
+      ? response.data.complete
+      : (response.data?.complete ? 100 : 0);
+
+    return {
+      success: true,
+      data: {
+        complete,
+        result: Array.isArray(response.data?.result) ? response.data.result : [],
+        lastResult: typeof response.data?.last_result === 'number' ? response.data.last_result : after
+      }
+    };
+  } catch (error) {
+    const errorMsg = error.response?.data?.message || error.response?.data?.error || error.message;
+    console.error('❌ Seeru search results error:', errorMsg);
+    return { success: false, error: errorMsg };
+  }
+}
+
 /**
  * Check fare validity with Seeru
  * @param {Object} bookingData - Flight booking data (from search result)
@@ -244,6 +302,9 @@ async function checkFareValidity(bookingData) {
       return {
         success: true,
         fareKey: response.data.booking?.fare_key || response.data.fare_key,
+        price: response.data.booking?.price,
+        tax: response.data.booking?.tax,
+        booking: response.data.booking,
         message: response.data.message
       };
     } else {
@@ -351,6 +412,7 @@ async function saveBooking(bookingData, passengers, contact) {
         success: true,
         orderId: response.data.order_id,
         message: response.data.message,
+        timeLimit: getTicketingTimeLimit(response.data),
         data: response.data
       };
     } else {
@@ -963,7 +1025,37 @@ function transformContactToSeeru(contact) {
   };
 }
 
+// Field names suppliers use for the deadline to ticket an unissued order
+const TIME_LIMIT_KEYS = [
+  'ticketing_time_limit',
+  'ticket_time_limit',
+  'time_limit',
+  'last_ticketing_date',
+  'tktl',
+  'ttl'
+];
+
+/**
+ * Find the ticketing time limit in a Seeru order response
+ * @param {Object} data - Response body from /booking/save or /order/details
+ * @returns {Date|null} - Deadline to issue the ticket, when the supplier reports one
+ */
+function getTicketingTimeLimit(data) {
+  const sources = [data, data?.payload, data?.payload?.booking, data?.booking];
+  for (const source of sources) {
+    if (!source || typeof source !== 'object') continue;
+    for (const key of TIME_LIMIT_KEYS) {
+      if (!source[key]) continue;
+      const date = new Date(source[key]);
+      if (!Number.isNaN(date.getTime())) return date;
+    }
+  }
+  return null;
+}
+
 module.exports = {
+  searchFlights,
+  getSearchResults,
   checkFareValidity,
   saveBooking,
   issueTicket,
@@ -978,6 +1070,7 @@ module.exports = {
   transformBookingToSeeru,
   transformPassengersToSeeru,
   transformContactToSeeru,
+  getTicketingTimeLimit,
   getCountryISOCode,
   seeruClient
 };
@@ -7,6 +7,8 @@ const {
   transformPassengersToSeeru,
   transformContactToSeeru
 } = require('./seeruAPI');
+const { setSupplierStatus } = require('./bookingStateMachine');
+const { repriceFromSupplierTotal } = require('../services/pricingService');
 
 /**
  * Check if Seeru integration is enabled
@@ -34,7 +36,7 @@ async function checkFareValidityIfEnabled(booking) {
 
     if (!enabled) {
       console.log('Seeru integration is disabled. Booking saved locally only.');
-      booking.seeruStatus = 'pending';
+      setSupplierStatus(booking, 'pending');
       await booking.save();
       return {
         success: true,
@@ -46,7 +48,7 @@ async function checkFareValidityIfEnabled(booking) {
     // Check if Seeru API credentials are configured
     if (!process.env.SEERU_API_KEY || !process.env.SEERU_API_BASE_URL) {
       console.warn('Seeru API credentials not configured. Skipping Seeru processing.');
-      booking.seeruStatus = 'pending';
+      setSupplierStatus(booking, 'pending');
       booking.seeruError = 'Seeru API credentials not configured';
       await booking.save();
       return {
@@ -78,7 +80,7 @@ async function checkFareValidityIfEnabled(booking) {
     console.log('⏭️ Skipping /booking/fare (Seeru validates during /booking/save)');
     
     // Status: Initiated (ready for passenger details and booking save)
-    booking.seeruStatus = 'initiated';
+    setSupplierStatus(booking, 'initiated');
     booking.seeruValidated = false; // Will be validated during save
     booking.seeruValidatedAt = new Date();
     booking.seeruError = null; // Clear any previous errors
@@ -93,7 +95,7 @@ async function checkFareValidityIfEnabled(booking) {
   } catch (error) {
     console.error('❌ Error in checkFareValidityIfEnabled:', error);
     // Set to 'pending' so it can be retried when passenger details are saved
-    booking.seeruStatus = 'pending';
+    setSupplierStatus(booking, 'pending');
     booking.seeruError = `Booking preparation error: ${error.message}`;
     await booking.save();
     return {
@@ -105,6 +107,56 @@ async function checkFareValidityIfEnabled(booking) {
   }
 }
 
+/**
+ * Re-price a booking with Seeru right before payment
+ * Falls back to the stored price when the integration is disabled or unreachable, but only
+ * when that price was worked out on the server; otherwise the booking can't be paid.
+ * A new supplier fare is priced again with the pricing rules, so `total` is what the customer pays.
+ * @param {Object} booking - FlightBooking document
+ * @returns {Promise<Object>} - Result with success flag, repriced total (USD), new pricing, Seeru's fare and any error
+ */
+async function repriceBookingIfEnabled(booking) {
+  const storedTotal = Number(booking.flightDetails?.selectedFlight?.price?.total);
+  // Without server-side pricing the stored total is whatever the client posted
+  const storedPrice = booking.pricing?.pricedAt
+    ? { success: true, repriced: false, total: storedTotal }
+    : { success: false, repriced: false, total: storedTotal, error: 'The fare could not be verified; please search for this flight again' };
+
+  const enabled = await isSeeruEnabled();
+  if (!enabled || !process.env.SEERU_API_KEY || !process.env.SEERU_API_BASE_URL) {
+    return storedPrice;
+  }
+
+  const fareCheck = await checkFareValidity(transformBookingToSeeru(booking));
+  if (!fareCheck.success) {
+    if (fareCheck.isNetworkError) {
+      console.warn('⚠️ Seeru unreachable while re-pricing; using stored price for booking:', booking.bookingId);
+      return storedPrice;
+    }
+    return { success: false, repriced: false, total: storedTotal, error: fareCheck.error };
+  }
+
+  if (fareCheck.fareKey) {
+    booking.fareKey = fareCheck.fareKey;
+  }
+  booking.seeruValidated = true;
+  booking.seeruValidatedAt = new Date();
+
+  const supplierTotal = Number(fareCheck.price);
+  if (!Number.isFinite(supplierTotal) || supplierTotal <= 0) {
+    return storedPrice;
+  }
+
+  const pricing = await repriceFromSupplierTotal(booking, supplierTotal, fareCheck.booking);
+  return {
+    success: true,
+    repriced: true,
+    total: pricing.total,
+    pricing,
+    fare: fareCheck.booking || { price: fareCheck.price, tax: fareCheck.tax }
+  };
+}
+
 /**
  * Save booking with Seeru (Step 2: When passenger details are saved)
  * @param {Object} booking - FlightBooking document
@@ -126,7 +178,7 @@ async function processSeeruBookingIfEnabled(booking) {
     // Check if Seeru API credentials are configured
     if (!process.env.SEERU_API_KEY || !process.env.SEERU_API_BASE_URL) {
       console.warn('Seeru API credentials not configured. Skipping Seeru processing.');
-      booking.seeruStatus = 'pending';
+      setSupplierStatus(booking, 'pending');
       booking.seeruError = 'Seeru API credentials not configured';
       await booking.save();
       return {
@@ -150,7 +202,7 @@ async function processSeeruBookingIfEnabled(booking) {
     
     if (!fareKey) {
       console.warn('⚠️ No fare_key found in booking. Seeru requires fare_key from search result.');
-      booking.seeruStatus = 'pending';
+      setSupplierStatus(booking, 'pending');
       booking.seeruError = 'No fare_key from search result. Booking saved locally.';
       await booking.save();
       
@@ -201,7 +253,7 @@ async function processSeeruBookingIfEnabled(booking) {
 
     if (!saveResult.success) {
       console.error('Failed to save booking with Seeru:', saveResult.error);
-      booking.seeruStatus = 'failed';
+      setSupplierStatus(booking, 'failed');
       booking.seeruError = `Save failed: ${saveResult.error}`;
       await booking.save();
 
@@ -215,7 +267,7 @@ async function processSeeruBookingIfEnabled(booking) {
 
     // Store Seeru order ID
     booking.seeruOrderId = saveResult.orderId;
-    booking.seeruStatus = 'new'; // Status: New (order created in Seeru)
+    setSupplierStatus(booking, 'new'); // Status: New (order created in Seeru)
     booking.seeruSavedAt = new Date();
 
     // NOTE: Ticket issuance is now done AFTER payment confirmation
@@ -231,6 +283,7 @@ async function processSeeruBookingIfEnabled(booking) {
       data: {
         bookingId: booking._id,
         orderId: saveResult.orderId,
+        timeLimit: saveResult.timeLimit,
         status: 'saved',
         nextStep: 'Payment confirmation required to issue ticket'
       }
@@ -240,7 +293,7 @@ async function processSeeruBookingIfEnabled(booking) {
 
     // Update booking with error status
     try {
-      booking.seeruStatus = 'failed';
+      setSupplierStatus(booking, 'failed');
       booking.seeruError = error.message;
       await booking.save();
     } catch (saveError) {
@@ -286,6 +339,7 @@ function getBookingStatusSummary(booking) {
 module.exports = {
   isSeeruEnabled,
   checkFareValidityIfEnabled,
+  repriceBookingIfEnabled,
   processSeeruBookingIfEnabled,
   getBookingStatusSummary
 };